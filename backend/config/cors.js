@@ -0,0 +1,19 @@
+// Origins the frontend is served from; every CORS response follows this list
+export const allowedOrigins = [
+  "http://localhost:5173",
+  "https://smart-waste-management-for-sustaina-beryl.vercel.app"
+];
+
+export const corsOptions = {
+  origin: function (origin, callback) {
+    // allow requests with no origin (mobile apps, postman)
+    if (!origin) return callback(null, true);
+
+    if (allowedOrigins.indexOf(origin) !== -1) {
+      callback(null, true);
+    } else {
+      callback(new Error("Not allowed by CORS"));
+    }
+  },
+  credentials: true,
+};
@@ -1,5 +1,15 @@
 import jwt from 'jsonwebtoken';
-import User from '../models/User.js';
+import User, { GLOBAL_ROLES } from '../models/User.js';
+import { findTenant, requireTenant } from './tenant.js';
+import { permissionsFor, isPlatformPermission } from '../services/permissions.js';
+
+// Tenant a signed-in user works in (see middleware/tenant.js), or
+// undefined when their municipality has been switched off
+const tenantForUser = async (user, requestedTenant) => {
+  if (GLOBAL_ROLES.includes(user.role)) return requestedTenant;
+  const tenant = await findTenant(user.tenant);
+  return tenant ? tenant._id : undefined;
+};
 
 // ✅ Authentication middleware
 export const authenticate = async (req, res, next) => {
@@ -31,7 +41,19 @@ export const authenticate = async (req, res, next) => {
       });
     }
 
+    const tenant = await tenantForUser(user, req.tenant || null);
+    if (tenant === undefined) {
+      return res.status(403).json({
+        success: false,
+        message: 'Your municipality is not active on this platform.'
+      });
+    }
+
     req.user = user;
+    req.tenant = tenant;
+    req.permissions = new Set(await permissionsFor(user, tenant));
+    // Long-lived responses (event streams) end when the token does
+    req.tokenExpiresAt = decoded.exp ? new Date(decoded.exp * 1000) : null;
     next();
   } catch (error) {
     console.error('Authentication error:', error);
@@ -57,8 +79,11 @@ export const authenticate = async (req, res, next) => {
   }
 };
 
-// ✅ Authorization middleware
-export const authorize = (...roles) => {
+// Whether the signed-in user holds a permission (see services/permissions.js)
+export const can = (req, permission) => Boolean(req.permissions?.has(permission));
+
+// ✅ Authorization middleware: the user needs every listed permission
+export const requirePermission = (...permissions) => {
   return (req, res, next) => {
     if (!req.user) {
       return res.status(401).json({
@@ -67,15 +92,21 @@ export const authorize = (...roles) => {
       });
     }
 
-    if (!roles.includes(req.user.role)) {
+    const missing = permissions.filter(permission => !can(req, permission));
+    if (missing.length > 0) {
       return res.status(403).json({
         success: false,
         message: 'Access denied. Insufficient permissions.',
-        required: roles,
-        current: req.user.role
+        required: missing
       });
     }
 
+    // Global roles hold municipality permissions too, but only inside the
+    // municipality they selected
+    if (GLOBAL_ROLES.includes(req.user.role) && !permissions.every(isPlatformPermission)) {
+      return requireTenant(req, res, next);
+    }
+
     next();
   };
 };
@@ -91,7 +122,12 @@ export const optionalAuth = async (req, res, next) => {
       const user = await User.findById(decoded.id || decoded.userId).select('-password');
       
       if (user && user.isActive) {
-        req.user = user;
+        const tenant = await tenantForUser(user, req.tenant || null);
+        if (tenant !== undefined) {
+          req.user = user;
+          req.tenant = tenant;
+          req.permissions = new Set(await permissionsFor(user, tenant));
+        }
       }
     }
     
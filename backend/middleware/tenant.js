@@ -0,0 +1,84 @@
+import Tenant from '../models/Tenant.js';
+
+/* ============================================================================
+   Tenant resolution
+   ----------------------------------------------------------------------------
+   Every request works inside one municipality (tenant), kept in req.tenant:
+
+     - anonymous requests use the X-Tenant header (tenant slug or id), or
+       DEFAULT_TENANT when the header is missing
+     - signed-in users always work in their own tenant; authenticate()
+       overrides whatever the header said
+     - super admins have no tenant of their own and use the header to pick
+       the municipality they are working on
+
+   Routes scope every query with { tenant: req.tenant }. When no tenant is
+   known req.tenant is null, and { tenant: null } matches every document
+   without a tenant, super admins included. Routes open to anonymous callers
+   or to super admins therefore use requireTenant (requirePermission does so
+   for municipality permissions).
+
+   Configuration (environment):
+     - DEFAULT_TENANT : slug used when a request names no tenant
+============================================================================ */
+
+export const TENANT_HEADER = 'X-Tenant';
+
+// Tenants rarely change; a short cache saves a lookup on every request
+const CACHE_TTL_MS = 60 * 1000;
+const cache = new Map();
+
+/**
+ * Active tenant by id or slug (lean, cached), or null.
+ */
+export const findTenant = async (idOrSlug) => {
+  if (!idOrSlug) return null;
+
+  const key = String(idOrSlug).toLowerCase();
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.tenant;
+
+  const tenant = await Tenant.findActive(idOrSlug).select('name slug branding timezone').lean();
+  cache.set(key, { tenant, expiresAt: Date.now() + CACHE_TTL_MS });
+  return tenant;
+};
+
+// Forget cached tenants, e.g. after one was renamed or switched off
+export const clearTenantCache = () => cache.clear();
+
+// ✅ Tenant middleware (runs before authentication)
+export const resolveTenant = async (req, res, next) => {
+  try {
+    req.tenant = null;
+
+    const requested = req.header(TENANT_HEADER);
+    const tenant = await findTenant(requested || process.env.DEFAULT_TENANT);
+
+    if (requested && !tenant) {
+      return res.status(404).json({
+        success: false,
+        message: 'Municipality not found.'
+      });
+    }
+
+    req.tenant = tenant?._id || null;
+    next();
+  } catch (error) {
+    console.error('Tenant resolution error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while resolving municipality.'
+    });
+  }
+};
+
+// ✅ Require a tenant (for super admins, who must pick one first)
+export const requireTenant = (req, res, next) => {
+  if (!req.tenant) {
+    return res.status(400).json({
+      success: false,
+      message: `Select a municipality first (${TENANT_HEADER} header).`
+    });
+  }
+  next();
+};
@@ -0,0 +1,102 @@
+import mongoose from 'mongoose';
+
+// What a badge rule can measure about a user
+export const BADGE_METRICS = {
+  reports_submitted: 'Reports filed (merged duplicates do not count)',
+  reports_verified: 'Own reports whose collection they confirmed',
+  training_completed: 'Training modules passed',
+  training_category: 'Every active training module of one category passed',
+  reporting_streak: 'Longest run of consecutive days with a report',
+  points_earned: 'Lifetime points earned'
+};
+
+// Badges a municipality starts with; admins can edit or switch them off
+export const DEFAULT_BADGES = [
+  {
+    key: 'first-report',
+    name: 'First Report',
+    description: 'Filed your first waste report',
+    rule: { metric: 'reports_submitted', threshold: 1 }
+  },
+  {
+    key: 'trusted-reporter',
+    name: 'Trusted Reporter',
+    description: 'Confirmed the collection of 10 of your reports',
+    rule: { metric: 'reports_verified', threshold: 10 }
+  },
+  {
+    key: 'compost-master',
+    name: 'Compost Master',
+    description: 'Passed every composting module',
+    rule: { metric: 'training_category', threshold: 1, category: 'composting' }
+  },
+  {
+    key: 'eager-learner',
+    name: 'Eager Learner',
+    description: 'Passed 5 training modules',
+    rule: { metric: 'training_completed', threshold: 5 }
+  },
+  {
+    key: 'streak-30',
+    name: 'Streak Keeper',
+    description: 'Reported waste 30 days in a row',
+    rule: { metric: 'reporting_streak', threshold: 30 }
+  }
+];
+
+// Achievement a user earns once its rule is met (see services/achievements.js)
+const badgeSchema = new mongoose.Schema({
+  tenant: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  // Stable identifier; earned badges keep it even if the name changes
+  key: {
+    type: String,
+    required: [true, 'Badge key is required'],
+    lowercase: true,
+    trim: true,
+    match: [/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Key may only contain letters, numbers and dashes']
+  },
+  name: {
+    type: String,
+    required: [true, 'Badge name is required'],
+    trim: true,
+    maxlength: [60, 'Badge name cannot exceed 60 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Description cannot exceed 200 characters']
+  },
+  rule: {
+    metric: {
+      type: String,
+      enum: Object.keys(BADGE_METRICS),
+      required: true
+    },
+    // Value the metric must reach
+    threshold: {
+      type: Number,
+      default: 1,
+      min: 1
+    },
+    // Training category, for training_category rules
+    category: String
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+badgeSchema.index({ tenant: 1, key: 1 }, { unique: true });
+
+export default mongoose.model('Badge', badgeSchema);
@@ -0,0 +1,74 @@
+import mongoose from 'mongoose';
+import { COLLECTION_STREAMS, DAY_PATTERN, TIME_PATTERN } from './CollectionSchedule.js';
+
+export const EXCEPTION_ACTIONS = ['cancel', 'move'];
+
+// Change to the regular pickups of one day: a holiday (usually the whole
+// municipality) or the rescheduling of a single schedule. Pickups due on
+// `date` are cancelled or moved to `movedTo`.
+const collectionExceptionSchema = new mongoose.Schema({
+  tenant: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  date: {
+    type: String,
+    required: true,
+    match: [DAY_PATTERN, 'Dates look like 2024-05-31']
+  },
+  // Holiday name or reason shown to citizens
+  name: {
+    type: String,
+    required: [true, 'Say why the pickups change'],
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  action: {
+    type: String,
+    enum: EXCEPTION_ACTIONS,
+    required: true
+  },
+  movedTo: {
+    type: String,
+    match: [DAY_PATTERN, 'Dates look like 2024-05-31'],
+    required: [function() { return this.action === 'move'; }, 'Moved pickups need a new date']
+  },
+  // New time of moved pickups; they keep their usual time otherwise
+  time: {
+    type: String,
+    match: [TIME_PATTERN, 'Times look like 08:00']
+  },
+  // Only this schedule; otherwise every schedule in `zones` and `streams`
+  schedule: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'CollectionSchedule'
+  },
+  // Empty = all zones / all streams
+  zones: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Zone'
+  }],
+  streams: [{
+    type: String,
+    enum: COLLECTION_STREAMS
+  }],
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+collectionExceptionSchema.index({ tenant: 1, date: 1 });
+
+// Method to check whether the exception applies to a schedule
+collectionExceptionSchema.methods.covers = function(schedule) {
+  if (this.schedule) return this.schedule.toString() === schedule._id.toString();
+  const zone = (schedule.zone?._id || schedule.zone).toString();
+  return (this.zones.length === 0 || this.zones.some(id => id.toString() === zone)) &&
+    (this.streams.length === 0 || this.streams.includes(schedule.stream));
+};
+
+export default mongoose.model('CollectionException', collectionExceptionSchema);
@@ -0,0 +1,40 @@
+import mongoose from 'mongoose';
+
+// Evening-before reminder sent to a citizen about their pickups of one day.
+// One per user and day, so repeated reminder runs never remind twice.
+const collectionReminderSchema = new mongoose.Schema({
+  tenant: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Day of the pickups ("YYYY-MM-DD", local)
+  date: {
+    type: String,
+    required: true
+  },
+  pickups: [{
+    _id: false,
+    stream: String,
+    time: String,
+    // Set when the pickup was moved here from its usual day
+    originalDate: String
+  }],
+  message: {
+    type: String,
+    required: true
+  },
+  sentAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+collectionReminderSchema.index({ user: 1, date: 1 }, { unique: true });
+
+export default mongoose.model('CollectionReminder', collectionReminderSchema);
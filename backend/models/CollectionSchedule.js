@@ -0,0 +1,82 @@
+import mongoose from 'mongoose';
+
+// Waste streams collected at the kerb
+export const COLLECTION_STREAMS = ['general', 'recyclables', 'organic', 'hazardous', 'electronic', 'bulky'];
+
+// Calendar day and time of day, local to the municipality's time zone
+export const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+export const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Recurring pickup of one waste stream in one zone, e.g. recyclables in
+// ward 12 every other Tuesday at 08:00. Holidays and one-off changes are
+// CollectionExceptions.
+const collectionScheduleSchema = new mongoose.Schema({
+  // Municipality the schedule belongs to
+  tenant: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  zone: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Zone',
+    required: [true, 'A schedule covers one zone']
+  },
+  stream: {
+    type: String,
+    enum: COLLECTION_STREAMS,
+    required: true
+  },
+  days: {
+    type: [{
+      type: Number, // 0 = Sunday ... 6 = Saturday
+      min: 0,
+      max: 6
+    }],
+    validate: {
+      validator: (days) => days.length > 0,
+      message: 'Pick at least one collection day'
+    }
+  },
+  // 1 = every week, 2 = every other week, ...; weeks are counted from startsOn
+  everyWeeks: {
+    type: Number,
+    min: 1,
+    max: 4,
+    default: 1
+  },
+  startsOn: {
+    type: String,
+    required: true,
+    match: [DAY_PATTERN, 'Dates look like 2024-05-31']
+  },
+  endsOn: {
+    type: String,
+    match: [DAY_PATTERN, 'Dates look like 2024-05-31']
+  },
+  // When the truck comes ("HH:MM")
+  time: {
+    type: String,
+    match: [TIME_PATTERN, 'Times look like 08:00'],
+    default: '08:00'
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [300, 'Notes cannot exceed 300 characters']
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+collectionScheduleSchema.index({ tenant: 1, zone: 1, stream: 1 });
+
+export default mongoose.model('CollectionSchedule', collectionScheduleSchema);
@@ -0,0 +1,67 @@
+import mongoose from 'mongoose';
+
+export const DELIVERY_CHANNELS = ['email', 'sms', 'push'];
+
+// cancelled: the user turned the channel off before it was sent
+export const DELIVERY_STATUSES = ['pending', 'sending', 'sent', 'failed', 'cancelled'];
+
+// One message on its way to a user over email, SMS or web push. Queued by
+// services/delivery.js for each notification and worked off in the
+// background, so a slow or failing provider never holds up a request.
+const deliverySchema = new mongoose.Schema({
+  tenant: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  notification: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Notification'
+  },
+  channel: {
+    type: String,
+    enum: DELIVERY_CHANNELS,
+    required: true
+  },
+  // Email address or phone number; push goes to all of the user's browsers
+  to: String,
+  // Rendered message (see services/deliveryTemplates.js)
+  content: {
+    subject: String,
+    text: String,
+    html: String,
+    url: String
+  },
+  status: {
+    type: String,
+    enum: DELIVERY_STATUSES,
+    default: 'pending'
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  // Not sent before this time: quiet hours or the next retry
+  notBefore: {
+    type: Date,
+    default: Date.now
+  },
+  // When a worker took the message; stale locks are taken over
+  lockedAt: Date,
+  lastError: String,
+  sentAt: Date
+}, {
+  timestamps: true
+});
+
+deliverySchema.index({ status: 1, notBefore: 1 });
+deliverySchema.index({ user: 1, createdAt: -1 });
+// Kept for a month; anything still pending by then is long outdated
+deliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export default mongoose.model('Delivery', deliverySchema);
@@ -0,0 +1,90 @@
+import mongoose from 'mongoose';
+
+// How one worker scored for a report, kept so admins can see why a worker
+// was (or was not) picked
+const dispatchCandidateSchema = new mongoose.Schema({
+  worker: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  name: String,
+  eligible: Boolean,
+  excludedReasons: [String],
+  distanceMeters: Number,
+  locationSource: {
+    type: String,
+    enum: ['last_known', 'address', 'unknown']
+  },
+  openAssignments: Number,
+  onShift: Boolean,
+  matchedSkills: [String],
+  scores: {
+    distance: Number,
+    workload: Number,
+    skills: Number,
+    total: Number
+  }
+}, { _id: false });
+
+// Record of every auto-dispatch run
+const dispatchDecisionSchema = new mongoose.Schema({
+  // Municipality the decision belongs to
+  tenant: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  report: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'WasteReport',
+    required: true
+  },
+  // Zone whose settings applied; null for the default settings
+  zone: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Zone',
+    default: null
+  },
+  trigger: {
+    type: String,
+    enum: ['report_created', 'offer_declined', 'manual'],
+    required: true
+  },
+  mode: {
+    type: String,
+    enum: ['assign', 'offer']
+  },
+  outcome: {
+    type: String,
+    enum: ['assigned', 'offered', 'no_candidate', 'disabled'],
+    required: true
+  },
+  selectedWorker: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  requiredSkills: [String],
+  preferredSkills: [String],
+  settings: {
+    maxDistanceMeters: Number,
+    weights: {
+      distance: Number,
+      workload: Number,
+      skills: Number
+    }
+  },
+  candidates: [dispatchCandidateSchema],
+  summary: String,
+  triggeredBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+dispatchDecisionSchema.index({ report: 1, createdAt: -1 });
+dispatchDecisionSchema.index({ tenant: 1, createdAt: -1 });
+dispatchDecisionSchema.index({ createdAt: -1 });
+
+export default mongoose.model('DispatchDecision', dispatchDecisionSchema);
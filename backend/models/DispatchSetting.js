@@ -0,0 +1,68 @@
+import mongoose from 'mongoose';
+import { ZONE_KINDS } from './Zone.js';
+
+// Auto-dispatch configuration. One document per zone (models/Zone.js) and
+// municipality; the default document (no zone) applies to every zone
+// without its own settings.
+const dispatchSettingSchema = new mongoose.Schema({
+  // Municipality the settings belongs to
+  tenant: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  // null: the municipality's default settings
+  zone: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Zone',
+    default: null
+  },
+  enabled: {
+    type: Boolean,
+    default: false
+  },
+  // assign: the best worker gets the report straight away
+  // offer : the best worker is asked first and may decline
+  mode: {
+    type: String,
+    enum: ['assign', 'offer'],
+    default: 'offer'
+  },
+  maxDistanceMeters: {
+    type: Number,
+    default: 10000,
+    min: 100
+  },
+  // Relative weight of each scoring factor
+  weights: {
+    distance: { type: Number, default: 0.5, min: 0 },
+    workload: { type: Number, default: 0.3, min: 0 },
+    skills: { type: Number, default: 0.2, min: 0 }
+  },
+  updatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+dispatchSettingSchema.index({ tenant: 1, zone: 1 }, { unique: true });
+
+// How the default settings are addressed in the API
+export const DEFAULT_ZONE = 'default';
+
+// Static method to get the settings that apply to a report in `zones`: those
+// of a ward before those of its district, else the default
+dispatchSettingSchema.statics.forZones = async function(zones, tenant) {
+  const settings = await this.find({ tenant, zone: { $in: [...zones, null] } })
+    .populate('zone', 'name kind');
+  const zoned = settings
+    .filter(setting => setting.zone)
+    .sort((a, b) => ZONE_KINDS.indexOf(b.zone.kind) - ZONE_KINDS.indexOf(a.zone.kind));
+  return zoned[0] ||
+    settings.find(setting => !setting.zone) ||
+    new this({ tenant, zone: null });
+};
+
+export default mongoose.model('DispatchSetting', dispatchSettingSchema);
@@ -1,6 +1,13 @@
 import mongoose from 'mongoose';
+import Zone from './Zone.js';
 
 const facilitySchema = new mongoose.Schema({
+  // Municipality the facility belongs to
+  tenant: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
   name: {
     type: String,
     required: true,
@@ -54,6 +61,12 @@ const facilitySchema = new mongoose.Schema({
       }
     }
   },
+  // Zones (district, ward) the location falls in; kept up to date on save
+  // and when zones are imported
+  zones: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Zone'
+  }],
   contact: {
     phone: {
       type: String,
@@ -158,7 +171,21 @@ const facilitySchema = new mongoose.Schema({
 
 // Index for geospatial queries
 facilitySchema.index({ 'location': '2dsphere' });
+facilitySchema.index({ tenant: 1, isActive: 1 });
 facilitySchema.index({ type: 1, isActive: 1 });
 facilitySchema.index({ 'acceptedWasteTypes': 1 });
+facilitySchema.index({ zones: 1 });
+
+// Tag the facility with the zones its location falls in
+facilitySchema.pre('save', async function(next) {
+  if (!this.isModified('location')) return next();
+
+  try {
+    this.zones = await Zone.idsForPoint(this.location?.coordinates, this.tenant);
+    next();
+  } catch (error) {
+    next(error);
+  }
+});
 
 export default mongoose.model('Facility', facilitySchema);
\ No newline at end of file
@@ -0,0 +1,76 @@
+import mongoose from 'mongoose';
+
+// What a notification is about; the frontend picks its icon from this
+export const NOTIFICATION_TYPES = [
+  'report_claimed',
+  'report_assigned',
+  'report_offered',
+  'report_status',
+  'report_returned',
+  'report_reopened',
+  'report_verified',
+  'report_merged',
+  'training_completed',
+  'penalty_issued',
+  'penalty_updated',
+  'redemption_created',
+  'redemption_fulfilled',
+  'redemption_cancelled',
+  'collection_reminder'
+];
+
+// Message shown to one user in their notification centre. Created by
+// services/notifications.js when something happens that concerns them.
+const notificationSchema = new mongoose.Schema({
+  tenant: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: NOTIFICATION_TYPES,
+    required: true
+  },
+  title: {
+    type: String,
+    required: true,
+    maxlength: [120, 'Title cannot exceed 120 characters']
+  },
+  message: {
+    type: String,
+    maxlength: [500, 'Message cannot exceed 500 characters']
+  },
+  // Page of the app to open, e.g. /dashboard
+  link: String,
+  // Ids of what it is about (report, penalty, redemption, ...)
+  data: {
+    type: mongoose.Schema.Types.Mixed
+  },
+  readAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+notificationSchema.index({ user: 1, createdAt: -1 });
+notificationSchema.index({ user: 1, readAt: 1 });
+
+// Static method to count a user's unread notifications
+notificationSchema.statics.unreadCount = function(userId) {
+  return this.countDocuments({ user: userId, readAt: null });
+};
+
+// Static method to mark all of a user's notifications read
+notificationSchema.statics.markAllRead = function(userId) {
+  return this.updateMany({ user: userId, readAt: null }, { $set: { readAt: new Date() } });
+};
+
+export default mongoose.model('Notification', notificationSchema);
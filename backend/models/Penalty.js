@@ -0,0 +1,116 @@
+import mongoose from 'mongoose';
+import { reportImageSchema } from './WasteReport.js';
+
+export const PENALTY_VIOLATIONS = [
+  'illegal_dumping',
+  'not_segregating',
+  'burning_waste',
+  'littering',
+  'other'
+];
+
+// pending  : issued, to be paid
+// disputed : the citizen contests it; an admin decides
+// paid     : settled
+// waived   : dropped, by an admin or because a dispute was upheld
+export const PENALTY_STATUSES = ['pending', 'disputed', 'paid', 'waived'];
+
+export const PENALTY_ACTIONS = ['issued', 'disputed', 'dispute_upheld', 'dispute_rejected', 'paid', 'waived'];
+
+// One step in a penalty's audit history
+const penaltyHistorySchema = new mongoose.Schema({
+  action: {
+    type: String,
+    enum: PENALTY_ACTIONS,
+    required: true
+  },
+  fromStatus: {
+    type: String,
+    enum: PENALTY_STATUSES
+  },
+  toStatus: {
+    type: String,
+    enum: PENALTY_STATUSES,
+    required: true
+  },
+  by: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  notes: String,
+  at: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Fine issued to a citizen for a violation, usually found through a report.
+// Status only changes through services/penalties.js, which appends to
+// `history` with every change.
+const penaltySchema = new mongoose.Schema({
+  tenant: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  // Citizen who has to pay
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  report: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'WasteReport'
+  },
+  violation: {
+    type: String,
+    enum: PENALTY_VIOLATIONS,
+    default: 'other'
+  },
+  amount: {
+    type: Number,
+    required: [true, 'Amount is required'],
+    min: [0, 'Amount cannot be negative']
+  },
+  reason: {
+    type: String,
+    required: [true, 'Reason is required'],
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  },
+  dueDate: Date,
+  evidence: [reportImageSchema],
+  status: {
+    type: String,
+    enum: PENALTY_STATUSES,
+    default: 'pending'
+  },
+  issuedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  dispute: {
+    statement: String,
+    submittedAt: Date
+  },
+  payment: {
+    reference: String,
+    paidAt: Date
+  },
+  history: [penaltyHistorySchema]
+}, {
+  timestamps: true
+});
+
+penaltySchema.index({ tenant: 1, status: 1, createdAt: -1 });
+penaltySchema.index({ user: 1, createdAt: -1 });
+penaltySchema.index({ report: 1 });
+penaltySchema.index({ 'evidence.filename': 1 });
+
+// Method to get an evidence photo by its filename
+penaltySchema.methods.getImageByFilename = function(filename) {
+  return (this.evidence || []).find(img => img.filename === filename);
+};
+
+export default mongoose.model('Penalty', penaltySchema);
@@ -0,0 +1,111 @@
+import mongoose from 'mongoose';
+
+// Where points come from (positive amounts) or go to (negative amounts)
+export const POINT_SOURCES = [
+  'report',         // filing a report; revoked when it is merged as a duplicate
+  'training',       // passing a training quiz
+  'verification',   // confirming a completed collection
+  'admin_grant',    // manual correction by an admin
+  'redemption',     // spent on a reward
+  'opening_balance' // points held before the ledger existed
+];
+
+// Sources that count towards lifetime earnings; everything else only moves
+// the spendable balance
+export const EARNING_SOURCES = ['report', 'training', 'verification', 'admin_grant', 'opening_balance'];
+
+// Append-only rewards ledger. A user's `rewards.points` and
+// `rewards.totalEarned` are caches of these entries (see services/points.js).
+const pointTransactionSchema = new mongoose.Schema({
+  tenant: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tenant'
+  },
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  source: {
+    type: String,
+    enum: POINT_SOURCES,
+    required: true
+  },
+  // Report, training module, redemption, ... the entry is about
+  reference: {
+    type: mongoose.Schema.Types.ObjectId
+  },
+  amount: {
+    type: Number,
+    required: true,
+    validate: {
+      validator: (value) => Number.isInteger(value) && value !== 0,
+      message: 'Amount must be a whole, non-zero number of points'
+    }
+  },
+  // Spendable balance right after this entry
+  balance: {
+    type: Number,
+    required: true
+  },
+  reason: {
+    type: String,
+    maxlength: [300, 'Reason cannot exceed 300 characters']
+  },
+  // Who caused the entry when it was not the user themselves (admins)
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  at: {
+    type: Date,
+    default: Date.now,
+    immutable: true
+  }
+}, {
+  versionKey: false
+});
+
+pointTransactionSchema.index({ user: 1, at: -1 });
+// Nothing is credited twice for the same thing (a report, a training module,
+// a refunded redemption), even when two requests race. Also answers
+// hasBeenCredited() in services/points.js.
+pointTransactionSchema.index(
+  { user: 1, source: 1, reference: 1 },
+  { unique: true, partialFilterExpression: { amount: { $gt: 0 }, reference: { $exists: true } } }
+);
+
+// Refuse any attempt to rewrite history
+const refuseMutation = function(next) {
+  next(new Error('Point transactions are append-only'));
+};
+
+pointTransactionSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  refuseMutation
+);
+
+pointTransactionSchema.pre('save', function(next) {
+  if (!this.isNew) return refuseMutation(next);
+  next();
+});
+
+// Static method to total a user's ledger: spendable balance and lifetime earnings
+pointTransactionSchema.statics.totalsFor = async function(userId) {
+  const [totals] = await this.aggregate([
+    { $match: { user: new mongoose.Types.ObjectId(String(userId)) } },
+    {
+      $group: {
+        _id: null,
+        points: { $sum: '$amount' },
+        totalEarned: {
+          $sum: { $cond: [{ $in: ['$source', EARNING_SOURCES] }, '$amount', 0] }
+        },
+        entries: { $sum: 1 }
+      }
+    }
+  ]);
+  return totals || { points: 0, totalEarned: 0, entries: 0 };
+};
+
+export default mongoose.model('PointTransaction', pointTransactionSchema);
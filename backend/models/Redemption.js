@@ -0,0 +1,63 @@
+import mongoose from 'mongoose';
+
+export const REDEMPTION_STATUSES = ['pending', 'fulfilled', 'cancelled'];
+
+// A citizen spending points on a reward. Name and cost are copied from the
+// catalogue so later edits to the reward do not change what was bought.
+const redemptionSchema = new mongoose.Schema({
+  tenant: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  reward: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Reward',
+    required: true
+  },
+  rewardName: {
+    type: String,
+    required: true
+  },
+  pointsCost: {
+    type: Number,
+    required: true
+  },
+  // Shown to the partner or staff handing the item over
+  voucherCode: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  status: {
+    type: String,
+    enum: REDEMPTION_STATUSES,
+    default: 'pending'
+  },
+  fulfilledAt: Date,
+  fulfilledBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  cancelledAt: Date,
+  cancelledBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  cancelReason: {
+    type: String,
+    maxlength: [300, 'Reason cannot exceed 300 characters']
+  }
+}, {
+  timestamps: true
+});
+
+redemptionSchema.index({ tenant: 1, status: 1, createdAt: -1 });
+redemptionSchema.index({ user: 1, createdAt: -1 });
+
+export default mongoose.model('Redemption', redemptionSchema);
@@ -0,0 +1,96 @@
+import mongoose from 'mongoose';
+
+// Append-only audit trail for waste reports. Events are only ever inserted;
+// updates and deletes are refused at the model level.
+const reportEventSchema = new mongoose.Schema({
+  report: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'WasteReport',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: [
+      'created',
+      'status_changed',
+      'claimed',
+      'assigned',
+      'verified',
+      'reopened',
+      'photos_added',
+      'reward_awarded',
+      'supported',
+      'merged',
+      'reward_revoked',
+      'dispatch_offered',
+      'dispatch_declined',
+      'completion_approved',
+      'completion_returned'
+    ],
+    required: true
+  },
+  actor: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  actorRole: String,
+  fromStatus: String,
+  toStatus: String,
+  notes: {
+    type: String,
+    maxlength: [1000, 'Notes cannot exceed 1000 characters']
+  },
+  // Event specific details (assigned worker, points awarded, ...)
+  meta: {
+    type: mongoose.Schema.Types.Mixed
+  },
+  at: {
+    type: Date,
+    default: Date.now,
+    immutable: true
+  }
+}, {
+  versionKey: false
+});
+
+reportEventSchema.index({ report: 1, at: 1 });
+reportEventSchema.index({ actor: 1, at: -1 });
+
+// Refuse any attempt to rewrite history
+const refuseMutation = function(next) {
+  next(new Error('Report events are append-only'));
+};
+
+reportEventSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  refuseMutation
+);
+
+reportEventSchema.pre('save', function(next) {
+  if (!this.isNew) return refuseMutation(next);
+  next();
+});
+
+// Static helper to record an event for a report
+reportEventSchema.statics.record = function(report, type, actor, details = {}) {
+  return this.create({
+    report: report._id || report,
+    type,
+    // The system actor has a role but no user id
+    actor: actor?._id || (mongoose.isValidObjectId(actor) ? actor : undefined),
+    actorRole: actor?.role,
+    fromStatus: details.fromStatus,
+    toStatus: details.toStatus,
+    notes: details.notes,
+    meta: details.meta
+  });
+};
+
+// Static helper to get the timeline of a report, oldest first
+reportEventSchema.statics.getHistory = function(reportId) {
+  return this.find({ report: reportId })
+    .populate('actor', 'name role')
+    .sort({ at: 1, _id: 1 });
+};
+
+export default mongoose.model('ReportEvent', reportEventSchema);
@@ -0,0 +1,64 @@
+import mongoose from 'mongoose';
+
+export const REWARD_CATEGORIES = ['compost', 'transport', 'voucher', 'merchandise', 'other'];
+
+// Item of a municipality's rewards catalogue that citizens buy with points
+const rewardSchema = new mongoose.Schema({
+  tenant: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  name: {
+    type: String,
+    required: [true, 'Reward name is required'],
+    trim: true,
+    maxlength: [100, 'Reward name cannot exceed 100 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters']
+  },
+  category: {
+    type: String,
+    enum: REWARD_CATEGORIES,
+    default: 'other'
+  },
+  // Shop, transport operator, ... that honours the voucher
+  partner: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Partner cannot exceed 100 characters']
+  },
+  pointsCost: {
+    type: Number,
+    required: [true, 'Point cost is required'],
+    min: [1, 'A reward must cost at least one point'],
+    validate: {
+      validator: Number.isInteger,
+      message: 'Point cost must be a whole number'
+    }
+  },
+  // Items left; taken atomically on redemption and put back on cancellation
+  stock: {
+    type: Number,
+    required: [true, 'Stock is required'],
+    min: [0, 'Stock cannot be negative']
+  },
+  imageUrl: String,
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+rewardSchema.index({ tenant: 1, isActive: 1, pointsCost: 1 });
+
+export default mongoose.model('Reward', rewardSchema);
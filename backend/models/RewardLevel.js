@@ -0,0 +1,54 @@
+import mongoose from 'mongoose';
+import { REWARD_LEVELS } from './User.js';
+
+// Lifetime points needed for each level until a municipality changes them
+export const DEFAULT_LEVEL_THRESHOLDS = {
+  bronze: 0,
+  silver: 1000,
+  gold: 5000,
+  platinum: 10000
+};
+
+// Points threshold of one reward level in one municipality. Levels without a
+// document use DEFAULT_LEVEL_THRESHOLDS.
+const rewardLevelSchema = new mongoose.Schema({
+  tenant: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  level: {
+    type: String,
+    enum: REWARD_LEVELS,
+    required: true
+  },
+  minPoints: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  updatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+rewardLevelSchema.index({ tenant: 1, level: 1 }, { unique: true });
+
+// Static method to get a municipality's thresholds, highest level first
+rewardLevelSchema.statics.thresholdsFor = async function(tenant) {
+  const thresholds = { ...DEFAULT_LEVEL_THRESHOLDS };
+  if (tenant) {
+    const overrides = await this.find({ tenant }).lean();
+    overrides.forEach(({ level, minPoints }) => { thresholds[level] = minPoints; });
+  }
+  return [...REWARD_LEVELS].reverse().map(level => ({ level, minPoints: thresholds[level] }));
+};
+
+// Level reached with `totalEarned` lifetime points under `thresholds`
+export const levelFor = (totalEarned, thresholds) =>
+  (thresholds.find(({ minPoints }) => totalEarned >= minPoints) || thresholds[thresholds.length - 1]).level;
+
+export default mongoose.model('RewardLevel', rewardLevelSchema);
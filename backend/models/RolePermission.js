@@ -0,0 +1,98 @@
+import mongoose from 'mongoose';
+import { TENANT_ROLES } from './User.js';
+
+// Named permissions inside a municipality. Routes and the UI check these
+// instead of role names, so a new role only needs a permission list.
+export const PERMISSIONS = {
+  'report.create': 'File waste reports and support existing ones',
+  'report.verify': 'Confirm or reopen completed reports they filed',
+  'report.view_all': 'See every report of the municipality, not only their own',
+  'report.claim': 'See unassigned reports, claim them and answer dispatch offers',
+  'report.update': 'Change report status and upload proof of collection',
+  'report.merge': 'Review and merge duplicate reports',
+  'report.assign': 'Assign reports to workers and run auto-dispatch',
+  'location.share': 'Share their live location for auto-dispatch',
+  'team.supervise': 'Watch their team queue, reassign within the team and approve completions',
+  'team.manage': 'Create teams and choose their supervisors and members',
+  'route.drive': 'Follow the collection routes they drive',
+  'route.manage': 'Plan, optimise and delete collection routes',
+  'vehicle.drive': 'Update and report GPS for the vehicle they drive',
+  'vehicle.manage': 'Register vehicles, assign drivers and watch the live fleet',
+  'zone.manage': 'Import and edit districts and wards',
+  'facility.manage': 'Add and edit waste facilities',
+  'schedule.manage': 'Plan collection schedules per zone, holidays and reschedules',
+  'training.author': 'Create training modules',
+  'reward.redeem': 'Spend their points on rewards from the catalogue',
+  'reward.manage': 'Edit the rewards catalogue and fulfil or cancel redemptions',
+  'badge.manage': 'Define badges and the points needed for each reward level',
+  'penalty.issue': 'Issue penalties for violations found through reports',
+  'penalty.manage': 'See all penalties, resolve disputes and mark penalties paid or waived',
+  'dispatch.configure': 'Configure auto-dispatch and review its decisions',
+  'user.manage': 'List users, activate or deactivate them and edit worker profiles',
+  'analytics.view': 'See the admin dashboard and report analytics',
+  'tenant.brand': 'Change the municipality branding',
+  'permission.manage': 'Edit which permissions each role has'
+};
+
+// Permissions over the whole platform; only global roles have them
+export const PLATFORM_PERMISSIONS = {
+  'tenant.manage': 'Create municipalities and switch them on or off'
+};
+
+// What each role may do until a municipality's admins change it
+export const DEFAULT_ROLE_PERMISSIONS = {
+  citizen: ['report.create', 'report.verify', 'reward.redeem'],
+  green_champion: ['report.create', 'report.verify', 'reward.redeem'],
+  waste_worker: [
+    'report.view_all', 'report.claim', 'report.update', 'report.merge',
+    'location.share', 'route.drive', 'vehicle.drive', 'penalty.issue'
+  ],
+  supervisor: ['report.view_all', 'team.supervise', 'penalty.issue'],
+  admin: Object.keys(PERMISSIONS)
+};
+
+// Admins must always be able to undo a bad edit
+export const LOCKED_PERMISSIONS = {
+  admin: ['permission.manage']
+};
+
+// Permissions of one role in one municipality. Roles without a document use
+// DEFAULT_ROLE_PERMISSIONS.
+const rolePermissionSchema = new mongoose.Schema({
+  tenant: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  role: {
+    type: String,
+    enum: TENANT_ROLES,
+    required: true
+  },
+  permissions: [{
+    type: String,
+    enum: Object.keys(PERMISSIONS)
+  }],
+  updatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+rolePermissionSchema.index({ tenant: 1, role: 1 }, { unique: true });
+
+// Static method to get the role -> permissions map of a municipality
+rolePermissionSchema.statics.mapForTenant = async function(tenant) {
+  const map = Object.fromEntries(
+    TENANT_ROLES.map(role => [role, [...(DEFAULT_ROLE_PERMISSIONS[role] || [])]])
+  );
+  if (!tenant) return map;
+
+  const overrides = await this.find({ tenant }).lean();
+  overrides.forEach(({ role, permissions }) => { map[role] = permissions; });
+  return map;
+};
+
+export default mongoose.model('RolePermission', rolePermissionSchema);
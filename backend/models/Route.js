@@ -0,0 +1,114 @@
+import mongoose from 'mongoose';
+
+export const ROUTE_STATUSES = ['planned', 'in_progress', 'completed', 'cancelled'];
+export const STOP_STATUSES = ['pending', 'arrived', 'completed', 'skipped'];
+
+const routeStopSchema = new mongoose.Schema({
+  order: {
+    type: Number,
+    required: true
+  },
+  // report  : an open waste report
+  // pickup  : a scheduled pickup point
+  // disposal: unloading at a facility when the vehicle is full or at the end
+  kind: {
+    type: String,
+    enum: ['report', 'pickup', 'disposal'],
+    required: true
+  },
+  report: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'WasteReport'
+  },
+  facility: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Facility'
+  },
+  label: String,
+  location: {
+    type: [Number], // [longitude, latitude]
+    required: true
+  },
+  // Expected load in the vehicle's capacity unit
+  estimatedLoad: {
+    type: Number,
+    default: 0
+  },
+  plannedArrival: Date,
+  actualArrival: Date,
+  completedAt: Date,
+  status: {
+    type: String,
+    enum: STOP_STATUSES,
+    default: 'pending'
+  },
+  notes: {
+    type: String,
+    maxlength: 500
+  }
+});
+
+const routeSchema = new mongoose.Schema({
+  // Municipality the route belongs to
+  tenant: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  // Start of the day the route is driven
+  date: {
+    type: Date,
+    required: true
+  },
+  vehicle: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Vehicle',
+    required: true
+  },
+  driver: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ROUTE_STATUSES,
+    default: 'planned'
+  },
+  startLocation: {
+    type: [Number] // [longitude, latitude]
+  },
+  endFacility: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Facility',
+    required: true
+  },
+  stops: [routeStopSchema],
+  totalDistanceMeters: {
+    type: Number,
+    default: 0
+  },
+  plannedStart: Date,
+  plannedEnd: Date,
+  actualStart: Date,
+  actualEnd: Date,
+  optimizedAt: Date,
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+routeSchema.index({ tenant: 1, date: 1 });
+routeSchema.index({ driver: 1, date: 1 });
+routeSchema.index({ vehicle: 1, date: 1 });
+routeSchema.index({ 'stops.report': 1 });
+
+// Method to check whether every stop has been dealt with
+routeSchema.methods.isFinished = function() {
+  return this.stops.every(stop => ['completed', 'skipped'].includes(stop.status));
+};
+
+export default mongoose.model('Route', routeSchema);
@@ -0,0 +1,54 @@
+import mongoose from 'mongoose';
+
+// Crew of waste workers led by a supervisor, usually covering one zone.
+// Reports assigned to a member are tagged with the team (see WasteReport).
+const teamSchema = new mongoose.Schema({
+  // Municipality the team belongs to
+  tenant: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  name: {
+    type: String,
+    required: [true, 'Team name is required'],
+    trim: true,
+    maxlength: [100, 'Team name cannot exceed 100 characters']
+  },
+  supervisor: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'A team needs a supervisor']
+  },
+  members: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+  // Area the team works in; its unassigned reports show in the team queue
+  zone: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Zone'
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+teamSchema.index({ tenant: 1, name: 1 }, { unique: true });
+teamSchema.index({ tenant: 1, supervisor: 1 });
+teamSchema.index({ members: 1 });
+
+// Method to check whether a user is a member of the team
+teamSchema.methods.hasMember = function(userId) {
+  const id = (userId?._id || userId)?.toString();
+  return this.members.some(member => (member?._id || member).toString() === id);
+};
+
+export default mongoose.model('Team', teamSchema);
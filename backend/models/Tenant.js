@@ -0,0 +1,72 @@
+import mongoose from 'mongoose';
+
+// Whether the runtime knows an IANA time zone such as "Asia/Kolkata"
+export const isTimeZone = (value) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// A municipality using the platform. Users, reports, facilities, training,
+// vehicles, routes and zones all belong to exactly one tenant.
+const tenantSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot be more than 100 characters']
+  },
+  // Short identifier sent by clients in the X-Tenant header
+  slug: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true,
+    match: [/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Slug may only contain letters, numbers and dashes']
+  },
+  branding: {
+    displayName: String,
+    logoUrl: String,
+    primaryColor: {
+      type: String,
+      match: [/^#[0-9a-fA-F]{6}$/, 'Colour must look like #16a34a'],
+      default: '#16a34a'
+    },
+    supportEmail: String,
+    supportPhone: String
+  },
+  // IANA time zone; collection days and reminder times are local to it
+  timezone: {
+    type: String,
+    default: 'UTC',
+    validate: {
+      validator: (value) => isTimeZone(value),
+      message: 'Unknown time zone'
+    }
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// Static method to find an active tenant by id or slug
+tenantSchema.statics.findActive = function(idOrSlug) {
+  const query = mongoose.isValidObjectId(idOrSlug)
+    ? { $or: [{ _id: idOrSlug }, { slug: String(idOrSlug).toLowerCase() }] }
+    : { slug: String(idOrSlug).toLowerCase() };
+
+  return this.findOne({ ...query, isActive: true });
+};
+
+export default mongoose.model('Tenant', tenantSchema);
@@ -1,5 +1,14 @@
 import mongoose from 'mongoose';
 
+export const TRAINING_CATEGORIES = [
+  'waste_sorting',
+  'recycling',
+  'composting',
+  'hazardous_waste',
+  'reduction_tips',
+  'environmental_impact'
+];
+
 // 🔹 Media Schema
 const mediaSchema = new mongoose.Schema({
   type: {
@@ -34,6 +43,8 @@ const quizSchema = new mongoose.Schema({
 
 // 🔹 Training Schema
 const trainingSchema = new mongoose.Schema({
+  // Municipality whose catalogue the module is in
+  tenant: { type: mongoose.Schema.Types.ObjectId, ref: 'Tenant', required: true },
   title: {
     type: String,
     required: [true, 'Training title is required'],
@@ -46,14 +57,7 @@ const trainingSchema = new mongoose.Schema({
   },
   category: {
     type: String,
-    enum: [
-      'waste_sorting',
-      'recycling',
-      'composting',
-      'hazardous_waste',
-      'reduction_tips',
-      'environmental_impact'
-    ],
+    enum: TRAINING_CATEGORIES,
     required: [true, 'Category is required']
   },
   level: {
@@ -93,6 +97,8 @@ const trainingSchema = new mongoose.Schema({
   }
 }, { timestamps: true });
 
+trainingSchema.index({ tenant: 1, isActive: 1 });
+
 // 🔹 UPDATED: Single Training Progress Schema per User (with trainingData array)
 const trainingProgressSchema = new mongoose.Schema({
   user: { 
@@ -1,13 +1,35 @@
 import mongoose from 'mongoose';
+import Zone from './Zone.js';
 import bcrypt from 'bcryptjs';
 
+// Roles inside a municipality, and roles that span all municipalities
+export const TENANT_ROLES = ['citizen', 'waste_worker', 'supervisor', 'admin', 'green_champion'];
+export const GLOBAL_ROLES = ['super_admin'];
+
+// Admin rights inside a municipality; super admins have them in any
+// municipality they pick
+export const isAdmin = (user) => user?.role === 'admin' || user?.role === 'super_admin';
+
+// Reward levels, lowest first. How many lifetime points each needs is set
+// per municipality (see RewardLevel.js).
+export const REWARD_LEVELS = ['bronze', 'silver', 'gold', 'platinum'];
+
 const userSchema = new mongoose.Schema({
+  // Municipality the user belongs to; super admins belong to none
+  tenant: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: function() {
+      return !GLOBAL_ROLES.includes(this.role);
+    }
+  },
   name: {
     type: String,
     required: [true, 'Name is required'],
     trim: true,
     maxlength: [100, 'Name cannot be more than 100 characters']
   },
+  // Unique across municipalities so signing in needs only the email
   email: {
     type: String,
     required: [true, 'Email is required'],
@@ -23,7 +45,7 @@ const userSchema = new mongoose.Schema({
   },
   role: {
     type: String,
-    enum: ['citizen', 'waste_worker', 'admin', 'green_champion'],
+    enum: [...TENANT_ROLES, ...GLOBAL_ROLES],
     default: 'citizen'
   },
   phone: {
@@ -41,11 +63,19 @@ const userSchema = new mongoose.Schema({
       index: '2dsphere'
     }
   },
+  // Zones (district, ward) the location falls in; kept up to date on save
+  // and when zones are imported
+  zones: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Zone'
+  }],
   profile: {
     avatar: String,
     bio: String,
     dateOfBirth: Date
   },
+  // Cached from the points ledger (models/PointTransaction.js); change them
+  // through services/points.js only
   rewards: {
     points: {
       type: Number,
@@ -57,23 +87,24 @@ const userSchema = new mongoose.Schema({
     },
     level: {
       type: String,
-      enum: ['bronze', 'silver', 'gold', 'platinum'],
+      enum: REWARD_LEVELS,
       default: 'bronze'
-    }
-  },
-  penalties: [{
-    amount: Number,
-    reason: String,
-    date: {
-      type: Date,
-      default: Date.now
     },
-    status: {
-      type: String,
-      enum: ['pending', 'paid', 'disputed'],
-      default: 'pending'
-    }
-  }],
+    // Earned achievements; name and description are copied from the badge
+    badges: [{
+      badge: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Badge'
+      },
+      key: String,
+      name: String,
+      description: String,
+      earnedAt: {
+        type: Date,
+        default: Date.now
+      }
+    }]
+  },
   training: {
     completedModules: [String],
     certificates: [{
@@ -109,20 +140,99 @@ const userSchema = new mongoose.Schema({
     collectionReminders: {
       type: Boolean,
       default: true
+    },
+    // No email, SMS or push between these local times ("HH:MM"); deliveries
+    // wait until the end. The window may run past midnight.
+    quietHours: {
+      start: {
+        type: String,
+        match: [/^([01]\d|2[0-3]):[0-5]\d$/, 'Quiet hours look like 22:00']
+      },
+      end: {
+        type: String,
+        match: [/^([01]\d|2[0-3]):[0-5]\d$/, 'Quiet hours look like 07:00']
+      }
     }
   },
+  // Dispatch information for waste workers
+  workerProfile: {
+    skills: [{
+      type: String,
+      enum: ['general', 'recycling', 'organic', 'electronic', 'bulky', 'hazardous', 'medical']
+    }],
+    shift: {
+      days: [{
+        type: Number, // 0 = Sunday ... 6 = Saturday
+        min: 0,
+        max: 6
+      }],
+      start: String, // "HH:MM"
+      end: String    // "HH:MM"
+    },
+    maxOpenAssignments: {
+      type: Number,
+      default: 8,
+      min: 1
+    },
+    lastKnownLocation: {
+      coordinates: {
+        type: [Number], // [longitude, latitude]
+        default: undefined
+      },
+      updatedAt: Date
+    }
+  },
+  // Team the user works in (waste workers) or leads (supervisors)
+  team: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Team'
+  },
   isActive: {
     type: Boolean,
     default: true
   },
   lastLogin: Date,
-  refreshToken: String
+  refreshToken: String,
+  // Secret in the user's collection calendar feed URL; replaced to revoke it
+  calendarToken: {
+    type: String,
+    select: false
+  },
+  // Browsers that receive web push notifications (see services/deliveryChannels.js)
+  pushSubscriptions: {
+    type: [{
+      _id: false,
+      endpoint: {
+        type: String,
+        required: true
+      },
+      keys: {
+        p256dh: {
+          type: String,
+          required: true
+        },
+        auth: {
+          type: String,
+          required: true
+        }
+      },
+      userAgent: String,
+      createdAt: {
+        type: Date,
+        default: Date.now
+      }
+    }],
+    select: false
+  }
 }, {
   timestamps: true
 });
 
 // Index for geospatial queries
 userSchema.index({ 'address.coordinates': '2dsphere' });
+userSchema.index({ zones: 1 });
+userSchema.index({ calendarToken: 1 }, { unique: true, sparse: true });
+userSchema.index({ tenant: 1, role: 1 });
 
 // Pre-save middleware to hash password
 userSchema.pre('save', async function(next) {
@@ -137,26 +247,21 @@ userSchema.pre('save', async function(next) {
   }
 });
 
+// Tag the user with the zones their address falls in
+userSchema.pre('save', async function(next) {
+  if (!this.isModified('address')) return next();
+
+  try {
+    this.zones = await Zone.idsForPoint(this.address?.coordinates, this.tenant);
+    next();
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Method to check password
 userSchema.methods.comparePassword = async function(candidatePassword) {
   return await bcrypt.compare(candidatePassword, this.password);
 };
 
-// Method to update reward points
-userSchema.methods.addRewardPoints = function(points) {
-  this.rewards.points += points;
-  this.rewards.totalEarned += points;
-  
-  // Update level based on total earned points
-  if (this.rewards.totalEarned >= 10000) {
-    this.rewards.level = 'platinum';
-  } else if (this.rewards.totalEarned >= 5000) {
-    this.rewards.level = 'gold';
-  } else if (this.rewards.totalEarned >= 1000) {
-    this.rewards.level = 'silver';
-  }
-  
-  return this.save();
-};
-
 export default mongoose.model('User', userSchema);
\ No newline at end of file
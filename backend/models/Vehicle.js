@@ -1,10 +1,15 @@
 import mongoose from 'mongoose';
 
 const vehicleSchema = new mongoose.Schema({
+  // Municipality the vehicle belongs to
+  tenant: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
   vehicleId: {
     type: String,
     required: true,
-    unique: true,
     uppercase: true
   },
   type: {
@@ -23,20 +28,21 @@ const vehicleSchema = new mongoose.Schema({
       default: 'tons'
     }
   },
+  // Written by telemetry ingestion; left unset until the first GPS fix so
+  // the 2dsphere index never sees an empty point
   currentLocation: {
     type: {
       type: String,
-      enum: ['Point'],
-      default: 'Point'
+      enum: ['Point']
     },
     coordinates: {
       type: [Number], // [longitude, latitude]
-      index: '2dsphere'
+      default: undefined
     },
-    lastUpdated: {
-      type: Date,
-      default: Date.now
-    }
+    lastUpdated: Date,
+    speed: Number,
+    heading: Number,
+    activity: String
   },
   assignedRoute: {
     type: mongoose.Schema.Types.ObjectId,
@@ -61,6 +67,7 @@ const vehicleSchema = new mongoose.Schema({
     nextService: Date,
     mileage: Number
   },
+  // Most recent fixes only; the full history lives in VehicleTrack
   trackingHistory: [{
     location: {
       type: [Number] // [longitude, latitude]
@@ -77,6 +84,8 @@ const vehicleSchema = new mongoose.Schema({
 });
 
 vehicleSchema.index({ 'currentLocation': '2dsphere' });
+// Vehicle ids only need to be unique within a municipality
+vehicleSchema.index({ tenant: 1, vehicleId: 1 }, { unique: true });
 vehicleSchema.index({ status: 1 });
 vehicleSchema.index({ driver: 1 });
 
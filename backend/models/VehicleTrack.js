@@ -0,0 +1,66 @@
+import mongoose from 'mongoose';
+
+export const TRACK_ACTIVITIES = ['driving', 'idle', 'collecting', 'unloading', 'refueling', 'break'];
+
+// GPS fixes for one vehicle, bucketed per hour so a busy day stays a
+// couple of dozen small documents instead of one ever-growing array.
+const vehicleTrackSchema = new mongoose.Schema({
+  vehicle: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Vehicle',
+    required: true
+  },
+  bucketStart: {
+    type: Date,
+    required: true
+  },
+  fixes: [{
+    _id: false,
+    location: {
+      type: [Number] // [longitude, latitude]
+    },
+    timestamp: {
+      type: Date,
+      required: true
+    },
+    speed: Number, // km/h
+    heading: Number,
+    accuracy: Number, // meters
+    activity: {
+      type: String,
+      enum: TRACK_ACTIVITIES
+    },
+    driver: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  }],
+  count: {
+    type: Number,
+    default: 0
+  },
+  distanceMeters: {
+    type: Number,
+    default: 0
+  },
+  // Last fix stored in the bucket, used to measure distance to the next one
+  lastFix: {
+    location: [Number],
+    timestamp: Date
+  },
+  expiresAt: Date
+}, {
+  timestamps: true
+});
+
+vehicleTrackSchema.index({ vehicle: 1, bucketStart: 1 }, { unique: true });
+vehicleTrackSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Static method to get the start of the hour bucket a timestamp falls in
+vehicleTrackSchema.statics.bucketFor = function(timestamp) {
+  return new Date(Math.floor(new Date(timestamp).getTime() / HOUR_MS) * HOUR_MS);
+};
+
+export default mongoose.model('VehicleTrack', vehicleTrackSchema);
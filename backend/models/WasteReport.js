@@ -1,6 +1,111 @@
 import mongoose from 'mongoose';
+import { discardImages } from '../services/imageStorage.js';
+import Zone from './Zone.js';
+import User from './User.js';
+
+// Resized copy of a report photo
+const renditionSchema = new mongoose.Schema({
+  storage: {
+    type: String,
+    enum: ['gridfs', 'local'],
+    required: true
+  },
+  storageKey: {
+    type: String,
+    required: true
+  },
+  checksum: String,
+  mimetype: String,
+  width: Number,
+  height: Number,
+  size: Number
+}, { _id: false });
+
+// Photo stored with a report (citizen photos and collection proof), also
+// used for penalty evidence
+export const reportImageSchema = new mongoose.Schema({
+  filename: {
+    type: String,
+    required: true
+  },
+  originalName: {
+    type: String,
+    required: true
+  },
+  mimetype: {
+    type: String,
+    required: true
+  },
+  size: {
+    type: Number,
+    required: true
+  },
+  // The bytes live in image storage (see services/imageStorage.js)
+  storage: {
+    type: String,
+    enum: ['gridfs', 'local'],
+    required: true
+  },
+  storageKey: {
+    type: String,
+    required: true
+  },
+  // SHA-1 of the content, served as the image's ETag
+  checksum: String,
+  width: Number,
+  height: Number,
+  // Smaller copies for list views, stored next to the original
+  renditions: {
+    thumb: renditionSchema,
+    medium: renditionSchema
+  },
+  // Outcome of comparing the photo's EXIF with the report before it was
+  // stripped; the photo's own position is not kept
+  exif: {
+    takenAt: Date,
+    distanceMeters: Number,
+    locationMismatch: Boolean,
+    timeMismatch: Boolean
+  },
+  // dHash of the picture and its bands (see services/imageProcessing.js)
+  perceptualHash: String,
+  perceptualHashBands: {
+    type: [String],
+    default: undefined
+  },
+  // Set when the same picture was already attached to another report
+  possibleReuseOf: {
+    report: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'WasteReport'
+    },
+    filename: String,
+    distance: Number
+  },
+  uploadedAt: {
+    type: Date,
+    default: Date.now
+  },
+  // Where a photo came from: the original report, a later reopen, a citizen
+  // supporting the report or evidence for a penalty
+  source: {
+    type: String,
+    enum: ['report', 'reopen', 'support', 'penalty'],
+    default: 'report'
+  },
+  // Unsigned path kept on older images; never sent to clients
+  url: {
+    type: String
+  }
+});
 
 const wasteReportSchema = new mongoose.Schema({
+  // Municipality the report belongs to
+  tenant: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
   reporter: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User',
@@ -25,6 +130,12 @@ const wasteReportSchema = new mongoose.Schema({
     },
     description: String
   },
+  // Zones (district, ward) the location falls in; kept up to date on save
+  // and when zones are imported
+  zones: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Zone'
+  }],
   wasteType: {
     type: String,
     enum: [
@@ -68,37 +179,7 @@ const wasteReportSchema = new mongoose.Schema({
     maxlength: [500, 'Description cannot exceed 500 characters']
   },
   // UPDATED: Images now store binary data as Buffer
-  images: [{
-    filename: {
-      type: String,
-      required: true
-    },
-    originalName: {
-      type: String,
-      required: true
-    },
-    mimetype: {
-      type: String,
-      required: true
-    },
-    size: {
-      type: Number,
-      required: true
-    },
-    // CRITICAL: Store image as Buffer (binary data) instead of Base64 string
-    data: {
-      type: Buffer,  // This stores the actual image file as binary data
-      required: true
-    },
-    uploadedAt: {
-      type: Date,
-      default: Date.now
-    },
-    // Keep URL for backward compatibility and reference
-    url: {
-      type: String
-    }
-  }],
+  images: [reportImageSchema],
   status: {
     type: String,
     enum: [
@@ -108,14 +189,63 @@ const wasteReportSchema = new mongoose.Schema({
       'in_progress',
       'completed',
       'verified',
-      'rejected'
+      'rejected',
+      'merged'
     ],
     default: 'reported'
   },
+  // Set when this report was merged into an earlier report of the same issue
+  duplicateOf: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'WasteReport',
+    default: null
+  },
+  duplicateCount: {
+    type: Number,
+    default: 0
+  },
+  // Citizens confirming the issue (+1) instead of filing a new report
+  supporters: [{
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    supportedAt: {
+      type: Date,
+      default: Date.now
+    },
+    notes: String,
+    // Report that was merged into this one on behalf of the supporter
+    mergedReport: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'WasteReport'
+    }
+  }],
   assignedWorker: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User'
   },
+  // Team of the assigned worker, kept in step with assignedWorker
+  team: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Team'
+  },
+  // Pending auto-dispatch offer; the worker either claims or declines it
+  dispatchOffer: {
+    worker: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    offeredAt: Date,
+    decision: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'DispatchDecision'
+    },
+    declinedBy: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    }]
+  },
   assignedVehicle: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Vehicle'
@@ -134,13 +264,22 @@ const wasteReportSchema = new mongoose.Schema({
       ref: 'User'
     },
     notes: String,
-    // These can also store binary data if needed
-    beforeImages: [{
-      type: Buffer
-    }],
-    afterImages: [{
-      type: Buffer
-    }]
+    // Proof of collection photos taken by the worker
+    beforeImages: [reportImageSchema],
+    afterImages: [reportImageSchema]
+  },
+  // Supervisor sign-off on completions of team work
+  completionReview: {
+    status: {
+      type: String,
+      enum: ['pending', 'approved', 'returned']
+    },
+    reviewedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    reviewedAt: Date,
+    notes: String
   },
   verification: {
     verifiedBy: {
@@ -161,6 +300,18 @@ const wasteReportSchema = new mongoose.Schema({
     min: 1,
     max: 5
   },
+  reopenCount: {
+    type: Number,
+    default: 0
+  },
+  reopens: [{
+    reopenedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    reopenedAt: Date,
+    notes: String
+  }],
   rewards: {
     pointsAwarded: {
       type: Number,
@@ -178,26 +329,72 @@ const wasteReportSchema = new mongoose.Schema({
 
 // Index for geospatial queries
 wasteReportSchema.index({ 'location': '2dsphere' });
+wasteReportSchema.index({ tenant: 1, createdAt: -1 });
 wasteReportSchema.index({ status: 1, createdAt: -1 });
 wasteReportSchema.index({ reporter: 1, createdAt: -1 });
 wasteReportSchema.index({ assignedWorker: 1, status: 1 });
+wasteReportSchema.index({ duplicateOf: 1 });
+wasteReportSchema.index({ 'dispatchOffer.worker': 1 });
+wasteReportSchema.index({ zones: 1, createdAt: -1 });
+wasteReportSchema.index({ tenant: 1, team: 1, status: 1 });
 
 // Index for image filename lookup
 wasteReportSchema.index({ 'images.filename': 1 });
+wasteReportSchema.index({ 'actualCollection.beforeImages.filename': 1 });
+wasteReportSchema.index({ 'actualCollection.afterImages.filename': 1 });
+
+// Perceptual hash bands for spotting reused photos
+wasteReportSchema.index({ 'images.perceptualHashBands': 1 });
+wasteReportSchema.index({ 'actualCollection.beforeImages.perceptualHashBands': 1 });
+wasteReportSchema.index({ 'actualCollection.afterImages.perceptualHashBands': 1 });
+
+// Tag the report with the zones its location falls in
+wasteReportSchema.pre('save', async function(next) {
+  if (!this.isModified('location')) return next();
+
+  try {
+    this.zones = await Zone.idsForPoint(this.location?.coordinates, this.tenant);
+    next();
+  } catch (error) {
+    next(error);
+  }
+});
 
-// Transform function to exclude binary data when converting to JSON (for API responses)
+// Team of the report's assigned worker, if any
+const teamOfWorker = async (workerId) => {
+  const worker = workerId ? await User.findById(workerId).select('team') : null;
+  return worker?.team || undefined;
+};
+
+// Follow the assigned worker into their team
+wasteReportSchema.pre('save', async function(next) {
+  if (!this.isModified('assignedWorker')) return next();
+
+  try {
+    this.team = await teamOfWorker(this.assignedWorker);
+    next();
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Drop embedded buffers left on reports that predate image storage
+// (moved out by `npm run migrate:images`)
+const stripImageData = (images) => images.map(img => {
+  // Stored URLs are unsigned; responses get signed ones (services/imageUrls.js)
+  const { data, url, ...imgWithoutData } = img;
+  return imgWithoutData;
+});
+
+// Transform function to keep legacy binary data out of API responses
 wasteReportSchema.set('toJSON', {
-  transform: function(doc, ret, options) {
-    // If specifically requested, include image data, otherwise exclude for performance
-    if (!options.includeImageData && ret.images) {
-      ret.images = ret.images.map(img => {
-        const { data, ...imgWithoutData } = img;
-        return {
-          ...imgWithoutData,
-          hasData: !!data,
-          dataSize: data ? data.length : 0
-        };
-      });
+  transform: function(doc, ret) {
+    if (ret.images) ret.images = stripImageData(ret.images);
+    if (ret.actualCollection?.beforeImages) {
+      ret.actualCollection.beforeImages = stripImageData(ret.actualCollection.beforeImages);
+    }
+    if (ret.actualCollection?.afterImages) {
+      ret.actualCollection.afterImages = stripImageData(ret.actualCollection.afterImages);
     }
     return ret;
   }
@@ -209,9 +406,35 @@ wasteReportSchema.virtual('totalImageSize').get(function() {
   return this.images.reduce((total, img) => total + (img.size || 0), 0);
 });
 
-// Method to get image by filename
+// Method to get image by filename (report photos and collection proof)
 wasteReportSchema.methods.getImageByFilename = function(filename) {
-  return this.images.find(img => img.filename === filename);
+  const candidates = [
+    ...(this.images || []),
+    ...(this.actualCollection?.beforeImages || []),
+    ...(this.actualCollection?.afterImages || [])
+  ];
+  return candidates.find(img => img.filename === filename);
+};
+
+// Method to check whether a user already reported or supported this issue
+wasteReportSchema.methods.isBackedBy = function(userId) {
+  const id = userId.toString();
+  const reporterId = (this.reporter?._id || this.reporter)?.toString();
+  return reporterId === id ||
+    (this.supporters || []).some(s => (s.user?._id || s.user)?.toString() === id);
+};
+
+// Method to save the changes made since the report was read, but only while
+// its status and assigned worker are still the `expected` ones. Resolves to
+// the updated report, or null when another request changed it first.
+wasteReportSchema.methods.saveIfUnchanged = async function(expected) {
+  if (this.isModified('assignedWorker')) this.team = await teamOfWorker(this.assignedWorker);
+
+  return this.constructor.findOneAndUpdate(
+    { _id: this._id, status: expected.status, assignedWorker: expected.assignedWorker || null },
+    this.getChanges(),
+    { new: true }
+  );
 };
 
 // Method to add image
@@ -220,10 +443,13 @@ wasteReportSchema.methods.addImage = function(imageData) {
   return this.save();
 };
 
-// Method to remove image
-wasteReportSchema.methods.removeImage = function(filename) {
+// Method to remove image (and its stored bytes)
+wasteReportSchema.methods.removeImage = async function(filename) {
+  const removed = this.images.filter(img => img.filename === filename);
   this.images = this.images.filter(img => img.filename !== filename);
-  return this.save();
+  const saved = await this.save();
+  await discardImages(removed);
+  return saved;
 };
 
 // Static method to find reports with images
@@ -0,0 +1,102 @@
+import mongoose from 'mongoose';
+
+export const ZONE_KINDS = ['district', 'ward'];
+
+// Administrative area (district, or a ward inside one) imported from GeoJSON.
+// Reports, users and facilities are tagged with every zone they fall in.
+const zoneSchema = new mongoose.Schema({
+  // Municipality the zone belongs to
+  tenant: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  // Stable identifier from the source data, used to update zones on re-import;
+  // unique within the municipality
+  code: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  kind: {
+    type: String,
+    enum: ZONE_KINDS,
+    required: true
+  },
+  // District a ward belongs to
+  parent: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Zone'
+  },
+  geometry: {
+    type: {
+      type: String,
+      enum: ['Polygon', 'MultiPolygon'],
+      required: true
+    },
+    coordinates: {
+      type: Array,
+      required: true
+    }
+  },
+  // Middle of the bounding box, [longitude, latitude]; used to centre maps
+  center: {
+    type: [Number],
+    default: undefined
+  },
+  // Bounding box [minLng, minLat, maxLng, maxLat]
+  bbox: {
+    type: [Number],
+    default: undefined
+  },
+  // Feature properties as found in the imported file
+  properties: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  importedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+zoneSchema.index({ geometry: '2dsphere' });
+zoneSchema.index({ tenant: 1, code: 1 }, { unique: true });
+zoneSchema.index({ tenant: 1, kind: 1, name: 1 });
+
+// Static method to find a tenant's active zones containing a point, districts first
+zoneSchema.statics.findForPoint = function(coordinates, tenant) {
+  if (!tenant || !Array.isArray(coordinates) || coordinates.length !== 2) return Promise.resolve([]);
+
+  return this.find({
+    tenant,
+    isActive: true,
+    geometry: {
+      $geoIntersects: {
+        $geometry: { type: 'Point', coordinates }
+      }
+    }
+  })
+    .select('name code kind parent')
+    .sort({ kind: 1, name: 1 });
+};
+
+// Static method returning just the ids, for tagging documents
+zoneSchema.statics.idsForPoint = async function(coordinates, tenant) {
+  const zones = await this.findForPoint(coordinates, tenant);
+  return zones.map(zone => zone._id);
+};
+
+export default mongoose.model('Zone', zoneSchema);
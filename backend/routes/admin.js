@@ -1,17 +1,32 @@
 import express from 'express';
+import mongoose from 'mongoose';
 import WasteReport from '../models/WasteReport.js';
-import User from '../models/User.js';
+import User, { TENANT_ROLES } from '../models/User.js';
 import Facility from '../models/Facility.js';
 import { Training, TrainingProgress } from '../models/Training.js';
-import { authenticate, authorize } from '../middleware/auth.js';
+import DispatchSetting, { DEFAULT_ZONE } from '../models/DispatchSetting.js';
+import DispatchDecision from '../models/DispatchDecision.js';
+import Zone from '../models/Zone.js';
+import RolePermission, {
+  PERMISSIONS,
+  DEFAULT_ROLE_PERMISSIONS,
+  LOCKED_PERMISSIONS
+} from '../models/RolePermission.js';
+import { rolePermissions, clearPermissionCache, rolesWith } from '../services/permissions.js';
+import { recordPoints, PointsError } from '../services/points.js';
+import { checkBadges } from '../services/achievements.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import Joi from 'joi';
 
 const router = express.Router();
 
 // @route   GET /api/admin/dashboard
 // @desc    Get admin dashboard data
-// @access  Private (Admin only)
-router.get('/dashboard', authenticate, authorize('admin'), async (req, res) => {
+// @access  Private (analytics.view)
+router.get('/dashboard', authenticate, requirePermission('analytics.view'), async (req, res) => {
   try {
+    const { tenant } = req;
+
     // Date ranges for analytics
     const now = new Date();
     const startOfWeek = new Date(now.setDate(now.getDate() - now.getDay()));
@@ -27,16 +42,17 @@ router.get('/dashboard', authenticate, authorize('admin'), async (req, res) => {
       completedReports,
       activeWorkers
     ] = await Promise.all([
-      User.countDocuments({ isActive: true }),
-      WasteReport.countDocuments(),
-      Facility.countDocuments({ isActive: true }),
-      WasteReport.countDocuments({ status: { $in: ['reported', 'acknowledged'] } }),
-      WasteReport.countDocuments({ status: 'completed' }),
-      User.countDocuments({ role: 'waste_worker', isActive: true })
+      User.countDocuments({ tenant, isActive: true }),
+      WasteReport.countDocuments({ tenant }),
+      Facility.countDocuments({ tenant, isActive: true }),
+      WasteReport.countDocuments({ tenant, status: { $in: ['reported', 'acknowledged'] } }),
+      WasteReport.countDocuments({ tenant, status: 'completed' }),
+      User.countDocuments({ tenant, role: { $in: await rolesWith('report.update', tenant) }, isActive: true })
     ]);
 
     // Reports by status
     const reportsByStatus = await WasteReport.aggregate([
+      { $match: { tenant } },
       {
         $group: {
           _id: '$status',
@@ -47,6 +63,7 @@ router.get('/dashboard', authenticate, authorize('admin'), async (req, res) => {
 
     // Reports by waste type
     const reportsByWasteType = await WasteReport.aggregate([
+      { $match: { tenant } },
       {
         $group: {
           _id: '$wasteType',
@@ -59,6 +76,7 @@ router.get('/dashboard', authenticate, authorize('admin'), async (req, res) => {
     const monthlyReports = await WasteReport.aggregate([
       {
         $match: {
+          tenant,
           createdAt: { $gte: new Date(now.getFullYear(), 0, 1) }
         }
       },
@@ -79,7 +97,7 @@ router.get('/dashboard', authenticate, authorize('admin'), async (req, res) => {
     // Top performing facilities
     const topFacilities = await Facility.aggregate([
       {
-        $match: { isActive: true }
+        $match: { tenant, isActive: true }
       },
       {
         $sort: { 'rating.average': -1 }
@@ -99,6 +117,7 @@ router.get('/dashboard', authenticate, authorize('admin'), async (req, res) => {
 
     // User engagement metrics
     const userEngagement = await User.aggregate([
+      { $match: { tenant } },
       {
         $group: {
           _id: '$role',
@@ -109,14 +128,18 @@ router.get('/dashboard', authenticate, authorize('admin'), async (req, res) => {
     ]);
 
     // Recent activities
-    const recentReports = await WasteReport.find()
+    const recentReports = await WasteReport.find({ tenant })
+      .select('-images.data -actualCollection.beforeImages.data -actualCollection.afterImages.data')
       .populate('reporter', 'name')
       .populate('assignedWorker', 'name')
+      .populate('assignedVehicle', 'vehicleId type')
       .sort({ createdAt: -1 })
       .limit(10);
 
-    // Training statistics
+    // Training statistics (progress documents belong to users, not tenants)
+    const tenantUsers = await User.distinct('_id', { tenant });
     const trainingStats = await TrainingProgress.aggregate([
+      { $match: { user: { $in: tenantUsers } } },
       {
         $group: {
           _id: null,
@@ -167,13 +190,22 @@ router.get('/dashboard', authenticate, authorize('admin'), async (req, res) => {
 });
 
 // @route   GET /api/admin/analytics/reports
-// @desc    Get detailed report analytics
-// @access  Private (Admin only)
-router.get('/analytics/reports', authenticate, authorize('admin'), async (req, res) => {
+// @desc    Get detailed report analytics, optionally for one zone (?zone=)
+// @access  Private (analytics.view)
+router.get('/analytics/reports', authenticate, requirePermission('analytics.view'), async (req, res) => {
   try {
-    const { startDate, endDate, groupBy = 'day' } = req.query;
+    const { startDate, endDate, groupBy = 'day', zone } = req.query;
 
-    const matchQuery = {};
+    if (zone && !mongoose.isValidObjectId(zone)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid zone'
+      });
+    }
+
+    const matchQuery = { tenant: req.tenant };
+    // Aggregations skip casting, so the id has to be an ObjectId already
+    if (zone) matchQuery.zones = new mongoose.Types.ObjectId(zone);
     if (startDate && endDate) {
       matchQuery.createdAt = {
         $gte: new Date(startDate),
@@ -256,8 +288,8 @@ router.get('/analytics/reports', authenticate, authorize('admin'), async (req, r
 
 // @route   GET /api/admin/users
 // @desc    Get user management data
-// @access  Private (Admin only)
-router.get('/users', authenticate, authorize('admin'), async (req, res) => {
+// @access  Private (user.manage)
+router.get('/users', authenticate, requirePermission('user.manage'), async (req, res) => {
   try {
     const { 
       page = 1, 
@@ -267,7 +299,7 @@ router.get('/users', authenticate, authorize('admin'), async (req, res) => {
       search 
     } = req.query;
 
-    const query = {};
+    const query = { tenant: req.tenant };
     if (role) query.role = role;
     if (status === 'active') query.isActive = true;
     if (status === 'inactive') query.isActive = false;
@@ -322,12 +354,12 @@ router.get('/users', authenticate, authorize('admin'), async (req, res) => {
 
 // @route   PUT /api/admin/users/:id/status
 // @desc    Update user status
-// @access  Private (Admin only)
-router.put('/users/:id/status', authenticate, authorize('admin'), async (req, res) => {
+// @access  Private (user.manage)
+router.put('/users/:id/status', authenticate, requirePermission('user.manage'), async (req, res) => {
   try {
     const { isActive } = req.body;
     
-    const user = await User.findById(req.params.id);
+    const user = await User.findOne({ _id: req.params.id, tenant: req.tenant });
     if (!user) {
       return res.status(404).json({
         success: false,
@@ -359,4 +391,434 @@ router.put('/users/:id/status', authenticate, authorize('admin'), async (req, re
   }
 });
 
-export default router;
\ No newline at end of file
+const pointGrantSchema = Joi.object({
+  amount: Joi.number().integer().invalid(0).min(-100000).max(100000).required(),
+  reason: Joi.string().trim().min(3).max(300).required()
+});
+
+// @route   POST /api/admin/users/:id/points
+// @desc    Grant (or, with a negative amount, take back) points by hand
+// @access  Private (user.manage)
+router.post('/users/:id/points', authenticate, requirePermission('user.manage'), async (req, res) => {
+  try {
+    const { error, value } = pointGrantSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const user = mongoose.isValidObjectId(req.params.id) &&
+      await User.findOne({ _id: req.params.id, tenant: req.tenant }).select('name');
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const transaction = await recordPoints(user, {
+      source: 'admin_grant',
+      amount: value.amount,
+      reason: value.reason,
+      createdBy: req.user._id
+    });
+    await checkBadges(user);
+
+    res.status(201).json({
+      success: true,
+      message: `${value.amount > 0 ? 'Granted' : 'Took back'} ${Math.abs(value.amount)} points ${value.amount > 0 ? 'to' : 'from'} ${user.name}`,
+      data: {
+        transaction
+      }
+    });
+  } catch (error) {
+    if (error instanceof PointsError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Grant points error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to grant points'
+    });
+  }
+});
+
+// @route   GET /api/admin/dispatch/settings
+// @desc    Auto-dispatch settings for every configured zone
+// @access  Private (dispatch.configure)
+router.get('/dispatch/settings', authenticate, requirePermission('dispatch.configure'), async (req, res) => {
+  try {
+    const settings = await DispatchSetting.find({ tenant: req.tenant })
+      .populate('zone', 'name code kind')
+      .populate('updatedBy', 'name');
+    // Default first, then by zone name
+    settings.sort((a, b) => !a.zone ? -1 : !b.zone ? 1 : a.zone.name.localeCompare(b.zone.name));
+
+    // Always expose the default settings, even before they were saved once
+    if (!settings.some(s => !s.zone)) {
+      settings.unshift(new DispatchSetting({ tenant: req.tenant, zone: null }));
+    }
+
+    res.json({
+      success: true,
+      data: { settings }
+    });
+  } catch (error) {
+    console.error('Get dispatch settings error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch dispatch settings'
+    });
+  }
+});
+
+// The zone of `/dispatch/settings/:zone`: null for "default", undefined when
+// it is not one of the municipality's zones
+const dispatchZone = async (param, tenant) => {
+  if (param === DEFAULT_ZONE) return null;
+  if (!mongoose.isValidObjectId(param)) return undefined;
+  return await Zone.findOne({ _id: param, tenant }).select('name') || undefined;
+};
+
+const dispatchSettingSchema = Joi.object({
+  enabled: Joi.boolean(),
+  mode: Joi.string().valid('assign', 'offer'),
+  maxDistanceMeters: Joi.number().integer().min(100).max(200000),
+  weights: Joi.object({
+    distance: Joi.number().min(0).max(10),
+    workload: Joi.number().min(0).max(10),
+    skills: Joi.number().min(0).max(10)
+  })
+});
+
+// @route   PUT /api/admin/dispatch/settings/:zone
+// @desc    Create or update auto-dispatch settings for a zone
+// @access  Private (dispatch.configure)
+router.put('/dispatch/settings/:zone', authenticate, requirePermission('dispatch.configure'), async (req, res) => {
+  try {
+    const { error, value } = dispatchSettingSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const zone = await dispatchZone(req.params.zone, req.tenant);
+    if (zone === undefined) {
+      return res.status(400).json({
+        success: false,
+        message: 'Unknown zone'
+      });
+    }
+
+    const setting = await DispatchSetting.findOne({ tenant: req.tenant, zone: zone?._id || null }) ||
+      new DispatchSetting({ tenant: req.tenant, zone: zone?._id || null });
+
+    if (value.enabled !== undefined) setting.enabled = value.enabled;
+    if (value.mode) setting.mode = value.mode;
+    if (value.maxDistanceMeters) setting.maxDistanceMeters = value.maxDistanceMeters;
+    if (value.weights) {
+      Object.entries(value.weights).forEach(([factor, weight]) => {
+        setting.weights[factor] = weight;
+      });
+    }
+    setting.updatedBy = req.user._id;
+    await setting.save();
+
+    res.json({
+      success: true,
+      message: `Auto-dispatch ${setting.enabled ? 'enabled' : 'disabled'} for ${zone ? zone.name : 'all zones by default'}`,
+      data: { setting }
+    });
+  } catch (error) {
+    console.error('Update dispatch settings error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update dispatch settings'
+    });
+  }
+});
+
+// @route   DELETE /api/admin/dispatch/settings/:zone
+// @desc    Remove zone specific settings (the zone falls back to the default)
+// @access  Private (dispatch.configure)
+router.delete('/dispatch/settings/:zone', authenticate, requirePermission('dispatch.configure'), async (req, res) => {
+  try {
+    const zone = await dispatchZone(req.params.zone, req.tenant);
+    if (zone === null) {
+      return res.status(400).json({
+        success: false,
+        message: 'The default settings cannot be removed'
+      });
+    }
+    if (zone === undefined) {
+      return res.status(400).json({
+        success: false,
+        message: 'Unknown zone'
+      });
+    }
+
+    await DispatchSetting.deleteOne({ tenant: req.tenant, zone: zone._id });
+
+    res.json({
+      success: true,
+      message: `${zone.name} now uses the default settings`
+    });
+  } catch (error) {
+    console.error('Delete dispatch settings error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to remove dispatch settings'
+    });
+  }
+});
+
+// @route   GET /api/admin/dispatch/decisions
+// @desc    Recent auto-dispatch decisions with their scoring
+// @access  Private (dispatch.configure)
+router.get('/dispatch/decisions', authenticate, requirePermission('dispatch.configure'), async (req, res) => {
+  try {
+    const { page = 1, limit = 20, outcome, zone } = req.query;
+
+    const query = { tenant: req.tenant };
+    if (outcome) query.outcome = outcome;
+    if (zone === DEFAULT_ZONE) query.zone = null;
+    else if (zone) {
+      if (!mongoose.isValidObjectId(zone)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Unknown zone'
+        });
+      }
+      query.zone = zone;
+    }
+
+    const skip = (parseInt(page) - 1) * parseInt(limit);
+
+    const [decisions, total] = await Promise.all([
+      DispatchDecision.find(query)
+        .populate('report', 'wasteType category severity status description')
+        .populate('zone', 'name')
+        .populate('selectedWorker', 'name email')
+        .populate('triggeredBy', 'name')
+        .sort({ createdAt: -1 })
+        .limit(parseInt(limit))
+        .skip(skip),
+      DispatchDecision.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        decisions,
+        pagination: {
+          current: parseInt(page),
+          pages: Math.ceil(total / parseInt(limit)),
+          total
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get dispatch decisions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch dispatch decisions'
+    });
+  }
+});
+
+// @route   GET /api/admin/workers
+// @desc    Waste workers with their dispatch profile
+// @access  Private (user.manage)
+router.get('/workers', authenticate, requirePermission('user.manage'), async (req, res) => {
+  try {
+    const workers = await User.find({ tenant: req.tenant, role: { $in: await rolesWith('report.update', req.tenant) } })
+      .select('name email phone isActive address.city workerProfile')
+      .sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: { workers }
+    });
+  } catch (error) {
+    console.error('Get workers error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch workers'
+    });
+  }
+});
+
+const workerProfileSchema = Joi.object({
+  skills: Joi.array().items(
+    Joi.string().valid('general', 'recycling', 'organic', 'electronic', 'bulky', 'hazardous', 'medical')
+  ).unique(),
+  shift: Joi.object({
+    days: Joi.array().items(Joi.number().integer().min(0).max(6)).unique(),
+    start: Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/).allow(''),
+    end: Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/).allow('')
+  }),
+  maxOpenAssignments: Joi.number().integer().min(1).max(100)
+});
+
+// @route   PUT /api/admin/workers/:id/profile
+// @desc    Update a worker's skills, shift and capacity
+// @access  Private (user.manage)
+router.put('/workers/:id/profile', authenticate, requirePermission('user.manage'), async (req, res) => {
+  try {
+    const { error, value } = workerProfileSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const worker = await User.findOne({
+      _id: req.params.id,
+      tenant: req.tenant,
+      role: { $in: await rolesWith('report.update', req.tenant) }
+    });
+    if (!worker) {
+      return res.status(404).json({
+        success: false,
+        message: 'Worker not found'
+      });
+    }
+
+    if (value.skills) worker.workerProfile.skills = value.skills;
+    if (value.shift) worker.workerProfile.shift = value.shift;
+    if (value.maxOpenAssignments) worker.workerProfile.maxOpenAssignments = value.maxOpenAssignments;
+    await worker.save();
+
+    res.json({
+      success: true,
+      message: `Dispatch profile of ${worker.name} updated`,
+      data: {
+        worker: {
+          _id: worker._id,
+          name: worker.name,
+          workerProfile: worker.workerProfile
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Update worker profile error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update worker profile'
+    });
+  }
+});
+
+// @route   GET /api/admin/permissions
+// @desc    Permission catalogue and what each role may do in this municipality
+// @access  Private (permission.manage)
+router.get('/permissions', authenticate, requirePermission('permission.manage'), async (req, res) => {
+  try {
+    const [roles, customised] = await Promise.all([
+      rolePermissions(req.tenant),
+      RolePermission.distinct('role', { tenant: req.tenant })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        permissions: Object.entries(PERMISSIONS).map(([name, description]) => ({ name, description })),
+        roles,
+        defaults: DEFAULT_ROLE_PERMISSIONS,
+        locked: LOCKED_PERMISSIONS,
+        customised
+      }
+    });
+  } catch (error) {
+    console.error('Get permissions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch permissions'
+    });
+  }
+});
+
+const rolePermissionSchema = Joi.object({
+  permissions: Joi.array().items(Joi.string().valid(...Object.keys(PERMISSIONS))).unique().required()
+});
+
+// @route   PUT /api/admin/permissions/:role
+// @desc    Replace the permissions of a role in this municipality
+// @access  Private (permission.manage)
+router.put('/permissions/:role', authenticate, requirePermission('permission.manage'), async (req, res) => {
+  try {
+    const { role } = req.params;
+    if (!TENANT_ROLES.includes(role)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Unknown role'
+      });
+    }
+
+    const { error, value } = rolePermissionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const missingLocked = (LOCKED_PERMISSIONS[role] || []).filter(name => !value.permissions.includes(name));
+    if (missingLocked.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `The ${role} role must keep ${missingLocked.join(', ')}`
+      });
+    }
+
+    const setting = await RolePermission.findOneAndUpdate(
+      { tenant: req.tenant, role },
+      { permissions: value.permissions, updatedBy: req.user._id },
+      { new: true, upsert: true, runValidators: true }
+    );
+    clearPermissionCache(req.tenant);
+
+    res.json({
+      success: true,
+      message: `Permissions of ${role.replace('_', ' ')} updated`,
+      data: { setting }
+    });
+  } catch (error) {
+    console.error('Update permissions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update permissions'
+    });
+  }
+});
+
+// @route   DELETE /api/admin/permissions/:role
+// @desc    Reset a role to the default permissions
+// @access  Private (permission.manage)
+router.delete('/permissions/:role', authenticate, requirePermission('permission.manage'), async (req, res) => {
+  try {
+    await RolePermission.deleteOne({ tenant: req.tenant, role: req.params.role });
+    clearPermissionCache(req.tenant);
+
+    res.json({
+      success: true,
+      message: `${req.params.role.replace('_', ' ')} uses the default permissions again`
+    });
+  } catch (error) {
+    console.error('Reset permissions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to reset permissions'
+    });
+  }
+});
+
+export default router;
@@ -1,8 +1,9 @@
 import express from 'express';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
-import User from '../models/User.js';
+import User, { GLOBAL_ROLES, TENANT_ROLES } from '../models/User.js';
 import { authenticate } from '../middleware/auth.js';
+import { findTenant, requireTenant } from '../middleware/tenant.js';
 import Joi from 'joi';
 
 const router = express.Router();
@@ -12,7 +13,7 @@ const registerSchema = Joi.object({
   name: Joi.string().trim().max(100).required(),
   email: Joi.string().email().required(),
   password: Joi.string().min(6).required(),
-  role: Joi.string().valid('citizen', 'waste_worker', 'admin', 'green_champion').default('citizen'),
+  role: Joi.string().valid(...TENANT_ROLES).default('citizen'),
   phone: Joi.string().pattern(/^\+?[\d\s-()]+$/).optional(),
   address: Joi.object({
     street: Joi.string(),
@@ -46,9 +47,9 @@ const generateTokens = (userId) => {
 };
 
 // @route   POST /api/auth/register
-// @desc    Register user
+// @desc    Register user in the municipality named by the X-Tenant header
 // @access  Public
-router.post('/register', async (req, res) => {
+router.post('/register', requireTenant, async (req, res) => {
   try {
     const { error, value } = registerSchema.validate(req.body);
     if (error) {
@@ -71,6 +72,7 @@ router.post('/register', async (req, res) => {
 
     // Create user
     const user = new User({
+      tenant: req.tenant,
       name,
       email,
       password,
@@ -150,6 +152,14 @@ router.post('/login', async (req, res) => {
       });
     }
 
+    // Check the user's municipality is still active
+    if (!GLOBAL_ROLES.includes(user.role) && !await findTenant(user.tenant)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Your municipality is not active on this platform'
+      });
+    }
+
     // Generate tokens
     const { accessToken, refreshToken } = generateTokens(user._id);
     
@@ -247,14 +257,17 @@ router.post('/logout', authenticate, async (req, res) => {
 });
 
 // @route   GET /api/auth/me
-// @desc    Get current user
+// @desc    Get current user, the municipality they are working in and
+//          their permissions there
 // @access  Private
 router.get('/me', authenticate, async (req, res) => {
   try {
     res.json({
       success: true,
       data: {
-        user: req.user
+        user: req.user,
+        tenant: await findTenant(req.tenant),
+        permissions: [...req.permissions]
       }
     });
   } catch (error) {
@@ -0,0 +1,212 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import Joi from 'joi';
+import Badge, { BADGE_METRICS } from '../models/Badge.js';
+import RewardLevel from '../models/RewardLevel.js';
+import { REWARD_LEVELS } from '../models/User.js';
+import { TRAINING_CATEGORIES } from '../models/Training.js';
+import { authenticate, requirePermission, can } from '../middleware/auth.js';
+import { requireTenant } from '../middleware/tenant.js';
+import { badgesFor } from '../services/achievements.js';
+import { relevelUsers } from '../services/points.js';
+
+const router = express.Router();
+
+const badgeSchema = Joi.object({
+  key: Joi.string().trim().lowercase().pattern(/^[a-z0-9]+(-[a-z0-9]+)*$/).max(60),
+  name: Joi.string().trim().max(60),
+  description: Joi.string().trim().max(200).allow(''),
+  rule: Joi.object({
+    metric: Joi.string().valid(...Object.keys(BADGE_METRICS)).required(),
+    threshold: Joi.number().integer().min(1).default(1),
+    category: Joi.when('metric', {
+      is: 'training_category',
+      then: Joi.string().valid(...TRAINING_CATEGORIES).required(),
+      otherwise: Joi.forbidden()
+    })
+  }),
+  isActive: Joi.boolean()
+});
+
+const newBadgeSchema = badgeSchema.fork(['key', 'name', 'rule'], (schema) => schema.required());
+
+const levelsSchema = Joi.object(
+  Object.fromEntries(REWARD_LEVELS.map(level => [level, Joi.number().integer().min(0).required()]))
+);
+
+// @route   GET /api/badges
+// @desc    Badges of the municipality and the metrics rules can use;
+//          managers add ?all=true to include switched-off badges
+// @access  Private
+router.get('/', authenticate, requireTenant, async (req, res) => {
+  try {
+    const badges = await badgesFor(req.tenant, {
+      includeInactive: req.query.all === 'true' && can(req, 'badge.manage')
+    });
+
+    res.json({
+      success: true,
+      data: {
+        badges,
+        metrics: BADGE_METRICS,
+        trainingCategories: TRAINING_CATEGORIES
+      }
+    });
+  } catch (error) {
+    console.error('Get badges error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch badges'
+    });
+  }
+});
+
+// @route   GET /api/badges/levels
+// @desc    Lifetime points needed for each reward level, highest first
+// @access  Private
+router.get('/levels', authenticate, requireTenant, async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: {
+        levels: await RewardLevel.thresholdsFor(req.tenant)
+      }
+    });
+  } catch (error) {
+    console.error('Get reward levels error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch reward levels'
+    });
+  }
+});
+
+// @route   PUT /api/badges/levels
+// @desc    Change the level thresholds ({ bronze, silver, gold, platinum });
+//          every user's level is re-derived
+// @access  Private (badge.manage)
+router.put('/levels', authenticate, requirePermission('badge.manage'), async (req, res) => {
+  try {
+    const { error, value } = levelsSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const minimums = REWARD_LEVELS.map(level => value[level]);
+    if (minimums[0] !== 0 || minimums.some((points, i) => i > 0 && points <= minimums[i - 1])) {
+      return res.status(400).json({
+        success: false,
+        message: `Levels must start at 0 points and rise in the order ${REWARD_LEVELS.join(' < ')}`
+      });
+    }
+
+    await RewardLevel.bulkWrite(REWARD_LEVELS.map(level => ({
+      updateOne: {
+        filter: { tenant: req.tenant, level },
+        update: { $set: { minPoints: value[level], updatedBy: req.user._id } },
+        upsert: true
+      }
+    })));
+    const relevelled = await relevelUsers(req.tenant);
+
+    res.json({
+      success: true,
+      message: `Reward levels updated; ${relevelled} user(s) changed level`,
+      data: {
+        levels: await RewardLevel.thresholdsFor(req.tenant)
+      }
+    });
+  } catch (error) {
+    console.error('Update reward levels error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update reward levels'
+    });
+  }
+});
+
+// @route   POST /api/badges
+// @desc    Define a new badge
+// @access  Private (badge.manage)
+router.post('/', authenticate, requirePermission('badge.manage'), async (req, res) => {
+  try {
+    const { error, value } = newBadgeSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    // Make sure the defaults exist before the first custom badge
+    await badgesFor(req.tenant);
+    const badge = await Badge.create({ ...value, tenant: req.tenant, createdBy: req.user._id });
+
+    res.status(201).json({
+      success: true,
+      message: `Badge ${badge.name} created. Run the badge backfill to award it to users who already qualify.`,
+      data: {
+        badge
+      }
+    });
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(409).json({
+        success: false,
+        message: 'A badge with this key already exists'
+      });
+    }
+    console.error('Create badge error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create badge'
+    });
+  }
+});
+
+// @route   PUT /api/badges/:id
+// @desc    Edit a badge or switch it off; users keep badges already earned
+// @access  Private (badge.manage)
+router.put('/:id', authenticate, requirePermission('badge.manage'), async (req, res) => {
+  try {
+    const { error, value } = badgeSchema.fork(['key'], (schema) => schema.forbidden()).min(1).validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const badge = mongoose.isValidObjectId(req.params.id) &&
+      await Badge.findOne({ _id: req.params.id, tenant: req.tenant });
+
+    if (!badge) {
+      return res.status(404).json({
+        success: false,
+        message: 'Badge not found'
+      });
+    }
+
+    badge.set(value);
+    await badge.save();
+
+    res.json({
+      success: true,
+      message: 'Badge updated',
+      data: {
+        badge
+      }
+    });
+  } catch (error) {
+    console.error('Update badge error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update badge'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,632 @@
+import express from 'express';
+import Joi from 'joi';
+import Route from '../models/Route.js';
+import Vehicle from '../models/Vehicle.js';
+import Facility from '../models/Facility.js';
+import User from '../models/User.js';
+import WasteReport from '../models/WasteReport.js';
+import { authenticate, requirePermission, can } from '../middleware/auth.js';
+import { optimizeStops, estimateLoad } from '../services/routeOptimizer.js';
+import { hasPermission } from '../services/permissions.js';
+
+const router = express.Router();
+
+// Facilities a route can unload at
+const DISPOSAL_FACILITY_TYPES = ['transfer_station', 'landfill', 'waste_treatment_plant'];
+
+// Routes that still hold on to their stops
+const ACTIVE_ROUTE_STATUSES = ['planned', 'in_progress'];
+
+// Reports a driver can be sent to collect
+const ROUTABLE_REPORT_STATUSES = ['assigned', 'in_progress'];
+
+const objectId = Joi.string().hex().length(24);
+const coordinates = Joi.array().ordered(
+  Joi.number().min(-180).max(180).required(),
+  Joi.number().min(-90).max(90).required()
+).length(2);
+
+const createRouteSchema = Joi.object({
+  vehicleId: objectId.required(),
+  driverId: objectId,
+  date: Joi.date().required(),
+  plannedStart: Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/).default('08:00'),
+  endFacilityId: objectId,
+  startLocation: coordinates,
+  reportIds: Joi.array().items(objectId).default([]),
+  includeAssigned: Joi.boolean().default(true),
+  pickups: Joi.array().items(Joi.object({
+    label: Joi.string().trim().max(100).required(),
+    coordinates: coordinates.required(),
+    estimatedLoad: Joi.number().min(0).default(0)
+  })).default([])
+});
+
+const stopUpdateSchema = Joi.object({
+  status: Joi.string().valid('arrived', 'completed', 'skipped').required(),
+  notes: Joi.string().max(500).allow('')
+});
+
+const populateRoute = (query) => query
+  .populate('vehicle', 'vehicleId type capacity status')
+  .populate('driver', 'name phone')
+  .populate('endFacility', 'name type location.coordinates location.address')
+  .populate('stops.report', 'wasteType estimatedQuantity status description location.address');
+
+const startOfDay = (value) => {
+  const day = new Date(value);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+const isDriverOf = (user, route) =>
+  route.driver?._id?.toString() === user._id.toString();
+
+const hasCoordinates = (point) =>
+  Array.isArray(point) && point.length === 2 && !(point[0] === 0 && point[1] === 0);
+
+// Collection stops (everything but disposal visits) in optimiser input form
+const collectionStops = (route) => route.stops
+  .filter(stop => stop.kind !== 'disposal')
+  .map(stop => ({
+    kind: stop.kind,
+    report: stop.report?._id || stop.report,
+    label: stop.label,
+    location: stop.location,
+    estimatedLoad: stop.estimatedLoad,
+    status: stop.status,
+    notes: stop.notes
+  }));
+
+// Apply the optimiser's order and timings to a route
+const applyPlan = (route, { stops, vehicle, facility }) => {
+  const plan = optimizeStops({
+    stops,
+    start: route.startLocation?.length ? route.startLocation : undefined,
+    facility: { _id: facility._id, name: facility.name, location: facility.location.coordinates },
+    capacity: vehicle.capacity.value,
+    startTime: route.plannedStart
+  });
+
+  route.stops = plan.stops;
+  route.totalDistanceMeters = plan.totalDistanceMeters;
+  route.plannedEnd = plan.plannedEnd;
+  route.optimizedAt = new Date();
+};
+
+// @route   GET /api/routes
+// @desc    List routes, by default for today
+// @access  Private (route.manage)
+router.get('/', authenticate, requirePermission('route.manage'), async (req, res) => {
+  try {
+    const { date, vehicle, driver, status } = req.query;
+
+    const day = startOfDay(date || new Date());
+    const query = { tenant: req.tenant, date: day };
+    if (vehicle) query.vehicle = vehicle;
+    if (driver) query.driver = driver;
+    if (status) query.status = { $in: status.split(',') };
+
+    const routes = await populateRoute(Route.find(query)).sort({ plannedStart: 1 });
+
+    res.json({
+      success: true,
+      data: {
+        routes
+      }
+    });
+  } catch (error) {
+    console.error('Get routes error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch routes'
+    });
+  }
+});
+
+// @route   GET /api/routes/mine
+// @desc    Routes the current worker drives on a day (default today)
+// @access  Private (route.drive)
+router.get('/mine', authenticate, requirePermission('route.drive'), async (req, res) => {
+  try {
+    const day = startOfDay(req.query.date || new Date());
+
+    const routes = await populateRoute(Route.find({
+      tenant: req.tenant,
+      driver: req.user._id,
+      date: day,
+      status: { $ne: 'cancelled' }
+    })).sort({ plannedStart: 1 });
+
+    res.json({
+      success: true,
+      data: {
+        routes
+      }
+    });
+  } catch (error) {
+    console.error('Get own routes error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch your routes'
+    });
+  }
+});
+
+// @route   GET /api/routes/:id
+// @desc    Get single route
+// @access  Private (route.drive - own routes, or route.manage)
+router.get('/:id', authenticate, requirePermission('route.drive'), async (req, res) => {
+  try {
+    const route = await populateRoute(Route.findOne({ _id: req.params.id, tenant: req.tenant }));
+
+    if (!route) {
+      return res.status(404).json({
+        success: false,
+        message: 'Route not found'
+      });
+    }
+
+    if (!can(req, 'route.manage') && !isDriverOf(req.user, route)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only view your own routes'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        route
+      }
+    });
+  } catch (error) {
+    console.error('Get route error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch route'
+    });
+  }
+});
+
+// @route   POST /api/routes
+// @desc    Plan an optimised route for a vehicle and day
+// @access  Private (route.manage)
+router.post('/', authenticate, requirePermission('route.manage'), async (req, res) => {
+  try {
+    const { error, value } = createRouteSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const vehicle = await Vehicle.findOne({ _id: value.vehicleId, tenant: req.tenant }).select('-trackingHistory');
+    if (!vehicle) {
+      return res.status(404).json({
+        success: false,
+        message: 'Vehicle not found'
+      });
+    }
+
+    if (['maintenance', 'out_of_service'].includes(vehicle.status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Vehicle ${vehicle.vehicleId} is ${vehicle.status.replace(/_/g, ' ')}`
+      });
+    }
+
+    const driver = await User.findOne({ _id: value.driverId || vehicle.driver, tenant: req.tenant });
+    if (!driver || !driver.isActive || !await hasPermission(driver, 'route.drive', req.tenant)) {
+      return res.status(400).json({
+        success: false,
+        message: value.driverId ? 'Drivers must be active users who may drive routes' : 'Vehicle has no driver; choose one'
+      });
+    }
+
+    const day = startOfDay(value.date);
+    const existing = await Route.findOne({
+      tenant: req.tenant,
+      vehicle: vehicle._id,
+      date: day,
+      status: { $in: ACTIVE_ROUTE_STATUSES }
+    });
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        message: `Vehicle ${vehicle.vehicleId} already has a route on this day`
+      });
+    }
+
+    // Reports asked for explicitly plus, optionally, everything the driver holds
+    const reportQuery = [{ _id: { $in: value.reportIds } }];
+    if (value.includeAssigned) {
+      reportQuery.push({ assignedWorker: driver._id, status: { $in: ROUTABLE_REPORT_STATUSES } });
+    }
+    const reports = await WasteReport.find({ tenant: req.tenant, $or: reportQuery })
+      .select('wasteType estimatedQuantity status assignedWorker location');
+
+    const foreign = reports.find(report =>
+      report.assignedWorker && report.assignedWorker.toString() !== driver._id.toString()
+    );
+    if (foreign) {
+      return res.status(400).json({
+        success: false,
+        message: `Report ${foreign._id} is assigned to another worker`
+      });
+    }
+
+    // A report only sits on one active route at a time
+    const routed = await Route.find({
+      'stops.report': { $in: reports.map(report => report._id) },
+      status: { $in: ACTIVE_ROUTE_STATUSES }
+    }).select('stops.report');
+    const alreadyRouted = new Set(routed.flatMap(route =>
+      route.stops.filter(stop => stop.report).map(stop => stop.report.toString())
+    ));
+
+    const skipped = [];
+    const stops = [];
+    for (const report of reports) {
+      if (alreadyRouted.has(report._id.toString()) || !hasCoordinates(report.location.coordinates)) {
+        skipped.push(report._id);
+        continue;
+      }
+      stops.push({
+        kind: 'report',
+        report: report._id,
+        label: `${report.wasteType} waste`,
+        location: report.location.coordinates,
+        estimatedLoad: estimateLoad(report.estimatedQuantity, vehicle.capacity.unit)
+      });
+    }
+    for (const pickup of value.pickups) {
+      stops.push({
+        kind: 'pickup',
+        label: pickup.label,
+        location: pickup.coordinates,
+        estimatedLoad: pickup.estimatedLoad
+      });
+    }
+
+    if (stops.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'No stops to plan: add reports or pickup points'
+      });
+    }
+
+    const startLocation = value.startLocation ||
+      (hasCoordinates(vehicle.currentLocation?.coordinates) ? vehicle.currentLocation.coordinates : undefined) ||
+      (hasCoordinates(driver.address?.coordinates) ? driver.address.coordinates : undefined);
+
+    const facility = value.endFacilityId
+      ? await Facility.findOne({ _id: value.endFacilityId, tenant: req.tenant, isActive: true })
+      : await Facility.findOne({
+          tenant: req.tenant,
+          isActive: true,
+          type: { $in: DISPOSAL_FACILITY_TYPES },
+          location: {
+            $near: {
+              $geometry: { type: 'Point', coordinates: startLocation || stops[0].location }
+            }
+          }
+        });
+    if (!facility) {
+      return res.status(400).json({
+        success: false,
+        message: value.endFacilityId ? 'Facility not found' : 'No active disposal facility found'
+      });
+    }
+
+    const [hours, minutes] = value.plannedStart.split(':').map(Number);
+    const plannedStart = new Date(day);
+    plannedStart.setHours(hours, minutes);
+
+    const route = new Route({
+      tenant: req.tenant,
+      date: day,
+      vehicle: vehicle._id,
+      driver: driver._id,
+      startLocation,
+      endFacility: facility._id,
+      plannedStart,
+      createdBy: req.user._id
+    });
+    applyPlan(route, { stops, vehicle, facility });
+    await route.save();
+
+    vehicle.assignedRoute = route._id;
+    await vehicle.save();
+
+    const saved = await populateRoute(Route.findById(route._id));
+
+    res.status(201).json({
+      success: true,
+      message: `Route planned with ${stops.length} stop(s)`,
+      data: {
+        route: saved,
+        skipped
+      }
+    });
+  } catch (error) {
+    console.error('Create route error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to plan route'
+    });
+  }
+});
+
+// @route   POST /api/routes/:id/optimize
+// @desc    Re-optimise the stop order of a planned route
+// @access  Private (route.manage)
+router.post('/:id/optimize', authenticate, requirePermission('route.manage'), async (req, res) => {
+  try {
+    const route = await Route.findOne({ _id: req.params.id, tenant: req.tenant });
+    if (!route) {
+      return res.status(404).json({
+        success: false,
+        message: 'Route not found'
+      });
+    }
+
+    if (route.status !== 'planned') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only routes that have not started can be re-optimised'
+      });
+    }
+
+    const [vehicle, facility] = await Promise.all([
+      Vehicle.findById(route.vehicle).select('capacity'),
+      Facility.findById(route.endFacility)
+    ]);
+    if (!vehicle || !facility) {
+      return res.status(400).json({
+        success: false,
+        message: 'The route\'s vehicle or facility no longer exists'
+      });
+    }
+
+    applyPlan(route, { stops: collectionStops(route), vehicle, facility });
+    await route.save();
+
+    const saved = await populateRoute(Route.findById(route._id));
+
+    res.json({
+      success: true,
+      message: 'Route re-optimised',
+      data: {
+        route: saved
+      }
+    });
+  } catch (error) {
+    console.error('Optimise route error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to optimise route'
+    });
+  }
+});
+
+// Close out a route and free its vehicle
+const finishRoute = async (route, status) => {
+  route.status = status;
+  route.actualEnd = new Date();
+
+  await Vehicle.updateOne(
+    { _id: route.vehicle, assignedRoute: route._id },
+    { $unset: { assignedRoute: 1 } }
+  );
+  await Vehicle.updateOne(
+    { _id: route.vehicle, status: 'in_route' },
+    { $set: { status: 'available' } }
+  );
+};
+
+// Mark a route as started
+const startRoute = async (route) => {
+  route.status = 'in_progress';
+  route.actualStart = new Date();
+
+  await Vehicle.updateOne(
+    { _id: route.vehicle, status: 'available' },
+    { $set: { status: 'in_route' } }
+  );
+};
+
+// @route   PUT /api/routes/:id/stops/:stopId
+// @desc    Record arrival at, completion of or skipping a stop
+// @access  Private (route.drive - own routes, or route.manage)
+router.put('/:id/stops/:stopId', authenticate, requirePermission('route.drive'), async (req, res) => {
+  try {
+    const { error, value } = stopUpdateSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const route = await Route.findOne({ _id: req.params.id, tenant: req.tenant });
+    if (!route) {
+      return res.status(404).json({
+        success: false,
+        message: 'Route not found'
+      });
+    }
+
+    if (!can(req, 'route.manage') && !isDriverOf(req.user, route)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only update your own routes'
+      });
+    }
+
+    if (!ACTIVE_ROUTE_STATUSES.includes(route.status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Route is ${route.status}`
+      });
+    }
+
+    const stop = route.stops.id(req.params.stopId);
+    if (!stop) {
+      return res.status(404).json({
+        success: false,
+        message: 'Stop not found'
+      });
+    }
+
+    const now = new Date();
+    if (value.status === 'arrived' || value.status === 'completed') {
+      stop.actualArrival = stop.actualArrival || now;
+    }
+    if (value.status === 'completed') {
+      stop.completedAt = now;
+    }
+    stop.status = value.status;
+    if (value.notes !== undefined) stop.notes = value.notes;
+
+    if (route.status === 'planned') {
+      await startRoute(route);
+    }
+    if (route.isFinished()) {
+      await finishRoute(route, 'completed');
+    }
+    await route.save();
+
+    const saved = await populateRoute(Route.findById(route._id));
+
+    res.json({
+      success: true,
+      message: route.status === 'completed' ? 'Route completed' : `Stop ${stop.order} ${value.status}`,
+      data: {
+        route: saved
+      }
+    });
+  } catch (error) {
+    console.error('Update route stop error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update stop'
+    });
+  }
+});
+
+// @route   PUT /api/routes/:id/status
+// @desc    Start, complete or cancel a route
+// @access  Private (route.drive - own routes, or route.manage; only route.manage cancels)
+router.put('/:id/status', authenticate, requirePermission('route.drive'), async (req, res) => {
+  try {
+    const { status } = req.body;
+
+    if (!['in_progress', 'completed', 'cancelled'].includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Status must be one of: in_progress, completed, cancelled'
+      });
+    }
+
+    const route = await Route.findOne({ _id: req.params.id, tenant: req.tenant });
+    if (!route) {
+      return res.status(404).json({
+        success: false,
+        message: 'Route not found'
+      });
+    }
+
+    if (!can(req, 'route.manage')) {
+      if (!isDriverOf(req.user, route)) {
+        return res.status(403).json({
+          success: false,
+          message: 'You can only update your own routes'
+        });
+      }
+      if (status === 'cancelled') {
+        return res.status(403).json({
+          success: false,
+          message: 'Only admins can cancel routes'
+        });
+      }
+    }
+
+    const allowed = {
+      in_progress: ['planned'],
+      completed: ['in_progress'],
+      cancelled: ['planned', 'in_progress']
+    };
+    if (!allowed[status].includes(route.status)) {
+      return res.status(400).json({
+        success: false,
+        message: `A ${route.status.replace(/_/g, ' ')} route cannot become ${status.replace(/_/g, ' ')}`
+      });
+    }
+
+    if (status === 'in_progress') {
+      await startRoute(route);
+    } else {
+      await finishRoute(route, status);
+    }
+    await route.save();
+
+    const saved = await populateRoute(Route.findById(route._id));
+
+    res.json({
+      success: true,
+      message: `Route ${status.replace(/_/g, ' ')}`,
+      data: {
+        route: saved
+      }
+    });
+  } catch (error) {
+    console.error('Update route status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update route'
+    });
+  }
+});
+
+// @route   DELETE /api/routes/:id
+// @desc    Delete a route that has not started
+// @access  Private (route.manage)
+router.delete('/:id', authenticate, requirePermission('route.manage'), async (req, res) => {
+  try {
+    const route = await Route.findOne({ _id: req.params.id, tenant: req.tenant });
+    if (!route) {
+      return res.status(404).json({
+        success: false,
+        message: 'Route not found'
+      });
+    }
+
+    if (!['planned', 'cancelled'].includes(route.status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Started routes are kept for the record; cancel them instead'
+      });
+    }
+
+    await Vehicle.updateOne(
+      { _id: route.vehicle, assignedRoute: route._id },
+      { $unset: { assignedRoute: 1 } }
+    );
+    await route.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Route deleted'
+    });
+  } catch (error) {
+    console.error('Delete route error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete route'
+    });
+  }
+});
+
+export default router;
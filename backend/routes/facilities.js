@@ -1,9 +1,53 @@
 import express from 'express';
+import mongoose from 'mongoose';
 import Facility from '../models/Facility.js';
-import { authenticate, optionalAuth } from '../middleware/auth.js';
+import Joi from 'joi';
+import { authenticate, optionalAuth, requirePermission } from '../middleware/auth.js';
+import { requireTenant } from '../middleware/tenant.js';
 
 const router = express.Router();
 
+const facilitySchema = Joi.object({
+  name: Joi.string().trim().max(200),
+  type: Joi.string().valid(...Facility.schema.path('type').enumValues),
+  location: Joi.object({
+    coordinates: Joi.array().items(Joi.number()).length(2).required(),
+    address: Joi.object({
+      street: Joi.string().required(),
+      city: Joi.string().required(),
+      state: Joi.string().required(),
+      zipCode: Joi.string().required(),
+      country: Joi.string()
+    }).required()
+  }),
+  contact: Joi.object({
+    phone: Joi.string().required(),
+    email: Joi.string().email().allow(''),
+    website: Joi.string().uri().allow('')
+  }),
+  acceptedWasteTypes: Joi.array().items(
+    Joi.string().valid(...Facility.schema.path('acceptedWasteTypes').caster.enumValues)
+  ),
+  capacity: Joi.object({
+    current: Joi.number().min(0),
+    maximum: Joi.number().min(0).required(),
+    unit: Joi.string().valid('tons', 'cubic_meters', 'liters')
+  }),
+  operatingHours: Joi.object().pattern(
+    Joi.string().valid('monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'),
+    Joi.object({ open: Joi.string(), close: Joi.string(), closed: Joi.boolean() })
+  ),
+  description: Joi.string().allow(''),
+  specialInstructions: Joi.string().allow(''),
+  isActive: Joi.boolean()
+});
+
+// Every field is needed for a new facility
+const newFacilitySchema = facilitySchema.fork(
+  ['name', 'type', 'location', 'contact', 'capacity'],
+  field => field.required()
+);
+
 // IMPORTANT: Specific routes MUST come before parameterized routes
 // @route   GET /api/facilities/types/list
 // @desc    Get facility types
@@ -61,9 +105,9 @@ router.get('/types/list', (req, res) => {
 });
 
 // @route   GET /api/facilities
-// @desc    Get all facilities
+// @desc    Get all facilities of the municipality
 // @access  Public
-router.get('/', optionalAuth, async (req, res) => {
+router.get('/', optionalAuth, requireTenant, async (req, res) => {
   try {
     const { 
       type, 
@@ -71,12 +115,13 @@ router.get('/', optionalAuth, async (req, res) => {
       longitude, 
       latitude, 
       radius = 10000,
-      limit = 50 
+      limit = 50,
+      zone
     } = req.query;
 
-    console.log('Fetching facilities with params:', { type, wasteType, longitude, latitude, radius, limit });
+    console.log('Fetching facilities with params:', { type, wasteType, longitude, latitude, radius, limit, zone });
 
-    let query = { isActive: true };
+    let query = { tenant: req.tenant, isActive: true };
     
     // Filter by facility type
     if (type && type !== 'all') {
@@ -88,6 +133,17 @@ router.get('/', optionalAuth, async (req, res) => {
       query.acceptedWasteTypes = wasteType;
     }
 
+    // Filter by zone (district or ward)
+    if (zone) {
+      if (!mongoose.isValidObjectId(zone)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid zone'
+        });
+      }
+      query.zones = zone;
+    }
+
     let facilities;
 
     // Geospatial query if coordinates provided
@@ -158,10 +214,11 @@ router.get('/', optionalAuth, async (req, res) => {
 // @route   GET /api/facilities/:id
 // @desc    Get single facility
 // @access  Public
-router.get('/:id', optionalAuth, async (req, res) => {
+router.get('/:id', optionalAuth, requireTenant, async (req, res) => {
   try {
     const facility = await Facility.findOne({
       _id: req.params.id,
+      tenant: req.tenant,
       isActive: true
     })
     .populate('manager', 'name email phone')
@@ -192,7 +249,7 @@ router.get('/:id', optionalAuth, async (req, res) => {
 // @route   POST /api/facilities/:id/review
 // @desc    Add facility review
 // @access  Private
-router.post('/:id/review', authenticate, async (req, res) => {
+router.post('/:id/review', authenticate, requireTenant, async (req, res) => {
   try {
     const { rating, comment } = req.body;
 
@@ -203,7 +260,7 @@ router.post('/:id/review', authenticate, async (req, res) => {
       });
     }
 
-    const facility = await Facility.findById(req.params.id);
+    const facility = await Facility.findOne({ _id: req.params.id, tenant: req.tenant });
     if (!facility) {
       return res.status(404).json({
         success: false,
@@ -254,4 +311,81 @@ router.post('/:id/review', authenticate, async (req, res) => {
   }
 });
 
-export default router;
\ No newline at end of file
+// @route   POST /api/facilities
+// @desc    Add a facility
+// @access  Private (facility.manage)
+router.post('/', authenticate, requirePermission('facility.manage'), async (req, res) => {
+  try {
+    const { error, value } = newFacilitySchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const facility = await Facility.create({
+      ...value,
+      location: { type: 'Point', ...value.location },
+      tenant: req.tenant
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Facility added',
+      data: {
+        facility
+      }
+    });
+  } catch (error) {
+    console.error('Create facility error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to add facility'
+    });
+  }
+});
+
+// @route   PUT /api/facilities/:id
+// @desc    Update a facility (isActive: false hides it)
+// @access  Private (facility.manage)
+router.put('/:id', authenticate, requirePermission('facility.manage'), async (req, res) => {
+  try {
+    const { error, value } = facilitySchema.min(1).validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const facility = await Facility.findOne({ _id: req.params.id, tenant: req.tenant });
+    if (!facility) {
+      return res.status(404).json({
+        success: false,
+        message: 'Facility not found'
+      });
+    }
+
+    const { location, ...fields } = value;
+    facility.set(fields);
+    if (location) facility.location = { type: 'Point', ...location };
+    await facility.save();
+
+    res.json({
+      success: true,
+      message: 'Facility updated',
+      data: {
+        facility
+      }
+    });
+  } catch (error) {
+    console.error('Update facility error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update facility'
+    });
+  }
+});
+
+export default router;
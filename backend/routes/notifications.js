@@ -0,0 +1,262 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import Joi from 'joi';
+import Notification from '../models/Notification.js';
+import User from '../models/User.js';
+import { authenticate } from '../middleware/auth.js';
+import { getChannel, isPushServiceEndpoint } from '../services/deliveryChannels.js';
+
+const router = express.Router();
+
+// Browsers kept per user; subscribing another one drops the oldest
+const MAX_PUSH_SUBSCRIPTIONS = 10;
+
+const pushSubscriptionSchema = Joi.object({
+  endpoint: Joi.string().uri({ scheme: ['https'] }).max(2000).required(),
+  keys: Joi.object({
+    p256dh: Joi.string().base64({ urlSafe: true, paddingRequired: false }).max(200).required(),
+    auth: Joi.string().base64({ urlSafe: true, paddingRequired: false }).max(100).required()
+  }).required().unknown(true),
+  // Browsers include it in PushSubscription.toJSON()
+  expirationTime: Joi.any()
+});
+
+// Key browsers subscribe with, or null when push is not set up
+const pushPublicKey = () => {
+  try {
+    return getChannel('push')?.publicKey || null;
+  } catch {
+    return null;
+  }
+};
+
+// @route   GET /api/notifications
+// @desc    The user's notifications, newest first (?page=&limit=&unread=true)
+// @access  Private
+router.get('/', authenticate, async (req, res) => {
+  try {
+    const page = Math.max(parseInt(req.query.page) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 20, 1), 100);
+
+    const filter = { user: req.user._id };
+    if (req.query.unread === 'true') filter.readAt = null;
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      Notification.find(filter)
+        .sort({ createdAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Notification.countDocuments(filter),
+      Notification.unreadCount(req.user._id)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        notifications,
+        unreadCount,
+        pagination: {
+          current: page,
+          pages: Math.ceil(total / limit),
+          total
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch notifications'
+    });
+  }
+});
+
+// @route   GET /api/notifications/unread-count
+// @desc    Number of unread notifications, for the header bell
+// @access  Private
+router.get('/unread-count', authenticate, async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: {
+        unreadCount: await Notification.unreadCount(req.user._id)
+      }
+    });
+  } catch (error) {
+    console.error('Get unread notifications error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch unread notifications'
+    });
+  }
+});
+
+// @route   PUT /api/notifications/read-all
+// @desc    Mark all of the user's notifications read
+// @access  Private
+router.put('/read-all', authenticate, async (req, res) => {
+  try {
+    const result = await Notification.markAllRead(req.user._id);
+
+    res.json({
+      success: true,
+      message: `${result.modifiedCount} notification(s) marked read`,
+      data: {
+        unreadCount: 0
+      }
+    });
+  } catch (error) {
+    console.error('Read all notifications error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to mark notifications read'
+    });
+  }
+});
+
+// @route   PUT /api/notifications/:id/read
+// @desc    Mark one notification read
+// @access  Private (its recipient)
+router.put('/:id/read', authenticate, async (req, res) => {
+  try {
+    const notification = mongoose.isValidObjectId(req.params.id)
+      ? await Notification.findOne({ _id: req.params.id, user: req.user._id })
+      : null;
+
+    if (!notification) {
+      return res.status(404).json({
+        success: false,
+        message: 'Notification not found'
+      });
+    }
+
+    if (!notification.readAt) {
+      notification.readAt = new Date();
+      await notification.save();
+    }
+
+    res.json({
+      success: true,
+      data: {
+        notification,
+        unreadCount: await Notification.unreadCount(req.user._id)
+      }
+    });
+  } catch (error) {
+    console.error('Read notification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to mark notification read'
+    });
+  }
+});
+
+// @route   GET /api/notifications/push/key
+// @desc    Public VAPID key for subscribing a browser to push notifications
+// @access  Private
+router.get('/push/key', authenticate, (req, res) => {
+  const publicKey = pushPublicKey();
+  if (!publicKey) {
+    return res.status(404).json({
+      success: false,
+      message: 'Push notifications are not available'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: { publicKey }
+  });
+});
+
+// @route   POST /api/notifications/push/subscriptions
+// @desc    Receive push notifications in this browser (a PushSubscription)
+// @access  Private
+router.post('/push/subscriptions', authenticate, async (req, res) => {
+  try {
+    const { error, value } = pushSubscriptionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+    if (!pushPublicKey()) {
+      return res.status(404).json({
+        success: false,
+        message: 'Push notifications are not available'
+      });
+    }
+    if (!isPushServiceEndpoint(value.endpoint)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Push notifications are not supported for this browser'
+      });
+    }
+
+    // Re-subscribing a browser replaces its keys
+    await User.updateOne(
+      { _id: req.user._id },
+      { $pull: { pushSubscriptions: { endpoint: value.endpoint } } }
+    );
+    await User.updateOne(
+      { _id: req.user._id },
+      {
+        $push: {
+          pushSubscriptions: {
+            $each: [{
+              endpoint: value.endpoint,
+              keys: { p256dh: value.keys.p256dh, auth: value.keys.auth },
+              userAgent: req.get('user-agent')?.slice(0, 200)
+            }],
+            $slice: -MAX_PUSH_SUBSCRIPTIONS
+          }
+        }
+      }
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Push notifications enabled in this browser'
+    });
+  } catch (error) {
+    console.error('Push subscribe error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to enable push notifications'
+    });
+  }
+});
+
+// @route   DELETE /api/notifications/push/subscriptions
+// @desc    Stop push notifications to a browser ({ endpoint })
+// @access  Private
+router.delete('/push/subscriptions', authenticate, async (req, res) => {
+  try {
+    const { endpoint } = req.body || {};
+    if (typeof endpoint !== 'string' || !endpoint) {
+      return res.status(400).json({
+        success: false,
+        message: 'Endpoint is required'
+      });
+    }
+
+    await User.updateOne(
+      { _id: req.user._id },
+      { $pull: { pushSubscriptions: { endpoint } } }
+    );
+
+    res.json({
+      success: true,
+      message: 'Push notifications disabled in this browser'
+    });
+  } catch (error) {
+    console.error('Push unsubscribe error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to disable push notifications'
+    });
+  }
+});
+
+export default router;
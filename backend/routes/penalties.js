@@ -0,0 +1,363 @@
+import express from 'express';
+import multer from 'multer';
+import mongoose from 'mongoose';
+import path from 'path';
+import Joi from 'joi';
+import Penalty, { PENALTY_VIOLATIONS, PENALTY_STATUSES } from '../models/Penalty.js';
+import WasteReport from '../models/WasteReport.js';
+import User from '../models/User.js';
+import { authenticate, requirePermission, can } from '../middleware/auth.js';
+import { requireTenant } from '../middleware/tenant.js';
+import { storeImages, InvalidImageError } from '../services/imageProcessing.js';
+import { discardImages } from '../services/imageStorage.js';
+import { withEvidenceUrls } from '../services/imageUrls.js';
+import {
+  issuePenalty,
+  applyPenaltyAction,
+  allowedPenaltyActions,
+  PenaltyError
+} from '../services/penalties.js';
+
+const router = express.Router();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: parseInt(process.env.MAX_FILE_SIZE) || 5242880,
+    files: 5
+  },
+  fileFilter: (req, file, cb) => {
+    const allowedTypes = /jpeg|jpg|png|gif|webp/;
+    const isValid =
+      allowedTypes.test(path.extname(file.originalname).toLowerCase()) &&
+      allowedTypes.test(file.mimetype);
+
+    if (!isValid) {
+      return cb(new Error('Only image files (JPEG, PNG, GIF, WebP) are allowed'), false);
+    }
+
+    cb(null, true);
+  }
+});
+
+const objectId = Joi.string().hex().length(24);
+
+const issueSchema = Joi.object({
+  user: objectId.required(),
+  report: objectId.required(),
+  violation: Joi.string().valid(...PENALTY_VIOLATIONS).default('other'),
+  amount: Joi.number().min(0).required(),
+  reason: Joi.string().trim().min(3).max(500).required(),
+  dueDate: Joi.date().iso().greater('now')
+});
+
+const actionSchema = Joi.object({
+  statement: Joi.string().trim().max(1000).allow(''),
+  notes: Joi.string().trim().max(500).allow(''),
+  reference: Joi.string().trim().max(100).allow('')
+});
+
+const populatePenalty = (query) => query
+  .populate('user', 'name email phone')
+  .populate('issuedBy', 'name')
+  .populate('report', 'wasteType status location.address createdAt')
+  .populate('history.by', 'name role');
+
+// Offenders see their own penalties, issuers the ones they issued and
+// managers all of the municipality
+const canSeePenalty = (req, penalty) =>
+  can(req, 'penalty.manage') ||
+  [penalty.user, penalty.issuedBy].some(id => (id?._id || id)?.toString() === req.user._id.toString());
+
+const presentPenalty = (penalty, req) => ({
+  ...withEvidenceUrls(penalty),
+  allowedActions: allowedPenaltyActions(penalty, req.user, can(req, 'penalty.manage'))
+});
+
+const findPenalty = (req) => mongoose.isValidObjectId(req.params.id)
+  ? populatePenalty(Penalty.findOne({ _id: req.params.id, tenant: req.tenant }))
+  : null;
+
+const paging = (req) => {
+  const page = Math.max(parseInt(req.query.page) || 1, 1);
+  const limit = Math.min(Math.max(parseInt(req.query.limit) || 20, 1), 100);
+  return { page, limit };
+};
+
+// @route   GET /api/penalties/mine
+// @desc    Penalties issued to the signed-in user, newest first
+// @access  Private
+router.get('/mine', authenticate, async (req, res) => {
+  try {
+    const penalties = await populatePenalty(Penalty.find({ tenant: req.tenant, user: req.user._id }))
+      .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: {
+        penalties: penalties.map(penalty => presentPenalty(penalty, req))
+      }
+    });
+  } catch (error) {
+    console.error('Get my penalties error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch penalties'
+    });
+  }
+});
+
+// @route   GET /api/penalties/offenders
+// @desc    Citizens matching ?q= (name, email or phone) to issue a penalty to
+// @access  Private (penalty.issue)
+router.get('/offenders', authenticate, requirePermission('penalty.issue'), async (req, res) => {
+  try {
+    const query = String(req.query.q || '').trim();
+    if (query.length < 2) {
+      return res.json({ success: true, data: { users: [] } });
+    }
+
+    const pattern = new RegExp(query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+    const users = await User.find({
+      tenant: req.tenant,
+      role: { $in: ['citizen', 'green_champion'] },
+      $or: [{ name: pattern }, { email: pattern }, { phone: pattern }]
+    })
+      .select('name email phone')
+      .limit(10);
+
+    res.json({
+      success: true,
+      data: {
+        users
+      }
+    });
+  } catch (error) {
+    console.error('Find offenders error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to search citizens'
+    });
+  }
+});
+
+// @route   GET /api/penalties
+// @desc    Penalties of the municipality (?status=&user=&report=&page=&limit=);
+//          issuers without penalty.manage only see their own
+// @access  Private (penalty.issue)
+router.get('/', authenticate, requirePermission('penalty.issue'), async (req, res) => {
+  try {
+    const { page, limit } = paging(req);
+    const { status, user, report } = req.query;
+
+    if (status && !PENALTY_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Unknown status'
+      });
+    }
+
+    const filter = { tenant: req.tenant };
+    if (!can(req, 'penalty.manage')) filter.issuedBy = req.user._id;
+    if (status) filter.status = status;
+    if (mongoose.isValidObjectId(user)) filter.user = user;
+    if (mongoose.isValidObjectId(report)) filter.report = report;
+
+    const [penalties, total] = await Promise.all([
+      populatePenalty(Penalty.find(filter))
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Penalty.countDocuments(filter)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        penalties: penalties.map(penalty => presentPenalty(penalty, req)),
+        pagination: {
+          current: page,
+          pages: Math.ceil(total / limit),
+          total
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get penalties error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch penalties'
+    });
+  }
+});
+
+// @route   GET /api/penalties/:id
+// @desc    One penalty with its evidence and audit history
+// @access  Private (offender, issuer or penalty.manage)
+router.get('/:id', authenticate, requireTenant, async (req, res) => {
+  try {
+    const penalty = await findPenalty(req);
+
+    if (!penalty || !canSeePenalty(req, penalty)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Penalty not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        penalty: presentPenalty(penalty, req)
+      }
+    });
+  } catch (error) {
+    console.error('Get penalty error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch penalty'
+    });
+  }
+});
+
+// @route   POST /api/penalties
+// @desc    Issue a penalty for a report, with up to 5 evidence photos
+//          (multipart field "evidence")
+// @access  Private (penalty.issue)
+router.post('/', authenticate, requirePermission('penalty.issue'), upload.array('evidence', 5), async (req, res) => {
+  try {
+    const { error, value } = issueSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const [offender, report] = await Promise.all([
+      User.findOne({ _id: value.user, tenant: req.tenant, role: { $in: ['citizen', 'green_champion'] } }).select('_id'),
+      WasteReport.findOne({ _id: value.report, tenant: req.tenant }).select('location')
+    ]);
+    if (!offender) {
+      return res.status(400).json({
+        success: false,
+        message: 'Penalties can only be issued to citizens of this municipality'
+      });
+    }
+    if (!report) {
+      return res.status(400).json({
+        success: false,
+        message: 'Report not found'
+      });
+    }
+
+    const evidence = await storeImages(req.files, 'penalty', {
+      tenant: req.tenant,
+      coordinates: report.location?.coordinates
+    });
+
+    let penalty;
+    try {
+      penalty = await issuePenalty({ ...value, tenant: req.tenant, evidence }, req.user);
+    } catch (saveError) {
+      await discardImages(evidence);
+      throw saveError;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Penalty issued',
+      data: {
+        penalty: presentPenalty(await populatePenalty(Penalty.findById(penalty._id)), req)
+      }
+    });
+  } catch (error) {
+    if (error instanceof InvalidImageError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+    console.error('Issue penalty error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to issue penalty'
+    });
+  }
+});
+
+// Route for one workflow action; the service decides who may take it
+const penaltyAction = (action, message) => async (req, res) => {
+  try {
+    const { error, value } = actionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const penalty = await findPenalty(req);
+
+    if (!penalty || !canSeePenalty(req, penalty)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Penalty not found'
+      });
+    }
+
+    const updated = await applyPenaltyAction(penalty, action, req.user, {
+      isManager: can(req, 'penalty.manage'),
+      statement: value.statement,
+      notes: value.notes,
+      paymentReference: value.reference
+    });
+
+    res.json({
+      success: true,
+      message,
+      data: {
+        penalty: presentPenalty(await populatePenalty(Penalty.findById(updated._id)), req)
+      }
+    });
+  } catch (error) {
+    if (error instanceof PenaltyError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+    console.error(`Penalty ${action} error:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update penalty'
+    });
+  }
+};
+
+// @route   POST /api/penalties/:id/dispute
+// @desc    Contest a pending penalty with a { statement }
+// @access  Private (the offender)
+router.post('/:id/dispute', authenticate, penaltyAction('disputed', 'Your dispute was submitted'));
+
+// @route   POST /api/penalties/:id/resolve
+// @desc    Decide a dispute: { outcome: 'upheld' } waives the penalty,
+//          { outcome: 'rejected', notes } makes it payable again
+// @access  Private (penalty.manage)
+router.post('/:id/resolve', authenticate, requirePermission('penalty.manage'), (req, res) => {
+  const { outcome, ...body } = req.body || {};
+  if (!['upheld', 'rejected'].includes(outcome)) {
+    return res.status(400).json({
+      success: false,
+      message: 'Outcome must be "upheld" or "rejected"'
+    });
+  }
+  req.body = body;
+  return penaltyAction(`dispute_${outcome}`, `Dispute ${outcome}`)(req, res);
+});
+
+// @route   POST /api/penalties/:id/pay
+// @desc    Record payment, with an optional { reference }
+// @access  Private (penalty.manage)
+router.post('/:id/pay', authenticate, requirePermission('penalty.manage'), penaltyAction('paid', 'Penalty marked as paid'));
+
+// @route   POST /api/penalties/:id/waive
+// @desc    Drop a pending or disputed penalty; { notes } are required
+// @access  Private (penalty.manage)
+router.post('/:id/waive', authenticate, requirePermission('penalty.manage'), penaltyAction('waived', 'Penalty waived'));
+
+export default router;
@@ -0,0 +1,42 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import Zone from '../models/Zone.js';
+import { authenticate } from '../middleware/auth.js';
+import { requireTenant } from '../middleware/tenant.js';
+import { subscriptionScope, openStream, RealtimeError } from '../services/realtime.js';
+
+const router = express.Router();
+
+// @route   GET /api/realtime/stream
+// @desc    Server-Sent Events stream of report events the user may see,
+//          optionally only of some zones (?zones=id,id)
+// @access  Private
+router.get('/stream', authenticate, requireTenant, async (req, res) => {
+  try {
+    const zones = (req.query.zones || '').split(',').map(zone => zone.trim()).filter(Boolean);
+    if (zones.length > 0 && (zones.some(zone => !mongoose.isValidObjectId(zone)) ||
+        await Zone.countDocuments({ _id: { $in: zones }, tenant: req.tenant }) !== zones.length)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Unknown zone'
+      });
+    }
+
+    const scope = await subscriptionScope(req.user, req.tenant, req.permissions, zones);
+    openStream(req, res, { user: req.user, tenant: req.tenant, scope, expiresAt: req.tokenExpiresAt });
+  } catch (error) {
+    if (error instanceof RealtimeError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Realtime stream error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to open the update stream'
+    });
+  }
+});
+
+export default router;
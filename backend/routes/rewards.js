@@ -0,0 +1,317 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import Joi from 'joi';
+import Reward, { REWARD_CATEGORIES } from '../models/Reward.js';
+import Redemption, { REDEMPTION_STATUSES } from '../models/Redemption.js';
+import { authenticate, requirePermission, can } from '../middleware/auth.js';
+import { requireTenant } from '../middleware/tenant.js';
+import { redeemReward, fulfilRedemption, cancelRedemption, RewardError } from '../services/rewards.js';
+
+const router = express.Router();
+
+const rewardSchema = Joi.object({
+  name: Joi.string().trim().max(100),
+  description: Joi.string().trim().max(500).allow(''),
+  category: Joi.string().valid(...REWARD_CATEGORIES),
+  partner: Joi.string().trim().max(100).allow(''),
+  pointsCost: Joi.number().integer().min(1),
+  stock: Joi.number().integer().min(0),
+  imageUrl: Joi.string().uri().allow(''),
+  isActive: Joi.boolean()
+});
+
+const newRewardSchema = rewardSchema.fork(['name', 'pointsCost', 'stock'], (schema) => schema.required());
+
+const cancelSchema = Joi.object({
+  reason: Joi.string().trim().max(300).allow('')
+});
+
+const findInTenant = (Model, req) => mongoose.isValidObjectId(req.params.id)
+  ? Model.findOne({ _id: req.params.id, tenant: req.tenant })
+  : null;
+
+const sendRewardError = (res, error, fallback) => {
+  if (error instanceof RewardError) {
+    return res.status(error.statusCode).json({ success: false, message: error.message });
+  }
+  console.error(`${fallback} error:`, error);
+  res.status(500).json({ success: false, message: `Failed to ${fallback.toLowerCase()}` });
+};
+
+const paging = (req) => {
+  const page = Math.max(parseInt(req.query.page) || 1, 1);
+  const limit = Math.min(Math.max(parseInt(req.query.limit) || 20, 1), 100);
+  return { page, limit };
+};
+
+// @route   GET /api/rewards
+// @desc    Rewards catalogue; managers add ?all=true to include inactive items
+// @access  Private
+router.get('/', authenticate, requireTenant, async (req, res) => {
+  try {
+    const filter = { tenant: req.tenant };
+    if (!(req.query.all === 'true' && can(req, 'reward.manage'))) filter.isActive = true;
+
+    const rewards = await Reward.find(filter).sort({ pointsCost: 1, name: 1 });
+
+    res.json({
+      success: true,
+      data: {
+        rewards
+      }
+    });
+  } catch (error) {
+    console.error('Get rewards error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch rewards'
+    });
+  }
+});
+
+// @route   GET /api/rewards/redemptions/mine
+// @desc    The signed-in user's redemptions and voucher codes, newest first
+// @access  Private (reward.redeem)
+router.get('/redemptions/mine', authenticate, requirePermission('reward.redeem'), async (req, res) => {
+  try {
+    const { page, limit } = paging(req);
+    const filter = { tenant: req.tenant, user: req.user._id };
+
+    const [redemptions, total] = await Promise.all([
+      Redemption.find(filter)
+        .populate('reward', 'category partner imageUrl')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Redemption.countDocuments(filter)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        redemptions,
+        pagination: {
+          current: page,
+          pages: Math.ceil(total / limit),
+          total
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get my redemptions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch redemptions'
+    });
+  }
+});
+
+// @route   GET /api/rewards/redemptions
+// @desc    Redemptions of the municipality (?status=&code=&page=&limit=)
+// @access  Private (reward.manage)
+router.get('/redemptions', authenticate, requirePermission('reward.manage'), async (req, res) => {
+  try {
+    const { page, limit } = paging(req);
+    const { status, code } = req.query;
+
+    if (status && !REDEMPTION_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Unknown status'
+      });
+    }
+
+    const filter = { tenant: req.tenant };
+    if (status) filter.status = status;
+    if (code) filter.voucherCode = String(code).trim().toUpperCase();
+
+    const [redemptions, total] = await Promise.all([
+      Redemption.find(filter)
+        .populate('user', 'name email phone')
+        .populate('fulfilledBy cancelledBy', 'name')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Redemption.countDocuments(filter)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        redemptions,
+        pagination: {
+          current: page,
+          pages: Math.ceil(total / limit),
+          total
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get redemptions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch redemptions'
+    });
+  }
+});
+
+// @route   PUT /api/rewards/redemptions/:id/fulfil
+// @desc    Mark a pending redemption as handed over
+// @access  Private (reward.manage)
+router.put('/redemptions/:id/fulfil', authenticate, requirePermission('reward.manage'), async (req, res) => {
+  try {
+    const redemption = await findInTenant(Redemption, req);
+
+    if (!redemption) {
+      return res.status(404).json({
+        success: false,
+        message: 'Redemption not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: `Voucher ${redemption.voucherCode} fulfilled`,
+      data: {
+        redemption: await fulfilRedemption(redemption, req.user._id)
+      }
+    });
+  } catch (error) {
+    sendRewardError(res, error, 'Fulfil redemption');
+  }
+});
+
+// @route   PUT /api/rewards/redemptions/:id/cancel
+// @desc    Cancel a pending redemption; its points are refunded and the item
+//          goes back into stock
+// @access  Private (reward.manage)
+router.put('/redemptions/:id/cancel', authenticate, requirePermission('reward.manage'), async (req, res) => {
+  try {
+    const { error, value } = cancelSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const redemption = await findInTenant(Redemption, req);
+
+    if (!redemption) {
+      return res.status(404).json({
+        success: false,
+        message: 'Redemption not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: `Voucher ${redemption.voucherCode} cancelled and ${redemption.pointsCost} points refunded`,
+      data: {
+        redemption: await cancelRedemption(redemption, { by: req.user._id, reason: value.reason || undefined })
+      }
+    });
+  } catch (error) {
+    sendRewardError(res, error, 'Cancel redemption');
+  }
+});
+
+// @route   POST /api/rewards
+// @desc    Add an item to the catalogue
+// @access  Private (reward.manage)
+router.post('/', authenticate, requirePermission('reward.manage'), async (req, res) => {
+  try {
+    const { error, value } = newRewardSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const reward = await Reward.create({ ...value, tenant: req.tenant, createdBy: req.user._id });
+
+    res.status(201).json({
+      success: true,
+      message: `${reward.name} added to the catalogue`,
+      data: {
+        reward
+      }
+    });
+  } catch (error) {
+    console.error('Create reward error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create reward'
+    });
+  }
+});
+
+// @route   PUT /api/rewards/:id
+// @desc    Edit a catalogue item, restock it or take it off the catalogue
+// @access  Private (reward.manage)
+router.put('/:id', authenticate, requirePermission('reward.manage'), async (req, res) => {
+  try {
+    const { error, value } = rewardSchema.min(1).validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const reward = await findInTenant(Reward, req);
+
+    if (!reward) {
+      return res.status(404).json({
+        success: false,
+        message: 'Reward not found'
+      });
+    }
+
+    reward.set(value);
+    await reward.save();
+
+    res.json({
+      success: true,
+      message: 'Reward updated',
+      data: {
+        reward
+      }
+    });
+  } catch (error) {
+    console.error('Update reward error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update reward'
+    });
+  }
+});
+
+// @route   POST /api/rewards/:id/redeem
+// @desc    Spend points on one item and get a voucher code
+// @access  Private (reward.redeem)
+router.post('/:id/redeem', authenticate, requirePermission('reward.redeem'), async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Reward not found'
+      });
+    }
+
+    const redemption = await redeemReward(req.user, req.params.id);
+
+    res.status(201).json({
+      success: true,
+      message: `Redeemed ${redemption.rewardName}. Your voucher code is ${redemption.voucherCode}`,
+      data: {
+        redemption
+      }
+    });
+  } catch (error) {
+    sendRewardError(res, error, 'Redeem reward');
+  }
+});
+
+export default router;
@@ -0,0 +1,488 @@
+import express from 'express';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Joi from 'joi';
+import CollectionSchedule, { COLLECTION_STREAMS, DAY_PATTERN, TIME_PATTERN } from '../models/CollectionSchedule.js';
+import CollectionException, { EXCEPTION_ACTIONS } from '../models/CollectionException.js';
+import CollectionReminder from '../models/CollectionReminder.js';
+import Zone from '../models/Zone.js';
+import User from '../models/User.js';
+import Tenant from '../models/Tenant.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { findTenant, requireTenant } from '../middleware/tenant.js';
+import {
+  upcomingPickups, nextPickups, localClock, addDays, daysBetween, MAX_MOVE_DAYS, MAX_LOOKAHEAD_DAYS
+} from '../services/collectionSchedule.js';
+import { scheduleCalendar } from '../services/icalendar.js';
+
+const router = express.Router();
+
+const objectId = Joi.string().hex().length(24);
+const day = Joi.string().pattern(DAY_PATTERN).message('Dates look like 2024-05-31');
+const time = Joi.string().pattern(TIME_PATTERN).message('Times look like 08:00');
+
+const scheduleSchema = Joi.object({
+  zone: objectId,
+  stream: Joi.string().valid(...COLLECTION_STREAMS),
+  days: Joi.array().items(Joi.number().integer().min(0).max(6)).min(1).unique(),
+  everyWeeks: Joi.number().integer().min(1).max(4),
+  startsOn: day,
+  endsOn: day.allow(null, ''),
+  time,
+  notes: Joi.string().trim().max(300).allow(''),
+  isActive: Joi.boolean()
+});
+
+const newScheduleSchema = scheduleSchema.fork(['zone', 'stream', 'days', 'startsOn'], (schema) => schema.required());
+
+const exceptionSchema = Joi.object({
+  date: day.required(),
+  name: Joi.string().trim().max(100).required(),
+  action: Joi.string().valid(...EXCEPTION_ACTIONS).required(),
+  movedTo: Joi.when('action', { is: 'move', then: day.required(), otherwise: Joi.forbidden() }),
+  time: Joi.when('action', { is: 'move', then: time, otherwise: Joi.forbidden() }),
+  schedule: objectId,
+  zones: Joi.array().items(objectId).max(500).default([]),
+  streams: Joi.array().items(Joi.string().valid(...COLLECTION_STREAMS)).unique().default([])
+});
+
+const findSchedule = (req) => mongoose.isValidObjectId(req.params.id)
+  ? CollectionSchedule.findOne({ _id: req.params.id, tenant: req.tenant })
+  : null;
+
+const checkZones = async (req, zones) =>
+  (await Zone.countDocuments({ _id: { $in: zones }, tenant: req.tenant })) === zones.length;
+
+// Today in the municipality's time zone
+const today = async (req) => {
+  const tenant = await findTenant(req.tenant);
+  return localClock(new Date(), tenant?.timezone || 'UTC').day;
+};
+
+// @route   GET /api/schedules/next
+// @desc    Next pickup of each waste stream at the user's address, the
+//          pickups of the next ?days= (default 14) and pending reminders
+// @access  Private
+router.get('/next', authenticate, requireTenant, async (req, res) => {
+  try {
+    const coordinates = req.user.address?.coordinates;
+    const days = Math.min(Math.max(parseInt(req.query.days) || 14, 1), MAX_LOOKAHEAD_DAYS);
+    const from = await today(req);
+
+    const zones = await Zone.findForPoint(coordinates, req.tenant);
+    const upcoming = await upcomingPickups({ tenant: req.tenant, zones: zones.map(zone => zone._id), from, days });
+    const reminders = await CollectionReminder.find({ user: req.user._id, date: { $gte: from } })
+      .sort({ date: 1 });
+
+    res.json({
+      success: true,
+      data: {
+        // False when the address has no position, so no zone can be found
+        located: Array.isArray(coordinates) && coordinates.length === 2,
+        today: from,
+        zones,
+        next: nextPickups(upcoming),
+        upcoming,
+        reminders
+      }
+    });
+  } catch (error) {
+    console.error('Get next pickups error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch collection schedule'
+    });
+  }
+});
+
+// Past exceptions still worth showing as changed pickups in calendars
+const CALENDAR_HISTORY_DAYS = 90;
+
+const calendarPath = (token) => `/api/schedules/calendar/${token}.ics`;
+
+const issueCalendarToken = async (userId) => {
+  const token = crypto.randomBytes(24).toString('base64url');
+  await User.updateOne({ _id: userId }, { $set: { calendarToken: token } });
+  return token;
+};
+
+// @route   GET /api/schedules/calendar
+// @desc    Secret URL of the user's collection calendar feed (created on
+//          first use)
+// @access  Private
+router.get('/calendar', authenticate, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id).select('+calendarToken');
+    const token = user.calendarToken || await issueCalendarToken(user._id);
+
+    res.json({
+      success: true,
+      data: {
+        url: calendarPath(token)
+      }
+    });
+  } catch (error) {
+    console.error('Get calendar feed error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch calendar link'
+    });
+  }
+});
+
+// @route   POST /api/schedules/calendar/reset
+// @desc    Replace the calendar feed URL; the old one stops working
+// @access  Private
+router.post('/calendar/reset', authenticate, async (req, res) => {
+  try {
+    const token = await issueCalendarToken(req.user._id);
+
+    res.json({
+      success: true,
+      message: 'New calendar link created; the old link no longer works',
+      data: {
+        url: calendarPath(token)
+      }
+    });
+  } catch (error) {
+    console.error('Reset calendar feed error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create a new calendar link'
+    });
+  }
+});
+
+// @route   GET /api/schedules/calendar/:token.ics
+// @desc    iCalendar feed of the collection days at a user's address, with
+//          holidays and reschedules. Calendar apps cannot sign in, so the
+//          secret token identifies the user.
+// @access  Public (token)
+router.get('/calendar/:token.ics', async (req, res) => {
+  try {
+    const user = await User.findOne({ calendarToken: req.params.token, isActive: true })
+      .select('tenant address.coordinates');
+    const tenant = user && await Tenant.findOne({ _id: user.tenant, isActive: true });
+
+    if (!tenant) {
+      return res.status(404).type('text/plain').send('Calendar not found');
+    }
+
+    const timeZone = tenant.timezone || 'UTC';
+    const zones = await Zone.findForPoint(user.address?.coordinates, tenant._id);
+    const schedules = zones.length === 0 ? [] : await CollectionSchedule.find({
+      tenant: tenant._id,
+      zone: { $in: zones.map(zone => zone._id) },
+      isActive: true
+    }).populate('zone', 'name');
+    const since = addDays(localClock(new Date(), timeZone).day, -CALENDAR_HISTORY_DAYS);
+    const exceptions = await CollectionException.find({ tenant: tenant._id, date: { $gte: since } });
+
+    res
+      .set('Content-Type', 'text/calendar; charset=utf-8')
+      .set('Content-Disposition', 'inline; filename="waste-collection.ics"')
+      .set('Cache-Control', 'private, max-age=3600')
+      .send(scheduleCalendar({
+        name: `Waste collection – ${tenant.branding?.displayName || tenant.name}`,
+        timeZone,
+        schedules,
+        exceptions
+      }));
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    res.status(500).type('text/plain').send('Failed to build calendar');
+  }
+});
+
+// @route   GET /api/schedules/exceptions
+// @desc    Holidays and reschedules from ?from= (default today) on
+// @access  Private (schedule.manage)
+router.get('/exceptions', authenticate, requirePermission('schedule.manage'), async (req, res) => {
+  try {
+    const from = DAY_PATTERN.test(req.query.from || '') ? req.query.from : await today(req);
+
+    const exceptions = await CollectionException.find({ tenant: req.tenant, date: { $gte: from } })
+      .populate('zones', 'name code kind')
+      .populate({ path: 'schedule', select: 'zone stream days time', populate: { path: 'zone', select: 'name' } })
+      .sort({ date: 1 });
+
+    res.json({
+      success: true,
+      data: {
+        exceptions
+      }
+    });
+  } catch (error) {
+    console.error('Get collection exceptions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch holidays and reschedules'
+    });
+  }
+});
+
+// @route   POST /api/schedules/exceptions
+// @desc    Cancel or move the pickups of a day, for one schedule or for
+//          zones and streams (all when empty)
+// @access  Private (schedule.manage)
+router.post('/exceptions', authenticate, requirePermission('schedule.manage'), async (req, res) => {
+  try {
+    const { error, value } = exceptionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    if (value.action === 'move') {
+      const shift = daysBetween(value.date, value.movedTo);
+      if (shift === 0 || Math.abs(shift) > MAX_MOVE_DAYS) {
+        return res.status(400).json({
+          success: false,
+          message: `Pickups can be moved by 1 to ${MAX_MOVE_DAYS} days`
+        });
+      }
+    }
+
+    if (value.schedule) {
+      if (!await CollectionSchedule.exists({ _id: value.schedule, tenant: req.tenant })) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid schedule'
+        });
+      }
+      // A reschedule is about that schedule only
+      value.zones = [];
+      value.streams = [];
+    } else if (!await checkZones(req, value.zones)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid zone'
+      });
+    }
+
+    const exception = await CollectionException.create({
+      ...value,
+      tenant: req.tenant,
+      createdBy: req.user._id
+    });
+
+    res.status(201).json({
+      success: true,
+      message: value.action === 'move' ? 'Pickups moved' : 'Pickups cancelled',
+      data: {
+        exception
+      }
+    });
+  } catch (error) {
+    console.error('Create collection exception error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to save holiday or reschedule'
+    });
+  }
+});
+
+// @route   DELETE /api/schedules/exceptions/:id
+// @desc    Remove a holiday or reschedule; its pickups take place as usual
+// @access  Private (schedule.manage)
+router.delete('/exceptions/:id', authenticate, requirePermission('schedule.manage'), async (req, res) => {
+  try {
+    const exception = mongoose.isValidObjectId(req.params.id)
+      ? await CollectionException.findOneAndDelete({ _id: req.params.id, tenant: req.tenant })
+      : null;
+
+    if (!exception) {
+      return res.status(404).json({
+        success: false,
+        message: 'Holiday or reschedule not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Regular pickups restored'
+    });
+  } catch (error) {
+    console.error('Delete collection exception error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to remove holiday or reschedule'
+    });
+  }
+});
+
+// @route   GET /api/schedules
+// @desc    Collection schedules of the municipality (?zone= to filter)
+// @access  Private (schedule.manage)
+router.get('/', authenticate, requirePermission('schedule.manage'), async (req, res) => {
+  try {
+    const query = { tenant: req.tenant };
+    if (req.query.zone) {
+      if (!mongoose.isValidObjectId(req.query.zone)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid zone'
+        });
+      }
+      query.zone = req.query.zone;
+    }
+
+    const schedules = await CollectionSchedule.find(query)
+      .populate('zone', 'name code kind')
+      .sort({ zone: 1, stream: 1 });
+
+    res.json({
+      success: true,
+      data: {
+        schedules,
+        streams: COLLECTION_STREAMS
+      }
+    });
+  } catch (error) {
+    console.error('Get collection schedules error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch collection schedules'
+    });
+  }
+});
+
+// @route   POST /api/schedules
+// @desc    Add a recurring pickup of a waste stream in a zone
+// @access  Private (schedule.manage)
+router.post('/', authenticate, requirePermission('schedule.manage'), async (req, res) => {
+  try {
+    const { error, value } = newScheduleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    if (!await checkZones(req, [value.zone])) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid zone'
+      });
+    }
+    if (value.endsOn && value.endsOn < value.startsOn) {
+      return res.status(400).json({
+        success: false,
+        message: 'A schedule cannot end before it starts'
+      });
+    }
+
+    const schedule = await CollectionSchedule.create({
+      ...value,
+      endsOn: value.endsOn || undefined,
+      tenant: req.tenant,
+      createdBy: req.user._id
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Collection schedule added',
+      data: {
+        schedule: await schedule.populate('zone', 'name code kind')
+      }
+    });
+  } catch (error) {
+    console.error('Create collection schedule error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to save collection schedule'
+    });
+  }
+});
+
+// @route   PUT /api/schedules/:id
+// @desc    Change the days, time, period or zone of a schedule, or switch
+//          it on/off
+// @access  Private (schedule.manage)
+router.put('/:id', authenticate, requirePermission('schedule.manage'), async (req, res) => {
+  try {
+    const { error, value } = scheduleSchema.min(1).validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const schedule = await findSchedule(req);
+
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Collection schedule not found'
+      });
+    }
+
+    if (value.zone && !await checkZones(req, [value.zone])) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid zone'
+      });
+    }
+
+    // An empty end date means the schedule runs on
+    if (value.endsOn === '' || value.endsOn === null) value.endsOn = undefined;
+    schedule.set(value);
+    if (schedule.endsOn && schedule.endsOn < schedule.startsOn) {
+      return res.status(400).json({
+        success: false,
+        message: 'A schedule cannot end before it starts'
+      });
+    }
+    await schedule.save();
+
+    res.json({
+      success: true,
+      message: 'Collection schedule updated',
+      data: {
+        schedule: await schedule.populate('zone', 'name code kind')
+      }
+    });
+  } catch (error) {
+    console.error('Update collection schedule error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update collection schedule'
+    });
+  }
+});
+
+// @route   DELETE /api/schedules/:id
+// @desc    Delete a schedule together with its reschedules
+// @access  Private (schedule.manage)
+router.delete('/:id', authenticate, requirePermission('schedule.manage'), async (req, res) => {
+  try {
+    const schedule = await findSchedule(req);
+
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Collection schedule not found'
+      });
+    }
+
+    await CollectionException.deleteMany({ tenant: req.tenant, schedule: schedule._id });
+    await schedule.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Collection schedule deleted'
+    });
+  } catch (error) {
+    console.error('Delete collection schedule error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete collection schedule'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,273 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import Joi from 'joi';
+import Team from '../models/Team.js';
+import User from '../models/User.js';
+import Zone from '../models/Zone.js';
+import { authenticate, requirePermission, can } from '../middleware/auth.js';
+import { requireTenant } from '../middleware/tenant.js';
+import { saveTeam, disbandTeam, teamKpis, TeamError } from '../services/teams.js';
+import { rolesWith } from '../services/permissions.js';
+
+const router = express.Router();
+
+const objectId = Joi.string().hex().length(24);
+
+const teamSchema = Joi.object({
+  name: Joi.string().trim().max(100),
+  supervisor: objectId,
+  members: Joi.array().items(objectId).max(100),
+  zone: objectId.allow(null, ''),
+  isActive: Joi.boolean()
+});
+
+const newTeamSchema = teamSchema.fork(['name', 'supervisor'], (schema) => schema.required());
+
+const populateTeam = (query) => query
+  .populate('supervisor', 'name email')
+  .populate('members', 'name email phone workerProfile.skills')
+  .populate('zone', 'name code kind');
+
+const findTeam = (req) => mongoose.isValidObjectId(req.params.id)
+  ? Team.findOne({ _id: req.params.id, tenant: req.tenant })
+  : null;
+
+// Supervisors may look at their own team; team managers at any
+const canSeeTeam = (req, team) =>
+  can(req, 'team.manage') ||
+  (can(req, 'team.supervise') && req.user.team?.toString() === team._id.toString());
+
+const sendTeamError = (res, error, fallback) => {
+  if (error instanceof TeamError) {
+    return res.status(error.statusCode).json({ success: false, message: error.message });
+  }
+  if (error.code === 11000) {
+    return res.status(409).json({ success: false, message: 'A team with this name already exists' });
+  }
+  console.error(`${fallback} error:`, error);
+  res.status(500).json({ success: false, message: `Failed to ${fallback.toLowerCase()}` });
+};
+
+const checkZone = async (req, zone) =>
+  !zone || !!await Zone.exists({ _id: zone, tenant: req.tenant });
+
+// @route   GET /api/teams
+// @desc    All teams of the municipality
+// @access  Private (team.manage)
+router.get('/', authenticate, requirePermission('team.manage'), async (req, res) => {
+  try {
+    const teams = await populateTeam(Team.find({ tenant: req.tenant })).sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: {
+        teams
+      }
+    });
+  } catch (error) {
+    console.error('Get teams error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch teams'
+    });
+  }
+});
+
+// @route   GET /api/teams/mine
+// @desc    Team the signed-in supervisor leads (null if none)
+// @access  Private (team.supervise)
+router.get('/mine', authenticate, requirePermission('team.supervise'), async (req, res) => {
+  try {
+    const team = req.user.team
+      ? await populateTeam(Team.findOne({ _id: req.user.team, tenant: req.tenant, supervisor: req.user._id }))
+      : null;
+
+    res.json({
+      success: true,
+      data: {
+        team
+      }
+    });
+  } catch (error) {
+    console.error('Get my team error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch team'
+    });
+  }
+});
+
+// @route   GET /api/teams/candidates
+// @desc    Workers and supervisors that can be put in a team, with their
+//          current team
+// @access  Private (team.manage)
+router.get('/candidates', authenticate, requirePermission('team.manage'), async (req, res) => {
+  try {
+    const roles = [
+      ...await rolesWith('report.update', req.tenant),
+      ...await rolesWith('team.supervise', req.tenant)
+    ];
+    const users = await User.find({
+      tenant: req.tenant,
+      role: { $in: roles },
+      isActive: true
+    })
+      .select('name email role team')
+      .sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: {
+        users
+      }
+    });
+  } catch (error) {
+    console.error('Get team candidates error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch workers'
+    });
+  }
+});
+
+// @route   GET /api/teams/:id/kpis
+// @desc    Workload, completion times and sign-off figures per member over
+//          the last ?days= (default 30)
+// @access  Private (team.manage, or team.supervise for their own team)
+router.get('/:id/kpis', authenticate, requireTenant, async (req, res) => {
+  try {
+    const team = await findTeam(req);
+
+    if (!team || !canSeeTeam(req, team)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Team not found'
+      });
+    }
+
+    const days = Math.min(Math.max(parseInt(req.query.days) || 30, 1), 365);
+    const kpis = await teamKpis(team, days);
+
+    res.json({
+      success: true,
+      data: {
+        kpis
+      }
+    });
+  } catch (error) {
+    console.error('Get team KPIs error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch team KPIs'
+    });
+  }
+});
+
+// @route   POST /api/teams
+// @desc    Create a team; a waste worker chosen as supervisor is promoted
+// @access  Private (team.manage)
+router.post('/', authenticate, requirePermission('team.manage'), async (req, res) => {
+  try {
+    const { error, value } = newTeamSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    if (!await checkZone(req, value.zone)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid zone'
+      });
+    }
+
+    const team = await saveTeam(new Team({ tenant: req.tenant, createdBy: req.user._id }), value);
+
+    res.status(201).json({
+      success: true,
+      message: `Team ${team.name} created`,
+      data: {
+        team: await populateTeam(Team.findById(team._id))
+      }
+    });
+  } catch (error) {
+    sendTeamError(res, error, 'Create team');
+  }
+});
+
+// @route   PUT /api/teams/:id
+// @desc    Rename a team, change its supervisor, members or zone, or switch
+//          it on/off
+// @access  Private (team.manage)
+router.put('/:id', authenticate, requirePermission('team.manage'), async (req, res) => {
+  try {
+    const { error, value } = teamSchema.min(1).validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const team = await findTeam(req);
+
+    if (!team) {
+      return res.status(404).json({
+        success: false,
+        message: 'Team not found'
+      });
+    }
+
+    if (!await checkZone(req, value.zone)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid zone'
+      });
+    }
+
+    await saveTeam(team, value);
+
+    res.json({
+      success: true,
+      message: 'Team updated',
+      data: {
+        team: await populateTeam(Team.findById(team._id))
+      }
+    });
+  } catch (error) {
+    sendTeamError(res, error, 'Update team');
+  }
+});
+
+// @route   DELETE /api/teams/:id
+// @desc    Disband a team; unfinished reports leave the team queue
+// @access  Private (team.manage)
+router.delete('/:id', authenticate, requirePermission('team.manage'), async (req, res) => {
+  try {
+    const team = await findTeam(req);
+
+    if (!team) {
+      return res.status(404).json({
+        success: false,
+        message: 'Team not found'
+      });
+    }
+
+    await disbandTeam(team);
+
+    res.json({
+      success: true,
+      message: 'Team disbanded'
+    });
+  } catch (error) {
+    console.error('Delete team error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to disband team'
+    });
+  }
+});
+
+export default router;
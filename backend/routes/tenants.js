@@ -0,0 +1,274 @@
+import express from 'express';
+import Joi from 'joi';
+import Tenant, { isTimeZone } from '../models/Tenant.js';
+import User from '../models/User.js';
+import WasteReport from '../models/WasteReport.js';
+import { authenticate, requirePermission, optionalAuth } from '../middleware/auth.js';
+import { findTenant, clearTenantCache } from '../middleware/tenant.js';
+
+const router = express.Router();
+
+const brandingSchema = Joi.object({
+  displayName: Joi.string().trim().max(100).allow(''),
+  logoUrl: Joi.string().uri().allow(''),
+  primaryColor: Joi.string().pattern(/^#[0-9a-fA-F]{6}$/),
+  supportEmail: Joi.string().email().allow(''),
+  supportPhone: Joi.string().pattern(/^\+?[\d\s-()]+$/).allow('')
+});
+
+const timezoneSchema = Joi.string().trim().custom((value, helpers) =>
+  isTimeZone(value) ? value : helpers.message('Unknown time zone'));
+
+const createTenantSchema = Joi.object({
+  name: Joi.string().trim().max(100).required(),
+  slug: Joi.string().trim().lowercase().pattern(/^[a-z0-9]+(-[a-z0-9]+)*$/).max(50).required(),
+  branding: brandingSchema.default({}),
+  timezone: timezoneSchema,
+  // First admin of the municipality
+  admin: Joi.object({
+    name: Joi.string().trim().max(100).required(),
+    email: Joi.string().email().required(),
+    password: Joi.string().min(6).required()
+  }).required()
+});
+
+const updateTenantSchema = Joi.object({
+  name: Joi.string().trim().max(100),
+  isActive: Joi.boolean(),
+  branding: brandingSchema,
+  timezone: timezoneSchema
+}).min(1);
+
+// @route   GET /api/tenants/current
+// @desc    Name and branding of the municipality the request works in
+// @access  Public
+router.get('/current', optionalAuth, async (req, res) => {
+  try {
+    const tenant = await findTenant(req.tenant);
+
+    if (!tenant) {
+      return res.status(404).json({
+        success: false,
+        message: 'No municipality selected'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        tenant
+      }
+    });
+  } catch (error) {
+    console.error('Get current tenant error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch municipality'
+    });
+  }
+});
+
+// @route   GET /api/tenants/public
+// @desc    Active municipalities citizens can register with
+// @access  Public
+router.get('/public', async (req, res) => {
+  try {
+    const tenants = await Tenant.find({ isActive: true })
+      .select('name slug branding.displayName branding.logoUrl')
+      .sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: {
+        tenants
+      }
+    });
+  } catch (error) {
+    console.error('Get public tenants error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch municipalities'
+    });
+  }
+});
+
+// @route   PUT /api/tenants/current/branding
+// @desc    Update the branding of the admin's own municipality
+// @access  Private (tenant.brand)
+router.put('/current/branding', authenticate, requirePermission('tenant.brand'), async (req, res) => {
+  try {
+    const { error, value } = brandingSchema.min(1).validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const tenant = await Tenant.findById(req.tenant);
+    if (!tenant) {
+      return res.status(404).json({
+        success: false,
+        message: 'Municipality not found'
+      });
+    }
+
+    Object.entries(value).forEach(([key, setting]) => tenant.set(`branding.${key}`, setting));
+    await tenant.save();
+    clearTenantCache();
+
+    res.json({
+      success: true,
+      message: 'Branding updated',
+      data: {
+        tenant
+      }
+    });
+  } catch (error) {
+    console.error('Update branding error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update branding'
+    });
+  }
+});
+
+// @route   GET /api/tenants
+// @desc    All municipalities with user and report counts
+// @access  Private (tenant.manage)
+router.get('/', authenticate, requirePermission('tenant.manage'), async (req, res) => {
+  try {
+    const tenants = await Tenant.find().sort({ name: 1 });
+
+    const [users, reports] = await Promise.all([
+      User.aggregate([{ $group: { _id: '$tenant', count: { $sum: 1 } } }]),
+      WasteReport.aggregate([{ $group: { _id: '$tenant', count: { $sum: 1 } } }])
+    ]);
+    const countOf = (counts, tenant) =>
+      counts.find(item => item._id?.toString() === tenant._id.toString())?.count || 0;
+
+    res.json({
+      success: true,
+      data: {
+        tenants: tenants.map(tenant => ({
+          ...tenant.toObject(),
+          userCount: countOf(users, tenant),
+          reportCount: countOf(reports, tenant)
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Get tenants error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch municipalities'
+    });
+  }
+});
+
+// @route   POST /api/tenants
+// @desc    Create a municipality together with its first admin
+// @access  Private (tenant.manage)
+router.post('/', authenticate, requirePermission('tenant.manage'), async (req, res) => {
+  try {
+    const { error, value } = createTenantSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const [slugTaken, emailTaken] = await Promise.all([
+      Tenant.exists({ slug: value.slug }),
+      User.exists({ email: value.admin.email.toLowerCase() })
+    ]);
+    if (slugTaken) {
+      return res.status(409).json({
+        success: false,
+        message: `A municipality with slug "${value.slug}" already exists`
+      });
+    }
+    if (emailTaken) {
+      return res.status(409).json({
+        success: false,
+        message: 'A user with the admin email already exists'
+      });
+    }
+
+    const tenant = await Tenant.create({
+      name: value.name,
+      slug: value.slug,
+      branding: { displayName: value.name, ...value.branding },
+      timezone: value.timezone,
+      createdBy: req.user._id
+    });
+
+    try {
+      await User.create({ ...value.admin, tenant: tenant._id, role: 'admin' });
+    } catch (adminError) {
+      // Without an admin nobody could run the municipality
+      await tenant.deleteOne();
+      throw adminError;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: `${tenant.name} created`,
+      data: {
+        tenant
+      }
+    });
+  } catch (error) {
+    console.error('Create tenant error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create municipality'
+    });
+  }
+});
+
+// @route   PUT /api/tenants/:id
+// @desc    Rename, rebrand or switch a municipality on/off
+// @access  Private (tenant.manage)
+router.put('/:id', authenticate, requirePermission('tenant.manage'), async (req, res) => {
+  try {
+    const { error, value } = updateTenantSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const tenant = await Tenant.findById(req.params.id);
+    if (!tenant) {
+      return res.status(404).json({
+        success: false,
+        message: 'Municipality not found'
+      });
+    }
+
+    const { branding, ...fields } = value;
+    tenant.set(fields);
+    Object.entries(branding || {}).forEach(([key, setting]) => tenant.set(`branding.${key}`, setting));
+    await tenant.save();
+    clearTenantCache();
+
+    res.json({
+      success: true,
+      message: `${tenant.name} updated`,
+      data: {
+        tenant
+      }
+    });
+  } catch (error) {
+    console.error('Update tenant error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update municipality'
+    });
+  }
+});
+
+export default router;
@@ -3,7 +3,11 @@ import Joi from 'joi';
 import mongoose from 'mongoose';
 import { Training, TrainingProgress } from '../models/Training.js';
 import User from '../models/User.js';
-import { authenticate, authorize } from '../middleware/auth.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { requireTenant } from '../middleware/tenant.js';
+import { recordPoints, hasBeenCredited } from '../services/points.js';
+import { checkBadges } from '../services/achievements.js';
+import { notify } from '../services/notifications.js';
 
 const router = express.Router();
 
@@ -27,10 +31,10 @@ const getUserProgressDocument = async (userId) => {
 /**
  * 🔹 GET all modules (with progress for current user)
  */
-router.get('/modules', authenticate, async (req, res) => {
+router.get('/modules', authenticate, requireTenant, async (req, res) => {
   try {
     const { category, level } = req.query;
-    const filter = { isActive: true };
+    const filter = { tenant: req.tenant, isActive: true };
     if (category && category !== 'all') filter.category = category;
     if (level && level !== 'all') filter.level = level;
 
@@ -72,9 +76,9 @@ router.get('/modules', authenticate, async (req, res) => {
 /**
  * 🔹 GET single module (with user progress)
  */
-router.get('/modules/:id', authenticate, async (req, res) => {
+router.get('/modules/:id', authenticate, requireTenant, async (req, res) => {
   try {
-    const module = await Training.findOne({ _id: req.params.id, isActive: true })
+    const module = await Training.findOne({ _id: req.params.id, tenant: req.tenant, isActive: true })
       .populate('author', 'name')
       .lean();
       
@@ -118,7 +122,7 @@ router.get('/modules/:id', authenticate, async (req, res) => {
 /**
  * 🔹 Start training - FIXED: Uses new schema structure
  */
-router.post('/modules/:id/start', authenticate, async (req, res) => {
+router.post('/modules/:id/start', authenticate, requireTenant, async (req, res) => {
   try {
     const trainingId = req.params.id;
     const userId = req.user._id;
@@ -132,7 +136,7 @@ router.post('/modules/:id/start', authenticate, async (req, res) => {
       return res.status(400).json({ success: false, message: 'Invalid training module ID' });
     }
 
-    const module = await Training.findOne({ _id: trainingId, isActive: true });
+    const module = await Training.findOne({ _id: trainingId, tenant: req.tenant, isActive: true });
     if (!module) {
       return res.status(404).json({ success: false, message: 'Training module not found' });
     }
@@ -203,7 +207,7 @@ router.post('/modules/:id/start', authenticate, async (req, res) => {
 /**
  * 🔹 Record video completion - COMPLETELY FIXED for new schema
  */
-router.post('/modules/:id/video-complete', authenticate, async (req, res) => {
+router.post('/modules/:id/video-complete', authenticate, requireTenant, async (req, res) => {
   try {
     const trainingId = req.params.id;
     const userId = req.user._id;
@@ -217,7 +221,7 @@ router.post('/modules/:id/video-complete', authenticate, async (req, res) => {
       return res.status(400).json({ success: false, message: 'Invalid module id' });
     }
 
-    const module = await Training.findById(trainingId).lean();
+    const module = await Training.findOne({ _id: trainingId, tenant: req.tenant }).lean();
     if (!module) {
       return res.status(404).json({ success: false, message: 'Training module not found' });
     }
@@ -278,7 +282,7 @@ router.post('/modules/:id/video-complete', authenticate, async (req, res) => {
 /**
  * 🔹 Submit Quiz - COMPLETELY REWRITTEN for new schema
  */
-router.post('/modules/:id/quiz', authenticate, async (req, res) => {
+router.post('/modules/:id/quiz', authenticate, requireTenant, async (req, res) => {
   console.log('=== QUIZ SUBMISSION START ===');
   console.log('Module ID:', req.params.id);
   console.log('User ID:', req.user._id.toString());
@@ -295,7 +299,7 @@ router.post('/modules/:id/quiz', authenticate, async (req, res) => {
     }
 
     // Validate module exists
-    const module = await Training.findById(trainingId).lean();
+    const module = await Training.findOne({ _id: trainingId, tenant: req.tenant }).lean();
     if (!module) {
       return res.status(404).json({ success: false, message: 'Training module not found' });
     }
@@ -407,7 +411,38 @@ router.post('/modules/:id/quiz', authenticate, async (req, res) => {
       console.log('Module completion statistics updated');
     }
 
-    const pointsEarned = passed ? module.pointsReward : 0;
+    // A module pays out once, on the first pass
+    let pointsEarned = 0;
+    if (passed && module.pointsReward > 0 && !await hasBeenCredited(userId, 'training', module._id)) {
+      try {
+        await recordPoints(userId, {
+          source: 'training',
+          amount: module.pointsReward,
+          reference: module._id,
+          reason: `Passed "${module.title}"`
+        });
+        pointsEarned = module.pointsReward;
+      } catch (pointsError) {
+        // Another submission of the same pass got there first
+        if (pointsError.code !== 11000) throw pointsError;
+      }
+    }
+    const badgesEarned = passed ? await checkBadges(userId) : [];
+
+    if (passed) {
+      const earned = [
+        pointsEarned > 0 && `${pointsEarned} points`,
+        ...badgesEarned.map(badge => `the "${badge.name}" badge`)
+      ].filter(Boolean);
+      await notify([userId], {
+        tenant: req.user.tenant,
+        type: 'training_completed',
+        title: 'Training completed',
+        message: `You passed "${module.title}" with ${score}%.${earned.length > 0 ? ` You earned ${earned.join(' and ')}.` : ''}`,
+        link: `/training/${module._id}`,
+        data: { training: module._id }
+      });
+    }
 
     console.log('=== QUIZ SUBMISSION SUCCESS ===');
     
@@ -420,6 +455,7 @@ router.post('/modules/:id/quiz', authenticate, async (req, res) => {
         correctAnswers,
         totalQuestions: module.quiz.length,
         pointsEarned,
+        badgesEarned,
         attemptNumber,
         progress: {
           progress: trainingProgress.progress,
@@ -497,7 +533,7 @@ router.get('/progress', authenticate, async (req, res) => {
 /**
  * 🔹 Create training module
  */
-router.post('/modules', authenticate, authorize('admin'), async (req, res) => {
+router.post('/modules', authenticate, requirePermission('training.author'), async (req, res) => {
   try {
     const moduleSchema = Joi.object({
       title: Joi.string().max(200).required(),
@@ -548,6 +584,7 @@ router.post('/modules', authenticate, authorize('admin'), async (req, res) => {
 
     const module = new Training({
       ...value,
+      tenant: req.tenant,
       author: req.user._id,
       statistics: { totalEnrollments: 0, totalCompletions: 0, averageScore: 0 },
     });
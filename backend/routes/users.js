@@ -1,11 +1,14 @@
 import express from 'express';
 import multer from 'multer';
+import mongoose from 'mongoose';
 import { v2 as cloudinary } from 'cloudinary';
 import { CloudinaryStorage } from 'multer-storage-cloudinary';
 import User from '../models/User.js';
 import WasteReport from '../models/WasteReport.js';
 import { TrainingProgress } from '../models/Training.js';
-import { authenticate } from '../middleware/auth.js';
+import PointTransaction, { POINT_SOURCES } from '../models/PointTransaction.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { requireTenant } from '../middleware/tenant.js';
 
 const router = express.Router();
 
@@ -118,19 +121,31 @@ router.put('/profile', authenticate, upload.single('avatar'), async (req, res) =
 });
 
 // 🔹 GET /api/users/leaderboard
-router.get('/leaderboard', authenticate, async (req, res) => {
+// ?zone= limits the ranking to users living in that zone
+router.get('/leaderboard', authenticate, requireTenant, async (req, res) => {
   try {
-    const { limit = 10 } = req.query;
+    const { limit = 10, zone } = req.query;
 
-    const leaderboard = await User.find({ isActive: true })
+    if (zone && !mongoose.isValidObjectId(zone)) {
+      return res.status(400).json({ success: false, message: 'Invalid zone' });
+    }
+
+    const filter = { tenant: req.tenant, isActive: true };
+    if (zone) filter.zones = zone;
+
+    const leaderboard = await User.find(filter)
       .select('name rewards.totalEarned rewards.level')
       .sort({ 'rewards.totalEarned': -1 })
       .limit(parseInt(limit));
 
-    const userRank = await User.countDocuments({
-      isActive: true,
-      'rewards.totalEarned': { $gt: req.user.rewards.totalEarned }
-    }) + 1;
+    // Users outside the zone have no rank in it
+    const inZone = !zone || (req.user.zones || []).some(id => id.toString() === zone);
+    const userRank = inZone
+      ? await User.countDocuments({
+        ...filter,
+        'rewards.totalEarned': { $gt: req.user.rewards.totalEarned }
+      }) + 1
+      : null;
 
     res.json({
       success: true,
@@ -151,4 +166,77 @@ router.get('/leaderboard', authenticate, async (req, res) => {
   }
 });
 
+// 🔹 GET /api/users/me/points/history
+// Ledger of the user's points, newest first (?page=&limit=&source=)
+router.get('/me/points/history', authenticate, async (req, res) => {
+  try {
+    const page = Math.max(parseInt(req.query.page) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 20, 1), 100);
+    const { source } = req.query;
+
+    if (source && !POINT_SOURCES.includes(source)) {
+      return res.status(400).json({ success: false, message: 'Unknown source' });
+    }
+
+    const filter = { user: req.user._id };
+    if (source) filter.source = source;
+
+    const [transactions, total] = await Promise.all([
+      PointTransaction.find(filter)
+        .populate('createdBy', 'name')
+        .sort({ at: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      PointTransaction.countDocuments(filter)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        balance: req.user.rewards.points,
+        totalEarned: req.user.rewards.totalEarned,
+        level: req.user.rewards.level,
+        transactions,
+        pagination: {
+          current: page,
+          pages: Math.ceil(total / limit),
+          total
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Points history error:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch points history' });
+  }
+});
+
+// 🔹 PUT /api/users/me/location
+// Workers report their current position; auto-dispatch uses it for distance
+router.put('/me/location', authenticate, requirePermission('location.share'), async (req, res) => {
+  try {
+    const longitude = parseFloat(req.body.longitude);
+    const latitude = parseFloat(req.body.latitude);
+
+    if (!Number.isFinite(longitude) || !Number.isFinite(latitude) ||
+        Math.abs(longitude) > 180 || Math.abs(latitude) > 90) {
+      return res.status(400).json({ success: false, message: 'Valid longitude and latitude are required' });
+    }
+
+    await User.updateOne(
+      { _id: req.user._id },
+      {
+        $set: {
+          'workerProfile.lastKnownLocation.coordinates': [longitude, latitude],
+          'workerProfile.lastKnownLocation.updatedAt': new Date()
+        }
+      }
+    );
+
+    res.json({ success: true, message: 'Location updated' });
+  } catch (error) {
+    console.error('Update location error:', error);
+    res.status(500).json({ success: false, message: 'Failed to update location' });
+  }
+});
+
 export default router;
\ No newline at end of file
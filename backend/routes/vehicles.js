@@ -0,0 +1,567 @@
+import express from 'express';
+import Joi from 'joi';
+import mongoose from 'mongoose';
+import Vehicle from '../models/Vehicle.js';
+import User from '../models/User.js';
+import WasteReport from '../models/WasteReport.js';
+import Route from '../models/Route.js';
+import { authenticate, requirePermission, can } from '../middleware/auth.js';
+import { TRACK_ACTIVITIES } from '../models/VehicleTrack.js';
+import { hasPermission } from '../services/permissions.js';
+import {
+  ingestFixes,
+  getTrack,
+  getTelemetrySettings,
+  MAX_TRACK_RANGE_HOURS
+} from '../services/telemetry.js';
+
+const router = express.Router();
+
+const VEHICLE_TYPES = ['garbage_truck', 'recycling_truck', 'sweeper', 'compactor', 'tipper'];
+const VEHICLE_STATUSES = ['available', 'in_route', 'loading', 'maintenance', 'out_of_service'];
+
+// Reports that still need the vehicle
+const OPEN_REPORT_STATUSES = ['assigned', 'in_progress'];
+
+// Tracking history can grow large; list and detail views leave it out
+const WITHOUT_TRACKING = '-trackingHistory';
+
+const findVehicle = (req) => mongoose.isValidObjectId(req.params.id)
+  ? Vehicle.findOne({ _id: req.params.id, tenant: req.tenant })
+  : null;
+
+const vehicleSchema = Joi.object({
+  vehicleId: Joi.string().trim().max(30),
+  type: Joi.string().valid(...VEHICLE_TYPES),
+  capacity: Joi.object({
+    value: Joi.number().positive().required(),
+    unit: Joi.string().valid('tons', 'cubic_meters').default('tons')
+  }),
+  fuelLevel: Joi.number().min(0).max(100),
+  maintenanceSchedule: Joi.object({
+    lastService: Joi.date().allow(null),
+    nextService: Joi.date().allow(null),
+    mileage: Joi.number().min(0).allow(null)
+  })
+});
+
+// Creating a vehicle needs the identifying fields
+const createVehicleSchema = vehicleSchema.fork(['vehicleId', 'type', 'capacity'], (field) => field.required());
+
+const MAX_FIXES_PER_BATCH = 500;
+
+const telemetrySchema = Joi.object({
+  fixes: Joi.array().min(1).max(MAX_FIXES_PER_BATCH).items(Joi.object({
+    coordinates: Joi.array().ordered(
+      Joi.number().min(-180).max(180).required(),
+      Joi.number().min(-90).max(90).required()
+    ).length(2).required(),
+    timestamp: Joi.date().required(),
+    speed: Joi.number().min(0),
+    heading: Joi.number().min(0).max(360),
+    accuracy: Joi.number().min(0),
+    activity: Joi.string().valid(...TRACK_ACTIVITIES)
+  })).required()
+});
+
+// Fleet managers see every vehicle, drivers only the one they drive (driver may be populated)
+const canAccessVehicle = (req, vehicle) =>
+  can(req, 'vehicle.manage') || vehicle.driver?._id?.toString() === req.user._id.toString();
+
+// @route   GET /api/vehicles
+// @desc    List vehicles with driver and maintenance information
+// @access  Private (vehicle.manage)
+router.get('/', authenticate, requirePermission('vehicle.manage'), async (req, res) => {
+  try {
+    const { status, type, search, serviceDue } = req.query;
+
+    const query = { tenant: req.tenant };
+    if (status) query.status = { $in: status.split(',') };
+    if (type) query.type = type;
+    if (search) query.vehicleId = { $regex: search, $options: 'i' };
+    if (serviceDue === 'true') {
+      query['maintenanceSchedule.nextService'] = { $lte: new Date() };
+    }
+
+    const vehicles = await Vehicle.find(query)
+      .select(WITHOUT_TRACKING)
+      .populate('driver', 'name email phone')
+      .sort({ vehicleId: 1 });
+
+    // Number of open reports each vehicle is assigned to
+    const workload = await WasteReport.aggregate([
+      { $match: { tenant: req.tenant, status: { $in: OPEN_REPORT_STATUSES }, assignedVehicle: { $ne: null } } },
+      { $group: { _id: '$assignedVehicle', count: { $sum: 1 } } }
+    ]);
+    const openByVehicle = new Map(workload.map(item => [item._id.toString(), item.count]));
+
+    res.json({
+      success: true,
+      data: {
+        vehicles: vehicles.map(vehicle => ({
+          ...vehicle.toObject(),
+          openReports: openByVehicle.get(vehicle._id.toString()) || 0
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Get vehicles error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch vehicles'
+    });
+  }
+});
+
+// @route   GET /api/vehicles/mine
+// @desc    Vehicle driven by the current worker
+// @access  Private (vehicle.drive)
+router.get('/mine', authenticate, requirePermission('vehicle.drive'), async (req, res) => {
+  try {
+    const vehicle = await Vehicle.findOne({ tenant: req.tenant, driver: req.user._id })
+      .select(WITHOUT_TRACKING)
+      .populate('driver', 'name email phone');
+
+    res.json({
+      success: true,
+      data: {
+        vehicle
+      }
+    });
+  } catch (error) {
+    console.error('Get own vehicle error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch vehicle'
+    });
+  }
+});
+
+// @route   GET /api/vehicles/live
+// @desc    Current position of every vehicle that has reported one
+// @access  Private (vehicle.manage)
+router.get('/live', authenticate, requirePermission('vehicle.manage'), async (req, res) => {
+  try {
+    const { staleMinutes } = getTelemetrySettings();
+    const staleBefore = Date.now() - staleMinutes * 60 * 1000;
+
+    const vehicles = await Vehicle.find({ tenant: req.tenant, 'currentLocation.coordinates.0': { $exists: true } })
+      .select('vehicleId type status fuelLevel driver currentLocation')
+      .populate('driver', 'name phone')
+      .sort({ vehicleId: 1 });
+
+    res.json({
+      success: true,
+      data: {
+        vehicles: vehicles.map(vehicle => ({
+          ...vehicle.toObject(),
+          stale: vehicle.currentLocation.lastUpdated.getTime() < staleBefore
+        })),
+        staleMinutes
+      }
+    });
+  } catch (error) {
+    console.error('Get live vehicles error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch vehicle positions'
+    });
+  }
+});
+
+// @route   GET /api/vehicles/:id
+// @desc    Get single vehicle
+// @access  Private (vehicle.drive - assigned driver, or vehicle.manage)
+router.get('/:id', authenticate, requirePermission('vehicle.drive'), async (req, res) => {
+  try {
+    const vehicle = await findVehicle(req)
+      ?.select(WITHOUT_TRACKING)
+      .populate('driver', 'name email phone');
+
+    if (!vehicle) {
+      return res.status(404).json({
+        success: false,
+        message: 'Vehicle not found'
+      });
+    }
+
+    if (!canAccessVehicle(req, vehicle)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only view the vehicle you drive'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        vehicle
+      }
+    });
+  } catch (error) {
+    console.error('Get vehicle error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch vehicle'
+    });
+  }
+});
+
+// @route   POST /api/vehicles
+// @desc    Register a vehicle
+// @access  Private (vehicle.manage)
+router.post('/', authenticate, requirePermission('vehicle.manage'), async (req, res) => {
+  try {
+    const { error, value } = createVehicleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const existing = await Vehicle.findOne({ tenant: req.tenant, vehicleId: value.vehicleId.toUpperCase() });
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        message: `Vehicle ${existing.vehicleId} already exists`
+      });
+    }
+
+    const vehicle = await Vehicle.create({ ...value, tenant: req.tenant });
+
+    res.status(201).json({
+      success: true,
+      message: 'Vehicle registered successfully',
+      data: {
+        vehicle
+      }
+    });
+  } catch (error) {
+    console.error('Create vehicle error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to register vehicle'
+    });
+  }
+});
+
+// @route   PUT /api/vehicles/:id
+// @desc    Update vehicle details (driver and status have their own routes)
+// @access  Private (vehicle.manage)
+router.put('/:id', authenticate, requirePermission('vehicle.manage'), async (req, res) => {
+  try {
+    const { error, value } = vehicleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const vehicle = await findVehicle(req);
+    if (!vehicle) {
+      return res.status(404).json({
+        success: false,
+        message: 'Vehicle not found'
+      });
+    }
+
+    if (value.vehicleId && value.vehicleId.toUpperCase() !== vehicle.vehicleId) {
+      const existing = await Vehicle.findOne({ tenant: req.tenant, vehicleId: value.vehicleId.toUpperCase() });
+      if (existing) {
+        return res.status(409).json({
+          success: false,
+          message: `Vehicle ${existing.vehicleId} already exists`
+        });
+      }
+    }
+
+    vehicle.set(value);
+    await vehicle.save();
+    await vehicle.populate('driver', 'name email phone');
+
+    res.json({
+      success: true,
+      message: 'Vehicle updated successfully',
+      data: {
+        vehicle: { ...vehicle.toObject(), trackingHistory: undefined }
+      }
+    });
+  } catch (error) {
+    console.error('Update vehicle error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update vehicle'
+    });
+  }
+});
+
+// @route   DELETE /api/vehicles/:id
+// @desc    Remove a vehicle that is not needed by any open report
+// @access  Private (vehicle.manage)
+router.delete('/:id', authenticate, requirePermission('vehicle.manage'), async (req, res) => {
+  try {
+    const vehicle = await findVehicle(req);
+    if (!vehicle) {
+      return res.status(404).json({
+        success: false,
+        message: 'Vehicle not found'
+      });
+    }
+
+    const openReports = await WasteReport.countDocuments({
+      assignedVehicle: vehicle._id,
+      status: { $in: OPEN_REPORT_STATUSES }
+    });
+    if (openReports > 0) {
+      return res.status(409).json({
+        success: false,
+        message: `Vehicle is still assigned to ${openReports} open report(s). Mark it out of service instead.`
+      });
+    }
+
+    const activeRoutes = await Route.countDocuments({
+      vehicle: vehicle._id,
+      status: { $in: ['planned', 'in_progress'] }
+    });
+    if (activeRoutes > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Vehicle still has planned routes. Cancel them or mark it out of service instead.'
+      });
+    }
+
+    await vehicle.deleteOne();
+
+    res.json({
+      success: true,
+      message: `Vehicle ${vehicle.vehicleId} removed`
+    });
+  } catch (error) {
+    console.error('Delete vehicle error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to remove vehicle'
+    });
+  }
+});
+
+// @route   PUT /api/vehicles/:id/driver
+// @desc    Assign a driver to a vehicle (driverId: null unassigns)
+// @access  Private (vehicle.manage)
+router.put('/:id/driver', authenticate, requirePermission('vehicle.manage'), async (req, res) => {
+  try {
+    const { driverId } = req.body;
+
+    const vehicle = await findVehicle(req);
+    if (!vehicle) {
+      return res.status(404).json({
+        success: false,
+        message: 'Vehicle not found'
+      });
+    }
+
+    let driver = null;
+    if (driverId) {
+      driver = await User.findOne({ _id: driverId, tenant: req.tenant });
+      if (!driver || !driver.isActive || !await hasPermission(driver, 'vehicle.drive', req.tenant)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Drivers must be active users who may drive vehicles'
+        });
+      }
+
+      // A worker drives one vehicle at a time
+      await Vehicle.updateMany(
+        { driver: driver._id, _id: { $ne: vehicle._id } },
+        { $unset: { driver: 1 } }
+      );
+    }
+
+    vehicle.driver = driver?._id;
+    await vehicle.save();
+    await vehicle.populate('driver', 'name email phone');
+
+    res.json({
+      success: true,
+      message: driver ? `${driver.name} now drives ${vehicle.vehicleId}` : `${vehicle.vehicleId} has no driver`,
+      data: {
+        vehicle: { ...vehicle.toObject(), trackingHistory: undefined }
+      }
+    });
+  } catch (error) {
+    console.error('Assign driver error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to assign driver'
+    });
+  }
+});
+
+// @route   PUT /api/vehicles/:id/status
+// @desc    Change vehicle status
+// @access  Private (vehicle.drive - assigned driver, or vehicle.manage)
+router.put('/:id/status', authenticate, requirePermission('vehicle.drive'), async (req, res) => {
+  try {
+    const { status } = req.body;
+
+    if (!VEHICLE_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Status must be one of: ${VEHICLE_STATUSES.join(', ')}`
+      });
+    }
+
+    const vehicle = await findVehicle(req);
+    if (!vehicle) {
+      return res.status(404).json({
+        success: false,
+        message: 'Vehicle not found'
+      });
+    }
+
+    // Drivers report day-to-day states; taking a vehicle off the road is a fleet manager's decision
+    if (!can(req, 'vehicle.manage')) {
+      if (!canAccessVehicle(req, vehicle)) {
+        return res.status(403).json({
+          success: false,
+          message: 'You can only update the vehicle you drive'
+        });
+      }
+      if (status === 'out_of_service' || vehicle.status === 'out_of_service') {
+        return res.status(403).json({
+          success: false,
+          message: 'Only admins can take vehicles in or out of service'
+        });
+      }
+    }
+
+    // Coming back from the workshop counts as a service
+    if (vehicle.status === 'maintenance' && status !== 'maintenance') {
+      vehicle.set('maintenanceSchedule.lastService', new Date());
+    }
+
+    vehicle.status = status;
+    await vehicle.save();
+    await vehicle.populate('driver', 'name email phone');
+
+    res.json({
+      success: true,
+      message: `Vehicle ${vehicle.vehicleId} is now ${status.replace(/_/g, ' ')}`,
+      data: {
+        vehicle: { ...vehicle.toObject(), trackingHistory: undefined }
+      }
+    });
+  } catch (error) {
+    console.error('Update vehicle status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update vehicle status'
+    });
+  }
+});
+
+// @route   POST /api/vehicles/:id/telemetry
+// @desc    Ingest a batch of GPS fixes from the driver's device
+// @access  Private (vehicle.drive - assigned driver, or vehicle.manage)
+router.post('/:id/telemetry', authenticate, requirePermission('vehicle.drive'), async (req, res) => {
+  try {
+    const { error, value } = telemetrySchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const vehicle = await findVehicle(req)?.select('driver currentLocation');
+    if (!vehicle) {
+      return res.status(404).json({
+        success: false,
+        message: 'Vehicle not found'
+      });
+    }
+
+    if (!canAccessVehicle(req, vehicle)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only send telemetry for the vehicle you drive'
+      });
+    }
+
+    const result = await ingestFixes(vehicle, value.fixes, { driver: vehicle.driver });
+
+    res.json({
+      success: true,
+      message: `${result.stored} of ${result.received} fix(es) stored`,
+      data: result
+    });
+  } catch (error) {
+    console.error('Ingest telemetry error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to store telemetry'
+    });
+  }
+});
+
+// @route   GET /api/vehicles/:id/track
+// @desc    GPS history between ?from and ?to (defaults to today)
+// @access  Private (vehicle.drive - assigned driver, or vehicle.manage)
+router.get('/:id/track', authenticate, requirePermission('vehicle.drive'), async (req, res) => {
+  try {
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+
+    const from = req.query.from ? new Date(req.query.from) : startOfToday;
+    const to = req.query.to ? new Date(req.query.to) : new Date();
+
+    if (isNaN(from) || isNaN(to) || from >= to) {
+      return res.status(400).json({
+        success: false,
+        message: 'from and to must be valid dates with from before to'
+      });
+    }
+
+    if (to - from > MAX_TRACK_RANGE_HOURS * 60 * 60 * 1000) {
+      return res.status(400).json({
+        success: false,
+        message: `History queries may cover at most ${MAX_TRACK_RANGE_HOURS / 24} days`
+      });
+    }
+
+    const vehicle = await findVehicle(req)?.select('vehicleId type driver');
+    if (!vehicle) {
+      return res.status(404).json({
+        success: false,
+        message: 'Vehicle not found'
+      });
+    }
+
+    if (!canAccessVehicle(req, vehicle)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only view the vehicle you drive'
+      });
+    }
+
+    const track = await getTrack(vehicle._id, from, to);
+
+    res.json({
+      success: true,
+      data: {
+        vehicle: { _id: vehicle._id, vehicleId: vehicle.vehicleId, type: vehicle.type },
+        ...track
+      }
+    });
+  } catch (error) {
+    console.error('Get vehicle track error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch vehicle track'
+    });
+  }
+});
+
+export default router;
@@ -1,11 +1,41 @@
 import express from 'express';
 import multer from 'multer';
+import mongoose from 'mongoose';
 import path from 'path';
 import WasteReport from '../models/WasteReport.js';
 import User from '../models/User.js';
-import { authenticate, authorize } from '../middleware/auth.js';
+import Vehicle from '../models/Vehicle.js';
+import ReportEvent from '../models/ReportEvent.js';
+import Team from '../models/Team.js';
+import Penalty from '../models/Penalty.js';
+import { authenticate, requirePermission, can } from '../middleware/auth.js';
+import {
+  applyTransition,
+  getActorKinds,
+  withAllowedTransitions,
+  ReportTransitionError
+} from '../services/reportLifecycle.js';
+import { findDuplicateCandidates, OPEN_STATUSES } from '../services/duplicateDetection.js';
+import { dispatchReport, getMissingQualifications } from '../services/dispatch.js';
+import DispatchDecision from '../models/DispatchDecision.js';
+import { getImageStorage, discardImages } from '../services/imageStorage.js';
+import {
+  RENDITIONS,
+  storeImages,
+  usableFiles,
+  InvalidImageError
+} from '../services/imageProcessing.js';
+import { verifyImageSignature, withImageUrls } from '../services/imageUrls.js';
+import { recordPoints, POINT_AWARDS } from '../services/points.js';
+import { checkBadges } from '../services/achievements.js';
+import { notifyReportEvent } from '../services/notifications.js';
+import { publishReportEvent } from '../services/realtime.js';
+import { zonedTime } from '../services/collectionSchedule.js';
+import { reportCollectionCalendar } from '../services/icalendar.js';
+import { findTenant, requireTenant } from '../middleware/tenant.js';
+import { rolesWith } from '../services/permissions.js';
+import { DAY_PATTERN, TIME_PATTERN } from '../models/CollectionSchedule.js';
 import Joi from 'joi';
-import jwt from 'jsonwebtoken';
 
 const router = express.Router();
 
@@ -32,15 +62,47 @@ const upload = multer({
   }
 });
 
-// Helper function to generate unique filename
-const generateUniqueFilename = (originalName) => {
-  const timestamp = Date.now();
-  const random = Math.random().toString(36).substring(2, 8);
-  const ext = path.extname(originalName);
-  const baseName = path.basename(originalName, ext).replace(/[^a-zA-Z0-9]/g, '_');
-  return `${baseName}_${timestamp}_${random}${ext}`;
+// Reports that predate image storage may still embed buffers until migrated;
+// keep them out of queries
+const WITHOUT_IMAGE_DATA = '-images.data -actualCollection.beforeImages.data -actualCollection.afterImages.data';
+
+// Refused uploads (files that are not images) are the client's fault
+const sendInvalidImage = (res, err) =>
+  res.status(err.statusCode).json({ success: false, message: err.message });
+
+// Save a report that references freshly stored images; if the save fails the
+// images would be orphaned, so remove them again
+const saveWithImages = async (report, images) => {
+  try {
+    return await report.save();
+  } catch (err) {
+    await discardImages(images);
+    throw err;
+  }
 };
 
+// Vehicles in these states cannot be sent out with a report
+const UNUSABLE_VEHICLE_STATUSES = ['maintenance', 'out_of_service'];
+
+// Report as sent to the signed-in user: the transitions they may trigger and
+// signed URLs for the photos they may see
+const presentReport = (report, { user, permissions }) =>
+  withImageUrls(withAllowedTransitions(report, user, permissions), user, permissions);
+
+// Shared error response for refused lifecycle transitions
+const sendTransitionError = (res, err) =>
+  res.status(err.statusCode).json({
+    success: false,
+    message: err.message,
+    code: err.code,
+    from: err.from,
+    to: err.to
+  });
+
+// Without report.view_all users may only look at reports they filed or supported
+const canViewReport = (report, req) =>
+  can(req, 'report.view_all') || report.isBackedBy(req.user._id);
+
 // Validation schema
 const wasteReportSchema = Joi.object({
   location: Joi.object({
@@ -64,6 +126,15 @@ const wasteReportSchema = Joi.object({
   description: Joi.string().max(500).required()
 });
 
+// Collection day agreed for a report, in the municipality's time zone
+const scheduledCollectionSchema = Joi.object({
+  date: Joi.string().pattern(DAY_PATTERN).required(),
+  timeSlot: Joi.object({
+    start: Joi.string().pattern(TIME_PATTERN).required(),
+    end: Joi.string().pattern(TIME_PATTERN)
+  })
+});
+
 // Helper function to parse form data
 const parseFormData = (body) => {
   return {
@@ -91,12 +162,12 @@ const parseFormData = (body) => {
 /* ============================================================================
    @route   POST /api/waste/report
    @desc    Create waste report (unassigned - workers can claim it)
-   @access  Private (Citizen, Green Champion)
+   @access  Private (report.create)
 ============================================================================ */
 router.post(
   '/report',
   authenticate,
-  authorize('citizen', 'green_champion'),
+  requirePermission('report.create'),
   upload.array('images', 5),
   async (req, res) => {
     try {
@@ -112,27 +183,34 @@ router.post(
         });
       }
 
-      // Process images
-      const images = [];
-      if (req.files && req.files.length > 0) {
-        for (const file of req.files) {
-          if (file.buffer && file.buffer.length > 0) {
-            images.push({
-              filename: generateUniqueFilename(file.originalname),
-              originalName: file.originalname,
-              mimetype: file.mimetype,
-              size: file.size,
-              data: file.buffer,
-              uploadedAt: new Date(),
-              url: `/api/waste/image/${generateUniqueFilename(file.originalname)}`
-            });
-          }
+      // Offer existing reports of the same issue before creating a new one
+      if (req.body.ignoreDuplicates !== 'true') {
+        const duplicates = await findDuplicateCandidates({
+          tenant: req.tenant,
+          coordinates: value.location.coordinates,
+          wasteType: value.wasteType
+        });
+
+        if (duplicates.length > 0) {
+          return res.status(409).json({
+            success: false,
+            code: 'POSSIBLE_DUPLICATE',
+            message: 'This issue may already have been reported nearby',
+            data: { duplicates: duplicates.map(candidate => withImageUrls(candidate, req.user, req.permissions)) }
+          });
         }
       }
 
+      // Store images
+      const images = await storeImages(req.files, 'report', {
+        tenant: req.tenant,
+        coordinates: value.location.coordinates
+      });
+
       // Create waste report WITHOUT auto-assignment
       const wasteReport = new WasteReport({
         ...value,
+        tenant: req.tenant,
         reporter: req.user._id,
         images: images,
         location: {
@@ -144,26 +222,52 @@ router.post(
         status: 'reported'
       });
 
-      const savedReport = await wasteReport.save();
+      const savedReport = await saveWithImages(wasteReport, images);
       await savedReport.populate('reporter', 'name email');
+
+      const event = await ReportEvent.record(savedReport, 'created', req.user, { toStatus: 'reported' });
+      publishReportEvent(savedReport, event);
       
       // Award points
       try {
-        await req.user.addRewardPoints(10);
+        await recordPoints(req.user, {
+          source: 'report',
+          amount: POINT_AWARDS.report,
+          reference: savedReport._id,
+          reason: 'Report submitted'
+        });
+        savedReport.rewards = { pointsAwarded: POINT_AWARDS.report, awardedAt: new Date() };
+        await savedReport.save();
+        await ReportEvent.record(savedReport, 'reward_awarded', null, {
+          meta: { user: req.user._id, points: POINT_AWARDS.report, reason: 'report_submitted' }
+        });
       } catch (pointsError) {
         console.warn('Error awarding points:', pointsError.message);
       }
 
+      // Hand the report to the best worker when auto-dispatch is on for its zone
+      try {
+        await dispatchReport(savedReport, { trigger: 'report_created' });
+      } catch (dispatchError) {
+        console.warn('Error auto-dispatching report:', dispatchError.message);
+      }
+
+      const badgesEarned = await checkBadges(req.user);
+
       res.status(201).json({
         success: true,
         message: 'Waste report created successfully. Workers can now claim this task.',
         data: { 
-          report: savedReport,
-          imagesStored: images.length
+          report: presentReport(savedReport, req),
+          imagesStored: images.length,
+          badgesEarned
         }
       });
       
     } catch (err) {
+      if (err instanceof InvalidImageError) {
+        return sendInvalidImage(res, err);
+      }
       console.error('Waste report creation error:', err);
       res.status(500).json({ 
         success: false, 
@@ -176,10 +280,10 @@ router.post(
 
 /* ============================================================================
    @route   GET /api/waste/reports
-   @desc    Get waste reports with viewType filtering
+   @desc    Get waste reports with viewType and zone filtering
    @access  Private
 ============================================================================ */
-router.get('/reports', authenticate, async (req, res) => {
+router.get('/reports', authenticate, requireTenant, async (req, res) => {
   try {
     console.log('=== GETTING WASTE REPORTS ===');
     console.log('User role:', req.user.role);
@@ -192,35 +296,59 @@ router.get('/reports', authenticate, async (req, res) => {
       status, 
       wasteType, 
       severity,
-      viewType // 'my' or 'all'
+      zone,
+      viewType // 'my', 'team' or 'all'
     } = req.query;
+
+    if (zone && !mongoose.isValidObjectId(zone)) {
+      return res.status(400).json({ success: false, message: 'Invalid zone' });
+    }
     
-    const filter = {};
+    const filter = { tenant: req.tenant };
 
-    // Role-based filtering with viewType
-    if (req.user.role === 'waste_worker') {
-      if (viewType === 'my') {
-        // Show only worker's assigned reports
-        filter.assignedWorker = req.user._id;
-      }
-      // If viewType is 'all' or undefined, show ALL reports (no filter)
-    } else if (req.user.role === 'citizen' || req.user.role === 'green_champion') {
+    // Permission-based filtering with viewType
+    if (!can(req, 'report.view_all')) {
       // Citizens always see only their reports
       filter.reporter = req.user._id;
+    } else if (viewType === 'my' && can(req, 'report.claim')) {
+      // Show only worker's assigned reports and reports offered to them
+      filter.$or = [
+        { assignedWorker: req.user._id },
+        { 'dispatchOffer.worker': req.user._id, assignedWorker: null }
+      ];
+    } else if (viewType === 'team' && can(req, 'team.supervise')) {
+      // The team's work plus unassigned reports waiting in its zone
+      const team = req.user.team &&
+        await Team.findOne({ _id: req.user.team, tenant: req.tenant }).select('zone');
+      if (!team) {
+        // Not leading a team (yet): nothing to show
+        filter._id = { $in: [] };
+      } else {
+        filter.$or = [{ team: team._id }];
+        if (team.zone) {
+          filter.$or.push({
+            zones: team.zone,
+            assignedWorker: null,
+            status: { $in: ['reported', 'acknowledged'] }
+          });
+        }
+      }
     }
-    // Admin sees all (no filter)
+    // If viewType is 'all' or undefined, show ALL reports (no filter)
 
     // Apply additional filters
     if (status) filter.status = status;
     if (wasteType) filter.wasteType = wasteType;
     if (severity) filter.severity = severity;
+    if (zone) filter.zones = zone;
 
     console.log('Final filter:', filter);
 
     const reports = await WasteReport.find(filter)
       .populate('reporter', 'name email')
       .populate('assignedWorker', 'name email')
-      .select('-images.data')
+      .populate('assignedVehicle', 'vehicleId type')
+      .select(WITHOUT_IMAGE_DATA)
       .sort({ createdAt: -1 })
       .skip((parseInt(page) - 1) * parseInt(limit))
       .limit(parseInt(limit));
@@ -232,7 +360,7 @@ router.get('/reports', authenticate, async (req, res) => {
     res.json({
       success: true,
       data: {
-        reports,
+        reports: reports.map((report) => presentReport(report, req)),
         pagination: { 
           current: parseInt(page), 
           pages: Math.ceil(total / parseInt(limit)), 
@@ -249,16 +377,18 @@ router.get('/reports', authenticate, async (req, res) => {
 /* ============================================================================
    @route   GET /api/waste/reports/available
    @desc    Get ONLY unassigned reports for workers
-   @access  Private (Waste Worker)
+   @access  Private (report.claim)
 ============================================================================ */
-router.get('/reports/available', authenticate, authorize('waste_worker'), async (req, res) => {
+router.get('/reports/available', authenticate, requirePermission('report.claim'), async (req, res) => {
   try {
     const { page = 1, limit = 50, wasteType, severity } = req.query;
     
     const filter = {
-      $or: [
-        { assignedWorker: { $exists: false } },
-        { assignedWorker: null }
+      tenant: req.tenant,
+      $and: [
+        { $or: [{ assignedWorker: { $exists: false } }, { assignedWorker: null }] },
+        // Reports offered to another worker by auto-dispatch are hidden until declined
+        { $or: [{ 'dispatchOffer.worker': { $exists: false } }, { 'dispatchOffer.worker': null }, { 'dispatchOffer.worker': req.user._id }] }
       ],
       status: { $in: ['reported', 'acknowledged'] }
     };
@@ -268,7 +398,7 @@ router.get('/reports/available', authenticate, authorize('waste_worker'), async
 
     const reports = await WasteReport.find(filter)
       .populate('reporter', 'name email')
-      .select('-images.data')
+      .select(WITHOUT_IMAGE_DATA)
       .sort({ createdAt: -1, severity: -1 })
       .skip((parseInt(page) - 1) * parseInt(limit))
       .limit(parseInt(limit));
@@ -278,7 +408,7 @@ router.get('/reports/available', authenticate, authorize('waste_worker'), async
     res.json({
       success: true,
       data: {
-        reports,
+        reports: reports.map((report) => presentReport(report, req)),
         pagination: { 
           current: parseInt(page), 
           pages: Math.ceil(total / parseInt(limit)), 
@@ -295,9 +425,9 @@ router.get('/reports/available', authenticate, authorize('waste_worker'), async
 /* ============================================================================
    @route   GET /api/waste/reports/nearby
    @desc    Get nearby reports
-   @access  Private (Waste Worker)
+   @access  Private (report.claim)
 ============================================================================ */
-router.get('/reports/nearby', authenticate, authorize('waste_worker'), async (req, res) => {
+router.get('/reports/nearby', authenticate, requirePermission('report.claim'), async (req, res) => {
   try {
     const { longitude, latitude, radius = 10000, includeAssigned = 'false' } = req.query;
     
@@ -309,6 +439,7 @@ router.get('/reports/nearby', authenticate, authorize('waste_worker'), async (re
     }
 
     const filter = {
+      tenant: req.tenant,
       location: {
         $near: {
           $geometry: { 
@@ -331,13 +462,13 @@ router.get('/reports/nearby', authenticate, authorize('waste_worker'), async (re
     const reports = await WasteReport.find(filter)
       .populate('reporter', 'name')
       .populate('assignedWorker', 'name')
-      .select('-images.data')
+      .select(WITHOUT_IMAGE_DATA)
       .limit(100);
 
     res.json({ 
       success: true, 
       data: { 
-        reports,
+        reports: reports.map((report) => presentReport(report, req)),
         count: reports.length 
       } 
     });
@@ -350,23 +481,23 @@ router.get('/reports/nearby', authenticate, authorize('waste_worker'), async (re
 /* ============================================================================
    @route   PUT /api/waste/reports/:id/claim
    @desc    Worker CLAIMS (self-assigns) an unassigned report
-   @access  Private (Waste Worker)
+   @access  Private (report.claim)
 ============================================================================ */
-router.put('/reports/:id/claim', authenticate, authorize('waste_worker'), async (req, res) => {
+router.put('/reports/:id/claim', authenticate, requirePermission('report.claim'), async (req, res) => {
   try {
     console.log('=== WORKER CLAIMING REPORT ===');
     console.log('Report ID:', req.params.id);
     console.log('Worker:', req.user.name);
     
-    const report = await WasteReport.findById(req.params.id);
+    const current = await WasteReport.findOne({ _id: req.params.id, tenant: req.tenant });
 
-    if (!report) {
+    if (!current) {
       return res.status(404).json({ success: false, message: 'Report not found' });
     }
 
     // Check if already assigned to someone else
-    if (report.assignedWorker && report.assignedWorker.toString() !== req.user._id.toString()) {
-      const assignedWorker = await User.findById(report.assignedWorker);
+    if (current.assignedWorker && current.assignedWorker.toString() !== req.user._id.toString()) {
+      const assignedWorker = await User.findById(current.assignedWorker);
       return res.status(400).json({ 
         success: false, 
         message: `This report is already assigned to ${assignedWorker?.name || 'another worker'}` 
@@ -374,17 +505,56 @@ router.put('/reports/:id/claim', authenticate, authorize('waste_worker'), async
     }
 
     // Check if already claimed by this worker
-    if (report.assignedWorker && report.assignedWorker.toString() === req.user._id.toString()) {
+    if (current.assignedWorker && current.assignedWorker.toString() === req.user._id.toString()) {
       return res.status(400).json({ 
         success: false, 
         message: 'You have already claimed this report' 
       });
     }
 
-    // CLAIM the report
-    report.assignedWorker = req.user._id;
-    report.status = 'assigned';
-    await report.save();
+    const missingQualifications = getMissingQualifications(current, req.user);
+    if (missingQualifications.length > 0) {
+      return res.status(403).json({
+        success: false,
+        message: `This report needs a worker qualified for ${missingQualifications.join(', ')} waste`
+      });
+    }
+
+    // Let the lifecycle decide whether the claim is allowed from here
+    current.assignedWorker = req.user._id;
+    const { from, to } = applyTransition(current, 'assigned', req.user, req.permissions);
+
+    // The worker brings the vehicle they drive, if it is on the road
+    const vehicle = await Vehicle.findOne({
+      tenant: req.tenant,
+      driver: req.user._id,
+      status: { $nin: UNUSABLE_VEHICLE_STATUSES }
+    });
+
+    // CLAIM the report, unless another worker or a status change got there
+    // first since it was read
+    const update = {
+      $set: {
+        status: to,
+        assignedWorker: req.user._id,
+        'dispatchOffer.worker': null,
+        ...(vehicle && { assignedVehicle: vehicle._id }),
+        ...(req.user.team && { team: req.user.team })
+      },
+      ...(!req.user.team && { $unset: { team: 1 } })
+    };
+    const report = await WasteReport.findOneAndUpdate(
+      { _id: current._id, tenant: req.tenant, assignedWorker: null, status: from },
+      update,
+      { new: true }
+    );
+    if (!report) {
+      return res.status(409).json({ success: false, message: 'This report was just claimed or changed; reload it' });
+    }
+
+    const event = await ReportEvent.record(report, 'claimed', req.user, { fromStatus: from, toStatus: to });
+    await notifyReportEvent(report, event);
+    publishReportEvent(report, event);
     
     await report.populate(['reporter', 'assignedWorker'], 'name email');
 
@@ -393,9 +563,12 @@ router.put('/reports/:id/claim', authenticate, authorize('waste_worker'), async
     res.json({ 
       success: true, 
       message: 'Report claimed successfully! You can now start working on it.', 
-      data: { report } 
+      data: { report: presentReport(report, req) } 
     });
   } catch (err) {
+    if (err instanceof ReportTransitionError) {
+      return sendTransitionError(res, err);
+    }
     console.error('Claim report error:', err);
     res.status(500).json({ success: false, message: 'Failed to claim report' });
   }
@@ -403,79 +576,101 @@ router.put('/reports/:id/claim', authenticate, authorize('waste_worker'), async
 
 /* ============================================================================
    @route   GET /api/waste/image/:filename
-   @desc    Serve image from database with proper CORS
-   @access  Private
+   @desc    Stream a report photo or penalty evidence, or its
+            ?size=thumb|medium rendition (range requests, ETags)
+   @access  Signed URL (see services/imageUrls.js)
 ============================================================================ */
-
-// Handle OPTIONS preflight request
-router.options('/image/:filename', (req, res) => {
-  res.set({
-    'Access-Control-Allow-Origin': 'http://localhost:5173',
-    'Access-Control-Allow-Methods': 'GET, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    'Access-Control-Allow-Credentials': 'true',
-    'Access-Control-Max-Age': '86400' // 24 hours
-  });
-  res.sendStatus(200);
-});
-
 router.get('/image/:filename', async (req, res) => {
   try {
     const { filename } = req.params;
-    const token = req.query.token || req.headers.authorization?.replace('Bearer ', '');
-    
-    console.log('Image request for:', filename);
-    console.log('Token present:', !!token);
-    
-    // Set CORS headers FIRST - before any other response
+
+    // CORS itself is handled app-wide; let cross-origin pages embed the image
+    // and read the range/caching headers
     res.set({
-      'Access-Control-Allow-Origin': 'http://localhost:5173',
-      'Access-Control-Allow-Credentials': 'true',
-      'Access-Control-Allow-Methods': 'GET, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Expose-Headers': 'Content-Range, Accept-Ranges, ETag',
       'Cross-Origin-Resource-Policy': 'cross-origin'
     });
-    
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'No authentication token' });
-    }
-    
-    // Verify token
-    let decoded;
-    try {
-      decoded = jwt.verify(token, process.env.JWT_SECRET);
-      console.log('Token verified for user:', decoded.userId);
-    } catch (error) {
-      console.error('Token verification failed:', error.message);
-      return res.status(401).json({ success: false, message: 'Invalid token' });
+
+    if (!verifyImageSignature(filename, req.query.expires, req.query.signature)) {
+      return res.status(403).json({ success: false, message: 'Image link is invalid or has expired' });
     }
-    
-    const report = await WasteReport.findOne({ 'images.filename': filename });
 
-    if (!report) {
-      console.log('Report not found for filename:', filename);
+    const owner = await WasteReport.findOne({
+      $or: [
+        { 'images.filename': filename },
+        { 'actualCollection.beforeImages.filename': filename },
+        { 'actualCollection.afterImages.filename': filename }
+      ]
+    }).select(WITHOUT_IMAGE_DATA) || await Penalty.findOne({ 'evidence.filename': filename }).select('evidence');
+
+    if (!owner) {
       return res.status(404).json({ success: false, message: 'Image not found' });
     }
 
-    const image = report.images.find(img => img.filename === filename);
-    
-    if (!image || !image.data) {
-      console.log('Image data not found');
+    const image = owner.getImageByFilename(filename);
+    // ?size=thumb|medium serves a rendition; older images only have the original
+    const rendition = Object.hasOwn(RENDITIONS, req.query.size) && image?.renditions?.[req.query.size];
+    const file = rendition?.storageKey ? rendition : image;
+    const storage = file?.storageKey && getImageStorage(file.storage);
+    const stored = storage && await storage.stat(file.storageKey);
+
+    if (!stored) {
       return res.status(404).json({ success: false, message: 'Image data not found' });
     }
 
-    console.log('Serving image:', filename, 'Type:', image.mimetype, 'Size:', image.data.length);
-
-    // Set additional headers for the image
+    // Images never change once stored, so the content hash is a strong ETag
+    const etag = `"${file.checksum || `${stored.size}-${image.uploadedAt.getTime()}`}"`;
     res.set({
-      'Content-Type': image.mimetype,
-      'Content-Length': image.data.length,
+      'Content-Type': file.mimetype || image.mimetype,
       'Content-Disposition': `inline; filename="${image.originalName}"`,
-      'Cache-Control': 'public, max-age=31557600'
+      'Cache-Control': 'private, max-age=31557600, immutable',
+      'Accept-Ranges': 'bytes',
+      'ETag': etag,
+      'Last-Modified': image.uploadedAt.toUTCString()
     });
 
-    res.send(image.data);
-    
+    if (req.headers['if-none-match']?.split(',').map(tag => tag.trim()).includes(etag)) {
+      return res.status(304).end();
+    }
+
+    // Single byte range; If-Range with a different ETag means the full image
+    let start = 0;
+    let end = stored.size - 1;
+    const range = req.headers.range;
+    const honourRange = range && (!req.headers['if-range'] || req.headers['if-range'] === etag);
+
+    if (honourRange) {
+      const match = /^bytes=(\d*)-(\d*)$/.exec(range.trim());
+      const valid = match && (match[1] || match[2]);
+      if (valid) {
+        if (match[1]) {
+          start = parseInt(match[1]);
+          end = match[2] ? Math.min(parseInt(match[2]), stored.size - 1) : stored.size - 1;
+        } else {
+          // Suffix range: the last N bytes
+          start = Math.max(stored.size - parseInt(match[2]), 0);
+        }
+      }
+      if (!valid || start > end || start >= stored.size) {
+        res.set('Content-Range', `bytes */${stored.size}`);
+        return res.status(416).end();
+      }
+      res.status(206).set('Content-Range', `bytes ${start}-${end}/${stored.size}`);
+    }
+
+    res.set('Content-Length', end - start + 1);
+
+    storage.createReadStream(file.storageKey, { start, end })
+      .on('error', (streamError) => {
+        console.error('Image stream error:', streamError);
+        if (!res.headersSent) {
+          res.status(500).json({ success: false, message: 'Failed to serve image' });
+        } else {
+          res.destroy(streamError);
+        }
+      })
+      .pipe(res);
+
   } catch (err) {
     console.error('Image serving error:', err);
     res.status(500).json({ 
@@ -491,124 +686,936 @@ router.get('/image/:filename', async (req, res) => {
    @desc    Get single report
    @access  Private
 ============================================================================ */
-router.get('/reports/:id', authenticate, async (req, res) => {
+router.get('/reports/:id', authenticate, requireTenant, async (req, res) => {
   try {
-    const report = await WasteReport.findById(req.params.id)
+    const report = await WasteReport.findOne({ _id: req.params.id, tenant: req.tenant })
       .populate('reporter', 'name email phone')
       .populate('assignedWorker', 'name email phone')
+      .populate('assignedVehicle', 'vehicleId type status')
       .populate('actualCollection.worker', 'name email')
       .populate('verification.verifiedBy', 'name email')
-      .select('-images.data');
+      .select(WITHOUT_IMAGE_DATA);
 
     if (!report) {
       return res.status(404).json({ success: false, message: 'Report not found' });
     }
 
-    res.json({ success: true, data: { report } });
+    if (!canViewReport(report, req)) {
+      return res.status(403).json({ success: false, message: 'You can only view your own reports' });
+    }
+
+    res.json({ success: true, data: { report: presentReport(report, req) } });
   } catch (err) {
     console.error('Get report error:', err);
     res.status(500).json({ success: false, message: 'Failed to fetch report' });
   }
 });
 
+/* ============================================================================
+   @route   GET /api/waste/reports/:id/history
+   @desc    Get the audit trail (status changes, claims, assignments, rewards)
+   @access  Private (Reporter, Waste Worker, Admin)
+============================================================================ */
+router.get('/reports/:id/history', authenticate, requireTenant, async (req, res) => {
+  try {
+    const report = await WasteReport.findOne({ _id: req.params.id, tenant: req.tenant }).select('reporter supporters status');
+
+    if (!report) {
+      return res.status(404).json({ success: false, message: 'Report not found' });
+    }
+
+    if (!canViewReport(report, req)) {
+      return res.status(403).json({ success: false, message: 'You can only view history of your own reports' });
+    }
+
+    const history = await ReportEvent.getHistory(report._id);
+
+    res.json({ success: true, data: { history } });
+  } catch (err) {
+    console.error('Get report history error:', err);
+    res.status(500).json({ success: false, message: 'Failed to fetch report history' });
+  }
+});
+
+/* ============================================================================
+   @route   GET /api/waste/reports/:id/collection.ics
+   @desc    Calendar file (RFC 5545) of the collection scheduled for a report
+   @access  Private (Reporter, Supporter, report.view_all)
+============================================================================ */
+router.get('/reports/:id/collection.ics', authenticate, requireTenant, async (req, res) => {
+  try {
+    const report = await WasteReport.findOne({ _id: req.params.id, tenant: req.tenant })
+      .select('reporter supporters wasteType description location scheduledCollection');
+
+    if (!report) {
+      return res.status(404).json({ success: false, message: 'Report not found' });
+    }
+
+    if (!canViewReport(report, req)) {
+      return res.status(403).json({ success: false, message: 'You can only view your own reports' });
+    }
+
+    if (!report.scheduledCollection?.date) {
+      return res.status(404).json({ success: false, message: 'No collection is scheduled for this report' });
+    }
+
+    const tenant = await findTenant(req.tenant);
+    res.set({
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `attachment; filename="collection-${report._id}.ics"`
+    });
+    res.send(reportCollectionCalendar({
+      name: tenant ? `${tenant.name} waste collection` : 'Waste collection',
+      timeZone: tenant?.timezone || 'UTC',
+      report
+    }));
+  } catch (err) {
+    console.error('Report calendar error:', err);
+    res.status(500).json({ success: false, message: 'Failed to create calendar file' });
+  }
+});
+
 /* ============================================================================
    @route   PUT /api/waste/reports/:id/status
    @desc    Update report status
-   @access  Private (Waste Worker, Admin)
+   @access  Private (report.update)
 ============================================================================ */
-router.put('/reports/:id/status', authenticate, authorize('admin', 'waste_worker'), async (req, res) => {
+router.put('/reports/:id/status', authenticate, requirePermission('report.update'), async (req, res) => {
   try {
     const { status, notes } = req.body;
-    const validStatuses = ['acknowledged', 'assigned', 'in_progress', 'completed', 'verified', 'rejected'];
 
-    if (!validStatuses.includes(status)) {
-      return res.status(400).json({ success: false, message: 'Invalid status' });
-    }
-
-    const report = await WasteReport.findById(req.params.id);
+    const report = await WasteReport.findOne({ _id: req.params.id, tenant: req.tenant });
     
     if (!report) {
       return res.status(404).json({ success: false, message: 'Report not found' });
     }
 
-    // Verify worker can only update their own reports
-    if (req.user.role === 'waste_worker') {
-      if (!report.assignedWorker || report.assignedWorker.toString() !== req.user._id.toString()) {
-        return res.status(403).json({ 
-          success: false, 
-          message: 'You can only update reports assigned to you' 
-        });
-      }
+    // Assignment goes through /claim and /assign so a worker is always attached
+    if (status === 'assigned') {
+      return res.status(400).json({
+        success: false,
+        message: 'Use the claim or assign endpoints to assign a report'
+      });
     }
 
-    report.status = status;
-    
-    if (status === 'completed') {
-      report.actualCollection = { 
-        date: new Date(), 
-        worker: req.user._id, 
-        notes 
-      };
+    // Merging needs a parent report and moves supporters and points around
+    if (status === 'merged') {
+      return res.status(400).json({
+        success: false,
+        message: 'Use the merge endpoint to merge duplicate reports'
+      });
     }
 
+    const { from, to } = applyTransition(report, status, req.user, req.permissions, { notes });
+
     await report.save();
+    const eventType = to === 'verified'
+      ? 'verified'
+      : from === 'completed' && to === 'in_progress' ? 'completion_returned' : 'status_changed';
+    const event = await ReportEvent.record(report, eventType, req.user, {
+      fromStatus: from,
+      toStatus: to,
+      notes,
+      meta: eventType === 'completion_returned' ? { worker: report.assignedWorker } : undefined
+    });
+    await notifyReportEvent(report, event);
+    publishReportEvent(report, event);
     await report.populate(['reporter', 'assignedWorker', 'actualCollection.worker'], 'name email');
 
     res.json({ 
       success: true, 
       message: `Status updated to ${status}`, 
-      data: { report } 
+      data: { report: presentReport(report, req) } 
     });
   } catch (err) {
+    if (err instanceof ReportTransitionError) {
+      return sendTransitionError(res, err);
+    }
     console.error('Update status error:', err);
     res.status(500).json({ success: false, message: 'Failed to update status' });
   }
 });
 
+/* ============================================================================
+   @route   POST /api/waste/reports/:id/collection-photos
+   @desc    Assigned worker uploads before/after proof-of-collection photos
+   @access  Private (report.update - assignee or admin)
+============================================================================ */
+const PHOTO_STAGES = {
+  before: { field: 'beforeImages', statuses: ['assigned', 'in_progress'] },
+  after: { field: 'afterImages', statuses: ['in_progress'] }
+};
+
+router.post(
+  '/reports/:id/collection-photos',
+  authenticate,
+  requirePermission('report.update'),
+  upload.array('images', 5),
+  async (req, res) => {
+    try {
+      const stage = PHOTO_STAGES[req.body.stage];
+      if (!stage) {
+        return res.status(400).json({ success: false, message: 'Stage must be "before" or "after"' });
+      }
+
+      if (usableFiles(req.files).length === 0) {
+        return res.status(400).json({ success: false, message: 'At least one photo is required' });
+      }
+
+      const report = await WasteReport.findOne({ _id: req.params.id, tenant: req.tenant });
+
+      if (!report) {
+        return res.status(404).json({ success: false, message: 'Report not found' });
+      }
+
+      const actorKinds = getActorKinds(report, req.user, req.permissions);
+      if (!actorKinds.includes('assignee') && !actorKinds.includes('admin')) {
+        return res.status(403).json({
+          success: false,
+          message: 'Only the assigned worker can upload collection photos'
+        });
+      }
+
+      if (!stage.statuses.includes(report.status)) {
+        return res.status(409).json({
+          success: false,
+          message: `${req.body.stage} photos cannot be added while the report is ${report.status.replace(/_/g, ' ')}`
+        });
+      }
+
+      const images = await storeImages(req.files, 'report', {
+        tenant: req.tenant,
+        coordinates: report.location.coordinates,
+        excludeReport: report._id
+      });
+      report.actualCollection[stage.field].push(...images);
+      await saveWithImages(report, images);
+      await ReportEvent.record(report, 'photos_added', req.user, {
+        meta: { stage: req.body.stage, count: images.length }
+      });
+      await report.populate(['reporter', 'assignedWorker'], 'name email');
+
+      res.status(201).json({
+        success: true,
+        message: `${images.length} ${req.body.stage} photo(s) uploaded`,
+        data: { report: presentReport(report, req) }
+      });
+    } catch (err) {
+      if (err instanceof InvalidImageError) {
+        return sendInvalidImage(res, err);
+      }
+      console.error('Collection photo upload error:', err);
+      res.status(500).json({ success: false, message: 'Failed to upload collection photos' });
+    }
+  }
+);
+
+/* ============================================================================
+   @route   PUT /api/waste/reports/:id/verify
+   @desc    Reporter confirms a completed collection and rates it
+   @access  Private (report.verify - reporter only)
+============================================================================ */
+const verifySchema = Joi.object({
+  rating: Joi.number().integer().min(1).max(5).required(),
+  notes: Joi.string().max(500).allow('')
+});
+
+router.put('/reports/:id/verify', authenticate, requirePermission('report.verify'), async (req, res) => {
+  try {
+    const { error, value } = verifySchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ success: false, message: error.details[0].message });
+    }
+
+    const report = await WasteReport.findOne({ _id: req.params.id, tenant: req.tenant });
+
+    if (!report) {
+      return res.status(404).json({ success: false, message: 'Report not found' });
+    }
+
+    const { from, to } = applyTransition(report, 'verified', req.user, req.permissions, value);
+
+    await report.save();
+    const event = await ReportEvent.record(report, 'verified', req.user, {
+      fromStatus: from,
+      toStatus: to,
+      notes: value.notes,
+      meta: { rating: value.rating }
+    });
+    await notifyReportEvent(report, event);
+    publishReportEvent(report, event);
+
+    // Reporters earn a little for closing the loop
+    try {
+      await recordPoints(req.user, {
+        source: 'verification',
+        amount: POINT_AWARDS.verification,
+        reference: report._id,
+        reason: 'Collection verified'
+      });
+      await ReportEvent.record(report, 'reward_awarded', null, {
+        meta: { user: req.user._id, points: POINT_AWARDS.verification, reason: 'collection_verified' }
+      });
+    } catch (pointsError) {
+      console.warn('Error awarding points:', pointsError.message);
+    }
+    const badgesEarned = await checkBadges(req.user);
+    await report.populate(['reporter', 'assignedWorker', 'verification.verifiedBy'], 'name email');
+
+    res.json({
+      success: true,
+      message: 'Thank you! The collection has been verified.',
+      data: { report: presentReport(report, req), badgesEarned }
+    });
+  } catch (err) {
+    if (err instanceof ReportTransitionError) {
+      return sendTransitionError(res, err);
+    }
+    console.error('Verify report error:', err);
+    res.status(500).json({ success: false, message: 'Failed to verify report' });
+  }
+});
+
+/* ============================================================================
+   @route   POST /api/waste/reports/:id/reopen
+   @desc    Reporter reopens a completed report that was not cleaned up
+   @access  Private (report.verify - reporter only)
+============================================================================ */
+router.post(
+  '/reports/:id/reopen',
+  authenticate,
+  requirePermission('report.verify'),
+  upload.array('images', 5),
+  async (req, res) => {
+    try {
+      const notes = (req.body.notes || '').trim();
+
+      const report = await WasteReport.findOne({ _id: req.params.id, tenant: req.tenant });
+
+      if (!report) {
+        return res.status(404).json({ success: false, message: 'Report not found' });
+      }
+
+      const { from, to } = applyTransition(report, 'assigned', req.user, req.permissions, { notes });
+
+      const images = await storeImages(req.files, 'reopen', {
+        tenant: req.tenant,
+        coordinates: report.location.coordinates,
+        excludeReport: report._id
+      });
+      report.images.push(...images);
+
+      await saveWithImages(report, images);
+      const event = await ReportEvent.record(report, 'reopened', req.user, {
+        fromStatus: from,
+        toStatus: to,
+        notes,
+        meta: { reopenCount: report.reopenCount, imagesAdded: images.length }
+      });
+      await notifyReportEvent(report, event);
+      publishReportEvent(report, event);
+      await report.populate(['reporter', 'assignedWorker'], 'name email');
+
+      res.json({
+        success: true,
+        message: 'Report reopened and sent back to the worker.',
+        data: { report: presentReport(report, req) }
+      });
+    } catch (err) {
+      if (err instanceof InvalidImageError) {
+        return sendInvalidImage(res, err);
+      }
+      if (err instanceof ReportTransitionError) {
+        return sendTransitionError(res, err);
+      }
+      console.error('Reopen report error:', err);
+      res.status(500).json({ success: false, message: 'Failed to reopen report' });
+    }
+  }
+);
+
+/* ============================================================================
+   @route   POST /api/waste/reports/:id/support
+   @desc    Citizen confirms an existing report (+1), optionally with photos
+   @access  Private (report.create)
+============================================================================ */
+router.post(
+  '/reports/:id/support',
+  authenticate,
+  requirePermission('report.create'),
+  upload.array('images', 5),
+  async (req, res) => {
+    try {
+      const notes = (req.body.notes || '').trim();
+
+      const report = await WasteReport.findOne({ _id: req.params.id, tenant: req.tenant });
+
+      if (!report) {
+        return res.status(404).json({ success: false, message: 'Report not found' });
+      }
+
+      if (!OPEN_STATUSES.includes(report.status)) {
+        return res.status(409).json({
+          success: false,
+          message: 'This report is already closed and can no longer be supported'
+        });
+      }
+
+      if (report.isBackedBy(req.user._id)) {
+        return res.status(409).json({
+          success: false,
+          message: 'You have already reported or supported this issue'
+        });
+      }
+
+      const images = await storeImages(req.files, 'support', {
+        tenant: req.tenant,
+        coordinates: report.location.coordinates,
+        excludeReport: report._id
+      });
+      report.images.push(...images);
+      report.supporters.push({ user: req.user._id, supportedAt: new Date(), notes });
+
+      await saveWithImages(report, images);
+      // Supporting an existing report does not earn points; only the original report does
+      await ReportEvent.record(report, 'supported', req.user, {
+        notes,
+        meta: { supporterCount: report.supporters.length, imagesAdded: images.length }
+      });
+
+      res.json({
+        success: true,
+        message: 'Thanks! Your confirmation was added to the existing report.',
+        data: {
+          report: {
+            _id: report._id,
+            status: report.status,
+            supporterCount: report.supporters.length
+          }
+        }
+      });
+    } catch (err) {
+      if (err instanceof InvalidImageError) {
+        return sendInvalidImage(res, err);
+      }
+      console.error('Support report error:', err);
+      res.status(500).json({ success: false, message: 'Failed to support report' });
+    }
+  }
+);
+
+/* ============================================================================
+   @route   GET /api/waste/reports/:id/duplicates
+   @desc    Open reports nearby that may describe the same issue
+   @access  Private (report.merge)
+============================================================================ */
+router.get('/reports/:id/duplicates', authenticate, requirePermission('report.merge'), async (req, res) => {
+  try {
+    const report = await WasteReport.findOne({ _id: req.params.id, tenant: req.tenant }).select('location wasteType');
+
+    if (!report) {
+      return res.status(404).json({ success: false, message: 'Report not found' });
+    }
+
+    const duplicates = await findDuplicateCandidates({
+      tenant: req.tenant,
+      coordinates: report.location.coordinates,
+      wasteType: report.wasteType,
+      excludeId: report._id
+    });
+
+    res.json({
+      success: true,
+      data: { duplicates: duplicates.map(candidate => withImageUrls(candidate, req.user, req.permissions)) }
+    });
+  } catch (err) {
+    console.error('Get duplicate reports error:', err);
+    res.status(500).json({ success: false, message: 'Failed to fetch duplicate reports' });
+  }
+});
+
+/* ============================================================================
+   @route   PUT /api/waste/reports/:id/merge
+   @desc    Merge a duplicate report into an earlier (parent) report
+   @access  Private (report.merge)
+============================================================================ */
+router.put('/reports/:id/merge', authenticate, requirePermission('report.merge'), async (req, res) => {
+  try {
+    const { parentId, notes } = req.body;
+
+    if (!mongoose.isValidObjectId(parentId) || String(parentId) === req.params.id) {
+      return res.status(400).json({ success: false, message: 'A different parent report is required' });
+    }
+
+    const [report, parent] = await Promise.all([
+      WasteReport.findOne({ _id: req.params.id, tenant: req.tenant }),
+      WasteReport.findOne({ _id: parentId, tenant: req.tenant })
+    ]);
+
+    if (!report || !parent) {
+      return res.status(404).json({ success: false, message: 'Report not found' });
+    }
+
+    if (parent.duplicateOf || !OPEN_STATUSES.includes(parent.status)) {
+      return res.status(409).json({
+        success: false,
+        message: 'Reports can only be merged into an open report that is not itself a duplicate'
+      });
+    }
+
+    report.duplicateOf = parent._id;
+    const { from, to } = applyTransition(report, 'merged', req.user, req.permissions, { notes });
+
+    // The reporter of the duplicate becomes a supporter of the parent report
+    if (!parent.isBackedBy(report.reporter)) {
+      parent.supporters.push({
+        user: report.reporter,
+        supportedAt: report.createdAt,
+        notes: report.description,
+        mergedReport: report._id
+      });
+    }
+    // So do the supporters it gathered, including reporters of reports
+    // merged into it earlier
+    for (const supporter of report.supporters || []) {
+      if (!parent.isBackedBy(supporter.user)) {
+        parent.supporters.push({
+          user: supporter.user,
+          supportedAt: supporter.supportedAt,
+          notes: supporter.notes,
+          mergedReport: supporter.mergedReport
+        });
+      }
+    }
+    parent.duplicateCount = (parent.duplicateCount || 0) + 1 + (report.duplicateCount || 0);
+
+    // One issue earns points once: take back what the duplicate was awarded
+    const pointsToRevoke = report.rewards?.pointsAwarded || 0;
+    if (pointsToRevoke > 0) {
+      report.rewards.pointsAwarded = 0;
+    }
+
+    await report.save();
+    await parent.save();
+    // Earlier duplicates of this report now belong to the parent directly
+    const { modifiedCount: reparented } = await WasteReport.updateMany(
+      { tenant: req.tenant, duplicateOf: report._id },
+      { $set: { duplicateOf: parent._id } }
+    );
+
+    const event = await ReportEvent.record(report, 'merged', req.user, {
+      fromStatus: from,
+      toStatus: to,
+      notes,
+      meta: { parent: parent._id, reparented }
+    });
+    await notifyReportEvent(report, event);
+    publishReportEvent(report, event);
+    await ReportEvent.record(parent, 'supported', req.user, {
+      notes: `Duplicate report ${report._id} merged into this report`,
+      meta: { mergedReport: report._id, supporterCount: parent.supporters.length }
+    });
+
+    if (pointsToRevoke > 0) {
+      try {
+        await recordPoints(report.reporter, {
+          source: 'report',
+          amount: -pointsToRevoke,
+          reference: report._id,
+          reason: 'Report merged into an existing report',
+          createdBy: req.user._id
+        });
+        await ReportEvent.record(report, 'reward_revoked', req.user, {
+          meta: { user: report.reporter, points: pointsToRevoke, reason: 'merged_duplicate' }
+        });
+      } catch (pointsError) {
+        console.warn('Error revoking points:', pointsError.message);
+      }
+    }
+
+    await report.populate(['reporter', 'assignedWorker'], 'name email');
+
+    res.json({
+      success: true,
+      message: 'Report merged into the existing report',
+      data: { report: presentReport(report, req), parentId: parent._id }
+    });
+  } catch (err) {
+    if (err instanceof ReportTransitionError) {
+      return sendTransitionError(res, err);
+    }
+    console.error('Merge report error:', err);
+    res.status(500).json({ success: false, message: 'Failed to merge report' });
+  }
+});
+
+/* ============================================================================
+   @route   PUT /api/waste/reports/:id/offer/decline
+   @desc    Worker declines a report offered by auto-dispatch
+   @access  Private (report.claim - offered worker only)
+============================================================================ */
+router.put('/reports/:id/offer/decline', authenticate, requirePermission('report.claim'), async (req, res) => {
+  try {
+    const report = await WasteReport.findOne({ _id: req.params.id, tenant: req.tenant });
+
+    if (!report) {
+      return res.status(404).json({ success: false, message: 'Report not found' });
+    }
+
+    if (report.dispatchOffer?.worker?.toString() !== req.user._id.toString()) {
+      return res.status(409).json({ success: false, message: 'This report is not offered to you' });
+    }
+
+    const notes = (req.body.notes || '').trim();
+    const expected = { status: report.status, assignedWorker: report.assignedWorker };
+    report.dispatchOffer.worker = null;
+    report.dispatchOffer.declinedBy.push(req.user._id);
+    const declined = await report.saveIfUnchanged(expected);
+    if (!declined) {
+      return res.status(409).json({ success: false, message: 'This report was just claimed or changed; reload it' });
+    }
+    await ReportEvent.record(declined, 'dispatch_declined', req.user, { notes });
+
+    // Offer it to the next best worker, if any
+    try {
+      await dispatchReport(declined, { trigger: 'offer_declined' });
+    } catch (dispatchError) {
+      console.warn('Error re-dispatching report:', dispatchError.message);
+    }
+
+    res.json({ success: true, message: 'Offer declined' });
+  } catch (err) {
+    console.error('Decline offer error:', err);
+    res.status(500).json({ success: false, message: 'Failed to decline offer' });
+  }
+});
+
+/* ============================================================================
+   @route   GET /api/waste/reports/:id/dispatch
+   @desc    Auto-dispatch decisions for a report, newest first
+   @access  Private (report.assign)
+============================================================================ */
+router.get('/reports/:id/dispatch', authenticate, requirePermission('report.assign'), async (req, res) => {
+  try {
+    const decisions = await DispatchDecision.find({ report: req.params.id, tenant: req.tenant })
+      .populate('zone', 'name')
+      .populate('selectedWorker', 'name email')
+      .populate('triggeredBy', 'name')
+      .sort({ createdAt: -1 })
+      .limit(20);
+
+    res.json({ success: true, data: { decisions } });
+  } catch (err) {
+    console.error('Get dispatch decisions error:', err);
+    res.status(500).json({ success: false, message: 'Failed to fetch dispatch decisions' });
+  }
+});
+
+/* ============================================================================
+   @route   POST /api/waste/reports/:id/dispatch
+   @desc    Run auto-dispatch for a report now (even if switched off for its zone)
+   @access  Private (report.assign)
+============================================================================ */
+router.post('/reports/:id/dispatch', authenticate, requirePermission('report.assign'), async (req, res) => {
+  try {
+    const report = await WasteReport.findOne({ _id: req.params.id, tenant: req.tenant });
+
+    if (!report) {
+      return res.status(404).json({ success: false, message: 'Report not found' });
+    }
+
+    if (report.assignedWorker || !['reported', 'acknowledged'].includes(report.status)) {
+      return res.status(409).json({ success: false, message: 'Only unassigned open reports can be dispatched' });
+    }
+
+    const decision = await dispatchReport(report, { trigger: 'manual', triggeredBy: req.user, force: true });
+    await decision.populate([
+      { path: 'zone', select: 'name' },
+      { path: 'selectedWorker', select: 'name email' }
+    ]);
+
+    res.json({ success: true, message: decision.summary, data: { decision } });
+  } catch (err) {
+    if (err instanceof ReportTransitionError) {
+      return sendTransitionError(res, err);
+    }
+    console.error('Manual dispatch error:', err);
+    res.status(500).json({ success: false, message: 'Failed to dispatch report' });
+  }
+});
+
 /* ============================================================================
    @route   PUT /api/waste/reports/:id/assign
-   @desc    Admin manually assigns worker
-   @access  Private (Admin)
+   @desc    Admin manually assigns worker (and optionally a vehicle and
+            collection day)
+   @access  Private (report.assign)
 ============================================================================ */
-router.put('/reports/:id/assign', authenticate, authorize('admin'), async (req, res) => {
+router.put('/reports/:id/assign', authenticate, requirePermission('report.assign'), async (req, res) => {
   try {
-    const { workerId } = req.body;
-    const report = await WasteReport.findById(req.params.id);
+    const { workerId, vehicleId, scheduledCollection, notes } = req.body;
+    if (scheduledCollection) {
+      const { error } = scheduledCollectionSchema.validate(scheduledCollection);
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          message: 'Collection day must look like 2024-05-31 and times like 08:00'
+        });
+      }
+    }
+
+    const report = await WasteReport.findOne({ _id: req.params.id, tenant: req.tenant });
 
     if (!report) {
       return res.status(404).json({ success: false, message: 'Report not found' });
     }
+    const expected = { status: report.status, assignedWorker: report.assignedWorker };
 
-    const worker = await User.findById(workerId);
-    if (!worker || worker.role !== 'waste_worker') {
+    const worker = await User.findOne({
+      _id: workerId,
+      tenant: req.tenant,
+      role: { $in: await rolesWith('report.update', req.tenant) }
+    });
+    if (!worker) {
       return res.status(400).json({ success: false, message: 'Invalid worker ID' });
     }
 
+    const missingQualifications = getMissingQualifications(report, worker);
+    if (missingQualifications.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `${worker.name} is not qualified for ${missingQualifications.join(', ')} waste`
+      });
+    }
+
+    // Without an explicit choice the worker takes the vehicle they drive
+    const vehicle = vehicleId
+      ? await Vehicle.findOne({ _id: vehicleId, tenant: req.tenant })
+      : await Vehicle.findOne({ tenant: req.tenant, driver: worker._id });
+    if (vehicleId && !vehicle) {
+      return res.status(400).json({ success: false, message: 'Invalid vehicle ID' });
+    }
+    if (vehicleId && UNUSABLE_VEHICLE_STATUSES.includes(vehicle.status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Vehicle ${vehicle.vehicleId} is ${vehicle.status.replace(/_/g, ' ')}`
+      });
+    }
+
     report.assignedWorker = workerId;
-    report.status = 'assigned';
-    await report.save();
+    report.set('dispatchOffer.worker', null);
+    if (vehicle && !UNUSABLE_VEHICLE_STATUSES.includes(vehicle.status)) {
+      report.assignedVehicle = vehicle._id;
+    }
+    if (scheduledCollection) {
+      const { date, timeSlot } = scheduledCollection;
+      const tenant = await findTenant(req.tenant);
+      report.scheduledCollection = {
+        date: zonedTime(date, timeSlot?.start || '00:00', tenant?.timezone || 'UTC'),
+        timeSlot
+      };
+    }
+    // Reassigning a completed report reopens it, which needs a reason
+    const { from, to } = applyTransition(report, 'assigned', req.user, req.permissions, { notes });
+    const assigned = await report.saveIfUnchanged(expected);
+    if (!assigned) {
+      return res.status(409).json({ success: false, message: 'This report was just claimed or changed; reload it' });
+    }
+    const event = await ReportEvent.record(assigned, 'assigned', req.user, {
+      fromStatus: from,
+      toStatus: to,
+      notes,
+      meta: {
+        worker: worker._id,
+        workerName: worker.name,
+        previousWorker: expected.assignedWorker,
+        vehicle: assigned.assignedVehicle,
+        vehicleId: assigned.assignedVehicle ? vehicle?.vehicleId : undefined,
+        scheduledCollection: scheduledCollection?.date
+      }
+    });
+    await notifyReportEvent(assigned, event);
+    publishReportEvent(assigned, event);
     
-    await report.populate(['assignedWorker', 'reporter'], 'name email');
+    await assigned.populate(['assignedWorker', 'reporter'], 'name email');
+    await assigned.populate('assignedVehicle', 'vehicleId type status');
 
     res.json({ 
       success: true, 
       message: `Assigned to ${worker.name}`, 
-      data: { report } 
+      data: { report: presentReport(assigned, req) } 
     });
   } catch (err) {
+    if (err instanceof ReportTransitionError) {
+      return sendTransitionError(res, err);
+    }
     console.error('Assign worker error:', err);
     res.status(500).json({ success: false, message: 'Failed to assign worker' });
   }
 });
 
+/* ============================================================================
+   @route   PUT /api/waste/reports/:id/reassign
+   @desc    Supervisor hands a report to a member of their team
+   @access  Private (team.supervise)
+============================================================================ */
+router.put('/reports/:id/reassign', authenticate, requirePermission('team.supervise'), async (req, res) => {
+  try {
+    const { workerId, notes } = req.body;
+    const report = await WasteReport.findOne({ _id: req.params.id, tenant: req.tenant });
+
+    if (!report) {
+      return res.status(404).json({ success: false, message: 'Report not found' });
+    }
+    const expected = { status: report.status, assignedWorker: report.assignedWorker };
+
+    const team = req.user.team &&
+      await Team.findOne({ _id: req.user.team, tenant: req.tenant, isActive: true });
+    if (!team) {
+      return res.status(403).json({ success: false, message: 'You do not lead an active team' });
+    }
+
+    if (!mongoose.isValidObjectId(workerId) || !team.hasMember(workerId)) {
+      return res.status(400).json({ success: false, message: 'Choose a member of your team' });
+    }
+
+    const worker = await User.findOne({ _id: workerId, tenant: req.tenant, isActive: true });
+    if (!worker) {
+      return res.status(400).json({ success: false, message: 'Invalid worker ID' });
+    }
+
+    const missingQualifications = getMissingQualifications(report, worker);
+    if (missingQualifications.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `${worker.name} is not qualified for ${missingQualifications.join(', ')} waste`
+      });
+    }
+
+    const vehicle = await Vehicle.findOne({ tenant: req.tenant, driver: worker._id });
+
+    report.assignedWorker = worker._id;
+    report.set('dispatchOffer.worker', null);
+    if (vehicle && !UNUSABLE_VEHICLE_STATUSES.includes(vehicle.status)) {
+      report.assignedVehicle = vehicle._id;
+    }
+    const { from, to } = applyTransition(report, 'assigned', req.user, req.permissions, { notes });
+    const assigned = await report.saveIfUnchanged(expected);
+    if (!assigned) {
+      return res.status(409).json({ success: false, message: 'This report was just claimed or changed; reload it' });
+    }
+    const event = await ReportEvent.record(assigned, 'assigned', req.user, {
+      fromStatus: from,
+      toStatus: to,
+      notes,
+      meta: {
+        worker: worker._id,
+        workerName: worker.name,
+        previousWorker: expected.assignedWorker,
+        team: team._id,
+        vehicle: assigned.assignedVehicle
+      }
+    });
+    await notifyReportEvent(assigned, event);
+    publishReportEvent(assigned, event);
+
+    await assigned.populate(['assignedWorker', 'reporter'], 'name email');
+    await assigned.populate('assignedVehicle', 'vehicleId type status');
+
+    res.json({
+      success: true,
+      message: `Assigned to ${worker.name}`,
+      data: { report: presentReport(assigned, req) }
+    });
+  } catch (err) {
+    if (err instanceof ReportTransitionError) {
+      return sendTransitionError(res, err);
+    }
+    console.error('Reassign within team error:', err);
+    res.status(500).json({ success: false, message: 'Failed to reassign report' });
+  }
+});
+
+const completionReviewSchema = Joi.object({
+  decision: Joi.string().valid('approve', 'return').required(),
+  notes: Joi.string().trim().max(1000).allow('')
+});
+
+/* ============================================================================
+   @route   PUT /api/waste/reports/:id/review
+   @desc    Supervisor approves a completed team report, or returns it to the
+            worker with a reason
+   @access  Private (team.supervise - supervisor of the report's team, or admin)
+============================================================================ */
+router.put('/reports/:id/review', authenticate, requirePermission('team.supervise'), async (req, res) => {
+  try {
+    const { error, value } = completionReviewSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ success: false, message: error.details[0].message });
+    }
+
+    const report = await WasteReport.findOne({ _id: req.params.id, tenant: req.tenant });
+
+    if (!report) {
+      return res.status(404).json({ success: false, message: 'Report not found' });
+    }
+
+    if (report.status !== 'completed' || report.completionReview?.status !== 'pending') {
+      return res.status(409).json({ success: false, message: 'This report is not waiting for approval' });
+    }
+
+    const actorKinds = getActorKinds(report, req.user, req.permissions);
+    if (!actorKinds.includes('admin') && !actorKinds.includes('supervisor')) {
+      return res.status(403).json({ success: false, message: 'Only the supervisor of this team can review it' });
+    }
+
+    const worker = report.assignedWorker;
+    let details = { notes: value.notes, meta: { worker } };
+
+    if (value.decision === 'approve') {
+      report.completionReview = {
+        status: 'approved',
+        reviewedBy: req.user._id,
+        reviewedAt: new Date(),
+        notes: value.notes
+      };
+    } else {
+      const { from, to } = applyTransition(report, 'in_progress', req.user, req.permissions, { notes: value.notes });
+      details = { ...details, fromStatus: from, toStatus: to };
+    }
+
+    await report.save();
+    const event = await ReportEvent.record(
+      report,
+      value.decision === 'approve' ? 'completion_approved' : 'completion_returned',
+      req.user,
+      details
+    );
+    await notifyReportEvent(report, event);
+    publishReportEvent(report, event);
+    await report.populate(['reporter', 'assignedWorker', 'actualCollection.worker'], 'name email');
+
+    res.json({
+      success: true,
+      message: value.decision === 'approve' ? 'Completion approved' : 'Report returned to the worker',
+      data: { report: presentReport(report, req) }
+    });
+  } catch (err) {
+    if (err instanceof ReportTransitionError) {
+      return sendTransitionError(res, err);
+    }
+    console.error('Review completion error:', err);
+    res.status(500).json({ success: false, message: 'Failed to review completion' });
+  }
+});
+
 /* ============================================================================
    @route   GET /api/waste/workers
    @desc    Get all workers
-   @access  Private (Admin)
+   @access  Private (report.assign)
 ============================================================================ */
-router.get('/workers', authenticate, authorize('admin'), async (req, res) => {
+router.get('/workers', authenticate, requirePermission('report.assign'), async (req, res) => {
   try {
-    const workers = await User.find({ role: 'waste_worker' })
+    const workers = await User.find({ tenant: req.tenant, role: { $in: await rolesWith('report.update', req.tenant) } })
       .select('name email phone')
       .sort({ name: 1 });
 
@@ -624,17 +1631,21 @@ router.get('/workers', authenticate, authorize('admin'), async (req, res) => {
    @desc    Get dashboard statistics
    @access  Private
 ============================================================================ */
-router.get('/dashboard/stats', authenticate, async (req, res) => {
+router.get('/dashboard/stats', authenticate, requireTenant, async (req, res) => {
   try {
     const userId = req.user._id;
-    const userRole = req.user.role;
     
-    let statsFilter = {};
+    let statsFilter = { tenant: req.tenant };
     
-    if (userRole === 'waste_worker') {
-      statsFilter.assignedWorker = userId;
-    } else if (userRole === 'citizen' || userRole === 'green_champion') {
+    // Citizens count their own reports, workers their own workload,
+    // supervisors their team's and whoever sees the analytics the whole
+    // municipality
+    if (!can(req, 'report.view_all')) {
       statsFilter.reporter = userId;
+    } else if (!can(req, 'analytics.view')) {
+      Object.assign(statsFilter, can(req, 'team.supervise') && req.user.team
+        ? { team: req.user.team }
+        : { assignedWorker: userId });
     }
 
     const [
@@ -656,7 +1667,8 @@ router.get('/dashboard/stats', authenticate, async (req, res) => {
           $lt: new Date(new Date().setHours(23, 59, 59, 999))
         }
       }),
-      userRole === 'waste_worker' ? WasteReport.countDocuments({
+      can(req, 'report.claim') ? WasteReport.countDocuments({
+        tenant: req.tenant,
         $or: [
           { assignedWorker: { $exists: false } },
           { assignedWorker: null }
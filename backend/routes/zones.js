@@ -0,0 +1,292 @@
+import express from 'express';
+import multer from 'multer';
+import mongoose from 'mongoose';
+import Joi from 'joi';
+import Zone, { ZONE_KINDS } from '../models/Zone.js';
+import { authenticate, requirePermission, optionalAuth, can } from '../middleware/auth.js';
+import { requireTenant } from '../middleware/tenant.js';
+import { importZones, retagZone, untagZone, ZoneImportError } from '../services/zones.js';
+
+const router = express.Router();
+
+// Boundary files can be large; keep them in memory only while importing
+const MAX_GEOJSON_SIZE = 20 * 1024 * 1024;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_GEOJSON_SIZE, files: 1 },
+  fileFilter: (req, file, cb) => {
+    if (!/\.(geo)?json$/i.test(file.originalname)) {
+      return cb(new Error('Only GeoJSON files (.geojson, .json) are allowed'), false);
+    }
+    cb(null, true);
+  }
+});
+
+// Polygons are big; lists leave them out unless asked for
+const WITHOUT_GEOMETRY = '-geometry -properties';
+
+const importSchema = Joi.object({
+  kind: Joi.string().valid(...ZONE_KINDS).required(),
+  nameProperty: Joi.string().trim().max(50).default('name'),
+  codeProperty: Joi.string().trim().max(50).allow('')
+});
+
+const updateZoneSchema = Joi.object({
+  name: Joi.string().trim().max(100),
+  isActive: Joi.boolean()
+}).min(1);
+
+const coordinatesFromQuery = (query) => {
+  const longitude = parseFloat(query.longitude);
+  const latitude = parseFloat(query.latitude);
+  if (!Number.isFinite(longitude) || !Number.isFinite(latitude) ||
+      Math.abs(longitude) > 180 || Math.abs(latitude) > 90) {
+    return null;
+  }
+  return [longitude, latitude];
+};
+
+// @route   GET /api/zones
+// @desc    List zones (without polygons unless ?geometry=true); admins may
+//          add ?includeInactive=true
+// @access  Public
+router.get('/', optionalAuth, requireTenant, async (req, res) => {
+  try {
+    const { kind, parent, geometry, includeInactive } = req.query;
+
+    const query = { tenant: req.tenant };
+    if (includeInactive !== 'true' || !can(req, 'zone.manage')) query.isActive = true;
+    if (kind) query.kind = kind;
+    if (parent) {
+      if (!mongoose.isValidObjectId(parent)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid parent zone'
+        });
+      }
+      query.parent = parent;
+    }
+
+    const zones = await Zone.find(query)
+      .select(geometry === 'true' ? '-properties' : WITHOUT_GEOMETRY)
+      .sort({ kind: 1, name: 1 });
+
+    res.json({
+      success: true,
+      data: {
+        zones
+      }
+    });
+  } catch (error) {
+    console.error('Get zones error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch zones'
+    });
+  }
+});
+
+// @route   GET /api/zones/locate
+// @desc    Zones containing a point (?longitude=&latitude=)
+// @access  Public
+router.get('/locate', requireTenant, async (req, res) => {
+  try {
+    const coordinates = coordinatesFromQuery(req.query);
+    if (!coordinates) {
+      return res.status(400).json({
+        success: false,
+        message: 'Valid longitude and latitude are required'
+      });
+    }
+
+    const zones = await Zone.findForPoint(coordinates, req.tenant);
+
+    res.json({
+      success: true,
+      data: {
+        zones
+      }
+    });
+  } catch (error) {
+    console.error('Locate zone error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to locate zone'
+    });
+  }
+});
+
+// @route   GET /api/zones/:id
+// @desc    Single zone with its polygon
+// @access  Public
+router.get('/:id', requireTenant, async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Zone not found'
+      });
+    }
+
+    const zone = await Zone.findOne({ _id: req.params.id, tenant: req.tenant }).populate('parent', 'name code kind');
+
+    if (!zone) {
+      return res.status(404).json({
+        success: false,
+        message: 'Zone not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        zone
+      }
+    });
+  } catch (error) {
+    console.error('Get zone error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch zone'
+    });
+  }
+});
+
+// @route   POST /api/zones/import
+// @desc    Import districts or wards from a GeoJSON file (multipart "file")
+//          or a JSON body ({ geojson, kind, nameProperty, codeProperty })
+// @access  Private (zone.manage)
+router.post('/import', authenticate, requirePermission('zone.manage'), upload.single('file'), async (req, res) => {
+  try {
+    const { geojson, ...options } = req.body;
+
+    const { error, value } = importSchema.validate(options, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    let data = geojson;
+    if (req.file) {
+      try {
+        data = JSON.parse(req.file.buffer.toString('utf8'));
+      } catch {
+        return res.status(400).json({
+          success: false,
+          message: 'The uploaded file is not valid JSON'
+        });
+      }
+    }
+
+    if (!data) {
+      return res.status(400).json({
+        success: false,
+        message: 'A GeoJSON file is required'
+      });
+    }
+
+    const result = await importZones(data, { ...value, tenant: req.tenant }, req.user);
+
+    res.status(result.created > 0 ? 201 : 200).json({
+      success: true,
+      message: `Imported ${result.created + result.updated} zone(s)` +
+        (result.skipped.length ? `, skipped ${result.skipped.length}` : ''),
+      data: result
+    });
+  } catch (error) {
+    if (error instanceof ZoneImportError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Import zones error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to import zones'
+    });
+  }
+});
+
+// @route   PUT /api/zones/:id
+// @desc    Rename a zone or switch it on/off
+// @access  Private (zone.manage)
+router.put('/:id', authenticate, requirePermission('zone.manage'), async (req, res) => {
+  try {
+    const { error, value } = updateZoneSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const zone = mongoose.isValidObjectId(req.params.id) &&
+      await Zone.findOne({ _id: req.params.id, tenant: req.tenant });
+
+    if (!zone) {
+      return res.status(404).json({
+        success: false,
+        message: 'Zone not found'
+      });
+    }
+
+    const activeChanged = value.isActive !== undefined && value.isActive !== zone.isActive;
+    Object.assign(zone, value);
+    await zone.save();
+
+    // Inactive zones do not tag anything
+    if (activeChanged) await retagZone(zone);
+
+    res.json({
+      success: true,
+      message: 'Zone updated',
+      data: {
+        zone: { ...zone.toObject(), geometry: undefined }
+      }
+    });
+  } catch (error) {
+    console.error('Update zone error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update zone'
+    });
+  }
+});
+
+// @route   DELETE /api/zones/:id
+// @desc    Delete a zone and remove it from tagged reports, users and facilities
+// @access  Private (zone.manage)
+router.delete('/:id', authenticate, requirePermission('zone.manage'), async (req, res) => {
+  try {
+    const zone = mongoose.isValidObjectId(req.params.id) &&
+      await Zone.findOne({ _id: req.params.id, tenant: req.tenant });
+
+    if (!zone) {
+      return res.status(404).json({
+        success: false,
+        message: 'Zone not found'
+      });
+    }
+
+    await untagZone(zone);
+    await Zone.updateMany({ tenant: req.tenant, parent: zone._id }, { $unset: { parent: 1 } });
+    await zone.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Zone deleted'
+    });
+  } catch (error) {
+    console.error('Delete zone error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete zone'
+    });
+  }
+});
+
+export default router;
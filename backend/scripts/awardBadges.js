@@ -0,0 +1,59 @@
+/* ============================================================================
+   Award badges to users who already qualify
+   ----------------------------------------------------------------------------
+   Badges are normally checked right after the activity that earns them.
+   Run this after adding or changing badges, or after upgrading, so users
+   whose past activity already meets a rule get the badge too.
+
+   Usage:
+     npm run award:badges
+     npm run award:badges -- --tenant=chennai
+============================================================================ */
+
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import Tenant from '../models/Tenant.js';
+import User from '../models/User.js';
+import { evaluateBadges } from '../services/achievements.js';
+
+dotenv.config();
+
+const argument = (name) => {
+  const prefix = `--${name}=`;
+  return process.argv.find(arg => arg.startsWith(prefix))?.slice(prefix.length);
+};
+
+const tenantSlug = argument('tenant');
+
+const run = async () => {
+  await mongoose.connect(process.env.MONGODB_URI);
+
+  const filter = { tenant: { $ne: null } };
+  if (tenantSlug) {
+    const tenant = await Tenant.findOne({ slug: tenantSlug.toLowerCase() });
+    if (!tenant) throw new Error(`Tenant "${tenantSlug}" does not exist`);
+    filter.tenant = tenant._id;
+  }
+
+  console.log(`Awarding badges${tenantSlug ? ` in ${tenantSlug}` : ''}...`);
+
+  let checked = 0;
+  let awarded = 0;
+  for await (const user of User.find(filter).select('_id email').cursor()) {
+    const badges = await evaluateBadges(user._id);
+    checked++;
+    awarded += badges.length;
+    if (badges.length > 0) {
+      console.log(`${user.email}: ${badges.map(badge => badge.name).join(', ')}`);
+    }
+  }
+
+  console.log(`${checked} user(s) checked, ${awarded} badge(s) awarded`);
+};
+
+run()
+  .catch((err) => {
+    console.error('Awarding badges failed:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,17 @@
+/* ============================================================================
+   Generate web push (VAPID) keys
+   ----------------------------------------------------------------------------
+   Prints a new key pair for the webpush delivery adapter. Put both lines in
+   the backend's .env together with VAPID_SUBJECT and PUSH_DELIVERY=webpush.
+   Replacing the keys invalidates every existing browser subscription.
+
+   Usage:
+     npm run vapid:keys
+============================================================================ */
+
+import webpush from 'web-push';
+
+const { publicKey, privateKey } = webpush.generateVAPIDKeys();
+
+console.log(`VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
@@ -0,0 +1,89 @@
+/* ============================================================================
+   Migration: key auto-dispatch settings on zones
+   ----------------------------------------------------------------------------
+   Auto-dispatch settings and decisions used to name their zone by the city
+   typed into a report's address ("default" for the fallback). They now point
+   at a Zone (models/Zone.js), the same zones reports are tagged with. This
+   script turns "default" into the default settings and every other name
+   into the zone of that name or code. Settings whose name matches no zone
+   are removed and listed, so they can be set up again on the dispatch page;
+   decisions keep no zone.
+
+   Usage:
+     npm run migrate:dispatch
+     npm run migrate:dispatch -- --dry-run
+
+   Safe to run more than once: only names still stored as text are touched.
+============================================================================ */
+
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import Zone from '../models/Zone.js';
+import DispatchSetting from '../models/DispatchSetting.js';
+import DispatchDecision from '../models/DispatchDecision.js';
+
+dotenv.config();
+
+const dryRun = process.argv.includes('--dry-run');
+
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Zone id for an old zone name, null for "default", undefined when unknown
+const zoneFor = async (name, tenant) => {
+  if (name === 'default') return null;
+  const zone = await Zone.findOne({
+    tenant,
+    $or: [{ code: name.toLowerCase() }, { name: new RegExp(`^${escapeRegex(name)}$`, 'i') }]
+  }).sort({ kind: -1 }).select('_id');
+  return zone?._id;
+};
+
+const run = async () => {
+  await mongoose.connect(process.env.MONGODB_URI);
+  console.log(`Moving dispatch settings onto zones${dryRun ? ' (dry run)' : ''}...`);
+
+  // The schema casts zone to an id, so read the raw documents
+  let moved = 0;
+  let removed = 0;
+  for await (const setting of DispatchSetting.collection.find({ zone: { $type: 'string' } })) {
+    const zone = await zoneFor(setting.zone, setting.tenant);
+    if (zone === undefined) {
+      console.warn(`Settings for "${setting.zone}" match no zone and are ${dryRun ? 'to be ' : ''}removed`);
+      if (!dryRun) await DispatchSetting.collection.deleteOne({ _id: setting._id });
+      removed++;
+      continue;
+    }
+    if (!dryRun) {
+      try {
+        await DispatchSetting.collection.updateOne({ _id: setting._id }, { $set: { zone } });
+      } catch (err) {
+        if (err.code !== 11000) throw err;
+        // Two old names for the same zone: keep the first
+        console.warn(`Settings for "${setting.zone}" duplicate another name of the same zone and are removed`);
+        await DispatchSetting.collection.deleteOne({ _id: setting._id });
+        removed++;
+        continue;
+      }
+    }
+    moved++;
+  }
+
+  let decisions = 0;
+  for await (const decision of DispatchDecision.collection.find({ zone: { $type: 'string' } })) {
+    const zone = await zoneFor(decision.zone, decision.tenant);
+    if (!dryRun) {
+      await DispatchDecision.collection.updateOne({ _id: decision._id }, { $set: { zone: zone ?? null } });
+    }
+    decisions++;
+  }
+
+  console.log(`${moved} setting(s) ${dryRun ? 'to move' : 'moved'}, ${removed} removed, ` +
+    `${decisions} decision(s) ${dryRun ? 'to update' : 'updated'}`);
+};
+
+run()
+  .catch((err) => {
+    console.error('Dispatch zone migration failed:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,105 @@
+/* ============================================================================
+   Migration: move embedded report images into image storage
+   ----------------------------------------------------------------------------
+   Older reports carry their photos as Buffers inside the document. This
+   script copies every embedded image into the configured image storage
+   (IMAGE_STORAGE), records its storage key and checksum and removes the
+   buffer from the report.
+
+   Usage:
+     npm run migrate:images              migrate everything
+     npm run migrate:images -- --dry-run only count what would be moved
+
+   Safe to run more than once: reports without embedded data are skipped,
+   and a report edited while it was being migrated is left for the next run.
+============================================================================ */
+
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import WasteReport from '../models/WasteReport.js';
+import { storeImage } from '../services/imageStorage.js';
+
+dotenv.config();
+
+const dryRun = process.argv.includes('--dry-run');
+
+const IMAGE_FIELDS = ['images', 'actualCollection.beforeImages', 'actualCollection.afterImages'];
+
+const getField = (doc, field) => field.split('.').reduce((value, key) => value?.[key], doc);
+
+// The driver hands back BSON Binary values for Buffers
+const toBuffer = (data) => (Buffer.isBuffer(data) ? data : Buffer.from(data.buffer));
+
+const migrateReport = async (collection, doc, totals) => {
+  const update = {};
+
+  for (const field of IMAGE_FIELDS) {
+    const images = getField(doc, field);
+    if (!Array.isArray(images) || !images.some(image => image.data)) continue;
+
+    update[field] = [];
+    for (const image of images) {
+      if (!image.data) {
+        update[field].push(image);
+        continue;
+      }
+
+      const { data, ...metadata } = image;
+      const buffer = toBuffer(data);
+      totals.images += 1;
+      totals.bytes += buffer.length;
+
+      if (dryRun) continue;
+
+      const stored = await storeImage(image.filename, buffer, { contentType: image.mimetype });
+      update[field].push({ ...metadata, ...stored, size: metadata.size || buffer.length });
+    }
+  }
+
+  if (dryRun || Object.keys(update).length === 0) return;
+
+  // Only replace the arrays if nobody touched the report in the meantime
+  const result = await collection.updateOne(
+    { _id: doc._id, updatedAt: doc.updatedAt },
+    { $set: update }
+  );
+  if (result.modifiedCount === 1) {
+    totals.reports += 1;
+  } else {
+    totals.skipped += 1;
+    console.warn(`Report ${doc._id} changed during migration; run the script again`);
+  }
+};
+
+const run = async () => {
+  await mongoose.connect(process.env.MONGODB_URI);
+  console.log(`Migrating embedded images${dryRun ? ' (dry run)' : ''}...`);
+
+  const collection = WasteReport.collection;
+  const cursor = collection.find({
+    $or: IMAGE_FIELDS.map(field => ({ [`${field}.data`]: { $exists: true } }))
+  });
+
+  const totals = { reports: 0, images: 0, bytes: 0, skipped: 0 };
+  for await (const doc of cursor) {
+    try {
+      await migrateReport(collection, doc, totals);
+    } catch (err) {
+      totals.skipped += 1;
+      console.error(`Failed to migrate report ${doc._id}:`, err.message);
+    }
+  }
+
+  console.log(
+    `${dryRun ? 'Would move' : 'Moved'} ${totals.images} image(s), ` +
+    `${(totals.bytes / 1024 / 1024).toFixed(1)} MB` +
+    (dryRun ? '' : ` from ${totals.reports} report(s); ${totals.skipped} skipped`)
+  );
+};
+
+run()
+  .catch((err) => {
+    console.error('Image migration failed:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
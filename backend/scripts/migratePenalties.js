@@ -0,0 +1,79 @@
+/* ============================================================================
+   Migration: move penalties out of user documents
+   ----------------------------------------------------------------------------
+   Penalties used to be a plain list on each user (`user.penalties`) with
+   no way to issue, dispute or settle them. They now live in their own
+   collection with evidence and an audit history (models/Penalty.js). This
+   script copies every embedded penalty into that collection, keeping its
+   amount, reason, date and status, and removes the old list.
+
+   Usage:
+     npm run migrate:penalties
+     npm run migrate:penalties -- --dry-run
+
+   Safe to run more than once: users whose list was already moved no longer
+   have one.
+============================================================================ */
+
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import User from '../models/User.js';
+import Penalty from '../models/Penalty.js';
+
+dotenv.config();
+
+const dryRun = process.argv.includes('--dry-run');
+
+const run = async () => {
+  await mongoose.connect(process.env.MONGODB_URI);
+  console.log(`Moving embedded penalties${dryRun ? ' (dry run)' : ''}...`);
+
+  // The field is no longer in the schema, so read the raw documents
+  const cursor = User.collection.find(
+    { 'penalties.0': { $exists: true } },
+    { projection: { tenant: 1, email: 1, penalties: 1 } }
+  );
+
+  let users = 0;
+  let moved = 0;
+  let skipped = 0;
+  for await (const user of cursor) {
+    if (!user.tenant) {
+      console.warn(`${user.email}: no municipality, run migrate:tenants first`);
+      skipped++;
+      continue;
+    }
+
+    const penalties = user.penalties.map(penalty => {
+      const status = penalty.status || 'pending';
+      const at = penalty.date || new Date();
+      return {
+        tenant: user.tenant,
+        user: user._id,
+        violation: 'other',
+        amount: penalty.amount || 0,
+        reason: penalty.reason || 'Penalty recorded before penalties had their own workflow',
+        status,
+        createdAt: at,
+        history: [{ action: 'issued', toStatus: status, notes: 'Moved from the user profile', at }]
+      };
+    });
+
+    if (!dryRun) {
+      await Penalty.insertMany(penalties);
+      await User.collection.updateOne({ _id: user._id }, { $unset: { penalties: 1 } });
+    }
+    users++;
+    moved += penalties.length;
+  }
+
+  console.log(`${moved} penalt${moved === 1 ? 'y' : 'ies'} of ${users} user(s) ${dryRun ? 'to move' : 'moved'}` +
+    (skipped ? `, ${skipped} user(s) skipped` : ''));
+};
+
+run()
+  .catch((err) => {
+    console.error('Penalty migration failed:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
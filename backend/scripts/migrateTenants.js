@@ -0,0 +1,106 @@
+/* ============================================================================
+   Migration: move a single-city installation into a municipality (tenant)
+   ----------------------------------------------------------------------------
+   Before multi-tenancy every document belonged to the one city the platform
+   ran for. This script creates that city as a tenant and assigns every
+   user, report, facility, training module, vehicle, route, zone and
+   dispatch setting without a tenant to it. It also rebuilds the indexes
+   whose uniqueness is now per tenant (vehicle ids, zone codes, dispatch
+   zones).
+
+   Usage:
+     npm run migrate:tenants -- --slug=chennai --name="Chennai Corporation"
+     npm run migrate:tenants -- --slug=chennai --super-admin=ops@example.org
+     npm run migrate:tenants -- --slug=chennai --dry-run
+
+   --super-admin turns an existing user into a super admin, who can create
+   further municipalities. Set DEFAULT_TENANT to the slug afterwards so
+   clients that do not send an X-Tenant header keep working.
+
+   Safe to run more than once: documents that already have a tenant are left
+   alone.
+============================================================================ */
+
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import Tenant from '../models/Tenant.js';
+import User from '../models/User.js';
+import WasteReport from '../models/WasteReport.js';
+import Facility from '../models/Facility.js';
+import { Training } from '../models/Training.js';
+import Vehicle from '../models/Vehicle.js';
+import Route from '../models/Route.js';
+import Zone from '../models/Zone.js';
+import DispatchSetting from '../models/DispatchSetting.js';
+import DispatchDecision from '../models/DispatchDecision.js';
+
+dotenv.config();
+
+const argument = (name) => {
+  const prefix = `--${name}=`;
+  return process.argv.find(arg => arg.startsWith(prefix))?.slice(prefix.length);
+};
+
+const dryRun = process.argv.includes('--dry-run');
+const slug = (argument('slug') || process.env.DEFAULT_TENANT || '').toLowerCase();
+const name = argument('name');
+const superAdminEmail = argument('super-admin');
+
+const TENANT_MODELS = [User, WasteReport, Facility, Training, Vehicle, Route, Zone, DispatchSetting, DispatchDecision];
+
+// Unique indexes that became unique per tenant
+const REINDEXED_MODELS = [Vehicle, Zone, DispatchSetting];
+
+const run = async () => {
+  if (!slug) {
+    throw new Error('Pass --slug=<tenant slug> or set DEFAULT_TENANT');
+  }
+
+  await mongoose.connect(process.env.MONGODB_URI);
+  console.log(`Migrating into tenant "${slug}"${dryRun ? ' (dry run)' : ''}...`);
+
+  let tenant = await Tenant.findOne({ slug });
+  if (!tenant) {
+    if (!name) throw new Error(`Tenant "${slug}" does not exist yet; pass --name="..." to create it`);
+    tenant = dryRun ? new Tenant({ name, slug }) : await Tenant.create({ name, slug, branding: { displayName: name } });
+    console.log(`${dryRun ? 'Would create' : 'Created'} tenant ${name}`);
+  }
+
+  for (const model of TENANT_MODELS) {
+    // Super admins belong to no tenant
+    const filter = model === User
+      ? { tenant: { $exists: false }, role: { $ne: 'super_admin' } }
+      : { tenant: { $exists: false } };
+
+    const count = dryRun
+      ? await model.countDocuments(filter)
+      : (await model.collection.updateMany(filter, { $set: { tenant: tenant._id } })).modifiedCount;
+    console.log(`${model.modelName}: ${count} document(s) ${dryRun ? 'to assign' : 'assigned'}`);
+  }
+
+  if (!dryRun) {
+    for (const model of REINDEXED_MODELS) {
+      const dropped = await model.syncIndexes();
+      if (dropped.length) console.log(`${model.modelName}: dropped index(es) ${dropped.join(', ')}`);
+    }
+  }
+
+  if (superAdminEmail) {
+    const user = await User.findOne({ email: superAdminEmail.toLowerCase() });
+    if (!user) throw new Error(`No user with email ${superAdminEmail}`);
+    if (!dryRun) {
+      await User.collection.updateOne(
+        { _id: user._id },
+        { $set: { role: 'super_admin' }, $unset: { tenant: 1 } }
+      );
+    }
+    console.log(`${dryRun ? 'Would make' : 'Made'} ${user.email} a super admin`);
+  }
+};
+
+run()
+  .catch((err) => {
+    console.error('Tenant migration failed:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
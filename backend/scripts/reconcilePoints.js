@@ -0,0 +1,74 @@
+/* ============================================================================
+   Reconcile reward points against the ledger
+   ----------------------------------------------------------------------------
+   `user.rewards` only caches the points ledger. This script recomputes every
+   user's balance, lifetime earnings and level from their ledger entries and
+   fixes users whose cache drifted (for example when a ledger write failed
+   after the balance was updated).
+
+   The first run also moves points held from before the ledger existed into
+   it, as an opening balance per user.
+
+   Usage:
+     npm run reconcile:points
+     npm run reconcile:points -- --dry-run
+     npm run reconcile:points -- --tenant=chennai
+============================================================================ */
+
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import Tenant from '../models/Tenant.js';
+import User from '../models/User.js';
+import { reconcilePoints } from '../services/points.js';
+
+dotenv.config();
+
+const argument = (name) => {
+  const prefix = `--${name}=`;
+  return process.argv.find(arg => arg.startsWith(prefix))?.slice(prefix.length);
+};
+
+const dryRun = process.argv.includes('--dry-run');
+const tenantSlug = argument('tenant');
+
+const run = async () => {
+  await mongoose.connect(process.env.MONGODB_URI);
+
+  const filter = {};
+  if (tenantSlug) {
+    const tenant = await Tenant.findOne({ slug: tenantSlug.toLowerCase() });
+    if (!tenant) throw new Error(`Tenant "${tenantSlug}" does not exist`);
+    filter.tenant = tenant._id;
+  }
+
+  console.log(`Reconciling points${tenantSlug ? ` of ${tenantSlug}` : ''}${dryRun ? ' (dry run)' : ''}...`);
+
+  let checked = 0;
+  let fixed = 0;
+  let opened = 0;
+  for await (const user of User.find(filter).select('_id email').cursor()) {
+    const result = await reconcilePoints(user._id, { dryRun });
+    checked++;
+    if (result.openedWith) opened++;
+    if (result.changed) {
+      fixed++;
+      console.log(
+        `${user.email}: balance ${result.before.points} -> ${result.after.points}, ` +
+        `earned ${result.before.totalEarned} -> ${result.after.totalEarned}, ` +
+        `level ${result.before.level} -> ${result.after.level}`
+      );
+    }
+  }
+
+  console.log(
+    `${checked} user(s) checked, ${opened} opening balance(s) ${dryRun ? 'to record' : 'recorded'}, ` +
+    `${fixed} ${dryRun ? 'to fix' : 'fixed'}`
+  );
+};
+
+run()
+  .catch((err) => {
+    console.error('Points reconciliation failed:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -4,6 +4,8 @@ import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
+import { corsOptions } from './config/cors.js';
+import { resolveTenant } from './middleware/tenant.js';
 
 // Routes
 import authRoutes from './routes/auth.js';
@@ -12,6 +14,19 @@ import trainingRoutes from './routes/training.js';
 import facilityRoutes from './routes/facilities.js';
 import adminRoutes from './routes/admin.js';
 import userRoutes from './routes/users.js';
+import vehicleRoutes from './routes/vehicles.js';
+import collectionRoutes from './routes/collectionRoutes.js';
+import zoneRoutes from './routes/zones.js';
+import tenantRoutes from './routes/tenants.js';
+import teamRoutes from './routes/teams.js';
+import rewardRoutes from './routes/rewards.js';
+import badgeRoutes from './routes/badges.js';
+import penaltyRoutes from './routes/penalties.js';
+import scheduleRoutes from './routes/schedules.js';
+import notificationRoutes from './routes/notifications.js';
+import realtimeRoutes from './routes/realtime.js';
+import { startReminderScheduler } from './services/collectionReminders.js';
+import { startDeliveryWorker } from './services/delivery.js';
 
 dotenv.config();
 
@@ -26,29 +41,10 @@ const PORT = process.env.PORT || 5000;
 app.use(helmet());
 
 // ✅ CORS (FIXED)
-const allowedOrigins = [
-  "http://localhost:5173",
-  "https://smart-waste-management-for-sustaina-beryl.vercel.app"
-];
-
-app.use(
-  cors({
-    origin: function (origin, callback) {
-      // allow requests with no origin (mobile apps, postman)
-      if (!origin) return callback(null, true);
-
-      if (allowedOrigins.indexOf(origin) !== -1) {
-        callback(null, true);
-      } else {
-        callback(new Error("Not allowed by CORS"));
-      }
-    },
-    credentials: true,
-  })
-);
+app.use(cors(corsOptions));
 
 // ✅ Handle Preflight Requests
-app.options('*', cors());
+app.options('*', cors(corsOptions));
 
 /* ================================
    ✅ RATE LIMITER
@@ -69,6 +65,12 @@ app.use('/api', limiter);
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
+/* ================================
+   ✅ TENANT (MUNICIPALITY)
+================================ */
+
+app.use('/api', resolveTenant);
+
 /* ================================
    ✅ MONGODB CONNECTION
 ================================ */
@@ -88,6 +90,17 @@ app.use('/api/training', trainingRoutes);
 app.use('/api/facilities', facilityRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/users', userRoutes);
+app.use('/api/vehicles', vehicleRoutes);
+app.use('/api/routes', collectionRoutes);
+app.use('/api/zones', zoneRoutes);
+app.use('/api/tenants', tenantRoutes);
+app.use('/api/teams', teamRoutes);
+app.use('/api/rewards', rewardRoutes);
+app.use('/api/badges', badgeRoutes);
+app.use('/api/penalties', penaltyRoutes);
+app.use('/api/schedules', scheduleRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/realtime', realtimeRoutes);
 
 /* ================================
    ✅ HEALTH CHECK
@@ -119,4 +132,6 @@ app.use('*', (req, res) => {
 app.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`);
   console.log(`🌍 Environment: ${process.env.NODE_ENV}`);
+  startReminderScheduler();
+  startDeliveryWorker();
 });
\ No newline at end of file
@@ -0,0 +1,137 @@
+/* ============================================================================
+   Achievements
+   ----------------------------------------------------------------------------
+   Badges are rules over a user's activity (models/Badge.js): a metric such
+   as reports filed or modules passed, and the value it has to reach.
+   evaluateBadges() measures only the metrics the user's missing badges need
+   and awards every badge whose rule is met. It is called after activity
+   that can move a metric; `npm run award:badges` catches up everyone after
+   badges are added or changed.
+
+   A badge is earned once and kept, even if the rule later changes or the
+   badge is switched off.
+============================================================================ */
+
+import mongoose from 'mongoose';
+import Badge, { DEFAULT_BADGES } from '../models/Badge.js';
+import User from '../models/User.js';
+import WasteReport from '../models/WasteReport.js';
+import { Training, TrainingProgress } from '../models/Training.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Badges of a municipality. The first call seeds DEFAULT_BADGES.
+ */
+export const badgesFor = async (tenant, { includeInactive = false } = {}) => {
+  if (!await Badge.exists({ tenant })) {
+    try {
+      await Badge.insertMany(DEFAULT_BADGES.map(badge => ({ ...badge, tenant })), { ordered: false });
+    } catch (error) {
+      // Another request seeded them first
+      if (error.code !== 11000) throw error;
+    }
+  }
+  const filter = { tenant };
+  if (!includeInactive) filter.isActive = true;
+  return Badge.find(filter).sort({ createdAt: 1 });
+};
+
+// Ids of the training modules the user passed
+const passedModules = async (userId) => {
+  const progress = await TrainingProgress.findOne({ user: userId }).select('trainingData').lean();
+  return (progress?.trainingData || [])
+    .filter(entry => entry.isCompleted)
+    .map(entry => entry.training.toString());
+};
+
+// Longest run of consecutive (UTC) days on which the user filed a report
+const longestReportingStreak = async (userId) => {
+  const days = await WasteReport.aggregate([
+    { $match: { reporter: new mongoose.Types.ObjectId(String(userId)), status: { $ne: 'merged' } } },
+    { $group: { _id: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } } } },
+    { $sort: { _id: 1 } }
+  ]);
+
+  let longest = 0;
+  let current = 0;
+  let previous = null;
+  days.forEach(({ _id: day }) => {
+    const time = Date.parse(day);
+    current = previous !== null && time - previous === DAY_MS ? current + 1 : 1;
+    longest = Math.max(longest, current);
+    previous = time;
+  });
+  return longest;
+};
+
+// How to measure each metric; results are cached per evaluation
+const measures = {
+  reports_submitted: (user) =>
+    WasteReport.countDocuments({ reporter: user._id, status: { $ne: 'merged' } }),
+  reports_verified: (user) =>
+    WasteReport.countDocuments({ reporter: user._id, status: 'verified' }),
+  training_completed: async (user, context) => (await context.passed()).length,
+  training_category: async (user, context, rule) => {
+    const modules = await Training.find({ tenant: user.tenant, category: rule.category, isActive: true })
+      .select('_id')
+      .lean();
+    const passed = new Set(await context.passed());
+    // A category without modules cannot be completed
+    return modules.length > 0 && modules.every(module => passed.has(module._id.toString())) ? 1 : 0;
+  },
+  reporting_streak: (user) => longestReportingStreak(user._id),
+  points_earned: (user) => user.rewards.totalEarned
+};
+
+/**
+ * Award `user` every active badge whose rule they now meet. Returns the
+ * newly earned badges.
+ */
+export const evaluateBadges = async (userOrId) => {
+  const user = await User.findById(userOrId?._id || userOrId).select('tenant rewards');
+  if (!user?.tenant) return [];
+
+  const earned = new Set(user.rewards.badges.map(badge => badge.key));
+  const candidates = (await badgesFor(user.tenant)).filter(badge => !earned.has(badge.key));
+  if (candidates.length === 0) return [];
+
+  let passed;
+  const context = { passed: () => (passed ??= passedModules(user._id)) };
+  const values = new Map();
+  const measure = (rule) => {
+    const cacheKey = `${rule.metric}:${rule.category || ''}`;
+    if (!values.has(cacheKey)) values.set(cacheKey, measures[rule.metric](user, context, rule));
+    return values.get(cacheKey);
+  };
+
+  const awarded = [];
+  for (const badge of candidates) {
+    if (await measure(badge.rule) < badge.rule.threshold) continue;
+
+    const entry = {
+      badge: badge._id,
+      key: badge.key,
+      name: badge.name,
+      description: badge.description,
+      earnedAt: new Date()
+    };
+    // The key check keeps concurrent evaluations from awarding twice
+    const result = await User.updateOne(
+      { _id: user._id, 'rewards.badges.key': { $ne: badge.key } },
+      { $push: { 'rewards.badges': entry } }
+    );
+    if (result.modifiedCount > 0) awarded.push(entry);
+  }
+  return awarded;
+};
+
+/**
+ * evaluateBadges() for activity routes: failures are logged, never thrown,
+ * so a badge problem cannot fail the request that triggered it.
+ */
+export const checkBadges = (user) =>
+  evaluateBadges(user).catch((error) => {
+    console.warn('Error evaluating badges:', error.message);
+    return [];
+  });
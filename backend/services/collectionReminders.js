@@ -0,0 +1,147 @@
+/* ============================================================================
+   Collection reminders
+   ----------------------------------------------------------------------------
+   In the evening, citizens who keep `preferences.collectionReminders` on
+   are reminded of the pickups in their zones the next day. The server checks
+   every few minutes; each municipality is handled once its local clock
+   passes the reminder hour. A reminder is stored once per user and day,
+   which makes the check safe to repeat and to run on several servers, and
+   also lands in the user's notification centre.
+
+   Configuration (environment):
+     - COLLECTION_REMINDER_HOUR     : local hour (0-23) from which reminders
+                                      go out (18)
+     - COLLECTION_REMINDER_INTERVAL : minutes between checks (15); 0 turns
+                                      reminders off on this server
+============================================================================ */
+
+import Tenant from '../models/Tenant.js';
+import User from '../models/User.js';
+import CollectionSchedule from '../models/CollectionSchedule.js';
+import CollectionReminder from '../models/CollectionReminder.js';
+import { pickupsFor, localClock, addDays } from './collectionSchedule.js';
+import { notify } from './notifications.js';
+
+const DEFAULT_REMINDER_HOUR = 18;
+
+// Hours outside 0-23 fall back to the default; 0 (midnight) is a valid hour
+const reminderHour = () => {
+  const hour = parseInt(process.env.COLLECTION_REMINDER_HOUR ?? DEFAULT_REMINDER_HOUR, 10);
+  return Number.isInteger(hour) && hour >= 0 && hour <= 23 ? hour : DEFAULT_REMINDER_HOUR;
+};
+
+export const getReminderSettings = () => ({
+  hour: reminderHour(),
+  intervalMinutes: parseInt(process.env.COLLECTION_REMINDER_INTERVAL ?? '15') || 0
+});
+
+const STREAM_LABELS = {
+  general: 'general waste',
+  recyclables: 'recyclables',
+  organic: 'organic waste',
+  hazardous: 'hazardous waste',
+  electronic: 'e-waste',
+  bulky: 'bulky items'
+};
+
+const describe = (pickups) => pickups
+  .map(({ stream, time, originalDate }) =>
+    `${STREAM_LABELS[stream] || stream} at ${time}${originalDate ? ` (moved from ${originalDate})` : ''}`)
+  .join(', ');
+
+/**
+ * Remind the citizens of one municipality of tomorrow's pickups. Returns the
+ * number of reminders created.
+ */
+export const remindTenant = async (tenant, day) => {
+  const schedules = await CollectionSchedule.find({ tenant: tenant._id, isActive: true });
+  const pickups = (await pickupsFor(schedules, { tenant: tenant._id, from: day, days: 1 }))
+    .filter(pickup => pickup.status !== 'cancelled');
+  if (pickups.length === 0) return 0;
+
+  const byZone = new Map();
+  for (const pickup of pickups) {
+    const zone = pickup.zone.toString();
+    byZone.set(zone, [...(byZone.get(zone) || []), pickup]);
+  }
+
+  const users = User.find({
+    tenant: tenant._id,
+    isActive: true,
+    'preferences.collectionReminders': true,
+    zones: { $in: [...byZone.keys()] }
+  }).select('zones').cursor();
+
+  let sent = 0;
+  for await (const user of users) {
+    // A user in a ward and its district may get the same stream twice
+    const own = new Map();
+    for (const zone of user.zones) {
+      for (const pickup of byZone.get(zone.toString()) || []) {
+        own.set(`${pickup.stream}@${pickup.time}`, pickup);
+      }
+    }
+    if (own.size === 0) continue;
+
+    const userPickups = [...own.values()];
+    let reminder;
+    try {
+      reminder = await CollectionReminder.create({
+        tenant: tenant._id,
+        user: user._id,
+        date: day,
+        pickups: userPickups.map(({ stream, time, originalDate }) => ({ stream, time, originalDate })),
+        message: `Collection tomorrow: ${describe(userPickups)}. Please put your bins out in time.`
+      });
+      sent++;
+    } catch (error) {
+      // Already reminded by an earlier run
+      if (error.code !== 11000) throw error;
+      continue;
+    }
+    await notify([user._id], {
+      tenant: tenant._id,
+      type: 'collection_reminder',
+      title: 'Collection tomorrow',
+      message: reminder.message,
+      link: '/dashboard',
+      data: { date: day }
+    });
+  }
+  return sent;
+};
+
+/**
+ * Send tomorrow's reminders for every municipality whose evening has come.
+ */
+export const sendCollectionReminders = async (now = new Date()) => {
+  const { hour } = getReminderSettings();
+  const tenants = await Tenant.find({ isActive: true }).select('name timezone');
+
+  let sent = 0;
+  for (const tenant of tenants) {
+    const clock = localClock(now, tenant.timezone || 'UTC');
+    if (clock.hour < hour) continue;
+    sent += await remindTenant(tenant, addDays(clock.day, 1));
+  }
+  return sent;
+};
+
+/**
+ * Check for due reminders periodically while the server runs.
+ */
+export const startReminderScheduler = () => {
+  const { intervalMinutes, hour } = getReminderSettings();
+  if (!intervalMinutes) return null;
+  if (process.env.COLLECTION_REMINDER_HOUR && String(hour) !== process.env.COLLECTION_REMINDER_HOUR.trim()) {
+    console.warn(`COLLECTION_REMINDER_HOUR must be an hour from 0 to 23; using ${hour}`);
+  }
+
+  const check = () => sendCollectionReminders()
+    .then(sent => sent && console.log(`🔔 Sent ${sent} collection reminder(s)`))
+    .catch(error => console.error('Collection reminders error:', error));
+
+  const timer = setInterval(check, intervalMinutes * 60 * 1000);
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,179 @@
+/* ============================================================================
+   Collection schedules
+   ----------------------------------------------------------------------------
+   Schedules say which waste stream is picked up in a zone on which weekdays
+   (every week, or every n-th week counted from the schedule's start).
+   Exceptions then cancel or move the pickups of single days: holidays for
+   many zones at once, reschedules for a single schedule.
+
+   All days are calendar days ("YYYY-MM-DD") and times ("HH:MM") local to
+   the municipality's time zone, so a pickup on "2024-05-31" stays on that
+   day whatever the server's clock says.
+============================================================================ */
+
+import CollectionSchedule from '../models/CollectionSchedule.js';
+import CollectionException from '../models/CollectionException.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Furthest an exception may move a pickup, in days
+export const MAX_MOVE_DAYS = 14;
+
+// Longest period a pickup lookup may cover
+export const MAX_LOOKAHEAD_DAYS = 90;
+
+// Days since 1970-01-01 (a Thursday)
+const dayNumber = (day) => Math.round(Date.parse(`${day}T00:00:00Z`) / DAY_MS);
+const dayFromNumber = (number) => new Date(number * DAY_MS).toISOString().slice(0, 10);
+
+// 0 = Sunday ... 6 = Saturday, and Sunday-based week index
+const weekdayOf = (number) => (number + 4) % 7;
+const weekOf = (number) => Math.floor((number + 4) / 7);
+
+export const addDays = (day, days) => dayFromNumber(dayNumber(day) + days);
+
+export const daysBetween = (from, to) => dayNumber(to) - dayNumber(from);
+
+// Wall clock reading of `date` in a time zone, as numbers
+const clockParts = (date, timeZone) => Object.fromEntries(
+  new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  })
+    .formatToParts(date)
+    .filter(({ type }) => type !== 'literal')
+    .map(({ type, value }) => [type, parseInt(value, 10)])
+);
+
+const pad = (value) => String(value).padStart(2, '0');
+
+/**
+ * Calendar day ("YYYY-MM-DD"), weekday (0 = Sunday), hour and minute it is
+ * at `date` in a time zone.
+ */
+export const localClock = (date, timeZone) => {
+  const parts = clockParts(date, timeZone);
+  const day = `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+  return { day, weekday: weekdayOf(dayNumber(day)), hour: parts.hour, minute: parts.minute };
+};
+
+/**
+ * Minutes a time zone is ahead of UTC at `date`.
+ */
+export const zoneOffset = (date, timeZone) => {
+  const parts = clockParts(date, timeZone);
+  const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((wall - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+/**
+ * Instant a local day and "HH:MM" time in a time zone stand for.
+ */
+export const zonedTime = (day, time, timeZone) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const wall = Date.parse(`${day}T00:00:00Z`) + (hours * 60 + minutes) * 60000;
+  // The second pass settles times close to a daylight saving change
+  const guess = wall - zoneOffset(new Date(wall), timeZone) * 60000;
+  return new Date(wall - zoneOffset(new Date(guess), timeZone) * 60000);
+};
+
+/**
+ * Regular pickup days of a schedule from `from` to `to` (inclusive).
+ */
+export const occurrencesOf = (schedule, from, to) => {
+  const anchor = dayNumber(schedule.startsOn);
+  const first = Math.max(dayNumber(from), anchor);
+  const last = schedule.endsOn ? Math.min(dayNumber(to), dayNumber(schedule.endsOn)) : dayNumber(to);
+
+  const days = [];
+  for (let number = first; number <= last; number++) {
+    if (schedule.days.includes(weekdayOf(number)) &&
+        (weekOf(number) - weekOf(anchor)) % schedule.everyWeeks === 0) {
+      days.push(dayFromNumber(number));
+    }
+  }
+  return days;
+};
+
+/**
+ * Exception of a day that applies to the schedule; single-schedule
+ * reschedules win over holidays.
+ */
+export const exceptionFor = (exceptions, schedule, day) => {
+  const matching = exceptions.filter(exception => exception.date === day && exception.covers(schedule));
+  return matching.find(exception => exception.schedule) || matching[0] || null;
+};
+
+/**
+ * Pickups of the given schedules from `from` for `days` days, with
+ * exceptions applied, sorted by day and time. Cancelled pickups stay in the
+ * list (status "cancelled") so citizens can see why nobody comes.
+ */
+export const pickupsFor = async (schedules, { tenant, from, days }) => {
+  if (schedules.length === 0) return [];
+
+  const to = addDays(from, days - 1);
+  // Pickups may be moved into the period from just outside it
+  const scanFrom = addDays(from, -MAX_MOVE_DAYS);
+  const scanTo = addDays(to, MAX_MOVE_DAYS);
+  const exceptions = await CollectionException.find({ tenant, date: { $gte: scanFrom, $lte: scanTo } });
+
+  const pickups = [];
+  for (const schedule of schedules) {
+    for (const day of occurrencesOf(schedule, scanFrom, scanTo)) {
+      const exception = exceptionFor(exceptions, schedule, day);
+      const pickup = {
+        schedule: schedule._id,
+        zone: schedule.zone,
+        stream: schedule.stream,
+        date: day,
+        time: schedule.time,
+        status: 'scheduled',
+        notes: schedule.notes
+      };
+
+      if (exception?.action === 'cancel') {
+        Object.assign(pickup, { status: 'cancelled', reason: exception.name });
+      } else if (exception?.action === 'move') {
+        Object.assign(pickup, {
+          status: 'moved',
+          originalDate: day,
+          date: exception.movedTo,
+          time: exception.time || schedule.time,
+          reason: exception.name
+        });
+      }
+
+      if (pickup.date >= from && pickup.date <= to) pickups.push(pickup);
+    }
+  }
+
+  return pickups.sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time));
+};
+
+/**
+ * Upcoming pickups in the given zones.
+ */
+export const upcomingPickups = async ({ tenant, zones, from, days }) => {
+  if (zones.length === 0) return [];
+  const schedules = await CollectionSchedule.find({ tenant, zone: { $in: zones }, isActive: true })
+    .populate('zone', 'name code kind');
+  return pickupsFor(schedules, { tenant, from, days });
+};
+
+/**
+ * First pickup of each stream that actually takes place.
+ */
+export const nextPickups = (pickups) => {
+  const next = new Map();
+  for (const pickup of pickups) {
+    if (pickup.status !== 'cancelled' && !next.has(pickup.stream)) next.set(pickup.stream, pickup);
+  }
+  return [...next.values()];
+};
@@ -0,0 +1,292 @@
+/* ============================================================================
+   Notification delivery
+   ----------------------------------------------------------------------------
+   Every notification (services/notifications.js) is also offered to the
+   channels its recipient turned on in `preferences.notifications`: email,
+   SMS and web push. For each one a Delivery is queued with the message
+   rendered from services/deliveryTemplates.js, and a background worker
+   hands it to the channel's adapter (services/deliveryChannels.js).
+
+     - channels without an address (no phone number, no subscribed browser)
+       and channels switched off on the server are left out
+     - during the user's quiet hours (`preferences.quietHours`, local time of
+       their municipality) messages wait until the quiet hours end
+     - failed sends are retried with growing pauses; errors the provider
+       calls permanent (bad address, unknown number) are not
+     - preferences are checked again right before sending
+
+   Messages are claimed one at a time with an atomic update, so several
+   servers can work off the same queue. A message stuck in `sending` (the
+   server died mid-send) is taken over after a few minutes.
+
+   Configuration (environment):
+     - DELIVERY_INTERVAL_SECONDS : seconds between queue checks (30); 0
+                                   leaves the queue to other servers
+     - DELIVERY_MAX_ATTEMPTS     : sends tried before giving up (5)
+     - APP_URL                   : frontend address used in links (first
+                                   allowed CORS origin)
+============================================================================ */
+
+import Delivery, { DELIVERY_CHANNELS } from '../models/Delivery.js';
+import User from '../models/User.js';
+import Tenant from '../models/Tenant.js';
+import { allowedOrigins } from '../config/cors.js';
+import { getChannel } from './deliveryChannels.js';
+import { renderDelivery } from './deliveryTemplates.js';
+import { localClock, zonedTime, addDays } from './collectionSchedule.js';
+
+// A message in `sending` for longer than this was abandoned
+const STALE_LOCK_MS = 5 * 60 * 1000;
+
+// First retry after a minute, then 4, 16, 64, ... minutes
+const RETRY_BASE_SECONDS = 60;
+const RETRY_FACTOR = 4;
+
+// Messages sent per run of the worker
+const BATCH_SIZE = 100;
+
+export const getDeliverySettings = () => ({
+  intervalSeconds: parseInt(process.env.DELIVERY_INTERVAL_SECONDS ?? '30') || 0,
+  maxAttempts: parseInt(process.env.DELIVERY_MAX_ATTEMPTS) || 5,
+  appUrl: (process.env.APP_URL || allowedOrigins[0]).replace(/\/$/, '')
+});
+
+const RECIPIENT_FIELDS = 'tenant name email phone preferences isActive +pushSubscriptions';
+
+const idOf = (value) => (value?._id || value)?.toString();
+
+const minutesOf = (time) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * When quiet hours let a message out that is ready at `now`: `now` itself,
+ * or the end of the quiet hours the user is in.
+ */
+export const quietHoursEnd = (quietHours, timeZone, now = new Date()) => {
+  if (!quietHours?.start || !quietHours?.end || quietHours.start === quietHours.end) return now;
+
+  const clock = localClock(now, timeZone);
+  const current = clock.hour * 60 + clock.minute;
+  const start = minutesOf(quietHours.start);
+  const end = minutesOf(quietHours.end);
+
+  // A window like 22:00-07:00 runs past midnight
+  const quiet = start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+  if (!quiet) return now;
+
+  const day = start > end && current >= start ? addDays(clock.day, 1) : clock.day;
+  return zonedTime(day, quietHours.end, timeZone);
+};
+
+// The address a channel sends to, or null when the user has none
+const addressFor = (channel, user) => {
+  if (channel === 'email') return user.email || null;
+  if (channel === 'sms') return user.phone || null;
+  return user.pushSubscriptions?.length > 0 ? 'browser' : null;
+};
+
+const wants = (channel, user) => user.isActive !== false && user.preferences?.notifications?.[channel] === true;
+
+/**
+ * Queue the email, SMS and push messages for freshly created notifications.
+ * Never throws; the notifications themselves already exist.
+ */
+export const queueDeliveries = async (notifications) => {
+  try {
+    if (notifications.length === 0) return [];
+
+    const channels = DELIVERY_CHANNELS.filter(channel => {
+      try {
+        return getChannel(channel) !== null;
+      } catch (error) {
+        console.error(`Delivery channel ${channel} error:`, error.message);
+        return false;
+      }
+    });
+    if (channels.length === 0) return [];
+
+    const users = await User.find({ _id: { $in: [...new Set(notifications.map(item => idOf(item.user)))] } })
+      .select(RECIPIENT_FIELDS);
+    const tenants = await Tenant.find({ _id: { $in: [...new Set(users.map(user => idOf(user.tenant)))] } })
+      .select('name timezone');
+    const usersById = new Map(users.map(user => [idOf(user), user]));
+    const tenantsById = new Map(tenants.map(tenant => [idOf(tenant), tenant]));
+
+    const { appUrl } = getDeliverySettings();
+    const deliveries = [];
+    for (const notification of notifications) {
+      const user = usersById.get(idOf(notification.user));
+      if (!user) continue;
+      const tenant = tenantsById.get(idOf(user.tenant));
+      const notBefore = quietHoursEnd(user.preferences?.quietHours, tenant?.timezone || 'UTC');
+      const values = {
+        name: user.name,
+        municipality: tenant?.name || 'Smart Waste',
+        url: `${appUrl}${notification.link || '/notifications'}`,
+        settingsUrl: `${appUrl}/profile`
+      };
+
+      for (const channel of channels) {
+        const to = addressFor(channel, user);
+        if (!wants(channel, user) || !to) continue;
+        deliveries.push({
+          tenant: notification.tenant,
+          user: user._id,
+          notification: notification._id,
+          channel,
+          to: channel === 'push' ? undefined : to,
+          content: renderDelivery(channel, notification, values),
+          notBefore
+        });
+      }
+    }
+    if (deliveries.length === 0) return [];
+
+    const queued = await Delivery.insertMany(deliveries);
+    // Send what is due right away instead of waiting for the next check
+    if (getDeliverySettings().intervalSeconds && queued.some(delivery => delivery.notBefore <= new Date())) {
+      kickWorker();
+    }
+    return queued;
+  } catch (error) {
+    console.error('Queue deliveries error:', error);
+    return [];
+  }
+};
+
+// Take the next due message, or one abandoned mid-send
+const claimNext = (now) => Delivery.findOneAndUpdate(
+  {
+    $or: [
+      { status: 'pending', notBefore: { $lte: now } },
+      { status: 'sending', lockedAt: { $lt: new Date(now.getTime() - STALE_LOCK_MS) } }
+    ]
+  },
+  { $set: { status: 'sending', lockedAt: now }, $inc: { attempts: 1 } },
+  { sort: { notBefore: 1 }, new: true }
+);
+
+const retryDelay = (attempts) => RETRY_BASE_SECONDS * 1000 * RETRY_FACTOR ** (attempts - 1);
+
+// Forget browsers whose push subscription has ended
+const pruneSubscriptions = async (user, endpoints = []) => {
+  if (!endpoints || endpoints.length === 0) return;
+  await User.updateOne(
+    { _id: user._id },
+    { $pull: { pushSubscriptions: { endpoint: { $in: endpoints } } } }
+  );
+};
+
+/**
+ * Send one claimed message and record the outcome.
+ */
+export const sendDelivery = async (delivery) => {
+  const finish = (update) => Delivery.updateOne({ _id: delivery._id }, { $set: { lockedAt: null, ...update } });
+
+  const user = await User.findById(delivery.user).select(RECIPIENT_FIELDS);
+  if (!user || !wants(delivery.channel, user)) {
+    return finish({ status: 'cancelled', lastError: 'Channel turned off by the user' });
+  }
+
+  // Quiet hours may have been set since the message was queued
+  const tenant = await Tenant.findById(user.tenant).select('timezone');
+  const now = new Date();
+  const notBefore = quietHoursEnd(user.preferences?.quietHours, tenant?.timezone || 'UTC', now);
+  if (notBefore > now) {
+    return Delivery.updateOne(
+      { _id: delivery._id },
+      { $set: { status: 'pending', lockedAt: null, notBefore }, $inc: { attempts: -1 } }
+    );
+  }
+
+  const address = addressFor(delivery.channel, user);
+  if (!address) {
+    return finish({ status: 'cancelled', lastError: `No ${delivery.channel} address left` });
+  }
+  const recipient = {
+    to: delivery.channel === 'push' ? null : address,
+    pushSubscriptions: user.pushSubscriptions || []
+  };
+
+  try {
+    const channel = getChannel(delivery.channel);
+    if (!channel) {
+      return finish({ status: 'cancelled', lastError: `${delivery.channel} delivery is off` });
+    }
+
+    const result = await channel.send(delivery.content, recipient);
+    await pruneSubscriptions(user, result.expired);
+    return finish({ status: 'sent', sentAt: new Date(), lastError: null });
+  } catch (error) {
+    await pruneSubscriptions(user, error.expired);
+    const { maxAttempts } = getDeliverySettings();
+    if (error.permanent || delivery.attempts >= maxAttempts) {
+      return finish({ status: 'failed', lastError: error.message });
+    }
+    return finish({
+      status: 'pending',
+      notBefore: new Date(Date.now() + retryDelay(delivery.attempts)),
+      lastError: error.message
+    });
+  }
+};
+
+/**
+ * Work off due messages. Returns how many were handled.
+ */
+export const processDeliveries = async ({ limit = BATCH_SIZE } = {}) => {
+  let handled = 0;
+  while (handled < limit) {
+    const delivery = await claimNext(new Date());
+    if (!delivery) break;
+    await sendDelivery(delivery);
+    handled++;
+  }
+  return handled;
+};
+
+// One run at a time per server; a kick during a run asks for another one
+let running = false;
+let again = false;
+
+const kickWorker = () => {
+  if (running) {
+    again = true;
+    return;
+  }
+  running = true;
+  processDeliveries()
+    .catch(error => console.error('Delivery worker error:', error))
+    .finally(() => {
+      running = false;
+      if (again) {
+        again = false;
+        kickWorker();
+      }
+    });
+};
+
+/**
+ * Check the delivery queue periodically while the server runs.
+ */
+export const startDeliveryWorker = () => {
+  const { intervalSeconds } = getDeliverySettings();
+  if (!intervalSeconds) return null;
+
+  for (const channel of DELIVERY_CHANNELS) {
+    try {
+      const adapter = getChannel(channel);
+      console.log(`📨 ${channel} delivery: ${adapter ? adapter.name : 'off'}`);
+    } catch (error) {
+      console.error(`Delivery channel ${channel} error:`, error.message);
+    }
+  }
+
+  const timer = setInterval(kickWorker, intervalSeconds * 1000);
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,296 @@
+/* ============================================================================
+   Delivery channels
+   ----------------------------------------------------------------------------
+   Adapters that hand a rendered message to the outside world. Each channel
+   of models/Delivery.js (email, sms, push) is served by one of them:
+
+     - smtp    : email through an SMTP relay (nodemailer); credentials are
+                 only sent over TLS
+     - twilio  : SMS through the Twilio REST API
+     - webpush : browser notifications signed with the server's VAPID key
+                 (web-push); only sent to the push services of the major
+                 browsers (PUSH_SERVICE_HOSTS)
+     - outbox  : nothing leaves the server; messages are appended to
+                 <DELIVERY_OUTBOX_DIR>/<channel>.jsonl. For development and
+                 tests.
+     - off     : the channel is not used
+
+   Channels without a setting use the outbox outside production and are
+   off in production (NODE_ENV=production).
+
+   Every adapter implements the same small interface:
+
+     send(content, recipient)  deliver `content` ({ subject, text, html, url })
+                               to `recipient` ({ to, pushSubscriptions });
+                               resolves with { reference, expired } where
+                               `expired` lists push endpoints that are gone
+
+   and rejects with a DeliveryError. `permanent` errors are not retried.
+
+   Configuration (environment):
+     - EMAIL_DELIVERY      : smtp | outbox | off (see above)
+     - SMS_DELIVERY        : twilio | outbox | off (see above)
+     - PUSH_DELIVERY       : webpush | outbox | off (see above)
+     - SMTP_HOST, SMTP_PORT (587), SMTP_SECURE (false; true for port 465),
+       SMTP_USER, SMTP_PASS, MAIL_FROM
+     - TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, SMS_FROM
+     - VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT (mailto: or URL)
+     - DELIVERY_OUTBOX_DIR : directory of the outbox adapter (outbox)
+============================================================================ */
+
+import fs from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import webpush from 'web-push';
+
+const TIMEOUT_MS = 30000;
+
+// Browsers drop undelivered push messages after this long
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+// Push services of Chrome, Firefox, Edge and Safari (with their subdomains).
+// The server posts to whatever endpoint a browser hands in, so anything else
+// could point it at internal addresses.
+export const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com',
+  'android.googleapis.com',
+  'push.services.mozilla.com',
+  'notify.windows.com',
+  'push.apple.com'
+];
+
+/**
+ * Whether `endpoint` is an https URL of a known push service.
+ */
+export const isPushServiceEndpoint = (endpoint) => {
+  let url;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' || url.port !== '' || url.username || url.password) return false;
+  return PUSH_SERVICE_HOSTS.some(host => url.hostname === host || url.hostname.endsWith(`.${host}`));
+};
+
+export class DeliveryError extends Error {
+  constructor(message, permanent = false) {
+    super(message);
+    this.name = 'DeliveryError';
+    this.permanent = permanent;
+  }
+}
+
+// Messages must never pile up in files on a production server by accident
+const defaultAdapter = () => (process.env.NODE_ENV === 'production' ? 'off' : 'outbox');
+
+export const getChannelSettings = () => ({
+  email: process.env.EMAIL_DELIVERY || defaultAdapter(),
+  sms: process.env.SMS_DELIVERY || defaultAdapter(),
+  push: process.env.PUSH_DELIVERY || defaultAdapter(),
+  smtp: {
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+    from: process.env.MAIL_FROM
+  },
+  twilio: {
+    accountSid: process.env.TWILIO_ACCOUNT_SID,
+    authToken: process.env.TWILIO_AUTH_TOKEN,
+    from: process.env.SMS_FROM
+  },
+  vapid: {
+    publicKey: process.env.VAPID_PUBLIC_KEY,
+    privateKey: process.env.VAPID_PRIVATE_KEY,
+    subject: process.env.VAPID_SUBJECT
+  },
+  outboxDir: process.env.DELIVERY_OUTBOX_DIR || 'outbox'
+});
+
+const requireSettings = (adapter, values) => {
+  const missing = Object.entries(values).filter(([, value]) => !value).map(([name]) => name);
+  if (missing.length > 0) {
+    throw new Error(`The ${adapter} delivery adapter needs ${missing.join(', ')}`);
+  }
+};
+
+const createSmtpChannel = () => {
+  const { smtp } = getChannelSettings();
+  requireSettings('smtp', { SMTP_HOST: smtp.host, MAIL_FROM: smtp.from });
+
+  const transport = nodemailer.createTransport({
+    host: smtp.host,
+    port: smtp.port,
+    secure: smtp.secure,
+    // Never authenticate on an unencrypted connection: without SMTP_SECURE
+    // the relay has to offer STARTTLS
+    requireTLS: Boolean(smtp.user),
+    auth: smtp.user ? { user: smtp.user, pass: smtp.pass } : undefined,
+    connectionTimeout: TIMEOUT_MS,
+    greetingTimeout: TIMEOUT_MS,
+    socketTimeout: TIMEOUT_MS
+  });
+
+  return {
+    name: 'smtp',
+
+    async send(content, { to }) {
+      try {
+        const info = await transport.sendMail({
+          from: smtp.from,
+          to,
+          subject: content.subject,
+          text: content.text,
+          html: content.html
+        });
+        return { reference: info.messageId };
+      } catch (error) {
+        // 5xx replies (unknown mailbox, rejected sender) will not get better
+        throw new DeliveryError(error.message, error.responseCode >= 500);
+      }
+    }
+  };
+};
+
+const createTwilioChannel = () => {
+  const { twilio } = getChannelSettings();
+  requireSettings('twilio', {
+    TWILIO_ACCOUNT_SID: twilio.accountSid,
+    TWILIO_AUTH_TOKEN: twilio.authToken,
+    SMS_FROM: twilio.from
+  });
+  const url = `https://api.twilio.com/2010-04-01/Accounts/${encodeURIComponent(twilio.accountSid)}/Messages.json`;
+  const authorization = `Basic ${Buffer.from(`${twilio.accountSid}:${twilio.authToken}`).toString('base64')}`;
+
+  return {
+    name: 'twilio',
+
+    async send(content, { to }) {
+      let response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            Authorization: authorization,
+            'Content-Type': 'application/x-www-form-urlencoded'
+          },
+          body: new URLSearchParams({ To: to, From: twilio.from, Body: content.text }),
+          signal: AbortSignal.timeout(TIMEOUT_MS)
+        });
+      } catch (error) {
+        throw new DeliveryError(`SMS provider unreachable: ${error.message}`);
+      }
+
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        // 4xx: bad number, unverified sender, ... (429 is worth another try)
+        const permanent = response.status >= 400 && response.status < 500 && response.status !== 429;
+        throw new DeliveryError(`SMS provider replied ${response.status}: ${body.message || 'unknown error'}`, permanent);
+      }
+      return { reference: body.sid };
+    }
+  };
+};
+
+const createWebPushChannel = () => {
+  const { vapid } = getChannelSettings();
+  requireSettings('webpush', {
+    VAPID_PUBLIC_KEY: vapid.publicKey,
+    VAPID_PRIVATE_KEY: vapid.privateKey,
+    VAPID_SUBJECT: vapid.subject
+  });
+
+  const options = {
+    vapidDetails: vapid,
+    TTL: PUSH_TTL_SECONDS,
+    urgency: 'normal',
+    timeout: TIMEOUT_MS
+  };
+
+  return {
+    name: 'webpush',
+    publicKey: vapid.publicKey,
+
+    async send(content, { pushSubscriptions = [] }) {
+      const payload = JSON.stringify({
+        title: content.subject,
+        body: content.text,
+        url: content.url
+      });
+
+      const expired = [];
+      const failures = [];
+      let delivered = 0;
+      for (const subscription of pushSubscriptions) {
+        // Stored before endpoints were checked; drop it like an expired one
+        if (!isPushServiceEndpoint(subscription.endpoint)) {
+          expired.push(subscription.endpoint);
+          continue;
+        }
+        try {
+          await webpush.sendNotification(subscription, payload, options);
+          delivered++;
+        } catch (error) {
+          // 404/410: the browser unsubscribed or the subscription expired
+          if (error.statusCode === 404 || error.statusCode === 410) expired.push(subscription.endpoint);
+          else failures.push(error);
+        }
+      }
+
+      // Reaching any of the user's browsers is enough. 4xx answers other
+      // than 429 (too many requests) will not get better.
+      const permanent = (failure) => failure.statusCode >= 400 && failure.statusCode < 500 && failure.statusCode !== 429;
+      if (delivered === 0 && failures.length > 0) {
+        const error = new DeliveryError(failures[0].message, failures.every(permanent));
+        error.expired = expired;
+        throw error;
+      }
+      return { reference: `${delivered} browser(s)`, expired };
+    }
+  };
+};
+
+const createOutboxChannel = (channel) => () => {
+  const file = path.resolve(getChannelSettings().outboxDir, `${channel}.jsonl`);
+
+  return {
+    name: 'outbox',
+    // Lets browsers subscribe in development, when keys are configured
+    publicKey: channel === 'push' ? process.env.VAPID_PUBLIC_KEY : undefined,
+
+    async send(content, { to, pushSubscriptions }) {
+      const recipient = channel === 'push' ? `${pushSubscriptions?.length || 0} browser(s)` : to;
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.appendFile(file, `${JSON.stringify({ at: new Date(), channel, to: recipient, ...content })}\n`);
+      return { reference: file };
+    }
+  };
+};
+
+const ADAPTERS = {
+  email: { smtp: createSmtpChannel, outbox: createOutboxChannel('email') },
+  sms: { twilio: createTwilioChannel, outbox: createOutboxChannel('sms') },
+  push: { webpush: createWebPushChannel, outbox: createOutboxChannel('push') }
+};
+
+const instances = new Map();
+
+/**
+ * The adapter configured for a channel, or null when the channel is off.
+ */
+export const getChannel = (channel) => {
+  const name = getChannelSettings()[channel];
+  if (name === 'off') return null;
+
+  const adapters = ADAPTERS[channel] || {};
+  if (!adapters[name]) {
+    throw new Error(`Unknown ${channel} delivery "${name}". Use one of: ${[...Object.keys(adapters), 'off'].join(', ')}`);
+  }
+  const key = `${channel}:${name}`;
+  if (!instances.has(key)) {
+    instances.set(key, adapters[name]());
+  }
+  return instances.get(key);
+};
@@ -0,0 +1,109 @@
+/* ============================================================================
+   Delivery templates
+   ----------------------------------------------------------------------------
+   Turn a notification into the message sent over each channel. Templates
+   use {{name}} placeholders; in HTML the values are escaped. A notification
+   type may override some fields of the default templates, e.g. a shorter
+   SMS for collection reminders.
+
+   Placeholders:
+     - name         : the recipient's name
+     - municipality : name of the user's municipality
+     - title        : notification title
+     - message      : notification text
+     - url          : page of the app the notification links to
+     - settingsUrl  : where to change notification preferences
+============================================================================ */
+
+// SMS are cut to two segments
+const SMS_MAX_LENGTH = 306;
+
+const DEFAULT_TEMPLATES = {
+  email: {
+    subject: '{{title}} | {{municipality}}',
+    text: [
+      'Hello {{name}},',
+      '',
+      '{{message}}',
+      '',
+      'Open: {{url}}',
+      '',
+      '--',
+      '{{municipality}} waste management',
+      'Change which messages you receive: {{settingsUrl}}'
+    ].join('\n'),
+    html: `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,Helvetica,sans-serif;color:#111827">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">
+      <p style="margin:0 0 16px;color:#16a34a;font-weight:bold">{{municipality}}</p>
+      <h1 style="margin:0 0 16px;font-size:20px">{{title}}</h1>
+      <p style="margin:0 0 8px">Hello {{name}},</p>
+      <p style="margin:0 0 24px;line-height:1.5">{{message}}</p>
+      <a href="{{url}}" style="display:inline-block;padding:10px 16px;background:#16a34a;color:#ffffff;border-radius:6px;text-decoration:none">Open</a>
+    </div>
+    <p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#6b7280">
+      You receive this because of your notification settings.
+      <a href="{{settingsUrl}}" style="color:#6b7280">Change them</a>.
+    </p>
+  </body>
+</html>`
+  },
+  sms: {
+    text: '{{municipality}}: {{title}}. {{message}}'
+  },
+  push: {
+    subject: '{{title}}',
+    text: '{{message}}'
+  }
+};
+
+const TYPE_TEMPLATES = {
+  collection_reminder: {
+    email: { subject: 'Collection tomorrow | {{municipality}}' },
+    sms: { text: '{{municipality}}: {{message}}' }
+  },
+  penalty_issued: {
+    sms: { text: '{{municipality}}: {{message}} Details: {{url}}' }
+  },
+  redemption_created: {
+    sms: { text: '{{municipality}}: {{message}}' }
+  }
+};
+
+const escapeHtml = (value) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+/**
+ * Fill the {{placeholders}} of `template`; unknown ones become empty.
+ */
+export const renderTemplate = (template, values, { html = false } = {}) =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) => {
+    const value = values[name] ?? '';
+    return html ? escapeHtml(value) : String(value);
+  });
+
+/**
+ * The content of a delivery over `channel` for a notification.
+ */
+export const renderDelivery = (channel, notification, values) => {
+  const templates = { ...DEFAULT_TEMPLATES[channel], ...TYPE_TEMPLATES[notification.type]?.[channel] };
+  const all = {
+    title: notification.title,
+    message: notification.message || notification.title,
+    ...values
+  };
+
+  const content = { url: all.url };
+  for (const [field, template] of Object.entries(templates)) {
+    content[field] = renderTemplate(template, all, { html: field === 'html' });
+  }
+  if (channel === 'sms' && content.text.length > SMS_MAX_LENGTH) {
+    content.text = `${content.text.slice(0, SMS_MAX_LENGTH - 3)}...`;
+  }
+  return content;
+};
@@ -0,0 +1,289 @@
+/* ============================================================================
+   Auto-dispatch
+   ----------------------------------------------------------------------------
+   Picks the best waste worker for a new report instead of waiting for
+   somebody to claim it. Every active worker of the report's municipality is
+   scored on:
+
+     - distance : last known position (or home address) to the report
+     - workload : open assignments compared to the worker's capacity
+     - skills   : how many of the report's preferred skills the worker has
+
+   Workers are excluded when they lack a required qualification (hazardous
+   and medical waste), are off shift, at capacity, too far away or already
+   declined the report. Depending on the zone settings the winner is either
+   assigned straight away or offered the report first. Each run is stored as
+   a DispatchDecision so admins can see how the choice was made.
+============================================================================ */
+
+import WasteReport from '../models/WasteReport.js';
+import User from '../models/User.js';
+import Tenant from '../models/Tenant.js';
+import ReportEvent from '../models/ReportEvent.js';
+import DispatchSetting from '../models/DispatchSetting.js';
+import DispatchDecision from '../models/DispatchDecision.js';
+import { applyTransition, SYSTEM_ACTOR } from './reportLifecycle.js';
+import { haversineDistance } from './geo.js';
+import { localClock } from './collectionSchedule.js';
+import { notifyReportEvent } from './notifications.js';
+import { publishReportEvent } from './realtime.js';
+import { rolesWith } from './permissions.js';
+
+// Statuses that keep a worker busy
+const OPEN_ASSIGNMENT_STATUSES = ['assigned', 'in_progress'];
+
+// Positions older than this fall back to the worker's address
+const LOCATION_MAX_AGE_MS = (parseInt(process.env.WORKER_LOCATION_MAX_AGE_MINUTES) || 240) * 60 * 1000;
+
+const PREFERRED_SKILLS_BY_WASTE_TYPE = {
+  plastic: ['recycling'],
+  paper: ['recycling'],
+  glass: ['recycling'],
+  metal: ['recycling'],
+  organic: ['organic'],
+  electronic: ['electronic']
+};
+
+/**
+ * Qualifications a worker must have to handle the report at all.
+ */
+export const getRequiredSkills = (report) => {
+  const skills = [];
+  if (report.wasteType === 'hazardous') skills.push('hazardous');
+  if (report.category === 'medical') skills.push('medical');
+  return skills;
+};
+
+/**
+ * Skills that make a worker a better (but not mandatory) fit.
+ */
+export const getPreferredSkills = (report) => {
+  const skills = [...(PREFERRED_SKILLS_BY_WASTE_TYPE[report.wasteType] || [])];
+  if (report.category === 'construction' || ['large', 'extra_large'].includes(report.estimatedQuantity)) {
+    skills.push('bulky');
+  }
+  return skills;
+};
+
+/**
+ * Required qualifications the worker is missing for this report.
+ */
+export const getMissingQualifications = (report, worker) => {
+  const skills = worker.workerProfile?.skills || [];
+  return getRequiredSkills(report).filter(skill => !skills.includes(skill));
+};
+
+const toMinutes = (time) => {
+  const [hours, minutes] = String(time).split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+/**
+ * Whether the worker is on shift at `date`, in the local time of their
+ * municipality. Workers without a configured shift are always considered
+ * available.
+ */
+export const isOnShift = (worker, date = new Date(), timeZone = 'UTC') => {
+  const shift = worker.workerProfile?.shift;
+  if (!shift || !shift.start || !shift.end) return true;
+
+  const clock = localClock(date, timeZone);
+  if (shift.days?.length && !shift.days.includes(clock.weekday)) return false;
+
+  const now = clock.hour * 60 + clock.minute;
+  const start = toMinutes(shift.start);
+  const end = toMinutes(shift.end);
+
+  // Night shifts wrap around midnight
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+};
+
+const getWorkerPosition = (worker, now) => {
+  const lastKnown = worker.workerProfile?.lastKnownLocation;
+  if (lastKnown?.coordinates?.length === 2 && lastKnown.updatedAt &&
+      now - new Date(lastKnown.updatedAt) <= LOCATION_MAX_AGE_MS) {
+    return { coordinates: lastKnown.coordinates, source: 'last_known' };
+  }
+  if (worker.address?.coordinates?.length === 2) {
+    return { coordinates: worker.address.coordinates, source: 'address' };
+  }
+  return { coordinates: null, source: 'unknown' };
+};
+
+const round = (value) => Math.round(value * 1000) / 1000;
+
+/**
+ * Score every active user who may work on reports for the report. Returns
+ * candidates sorted with the best eligible worker first.
+ */
+export const scoreWorkers = async (report, settings, { excludeWorkers = [], now = new Date(), timeZone = 'UTC' } = {}) => {
+  const roles = await rolesWith('report.update', report.tenant);
+  const workers = await User.find({ tenant: report.tenant, role: { $in: roles }, isActive: true })
+    .select('name address workerProfile');
+
+  const workload = await WasteReport.aggregate([
+    { $match: { tenant: report.tenant, status: { $in: OPEN_ASSIGNMENT_STATUSES }, assignedWorker: { $ne: null } } },
+    { $group: { _id: '$assignedWorker', count: { $sum: 1 } } }
+  ]);
+  const openByWorker = new Map(workload.map(entry => [entry._id.toString(), entry.count]));
+
+  const excluded = new Set(excludeWorkers.map(id => id.toString()));
+  const requiredSkills = getRequiredSkills(report);
+  const preferredSkills = getPreferredSkills(report);
+  const weights = settings.weights || {};
+  const weightTotal = (weights.distance || 0) + (weights.workload || 0) + (weights.skills || 0) || 1;
+
+  const candidates = workers.map((worker) => {
+    const excludedReasons = [];
+    const skills = worker.workerProfile?.skills || [];
+    const capacity = worker.workerProfile?.maxOpenAssignments || 8;
+    const openAssignments = openByWorker.get(worker._id.toString()) || 0;
+    const onShift = isOnShift(worker, now, timeZone);
+    const position = getWorkerPosition(worker, now);
+    const distanceMeters = position.coordinates
+      ? Math.round(haversineDistance(position.coordinates, report.location.coordinates))
+      : null;
+
+    if (excluded.has(worker._id.toString())) excludedReasons.push('Declined this report');
+    const missing = requiredSkills.filter(skill => !skills.includes(skill));
+    if (missing.length > 0) excludedReasons.push(`Not qualified for ${missing.join(', ')} waste`);
+    if (!onShift) excludedReasons.push('Off shift');
+    if (openAssignments >= capacity) excludedReasons.push(`At capacity (${openAssignments}/${capacity} open)`);
+    if (distanceMeters === null) excludedReasons.push('No known location');
+    else if (distanceMeters > settings.maxDistanceMeters) {
+      excludedReasons.push(`Too far away (${(distanceMeters / 1000).toFixed(1)} km)`);
+    }
+
+    const matchedSkills = preferredSkills.filter(skill => skills.includes(skill));
+    const scores = {
+      distance: distanceMeters === null ? 0 : round(Math.max(0, 1 - distanceMeters / settings.maxDistanceMeters)),
+      workload: round(Math.max(0, 1 - openAssignments / capacity)),
+      skills: preferredSkills.length ? round(matchedSkills.length / preferredSkills.length) : 1
+    };
+    scores.total = round(
+      ((weights.distance || 0) * scores.distance +
+       (weights.workload || 0) * scores.workload +
+       (weights.skills || 0) * scores.skills) / weightTotal
+    );
+
+    return {
+      worker: worker._id,
+      name: worker.name,
+      eligible: excludedReasons.length === 0,
+      excludedReasons,
+      distanceMeters,
+      locationSource: position.source,
+      openAssignments,
+      onShift,
+      matchedSkills,
+      scores
+    };
+  });
+
+  return candidates.sort((a, b) =>
+    (b.eligible - a.eligible) ||
+    (b.scores.total - a.scores.total) ||
+    ((a.distanceMeters ?? Infinity) - (b.distanceMeters ?? Infinity))
+  );
+};
+
+const describeOutcome = (outcome, winner, candidates, zone) => {
+  switch (outcome) {
+    case 'disabled':
+      return zone
+        ? `Auto-dispatch is switched off for zone "${zone}"`
+        : 'Auto-dispatch is switched off';
+    case 'no_candidate':
+      return `None of the ${candidates.length} worker(s) could take the report`;
+    default:
+      return `${winner.name} scored ${winner.scores.total} ` +
+        `(distance ${winner.scores.distance}, workload ${winner.scores.workload}, skills ${winner.scores.skills}) ` +
+        `out of ${candidates.filter(c => c.eligible).length} eligible worker(s)`;
+  }
+};
+
+/**
+ * Run auto-dispatch for a report. Assigns or offers the report according to
+ * the zone settings and stores the decision. Returns the DispatchDecision.
+ *
+ * Options:
+ *   - trigger     : 'report_created' | 'offer_declined' | 'manual'
+ *   - triggeredBy : user who started a manual run
+ *   - force       : run even when the zone has auto-dispatch switched off
+ */
+export const dispatchReport = async (report, { trigger = 'report_created', triggeredBy, force = false } = {}) => {
+  const settings = await DispatchSetting.forZones(report.zones || [], report.tenant);
+  const zone = settings.zone?.name;
+
+  const decision = new DispatchDecision({
+    tenant: report.tenant,
+    report: report._id,
+    zone: settings.zone?._id || null,
+    trigger,
+    mode: settings.mode,
+    requiredSkills: getRequiredSkills(report),
+    preferredSkills: getPreferredSkills(report),
+    settings: {
+      maxDistanceMeters: settings.maxDistanceMeters,
+      weights: settings.weights
+    },
+    triggeredBy: triggeredBy?._id
+  });
+
+  if (!settings.enabled && !force) {
+    decision.outcome = 'disabled';
+    decision.summary = describeOutcome('disabled', null, [], zone);
+    return decision.save();
+  }
+
+  const tenant = await Tenant.findById(report.tenant).select('timezone');
+  const candidates = await scoreWorkers(report, settings, {
+    excludeWorkers: report.dispatchOffer?.declinedBy || [],
+    timeZone: tenant?.timezone || 'UTC'
+  });
+  const winner = candidates.find(candidate => candidate.eligible);
+
+  decision.candidates = candidates;
+  decision.outcome = !winner ? 'no_candidate' : settings.mode === 'assign' ? 'assigned' : 'offered';
+  decision.selectedWorker = winner?.worker;
+  decision.summary = describeOutcome(decision.outcome, winner, candidates, zone);
+  await decision.save();
+
+  // Workers and admins may have claimed or changed the report meanwhile;
+  // their change wins and this decision is left unapplied
+  const expected = { status: report.status, assignedWorker: report.assignedWorker };
+
+  if (decision.outcome === 'assigned') {
+    report.assignedWorker = winner.worker;
+    report.set('dispatchOffer.worker', null);
+    const { from, to } = applyTransition(report, 'assigned', SYSTEM_ACTOR);
+    const saved = await report.saveIfUnchanged(expected);
+    if (!saved) return decision;
+    const event = await ReportEvent.record(saved, 'assigned', SYSTEM_ACTOR, {
+      fromStatus: from,
+      toStatus: to,
+      notes: decision.summary,
+      meta: { worker: winner.worker, workerName: winner.name, auto: true, decision: decision._id }
+    });
+    await notifyReportEvent(saved, event);
+    publishReportEvent(saved, event);
+  } else if (decision.outcome === 'offered') {
+    report.set('dispatchOffer.worker', winner.worker);
+    report.set('dispatchOffer.offeredAt', new Date());
+    report.set('dispatchOffer.decision', decision._id);
+    const saved = await report.saveIfUnchanged(expected);
+    if (!saved) return decision;
+    const event = await ReportEvent.record(saved, 'dispatch_offered', SYSTEM_ACTOR, {
+      notes: decision.summary,
+      meta: { worker: winner.worker, workerName: winner.name, decision: decision._id }
+    });
+    await notifyReportEvent(saved, event);
+    publishReportEvent(saved, event);
+  } else if (report.dispatchOffer?.worker) {
+    // Nobody left to offer it to: back to the open pool
+    report.set('dispatchOffer.worker', null);
+    await report.saveIfUnchanged(expected);
+  }
+
+  return decision;
+};
@@ -0,0 +1,78 @@
+/* ============================================================================
+   Duplicate report detection
+   ----------------------------------------------------------------------------
+   Several citizens often report the same pile of waste. Before a new report
+   is stored we look for open reports close by that were filed recently, so
+   the reporter can support the existing report instead of opening a new one.
+
+   Configuration (environment):
+     - DUPLICATE_RADIUS_METERS : search radius around the new report (100)
+     - DUPLICATE_WINDOW_HOURS  : how far back reports are considered (72)
+============================================================================ */
+
+import WasteReport from '../models/WasteReport.js';
+import { haversineDistance } from './geo.js';
+
+// Reports that are still being worked on can absorb duplicates
+export const OPEN_STATUSES = ['reported', 'acknowledged', 'assigned', 'in_progress'];
+
+const MAX_CANDIDATES = 5;
+
+export const getDuplicateSettings = () => ({
+  radiusMeters: parseInt(process.env.DUPLICATE_RADIUS_METERS) || 100,
+  windowHours: parseInt(process.env.DUPLICATE_WINDOW_HOURS) || 72
+});
+
+/**
+ * Find open reports of the municipality near `coordinates` that may describe
+ * the same issue. Candidates of the same waste type come first, then by
+ * distance.
+ */
+export const findDuplicateCandidates = async ({ tenant, coordinates, wasteType, excludeId } = {}) => {
+  if (!Array.isArray(coordinates) || coordinates.length !== 2) return [];
+
+  // [0, 0] is what the report form sends when no location was captured
+  if (coordinates[0] === 0 && coordinates[1] === 0) return [];
+
+  const { radiusMeters, windowHours } = getDuplicateSettings();
+
+  const filter = {
+    tenant,
+    location: {
+      $near: {
+        $geometry: { type: 'Point', coordinates },
+        $maxDistance: radiusMeters
+      }
+    },
+    status: { $in: OPEN_STATUSES },
+    duplicateOf: null,
+    createdAt: { $gte: new Date(Date.now() - windowHours * 60 * 60 * 1000) }
+  };
+
+  if (excludeId) filter._id = { $ne: excludeId };
+
+  const reports = await WasteReport.find(filter)
+    .populate('reporter', 'name')
+    .select('wasteType category severity description status location images.filename images.originalName supporters assignedWorker createdAt reporter')
+    .limit(MAX_CANDIDATES * 2);
+
+  return reports
+    .map((report) => ({
+      _id: report._id,
+      wasteType: report.wasteType,
+      category: report.category,
+      severity: report.severity,
+      description: report.description,
+      status: report.status,
+      location: report.location,
+      images: report.images.map(({ filename, originalName }) => ({ filename, originalName })),
+      supporterCount: report.supporters?.length || 0,
+      reporter: report.reporter ? { _id: report.reporter._id, name: report.reporter.name } : null,
+      assignedWorker: report.assignedWorker || null,
+      createdAt: report.createdAt,
+      sameWasteType: !wasteType || report.wasteType === wasteType,
+      distanceMeters: Math.round(haversineDistance(coordinates, report.location.coordinates))
+    }))
+    .sort((a, b) => (b.sameWasteType - a.sameWasteType) || (a.distanceMeters - b.distanceMeters))
+    .slice(0, MAX_CANDIDATES);
+};
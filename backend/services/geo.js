@@ -0,0 +1,22 @@
+/* ============================================================================
+   Geo helpers
+   ----------------------------------------------------------------------------
+   Small helpers for working with GeoJSON [longitude, latitude] pairs.
+============================================================================ */
+
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance in meters between two [longitude, latitude] points.
+ */
+export const haversineDistance = ([lon1, lat1], [lon2, lat2]) => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
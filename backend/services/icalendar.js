@@ -0,0 +1,270 @@
+/* ============================================================================
+   iCalendar (RFC 5545)
+   ----------------------------------------------------------------------------
+   Collection days as calendar files phones and mail clients understand:
+
+     - the household feed has one recurring event per schedule of the
+       user's zones; cancelled pickups are EXDATEs and moved pickups are
+       overrides (same UID with a RECURRENCE-ID)
+     - a single event for the collection scheduled on one report
+
+   Times are written in the municipality's time zone together with a
+   VTIMEZONE describing it, so recurring pickups stay at 08:00 across
+   daylight saving changes.
+============================================================================ */
+
+import {
+  occurrencesOf, exceptionFor, addDays, zoneOffset, zonedTime, localClock
+} from './collectionSchedule.js';
+
+const PRODUCT_ID = '-//Smart Waste Management//Collection Calendar//EN';
+const UID_DOMAIN = 'smart-waste';
+
+// How long a pickup takes in a calendar
+const PICKUP_DURATION = 'PT1H';
+
+// How often subscribed calendars should fetch the feed again
+const REFRESH_INTERVAL = 'PT12H';
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const STREAM_TITLES = {
+  general: 'General waste',
+  recyclables: 'Recyclables',
+  organic: 'Organic waste',
+  hazardous: 'Hazardous waste',
+  electronic: 'E-waste',
+  bulky: 'Bulky items'
+};
+
+const pad = (value) => String(value).padStart(2, '0');
+
+// TEXT values escape backslashes, semicolons, commas and newlines
+const escapeText = (value) => String(value ?? '')
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space
+const foldLine = (line) => {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+
+  const parts = [];
+  let start = 0;
+  while (start < bytes.length) {
+    let end = Math.min(start + (start === 0 ? 75 : 74), bytes.length);
+    // Never split a multi-byte character
+    while (end < bytes.length && (bytes[end] & 0xc0) === 0x80) end--;
+    parts.push(bytes.subarray(start, end).toString('utf8'));
+    start = end;
+  }
+  return parts.join('\r\n ');
+};
+
+const serialize = (lines) => `${lines.filter(Boolean).map(foldLine).join('\r\n')}\r\n`;
+
+// 20240531T080000Z
+const formatUtc = (date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// 20240531T080000, read in the TZID it is written with
+const formatLocal = (day, time) => `${day.replace(/-/g, '')}T${time.replace(':', '')}00`;
+
+// +0530
+const formatOffset = (minutes) =>
+  `${minutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+
+// Instant in [from, to) where the zone's offset changes, to the minute
+const findTransition = (timeZone, from, to) => {
+  const before = zoneOffset(new Date(from), timeZone);
+  let low = from;
+  let high = to;
+  while (high - low > 60000) {
+    const middle = low + Math.floor((high - low) / 2);
+    if (zoneOffset(new Date(middle), timeZone) === before) low = middle;
+    else high = middle;
+  }
+  // Changes happen on the minute
+  return Math.floor(high / 60000) * 60000;
+};
+
+// STANDARD or DAYLIGHT block for a transition, repeating yearly on the
+// same n-th (or last) weekday of the month
+const observance = (kind, timeZone, instant) => {
+  const from = zoneOffset(new Date(instant - 60000), timeZone);
+  const to = zoneOffset(new Date(instant), timeZone);
+  // DTSTART is the wall clock time the change happens at, before it
+  const wall = new Date(instant + from * 60000);
+  const day = wall.getUTCDate();
+  const daysInMonth = new Date(Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth() + 1, 0)).getUTCDate();
+  const week = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+
+  return [
+    `BEGIN:${kind}`,
+    `DTSTART:${formatUtc(wall).slice(0, -1)}`,
+    `RRULE:FREQ=YEARLY;BYMONTH=${wall.getUTCMonth() + 1};BYDAY=${week}${WEEKDAY_CODES[wall.getUTCDay()]}`,
+    `TZOFFSETFROM:${formatOffset(from)}`,
+    `TZOFFSETTO:${formatOffset(to)}`,
+    `END:${kind}`
+  ];
+};
+
+/**
+ * VTIMEZONE for a time zone, with its daylight saving rules as they are in
+ * `year`.
+ */
+export const timezoneComponent = (timeZone, year = new Date().getUTCFullYear()) => {
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  const january = Date.UTC(year, 0, 1);
+  const july = Date.UTC(year, 6, 1);
+  const nextJanuary = Date.UTC(year + 1, 0, 1);
+
+  if (zoneOffset(new Date(january), timeZone) === zoneOffset(new Date(july), timeZone)) {
+    const offset = formatOffset(zoneOffset(new Date(january), timeZone));
+    lines.push(
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      'END:STANDARD'
+    );
+  } else {
+    const transitions = [findTransition(timeZone, january, july), findTransition(timeZone, july, nextJanuary)];
+    for (const instant of transitions) {
+      const gains = zoneOffset(new Date(instant), timeZone) > zoneOffset(new Date(instant - 60000), timeZone);
+      lines.push(...observance(gains ? 'DAYLIGHT' : 'STANDARD', timeZone, instant));
+    }
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+};
+
+const calendar = ({ name, timeZone, refresh = false }, events) => serialize([
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  `PRODID:${PRODUCT_ID}`,
+  'CALSCALE:GREGORIAN',
+  'METHOD:PUBLISH',
+  `X-WR-CALNAME:${escapeText(name)}`,
+  `X-WR-TIMEZONE:${timeZone}`,
+  refresh && `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+  refresh && `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+  ...timezoneComponent(timeZone),
+  ...events.flat(),
+  'END:VCALENDAR'
+]);
+
+const streamTitle = (stream) => STREAM_TITLES[stream] || stream;
+
+// Recurring event of one schedule, followed by its moved pickups
+const scheduleEvents = (schedule, exceptions, { timeZone, stamp }) => {
+  const [first] = occurrencesOf(schedule, schedule.startsOn, addDays(schedule.startsOn, 7 * schedule.everyWeeks));
+  if (!first) return [];
+
+  const uid = `schedule-${schedule._id}@${UID_DOMAIN}`;
+  const title = `${streamTitle(schedule.stream)} collection`;
+  const location = schedule.zone?.name;
+
+  // Days this schedule has an exception for, where it would collect
+  const changed = [...new Set(exceptions.map(exception => exception.date))]
+    .filter(day => occurrencesOf(schedule, day, day).length > 0)
+    .map(day => ({ day, exception: exceptionFor(exceptions, schedule, day) }))
+    .filter(({ exception }) => exception);
+  const cancelled = changed.filter(({ exception }) => exception.action === 'cancel');
+  const moved = changed.filter(({ exception }) => exception.action === 'move');
+
+  const rule = [
+    'FREQ=WEEKLY',
+    `INTERVAL=${schedule.everyWeeks}`,
+    `BYDAY=${[...schedule.days].sort().map(day => WEEKDAY_CODES[day]).join(',')}`,
+    'WKST=SU',
+    // UNTIL is in UTC when DTSTART has a time zone
+    schedule.endsOn && `UNTIL=${formatUtc(zonedTime(schedule.endsOn, '23:59', timeZone))}`
+  ].filter(Boolean).join(';');
+
+  const events = [[
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;TZID=${timeZone}:${formatLocal(first, schedule.time)}`,
+    `DURATION:${PICKUP_DURATION}`,
+    `RRULE:${rule}`,
+    cancelled.length > 0 &&
+      `EXDATE;TZID=${timeZone}:${cancelled.map(({ day }) => formatLocal(day, schedule.time)).join(',')}`,
+    `SUMMARY:${escapeText(title)}`,
+    schedule.notes && `DESCRIPTION:${escapeText(schedule.notes)}`,
+    location && `LOCATION:${escapeText(location)}`,
+    `CATEGORIES:${schedule.stream.toUpperCase()}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT'
+  ]];
+
+  for (const { day, exception } of moved) {
+    events.push([
+      'BEGIN:VEVENT',
+      `UID:${uid}`,
+      `DTSTAMP:${stamp}`,
+      `RECURRENCE-ID;TZID=${timeZone}:${formatLocal(day, schedule.time)}`,
+      `DTSTART;TZID=${timeZone}:${formatLocal(exception.movedTo, exception.time || schedule.time)}`,
+      `DURATION:${PICKUP_DURATION}`,
+      `SUMMARY:${escapeText(`${title} (moved)`)}`,
+      `DESCRIPTION:${escapeText(`Moved from ${day}: ${exception.name}`)}`,
+      location && `LOCATION:${escapeText(location)}`,
+      `CATEGORIES:${schedule.stream.toUpperCase()}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    ]);
+  }
+
+  return events;
+};
+
+/**
+ * Feed of a household's collection days: every schedule with its
+ * holidays and reschedules.
+ */
+export const scheduleCalendar = ({ name, timeZone, schedules, exceptions, now = new Date() }) => {
+  const stamp = formatUtc(now);
+  return calendar(
+    { name, timeZone, refresh: true },
+    schedules.flatMap(schedule => scheduleEvents(schedule, exceptions, { timeZone, stamp }))
+  );
+};
+
+/**
+ * Single event for the collection scheduled on a report; all day when the
+ * report has no time slot.
+ */
+export const reportCollectionCalendar = ({ name, timeZone, report, now = new Date() }) => {
+  const { date, timeSlot } = report.scheduledCollection;
+  const day = localClock(date, timeZone).day;
+  const place = report.location?.address
+    ? [report.location.address.street, report.location.address.city].filter(Boolean).join(', ')
+    : report.location?.description;
+
+  let when;
+  if (timeSlot?.start) {
+    when = [`DTSTART;TZID=${timeZone}:${formatLocal(day, timeSlot.start)}`];
+    when.push(timeSlot.end && timeSlot.end > timeSlot.start
+      ? `DTEND;TZID=${timeZone}:${formatLocal(day, timeSlot.end)}`
+      : `DURATION:${PICKUP_DURATION}`);
+  } else {
+    when = [
+      `DTSTART;VALUE=DATE:${day.replace(/-/g, '')}`,
+      `DTEND;VALUE=DATE:${addDays(day, 1).replace(/-/g, '')}`
+    ];
+  }
+
+  return calendar({ name, timeZone }, [[
+    'BEGIN:VEVENT',
+    `UID:report-${report._id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    ...when,
+    `SUMMARY:${escapeText(`Collection of your ${report.wasteType} waste report`)}`,
+    report.description && `DESCRIPTION:${escapeText(report.description)}`,
+    place && `LOCATION:${escapeText(place)}`,
+    'END:VEVENT'
+  ]]);
+};
@@ -0,0 +1,336 @@
+/* ============================================================================
+   Image processing
+   ----------------------------------------------------------------------------
+   Every uploaded report photo goes through this step before it is stored:
+
+     - EXIF GPS position and capture time are read and compared with the
+       report, so staff can see when a photo was not taken at the site or is
+       much older than the report
+     - the image is re-encoded without metadata (EXIF, XMP, ...) so the
+       camera's position and device details are never served back; the
+       EXIF orientation is applied to the pixels first
+     - thumbnail and medium renditions are generated for list views
+     - a perceptual hash (dHash) is computed so the same photo reused for
+       another report can be flagged
+
+   Configuration (environment):
+     - EXIF_MAX_DISTANCE_METERS : photo position further than this from the
+                                  report location is flagged (500)
+     - EXIF_MAX_AGE_HOURS       : photo taken longer than this before the
+                                  report is flagged (72)
+     - IMAGE_REUSE_MAX_DISTANCE : max. differing hash bits for two photos to
+                                  count as the same picture (3)
+============================================================================ */
+
+import path from 'path';
+import sharp from 'sharp';
+import exifr from 'exifr';
+import WasteReport from '../models/WasteReport.js';
+import { haversineDistance } from './geo.js';
+import { storeImage, discardImages } from './imageStorage.js';
+
+// Longest edge in pixels; images are never enlarged
+export const RENDITIONS = {
+  thumb: 200,
+  medium: 800
+};
+
+const RENDITION_QUALITY = 80;
+
+// The 64-bit hash is split into this many bands for lookups; see findReusedImage
+const HASH_BANDS = 4;
+
+const IMAGE_ARRAYS = ['images', 'actualCollection.beforeImages', 'actualCollection.afterImages'];
+
+// Thrown when an upload claims to be an image but cannot be decoded
+export class InvalidImageError extends Error {
+  constructor(originalName) {
+    super(`"${originalName}" is not a readable image`);
+    this.name = 'InvalidImageError';
+    this.statusCode = 400;
+  }
+}
+
+export const getImageCheckSettings = () => ({
+  maxDistanceMeters: parseInt(process.env.EXIF_MAX_DISTANCE_METERS) || 500,
+  maxAgeHours: parseInt(process.env.EXIF_MAX_AGE_HOURS) || 72,
+  // A band lookup only guarantees matches up to HASH_BANDS - 1 differing bits
+  reuseMaxDistance: Math.min(
+    parseInt(process.env.IMAGE_REUSE_MAX_DISTANCE) || 3,
+    HASH_BANDS - 1
+  )
+});
+
+/**
+ * Capture position ([lng, lat]) and time from the photo's EXIF, when present.
+ */
+export const readExif = async (buffer) => {
+  try {
+    const tags = await exifr.parse(buffer, { gps: true, pick: ['DateTimeOriginal', 'CreateDate'] });
+    if (!tags) return null;
+
+    const exif = {};
+    if (Number.isFinite(tags.latitude) && Number.isFinite(tags.longitude)) {
+      exif.coordinates = [tags.longitude, tags.latitude];
+    }
+    const takenAt = tags.DateTimeOriginal || tags.CreateDate;
+    if (takenAt instanceof Date && !Number.isNaN(takenAt.getTime())) {
+      exif.takenAt = takenAt;
+    }
+    return Object.keys(exif).length > 0 ? exif : null;
+  } catch {
+    // Unreadable metadata is not a reason to reject the photo
+    return null;
+  }
+};
+
+/**
+ * Compare EXIF data with where and when the report says the photo was taken.
+ * Only the distance is returned, never the photo's own position.
+ */
+export const checkCapture = (exif, { coordinates, reportedAt = new Date() } = {}) => {
+  if (!exif) return undefined;
+
+  const { maxDistanceMeters, maxAgeHours } = getImageCheckSettings();
+  const result = {};
+
+  // [0, 0] is what the report form sends when no location was captured
+  const hasLocation = Array.isArray(coordinates) && coordinates.length === 2 &&
+    !(coordinates[0] === 0 && coordinates[1] === 0);
+
+  if (exif.coordinates && hasLocation) {
+    result.distanceMeters = Math.round(haversineDistance(exif.coordinates, coordinates));
+    result.locationMismatch = result.distanceMeters > maxDistanceMeters;
+  }
+
+  if (exif.takenAt) {
+    result.takenAt = exif.takenAt;
+    const ageHours = (new Date(reportedAt) - exif.takenAt) / (60 * 60 * 1000);
+    // Clocks drift, so only flag photos clearly from the past or the future
+    result.timeMismatch = ageHours > maxAgeHours || ageHours < -1;
+  }
+
+  return Object.keys(result).length > 0 ? result : undefined;
+};
+
+/**
+ * 64-bit difference hash as 16 hex characters: each bit says whether a pixel
+ * of a 9x8 greyscale version is brighter than its right neighbour.
+ */
+export const perceptualHash = async (input) => {
+  const pixels = await input
+    .clone()
+    .greyscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = 0n;
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const left = pixels[row * 9 + col];
+      const right = pixels[row * 9 + col + 1];
+      hash = (hash << 1n) | (left > right ? 1n : 0n);
+    }
+  }
+  return hash.toString(16).padStart(16, '0');
+};
+
+/**
+ * Bands of a hash, prefixed with their position, e.g. "0:a3f1".
+ */
+export const perceptualHashBands = (hash) => {
+  const size = hash.length / HASH_BANDS;
+  return Array.from({ length: HASH_BANDS }, (_, band) =>
+    `${band}:${hash.slice(band * size, (band + 1) * size)}`
+  );
+};
+
+/**
+ * Number of differing bits between two hex hashes.
+ */
+export const hammingDistance = (a, b) => {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff > 0n) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+};
+
+const encode = (pipeline, format) => {
+  if (format === 'png') return pipeline.png();
+  if (format === 'webp') return pipeline.webp({ quality: 90 });
+  return pipeline.jpeg({ quality: 90, mozjpeg: true });
+};
+
+const runPipeline = async (buffer, mimetype) => {
+  const exif = await readExif(buffer);
+
+  // Animated GIFs would lose their frames; they carry no EXIF anyway
+  const isGif = mimetype === 'image/gif';
+  const source = sharp(buffer, { animated: false }).rotate();
+
+  let original = { buffer, mimetype };
+  if (!isGif) {
+    const format = mimetype === 'image/png' ? 'png' : mimetype === 'image/webp' ? 'webp' : 'jpeg';
+    original = {
+      buffer: await encode(source.clone(), format).toBuffer(),
+      mimetype: `image/${format}`
+    };
+  }
+
+  const { width, height } = await sharp(original.buffer).metadata();
+
+  const renditions = {};
+  for (const [name, size] of Object.entries(RENDITIONS)) {
+    const { data, info } = await source
+      .clone()
+      .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: RENDITION_QUALITY })
+      .toBuffer({ resolveWithObject: true });
+    renditions[name] = { buffer: data, mimetype: 'image/jpeg', width: info.width, height: info.height };
+  }
+
+  return {
+    ...original,
+    width,
+    height,
+    renditions,
+    exif,
+    perceptualHash: await perceptualHash(source)
+  };
+};
+
+/**
+ * Strip metadata, build renditions and extract what the checks need.
+ * Returns { buffer, mimetype, width, height, renditions, exif, perceptualHash }
+ * with renditions keyed by name, each { buffer, mimetype, width, height }.
+ */
+export const processImage = async (buffer, mimetype, originalName = 'image') => {
+  try {
+    return await runPipeline(buffer, mimetype);
+  } catch {
+    throw new InvalidImageError(originalName);
+  }
+};
+
+/**
+ * Look for an image on another report of the municipality that is (almost)
+ * the same picture.
+ * Returns { report, filename, distance } for the closest match or null.
+ */
+export const findReusedImage = async (hash, { tenant, excludeReport } = {}) => {
+  if (!hash) return null;
+
+  const { reuseMaxDistance } = getImageCheckSettings();
+  const bands = perceptualHashBands(hash);
+
+  // Two hashes within HASH_BANDS - 1 bits must share at least one band
+  const filter = {
+    tenant,
+    $or: IMAGE_ARRAYS.map(field => ({ [`${field}.perceptualHashBands`]: { $in: bands } }))
+  };
+  if (excludeReport) filter._id = { $ne: excludeReport };
+
+  const candidates = await WasteReport.find(filter)
+    .select(IMAGE_ARRAYS.map(field => `${field}.filename ${field}.perceptualHash`).join(' '))
+    .limit(20)
+    .lean();
+
+  let best = null;
+  for (const report of candidates) {
+    const images = [
+      ...(report.images || []),
+      ...(report.actualCollection?.beforeImages || []),
+      ...(report.actualCollection?.afterImages || [])
+    ];
+    for (const image of images) {
+      if (!image.perceptualHash) continue;
+      const distance = hammingDistance(hash, image.perceptualHash);
+      if (distance <= reuseMaxDistance && (!best || distance < best.distance)) {
+        best = { report: report._id, filename: image.filename, distance };
+      }
+    }
+  }
+  return best;
+};
+
+// Unique filename for an upload, keeping a cleaned-up original name
+const generateUniqueFilename = (originalName) => {
+  const timestamp = Date.now();
+  const random = Math.random().toString(36).substring(2, 8);
+  const ext = path.extname(originalName);
+  const baseName = path.basename(originalName, ext).replace(/[^a-zA-Z0-9]/g, '_');
+  return `${baseName}_${timestamp}_${random}${ext}`;
+};
+
+// Uploaded files that actually carry bytes
+export const usableFiles = (files = []) => files.filter((file) => file.buffer && file.buffer.length > 0);
+
+// Key a rendition is stored under, next to its original
+const renditionKey = (filename, name) => `${path.basename(filename, path.extname(filename))}_${name}.jpg`;
+
+// Store a processed upload and its renditions and build the report image
+// subdocument, including the EXIF and reuse checks
+const storeProcessedImage = async (file, processed, { source, tenant, coordinates, excludeReport }) => {
+  const filename = generateUniqueFilename(file.originalname);
+  const stored = await storeImage(filename, processed.buffer, { contentType: processed.mimetype });
+
+  const renditions = {};
+  for (const [name, rendition] of Object.entries(processed.renditions)) {
+    renditions[name] = {
+      ...(await storeImage(renditionKey(filename, name), rendition.buffer, { contentType: rendition.mimetype })),
+      mimetype: rendition.mimetype,
+      width: rendition.width,
+      height: rendition.height,
+      size: rendition.buffer.length
+    };
+  }
+
+  const possibleReuseOf = await findReusedImage(processed.perceptualHash, { tenant, excludeReport });
+
+  return {
+    filename,
+    originalName: file.originalname,
+    mimetype: processed.mimetype,
+    size: processed.buffer.length,
+    ...stored,
+    width: processed.width,
+    height: processed.height,
+    renditions,
+    exif: checkCapture(processed.exif, { coordinates }),
+    perceptualHash: processed.perceptualHash,
+    perceptualHashBands: perceptualHashBands(processed.perceptualHash),
+    possibleReuseOf: possibleReuseOf || undefined,
+    uploadedAt: new Date(),
+    source
+  };
+};
+
+/**
+ * Process and store uploaded files and return their image subdocuments.
+ * `coordinates` is where the photos should have been taken; `excludeReport`
+ * is the report they are added to, which does not count for reuse. Reuse is
+ * only looked for within the `tenant`.
+ */
+export const storeImages = async (files = [], source = 'report', { tenant, coordinates, excludeReport } = {}) => {
+  const uploads = usableFiles(files);
+  // Decode everything first so one broken file does not leave others stored
+  const processed = [];
+  for (const file of uploads) {
+    processed.push(await processImage(file.buffer, file.mimetype, file.originalname));
+  }
+
+  const images = [];
+  try {
+    for (const [index, file] of uploads.entries()) {
+      images.push(await storeProcessedImage(file, processed[index], { source, tenant, coordinates, excludeReport }));
+    }
+  } catch (err) {
+    await discardImages(images);
+    throw err;
+  }
+  return images;
+};
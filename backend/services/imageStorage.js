@@ -0,0 +1,181 @@
+/* ============================================================================
+   Image storage
+   ----------------------------------------------------------------------------
+   Report photos live outside the report documents. Reports keep metadata and
+   a storage key; the bytes are kept by one of these backends:
+
+     - gridfs : MongoDB GridFS bucket (default, nothing else to run)
+     - local  : files on the server's disk
+
+   Every backend implements the same small interface:
+
+     put(key, buffer, { contentType })  store (or replace) an image
+     stat(key)                          { size } or null when missing
+     createReadStream(key, { start, end })  read bytes, `end` inclusive
+     remove(key)                        delete, ignoring missing keys
+
+   Configuration (environment):
+     - IMAGE_STORAGE        : gridfs | local (gridfs)
+     - IMAGE_STORAGE_DIR    : directory for the local backend (uploads/images)
+     - IMAGE_STORAGE_BUCKET : GridFS bucket name (reportImages)
+============================================================================ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+
+// Keys are generated filenames; never let one escape the storage root
+const safeKey = (key) => path.basename(String(key));
+
+const createGridFsStorage = () => {
+  const bucketName = process.env.IMAGE_STORAGE_BUCKET || 'reportImages';
+  let bucket = null;
+
+  // The bucket needs an open connection, so it is created on first use
+  const getBucket = () => {
+    if (!bucket) {
+      bucket = new mongoose.mongo.GridFSBucket(mongoose.connection.db, { bucketName });
+    }
+    return bucket;
+  };
+
+  const findFiles = (key) => getBucket().find({ filename: safeKey(key) }).toArray();
+
+  return {
+    name: 'gridfs',
+
+    async put(key, buffer, { contentType } = {}) {
+      const existing = await findFiles(key);
+      await new Promise((resolve, reject) => {
+        getBucket()
+          .openUploadStream(safeKey(key), { metadata: { contentType } })
+          .on('error', reject)
+          .on('finish', resolve)
+          .end(buffer);
+      });
+      // Replace rather than keep several revisions under one key
+      await Promise.all(existing.map(file => getBucket().delete(file._id)));
+    },
+
+    async stat(key) {
+      const [file] = await getBucket()
+        .find({ filename: safeKey(key) })
+        .sort({ uploadDate: -1 })
+        .limit(1)
+        .toArray();
+      return file ? { size: file.length } : null;
+    },
+
+    createReadStream(key, { start, end } = {}) {
+      const options = {};
+      if (start !== undefined) options.start = start;
+      // GridFS treats `end` as exclusive
+      if (end !== undefined) options.end = end + 1;
+      return getBucket().openDownloadStreamByName(safeKey(key), options);
+    },
+
+    async remove(key) {
+      const files = await findFiles(key);
+      await Promise.all(files.map(file => getBucket().delete(file._id)));
+    }
+  };
+};
+
+const createLocalStorage = () => {
+  const root = path.resolve(process.env.IMAGE_STORAGE_DIR || 'uploads/images');
+  const fileFor = (key) => path.join(root, safeKey(key));
+
+  return {
+    name: 'local',
+
+    async put(key, buffer) {
+      await fs.promises.mkdir(root, { recursive: true });
+      // Write then rename so readers never see a half-written file
+      const temporary = `${fileFor(key)}.${process.pid}.tmp`;
+      await fs.promises.writeFile(temporary, buffer);
+      await fs.promises.rename(temporary, fileFor(key));
+    },
+
+    async stat(key) {
+      try {
+        const stats = await fs.promises.stat(fileFor(key));
+        return { size: stats.size };
+      } catch (err) {
+        if (err.code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+
+    createReadStream(key, { start, end } = {}) {
+      return fs.createReadStream(fileFor(key), { start, end });
+    },
+
+    async remove(key) {
+      try {
+        await fs.promises.unlink(fileFor(key));
+      } catch (err) {
+        if (err.code !== 'ENOENT') throw err;
+      }
+    }
+  };
+};
+
+const BACKENDS = {
+  gridfs: createGridFsStorage,
+  local: createLocalStorage
+};
+
+const instances = new Map();
+
+/**
+ * Storage backend by name, defaulting to the configured one.
+ */
+export const getImageStorage = (name = process.env.IMAGE_STORAGE || 'gridfs') => {
+  if (!BACKENDS[name]) {
+    throw new Error(`Unknown image storage "${name}". Use one of: ${Object.keys(BACKENDS).join(', ')}`);
+  }
+  if (!instances.has(name)) {
+    instances.set(name, BACKENDS[name]());
+  }
+  return instances.get(name);
+};
+
+/**
+ * Content hash used as the image's ETag.
+ */
+export const checksumOf = (buffer) => crypto.createHash('sha1').update(buffer).digest('hex');
+
+/**
+ * Store `buffer` under `key` in the configured backend and return the
+ * metadata a report keeps about it.
+ */
+export const storeImage = async (key, buffer, { contentType } = {}) => {
+  const storage = getImageStorage();
+  await storage.put(key, buffer, { contentType });
+  return {
+    storage: storage.name,
+    storageKey: safeKey(key),
+    checksum: checksumOf(buffer)
+  };
+};
+
+// An image and its renditions, each with its own storage key
+const storedFiles = (image) => {
+  const plain = typeof image.toObject === 'function' ? image.toObject() : image;
+  return [plain, ...Object.values(plain.renditions || {})].filter(file => file?.storageKey);
+};
+
+/**
+ * Remove stored images and their renditions, e.g. after the report they
+ * belonged to failed to save. Failures are logged, not thrown.
+ */
+export const discardImages = async (images = []) => {
+  await Promise.all(images.flatMap(storedFiles).map(async (image) => {
+    try {
+      await getImageStorage(image.storage).remove(image.storageKey);
+    } catch (err) {
+      console.warn('Could not remove stored image:', image.storageKey, err.message);
+    }
+  }));
+};
@@ -0,0 +1,124 @@
+/* ============================================================================
+   Signed image URLs
+   ----------------------------------------------------------------------------
+   Report photos are loaded by <img> tags, which cannot send an Authorization
+   header. Rather than putting the access token in the query string, report
+   responses carry a short-lived URL for every image the user may see:
+
+     /api/waste/image/<filename>?expires=<unix seconds>&signature=<hmac>
+
+   The signature covers the filename and expiry, so a URL opens exactly one
+   image (and its renditions, via &size=) until it expires. Who may see a
+   report's photos is decided when the URL is issued.
+
+   Expiry times are rounded up to a tenth of the lifetime so repeated
+   responses hand out the same URL for a while and browsers can keep
+   serving the image from their cache.
+
+   Configuration (environment):
+     - IMAGE_URL_SECRET      : signing key (falls back to JWT_SECRET)
+     - IMAGE_URL_TTL_MINUTES : minimum lifetime of an issued URL (15)
+============================================================================ */
+
+import crypto from 'crypto';
+
+// Expiry is rounded up to this share of the lifetime, but at least a minute
+const ROUNDING_SHARE = 0.1;
+const MIN_ROUNDING_SECONDS = 60;
+
+const IMAGE_FIELDS = ['images', 'actualCollection.beforeImages', 'actualCollection.afterImages'];
+
+export const getImageUrlSettings = () => ({
+  secret: process.env.IMAGE_URL_SECRET || process.env.JWT_SECRET,
+  ttlSeconds: (parseInt(process.env.IMAGE_URL_TTL_MINUTES) || 15) * 60
+});
+
+const signatureFor = (filename, expires) =>
+  crypto
+    .createHmac('sha256', getImageUrlSettings().secret)
+    .update(`${filename}:${expires}`)
+    .digest('base64url');
+
+/**
+ * Path of a signed URL for one image, valid for at least the configured TTL.
+ */
+export const signImagePath = (filename, now = Date.now()) => {
+  const { ttlSeconds } = getImageUrlSettings();
+  // Valid for the TTL plus at most one rounding step
+  const step = Math.max(Math.round(ttlSeconds * ROUNDING_SHARE), MIN_ROUNDING_SECONDS);
+  const expires = Math.ceil((Math.floor(now / 1000) + ttlSeconds) / step) * step;
+  const query = new URLSearchParams({ expires: String(expires), signature: signatureFor(filename, expires) });
+  return `/api/waste/image/${encodeURIComponent(filename)}?${query}`;
+};
+
+/**
+ * Whether `signature` was issued for `filename` and has not expired yet.
+ */
+export const verifyImageSignature = (filename, expires, signature) => {
+  const expiresAt = parseInt(expires);
+  if (!expiresAt || !signature || expiresAt * 1000 < Date.now()) return false;
+
+  const expected = Buffer.from(signatureFor(filename, expiresAt));
+  const given = Buffer.from(String(signature));
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+};
+
+const idOf = (value) => (value?._id || value)?.toString();
+
+/**
+ * Photos are shown to the people involved with a report: its reporter and
+ * supporters, the assigned worker (or anyone who may claim the report while
+ * it is still unassigned), the supervisor of the worker's team and whoever
+ * may assign reports. `permissions` are the user's (`req.permissions`).
+ */
+export const canViewReportImages = (report, user, permissions = new Set()) => {
+  if (!user) return false;
+  if (permissions.has('report.assign')) return true;
+
+  const userId = user._id.toString();
+  const assignee = idOf(report.assignedWorker);
+  if (assignee === userId) return true;
+  if (!assignee && (permissions.has('report.claim') || permissions.has('team.supervise'))) return true;
+  if (permissions.has('team.supervise') && user.team && idOf(report.team) === idOf(user.team)) return true;
+
+  return idOf(report.reporter) === userId ||
+    (report.supporters || []).some(supporter => idOf(supporter.user) === userId);
+};
+
+const getField = (doc, field) => field.split('.').reduce((value, key) => value?.[key], doc);
+
+/**
+ * Plain copy of a report whose images carry a signed `url` when `user` may
+ * see them. Images the user may not see are listed without one.
+ */
+export const withImageUrls = (report, user, permissions) => {
+  const plain = typeof report.toJSON === 'function' ? report.toJSON() : { ...report };
+  const allowed = canViewReportImages(plain, user, permissions);
+
+  for (const field of IMAGE_FIELDS) {
+    const images = getField(plain, field);
+    if (!Array.isArray(images)) continue;
+
+    const signed = images.map(({ url, ...image }) =>
+      (allowed ? { ...image, url: signImagePath(image.filename) } : image)
+    );
+    const [parent, key] = field.includes('.') ? field.split('.') : [null, field];
+    if (parent) {
+      plain[parent] = { ...plain[parent], [key]: signed };
+    } else {
+      plain[key] = signed;
+    }
+  }
+
+  return plain;
+};
+
+/**
+ * Plain copy of a penalty with a signed `url` on each evidence photo. Only
+ * call it for users who may see the penalty.
+ */
+export const withEvidenceUrls = (penalty) => {
+  const plain = typeof penalty.toJSON === 'function' ? penalty.toJSON() : { ...penalty };
+  plain.evidence = (plain.evidence || []).map(({ url, ...image }) => ({ ...image, url: signImagePath(image.filename) }));
+  return plain;
+};
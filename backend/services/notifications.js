@@ -0,0 +1,253 @@
+/* ============================================================================
+   Notifications
+   ----------------------------------------------------------------------------
+   Turns what happens in the app into notifications for the users it
+   concerns (models/Notification.js):
+
+     - report events (claims, assignments, status changes, ...) for its
+       reporter and supporters and for the worker doing the job
+     - passed trainings, penalties and reward redemptions for the citizen
+
+   Notifying is a side effect of an action that already succeeded, so the
+   helpers here log failures instead of throwing them. Whoever caused an
+   event is not notified about it. Each notification is also queued for
+   email, SMS and push as the recipient prefers (services/delivery.js).
+============================================================================ */
+
+import Notification from '../models/Notification.js';
+import WasteReport from '../models/WasteReport.js';
+import { queueDeliveries } from './delivery.js';
+
+const idOf = (value) => (value?._id || value)?.toString();
+
+const wasteLabel = (report) => `${report.wasteType || 'waste'}`.replace(/_/g, ' ');
+
+// What citizens are told when their report reaches a status
+const STATUS_MESSAGES = {
+  acknowledged: {
+    title: 'Report acknowledged',
+    message: (report) => `The municipality has seen your ${wasteLabel(report)} waste report.`
+  },
+  in_progress: {
+    title: 'Collection started',
+    message: (report) => `A worker is now collecting the ${wasteLabel(report)} waste you reported.`
+  },
+  completed: {
+    title: 'Waste collected',
+    message: (report) => `Your ${wasteLabel(report)} waste report was marked collected. Please confirm it was cleaned up.`
+  },
+  verified: {
+    title: 'Report closed',
+    message: (report) => `Your ${wasteLabel(report)} waste report was verified and closed. Thank you!`
+  },
+  rejected: {
+    title: 'Report rejected',
+    message: (report, notes) => `Your ${wasteLabel(report)} waste report was rejected${notes ? `: ${notes}` : '.'}`
+  }
+};
+
+/**
+ * Notify each of `users` once, except `except` (whoever caused it). Returns
+ * the notifications created.
+ */
+export const notify = async (users, { tenant, type, title, message, link, data, except }) => {
+  const recipients = [...new Set(users.filter(Boolean).map(idOf))].filter(id => id !== idOf(except));
+  if (recipients.length === 0 || !tenant) return [];
+
+  try {
+    const created = await Notification.insertMany(recipients.map(user => ({
+      tenant: tenant._id || tenant,
+      user,
+      type,
+      title,
+      message: message?.slice(0, 500),
+      link,
+      data
+    })));
+    // Not awaited: rendering and queueing must not slow down the request
+    queueDeliveries(created);
+    return created;
+  } catch (error) {
+    console.error('Notification error:', error);
+    return [];
+  }
+};
+
+/**
+ * Notify the people concerned by a report event (see models/ReportEvent.js).
+ */
+export const notifyReportEvent = async (report, event) => {
+  try {
+    // Routes often load only some fields of a report
+    const current = await WasteReport.findById(report._id || report)
+      .select('tenant reporter supporters assignedWorker wasteType')
+      .lean();
+    if (!current) return [];
+
+    const citizens = [current.reporter, ...(current.supporters || []).map(supporter => supporter.user)];
+    const worker = event.meta?.worker || current.assignedWorker;
+    const base = {
+      tenant: current.tenant,
+      link: '/dashboard',
+      data: { report: current._id, event: event._id },
+      except: event.actor
+    };
+    const created = [];
+
+    switch (event.type) {
+      case 'claimed':
+        created.push(...await notify(citizens, {
+          ...base,
+          type: 'report_claimed',
+          title: 'Report picked up',
+          message: `A worker has taken on your ${wasteLabel(current)} waste report.`
+        }));
+        break;
+
+      case 'assigned':
+        created.push(...await notify([worker], {
+          ...base,
+          type: 'report_assigned',
+          title: 'New job assigned',
+          message: `You were assigned a ${wasteLabel(current)} waste report.${event.notes ? ` ${event.notes}` : ''}`
+        }));
+        if (event.meta?.previousWorker && idOf(event.meta.previousWorker) !== idOf(worker)) {
+          created.push(...await notify([event.meta.previousWorker], {
+            ...base,
+            type: 'report_assigned',
+            title: 'Job reassigned',
+            message: `A ${wasteLabel(current)} waste report was handed to ${event.meta.workerName || 'another worker'}.`
+          }));
+        }
+        // Citizens only hear about the first assignment
+        if (event.fromStatus !== event.toStatus) {
+          created.push(...await notify(citizens, {
+            ...base,
+            type: 'report_assigned',
+            title: 'Worker assigned',
+            message: `A worker was assigned to your ${wasteLabel(current)} waste report.`
+          }));
+        }
+        break;
+
+      case 'dispatch_offered':
+        created.push(...await notify([event.meta?.worker], {
+          ...base,
+          type: 'report_offered',
+          title: 'New job offered',
+          message: `A ${wasteLabel(current)} waste report nearby is offered to you. Accept or decline it.`
+        }));
+        break;
+
+      case 'status_changed':
+      case 'completion_approved': {
+        const status = STATUS_MESSAGES[event.toStatus];
+        if (status) {
+          created.push(...await notify(citizens, {
+            ...base,
+            type: 'report_status',
+            title: status.title,
+            message: status.message(current, event.notes)
+          }));
+        }
+        break;
+      }
+
+      case 'verified':
+        created.push(...await notify([current.assignedWorker], {
+          ...base,
+          type: 'report_verified',
+          title: 'Collection confirmed',
+          message: `Your collection of a ${wasteLabel(current)} waste report was confirmed${event.meta?.rating ? `, rated ${event.meta.rating}/5` : ''}.`
+        }));
+        break;
+
+      case 'reopened':
+        created.push(...await notify([current.assignedWorker], {
+          ...base,
+          type: 'report_reopened',
+          title: 'Report reopened',
+          message: `The citizen says the ${wasteLabel(current)} waste is not cleaned up yet${event.notes ? `: ${event.notes}` : '.'}`
+        }));
+        break;
+
+      case 'completion_returned':
+        created.push(...await notify([worker], {
+          ...base,
+          type: 'report_returned',
+          title: 'Job returned',
+          message: `Your supervisor returned a ${wasteLabel(current)} waste report${event.notes ? `: ${event.notes}` : '.'}`
+        }));
+        break;
+
+      case 'merged':
+        created.push(...await notify(citizens, {
+          ...base,
+          type: 'report_merged',
+          title: 'Report merged',
+          message: 'Your report was merged into an earlier report of the same issue; you now support that one.'
+        }));
+        break;
+
+      default:
+        break;
+    }
+
+    return created;
+  } catch (error) {
+    console.error('Report notification error:', error);
+    return [];
+  }
+};
+
+/**
+ * Tell a citizen about a new penalty or a change to one.
+ */
+export const notifyPenalty = (penalty, action, by) => {
+  const messages = {
+    issued: ['penalty_issued', 'Penalty issued', `You were fined ${penalty.amount}: ${penalty.reason}`],
+    dispute_upheld: ['penalty_updated', 'Dispute upheld', 'Your dispute was accepted and the penalty was waived.'],
+    dispute_rejected: ['penalty_updated', 'Dispute rejected', 'Your dispute was rejected; the penalty is due again.'],
+    paid: ['penalty_updated', 'Penalty settled', 'Your penalty was marked as paid.'],
+    waived: ['penalty_updated', 'Penalty waived', 'Your penalty was waived.']
+  };
+  const [type, title, message] = messages[action] || [];
+  if (!type) return Promise.resolve([]);
+
+  return notify([penalty.user], {
+    tenant: penalty.tenant,
+    type,
+    title,
+    message,
+    link: '/profile',
+    data: { penalty: penalty._id },
+    except: by
+  });
+};
+
+/**
+ * Tell a citizen their redemption was made, handed over or cancelled.
+ */
+export const notifyRedemption = (redemption, by) => {
+  const messages = {
+    pending: ['redemption_created', 'Reward redeemed', `Your voucher for ${redemption.rewardName} is ${redemption.voucherCode}.`],
+    fulfilled: ['redemption_fulfilled', 'Reward handed over', `${redemption.rewardName} was handed over. Enjoy!`],
+    cancelled: [
+      'redemption_cancelled',
+      'Redemption cancelled',
+      `Your redemption of ${redemption.rewardName} was cancelled and ${redemption.pointsCost} points were refunded.`
+    ]
+  };
+  const [type, title, message] = messages[redemption.status] || [];
+  if (!type) return Promise.resolve([]);
+
+  return notify([redemption.user], {
+    tenant: redemption.tenant,
+    type,
+    title,
+    message,
+    link: '/rewards',
+    data: { redemption: redemption._id },
+    except: by
+  });
+};
@@ -0,0 +1,110 @@
+/* ============================================================================
+   Penalty workflow
+   ----------------------------------------------------------------------------
+   Which actions a penalty may go through and who may take them. Routes never
+   set `penalty.status` directly; they go through applyPenaltyAction(), which
+   changes the status with a single conditional update and appends the step
+   to the penalty's audit history.
+
+   Actors:
+     - offender: the citizen the penalty was issued to
+     - manager : anyone with the penalty.manage permission
+============================================================================ */
+
+import Penalty from '../models/Penalty.js';
+import { notifyPenalty } from './notifications.js';
+
+// action -> rule
+export const PENALTY_RULES = {
+  disputed: { from: ['pending'], to: 'disputed', actor: 'offender', requires: 'statement', label: 'Dispute' },
+  dispute_upheld: { from: ['disputed'], to: 'waived', actor: 'manager', label: 'Uphold dispute' },
+  dispute_rejected: { from: ['disputed'], to: 'pending', actor: 'manager', requires: 'notes', label: 'Reject dispute' },
+  paid: { from: ['pending'], to: 'paid', actor: 'manager', label: 'Mark paid' },
+  waived: { from: ['pending', 'disputed'], to: 'waived', actor: 'manager', requires: 'notes', label: 'Waive' }
+};
+
+const REQUIREMENT_MESSAGES = {
+  statement: 'Explain why you dispute the penalty',
+  notes: 'A reason (notes) is required'
+};
+
+export class PenaltyError extends Error {
+  constructor(message, statusCode = 400) {
+    super(message);
+    this.name = 'PenaltyError';
+    this.statusCode = statusCode;
+  }
+}
+
+const idOf = (value) => (value?._id || value)?.toString();
+
+/**
+ * Issue a penalty; `evidence` are stored images (see storeImages()).
+ */
+export const issuePenalty = async (data, issuedBy) => {
+  const penalty = await Penalty.create({
+    ...data,
+    status: 'pending',
+    issuedBy: issuedBy._id,
+    history: [{ action: 'issued', toStatus: 'pending', by: issuedBy._id, notes: data.reason }]
+  });
+  await notifyPenalty(penalty, 'issued', issuedBy);
+  return penalty;
+};
+
+/**
+ * Take `action` on `penalty` as `user`. `isManager` says whether the user
+ * holds penalty.manage. Returns the updated penalty.
+ */
+export const applyPenaltyAction = async (penalty, action, user, { isManager = false, statement, notes, paymentReference } = {}) => {
+  const rule = PENALTY_RULES[action];
+  if (!rule) throw new PenaltyError(`Unknown action "${action}"`);
+
+  const allowed = rule.actor === 'manager' ? isManager : idOf(penalty.user) === idOf(user);
+  if (!allowed) throw new PenaltyError('You are not allowed to do this', 403);
+
+  if (!rule.from.includes(penalty.status)) {
+    throw new PenaltyError(`A ${penalty.status} penalty cannot be changed this way`, 409);
+  }
+  const given = { statement: statement?.trim(), notes: notes?.trim() };
+  if (rule.requires && !given[rule.requires]) {
+    throw new PenaltyError(REQUIREMENT_MESSAGES[rule.requires]);
+  }
+
+  const now = new Date();
+  const set = { status: rule.to };
+  if (action === 'disputed') set.dispute = { statement: given.statement, submittedAt: now };
+  if (action === 'paid') set.payment = { reference: paymentReference?.trim() || undefined, paidAt: now };
+
+  // The status filter makes concurrent actions on the same penalty fail
+  // instead of both being applied
+  const updated = await Penalty.findOneAndUpdate(
+    { _id: penalty._id, status: penalty.status },
+    {
+      $set: set,
+      $push: {
+        history: {
+          action,
+          fromStatus: penalty.status,
+          toStatus: rule.to,
+          by: user._id,
+          notes: given.statement || given.notes || paymentReference?.trim() || undefined,
+          at: now
+        }
+      }
+    },
+    { new: true }
+  );
+  if (!updated) throw new PenaltyError('The penalty was changed by someone else; reload and try again', 409);
+  await notifyPenalty(updated, action, user);
+  return updated;
+};
+
+/**
+ * Actions `user` could take on `penalty` right now, for the UI.
+ */
+export const allowedPenaltyActions = (penalty, user, isManager) =>
+  Object.entries(PENALTY_RULES)
+    .filter(([, rule]) => rule.from.includes(penalty.status))
+    .filter(([, rule]) => (rule.actor === 'manager' ? isManager : idOf(penalty.user) === idOf(user)))
+    .map(([action, rule]) => ({ action, label: rule.label, requires: rule.requires || null }));
@@ -0,0 +1,65 @@
+/* ============================================================================
+   Permissions
+   ----------------------------------------------------------------------------
+   What a user may do is decided by named permissions (see
+   models/RolePermission.js), not by their role name. Each municipality keeps
+   its own role -> permissions map, which its admins can edit; roles they
+   have not touched use the defaults.
+
+   Global roles (super admins) hold every permission, in whichever
+   municipality they selected, plus the platform permissions.
+============================================================================ */
+
+import RolePermission, { PERMISSIONS, PLATFORM_PERMISSIONS } from '../models/RolePermission.js';
+import { GLOBAL_ROLES } from '../models/User.js';
+
+// Maps change rarely; a short cache saves a lookup on every request
+const CACHE_TTL_MS = 60 * 1000;
+const cache = new Map();
+
+const ALL_PERMISSIONS = [...Object.keys(PERMISSIONS), ...Object.keys(PLATFORM_PERMISSIONS)];
+
+export const isPlatformPermission = (permission) =>
+  Object.prototype.hasOwnProperty.call(PLATFORM_PERMISSIONS, permission);
+
+/**
+ * Role -> permissions map of a municipality (cached).
+ */
+export const rolePermissions = async (tenant) => {
+  const key = String(tenant || '');
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.map;
+
+  const map = await RolePermission.mapForTenant(tenant);
+  cache.set(key, { map, expiresAt: Date.now() + CACHE_TTL_MS });
+  return map;
+};
+
+// Forget a municipality's cached map after it was edited
+export const clearPermissionCache = (tenant) => cache.delete(String(tenant || ''));
+
+/**
+ * Permissions `user` has while working in `tenant`.
+ */
+export const permissionsFor = async (user, tenant) => {
+  if (!user) return [];
+  if (GLOBAL_ROLES.includes(user.role)) return ALL_PERMISSIONS;
+
+  const map = await rolePermissions(tenant);
+  return map[user.role] || [];
+};
+
+/**
+ * Whether `user` holds `permission` while working in `tenant`.
+ */
+export const hasPermission = async (user, permission, tenant) =>
+  (await permissionsFor(user, tenant)).includes(permission);
+
+/**
+ * Municipality roles that hold `permission`, for finding the users who may
+ * do something (e.g. the workers reports can be assigned to).
+ */
+export const rolesWith = async (permission, tenant) => {
+  const map = await rolePermissions(tenant);
+  return Object.keys(map).filter(role => map[role].includes(permission));
+};
@@ -0,0 +1,158 @@
+/* ============================================================================
+   Reward points
+   ----------------------------------------------------------------------------
+   Every change to a user's points is an entry in the append-only ledger
+   (models/PointTransaction.js) saying where the points came from and what
+   the balance became. `user.rewards.points`, `rewards.totalEarned` and
+   `rewards.level` are caches of that ledger, updated together with each
+   entry; reconcilePoints() rebuilds them from the ledger whenever they may
+   have drifted (run `npm run reconcile:points`).
+
+   Spending (redemptions) never takes the balance below zero. Revoking
+   earned points may, if the user already spent them.
+============================================================================ */
+
+import User from '../models/User.js';
+import RewardLevel, { levelFor } from '../models/RewardLevel.js';
+import PointTransaction, { EARNING_SOURCES } from '../models/PointTransaction.js';
+
+// Points handed out automatically
+export const POINT_AWARDS = {
+  report: 10,
+  verification: 5
+};
+
+export class PointsError extends Error {
+  constructor(message, statusCode = 400) {
+    super(message);
+    this.name = 'PointsError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Add (positive `amount`) or take away (negative) points and write the
+ * ledger entry. Returns the entry. Crediting a `reference` the user was
+ * already credited for by `source` fails with MongoDB's duplicate key error
+ * (code 11000) and leaves the balance as it was.
+ */
+export const recordPoints = async (user, { source, amount, reference, reason, createdBy }) => {
+  const userId = user?._id || user;
+  const earning = EARNING_SOURCES.includes(source);
+
+  const filter = { _id: userId };
+  if (amount < 0 && !earning) filter['rewards.points'] = { $gte: -amount };
+
+  const inc = { 'rewards.points': amount };
+  if (earning) inc['rewards.totalEarned'] = amount;
+
+  const updated = await User.findOneAndUpdate(filter, { $inc: inc }, { new: true }).select('tenant rewards');
+  if (!updated) {
+    throw await User.exists({ _id: userId })
+      ? new PointsError('Not enough points', 409)
+      : new PointsError('User not found', 404);
+  }
+
+  let transaction;
+  try {
+    transaction = await PointTransaction.create({
+      tenant: updated.tenant,
+      user: userId,
+      source,
+      reference,
+      amount,
+      balance: updated.rewards.points,
+      reason,
+      createdBy
+    });
+  } catch (error) {
+    // No entry, no points: undo the cached totals before giving up
+    const undo = Object.fromEntries(Object.entries(inc).map(([field, value]) => [field, -value]));
+    await User.updateOne({ _id: userId }, { $inc: undo });
+    throw error;
+  }
+
+  const level = levelFor(updated.rewards.totalEarned, await RewardLevel.thresholdsFor(updated.tenant));
+  if (level !== updated.rewards.level) {
+    await User.updateOne({ _id: userId }, { $set: { 'rewards.level': level } });
+  }
+
+  return transaction;
+};
+
+/**
+ * Whether the user was already credited by `source` for `reference`.
+ */
+export const hasBeenCredited = (userId, source, reference) =>
+  PointTransaction.exists({ user: userId, source, reference, amount: { $gt: 0 } });
+
+/**
+ * Bring a user's cached totals in line with their ledger. Users with points
+ * but no ledger yet (from before it existed) first get an opening balance.
+ */
+export const reconcilePoints = async (userId, { dryRun = false } = {}) => {
+  const user = await User.findById(userId).select('tenant rewards');
+  if (!user) throw new PointsError('User not found', 404);
+
+  const before = {
+    points: user.rewards.points,
+    totalEarned: user.rewards.totalEarned,
+    level: user.rewards.level
+  };
+
+  let totals = await PointTransaction.totalsFor(user._id);
+  let openedWith = 0;
+  if (totals.entries === 0 && before.points !== 0) {
+    openedWith = before.points;
+    if (!dryRun) {
+      await PointTransaction.create({
+        tenant: user.tenant,
+        user: user._id,
+        source: 'opening_balance',
+        amount: before.points,
+        balance: before.points,
+        reason: 'Points held before the ledger was introduced'
+      });
+    }
+    totals = { points: before.points, totalEarned: before.points, entries: 1 };
+  }
+
+  const after = {
+    points: totals.points,
+    totalEarned: totals.totalEarned,
+    level: levelFor(totals.totalEarned, await RewardLevel.thresholdsFor(user.tenant))
+  };
+  const changed = ['points', 'totalEarned', 'level'].some(key => before[key] !== after[key]);
+
+  if (changed && !dryRun) {
+    await User.updateOne({ _id: user._id }, {
+      $set: {
+        'rewards.points': after.points,
+        'rewards.totalEarned': after.totalEarned,
+        'rewards.level': after.level
+      }
+    });
+  }
+
+  return { user: user._id, before, after, changed, openedWith };
+};
+
+/**
+ * Re-derive the cached level of every user of a municipality, after its
+ * level thresholds changed.
+ */
+export const relevelUsers = async (tenant) => {
+  const thresholds = await RewardLevel.thresholdsFor(tenant);
+  let changed = 0;
+  // Highest first, so each band ends where the previous one starts
+  for (const [index, { level, minPoints }] of thresholds.entries()) {
+    const band = { $gte: minPoints };
+    if (index > 0) band.$lt = thresholds[index - 1].minPoints;
+    const result = await User.updateMany(
+      { tenant, 'rewards.totalEarned': band, 'rewards.level': { $ne: level } },
+      { $set: { 'rewards.level': level } }
+    );
+    changed += result.modifiedCount;
+  }
+  return changed;
+};
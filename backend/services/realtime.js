@@ -0,0 +1,214 @@
+/* ============================================================================
+   Real-time report updates
+   ----------------------------------------------------------------------------
+   Dashboards keep a Server-Sent Events stream open (GET /api/realtime/stream)
+   and receive report events as they are recorded: created, claimed,
+   assigned, status changes and the other types of models/ReportEvent.js.
+
+   Who receives an event:
+     - everyone directly involved: reporter, supporters, the assigned or
+       offered worker
+     - users with report.view_all: every report of their municipality
+     - workers (report.claim) and supervisors (team.supervise): reports in
+       the zones of their teams, or the whole municipality when their teams
+       have no zone; supervisors also get everything of their teams
+
+   A client may narrow its subscription to some zones (?zones=). Events
+   carry a summary of the report only; clients fetch details they need.
+
+   Subscribers live in this process. With several servers behind a load
+   balancer each one only reaches its own clients. A stream is closed when
+   the token it was opened with expires; the client reconnects with a
+   fresh one.
+
+   Configuration (environment):
+     - REALTIME_HEARTBEAT_SECONDS : comment sent to keep idle streams open (25)
+============================================================================ */
+
+import Team from '../models/Team.js';
+import WasteReport from '../models/WasteReport.js';
+
+// Stops a user from piling up streams, e.g. many open tabs
+const MAX_STREAMS_PER_USER = 5;
+
+// Client waits this long before reconnecting after a drop
+const RETRY_MS = 5000;
+
+export const getRealtimeSettings = () => ({
+  heartbeatSeconds: parseInt(process.env.REALTIME_HEARTBEAT_SECONDS) || 25
+});
+
+export class RealtimeError extends Error {
+  constructor(message, statusCode = 400) {
+    super(message);
+    this.name = 'RealtimeError';
+    this.statusCode = statusCode;
+  }
+}
+
+// tenant id -> Set of subscribers
+const subscribers = new Map();
+
+const idOf = (value) => (value?._id || value)?.toString();
+
+const overlaps = (zones, reportZones) =>
+  zones.length === 0 || reportZones.some(zone => zones.includes(zone));
+
+// Whether a subscriber may and wants to see an event about `summary`
+const receives = (subscriber, summary) => {
+  const user = idOf(subscriber.user);
+  if (summary.involved.includes(user)) return true;
+
+  const { scope } = subscriber;
+  if (!overlaps(scope.requestedZones, summary.zones)) return false;
+  if (scope.viewAll) return true;
+  if (scope.teams.includes(summary.team)) return true;
+  return scope.workZones !== null && overlaps(scope.workZones, summary.zones);
+};
+
+/**
+ * What a user may follow: everything (report.view_all), the zones of their
+ * teams (workers and supervisors), or only their own reports (citizens).
+ * `requestedZones` narrows it further.
+ */
+export const subscriptionScope = async (user, tenant, permissions, requestedZones = []) => {
+  const scope = {
+    viewAll: permissions.has('report.view_all'),
+    teams: [],
+    // null: none beyond the user's own reports; []: the whole municipality
+    workZones: null,
+    requestedZones: requestedZones.map(String)
+  };
+  if (scope.viewAll) return scope;
+
+  const works = permissions.has('report.claim');
+  const supervises = permissions.has('team.supervise');
+  if (!works && !supervises) {
+    if (scope.requestedZones.length > 0) {
+      throw new RealtimeError('Only staff can follow zones', 403);
+    }
+    return scope;
+  }
+
+  const teams = await Team.find({
+    tenant,
+    isActive: true,
+    $or: [{ members: user._id }, { supervisor: user._id }]
+  }).select('zone supervisor');
+
+  scope.teams = teams.filter(team => idOf(team.supervisor) === idOf(user)).map(team => idOf(team));
+  const zones = teams.map(team => idOf(team.zone)).filter(Boolean);
+  scope.workZones = works && zones.length === 0 ? [] : zones;
+  return scope;
+};
+
+// Longest delay setTimeout takes
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+/**
+ * Keep `res` open as an event stream for `user` until the client goes away
+ * or `expiresAt` (the token's expiry) passes.
+ */
+export const openStream = (req, res, { user, tenant, scope, expiresAt = null }) => {
+  const key = idOf(tenant);
+  const clients = subscribers.get(key) || new Set();
+  const own = [...clients].filter(client => idOf(client.user) === idOf(user));
+  if (own.length >= MAX_STREAMS_PER_USER) {
+    // Make room by closing the oldest stream
+    own[0].res.end();
+    clients.delete(own[0]);
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Proxies such as nginx would otherwise hold events back
+    'X-Accel-Buffering': 'no'
+  });
+  res.write(`retry: ${RETRY_MS}\n\n`);
+  res.write(`event: ready\ndata: ${JSON.stringify({ zones: scope.requestedZones })}\n\n`);
+
+  const subscriber = { user, res, scope };
+  clients.add(subscriber);
+  subscribers.set(key, clients);
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), getRealtimeSettings().heartbeatSeconds * 1000);
+  heartbeat.unref();
+
+  let expiry = null;
+
+  const close = () => {
+    clearInterval(heartbeat);
+    clearTimeout(expiry);
+    clients.delete(subscriber);
+    if (clients.size === 0) subscribers.delete(key);
+  };
+  req.on('close', close);
+
+  // Very long-lived tokens are still cut off at the longest timeout; the
+  // client just reconnects
+  if (expiresAt) {
+    expiry = setTimeout(() => {
+      close();
+      res.end();
+    }, Math.min(Math.max(expiresAt - Date.now(), 0), MAX_TIMEOUT_MS));
+    expiry.unref();
+  }
+};
+
+/**
+ * Push a report event to every subscriber allowed to see it. Never throws;
+ * the event is already recorded.
+ */
+export const publishReportEvent = async (report, event) => {
+  try {
+    const current = await WasteReport.findById(report._id || report)
+      .select('tenant status wasteType severity zones team reporter supporters assignedWorker dispatchOffer.worker')
+      .lean();
+    if (!current) return 0;
+
+    const clients = subscribers.get(idOf(current.tenant));
+    if (!clients || clients.size === 0) return 0;
+
+    const summary = {
+      zones: (current.zones || []).map(idOf),
+      team: idOf(current.team),
+      involved: [
+        current.reporter,
+        ...(current.supporters || []).map(supporter => supporter.user),
+        current.assignedWorker,
+        current.dispatchOffer?.worker,
+        event.meta?.previousWorker
+      ].filter(Boolean).map(idOf)
+    };
+    const payload = JSON.stringify({
+      type: event.type,
+      event: idOf(event),
+      actor: idOf(event.actor),
+      fromStatus: event.fromStatus,
+      toStatus: event.toStatus,
+      at: event.at,
+      report: {
+        _id: idOf(current),
+        status: current.status,
+        wasteType: current.wasteType,
+        severity: current.severity,
+        zones: summary.zones,
+        team: summary.team || null,
+        assignedWorker: idOf(current.assignedWorker) || null
+      }
+    });
+
+    let sent = 0;
+    for (const subscriber of clients) {
+      if (!receives(subscriber, summary)) continue;
+      subscriber.res.write(`event: report\nid: ${idOf(event)}\ndata: ${payload}\n\n`);
+      sent++;
+    }
+    return sent;
+  } catch (error) {
+    console.error('Realtime publish error:', error);
+    return 0;
+  }
+};
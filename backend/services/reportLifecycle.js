@@ -0,0 +1,247 @@
+/* ============================================================================
+   Waste report lifecycle
+   ----------------------------------------------------------------------------
+   Single source of truth for which status changes a WasteReport may go
+   through, who may perform them and what each one needs. Routes never set
+   `report.status` directly; they go through `applyTransition()`.
+
+   Actors are resolved relative to the report from the user's permissions
+   (services/permissions.js, see ACTOR_PERMISSIONS):
+     - admin     : anyone who may assign reports
+     - assignee  : the worker currently assigned to the report, if they may
+                   update reports
+     - worker    : anyone who may claim reports (used for self-claiming)
+     - supervisor: a team supervisor for reports of their team, or for any
+                   report while it has no team yet
+     - reporter  : the citizen who filed the report, if they may verify it
+     - system    : automatic processes such as auto-dispatch (SYSTEM_ACTOR)
+============================================================================ */
+
+export const REPORT_STATUSES = [
+  'reported',
+  'acknowledged',
+  'assigned',
+  'in_progress',
+  'completed',
+  'verified',
+  'rejected',
+  'merged'
+];
+
+// from -> to -> rule
+export const REPORT_TRANSITIONS = {
+  reported: {
+    acknowledged: { actors: ['admin', 'worker'], label: 'Acknowledge' },
+    assigned: { actors: ['admin', 'worker', 'supervisor', 'system'], requires: ['assignedWorker'], label: 'Assign' },
+    rejected: { actors: ['admin'], requires: ['notes'], label: 'Reject' },
+    merged: { actors: ['admin', 'worker'], requires: ['duplicateOf'], label: 'Merge' }
+  },
+  acknowledged: {
+    assigned: { actors: ['admin', 'worker', 'supervisor', 'system'], requires: ['assignedWorker'], label: 'Assign' },
+    rejected: { actors: ['admin'], requires: ['notes'], label: 'Reject' },
+    merged: { actors: ['admin', 'worker'], requires: ['duplicateOf'], label: 'Merge' }
+  },
+  assigned: {
+    assigned: { actors: ['admin', 'supervisor'], requires: ['assignedWorker'], label: 'Reassign' },
+    in_progress: { actors: ['admin', 'assignee'], label: 'Start Task' },
+    rejected: { actors: ['admin'], requires: ['notes'], label: 'Reject' }
+  },
+  in_progress: {
+    assigned: { actors: ['admin', 'supervisor'], requires: ['assignedWorker'], label: 'Reassign' },
+    completed: { actors: ['admin', 'assignee'], requires: ['afterImages'], label: 'Complete' },
+    rejected: { actors: ['admin'], requires: ['notes'], label: 'Reject' }
+  },
+  completed: {
+    verified: { actors: ['admin', 'reporter'], label: 'Verify' },
+    // A supervisor who does not accept the work hands it back to the worker
+    in_progress: { actors: ['admin', 'supervisor'], requires: ['notes'], label: 'Send Back' },
+    // Reopening sends the report back to the queue of the worker who closed it
+    assigned: { actors: ['admin', 'reporter'], requires: ['notes', 'assignedWorker'], label: 'Reopen' }
+  },
+  verified: {},
+  rejected: {},
+  merged: {}
+};
+
+// Human readable descriptions for the `requires` keys
+const REQUIREMENT_MESSAGES = {
+  notes: 'A reason (notes) is required for this status change',
+  assignedWorker: 'A worker must be assigned before the report can be assigned',
+  afterImages: 'Upload at least one after photo before completing the collection',
+  duplicateOf: 'Choose the report this one duplicates before merging'
+};
+
+/**
+ * Raised whenever a status change is refused. `statusCode` is the HTTP status
+ * the route should answer with, `code` a stable machine readable reason.
+ */
+export class ReportTransitionError extends Error {
+  constructor(message, { code = 'INVALID_TRANSITION', statusCode = 400, from, to } = {}) {
+    super(message);
+    this.name = 'ReportTransitionError';
+    this.code = code;
+    this.statusCode = statusCode;
+    this.from = from;
+    this.to = to;
+  }
+}
+
+// Actor used when the platform itself changes a report (no user involved)
+export const SYSTEM_ACTOR = Object.freeze({ role: 'system', name: 'System' });
+
+// Permission an actor kind needs on top of its relation to the report
+export const ACTOR_PERMISSIONS = {
+  admin: 'report.assign',
+  assignee: 'report.update',
+  worker: 'report.claim',
+  supervisor: 'team.supervise',
+  reporter: 'report.verify'
+};
+
+const idOf = (value) => (value && value._id ? value._id : value)?.toString();
+
+/**
+ * Resolve which actor kinds the user counts as for this report, given the
+ * permissions they hold (`req.permissions`).
+ */
+export const getActorKinds = (report, user, permissions = new Set()) => {
+  const kinds = [];
+  if (!user) return kinds;
+
+  if (user === SYSTEM_ACTOR) return ['system'];
+  const holds = (kind) => permissions.has(ACTOR_PERMISSIONS[kind]);
+  const isUser = (value) => Boolean(value) && idOf(value) === idOf(user._id);
+
+  if (holds('admin')) kinds.push('admin');
+  if (holds('reporter') && isUser(report.reporter)) kinds.push('reporter');
+  if (holds('supervisor') && user.team &&
+      (!report.team || idOf(report.team) === idOf(user.team))) {
+    kinds.push('supervisor');
+  }
+  if (holds('worker')) kinds.push('worker');
+  if (holds('assignee') && isUser(report.assignedWorker)) kinds.push('assignee');
+
+  return kinds;
+};
+
+const missingRequirements = (rule, report, context) =>
+  (rule.requires || []).filter((requirement) => {
+    switch (requirement) {
+      case 'notes':
+        return !context.notes || !String(context.notes).trim();
+      case 'assignedWorker':
+        return !report.assignedWorker;
+      case 'afterImages':
+        return !report.actualCollection?.afterImages?.length;
+      case 'duplicateOf':
+        return !report.duplicateOf;
+      default:
+        return false;
+    }
+  });
+
+/**
+ * Validate a transition without applying it. Returns the matching rule or
+ * throws a ReportTransitionError.
+ */
+export const assertTransition = (report, to, user, permissions, context = {}) => {
+  const from = report.status;
+
+  if (!REPORT_STATUSES.includes(to)) {
+    throw new ReportTransitionError(`Unknown status "${to}"`, {
+      code: 'UNKNOWN_STATUS', from, to
+    });
+  }
+
+  const rule = REPORT_TRANSITIONS[from]?.[to];
+  if (!rule) {
+    throw new ReportTransitionError(`Cannot move a report from "${from}" to "${to}"`, {
+      code: 'INVALID_TRANSITION', statusCode: 409, from, to
+    });
+  }
+
+  const actorKinds = getActorKinds(report, user, permissions);
+  if (!rule.actors.some((actor) => actorKinds.includes(actor))) {
+    throw new ReportTransitionError('You are not allowed to perform this status change', {
+      code: 'FORBIDDEN_TRANSITION', statusCode: 403, from, to
+    });
+  }
+
+  const missing = missingRequirements(rule, report, context);
+  if (missing.length > 0) {
+    throw new ReportTransitionError(REQUIREMENT_MESSAGES[missing[0]] || 'Transition requirements not met', {
+      code: 'REQUIREMENT_MISSING', from, to
+    });
+  }
+
+  return rule;
+};
+
+/**
+ * Validate and apply a transition, including its side effects on the report.
+ * The caller is responsible for saving the document.
+ */
+export const applyTransition = (report, to, user, permissions, context = {}) => {
+  const rule = assertTransition(report, to, user, permissions, context);
+  const from = report.status;
+
+  report.status = to;
+
+  if (to === 'completed') {
+    report.set('actualCollection.date', new Date());
+    report.set('actualCollection.worker', report.assignedWorker || user._id);
+    if (context.notes) report.set('actualCollection.notes', context.notes);
+    // Team work waits for the supervisor's sign-off
+    report.completionReview = report.team ? { status: 'pending' } : undefined;
+  }
+
+  if (from === 'completed' && to === 'in_progress') {
+    report.completionReview = {
+      status: 'returned',
+      reviewedBy: user._id,
+      reviewedAt: new Date(),
+      notes: context.notes
+    };
+  }
+
+  if (to === 'verified') {
+    report.set('verification.verifiedBy', user._id);
+    report.set('verification.verifiedAt', new Date());
+    if (context.notes) report.set('verification.notes', context.notes);
+    if (context.rating) report.set('verification.rating', context.rating);
+  }
+
+  if (from === 'completed' && to === 'assigned') {
+    report.reopenCount = (report.reopenCount || 0) + 1;
+    report.reopens.push({ reopenedBy: user._id, reopenedAt: new Date(), notes: context.notes });
+  }
+
+  return { from, to, rule };
+};
+
+/**
+ * Transitions the user may trigger from the report's current state. Targets
+ * that need extra input are still listed, flagged through `requires`, so the
+ * client can ask for it before calling the API.
+ */
+export const getAllowedTransitions = (report, user, permissions) => {
+  const actorKinds = getActorKinds(report, user, permissions);
+  const rules = REPORT_TRANSITIONS[report.status] || {};
+
+  return Object.entries(rules)
+    .filter(([, rule]) => rule.actors.some((actor) => actorKinds.includes(actor)))
+    .map(([status, rule]) => ({
+      status,
+      label: rule.label,
+      requires: rule.requires || []
+    }));
+};
+
+/**
+ * Serialize a report for API responses together with the transitions the
+ * current user may trigger on it.
+ */
+export const withAllowedTransitions = (report, user, permissions) => ({
+  ...(typeof report.toJSON === 'function' ? report.toJSON() : report),
+  allowedTransitions: getAllowedTransitions(report, user, permissions)
+});
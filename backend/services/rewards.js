@@ -0,0 +1,130 @@
+/* ============================================================================
+   Rewards redemption
+   ----------------------------------------------------------------------------
+   Redeeming takes one item out of stock, spends the points through the
+   ledger (services/points.js) and issues a voucher code. Stock and points
+   each change with a single conditional update, so two citizens racing for
+   the last item, or one citizen redeeming twice with too few points, cannot
+   both succeed. When a later step fails the earlier ones are undone.
+
+   Cancelling a pending redemption refunds its points and restocks the item.
+============================================================================ */
+
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Reward from '../models/Reward.js';
+import Redemption from '../models/Redemption.js';
+import { recordPoints, PointsError } from './points.js';
+import { notifyRedemption } from './notifications.js';
+
+// No 0/O or 1/I, so codes survive being read out over the counter
+const VOUCHER_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const VOUCHER_ATTEMPTS = 5;
+
+export class RewardError extends Error {
+  constructor(message, statusCode = 400) {
+    super(message);
+    this.name = 'RewardError';
+    this.statusCode = statusCode;
+  }
+}
+
+// Eight random characters in two groups, e.g. RW-K7QM-2XHD
+const voucherCode = () => {
+  const chars = [...crypto.randomBytes(8)].map(byte => VOUCHER_ALPHABET[byte % VOUCHER_ALPHABET.length]);
+  return `RW-${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`;
+};
+
+const restock = (rewardId) => Reward.updateOne({ _id: rewardId }, { $inc: { stock: 1 } });
+
+const refund = (redemption, createdBy) => recordPoints(redemption.user, {
+  source: 'redemption',
+  amount: redemption.pointsCost,
+  reference: redemption._id,
+  reason: `Refund for ${redemption.rewardName}`,
+  createdBy
+});
+
+/**
+ * Redeem one item of `rewardId` for `user`. Returns the redemption.
+ */
+export const redeemReward = async (user, rewardId) => {
+  const reward = await Reward.findOneAndUpdate(
+    { _id: rewardId, tenant: user.tenant, isActive: true, stock: { $gt: 0 } },
+    { $inc: { stock: -1 } },
+    { new: true }
+  );
+  if (!reward) {
+    throw await Reward.exists({ _id: rewardId, tenant: user.tenant, isActive: true })
+      ? new RewardError('This reward is out of stock', 409)
+      : new RewardError('Reward not found', 404);
+  }
+
+  const redemptionId = new mongoose.Types.ObjectId();
+  try {
+    await recordPoints(user, {
+      source: 'redemption',
+      amount: -reward.pointsCost,
+      reference: redemptionId,
+      reason: `Redeemed ${reward.name}`
+    });
+  } catch (error) {
+    await restock(reward._id);
+    throw error instanceof PointsError ? new RewardError(error.message, error.statusCode) : error;
+  }
+
+  const redemption = new Redemption({
+    _id: redemptionId,
+    tenant: user.tenant,
+    user: user._id,
+    reward: reward._id,
+    rewardName: reward.name,
+    pointsCost: reward.pointsCost
+  });
+
+  for (let attempt = 1; ; attempt++) {
+    redemption.voucherCode = voucherCode();
+    try {
+      await redemption.save();
+    } catch (error) {
+      if (error.code === 11000 && attempt < VOUCHER_ATTEMPTS) continue;
+      await refund(redemption);
+      await restock(reward._id);
+      throw error;
+    }
+    // Keeps the voucher code at hand in the notification centre
+    await notifyRedemption(redemption);
+    return redemption;
+  }
+};
+
+/**
+ * Mark a pending redemption as handed over.
+ */
+export const fulfilRedemption = async (redemption, by) => {
+  const fulfilled = await Redemption.findOneAndUpdate(
+    { _id: redemption._id, status: 'pending' },
+    { $set: { status: 'fulfilled', fulfilledAt: new Date(), fulfilledBy: by } },
+    { new: true }
+  );
+  if (!fulfilled) throw new RewardError(`This redemption is already ${redemption.status}`, 409);
+  await notifyRedemption(fulfilled, by);
+  return fulfilled;
+};
+
+/**
+ * Cancel a pending redemption, refund its points and restock the item.
+ */
+export const cancelRedemption = async (redemption, { by, reason }) => {
+  const cancelled = await Redemption.findOneAndUpdate(
+    { _id: redemption._id, status: 'pending' },
+    { $set: { status: 'cancelled', cancelledAt: new Date(), cancelledBy: by, cancelReason: reason } },
+    { new: true }
+  );
+  if (!cancelled) throw new RewardError(`This redemption is already ${redemption.status}`, 409);
+
+  await refund(cancelled, by);
+  await restock(cancelled.reward);
+  await notifyRedemption(cancelled, by);
+  return cancelled;
+};
@@ -0,0 +1,167 @@
+/* ============================================================================
+   Route optimiser
+   ----------------------------------------------------------------------------
+   Orders the stops of a collection route so the vehicle drives as little as
+   possible, using straight-line (haversine) distances and no external
+   routing service:
+
+     1. Stops are visited nearest-neighbour first. When the next stop would
+        overflow the vehicle, a trip to the disposal facility is inserted
+        and the vehicle continues from there with an empty load.
+     2. Each trip between disposal visits is then improved with 2-opt.
+
+   Every route ends at the disposal facility.
+
+   Configuration (environment):
+     - ROUTE_AVERAGE_SPEED_KMH : average driving speed for planned times (25)
+     - ROUTE_SERVICE_MINUTES   : time spent at each collection stop (10)
+     - ROUTE_DISPOSAL_MINUTES  : time spent unloading at the facility (20)
+============================================================================ */
+
+import { haversineDistance } from './geo.js';
+
+// Rough load of a report by its estimated quantity, per capacity unit
+const LOAD_ESTIMATES = {
+  tons: { small: 0.05, medium: 0.2, large: 0.5, extra_large: 1.5 },
+  cubic_meters: { small: 0.1, medium: 0.5, large: 1.5, extra_large: 4 }
+};
+
+// Stop improving once a 2-opt pass gains less than this
+const MIN_IMPROVEMENT_METERS = 1;
+const MAX_TWO_OPT_PASSES = 50;
+
+export const getRouteSettings = () => ({
+  averageSpeedKmh: parseFloat(process.env.ROUTE_AVERAGE_SPEED_KMH) || 25,
+  serviceMinutes: parseFloat(process.env.ROUTE_SERVICE_MINUTES) || 10,
+  disposalMinutes: parseFloat(process.env.ROUTE_DISPOSAL_MINUTES) || 20
+});
+
+/**
+ * Expected load of a report in the vehicle's capacity unit.
+ */
+export const estimateLoad = (estimatedQuantity, unit = 'tons') =>
+  (LOAD_ESTIMATES[unit] || LOAD_ESTIMATES.tons)[estimatedQuantity] || 0;
+
+const pathLength = (points) => {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += haversineDistance(points[i - 1], points[i]);
+  }
+  return total;
+};
+
+/**
+ * Improve the order of `trip` with 2-opt, keeping `from` and `to` fixed.
+ */
+const twoOpt = (trip, from, to) => {
+  let best = [...trip];
+  const length = (order) => pathLength([from, ...order.map(stop => stop.location), to]);
+  let bestLength = length(best);
+
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+    let improved = false;
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let k = i + 1; k < best.length; k++) {
+        const candidate = [
+          ...best.slice(0, i),
+          ...best.slice(i, k + 1).reverse(),
+          ...best.slice(k + 1)
+        ];
+        const candidateLength = length(candidate);
+        if (candidateLength < bestLength - MIN_IMPROVEMENT_METERS) {
+          best = candidate;
+          bestLength = candidateLength;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  return best;
+};
+
+/**
+ * Split stops into capacity-limited trips, nearest stop first.
+ */
+const buildTrips = (stops, start, facilityLocation, capacity) => {
+  const remaining = [...stops];
+  const trips = [[]];
+  let position = start;
+  let load = 0;
+
+  while (remaining.length > 0) {
+    const fitting = remaining.filter(stop => load + stop.estimatedLoad <= capacity);
+
+    // Vehicle is full: unload before going on
+    if (fitting.length === 0 && load > 0) {
+      trips.push([]);
+      position = facilityLocation;
+      load = 0;
+      continue;
+    }
+
+    // A stop bigger than the whole vehicle still gets a trip of its own
+    const pool = fitting.length > 0 ? fitting : remaining;
+    const next = pool.reduce((nearest, stop) =>
+      haversineDistance(position, stop.location) < haversineDistance(position, nearest.location) ? stop : nearest
+    );
+
+    trips[trips.length - 1].push(next);
+    remaining.splice(remaining.indexOf(next), 1);
+    load += next.estimatedLoad;
+    position = next.location;
+  }
+
+  return trips.filter(trip => trip.length > 0);
+};
+
+/**
+ * Order `stops` ({ location, estimatedLoad, ... }) into a route starting at
+ * `start` and ending at `facility` ({ _id, name, location }).
+ * Returns the ordered stops (disposal visits included) with planned
+ * arrival times, the total distance and the planned end time.
+ */
+export const optimizeStops = ({ stops, start, facility, capacity, startTime = new Date() }) => {
+  const { averageSpeedKmh, serviceMinutes, disposalMinutes } = getRouteSettings();
+  const origin = start || stops[0]?.location || facility.location;
+
+  const trips = buildTrips(stops, origin, facility.location, capacity);
+
+  const ordered = [];
+  let tripStart = origin;
+  for (const trip of trips) {
+    ordered.push(...twoOpt(trip, tripStart, facility.location));
+    ordered.push({
+      kind: 'disposal',
+      facility: facility._id,
+      label: facility.name,
+      location: facility.location,
+      estimatedLoad: 0
+    });
+    tripStart = facility.location;
+  }
+
+  // Planned times from average speed and time spent at each stop
+  let position = origin;
+  let clock = new Date(startTime).getTime();
+  let totalDistanceMeters = 0;
+  const metersPerMinute = (averageSpeedKmh * 1000) / 60;
+
+  const timed = ordered.map((stop, index) => {
+    const distance = haversineDistance(position, stop.location);
+    totalDistanceMeters += distance;
+    clock += (distance / metersPerMinute) * 60 * 1000;
+    const plannedArrival = new Date(clock);
+    clock += (stop.kind === 'disposal' ? disposalMinutes : serviceMinutes) * 60 * 1000;
+    position = stop.location;
+
+    return { ...stop, order: index + 1, plannedArrival };
+  });
+
+  return {
+    stops: timed,
+    totalDistanceMeters: Math.round(totalDistanceMeters),
+    plannedEnd: new Date(clock)
+  };
+};
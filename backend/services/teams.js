@@ -0,0 +1,237 @@
+/* ============================================================================
+   Teams
+   ----------------------------------------------------------------------------
+   A team is a supervisor and the waste workers they lead. Users point at
+   their team through `user.team` and reports through `report.team` (set
+   from the assigned worker when the report is saved). Whenever the line-up
+   of a team changes, both are brought in step here so the supervisor's
+   queue also covers work assigned before the change.
+
+   A worker belongs to at most one team and a supervisor leads at most one.
+   Who counts as a worker (`report.update`) or supervisor (`team.supervise`)
+   follows the municipality's role permissions.
+============================================================================ */
+
+import User from '../models/User.js';
+import WasteReport from '../models/WasteReport.js';
+import ReportEvent from '../models/ReportEvent.js';
+import { rolesWith } from './permissions.js';
+
+// Reports that still move between workers; closed work keeps its team
+const UNFINISHED_STATUSES = ['reported', 'acknowledged', 'assigned', 'in_progress', 'completed'];
+
+export class TeamError extends Error {
+  constructor(message, statusCode = 400) {
+    super(message);
+    this.name = 'TeamError';
+    this.statusCode = statusCode;
+  }
+}
+
+const idOf = (value) => (value?._id || value)?.toString();
+
+const sameIds = (ids) => [...new Set(ids.map(idOf))];
+
+// Check that the chosen users may join `team`
+const checkLineUp = async (team, supervisorId, memberIds) => {
+  if (memberIds.includes(supervisorId)) {
+    throw new TeamError('The supervisor cannot also be a member of the team');
+  }
+
+  const users = await User.find({ _id: { $in: [supervisorId, ...memberIds] }, tenant: team.tenant })
+    .select('name role team isActive');
+  const byId = new Map(users.map(user => [user._id.toString(), user]));
+  const workerRoles = await rolesWith('report.update', team.tenant);
+  const supervisorRoles = await rolesWith('team.supervise', team.tenant);
+
+  const supervisor = byId.get(supervisorId);
+  if (!supervisor || !supervisor.isActive ||
+      ![...workerRoles, ...supervisorRoles].includes(supervisor.role)) {
+    throw new TeamError('The supervisor must be an active waste worker or supervisor');
+  }
+
+  const members = memberIds.map(id => byId.get(id));
+  if (members.some(member => !member || !member.isActive || !workerRoles.includes(member.role))) {
+    throw new TeamError('Team members must be active waste workers');
+  }
+
+  const taken = [supervisor, ...members].filter(user => user.team && idOf(user.team) !== idOf(team._id));
+  if (taken.length > 0) {
+    throw new TeamError(`${taken.map(user => user.name).join(', ')} already belong to another team`, 409);
+  }
+
+  return supervisor;
+};
+
+// Point users and unfinished reports at the team's current line-up
+const syncTeam = async (team) => {
+  const memberIds = team.members.map(idOf);
+  const lineUp = [idOf(team.supervisor), ...memberIds];
+
+  await User.updateMany(
+    { tenant: team.tenant, team: team._id, _id: { $nin: lineUp } },
+    { $unset: { team: 1 } }
+  );
+  await User.updateMany({ tenant: team.tenant, _id: { $in: lineUp } }, { $set: { team: team._id } });
+
+  await WasteReport.updateMany(
+    { tenant: team.tenant, team: team._id, assignedWorker: { $nin: memberIds }, status: { $in: UNFINISHED_STATUSES } },
+    { $unset: { team: 1 } },
+    { timestamps: false }
+  );
+  await WasteReport.updateMany(
+    { tenant: team.tenant, assignedWorker: { $in: memberIds }, status: { $in: UNFINISHED_STATUSES } },
+    { $set: { team: team._id } },
+    { timestamps: false }
+  );
+};
+
+/**
+ * Apply `changes` (name, supervisor, members, zone, isActive) to a new or
+ * existing team and save it. A worker picked as supervisor whose role may
+ * not supervise teams is promoted to the supervisor role.
+ */
+export const saveTeam = async (team, changes) => {
+  const supervisorId = idOf(changes.supervisor ?? team.supervisor);
+  const memberIds = sameIds(changes.members ?? team.members);
+  const supervisor = await checkLineUp(team, supervisorId, memberIds);
+
+  if (changes.name !== undefined) team.name = changes.name;
+  if (changes.zone !== undefined) team.zone = changes.zone || undefined;
+  if (changes.isActive !== undefined) team.isActive = changes.isActive;
+  team.supervisor = supervisor._id;
+  team.members = memberIds;
+
+  const saved = await team.save();
+
+  if (!(await rolesWith('team.supervise', team.tenant)).includes(supervisor.role)) {
+    await User.updateOne({ _id: supervisor._id }, { $set: { role: 'supervisor' } });
+  }
+  await syncTeam(saved);
+
+  return saved;
+};
+
+/**
+ * Delete a team. Its people become unattached and unfinished reports leave
+ * the team queue; the supervisor keeps their role.
+ */
+export const disbandTeam = async (team) => {
+  await User.updateMany({ tenant: team.tenant, team: team._id }, { $unset: { team: 1 } });
+  await WasteReport.updateMany(
+    { tenant: team.tenant, team: team._id, status: { $in: UNFINISHED_STATUSES } },
+    { $unset: { team: 1 } },
+    { timestamps: false }
+  );
+  await team.deleteOne();
+};
+
+const countWhen = (condition) => ({ $sum: { $cond: [condition, 1, 0] } });
+
+/**
+ * Per-member workload and quality figures of a team over the last `days`.
+ * Open work is counted as it is now; completions, sign-offs and reopenings
+ * within the period.
+ */
+export const teamKpis = async (team, days = 30) => {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const memberIds = team.members.map(member => member._id || member);
+  const completedInPeriod = {
+    $and: [
+      { $in: ['$status', ['completed', 'verified']] },
+      { $gte: ['$actualCollection.date', since] }
+    ]
+  };
+
+  const [workload, reviews, members, backlog] = await Promise.all([
+    WasteReport.aggregate([
+      { $match: { tenant: team.tenant, team: team._id, assignedWorker: { $in: memberIds } } },
+      {
+        $group: {
+          _id: '$assignedWorker',
+          assigned: countWhen({ $eq: ['$status', 'assigned'] }),
+          inProgress: countWhen({ $eq: ['$status', 'in_progress'] }),
+          completed: countWhen(completedInPeriod),
+          awaitingApproval: countWhen({
+            $and: [{ $eq: ['$status', 'completed'] }, { $eq: ['$completionReview.status', 'pending'] }]
+          }),
+          completionMs: {
+            $avg: { $cond: [completedInPeriod, { $subtract: ['$actualCollection.date', '$createdAt'] }, null] }
+          },
+          reopens: {
+            $sum: {
+              $size: {
+                $filter: {
+                  input: { $ifNull: ['$reopens', []] },
+                  cond: { $gte: ['$$this.reopenedAt', since] }
+                }
+              }
+            }
+          }
+        }
+      }
+    ]),
+    ReportEvent.aggregate([
+      {
+        $match: {
+          type: { $in: ['completion_approved', 'completion_returned'] },
+          'meta.worker': { $in: memberIds },
+          at: { $gte: since }
+        }
+      },
+      { $group: { _id: { worker: '$meta.worker', type: '$type' }, count: { $sum: 1 } } }
+    ]),
+    User.find({ _id: { $in: memberIds } }).select('name email').sort({ name: 1 }),
+    team.zone
+      ? WasteReport.countDocuments({
+          tenant: team.tenant,
+          zones: team.zone,
+          assignedWorker: null,
+          status: { $in: ['reported', 'acknowledged'] }
+        })
+      : 0
+  ]);
+
+  const workloadById = new Map(workload.map(row => [idOf(row._id), row]));
+  const reviewCount = (workerId, type) =>
+    reviews.find(row => idOf(row._id.worker) === workerId && row._id.type === type)?.count || 0;
+
+  const perMember = members.map(member => {
+    const id = member._id.toString();
+    const row = workloadById.get(id) || {};
+    return {
+      worker: member,
+      assigned: row.assigned || 0,
+      inProgress: row.inProgress || 0,
+      completed: row.completed || 0,
+      awaitingApproval: row.awaitingApproval || 0,
+      approved: reviewCount(id, 'completion_approved'),
+      returned: reviewCount(id, 'completion_returned'),
+      reopens: row.reopens || 0,
+      avgCompletionHours: row.completionMs ? Math.round(row.completionMs / 36e5 * 10) / 10 : null
+    };
+  });
+
+  const sum = (key) => perMember.reduce((total, member) => total + member[key], 0);
+  const timed = perMember.filter(member => member.avgCompletionHours !== null);
+
+  return {
+    period: { days, since },
+    backlog,
+    totals: {
+      assigned: sum('assigned'),
+      inProgress: sum('inProgress'),
+      completed: sum('completed'),
+      awaitingApproval: sum('awaitingApproval'),
+      approved: sum('approved'),
+      returned: sum('returned'),
+      reopens: sum('reopens'),
+      // Weighted by completions so busy members count for more
+      avgCompletionHours: timed.length
+        ? Math.round(timed.reduce((total, member) => total + member.avgCompletionHours * member.completed, 0) /
+            timed.reduce((total, member) => total + member.completed, 0) * 10) / 10
+        : null
+    },
+    members: perMember
+  };
+};
@@ -0,0 +1,213 @@
+/* ============================================================================
+   Vehicle telemetry
+   ----------------------------------------------------------------------------
+   Drivers' devices post GPS fixes in batches. Each batch moves the vehicle's
+   current location forward, refreshes the short trail kept on the vehicle
+   and is appended to hourly VehicleTrack buckets for history and replay.
+
+   Fixes closer together than the minimum interval are dropped (unless the
+   activity changes) so a chatty device cannot bloat the history.
+
+   Configuration (environment):
+     - TELEMETRY_MIN_INTERVAL_SECONDS : minimum spacing of stored fixes (5)
+     - TELEMETRY_RETENTION_DAYS       : how long track buckets are kept (90)
+     - TELEMETRY_STALE_MINUTES        : live positions older than this are stale (10)
+============================================================================ */
+
+import Vehicle from '../models/Vehicle.js';
+import VehicleTrack from '../models/VehicleTrack.js';
+import User from '../models/User.js';
+import { haversineDistance } from './geo.js';
+
+// Fixes kept on the vehicle document itself
+const RECENT_TRAIL_LENGTH = 50;
+
+// Safety cap per hourly bucket, in case fixes arrive out of order
+const MAX_FIXES_PER_BUCKET = 1000;
+
+// Devices with a slightly fast clock are tolerated; anything further ahead is dropped
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// Jumps faster than this are GPS glitches and don't count towards distance
+const MAX_PLAUSIBLE_SPEED_KMH = 200;
+
+// Longest period a single history query may cover
+export const MAX_TRACK_RANGE_HOURS = 7 * 24;
+
+export const getTelemetrySettings = () => ({
+  minIntervalSeconds: parseInt(process.env.TELEMETRY_MIN_INTERVAL_SECONDS) || 5,
+  retentionDays: parseInt(process.env.TELEMETRY_RETENTION_DAYS) || 90,
+  staleMinutes: parseInt(process.env.TELEMETRY_STALE_MINUTES) || 10
+});
+
+/**
+ * Distance in meters between two fixes, or 0 when the jump is implausible.
+ */
+const segmentDistance = (from, to) => {
+  const meters = haversineDistance(from.location, to.location);
+  const hours = (to.timestamp - from.timestamp) / (60 * 60 * 1000);
+  if (hours <= 0) return 0;
+  return meters / 1000 / hours > MAX_PLAUSIBLE_SPEED_KMH ? 0 : meters;
+};
+
+/**
+ * Total distance in meters along fixes sorted by timestamp.
+ */
+export const trackDistance = (fixes) => {
+  let total = 0;
+  for (let i = 1; i < fixes.length; i++) {
+    total += segmentDistance(fixes[i - 1], fixes[i]);
+  }
+  return total;
+};
+
+/**
+ * Store a batch of fixes for a vehicle.
+ * `fixes` are { coordinates, timestamp, speed?, heading?, accuracy?, activity? }.
+ * Returns how many fixes were received, stored and skipped.
+ */
+export const ingestFixes = async (vehicle, fixes, { driver } = {}) => {
+  const { minIntervalSeconds, retentionDays } = getTelemetrySettings();
+  const latestAllowed = Date.now() + MAX_CLOCK_SKEW_MS;
+
+  const incoming = fixes
+    .map(fix => ({
+      location: fix.coordinates,
+      timestamp: new Date(fix.timestamp),
+      speed: fix.speed,
+      heading: fix.heading,
+      accuracy: fix.accuracy,
+      activity: fix.activity,
+      driver
+    }))
+    .filter(fix => fix.timestamp.getTime() <= latestAllowed)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  // Group by hourly bucket
+  const buckets = new Map();
+  for (const fix of incoming) {
+    const key = VehicleTrack.bucketFor(fix.timestamp).getTime();
+    if (!buckets.has(key)) buckets.set(key, []);
+    buckets.get(key).push(fix);
+  }
+
+  const stored = [];
+  for (const [key, bucketFixes] of buckets) {
+    const bucketStart = new Date(key);
+    const existing = await VehicleTrack.findOne({ vehicle: vehicle._id, bucketStart })
+      .select('lastFix fixes.timestamp');
+
+    // Devices resend batches they got no answer for: skip fixes already stored
+    const storedTimes = new Set((existing?.fixes || []).map(fix => fix.timestamp.getTime()));
+    const fresh = bucketFixes.filter(fix => !storedTimes.has(fix.timestamp.getTime()));
+    if (fresh.length === 0) continue;
+
+    // Thin against the last stored fix when the batch continues the track
+    let previous = existing?.lastFix?.timestamp && existing.lastFix.timestamp <= fresh[0].timestamp
+      ? { location: existing.lastFix.location, timestamp: existing.lastFix.timestamp, activity: null }
+      : null;
+
+    const kept = [];
+    let distanceMeters = 0;
+    for (const fix of fresh) {
+      if (previous) {
+        const gapSeconds = (fix.timestamp - previous.timestamp) / 1000;
+        if (gapSeconds < minIntervalSeconds && fix.activity === previous.activity) continue;
+        distanceMeters += segmentDistance(previous, fix);
+      }
+      kept.push(fix);
+      previous = fix;
+    }
+    if (kept.length === 0) continue;
+
+    const last = kept[kept.length - 1];
+    const update = {
+      $push: {
+        fixes: { $each: kept, $sort: { timestamp: 1 }, $slice: -MAX_FIXES_PER_BUCKET }
+      },
+      $inc: { count: kept.length, distanceMeters: Math.round(distanceMeters) },
+      $setOnInsert: {
+        expiresAt: new Date(key + retentionDays * 24 * 60 * 60 * 1000)
+      }
+    };
+    if (!existing?.lastFix?.timestamp || existing.lastFix.timestamp <= last.timestamp) {
+      update.$set = { lastFix: { location: last.location, timestamp: last.timestamp } };
+    }
+
+    await VehicleTrack.updateOne({ vehicle: vehicle._id, bucketStart }, update, { upsert: true });
+    stored.push(...kept);
+  }
+
+  // Move the live position forward if the batch has newer fixes
+  const newest = stored[stored.length - 1];
+  const lastUpdated = vehicle.currentLocation?.lastUpdated;
+  if (newest && (!lastUpdated || newest.timestamp > lastUpdated)) {
+    await Vehicle.updateOne({ _id: vehicle._id }, {
+      $set: {
+        currentLocation: {
+          type: 'Point',
+          coordinates: newest.location,
+          lastUpdated: newest.timestamp,
+          speed: newest.speed,
+          heading: newest.heading,
+          activity: newest.activity
+        }
+      },
+      $push: {
+        trackingHistory: {
+          $each: stored.map(fix => ({
+            location: fix.location,
+            timestamp: fix.timestamp,
+            speed: fix.speed,
+            activity: fix.activity
+          })),
+          $sort: { timestamp: 1 },
+          $slice: -RECENT_TRAIL_LENGTH
+        }
+      }
+    });
+
+    // The driver's position also feeds auto-dispatch
+    if (driver) {
+      await User.updateOne({ _id: driver }, {
+        $set: {
+          'workerProfile.lastKnownLocation': {
+            coordinates: newest.location,
+            updatedAt: newest.timestamp
+          }
+        }
+      });
+    }
+  }
+
+  return {
+    received: fixes.length,
+    stored: stored.length,
+    skipped: fixes.length - stored.length,
+    currentLocation: newest ? { coordinates: newest.location, lastUpdated: newest.timestamp } : null
+  };
+};
+
+/**
+ * Fixes recorded for a vehicle between `from` and `to`, oldest first.
+ */
+export const getTrack = async (vehicleId, from, to) => {
+  const buckets = await VehicleTrack.find({
+    vehicle: vehicleId,
+    bucketStart: { $gte: VehicleTrack.bucketFor(from), $lte: to }
+  })
+    .select('fixes')
+    .sort({ bucketStart: 1 })
+    .lean();
+
+  const fixes = buckets
+    .flatMap(bucket => bucket.fixes)
+    .filter(fix => fix.timestamp >= from && fix.timestamp <= to);
+
+  return {
+    from,
+    to,
+    fixes,
+    distanceMeters: Math.round(trackDistance(fixes))
+  };
+};
@@ -0,0 +1,190 @@
+/* ============================================================================
+   Zones
+   ----------------------------------------------------------------------------
+   Districts and wards are imported from GeoJSON (a FeatureCollection or a
+   single Feature with Polygon / MultiPolygon geometry). Each feature becomes
+   a Zone of the importing municipality, matched on its code so a corrected
+   file can simply be imported again.
+
+   New reports, users and facilities are tagged with their zones when they
+   are saved (see the models). Whenever a zone is imported, changed or
+   removed the existing documents are re-tagged here, so filters by zone
+   also cover data created before the zone existed.
+============================================================================ */
+
+import Zone, { ZONE_KINDS } from '../models/Zone.js';
+import WasteReport from '../models/WasteReport.js';
+import User from '../models/User.js';
+import Facility from '../models/Facility.js';
+
+// Collections tagged with zones and the field holding their position
+const TAGGED = [
+  { model: WasteReport, field: 'location' },
+  { model: Facility, field: 'location' },
+  { model: User, field: 'address.coordinates' }
+];
+
+export class ZoneImportError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ZoneImportError';
+    this.statusCode = 400;
+  }
+}
+
+const slugify = (value) =>
+  String(value).trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// Every [lng, lat] pair of a Polygon or MultiPolygon
+const positionsOf = (geometry) =>
+  (geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates).flat(2);
+
+/**
+ * Bounding box [minLng, minLat, maxLng, maxLat] of a polygon geometry.
+ */
+export const boundsOf = (geometry) =>
+  // Reduce rather than Math.min(...): detailed boundaries have many points
+  positionsOf(geometry).reduce(
+    ([minLng, minLat, maxLng, maxLat], [lng, lat]) => [
+      Math.min(minLng, lng),
+      Math.min(minLat, lat),
+      Math.max(maxLng, lng),
+      Math.max(maxLat, lat)
+    ],
+    [Infinity, Infinity, -Infinity, -Infinity]
+  );
+
+const isPosition = (position) =>
+  Array.isArray(position) && position.length >= 2 &&
+  Number.isFinite(position[0]) && Number.isFinite(position[1]);
+
+const validGeometry = (geometry) => {
+  if (!geometry || !['Polygon', 'MultiPolygon'].includes(geometry.type)) return false;
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  return Array.isArray(polygons) && polygons.length > 0 && polygons.every(rings =>
+    Array.isArray(rings) && rings.length > 0 && rings.every(ring =>
+      Array.isArray(ring) && ring.length >= 4 && ring.every(isPosition)
+    )
+  );
+};
+
+/**
+ * Remove a zone from every tagged document, then tag the municipality's
+ * documents inside it again if the zone is active.
+ */
+export const retagZone = async (zone) => {
+  // Tagging is bookkeeping, not an edit of the documents
+  const options = { timestamps: false };
+  const { geometry } = zone.toObject();
+
+  for (const { model, field } of TAGGED) {
+    await model.updateMany({ zones: zone._id }, { $pull: { zones: zone._id } }, options);
+    if (zone.isActive) {
+      await model.updateMany(
+        { tenant: zone.tenant, [field]: { $geoWithin: { $geometry: geometry } } },
+        { $addToSet: { zones: zone._id } },
+        options
+      );
+    }
+  }
+};
+
+/**
+ * Remove a zone from every tagged document.
+ */
+export const untagZone = async (zone) => {
+  for (const { model } of TAGGED) {
+    await model.updateMany({ zones: zone._id }, { $pull: { zones: zone._id } }, { timestamps: false });
+  }
+};
+
+// District a ward lies in, judged by the ward's centre
+const findParentDistrict = (tenant, center) =>
+  Zone.findOne({
+    tenant,
+    kind: 'district',
+    geometry: { $geoIntersects: { $geometry: { type: 'Point', coordinates: center } } }
+  }).select('_id');
+
+/**
+ * Import zones from GeoJSON.
+ *
+ * Options:
+ *   - tenant        : municipality the zones belong to
+ *   - kind          : district | ward
+ *   - nameProperty  : feature property holding the name (name)
+ *   - codeProperty  : feature property holding a unique code; "<kind>-<name>"
+ *                     is used when missing
+ *
+ * Returns { created, updated, skipped: [{ index, reason }], zones }.
+ */
+export const importZones = async (geojson, { tenant, kind, nameProperty = 'name', codeProperty } = {}, user) => {
+  if (!tenant) {
+    throw new ZoneImportError('Zones must be imported into a municipality');
+  }
+  if (!ZONE_KINDS.includes(kind)) {
+    throw new ZoneImportError(`Zone kind must be one of: ${ZONE_KINDS.join(', ')}`);
+  }
+
+  let features;
+  if (geojson?.type === 'FeatureCollection' && Array.isArray(geojson.features)) {
+    features = geojson.features;
+  } else if (geojson?.type === 'Feature') {
+    features = [geojson];
+  } else {
+    throw new ZoneImportError('Expected a GeoJSON FeatureCollection or Feature');
+  }
+
+  if (features.length === 0) {
+    throw new ZoneImportError('The GeoJSON file contains no features');
+  }
+
+  const result = { created: 0, updated: 0, skipped: [], zones: [] };
+
+  for (const [index, feature] of features.entries()) {
+    const properties = feature?.properties || {};
+    const name = properties[nameProperty];
+
+    if (!name) {
+      result.skipped.push({ index, reason: `Missing "${nameProperty}" property` });
+      continue;
+    }
+    if (!validGeometry(feature.geometry)) {
+      result.skipped.push({ index, reason: 'Geometry must be a Polygon or MultiPolygon' });
+      continue;
+    }
+
+    const code = slugify((codeProperty && properties[codeProperty]) || `${kind}-${name}`);
+    const bbox = boundsOf(feature.geometry);
+    const center = [(bbox[0] + bbox[2]) / 2, (bbox[1] + bbox[3]) / 2];
+
+    try {
+      const parent = kind === 'ward' ? await findParentDistrict(tenant, center) : null;
+      const existing = await Zone.findOne({ tenant, code });
+      const zone = existing || new Zone({ tenant, code });
+
+      Object.assign(zone, {
+        name: String(name).trim(),
+        kind,
+        parent: parent?._id,
+        geometry: { type: feature.geometry.type, coordinates: feature.geometry.coordinates },
+        center,
+        bbox,
+        properties,
+        isActive: true,
+        importedBy: user?._id
+      });
+
+      // MongoDB rejects self-intersecting or otherwise invalid polygons here
+      await zone.save();
+      await retagZone(zone);
+
+      result[existing ? 'updated' : 'created'] += 1;
+      result.zones.push({ _id: zone._id, name: zone.name, code: zone.code, kind: zone.kind });
+    } catch (err) {
+      result.skipped.push({ index, reason: err.message });
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,145 @@
+import { describe, it, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import CollectionSchedule from '../models/CollectionSchedule.js';
+import CollectionException from '../models/CollectionException.js';
+import {
+  occurrencesOf,
+  pickupsFor,
+  nextPickups,
+  localClock,
+  zonedTime,
+  addDays
+} from '../services/collectionSchedule.js';
+
+const tenant = new mongoose.Types.ObjectId();
+const zone = new mongoose.Types.ObjectId();
+
+const schedule = (fields) => new CollectionSchedule({
+  tenant,
+  zone,
+  stream: 'general',
+  days: [2],
+  startsOn: '2024-06-04',
+  time: '08:00',
+  ...fields
+});
+
+const exception = (fields) => new CollectionException({ tenant, name: 'Holiday', ...fields });
+
+// pickupsFor() reads the exceptions of the period from the database
+const withExceptions = (exceptions) => mock.method(CollectionException, 'find', async () => exceptions);
+
+afterEach(() => mock.restoreAll());
+
+describe('schedule occurrences', () => {
+  it('fall on the chosen weekdays', () => {
+    // 2024-06-04 is a Tuesday
+    assert.deepEqual(
+      occurrencesOf(schedule({ days: [2, 5] }), '2024-06-01', '2024-06-14'),
+      ['2024-06-04', '2024-06-07', '2024-06-11', '2024-06-14']
+    );
+  });
+
+  it('count every n-th week from the start', () => {
+    assert.deepEqual(
+      occurrencesOf(schedule({ everyWeeks: 2 }), '2024-06-01', '2024-06-30'),
+      ['2024-06-04', '2024-06-18']
+    );
+  });
+
+  it('stay within the schedule start and end', () => {
+    assert.deepEqual(
+      occurrencesOf(schedule({ days: [5], startsOn: '2024-05-08', endsOn: '2024-05-20' }), '2024-05-01', '2024-05-31'),
+      ['2024-05-10', '2024-05-17']
+    );
+  });
+
+  it('keep counting weeks across the turn of the year', () => {
+    assert.deepEqual(
+      occurrencesOf(schedule({ everyWeeks: 2, startsOn: '2024-12-17' }), '2024-12-15', '2025-01-20'),
+      ['2024-12-17', '2024-12-31', '2025-01-14']
+    );
+  });
+});
+
+describe('pickups with exceptions', () => {
+  it('are cancelled on holidays and keep the reason', async () => {
+    withExceptions([exception({ date: '2024-06-11', action: 'cancel', name: 'Public holiday' })]);
+    const pickups = await pickupsFor([schedule()], { tenant, from: '2024-06-04', days: 15 });
+
+    assert.deepEqual(pickups.map(({ date, status }) => [date, status]), [
+      ['2024-06-04', 'scheduled'],
+      ['2024-06-11', 'cancelled'],
+      ['2024-06-18', 'scheduled']
+    ]);
+    assert.equal(pickups[1].reason, 'Public holiday');
+  });
+
+  it('are moved to another day and time', async () => {
+    const weekly = schedule();
+    withExceptions([exception({ date: '2024-06-11', action: 'move', movedTo: '2024-06-12', time: '10:00', schedule: weekly._id })]);
+    const [moved] = await pickupsFor([weekly], { tenant, from: '2024-06-10', days: 5 });
+
+    assert.deepEqual(
+      { date: moved.date, time: moved.time, status: moved.status, originalDate: moved.originalDate },
+      { date: '2024-06-12', time: '10:00', status: 'moved', originalDate: '2024-06-11' }
+    );
+  });
+
+  it('include pickups moved into the period from outside it', async () => {
+    withExceptions([exception({ date: '2024-06-04', action: 'move', movedTo: '2024-06-06' })]);
+    const pickups = await pickupsFor([schedule()], { tenant, from: '2024-06-05', days: 5 });
+    assert.deepEqual(pickups.map(({ date, status }) => [date, status]), [['2024-06-06', 'moved']]);
+  });
+
+  it('let a reschedule of one schedule win over a holiday', async () => {
+    const weekly = schedule();
+    withExceptions([
+      exception({ date: '2024-06-11', action: 'cancel' }),
+      exception({ date: '2024-06-11', action: 'move', movedTo: '2024-06-13', schedule: weekly._id })
+    ]);
+    const pickups = await pickupsFor([weekly], { tenant, from: '2024-06-10', days: 7 });
+    assert.deepEqual(pickups.map(({ date, status }) => [date, status]), [['2024-06-13', 'moved']]);
+  });
+
+  it('skip holidays of other zones and streams', async () => {
+    withExceptions([
+      exception({ date: '2024-06-11', action: 'cancel', zones: [new mongoose.Types.ObjectId()] }),
+      exception({ date: '2024-06-11', action: 'cancel', streams: ['organic'] })
+    ]);
+    const pickups = await pickupsFor([schedule()], { tenant, from: '2024-06-11', days: 1 });
+    assert.deepEqual(pickups.map(({ status }) => status), ['scheduled']);
+  });
+
+  it('name the next pickup of each stream that takes place', async () => {
+    withExceptions([exception({ date: '2024-06-04', action: 'cancel' })]);
+    const pickups = await pickupsFor(
+      [schedule(), schedule({ stream: 'recyclables', days: [3] })],
+      { tenant, from: '2024-06-04', days: 14 }
+    );
+    assert.deepEqual(nextPickups(pickups).map(({ stream, date }) => [stream, date]), [
+      ['recyclables', '2024-06-05'],
+      ['general', '2024-06-11']
+    ]);
+  });
+});
+
+describe('local days and times', () => {
+  it('read the clock of the municipality', () => {
+    const instant = new Date('2024-06-04T22:30:00Z');
+    assert.deepEqual(localClock(instant, 'UTC'), { day: '2024-06-04', weekday: 2, hour: 22, minute: 30 });
+    assert.deepEqual(localClock(instant, 'Asia/Kolkata'), { day: '2024-06-05', weekday: 3, hour: 4, minute: 0 });
+  });
+
+  it('turn a local day and time into an instant across daylight saving changes', () => {
+    assert.equal(zonedTime('2024-03-30', '08:00', 'Europe/Berlin').toISOString(), '2024-03-30T07:00:00.000Z');
+    assert.equal(zonedTime('2024-03-31', '08:00', 'Europe/Berlin').toISOString(), '2024-03-31T06:00:00.000Z');
+  });
+
+  it('add days across month and year ends', () => {
+    assert.equal(addDays('2024-02-28', 1), '2024-02-29');
+    assert.equal(addDays('2024-12-31', 1), '2025-01-01');
+    assert.equal(addDays('2024-03-01', -1), '2024-02-29');
+  });
+});
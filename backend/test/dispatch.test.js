@@ -0,0 +1,149 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import User from '../models/User.js';
+import WasteReport from '../models/WasteReport.js';
+import RolePermission from '../models/RolePermission.js';
+import { scoreWorkers, isOnShift, getRequiredSkills, getPreferredSkills } from '../services/dispatch.js';
+
+const now = new Date('2024-06-04T10:00:00Z');
+const here = [73.8567, 18.5204];
+// About 1.1 km north of `here` per step
+const north = (steps) => [here[0], here[1] + steps * 0.01];
+
+const settings = { weights: { distance: 0.5, workload: 0.3, skills: 0.2 }, maxDistanceMeters: 5000 };
+
+let tenant;
+let userQuery;
+
+// scoreWorkers() reads the workers, their open assignments and the
+// municipality's role permissions from the database
+const withWorkers = (workers, openAssignments = {}) => {
+  mock.method(User, 'find', (query) => {
+    userQuery = query;
+    return { select: async () => workers };
+  });
+  mock.method(WasteReport, 'aggregate', async () =>
+    Object.entries(openAssignments).map(([id, count]) => ({ _id: new mongoose.Types.ObjectId(id), count })));
+};
+
+const worker = (name, profile = {}, fields = {}) => ({
+  _id: new mongoose.Types.ObjectId(),
+  name,
+  workerProfile: { skills: [], lastKnownLocation: { coordinates: here, updatedAt: now }, ...profile },
+  ...fields
+});
+
+const report = (fields) => ({ tenant, wasteType: 'plastic', location: { coordinates: here }, ...fields });
+
+beforeEach(() => {
+  // A new municipality per test keeps the cached role map out of the way
+  tenant = new mongoose.Types.ObjectId();
+  mock.method(RolePermission, 'find', () => ({ lean: async () => [] }));
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('dispatch scoring', () => {
+  it('weighs distance, workload and skills', async () => {
+    const ana = worker('Ana');
+    withWorkers([ana], { [ana._id]: 2 });
+
+    const [candidate] = await scoreWorkers(report(), settings, { now });
+    assert.equal(candidate.eligible, true);
+    assert.equal(candidate.distanceMeters, 0);
+    // Plastic prefers recycling skills, which Ana does not have
+    assert.deepEqual(candidate.scores, { distance: 1, workload: 0.75, skills: 0, total: 0.725 });
+  });
+
+  it('ranks the best fit first', async () => {
+    const far = worker('Far', { lastKnownLocation: { coordinates: north(3), updatedAt: now } });
+    const busy = worker('Busy', { maxOpenAssignments: 4 });
+    const skilled = worker('Skilled', { skills: ['recycling'], lastKnownLocation: { coordinates: north(1), updatedAt: now } });
+    withWorkers([far, busy, skilled], { [busy._id]: 3 });
+
+    const candidates = await scoreWorkers(report(), settings, { now });
+    assert.deepEqual(candidates.map(({ name }) => name), ['Skilled', 'Busy', 'Far']);
+    assert.deepEqual(candidates[0].matchedSkills, ['recycling']);
+  });
+
+  it('excludes workers who cannot take the report and say why', async () => {
+    const declined = worker('Declined', { skills: ['hazardous'] });
+    const unqualified = worker('Unqualified');
+    const offShift = worker('Off shift', { skills: ['hazardous'], shift: { start: '14:00', end: '22:00' } });
+    const full = worker('Full', { skills: ['hazardous'], maxOpenAssignments: 2 });
+    const tooFar = worker('Too far', { skills: ['hazardous'], lastKnownLocation: { coordinates: north(6), updatedAt: now } });
+    const lost = worker('Lost', { skills: ['hazardous'], lastKnownLocation: undefined });
+    const able = worker('Able', { skills: ['hazardous'], lastKnownLocation: { coordinates: north(4), updatedAt: now } });
+    withWorkers([declined, unqualified, offShift, full, tooFar, lost, able], { [full._id]: 2 });
+
+    const candidates = await scoreWorkers(report({ wasteType: 'hazardous' }), settings, {
+      now,
+      excludeWorkers: [declined._id]
+    });
+    const reasons = Object.fromEntries(candidates.map(({ name, excludedReasons }) => [name, excludedReasons]));
+
+    assert.equal(candidates[0].name, 'Able');
+    assert.equal(candidates.filter(({ eligible }) => eligible).length, 1);
+    assert.deepEqual(reasons, {
+      Able: [],
+      Declined: ['Declined this report'],
+      Unqualified: ['Not qualified for hazardous waste'],
+      'Off shift': ['Off shift'],
+      Full: ['At capacity (2/2 open)'],
+      'Too far': ['Too far away (6.7 km)'],
+      Lost: ['No known location']
+    }, JSON.stringify(reasons));
+  });
+
+  it('falls back to the home address when the last position is stale', async () => {
+    const stale = worker('Stale', {
+      lastKnownLocation: { coordinates: north(4), updatedAt: new Date(now - 5 * 60 * 60 * 1000) }
+    }, { address: { coordinates: north(1) } });
+    withWorkers([stale]);
+
+    const [candidate] = await scoreWorkers(report(), settings, { now });
+    assert.equal(candidate.locationSource, 'address');
+    assert.ok(candidate.distanceMeters > 1000 && candidate.distanceMeters < 1200, String(candidate.distanceMeters));
+  });
+
+  it('considers every role that may work on reports', async () => {
+    mock.method(RolePermission, 'find', () => ({
+      lean: async () => [{ role: 'supervisor', permissions: ['team.supervise', 'report.update'] }]
+    }));
+    withWorkers([]);
+
+    await scoreWorkers(report(), settings, { now });
+    assert.deepEqual(userQuery.role.$in.sort(), ['admin', 'supervisor', 'waste_worker']);
+    assert.equal(userQuery.tenant, tenant);
+  });
+});
+
+describe('dispatch rules', () => {
+  it('require qualifications for hazardous and medical waste only', () => {
+    assert.deepEqual(getRequiredSkills({ wasteType: 'hazardous', category: 'medical' }), ['hazardous', 'medical']);
+    assert.deepEqual(getRequiredSkills({ wasteType: 'plastic' }), []);
+  });
+
+  it('prefer bulky skills for large loads', () => {
+    assert.deepEqual(getPreferredSkills({ wasteType: 'metal', estimatedQuantity: 'extra_large' }), ['recycling', 'bulky']);
+  });
+
+  it('follow night shifts across midnight in local time', () => {
+    const night = { workerProfile: { shift: { start: '22:00', end: '06:00' } } };
+    assert.equal(isOnShift(night, new Date('2024-06-04T23:30:00Z')), true);
+    assert.equal(isOnShift(night, new Date('2024-06-05T05:59:00Z')), true);
+    assert.equal(isOnShift(night, new Date('2024-06-05T06:00:00Z')), false);
+    // 17:00 UTC is 22:30 in India
+    assert.equal(isOnShift(night, new Date('2024-06-04T17:00:00Z'), 'Asia/Kolkata'), true);
+  });
+
+  it('skip days outside the shift', () => {
+    // 2024-06-04 is a Tuesday
+    const weekdays = { workerProfile: { shift: { start: '08:00', end: '16:00', days: [1, 3, 5] } } };
+    assert.equal(isOnShift(weekdays, now), false);
+    assert.equal(isOnShift(weekdays, new Date('2024-06-05T10:00:00Z')), true);
+    // Wednesday noon on Kiritimati (UTC+14)
+    assert.equal(isOnShift(weekdays, new Date('2024-06-04T22:00:00Z'), 'Pacific/Kiritimati'), true);
+  });
+});
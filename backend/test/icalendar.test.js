@@ -0,0 +1,141 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import CollectionSchedule from '../models/CollectionSchedule.js';
+import CollectionException from '../models/CollectionException.js';
+import { scheduleCalendar, reportCollectionCalendar, timezoneComponent } from '../services/icalendar.js';
+
+const tenant = new mongoose.Types.ObjectId();
+const zone = new mongoose.Types.ObjectId();
+const now = new Date('2024-06-01T12:00:00Z');
+
+const schedule = new CollectionSchedule({
+  tenant,
+  zone,
+  stream: 'recyclables',
+  days: [5, 2],
+  everyWeeks: 2,
+  startsOn: '2024-06-02',
+  endsOn: '2024-12-31',
+  time: '07:30',
+  notes: 'Flattened boxes, please; no glass'
+});
+
+const exceptions = [
+  new CollectionException({ tenant, date: '2024-06-04', action: 'cancel', name: 'Holiday' }),
+  new CollectionException({
+    tenant, date: '2024-06-18', action: 'move', movedTo: '2024-06-19', time: '09:00', name: 'Road works', schedule: schedule._id
+  })
+];
+
+// Content lines with folded continuation lines joined again
+const unfold = (text) => text.replace(/\r\n /g, '').split('\r\n').filter(Boolean);
+
+const eventsOf = (lines) => {
+  const events = [];
+  let current = null;
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') current = [];
+    else if (line === 'END:VEVENT') events.push(current);
+    else if (current) current.push(line);
+  }
+  return events;
+};
+
+describe('household calendar feed', () => {
+  const text = scheduleCalendar({ name: 'Collection days, Ward 12', timeZone: 'Europe/Berlin', schedules: [schedule], exceptions, now });
+  const lines = unfold(text);
+  const [recurring, moved] = eventsOf(lines);
+
+  it('is a valid VCALENDAR with CRLF line endings and folded lines', () => {
+    assert.ok(text.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n'));
+    assert.ok(text.endsWith('END:VCALENDAR\r\n'));
+    assert.ok(!/[^\r]\n/.test(text), 'bare LF');
+    for (const line of text.split('\r\n')) assert.ok(Buffer.byteLength(line) <= 75, line);
+    assert.ok(lines.includes('X-WR-CALNAME:Collection days\\, Ward 12'));
+    assert.ok(lines.includes('REFRESH-INTERVAL;VALUE=DURATION:PT12H'));
+  });
+
+  it('has one recurring event per schedule in the local time zone', () => {
+    assert.ok(recurring.includes(`UID:schedule-${schedule._id}@smart-waste`));
+    assert.ok(recurring.includes('DTSTAMP:20240601T120000Z'));
+    // First pickup on or after the start: Tuesday 2024-06-04
+    assert.ok(recurring.includes('DTSTART;TZID=Europe/Berlin:20240604T073000'));
+    assert.ok(recurring.includes('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,FR;WKST=SU;UNTIL=20241231T225900Z'));
+    assert.ok(recurring.includes('DESCRIPTION:Flattened boxes\\, please\\; no glass'));
+  });
+
+  it('leaves out cancelled pickups and moves rescheduled ones', () => {
+    assert.ok(recurring.includes('EXDATE;TZID=Europe/Berlin:20240604T073000'));
+    assert.ok(moved.includes(`UID:schedule-${schedule._id}@smart-waste`));
+    assert.ok(moved.includes('RECURRENCE-ID;TZID=Europe/Berlin:20240618T073000'));
+    assert.ok(moved.includes('DTSTART;TZID=Europe/Berlin:20240619T090000'));
+    assert.ok(moved.includes('DESCRIPTION:Moved from 2024-06-18: Road works'));
+  });
+
+  it('ignores exceptions on days the schedule does not collect', () => {
+    const feed = unfold(scheduleCalendar({
+      name: 'Feed',
+      timeZone: 'Europe/Berlin',
+      schedules: [schedule],
+      exceptions: [new CollectionException({ tenant, date: '2024-06-05', action: 'cancel', name: 'Holiday' })],
+      now
+    }));
+    assert.equal(feed.some(line => line.startsWith('EXDATE')), false);
+  });
+});
+
+describe('time zone definitions', () => {
+  it('describe daylight saving changes', () => {
+    const lines = timezoneComponent('Europe/Berlin', 2024);
+    assert.deepEqual(lines.slice(0, 8), [
+      'BEGIN:VTIMEZONE',
+      'TZID:Europe/Berlin',
+      'BEGIN:DAYLIGHT',
+      'DTSTART:20240331T020000',
+      'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+      'TZOFFSETFROM:+0100',
+      'TZOFFSETTO:+0200',
+      'END:DAYLIGHT'
+    ]);
+    assert.ok(lines.includes('RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU'));
+  });
+
+  it('have a single standard time without daylight saving', () => {
+    assert.deepEqual(timezoneComponent('Asia/Kolkata', 2024), [
+      'BEGIN:VTIMEZONE',
+      'TZID:Asia/Kolkata',
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      'TZOFFSETFROM:+0530',
+      'TZOFFSETTO:+0530',
+      'END:STANDARD',
+      'END:VTIMEZONE'
+    ]);
+  });
+});
+
+describe('report collection event', () => {
+  const report = {
+    _id: new mongoose.Types.ObjectId(),
+    wasteType: 'bulky',
+    description: 'Old sofa',
+    location: { address: { street: 'Main Street 1', city: 'Pune' } },
+    scheduledCollection: { date: new Date('2024-06-04T20:00:00Z') }
+  };
+
+  it('lasts all day on the local day when there is no time slot', () => {
+    const [event] = eventsOf(unfold(reportCollectionCalendar({ name: 'Collection', timeZone: 'Asia/Kolkata', report, now })));
+    // 20:00 UTC is already the next day in India
+    assert.ok(event.includes('DTSTART;VALUE=DATE:20240605'));
+    assert.ok(event.includes('DTEND;VALUE=DATE:20240606'));
+    assert.ok(event.includes('LOCATION:Main Street 1\\, Pune'));
+  });
+
+  it('uses the time slot when there is one', () => {
+    const slotted = { ...report, scheduledCollection: { ...report.scheduledCollection, timeSlot: { start: '09:00', end: '11:00' } } };
+    const [event] = eventsOf(unfold(reportCollectionCalendar({ name: 'Collection', timeZone: 'Asia/Kolkata', report: slotted, now })));
+    assert.ok(event.includes('DTSTART;TZID=Asia/Kolkata:20240605T090000'));
+    assert.ok(event.includes('DTEND;TZID=Asia/Kolkata:20240605T110000'));
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import WasteReport from '../models/WasteReport.js';
+import {
+  hammingDistance,
+  perceptualHashBands,
+  findReusedImage,
+  getImageCheckSettings
+} from '../services/imageProcessing.js';
+
+const hash = 'a3f1c0de5b7e9102';
+
+// `hash` with the given bits (0 = most significant) flipped
+const flip = (value, ...bits) => {
+  const mask = bits.reduce((acc, bit) => acc | (1n << BigInt(63 - bit)), 0n);
+  return (BigInt(`0x${value}`) ^ mask).toString(16).padStart(16, '0');
+};
+
+const withEnv = (name, value, run) => {
+  const previous = process.env[name];
+  process.env[name] = value;
+  try {
+    return run();
+  } finally {
+    if (previous === undefined) delete process.env[name];
+    else process.env[name] = previous;
+  }
+};
+
+afterEach(() => mock.restoreAll());
+
+describe('hamming distance', () => {
+  it('counts differing bits', () => {
+    assert.equal(hammingDistance(hash, hash), 0);
+    assert.equal(hammingDistance(hash, flip(hash, 0)), 1);
+    assert.equal(hammingDistance(hash, flip(hash, 5, 20, 63)), 3);
+    assert.equal(hammingDistance('0000000000000000', 'ffffffffffffffff'), 64);
+  });
+
+  it('keeps leading zeros', () => {
+    assert.equal(hammingDistance('000000000000000f', '0000000000000000'), 4);
+  });
+});
+
+describe('hash bands', () => {
+  it('split the hash into positioned parts', () => {
+    assert.deepEqual(perceptualHashBands(hash), ['0:a3f1', '1:c0de', '2:5b7e', '3:9102']);
+  });
+
+  it('are shared by hashes that differ in fewer bits than there are bands', () => {
+    const bands = new Set(perceptualHashBands(hash));
+    const shares = (other) => perceptualHashBands(other).some(band => bands.has(band));
+
+    // Three flipped bits leave at least one of the four bands untouched,
+    // wherever they fall
+    for (let first = 0; first < 64; first += 7) {
+      for (let second = first + 1; second < 64; second += 11) {
+        for (let third = second + 1; third < 64; third += 13) {
+          assert.ok(shares(flip(hash, first, second, third)), `${first}, ${second}, ${third}`);
+        }
+      }
+    }
+    // One flipped bit in every band can hide a close match from the lookup
+    assert.equal(shares(flip(hash, 0, 16, 32, 48)), false);
+  });
+});
+
+describe('reuse distance setting', () => {
+  it('defaults to 3 bits', () => {
+    withEnv('IMAGE_REUSE_MAX_DISTANCE', '', () => assert.equal(getImageCheckSettings().reuseMaxDistance, 3));
+  });
+
+  it('is capped at what the band lookup can find', () => {
+    withEnv('IMAGE_REUSE_MAX_DISTANCE', '10', () => assert.equal(getImageCheckSettings().reuseMaxDistance, 3));
+    withEnv('IMAGE_REUSE_MAX_DISTANCE', '2', () => assert.equal(getImageCheckSettings().reuseMaxDistance, 2));
+  });
+});
+
+describe('finding reused images', () => {
+  const withReports = (reports) => mock.method(WasteReport, 'find', () => ({
+    select: () => ({ limit: () => ({ lean: async () => reports }) })
+  }));
+
+  it('returns the closest image within the allowed distance', async () => {
+    const near = { _id: new mongoose.Types.ObjectId(), images: [{ filename: 'near.jpg', perceptualHash: flip(hash, 3, 40) }] };
+    const nearer = {
+      _id: new mongoose.Types.ObjectId(),
+      actualCollection: { afterImages: [{ filename: 'nearer.jpg', perceptualHash: flip(hash, 3) }] }
+    };
+    const far = { _id: new mongoose.Types.ObjectId(), images: [{ filename: 'far.jpg', perceptualHash: flip(hash, 1, 2, 3, 4) }] };
+    withReports([near, far, nearer]);
+
+    assert.deepEqual(await findReusedImage(hash), { report: nearer._id, filename: 'nearer.jpg', distance: 1 });
+  });
+
+  it('ignores images further away than allowed', async () => {
+    withReports([{ _id: new mongoose.Types.ObjectId(), images: [{ filename: 'far.jpg', perceptualHash: flip(hash, 1, 2, 3, 4) }] }]);
+    assert.equal(await findReusedImage(hash), null);
+  });
+
+  it('looks images up by band and leaves the report itself out', async () => {
+    const report = new mongoose.Types.ObjectId();
+    const find = withReports([]);
+    await findReusedImage(hash, { excludeReport: report });
+
+    const [filter] = find.mock.calls[0].arguments;
+    assert.deepEqual(filter._id, { $ne: report });
+    assert.deepEqual(filter.$or[0], { 'images.perceptualHashBands': { $in: perceptualHashBands(hash) } });
+    assert.equal(filter.$or.length, 3);
+  });
+
+  it('does not look without a hash', async () => {
+    const find = withReports([]);
+    assert.equal(await findReusedImage(undefined), null);
+    assert.equal(find.mock.callCount(), 0);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { DEFAULT_ROLE_PERMISSIONS } from '../models/RolePermission.js';
+import { signImagePath, verifyImageSignature, withImageUrls, canViewReportImages } from '../services/imageUrls.js';
+
+const MINUTE = 60 * 1000;
+
+const parse = (path) => {
+  const url = new URL(path, 'http://localhost');
+  return {
+    filename: decodeURIComponent(url.pathname.split('/').pop()),
+    expires: url.searchParams.get('expires'),
+    signature: url.searchParams.get('signature')
+  };
+};
+
+before(() => {
+  process.env.IMAGE_URL_SECRET = 'test-secret';
+  delete process.env.IMAGE_URL_TTL_MINUTES;
+});
+
+describe('signed image URLs', () => {
+  it('open the image they were issued for', () => {
+    const { filename, expires, signature } = parse(signImagePath('report-1.jpg'));
+    assert.equal(filename, 'report-1.jpg');
+    assert.ok(verifyImageSignature(filename, expires, signature));
+  });
+
+  it('do not open other images or survive tampering', () => {
+    const { expires, signature } = parse(signImagePath('report-1.jpg'));
+    assert.equal(verifyImageSignature('report-2.jpg', expires, signature), false);
+    assert.equal(verifyImageSignature('report-1.jpg', String(Number(expires) + 60), signature), false);
+    assert.equal(verifyImageSignature('report-1.jpg', expires, `${signature}x`), false);
+    assert.equal(verifyImageSignature('report-1.jpg', expires, ''), false);
+  });
+
+  it('last at least the TTL and at most a tenth longer', () => {
+    const now = Date.UTC(2024, 4, 31, 8, 3, 17);
+    const { expires } = parse(signImagePath('report-1.jpg', now));
+    const lifetime = Number(expires) * 1000 - now;
+    assert.ok(lifetime >= 15 * MINUTE, `${lifetime} ms`);
+    assert.ok(lifetime <= 16.5 * MINUTE, `${lifetime} ms`);
+  });
+
+  it('stay the same for a while so browsers can cache the image', () => {
+    const now = Date.UTC(2024, 4, 31, 8, 0, 0);
+    assert.equal(signImagePath('report-1.jpg', now + 1000), signImagePath('report-1.jpg', now + 60 * 1000));
+  });
+
+  it('follow the configured TTL', () => {
+    process.env.IMAGE_URL_TTL_MINUTES = '5';
+    try {
+      const now = Date.UTC(2024, 4, 31, 8, 0, 30);
+      const lifetime = Number(parse(signImagePath('report-1.jpg', now)).expires) * 1000 - now;
+      assert.ok(lifetime >= 5 * MINUTE && lifetime <= 6 * MINUTE, `${lifetime} ms`);
+    } finally {
+      delete process.env.IMAGE_URL_TTL_MINUTES;
+    }
+  });
+
+  it('are refused once expired', () => {
+    const { filename, expires, signature } = parse(signImagePath('report-1.jpg', Date.now() - 20 * MINUTE));
+    assert.equal(verifyImageSignature(filename, expires, signature), false);
+  });
+});
+
+describe('report images', () => {
+  const reporter = new mongoose.Types.ObjectId();
+  const worker = new mongoose.Types.ObjectId();
+  const report = {
+    reporter,
+    assignedWorker: worker,
+    images: [{ filename: 'report-1.jpg', url: '/stored/report-1.jpg' }]
+  };
+
+  it('get signed URLs for the people involved', () => {
+    const [image] = withImageUrls(report, { _id: reporter }, new Set(['report.create'])).images;
+    assert.match(image.url, /^\/api\/waste\/image\/report-1\.jpg\?expires=\d+&signature=/);
+  });
+
+  it('are listed without a URL for everyone else', () => {
+    const [image] = withImageUrls(report, { _id: new mongoose.Types.ObjectId() }, new Set(['report.claim'])).images;
+    assert.equal(image.url, undefined);
+    assert.equal(image.filename, 'report-1.jpg');
+  });
+});
+
+describe('report photo access', () => {
+  const reporter = new mongoose.Types.ObjectId();
+  const supporter = new mongoose.Types.ObjectId();
+  const worker = new mongoose.Types.ObjectId();
+  const team = new mongoose.Types.ObjectId();
+  const open = { reporter, supporters: [{ user: supporter }] };
+  const assigned = { ...open, assignedWorker: worker, team };
+  const someone = (fields = {}) => ({ _id: new mongoose.Types.ObjectId(), ...fields });
+  const permissionsOf = (role) => new Set(DEFAULT_ROLE_PERMISSIONS[role]);
+
+  it('is open to the reporter and supporters', () => {
+    const citizen = permissionsOf('citizen');
+    assert.equal(canViewReportImages(assigned, { _id: reporter }, citizen), true);
+    assert.equal(canViewReportImages(assigned, { _id: supporter }, citizen), true);
+    assert.equal(canViewReportImages(assigned, someone(), citizen), false);
+  });
+
+  it('is open to any worker until the report is assigned, then to the assignee', () => {
+    const workers = permissionsOf('waste_worker');
+    assert.equal(canViewReportImages(open, someone(), workers), true);
+    assert.equal(canViewReportImages(assigned, { _id: worker }, workers), true);
+    assert.equal(canViewReportImages(assigned, someone(), workers), false);
+  });
+
+  it("is open to the supervisor of the worker's team", () => {
+    const supervisors = permissionsOf('supervisor');
+    assert.equal(canViewReportImages(assigned, someone({ team }), supervisors), true);
+    assert.equal(canViewReportImages(assigned, someone({ team: new mongoose.Types.ObjectId() }), supervisors), false);
+  });
+
+  it('is open to whoever may assign reports and closed to anonymous callers', () => {
+    assert.equal(canViewReportImages(assigned, someone(), permissionsOf('admin')), true);
+    assert.equal(canViewReportImages(assigned, someone(), new Set()), false);
+    assert.equal(canViewReportImages(assigned, undefined), false);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import RolePermission, { DEFAULT_ROLE_PERMISSIONS, PERMISSIONS } from '../models/RolePermission.js';
+import { TENANT_ROLES } from '../models/User.js';
+import { permissionsFor, clearPermissionCache } from '../services/permissions.js';
+import { can, requirePermission } from '../middleware/auth.js';
+
+const tenant = new mongoose.Types.ObjectId();
+
+let overrides;
+
+const response = () => ({
+  statusCode: 200,
+  status(code) {
+    this.statusCode = code;
+    return this;
+  },
+  json(body) {
+    this.body = body;
+    return this;
+  }
+});
+
+// A signed-in request the way authenticate() leaves it
+const requestAs = async (role, requestTenant = tenant) => {
+  const user = { _id: new mongoose.Types.ObjectId(), role, tenant };
+  return { user, tenant: requestTenant, permissions: new Set(await permissionsFor(user, requestTenant)) };
+};
+
+const check = async (req, ...permissions) => {
+  const res = response();
+  let passed = false;
+  await requirePermission(...permissions)(req, res, () => { passed = true; });
+  return { res, passed };
+};
+
+beforeEach(() => {
+  overrides = [];
+  clearPermissionCache(tenant);
+  mock.method(RolePermission, 'find', () => ({ lean: async () => overrides }));
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('role permissions', () => {
+  it('default to the built-in map for every role', async () => {
+    for (const role of TENANT_ROLES) {
+      assert.deepEqual(await permissionsFor({ role }, tenant), DEFAULT_ROLE_PERMISSIONS[role] || [], role);
+    }
+  });
+
+  it('give admins every municipality permission and nothing of the platform', async () => {
+    const req = await requestAs('admin');
+    assert.deepEqual([...req.permissions].sort(), Object.keys(PERMISSIONS).sort());
+    assert.equal(can(req, 'tenant.manage'), false);
+  });
+
+  it('follow what the municipality changed', async () => {
+    overrides = [{ role: 'citizen', permissions: ['report.create', 'report.claim'] }];
+    const req = await requestAs('citizen');
+    assert.equal(can(req, 'report.claim'), true);
+    assert.equal(can(req, 'report.verify'), false);
+    // Other municipalities keep the defaults
+    assert.deepEqual(await permissionsFor({ role: 'citizen' }, null), DEFAULT_ROLE_PERMISSIONS.citizen);
+  });
+
+  it('leave unknown roles and anonymous callers with nothing', async () => {
+    assert.deepEqual(await permissionsFor({ role: 'visitor' }, tenant), []);
+    assert.deepEqual(await permissionsFor(null, tenant), []);
+    assert.equal(can({}, 'report.create'), false);
+  });
+});
+
+describe('requirePermission', () => {
+  const expectations = {
+    'report.create': ['citizen', 'green_champion', 'admin'],
+    'report.claim': ['waste_worker', 'admin'],
+    'report.assign': ['admin'],
+    'permission.manage': ['admin']
+  };
+
+  for (const [permission, allowed] of Object.entries(expectations)) {
+    it(`lets only ${allowed.join(', ')} through to ${permission}`, async () => {
+      for (const role of TENANT_ROLES) {
+        const { res, passed } = await check(await requestAs(role), permission);
+        assert.equal(passed, allowed.includes(role), role);
+        if (!passed) assert.equal(res.statusCode, 403, role);
+      }
+    });
+  }
+
+  it('needs every listed permission and names the missing ones', async () => {
+    const { res, passed } = await check(await requestAs('waste_worker'), 'report.update', 'report.assign');
+    assert.equal(passed, false);
+    assert.deepEqual(res.body.required, ['report.assign']);
+  });
+
+  it('turns away requests without a user', async () => {
+    const { res, passed } = await check({}, 'report.create');
+    assert.equal(passed, false);
+    assert.equal(res.statusCode, 401);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import User from '../models/User.js';
+import PointTransaction from '../models/PointTransaction.js';
+import { recordPoints, PointsError } from '../services/points.js';
+
+// In-memory stand-in for the users and ledger collections, including the
+// unique index on credits
+let users;
+let ledger;
+
+const duplicateKey = () => Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+
+const applyUpdate = (user, { $inc = {}, $set = {} }) => {
+  for (const [path, value] of Object.entries($inc)) {
+    const [, field] = path.split('.');
+    user.rewards[field] += value;
+  }
+  for (const [path, value] of Object.entries($set)) {
+    const [, field] = path.split('.');
+    user.rewards[field] = value;
+  }
+};
+
+beforeEach(() => {
+  users = new Map();
+  ledger = [];
+
+  mock.method(User, 'findOneAndUpdate', (filter, update) => ({
+    select: async () => {
+      const user = users.get(String(filter._id));
+      const minimum = filter['rewards.points']?.$gte;
+      if (!user || (minimum !== undefined && user.rewards.points < minimum)) return null;
+      applyUpdate(user, update);
+      return structuredClone(user);
+    }
+  }));
+  mock.method(User, 'exists', async ({ _id }) => users.has(String(_id)));
+  mock.method(User, 'updateOne', async ({ _id }, update) => applyUpdate(users.get(String(_id)), update));
+
+  mock.method(PointTransaction, 'create', async (entry) => {
+    await new Promise(resolve => setImmediate(resolve));
+    const credited = (other) => other.amount > 0 && other.reference &&
+      String(other.user) === String(entry.user) && other.source === entry.source &&
+      String(other.reference) === String(entry.reference);
+    if (entry.amount > 0 && entry.reference && ledger.some(credited)) throw duplicateKey();
+    ledger.push(entry);
+    return entry;
+  });
+});
+
+afterEach(() => mock.restoreAll());
+
+const citizen = (points = 0) => {
+  const user = {
+    _id: new mongoose.Types.ObjectId(),
+    rewards: { points, totalEarned: points, level: 'bronze' }
+  };
+  users.set(String(user._id), user);
+  return user;
+};
+
+const balanceOf = (user) => users.get(String(user._id)).rewards;
+
+describe('points ledger', () => {
+  it('records earned points with the balance after them', async () => {
+    const user = citizen();
+    const entry = await recordPoints(user, { source: 'report', amount: 10, reference: new mongoose.Types.ObjectId() });
+
+    assert.equal(entry.balance, 10);
+    assert.deepEqual(
+      { points: balanceOf(user).points, totalEarned: balanceOf(user).totalEarned },
+      { points: 10, totalEarned: 10 }
+    );
+    assert.equal(ledger.length, 1);
+  });
+
+  it('spends points without touching lifetime earnings', async () => {
+    const user = citizen(50);
+    await recordPoints(user, { source: 'redemption', amount: -30, reference: new mongoose.Types.ObjectId() });
+    assert.deepEqual(
+      { points: balanceOf(user).points, totalEarned: balanceOf(user).totalEarned },
+      { points: 20, totalEarned: 50 }
+    );
+  });
+
+  it('never spends more than the balance', async () => {
+    const user = citizen(20);
+    await assert.rejects(
+      recordPoints(user, { source: 'redemption', amount: -30 }),
+      (error) => error instanceof PointsError && error.statusCode === 409
+    );
+    assert.equal(balanceOf(user).points, 20);
+    assert.equal(ledger.length, 0);
+  });
+
+  it('may take revoked earnings below zero', async () => {
+    const user = citizen(5);
+    await recordPoints(user, { source: 'report', amount: -10, reference: new mongoose.Types.ObjectId() });
+    assert.deepEqual(
+      { points: balanceOf(user).points, totalEarned: balanceOf(user).totalEarned },
+      { points: -5, totalEarned: -5 }
+    );
+  });
+
+  it('raises the level with lifetime earnings', async () => {
+    const user = citizen(995);
+    await recordPoints(user, { source: 'admin_grant', amount: 10, reason: 'Clean-up day' });
+    assert.equal(balanceOf(user).level, 'silver');
+  });
+
+  it('credits the same thing only once, even when two requests race', async () => {
+    const user = citizen();
+    const module = new mongoose.Types.ObjectId();
+    const credit = () => recordPoints(user, { source: 'training', amount: 25, reference: module });
+
+    const results = await Promise.allSettled([credit(), credit()]);
+    assert.deepEqual(results.map(({ status }) => status).sort(), ['fulfilled', 'rejected']);
+    assert.equal(results.find(({ status }) => status === 'rejected').reason.code, 11000);
+    assert.deepEqual(
+      { points: balanceOf(user).points, totalEarned: balanceOf(user).totalEarned },
+      { points: 25, totalEarned: 25 }
+    );
+    assert.equal(ledger.length, 1);
+  });
+
+  it('still credits other sources for the same reference', async () => {
+    const user = citizen();
+    const report = new mongoose.Types.ObjectId();
+    await recordPoints(user, { source: 'report', amount: 10, reference: report });
+    await recordPoints(user, { source: 'verification', amount: 5, reference: report });
+    assert.equal(balanceOf(user).points, 15);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { quietHoursEnd } from '../services/delivery.js';
+
+const at = (iso) => new Date(iso);
+
+describe('quiet hours', () => {
+  const overnight = { start: '22:00', end: '07:00' };
+
+  it('let messages out right away outside the quiet hours', () => {
+    const now = at('2024-06-04T12:00:00Z');
+    assert.equal(quietHoursEnd(overnight, 'UTC', now), now);
+    assert.equal(quietHoursEnd(overnight, 'UTC', at('2024-06-04T07:00:00Z')).toISOString(), '2024-06-04T07:00:00.000Z');
+  });
+
+  it('hold messages until the next morning when they start before midnight', () => {
+    assert.equal(quietHoursEnd(overnight, 'UTC', at('2024-06-04T22:00:00Z')).toISOString(), '2024-06-05T07:00:00.000Z');
+    assert.equal(quietHoursEnd(overnight, 'UTC', at('2024-06-04T23:59:00Z')).toISOString(), '2024-06-05T07:00:00.000Z');
+  });
+
+  it('hold messages until the same morning after midnight', () => {
+    assert.equal(quietHoursEnd(overnight, 'UTC', at('2024-06-05T00:00:00Z')).toISOString(), '2024-06-05T07:00:00.000Z');
+    assert.equal(quietHoursEnd(overnight, 'UTC', at('2024-06-05T06:59:00Z')).toISOString(), '2024-06-05T07:00:00.000Z');
+  });
+
+  it('handle quiet hours within one day', () => {
+    const afternoon = { start: '13:00', end: '15:00' };
+    assert.equal(quietHoursEnd(afternoon, 'UTC', at('2024-06-04T14:00:00Z')).toISOString(), '2024-06-04T15:00:00.000Z');
+    const later = at('2024-06-04T16:00:00Z');
+    assert.equal(quietHoursEnd(afternoon, 'UTC', later), later);
+  });
+
+  it('follow the local clock of the municipality', () => {
+    // 17:00 UTC is 22:30 in India; quiet until 07:00 there (01:30 UTC)
+    assert.equal(quietHoursEnd(overnight, 'Asia/Kolkata', at('2024-06-04T17:00:00Z')).toISOString(), '2024-06-05T01:30:00.000Z');
+    // The night the clocks go forward in Berlin is an hour shorter
+    assert.equal(quietHoursEnd(overnight, 'Europe/Berlin', at('2024-03-30T22:00:00Z')).toISOString(), '2024-03-31T05:00:00.000Z');
+  });
+
+  it('are off when not set or empty', () => {
+    const now = at('2024-06-04T23:00:00Z');
+    assert.equal(quietHoursEnd(undefined, 'UTC', now), now);
+    assert.equal(quietHoursEnd({ start: '22:00' }, 'UTC', now), now);
+    assert.equal(quietHoursEnd({ start: '22:00', end: '22:00' }, 'UTC', now), now);
+  });
+});
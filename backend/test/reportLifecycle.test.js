@@ -0,0 +1,176 @@
+import { describe, it, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import WasteReport from '../models/WasteReport.js';
+import User from '../models/User.js';
+import { DEFAULT_ROLE_PERMISSIONS } from '../models/RolePermission.js';
+import {
+  REPORT_STATUSES,
+  REPORT_TRANSITIONS,
+  SYSTEM_ACTOR,
+  getActorKinds,
+  assertTransition,
+  applyTransition,
+  getAllowedTransitions,
+  ReportTransitionError
+} from '../services/reportLifecycle.js';
+
+const id = () => new mongoose.Types.ObjectId();
+
+const permissionsOf = (role) => new Set(DEFAULT_ROLE_PERMISSIONS[role]);
+
+const reporter = { _id: id(), role: 'citizen' };
+const worker = { _id: id(), role: 'waste_worker' };
+const otherWorker = { _id: id(), role: 'waste_worker' };
+const admin = { _id: id(), role: 'admin' };
+const team = id();
+const supervisor = { _id: id(), role: 'supervisor', team };
+
+const reportIn = (status, fields = {}) => new WasteReport({
+  status,
+  reporter: reporter._id,
+  ...fields
+});
+
+const refusal = (code) => (error) => error instanceof ReportTransitionError && error.code === code;
+
+describe('report transition table', () => {
+  it('only knows listed statuses', () => {
+    assert.deepEqual(Object.keys(REPORT_TRANSITIONS).sort(), [...REPORT_STATUSES].sort());
+    for (const targets of Object.values(REPORT_TRANSITIONS)) {
+      for (const to of Object.keys(targets)) assert.ok(REPORT_STATUSES.includes(to), to);
+    }
+  });
+
+  it('has no way out of verified, rejected and merged reports', () => {
+    for (const status of ['verified', 'rejected', 'merged']) {
+      assert.deepEqual(REPORT_TRANSITIONS[status], {});
+    }
+  });
+
+  it('refuses transitions that are not in the table', () => {
+    const report = reportIn('reported');
+    assert.throws(() => assertTransition(report, 'completed', admin, permissionsOf('admin')), refusal('INVALID_TRANSITION'));
+    assert.throws(() => assertTransition(report, 'closed', admin, permissionsOf('admin')), refusal('UNKNOWN_STATUS'));
+  });
+});
+
+describe('actor kinds', () => {
+  it('come from permissions, not role names', () => {
+    const report = reportIn('assigned', { assignedWorker: worker._id });
+    assert.deepEqual(getActorKinds(report, worker, permissionsOf('waste_worker')), ['worker', 'assignee']);
+    assert.deepEqual(getActorKinds(report, otherWorker, permissionsOf('waste_worker')), ['worker']);
+    assert.deepEqual(getActorKinds(report, worker, new Set()), []);
+    // A citizen given the claim permission counts as a worker
+    assert.deepEqual(getActorKinds(report, reporter, new Set(['report.claim'])), ['worker']);
+  });
+
+  it('make the reporter an actor only on their own report', () => {
+    const citizen = permissionsOf('citizen');
+    assert.deepEqual(getActorKinds(reportIn('completed'), reporter, citizen), ['reporter']);
+    assert.deepEqual(getActorKinds(reportIn('completed', { reporter: id() }), reporter, citizen), []);
+    assert.deepEqual(getActorKinds(reportIn('completed'), undefined, citizen), []);
+  });
+
+  it('limit supervisors to their team once a report has one', () => {
+    const permissions = permissionsOf('supervisor');
+    assert.deepEqual(getActorKinds(reportIn('assigned'), supervisor, permissions), ['supervisor']);
+    assert.deepEqual(getActorKinds(reportIn('assigned', { team }), supervisor, permissions), ['supervisor']);
+    assert.deepEqual(getActorKinds(reportIn('assigned', { team: id() }), supervisor, permissions), []);
+  });
+
+  it('treat automatic changes as the system', () => {
+    assert.deepEqual(getActorKinds(reportIn('reported'), SYSTEM_ACTOR), ['system']);
+  });
+});
+
+describe('applying transitions', () => {
+  it('lets a worker claim a reported report', () => {
+    const report = reportIn('reported', { assignedWorker: worker._id });
+    assert.deepEqual(
+      applyTransition(report, 'assigned', worker, permissionsOf('waste_worker')),
+      { from: 'reported', to: 'assigned', rule: REPORT_TRANSITIONS.reported.assigned }
+    );
+    assert.equal(report.status, 'assigned');
+  });
+
+  it('keeps other workers away from a report assigned to someone else', () => {
+    const report = reportIn('assigned', { assignedWorker: worker._id });
+    assert.throws(() => applyTransition(report, 'in_progress', otherWorker, permissionsOf('waste_worker')), refusal('FORBIDDEN_TRANSITION'));
+    assert.equal(report.status, 'assigned');
+  });
+
+  it('asks for what a transition requires', () => {
+    assert.throws(() => applyTransition(reportIn('reported'), 'rejected', admin, permissionsOf('admin')), refusal('REQUIREMENT_MISSING'));
+    assert.throws(() => applyTransition(reportIn('reported'), 'assigned', admin, permissionsOf('admin')), refusal('REQUIREMENT_MISSING'));
+  });
+
+  it('needs an after photo to complete a collection and records it', () => {
+    const report = reportIn('in_progress', { assignedWorker: worker._id });
+    assert.throws(() => applyTransition(report, 'completed', worker, permissionsOf('waste_worker')), refusal('REQUIREMENT_MISSING'));
+
+    report.set('actualCollection.afterImages', [{ filename: 'after-1.jpg', url: '/stored/after-1.jpg' }]);
+    applyTransition(report, 'completed', worker, permissionsOf('waste_worker'), { notes: 'Two bags' });
+    assert.equal(report.status, 'completed');
+    assert.equal(report.actualCollection.worker.toString(), worker._id.toString());
+    assert.equal(report.actualCollection.notes, 'Two bags');
+  });
+
+  it('records who verified a completed report', () => {
+    const report = reportIn('completed', { assignedWorker: worker._id });
+    applyTransition(report, 'verified', reporter, permissionsOf('citizen'), { rating: 4 });
+    assert.equal(report.status, 'verified');
+    assert.equal(report.verification.verifiedBy.toString(), reporter._id.toString());
+    assert.equal(report.verification.rating, 4);
+  });
+
+  it('counts reopenings and needs a reason for them', () => {
+    const report = reportIn('completed', { assignedWorker: worker._id });
+    assert.throws(() => applyTransition(report, 'assigned', reporter, permissionsOf('citizen')), refusal('REQUIREMENT_MISSING'));
+
+    applyTransition(report, 'assigned', reporter, permissionsOf('citizen'), { notes: 'Bags are still there' });
+    assert.equal(report.status, 'assigned');
+    assert.equal(report.reopenCount, 1);
+    assert.equal(report.reopens[0].notes, 'Bags are still there');
+  });
+
+  it('lists only the transitions the user may trigger', () => {
+    const report = reportIn('assigned', { assignedWorker: worker._id });
+    assert.deepEqual(getAllowedTransitions(report, worker, permissionsOf('waste_worker')).map(({ status }) => status), ['in_progress']);
+    assert.deepEqual(getAllowedTransitions(report, otherWorker, permissionsOf('waste_worker')), []);
+    assert.deepEqual(
+      getAllowedTransitions(report, admin, permissionsOf('admin')).map(({ status }) => status),
+      ['assigned', 'in_progress', 'rejected']
+    );
+
+    const completed = reportIn('completed', { assignedWorker: worker._id });
+    assert.deepEqual(getAllowedTransitions(completed, reporter, permissionsOf('citizen')).map(({ status }) => status), ['verified', 'assigned']);
+    assert.deepEqual(getAllowedTransitions(completed, worker, permissionsOf('waste_worker')), []);
+  });
+});
+
+describe('saving transitions', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('only write when nobody changed the report in the meantime', async () => {
+    let sent;
+    mock.method(WasteReport, 'findOneAndUpdate', async (filter, update) => {
+      sent = { filter, update };
+      return null;
+    });
+    mock.method(User, 'findById', () => ({ select: async () => ({ team }) }));
+
+    // As read from the database
+    const report = WasteReport.hydrate({ _id: id(), status: 'completed', reporter: reporter._id, assignedWorker: worker._id });
+    const expected = { status: report.status, assignedWorker: report.assignedWorker };
+    report.assignedWorker = otherWorker._id;
+    applyTransition(report, 'assigned', admin, permissionsOf('admin'), { notes: 'Missed a bag' });
+
+    assert.equal(await report.saveIfUnchanged(expected), null);
+    assert.deepEqual(sent.filter, { _id: report._id, status: 'completed', assignedWorker: worker._id });
+    assert.equal(sent.update.$set.status, 'assigned');
+    assert.equal(String(sent.update.$set.assignedWorker), String(otherWorker._id));
+    assert.equal(String(sent.update.$set.team), String(team));
+    assert.equal(sent.update.$push.reopens.$each.length, 1);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import User from '../models/User.js';
+import Reward from '../models/Reward.js';
+import Redemption from '../models/Redemption.js';
+import PointTransaction from '../models/PointTransaction.js';
+import { redeemReward, cancelRedemption, RewardError } from '../services/rewards.js';
+
+// In-memory stand-ins for the collections a redemption touches. Users have no
+// municipality, so no notification is stored for them.
+let users;
+let rewards;
+let ledger;
+let saved;
+let saveErrors;
+
+const duplicateKey = () => Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+
+beforeEach(() => {
+  users = new Map();
+  rewards = new Map();
+  ledger = [];
+  saved = [];
+  saveErrors = [];
+
+  mock.method(User, 'findOneAndUpdate', (filter, { $inc }) => ({
+    select: async () => {
+      const user = users.get(String(filter._id));
+      const minimum = filter['rewards.points']?.$gte;
+      if (!user || (minimum !== undefined && user.points < minimum)) return null;
+      user.points += $inc['rewards.points'];
+      return { _id: user._id, rewards: { points: user.points, totalEarned: 0, level: 'bronze' } };
+    }
+  }));
+  mock.method(User, 'exists', async ({ _id }) => users.has(String(_id)));
+  mock.method(User, 'updateOne', async ({ _id }, { $inc }) => {
+    if ($inc) users.get(String(_id)).points += $inc['rewards.points'];
+  });
+
+  mock.method(Reward, 'findOneAndUpdate', async ({ _id }) => {
+    const reward = rewards.get(String(_id));
+    if (!reward?.isActive || reward.stock <= 0) return null;
+    reward.stock -= 1;
+    return { ...reward };
+  });
+  mock.method(Reward, 'exists', async ({ _id }) => Boolean(rewards.get(String(_id))?.isActive));
+  mock.method(Reward, 'updateOne', async ({ _id }, { $inc }) => { rewards.get(String(_id)).stock += $inc.stock; });
+
+  mock.method(PointTransaction, 'create', async (entry) => {
+    const credited = ledger.some(other => other.amount > 0 && entry.amount > 0 &&
+      other.source === entry.source && String(other.reference) === String(entry.reference));
+    if (credited) throw duplicateKey();
+    ledger.push(entry);
+    return entry;
+  });
+
+  mock.method(Redemption.prototype, 'save', async function() {
+    const error = saveErrors.shift();
+    if (error) throw error;
+    saved.push(this);
+    return this;
+  });
+});
+
+afterEach(() => mock.restoreAll());
+
+const citizen = (points) => {
+  const user = { _id: new mongoose.Types.ObjectId(), points };
+  users.set(String(user._id), user);
+  return user;
+};
+
+const reward = (fields) => {
+  const item = { _id: new mongoose.Types.ObjectId(), name: 'Bus pass', pointsCost: 100, stock: 1, isActive: true, ...fields };
+  rewards.set(String(item._id), item);
+  return item;
+};
+
+describe('redeeming a reward', () => {
+  it('spends the points, takes one item out of stock and issues a voucher', async () => {
+    const user = citizen(150);
+    const pass = reward({ stock: 3 });
+    const redemption = await redeemReward(user, pass._id);
+
+    assert.match(redemption.voucherCode, /^RW-[A-HJ-NP-Z2-9]{4}-[A-HJ-NP-Z2-9]{4}$/);
+    assert.equal(redemption.status, 'pending');
+    assert.equal(user.points, 50);
+    assert.equal(pass.stock, 2);
+    assert.deepEqual(ledger.map(({ amount, reference }) => [amount, String(reference)]), [[-100, String(redemption._id)]]);
+  });
+
+  it('puts the item back when the points are not enough', async () => {
+    const user = citizen(50);
+    const pass = reward();
+    await assert.rejects(
+      redeemReward(user, pass._id),
+      (error) => error instanceof RewardError && error.statusCode === 409 && error.message === 'Not enough points'
+    );
+    assert.equal(pass.stock, 1);
+    assert.equal(user.points, 50);
+  });
+
+  it('leaves points alone when the item is out of stock', async () => {
+    const user = citizen(150);
+    const pass = reward({ stock: 0 });
+    await assert.rejects(redeemReward(user, pass._id), { statusCode: 409, message: 'This reward is out of stock' });
+    await assert.rejects(redeemReward(user, new mongoose.Types.ObjectId()), { statusCode: 404 });
+    assert.equal(user.points, 150);
+    assert.equal(ledger.length, 0);
+  });
+
+  it('lets only one of two citizens have the last item', async () => {
+    const pass = reward();
+    const results = await Promise.allSettled([redeemReward(citizen(100), pass._id), redeemReward(citizen(100), pass._id)]);
+    assert.deepEqual(results.map(({ status }) => status).sort(), ['fulfilled', 'rejected']);
+    assert.equal(pass.stock, 0);
+    assert.equal([...users.values()].reduce((sum, { points }) => sum + points, 0), 100);
+  });
+
+  it('draws another voucher code when one is taken', async () => {
+    saveErrors.push(duplicateKey(), duplicateKey());
+    const user = citizen(100);
+    await redeemReward(user, reward()._id);
+    assert.equal(saved.length, 1);
+    assert.equal(user.points, 0);
+  });
+
+  it('refunds the points and restocks when the redemption cannot be stored', async () => {
+    saveErrors.push(new Error('connection lost'));
+    const user = citizen(120);
+    const pass = reward();
+
+    await assert.rejects(redeemReward(user, pass._id), { message: 'connection lost' });
+    assert.equal(user.points, 120);
+    assert.equal(pass.stock, 1);
+    assert.deepEqual(ledger.map(({ amount }) => amount), [-100, 100]);
+    assert.equal(String(ledger[0].reference), String(ledger[1].reference));
+  });
+});
+
+describe('cancelling a redemption', () => {
+  const pendingRedemption = async (user, pass) => {
+    const redemption = await redeemReward(user, pass._id);
+    mock.method(Redemption, 'findOneAndUpdate', async (filter, { $set }) => {
+      if (redemption.status !== filter.status) return null;
+      Object.assign(redemption, $set);
+      return redemption;
+    });
+    return redemption;
+  };
+
+  it('refunds the points and restocks the item', async () => {
+    const user = citizen(100);
+    const pass = reward();
+    const redemption = await pendingRedemption(user, pass);
+
+    const cancelled = await cancelRedemption(redemption, { by: new mongoose.Types.ObjectId(), reason: 'Shop closed' });
+    assert.equal(cancelled.status, 'cancelled');
+    assert.equal(user.points, 100);
+    assert.equal(pass.stock, 1);
+  });
+
+  it('refunds only once', async () => {
+    const user = citizen(100);
+    const pass = reward();
+    const redemption = await pendingRedemption(user, pass);
+
+    await cancelRedemption(redemption, { reason: 'Shop closed' });
+    await assert.rejects(cancelRedemption(redemption, { reason: 'Shop closed' }), { statusCode: 409 });
+    assert.equal(user.points, 100);
+    assert.equal(pass.stock, 1);
+  });
+});
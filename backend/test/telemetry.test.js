@@ -0,0 +1,78 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import Vehicle from '../models/Vehicle.js';
+import VehicleTrack from '../models/VehicleTrack.js';
+import { ingestFixes } from '../services/telemetry.js';
+
+// In-memory stand-in for the hourly track buckets
+let tracks;
+
+const keyOf = ({ vehicle, bucketStart }) => `${vehicle}:${bucketStart.getTime()}`;
+
+const applyUpdate = (track, { $push, $inc, $set }) => {
+  track.fixes = [...track.fixes, ...$push.fixes.$each].sort((a, b) => a.timestamp - b.timestamp);
+  track.count += $inc.count;
+  track.distanceMeters += $inc.distanceMeters;
+  Object.assign(track, $set);
+};
+
+beforeEach(() => {
+  tracks = new Map();
+
+  mock.method(VehicleTrack, 'findOne', (filter) => ({
+    select: async () => structuredClone(tracks.get(keyOf(filter))) || null
+  }));
+  mock.method(VehicleTrack, 'updateOne', async (filter, update) => {
+    const key = keyOf(filter);
+    if (!tracks.has(key)) tracks.set(key, { fixes: [], count: 0, distanceMeters: 0 });
+    applyUpdate(tracks.get(key), update);
+  });
+  mock.method(Vehicle, 'updateOne', async () => {});
+});
+
+afterEach(() => mock.restoreAll());
+
+// A fix every 30 seconds from 08:00, moving north
+const fixesFrom = (first, count) => Array.from({ length: count }, (_, index) => ({
+  coordinates: [73.85, 18.52 + (first + index) * 0.001],
+  timestamp: new Date(Date.UTC(2024, 5, 4, 8, 0, (first + index) * 30)).toISOString()
+}));
+
+const storedFixes = () => [...tracks.values()].flatMap(track => track.fixes);
+
+describe('telemetry ingestion', () => {
+  it('stores a resent batch only once', async () => {
+    const vehicle = { _id: new mongoose.Types.ObjectId() };
+    const batch = fixesFrom(0, 4);
+
+    assert.equal((await ingestFixes(vehicle, batch)).stored, 4);
+    const distance = tracks.values().next().value.distanceMeters;
+
+    const resent = await ingestFixes(vehicle, batch);
+    assert.deepEqual({ stored: resent.stored, skipped: resent.skipped }, { stored: 0, skipped: 4 });
+    assert.equal(storedFixes().length, 4);
+    assert.equal(tracks.values().next().value.distanceMeters, distance);
+  });
+
+  it('adds only the new fixes of an overlapping batch', async () => {
+    const vehicle = { _id: new mongoose.Types.ObjectId() };
+    await ingestFixes(vehicle, fixesFrom(0, 4));
+
+    const result = await ingestFixes(vehicle, fixesFrom(2, 4));
+    assert.equal(result.stored, 2);
+    assert.deepEqual(
+      storedFixes().map(fix => fix.timestamp.toISOString()),
+      fixesFrom(0, 6).map(fix => fix.timestamp)
+    );
+  });
+
+  it('still takes late fixes the device sends out of order', async () => {
+    const vehicle = { _id: new mongoose.Types.ObjectId() };
+    const [early, ...later] = fixesFrom(0, 4);
+    await ingestFixes(vehicle, later);
+
+    assert.equal((await ingestFixes(vehicle, [early])).stored, 1);
+    assert.equal(storedFixes().length, 4);
+  });
+});
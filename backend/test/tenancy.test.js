@@ -0,0 +1,157 @@
+import { describe, it, before, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import User from '../models/User.js';
+import Tenant from '../models/Tenant.js';
+import RolePermission from '../models/RolePermission.js';
+import { resolveTenant, requireTenant, clearTenantCache, TENANT_HEADER } from '../middleware/tenant.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+
+const tenantNamed = (slug, fields = {}) => ({ _id: new mongoose.Types.ObjectId(), slug, name: slug, isActive: true, ...fields });
+
+const pune = tenantNamed('pune');
+const nashik = tenantNamed('nashik');
+const closed = tenantNamed('closed', { isActive: false });
+const tenants = [pune, nashik, closed];
+
+const userIn = (role, tenant) => ({ _id: new mongoose.Types.ObjectId(), role, tenant: tenant?._id, isActive: true });
+
+const request = (headers = {}) => ({ header: (name) => headers[name] });
+
+const response = () => ({
+  statusCode: 200,
+  status(code) {
+    this.statusCode = code;
+    return this;
+  },
+  json(body) {
+    this.body = body;
+    return this;
+  }
+});
+
+// Runs a middleware and tells whether it passed the request on
+const run = async (middleware, req) => {
+  const res = response();
+  let passed = false;
+  await middleware(req, res, () => { passed = true; });
+  return { res, passed };
+};
+
+// Resolves the tenant like the app does, then signs the user in
+const signIn = async (user, headers = {}) => {
+  const req = request({ ...headers, Authorization: `Bearer ${jwt.sign({ id: user._id }, process.env.JWT_SECRET)}` });
+  await run(resolveTenant, req);
+  mock.method(User, 'findById', () => ({ select: async () => user }));
+  const { res, passed } = await run(authenticate, req);
+  return { req, res, passed };
+};
+
+before(() => {
+  process.env.JWT_SECRET = 'test-secret';
+});
+
+beforeEach(() => {
+  clearTenantCache();
+  delete process.env.DEFAULT_TENANT;
+  mock.method(Tenant, 'findOne', (query) => {
+    const wanted = (query.$or || [query]).map(condition => String(condition._id || condition.slug));
+    const match = tenants.find(tenant => tenant.isActive === query.isActive &&
+      (wanted.includes(String(tenant._id)) || wanted.includes(tenant.slug)));
+    return { select: () => ({ lean: async () => match || null }) };
+  });
+  // Every municipality uses the default permissions
+  mock.method(RolePermission, 'find', () => ({ lean: async () => [] }));
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('tenant resolution', () => {
+  it('takes the municipality from the header, by slug or id', async () => {
+    const bySlug = request({ [TENANT_HEADER]: 'Pune' });
+    await run(resolveTenant, bySlug);
+    assert.equal(bySlug.tenant, pune._id);
+
+    const byId = request({ [TENANT_HEADER]: String(nashik._id) });
+    await run(resolveTenant, byId);
+    assert.equal(byId.tenant, nashik._id);
+  });
+
+  it('refuses unknown and switched off municipalities', async () => {
+    for (const name of ['nowhere', 'closed']) {
+      const { res, passed } = await run(resolveTenant, request({ [TENANT_HEADER]: name }));
+      assert.equal(passed, false);
+      assert.equal(res.statusCode, 404);
+    }
+  });
+
+  it('turns away requests that need a municipality but name none', async () => {
+    // { tenant: null } would match everything without a tenant
+    const anonymous = request();
+    await run(resolveTenant, anonymous);
+    const { res, passed } = await run(requireTenant, anonymous);
+    assert.equal(passed, false);
+    assert.equal(res.statusCode, 400);
+
+    const named = request({ [TENANT_HEADER]: 'pune' });
+    await run(resolveTenant, named);
+    assert.equal((await run(requireTenant, named)).passed, true);
+  });
+
+  it('falls back to the default municipality, else none', async () => {
+    const anonymous = request();
+    await run(resolveTenant, anonymous);
+    assert.equal(anonymous.tenant, null);
+
+    process.env.DEFAULT_TENANT = 'nashik';
+    const defaulted = request();
+    await run(resolveTenant, defaulted);
+    assert.equal(defaulted.tenant, nashik._id);
+  });
+});
+
+describe('signed-in users', () => {
+  it('always work in their own municipality', async () => {
+    const { req, passed } = await signIn(userIn('citizen', pune), { [TENANT_HEADER]: 'nashik' });
+    assert.equal(passed, true);
+    assert.equal(String(req.tenant), String(pune._id));
+  });
+
+  it('cannot reach another municipality even as its admin', async () => {
+    const { req } = await signIn(userIn('admin', pune), { [TENANT_HEADER]: String(nashik._id) });
+    assert.equal(String(req.tenant), String(pune._id));
+  });
+
+  it('are turned away when their municipality is switched off', async () => {
+    const { res, passed } = await signIn(userIn('waste_worker', closed));
+    assert.equal(passed, false);
+    assert.equal(res.statusCode, 403);
+  });
+
+  it('pick a municipality through the header when they are super admins', async () => {
+    const superAdmin = userIn('super_admin');
+    const { req } = await signIn(superAdmin, { [TENANT_HEADER]: 'nashik' });
+    assert.equal(req.tenant, nashik._id);
+
+    const { req: unscoped } = await signIn(superAdmin);
+    assert.equal(unscoped.tenant, null);
+  });
+});
+
+describe('municipality routes for super admins', () => {
+  it('need a municipality to be selected', async () => {
+    const { req } = await signIn(userIn('super_admin'));
+    const { res, passed } = await run(requirePermission('report.assign'), req);
+    assert.equal(passed, false);
+    assert.equal(res.statusCode, 400);
+
+    const { req: scoped } = await signIn(userIn('super_admin'), { [TENANT_HEADER]: 'pune' });
+    assert.equal((await run(requirePermission('report.assign'), scoped)).passed, true);
+  });
+
+  it('are open without one for platform permissions', async () => {
+    const { req } = await signIn(userIn('super_admin'));
+    assert.equal((await run(requirePermission('tenant.manage'), req)).passed, true);
+  });
+});
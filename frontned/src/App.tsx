@@ -1,6 +1,8 @@
 import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider, useAuth } from './context/AuthContext';
+import { NotificationProvider } from './context/NotificationContext';
+import { useCan } from './hooks/useCan';
 import Header from './components/Header';
 import Footer from './components/Footer';
 
@@ -16,10 +18,25 @@ import TrainingModule from './pages/TrainingModule';
 import WasteReporting from './pages/WasteReporting';
 import FacilitiesMap from './pages/FacilitiesMap';
 import Profile from './pages/Profile';
+import AdminDispatch from './pages/AdminDispatch';
+import AdminFleet from './pages/AdminFleet';
+import AdminFleetTracking from './pages/AdminFleetTracking';
+import AdminRoutes from './pages/AdminRoutes';
+import AdminZones from './pages/AdminZones';
+import AdminTenants from './pages/AdminTenants';
+import AdminPermissions from './pages/AdminPermissions';
+import AdminTeams from './pages/AdminTeams';
+import AdminRewards from './pages/AdminRewards';
+import AdminBadges from './pages/AdminBadges';
+import AdminPenalties from './pages/AdminPenalties';
+import AdminSchedules from './pages/AdminSchedules';
+import Rewards from './pages/Rewards';
+import Notifications from './pages/Notifications';
 
 // Protected route component
-const ProtectedRoute: React.FC<{ children: React.ReactNode; allowedRoles?: string[] }> = ({ children, allowedRoles = [] }) => {
+const ProtectedRoute: React.FC<{ children: React.ReactNode; permission?: string }> = ({ children, permission }) => {
   const { user, loading } = useAuth();
+  const can = useCan();
 
   if (loading) {
     return (
@@ -31,7 +48,7 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode; allowedRoles?: strin
 
   if (!user) return <Navigate to="/login" />;
 
-  if (allowedRoles.length > 0 && !allowedRoles.includes(user.role)) {
+  if (permission && !can(permission)) {
     return <Navigate to="/" />;
   }
 
@@ -40,7 +57,7 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode; allowedRoles?: strin
 
 // Main App content
 const AppContent: React.FC = () => {
-  const { user } = useAuth();
+  const can = useCan();
 
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col">
@@ -58,9 +75,9 @@ const AppContent: React.FC = () => {
             path="/dashboard"
             element={
               <ProtectedRoute>
-                {user?.role === 'admin' ? (
+                {can('analytics.view') ? (
                   <AdminDashboard />
-                ) : user?.role === 'waste_worker' ? (
+                ) : can('report.claim') || can('team.supervise') ? (
                   <WorkerDashboard />
                 ) : (
                   <CitizenDashboard />
@@ -73,7 +90,7 @@ const AppContent: React.FC = () => {
           <Route
             path="/report-waste"
             element={
-              <ProtectedRoute allowedRoles={['citizen', 'green_champion']}>
+              <ProtectedRoute permission="report.create">
                 <WasteReporting />
               </ProtectedRoute>
             }
@@ -102,12 +119,124 @@ const AppContent: React.FC = () => {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/notifications"
+            element={
+              <ProtectedRoute>
+                <Notifications />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/rewards"
+            element={
+              <ProtectedRoute permission="reward.redeem">
+                <Rewards />
+              </ProtectedRoute>
+            }
+          />
 
           {/* Admin routes */}
+          <Route
+            path="/admin/dispatch"
+            element={
+              <ProtectedRoute permission="report.assign">
+                <AdminDispatch />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/fleet"
+            element={
+              <ProtectedRoute permission="vehicle.manage">
+                <AdminFleet />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/fleet/tracking"
+            element={
+              <ProtectedRoute permission="vehicle.manage">
+                <AdminFleetTracking />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/routes"
+            element={
+              <ProtectedRoute permission="route.manage">
+                <AdminRoutes />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/zones"
+            element={
+              <ProtectedRoute permission="zone.manage">
+                <AdminZones />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/teams"
+            element={
+              <ProtectedRoute permission="team.manage">
+                <AdminTeams />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/rewards"
+            element={
+              <ProtectedRoute permission="reward.manage">
+                <AdminRewards />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/badges"
+            element={
+              <ProtectedRoute permission="badge.manage">
+                <AdminBadges />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/penalties"
+            element={
+              <ProtectedRoute permission="penalty.issue">
+                <AdminPenalties />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/schedules"
+            element={
+              <ProtectedRoute permission="schedule.manage">
+                <AdminSchedules />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/tenants"
+            element={
+              <ProtectedRoute permission="tenant.brand">
+                <AdminTenants />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/permissions"
+            element={
+              <ProtectedRoute permission="permission.manage">
+                <AdminPermissions />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/admin/*"
             element={
-              <ProtectedRoute allowedRoles={['admin']}>
+              <ProtectedRoute permission="analytics.view">
                 <AdminDashboard />
               </ProtectedRoute>
             }
@@ -127,7 +256,9 @@ const App: React.FC = () => {
   return (
     <Router>
       <AuthProvider>
-        <AppContent />
+        <NotificationProvider>
+          <AppContent />
+        </NotificationProvider>
       </AuthProvider>
     </Router>
   );
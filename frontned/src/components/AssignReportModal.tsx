@@ -0,0 +1,226 @@
+import React, { useState, useEffect } from 'react';
+import { wasteService, ScheduledCollectionData } from '../services/wasteService';
+import { vehicleService, Vehicle } from '../services/vehicleService';
+import { getErrorMessage } from '../services/api';
+import { X, Truck, UserCheck, RefreshCw, CalendarClock } from 'lucide-react';
+
+interface Worker {
+  _id: string;
+  name: string;
+  email?: string;
+}
+
+interface AssignReportModalProps {
+  report: {
+    _id: string;
+    wasteType: string;
+    description?: string;
+    status?: string;
+    assignedWorker?: { _id: string; name: string } | null;
+  };
+  onClose: () => void;
+  onAssigned: (message: string) => void;
+}
+
+// Vehicles that can be sent out with a report
+const USABLE_STATUSES = 'available,in_route,loading';
+
+// Admin picks the worker and the vehicle for a report
+const AssignReportModal: React.FC<AssignReportModalProps> = ({ report, onClose, onAssigned }) => {
+  const [workers, setWorkers] = useState<Worker[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [workerId, setWorkerId] = useState(report.assignedWorker?._id || '');
+  const [vehicleId, setVehicleId] = useState('');
+  // Optional collection day shown to the citizen, with a time slot
+  const [collectionDate, setCollectionDate] = useState('');
+  const [slotStart, setSlotStart] = useState('');
+  const [slotEnd, setSlotEnd] = useState('');
+  // Assigning a completed report reopens it, which needs a reason
+  const [notes, setNotes] = useState('');
+  const reopens = report.status === 'completed';
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        const [workersResponse, vehicleList] = await Promise.all([
+          wasteService.getWorkers(),
+          vehicleService.getVehicles({ status: USABLE_STATUSES })
+        ]);
+        setWorkers(workersResponse?.data?.workers || []);
+        setVehicles(vehicleList);
+      } catch (err) {
+        console.error('Error loading assignment options:', err);
+        setError(getErrorMessage(err, 'Failed to load workers and vehicles'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadOptions();
+  }, []);
+
+  // Default to the vehicle the chosen worker drives
+  const selectWorker = (id: string) => {
+    setWorkerId(id);
+    const driven = vehicles.find(vehicle => vehicle.driver?._id === id);
+    setVehicleId(driven ? driven._id : '');
+  };
+
+  const handleSubmit = async () => {
+    if (!workerId || (reopens && !notes.trim())) return;
+
+    let scheduledCollection: ScheduledCollectionData | undefined;
+    if (collectionDate) {
+      scheduledCollection = { date: collectionDate };
+      if (slotStart) scheduledCollection.timeSlot = { start: slotStart, end: slotEnd || undefined };
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await wasteService.assignWorker(
+        report._id,
+        workerId,
+        vehicleId || undefined,
+        scheduledCollection,
+        notes.trim() || undefined
+      );
+      onAssigned(response.message || 'Report assigned');
+    } catch (err) {
+      console.error('Error assigning report:', err);
+      setError(getErrorMessage(err, 'Failed to assign report'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-md w-full">
+        <div className="border-b p-6 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Assign Report</h2>
+            <p className="text-sm text-gray-500 capitalize">{report.wasteType.replace(/_/g, ' ')} waste</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-800">{error}</div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center text-sm text-gray-500">
+              <RefreshCw className="h-4 w-4 animate-spin mr-2" />
+              Loading workers and vehicles...
+            </div>
+          ) : (
+            <>
+              <div>
+                <label className="text-sm font-medium text-gray-700 mb-1 flex items-center">
+                  <UserCheck className="h-4 w-4 mr-1" /> Worker
+                </label>
+                <select
+                  value={workerId}
+                  onChange={(e) => selectWorker(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="">Select a worker</option>
+                  {workers.map(worker => (
+                    <option key={worker._id} value={worker._id}>{worker.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium text-gray-700 mb-1 flex items-center">
+                  <Truck className="h-4 w-4 mr-1" /> Vehicle
+                </label>
+                <select
+                  value={vehicleId}
+                  onChange={(e) => setVehicleId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="">Worker's own vehicle / none</option>
+                  {vehicles.map(vehicle => (
+                    <option key={vehicle._id} value={vehicle._id}>
+                      {vehicle.vehicleId} • {vehicle.type.replace(/_/g, ' ')} • {vehicle.status.replace(/_/g, ' ')}
+                      {vehicle.driver ? ` • ${vehicle.driver.name}` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium text-gray-700 mb-1 flex items-center">
+                  <CalendarClock className="h-4 w-4 mr-1" /> Collection day (optional)
+                </label>
+                <input
+                  type="date"
+                  value={collectionDate}
+                  onChange={(e) => setCollectionDate(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+                {collectionDate && (
+                  <div className="grid grid-cols-2 gap-2 mt-2">
+                    <input
+                      type="time"
+                      value={slotStart}
+                      onChange={(e) => setSlotStart(e.target.value)}
+                      aria-label="From"
+                      className="px-3 py-2 border border-gray-300 rounded-md"
+                    />
+                    <input
+                      type="time"
+                      value={slotEnd}
+                      onChange={(e) => setSlotEnd(e.target.value)}
+                      disabled={!slotStart}
+                      aria-label="Until"
+                      className="px-3 py-2 border border-gray-300 rounded-md disabled:bg-gray-100"
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="text-sm font-medium text-gray-700 mb-1 block">
+                  {reopens ? 'Why is this report reopened?' : 'Notes (optional)'}
+                </label>
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="border-t p-6 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!workerId || saving || (reopens && !notes.trim())}
+            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+          >
+            {saving ? 'Assigning...' : 'Assign'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AssignReportModal;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { wasteService, ReportImage } from '../services/wasteService';
+import ImageChecks from './ImageChecks';
+
+interface CollectionProofProps {
+  beforeImages?: ReportImage[];
+  afterImages?: ReportImage[];
+  // Staff see the upload checks (reused photo, EXIF mismatch) under each photo
+  showChecks?: boolean;
+}
+
+const FALLBACK_IMAGE = 'data:image/svg+xml,%3Csvg xmlns="http://www.w3.org/2000/svg" width="96" height="96"%3E%3Crect width="96" height="96" fill="%23f3f4f6"/%3E%3Ctext x="50%25" y="50%25" text-anchor="middle" dy=".3em" fill="%239ca3af" font-size="12"%3ENo Image%3C/text%3E%3C/svg%3E';
+
+const PhotoRow: React.FC<{ title: string; images: ReportImage[]; showChecks: boolean }> = ({ title, images, showChecks }) => (
+  <div>
+    <p className="text-xs font-medium text-gray-500 uppercase mb-2">{title} ({images.length})</p>
+    {images.length > 0 ? (
+      <div className="flex space-x-2 overflow-x-auto">
+        {images.filter(image => image.url).map((image) => (
+          <div key={image.filename} className="flex-shrink-0 w-24">
+            <img
+              src={wasteService.getImageUrl(image, 'thumb') || FALLBACK_IMAGE}
+              alt={image.originalName || title}
+              className="w-24 h-24 object-cover rounded-md border cursor-pointer hover:opacity-90"
+              onClick={() => window.open(wasteService.getImageUrl(image) || undefined, '_blank')}
+              onError={(e) => {
+                (e.target as HTMLImageElement).src = FALLBACK_IMAGE;
+              }}
+            />
+            {showChecks && <ImageChecks image={image} />}
+          </div>
+        ))}
+      </div>
+    ) : (
+      <p className="text-sm text-gray-400">No photos</p>
+    )}
+  </div>
+);
+
+// Before/after photos uploaded by the worker as proof of collection
+const CollectionProof: React.FC<CollectionProofProps> = ({ beforeImages = [], afterImages = [], showChecks = false }) => {
+  if (beforeImages.length === 0 && afterImages.length === 0) return null;
+
+  return (
+    <div>
+      <label className="text-sm font-medium text-gray-500 block mb-2">Proof of Collection</label>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 bg-gray-50 border border-gray-200 rounded-lg p-4">
+        <PhotoRow title="Before" images={beforeImages} showChecks={showChecks} />
+        <PhotoRow title="After" images={afterImages} showChecks={showChecks} />
+      </div>
+    </div>
+  );
+};
+
+export default CollectionProof;
@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { scheduleService, MyCollections, Pickup, CollectionStream, STREAM_LABELS } from '../services/scheduleService';
+import { getErrorMessage } from '../services/api';
+import { Calendar, Bell, CalendarX, MapPin } from 'lucide-react';
+
+const STREAM_STYLES: Record<CollectionStream, { box: string; icon: string }> = {
+  general: { box: 'bg-gray-50', icon: 'text-gray-600' },
+  recyclables: { box: 'bg-green-50', icon: 'text-green-600' },
+  organic: { box: 'bg-blue-50', icon: 'text-blue-600' },
+  hazardous: { box: 'bg-red-50', icon: 'text-red-600' },
+  electronic: { box: 'bg-purple-50', icon: 'text-purple-600' },
+  bulky: { box: 'bg-yellow-50', icon: 'text-yellow-700' }
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "Today", "Tomorrow" or "Friday, 31 May"; days are the municipality's
+// calendar days, so they are read as UTC to keep them as they are
+const formatDay = (day: string, today: string) => {
+  const offset = Math.round((Date.parse(`${day}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / DAY_MS);
+  if (offset === 0) return 'Today';
+  if (offset === 1) return 'Tomorrow';
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'UTC'
+  });
+};
+
+// Next pickup of each waste stream at the citizen's address, with
+// holidays and reschedules coming up
+const CollectionScheduleCard: React.FC = () => {
+  const [collections, setCollections] = useState<MyCollections | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    scheduleService.getMyPickups()
+      .then(setCollections)
+      .catch(err => setError(getErrorMessage(err, 'Failed to load the collection schedule')));
+  }, []);
+
+  const changes = collections?.upcoming.filter((pickup: Pickup) => pickup.status !== 'scheduled') || [];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mt-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Collection Schedule</h2>
+
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : !collections ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : !collections.located ? (
+        <div className="flex items-start text-sm text-gray-600">
+          <MapPin className="h-5 w-5 text-gray-400 mr-2 flex-shrink-0" />
+          <p>
+            Add the location of your address in your <Link to="/profile" className="text-green-600 hover:text-green-700">profile</Link> to
+            see when your waste is collected.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {collections.reminders.map(reminder => (
+            <div key={reminder._id} className="flex items-start p-3 bg-amber-50 rounded-lg text-sm text-amber-900">
+              <Bell className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+              <p>{reminder.message}</p>
+            </div>
+          ))}
+
+          {collections.next.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              {collections.zones.length === 0
+                ? 'Your address is outside the zones the municipality collects in.'
+                : 'No pickups planned in the next two weeks.'}
+            </p>
+          ) : (
+            collections.next.map(pickup => (
+              <div key={pickup.stream} className={`flex items-center p-3 rounded-lg ${STREAM_STYLES[pickup.stream].box}`}>
+                <Calendar className={`h-5 w-5 mr-3 ${STREAM_STYLES[pickup.stream].icon}`} />
+                <div>
+                  <p className="font-medium text-gray-900">{STREAM_LABELS[pickup.stream]}</p>
+                  <p className="text-sm text-gray-500">
+                    {formatDay(pickup.date, collections.today)}, {pickup.time}
+                    {pickup.status === 'moved' && ` (moved: ${pickup.reason})`}
+                  </p>
+                </div>
+              </div>
+            ))
+          )}
+
+          {changes.map(pickup => (
+            <div key={`${pickup.schedule}-${pickup.originalDate || pickup.date}`} className="flex items-start text-sm text-gray-600">
+              <CalendarX className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0 text-orange-500" />
+              <p>
+                {pickup.status === 'cancelled'
+                  ? `No ${STREAM_LABELS[pickup.stream].toLowerCase()} pickup ${formatDay(pickup.date, collections.today).toLowerCase()}`
+                  : `${STREAM_LABELS[pickup.stream]} moves from ${formatDay(pickup.originalDate || pickup.date, collections.today).toLowerCase()} ` +
+                    `to ${formatDay(pickup.date, collections.today).toLowerCase()}`}
+                {' '}({pickup.reason})
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CollectionScheduleCard;
@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import { wasteService, DuplicateCandidate } from '../services/wasteService';
+import { getErrorMessage } from '../services/api';
+import { GitMerge, MapPin, RefreshCw, ThumbsUp } from 'lucide-react';
+
+interface DuplicateCandidatesProps {
+  reportId: string;
+  merging: boolean;
+  onMerge: (parentId: string) => void;
+}
+
+// Open reports near this one that may describe the same issue
+const DuplicateCandidates: React.FC<DuplicateCandidatesProps> = ({ reportId, merging, onMerge }) => {
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadCandidates = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const duplicates = await wasteService.getDuplicateCandidates(reportId);
+        if (!cancelled) setCandidates(duplicates);
+      } catch (err) {
+        console.error('Error loading duplicate candidates:', err);
+        if (!cancelled) setError(getErrorMessage(err, 'Failed to look for duplicates'));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadCandidates();
+    return () => {
+      cancelled = true;
+    };
+  }, [reportId]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <RefreshCw className="h-4 w-4 animate-spin mr-2" />
+        Looking for duplicate reports...
+      </div>
+    );
+  }
+
+  if (error) return <p className="text-sm text-red-600">{error}</p>;
+  if (candidates.length === 0) return null;
+
+  return (
+    <div>
+      <label className="text-sm font-medium text-gray-500 mb-2 flex items-center">
+        <GitMerge className="h-4 w-4 mr-1" />
+        Possible duplicates ({candidates.length})
+      </label>
+      <div className="space-y-2">
+        {candidates.map((candidate) => (
+          <div
+            key={candidate._id}
+            className="flex items-center justify-between bg-yellow-50 border border-yellow-200 rounded-lg p-3"
+          >
+            <div className="min-w-0 mr-3">
+              <p className="text-sm font-medium text-gray-900 capitalize">
+                {candidate.wasteType} • {candidate.status.replace(/_/g, ' ')}
+              </p>
+              <p className="text-sm text-gray-600 truncate">{candidate.description}</p>
+              <p className="text-xs text-gray-500 flex items-center mt-1">
+                <MapPin className="h-3 w-3 mr-1" />
+                {candidate.distanceMeters} m away • {new Date(candidate.createdAt).toLocaleDateString()}
+                {candidate.supporterCount > 0 && (
+                  <span className="flex items-center ml-2">
+                    <ThumbsUp className="h-3 w-3 mr-1" />
+                    {candidate.supporterCount}
+                  </span>
+                )}
+              </p>
+            </div>
+            <button
+              onClick={() => onMerge(candidate._id)}
+              disabled={merging}
+              className="px-3 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-800 disabled:opacity-50 text-sm whitespace-nowrap"
+            >
+              Merge into this
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateCandidates;
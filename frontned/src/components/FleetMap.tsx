@@ -0,0 +1,120 @@
+import React, { useEffect, useRef } from 'react';
+import Map, { Marker, Source, Layer, NavigationControl, MapRef } from 'react-map-gl';
+import 'mapbox-gl/dist/mapbox-gl.css';
+import { Truck, MapPin } from 'lucide-react';
+
+const MAPBOX_TOKEN = import.meta.env.VITE_MAPBOX_TOKEN;
+
+export interface FleetMapMarker {
+  id: string;
+  label: string;
+  coordinates: [number, number]; // [longitude, latitude]
+  color: string;
+  faded?: boolean;
+}
+
+interface FleetMapProps {
+  markers: FleetMapMarker[];
+  path?: [number, number][];
+  height?: number;
+  onSelect?: (id: string) => void;
+}
+
+// Zoom used when there is a single point to show
+const SINGLE_POINT_ZOOM = 14;
+
+// Mapbox map with truck markers and an optional driven path
+const FleetMap: React.FC<FleetMapProps> = ({ markers, path = [], height = 500, onSelect }) => {
+  const mapRef = useRef<MapRef>(null);
+
+  // Keep every marker and the whole path in view when the data changes
+  const points = [...markers.map(marker => marker.coordinates), ...path];
+  const boundsKey = points.length > 0
+    ? [
+        Math.min(...points.map(p => p[0])),
+        Math.min(...points.map(p => p[1])),
+        Math.max(...points.map(p => p[0])),
+        Math.max(...points.map(p => p[1]))
+      ].join(',')
+    : '';
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !boundsKey) return;
+
+    const [minLon, minLat, maxLon, maxLat] = boundsKey.split(',').map(Number);
+    if (minLon === maxLon && minLat === maxLat) {
+      map.flyTo({ center: [minLon, minLat], zoom: SINGLE_POINT_ZOOM });
+    } else {
+      map.fitBounds([[minLon, minLat], [maxLon, maxLat]], { padding: 60, maxZoom: 16 });
+    }
+  }, [boundsKey]);
+
+  if (!MAPBOX_TOKEN) {
+    return (
+      <div
+        className="w-full bg-gradient-to-br from-green-50 to-blue-50 flex items-center justify-center rounded-lg"
+        style={{ height }}
+      >
+        <div className="text-center p-8">
+          <MapPin className="h-12 w-12 text-green-600 mx-auto mb-3" />
+          <p className="text-gray-900 font-medium mb-1">Map unavailable</p>
+          <p className="text-sm text-gray-600">Set VITE_MAPBOX_TOKEN to show vehicles on the map.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const [initialLon, initialLat] = points[0] || [0, 20];
+
+  return (
+    <div className="w-full rounded-lg overflow-hidden" style={{ height }}>
+      <Map
+        ref={mapRef}
+        mapboxAccessToken={MAPBOX_TOKEN}
+        initialViewState={{ longitude: initialLon, latitude: initialLat, zoom: points.length ? 12 : 1.5 }}
+        mapStyle="mapbox://styles/mapbox/streets-v12"
+        style={{ width: '100%', height: '100%' }}
+      >
+        <NavigationControl position="top-right" />
+
+        {path.length > 1 && (
+          <Source
+            id="track"
+            type="geojson"
+            data={{
+              type: 'Feature',
+              properties: {},
+              geometry: { type: 'LineString', coordinates: path }
+            }}
+          >
+            <Layer
+              id="track-line"
+              type="line"
+              paint={{ 'line-color': '#2563EB', 'line-width': 4, 'line-opacity': 0.8 }}
+            />
+          </Source>
+        )}
+
+        {markers.map(marker => (
+          <Marker
+            key={marker.id}
+            longitude={marker.coordinates[0]}
+            latitude={marker.coordinates[1]}
+            anchor="bottom"
+            onClick={() => onSelect?.(marker.id)}
+          >
+            <div className={`flex flex-col items-center cursor-pointer ${marker.faded ? 'opacity-50' : ''}`}>
+              <span className="px-2 py-0.5 mb-1 text-xs font-semibold bg-white rounded shadow">{marker.label}</span>
+              <span className="p-1.5 rounded-full text-white shadow" style={{ backgroundColor: marker.color }}>
+                <Truck className="h-4 w-4" />
+              </span>
+            </div>
+          </Marker>
+        ))}
+      </Map>
+    </div>
+  );
+};
+
+export default FleetMap;
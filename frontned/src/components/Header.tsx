@@ -1,6 +1,8 @@
 import React from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
+import { useCan } from '../hooks/useCan';
+import { useNotifications } from '../context/NotificationContext';
 import { 
   Recycle, 
   User, 
@@ -12,7 +14,9 @@ import {
 } from 'lucide-react';
 
 const Header: React.FC = () => {
-  const { user, logout } = useAuth();
+  const { user, tenant, logout } = useAuth();
+  const can = useCan();
+  const { unreadCount } = useNotifications();
   const navigate = useNavigate();
   const [isMenuOpen, setIsMenuOpen] = React.useState(false);
   const [isProfileOpen, setIsProfileOpen] = React.useState(false);
@@ -47,10 +51,32 @@ const Header: React.FC = () => {
       { label: 'Training', path: '/training' },
     ];
 
-    if (user.role === 'citizen' || user.role === 'green_champion') {
+    if (can('report.create')) {
       authenticatedItems.splice(2, 0, { label: 'Report Waste', path: '/report-waste' });
     }
 
+    if (can('reward.redeem')) {
+      authenticatedItems.push({ label: 'Rewards', path: '/rewards' });
+    }
+
+    const adminItems = [
+      { label: 'Dispatch', path: '/admin/dispatch', permission: 'report.assign' },
+      { label: 'Fleet', path: '/admin/fleet', permission: 'vehicle.manage' },
+      { label: 'Zones', path: '/admin/zones', permission: 'zone.manage' },
+      { label: 'Teams', path: '/admin/teams', permission: 'team.manage' },
+      { label: 'Schedules', path: '/admin/schedules', permission: 'schedule.manage' },
+      { label: 'Catalogue', path: '/admin/rewards', permission: 'reward.manage' },
+      { label: 'Badges', path: '/admin/badges', permission: 'badge.manage' },
+      { label: 'Penalties', path: '/admin/penalties', permission: 'penalty.issue' },
+      { label: 'Roles', path: '/admin/permissions', permission: 'permission.manage' },
+      can('tenant.manage')
+        ? { label: 'Municipalities', path: '/admin/tenants', permission: 'tenant.manage' }
+        : { label: 'Branding', path: '/admin/tenants', permission: 'tenant.brand' }
+    ];
+    adminItems
+      .filter(item => can(item.permission))
+      .forEach(({ label, path }) => authenticatedItems.push({ label, path }));
+
     return authenticatedItems;
   };
 
@@ -60,11 +86,18 @@ const Header: React.FC = () => {
         <div className="flex justify-between items-center h-16">
           {/* Logo */}
           <Link to="/" className="flex items-center space-x-3">
-            <div className="bg-gradient-to-r from-green-500 to-green-600 p-2 rounded-lg">
-              <Recycle className="h-6 w-6 text-white" />
-            </div>
+            {tenant?.branding?.logoUrl ? (
+              <img src={tenant.branding.logoUrl} alt="" className="h-10 w-10 rounded-lg object-contain" />
+            ) : (
+              <div
+                className="bg-gradient-to-r from-green-500 to-green-600 p-2 rounded-lg"
+                style={tenant?.branding?.primaryColor ? { background: tenant.branding.primaryColor } : undefined}
+              >
+                <Recycle className="h-6 w-6 text-white" />
+              </div>
+            )}
             <span className="text-xl font-bold text-gray-900">
-              EcoManage
+              {tenant?.branding?.displayName || 'EcoManage'}
             </span>
           </Link>
 
@@ -80,6 +113,21 @@ const Header: React.FC = () => {
               </Link>
             ))}
 
+            {user && (
+              <Link
+                to="/notifications"
+                className="relative text-gray-600 hover:text-green-600 p-2"
+                title="Notifications"
+              >
+                <Bell className="h-6 w-6" />
+                {unreadCount > 0 && (
+                  <span className="absolute top-0 right-0 min-w-[1.25rem] h-5 px-1 bg-red-500 text-white text-xs font-semibold rounded-full flex items-center justify-center">
+                    {unreadCount > 99 ? '99+' : unreadCount}
+                  </span>
+                )}
+              </Link>
+            )}
+
             {user && (
               <div className="relative">
                 <button
@@ -123,13 +171,17 @@ const Header: React.FC = () => {
                       Profile
                     </Link>
                     
-                    <button
+                    <Link
+                      to="/notifications"
                       onClick={() => setIsProfileOpen(false)}
-                      className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                      className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
                     >
                       <Bell className="h-4 w-4 mr-2" />
                       Notifications
-                    </button>
+                      {unreadCount > 0 && (
+                        <span className="ml-auto px-2 text-xs bg-red-100 text-red-700 rounded-full">{unreadCount}</span>
+                      )}
+                    </Link>
                     
                     <button
                       onClick={() => setIsProfileOpen(false)}
@@ -155,7 +207,17 @@ const Header: React.FC = () => {
           </nav>
 
           {/* Mobile menu button */}
-          <div className="md:hidden">
+          <div className="md:hidden flex items-center">
+            {user && (
+              <Link to="/notifications" className="relative text-gray-600 hover:text-green-600 p-2 mr-2" title="Notifications">
+                <Bell className="h-6 w-6" />
+                {unreadCount > 0 && (
+                  <span className="absolute top-0 right-0 min-w-[1.25rem] h-5 px-1 bg-red-500 text-white text-xs font-semibold rounded-full flex items-center justify-center">
+                    {unreadCount > 99 ? '99+' : unreadCount}
+                  </span>
+                )}
+              </Link>
+            )}
             <button
               onClick={() => setIsMenuOpen(!isMenuOpen)}
               className="text-gray-700 hover:text-green-600 focus:outline-none focus:text-green-600"
@@ -0,0 +1,44 @@
+import React from 'react';
+import { ReportImage } from '../services/wasteService';
+import { Copy, MapPinOff, Clock } from 'lucide-react';
+
+const formatDistance = (meters: number) =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${meters} m`;
+
+// Warnings raised when the photo was uploaded: reused picture, or EXIF
+// position/time that does not match the report. Renders nothing for clean photos
+const ImageChecks: React.FC<{ image: ReportImage }> = ({ image }) => {
+  const { exif, possibleReuseOf } = image;
+  const distance = exif?.locationMismatch ? exif.distanceMeters : undefined;
+  const takenAt = exif?.timeMismatch ? exif.takenAt : undefined;
+
+  if (!possibleReuseOf && distance === undefined && !takenAt) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {possibleReuseOf && (
+        <span
+          className="inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800"
+          title={`Matches ${possibleReuseOf.filename} on report #${possibleReuseOf.report.slice(-6)}`}
+        >
+          <Copy className="h-3 w-3 mr-1" />
+          Reused photo
+        </span>
+      )}
+      {distance !== undefined && (
+        <span className="inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-orange-100 text-orange-800">
+          <MapPinOff className="h-3 w-3 mr-1" />
+          Taken {formatDistance(distance)} away
+        </span>
+      )}
+      {takenAt && (
+        <span className="inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800">
+          <Clock className="h-3 w-3 mr-1" />
+          Taken {new Date(takenAt).toLocaleDateString()}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default ImageChecks;
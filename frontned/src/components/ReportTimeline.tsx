@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import { wasteService, ReportEvent } from '../services/wasteService';
+import { getErrorMessage } from '../services/api';
+import {
+  FileText,
+  Hand,
+  UserCheck,
+  RefreshCw,
+  ShieldCheck,
+  Trophy,
+  History,
+  RotateCcw,
+  Camera,
+  ThumbsUp,
+  GitMerge,
+  MinusCircle,
+  Send,
+  XCircle,
+  BadgeCheck,
+  Undo2
+} from 'lucide-react';
+
+interface ReportTimelineProps {
+  reportId: string;
+}
+
+const formatStatus = (status?: string) => (status ? status.replace(/_/g, ' ') : '');
+
+const describeEvent = (event: ReportEvent) => {
+  switch (event.type) {
+    case 'created':
+      return 'Report submitted';
+    case 'claimed':
+      return 'Claimed by worker';
+    case 'assigned':
+      return `${event.meta?.auto ? 'Auto-assigned' : 'Assigned'} to ${String(event.meta?.workerName || 'a worker')}` +
+        (event.meta?.vehicleId ? ` with vehicle ${String(event.meta.vehicleId)}` : '');
+    case 'dispatch_offered':
+      return `Offered to ${String(event.meta?.workerName || 'a worker')}`;
+    case 'dispatch_declined':
+      return 'Offer declined';
+    case 'verified':
+      return event.meta?.rating
+        ? `Collection verified (${Number(event.meta.rating)}/5)`
+        : 'Collection verified';
+    case 'reopened':
+      return `Report reopened${event.meta?.reopenCount ? ` (#${Number(event.meta.reopenCount)})` : ''}`;
+    case 'photos_added':
+      return `${Number(event.meta?.count || 0)} ${String(event.meta?.stage || '')} photo(s) added`;
+    case 'reward_awarded':
+      return `${Number(event.meta?.points || 0)} points awarded`;
+    case 'supported':
+      return event.meta?.mergedReport ? 'Duplicate report merged in' : 'Confirmed by another citizen';
+    case 'merged':
+      return 'Merged into an existing report';
+    case 'reward_revoked':
+      return `${Number(event.meta?.points || 0)} points revoked (duplicate)`;
+    case 'completion_approved':
+      return 'Completion approved by supervisor';
+    case 'completion_returned':
+      return 'Returned to the worker for more work';
+    case 'status_changed':
+      return `Status changed from ${formatStatus(event.fromStatus)} to ${formatStatus(event.toStatus)}`;
+    default:
+      return 'Updated';
+  }
+};
+
+const getEventIcon = (type: ReportEvent['type']) => {
+  switch (type) {
+    case 'created': return <FileText className="h-4 w-4 text-gray-600" />;
+    case 'claimed': return <Hand className="h-4 w-4 text-purple-600" />;
+    case 'assigned': return <UserCheck className="h-4 w-4 text-orange-600" />;
+    case 'verified': return <ShieldCheck className="h-4 w-4 text-emerald-600" />;
+    case 'reopened': return <RotateCcw className="h-4 w-4 text-red-600" />;
+    case 'photos_added': return <Camera className="h-4 w-4 text-indigo-600" />;
+    case 'reward_awarded': return <Trophy className="h-4 w-4 text-yellow-600" />;
+    case 'supported': return <ThumbsUp className="h-4 w-4 text-green-600" />;
+    case 'merged': return <GitMerge className="h-4 w-4 text-gray-600" />;
+    case 'reward_revoked': return <MinusCircle className="h-4 w-4 text-red-600" />;
+    case 'dispatch_offered': return <Send className="h-4 w-4 text-purple-600" />;
+    case 'dispatch_declined': return <XCircle className="h-4 w-4 text-gray-500" />;
+    case 'completion_approved': return <BadgeCheck className="h-4 w-4 text-emerald-600" />;
+    case 'completion_returned': return <Undo2 className="h-4 w-4 text-orange-600" />;
+    default: return <RefreshCw className="h-4 w-4 text-blue-600" />;
+  }
+};
+
+const ReportTimeline: React.FC<ReportTimelineProps> = ({ reportId }) => {
+  const [events, setEvents] = useState<ReportEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadHistory = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const history = await wasteService.getReportHistory(reportId);
+        if (!cancelled) setEvents(history);
+      } catch (err) {
+        console.error('Error loading report history:', err);
+        if (!cancelled) setError(getErrorMessage(err, 'Failed to load history'));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [reportId]);
+
+  return (
+    <div>
+      <label className="text-sm font-medium text-gray-500 mb-3 flex items-center">
+        <History className="h-4 w-4 mr-1" />
+        History
+      </label>
+
+      {loading ? (
+        <div className="flex items-center text-sm text-gray-500">
+          <RefreshCw className="h-4 w-4 animate-spin mr-2" />
+          Loading history...
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-gray-500">No activity recorded yet.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2">
+          {events.map((event) => (
+            <li key={event._id} className="mb-4 ml-6">
+              <span className="absolute -left-3 flex items-center justify-center w-6 h-6 bg-white border border-gray-200 rounded-full">
+                {getEventIcon(event.type)}
+              </span>
+              <p className="text-sm font-medium text-gray-900 capitalize">{describeEvent(event)}</p>
+              <p className="text-xs text-gray-500">
+                {event.actor?.name || 'System'}
+                {event.actor?.role && ` (${event.actor.role.replace(/_/g, ' ')})`}
+                {' • '}
+                {new Date(event.at).toLocaleString()}
+              </p>
+              {event.notes && (
+                <p className="text-sm text-gray-600 mt-1 bg-gray-50 rounded p-2">{event.notes}</p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default ReportTimeline;
@@ -0,0 +1,120 @@
+import React from 'react';
+import { CollectionRoute, RouteStop, StopStatus } from '../services/routeService';
+import { MapPin, Package, Factory, CheckCircle, SkipForward, Navigation } from 'lucide-react';
+
+interface RouteStopsProps {
+  route: CollectionRoute;
+  // Drivers get arrive/complete/skip actions; admins see a read-only list
+  onStopAction?: (stop: RouteStop, status: Exclude<StopStatus, 'pending'>) => void;
+  busyStopId?: string | null;
+}
+
+const STOP_STATUS_COLORS: Record<StopStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  arrived: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  skipped: 'bg-yellow-100 text-yellow-800'
+};
+
+const formatTime = (value?: string) =>
+  value ? new Date(value).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }) : '—';
+
+const stopTitle = (stop: RouteStop) => {
+  if (stop.kind === 'report' && stop.report) {
+    const address = stop.report.location?.address;
+    const place = [address?.street, address?.city].filter(Boolean).join(', ');
+    return `${stop.report.wasteType.replace(/_/g, ' ')} waste${place ? ` • ${place}` : ''}`;
+  }
+  return stop.label || 'Stop';
+};
+
+const StopIcon: React.FC<{ kind: RouteStop['kind'] }> = ({ kind }) => {
+  if (kind === 'disposal') return <Factory className="h-4 w-4 text-purple-600" />;
+  if (kind === 'pickup') return <Package className="h-4 w-4 text-blue-600" />;
+  return <MapPin className="h-4 w-4 text-green-600" />;
+};
+
+// Ordered stop list of a collection route
+const RouteStops: React.FC<RouteStopsProps> = ({ route, onStopAction, busyStopId }) => {
+  const canAct = !!onStopAction && ['planned', 'in_progress'].includes(route.status);
+  const nextStop = route.stops.find(stop => stop.status === 'pending' || stop.status === 'arrived');
+
+  return (
+    <ol className="space-y-2">
+      {route.stops.map(stop => {
+        const isNext = stop._id === nextStop?._id;
+        const busy = busyStopId === stop._id;
+
+        return (
+          <li
+            key={stop._id}
+            className={`flex items-start justify-between p-3 rounded-lg border ${isNext ? 'border-green-400 bg-green-50' : 'border-gray-200'}`}
+          >
+            <div className="flex items-start">
+              <span className="w-6 h-6 mr-3 flex-shrink-0 rounded-full bg-gray-800 text-white text-xs font-semibold flex items-center justify-center">
+                {stop.order}
+              </span>
+              <div>
+                <p className="font-medium text-gray-900 capitalize flex items-center gap-1">
+                  <StopIcon kind={stop.kind} /> {stopTitle(stop)}
+                </p>
+                <p className="text-xs text-gray-500">
+                  Planned {formatTime(stop.plannedArrival)}
+                  {stop.actualArrival && ` • arrived ${formatTime(stop.actualArrival)}`}
+                  {stop.estimatedLoad > 0 && ` • ~${stop.estimatedLoad} ${route.vehicle.capacity.unit.replace('_', ' ')}`}
+                </p>
+                {stop.notes && <p className="text-xs text-gray-600 mt-1">{stop.notes}</p>}
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2 ml-2">
+              <span className={`px-2 py-0.5 rounded-full text-xs font-semibold capitalize ${STOP_STATUS_COLORS[stop.status]}`}>
+                {stop.status}
+              </span>
+              {canAct && (stop.status === 'pending' || stop.status === 'arrived') && (
+                <>
+                  <a
+                    href={`https://www.google.com/maps/dir/?api=1&destination=${stop.location[1]},${stop.location[0]}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="p-1 text-blue-600 hover:text-blue-800"
+                    title="Navigate"
+                  >
+                    <Navigation className="h-4 w-4" />
+                  </a>
+                  {stop.status === 'pending' && (
+                    <button
+                      onClick={() => onStopAction?.(stop, 'arrived')}
+                      disabled={busy}
+                      className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Arrived
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onStopAction?.(stop, 'completed')}
+                    disabled={busy}
+                    className="p-1 text-green-600 hover:text-green-800 disabled:opacity-50"
+                    title="Done"
+                  >
+                    <CheckCircle className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => onStopAction?.(stop, 'skipped')}
+                    disabled={busy}
+                    className="p-1 text-yellow-600 hover:text-yellow-800 disabled:opacity-50"
+                    title="Skip"
+                  >
+                    <SkipForward className="h-4 w-4" />
+                  </button>
+                </>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default RouteStops;
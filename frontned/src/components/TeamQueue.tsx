@@ -0,0 +1,229 @@
+import { Team, TeamKpis } from '../services/teamService';
+import { BadgeCheck, Undo2, Users, Eye, MapPin, Inbox, RefreshCw } from 'lucide-react';
+
+interface TeamQueueReport {
+  _id: string;
+  wasteType: string;
+  status: string;
+  severity: string;
+  createdAt: string;
+  location: {
+    coordinates: [number, number];
+    address?: { street: string; city: string; state: string };
+  };
+  assignedWorker?: { _id: string; name: string };
+  actualCollection?: { date: string; notes?: string };
+  completionReview?: { status?: 'pending' | 'approved' | 'returned'; notes?: string };
+  reopenCount?: number;
+}
+
+interface TeamQueueProps<R extends TeamQueueReport> {
+  team: Team;
+  kpis: TeamKpis | null;
+  reports: R[];
+  busyReportId?: string | null;
+  onReassign: (report: R, workerId: string) => void;
+  onReview: (report: R, decision: 'approve' | 'return') => void;
+  onViewDetails: (report: R) => void;
+  formatLocation: (location: R['location']) => string;
+}
+
+const OPEN_STATUSES = ['reported', 'acknowledged', 'assigned', 'in_progress'];
+
+const formatHours = (hours: number | null) => (hours === null ? '—' : `${hours} h`);
+
+// Supervisor view of a team: per-member KPIs, completions waiting for
+// sign-off and the open queue with reassignment inside the team
+function TeamQueue<R extends TeamQueueReport>({
+  team,
+  kpis,
+  reports,
+  busyReportId,
+  onReassign,
+  onReview,
+  onViewDetails,
+  formatLocation
+}: TeamQueueProps<R>) {
+  const awaitingApproval = reports.filter(
+    r => r.status === 'completed' && r.completionReview?.status === 'pending'
+  );
+  const openReports = reports.filter(r => OPEN_STATUSES.includes(r.status));
+
+  return (
+    <div className="divide-y divide-gray-200">
+      <div className="p-6">
+        <div className="flex items-center justify-between flex-wrap gap-2 mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Users className="h-5 w-5 mr-2 text-green-600" />
+            {team.name}
+            {team.zone && <span className="ml-2 text-sm font-normal text-gray-500">• {team.zone.name}</span>}
+          </h3>
+          {kpis && (
+            <p className="text-sm text-gray-500">
+              Last {kpis.period.days} days • {kpis.backlog} unassigned in zone
+            </p>
+          )}
+        </div>
+
+        {!kpis ? (
+          <p className="text-sm text-gray-500">Loading team figures...</p>
+        ) : kpis.members.length === 0 ? (
+          <p className="text-sm text-gray-500">This team has no members yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500 uppercase border-b">
+                  <th className="py-2 pr-4">Member</th>
+                  <th className="py-2 px-2 text-right">Assigned</th>
+                  <th className="py-2 px-2 text-right">In progress</th>
+                  <th className="py-2 px-2 text-right">Completed</th>
+                  <th className="py-2 px-2 text-right">Avg time</th>
+                  <th className="py-2 px-2 text-right">Awaiting</th>
+                  <th className="py-2 px-2 text-right">Approved</th>
+                  <th className="py-2 px-2 text-right">Returned</th>
+                  <th className="py-2 pl-2 text-right">Reopened</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {[...kpis.members.map(member => ({ key: member.worker._id, label: member.worker.name, row: member })),
+                  { key: 'total', label: 'Team', row: kpis.totals }].map(({ key, label, row }) => (
+                  <tr key={key} className={key === 'total' ? 'font-semibold bg-gray-50' : ''}>
+                    <td className="py-2 pr-4 text-gray-900">{label}</td>
+                    <td className="py-2 px-2 text-right">{row.assigned}</td>
+                    <td className="py-2 px-2 text-right">{row.inProgress}</td>
+                    <td className="py-2 px-2 text-right">{row.completed}</td>
+                    <td className="py-2 px-2 text-right">{formatHours(row.avgCompletionHours)}</td>
+                    <td className="py-2 px-2 text-right">{row.awaitingApproval}</td>
+                    <td className="py-2 px-2 text-right text-green-700">{row.approved}</td>
+                    <td className="py-2 px-2 text-right text-orange-700">{row.returned}</td>
+                    <td className="py-2 pl-2 text-right text-red-700">{row.reopens}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="p-6 bg-emerald-50">
+        <h3 className="text-lg font-semibold text-emerald-900 mb-4 flex items-center">
+          <BadgeCheck className="h-5 w-5 mr-2" />
+          Awaiting Approval ({awaitingApproval.length})
+        </h3>
+        {awaitingApproval.length === 0 ? (
+          <p className="text-sm text-emerald-800">No completions waiting for your sign-off.</p>
+        ) : (
+          <div className="space-y-3">
+            {awaitingApproval.map(report => (
+              <div key={report._id} className="bg-white rounded-lg border border-emerald-200 p-4 flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 capitalize">
+                    {report.wasteType.replace(/_/g, ' ')} waste • {report.assignedWorker?.name || 'Unknown worker'}
+                  </p>
+                  <p className="text-sm text-gray-500 flex items-center truncate">
+                    <MapPin className="h-4 w-4 mr-1 flex-shrink-0" />
+                    {formatLocation(report.location)}
+                  </p>
+                  {report.actualCollection?.notes && (
+                    <p className="text-sm text-gray-600 mt-1">“{report.actualCollection.notes}”</p>
+                  )}
+                </div>
+                <div className="flex flex-col space-y-2 flex-shrink-0">
+                  <button
+                    onClick={() => onReview(report, 'approve')}
+                    disabled={busyReportId === report._id}
+                    className="px-3 py-1 bg-emerald-600 text-white rounded-md text-sm hover:bg-emerald-700 disabled:opacity-50 flex items-center"
+                  >
+                    {busyReportId === report._id
+                      ? <RefreshCw className="h-4 w-4 animate-spin" />
+                      : <><BadgeCheck className="h-4 w-4 mr-1" /> Approve</>}
+                  </button>
+                  <button
+                    onClick={() => onReview(report, 'return')}
+                    disabled={busyReportId === report._id}
+                    className="px-3 py-1 border border-orange-300 text-orange-700 rounded-md text-sm hover:bg-orange-50 disabled:opacity-50 flex items-center"
+                  >
+                    <Undo2 className="h-4 w-4 mr-1" /> Send back
+                  </button>
+                  <button
+                    onClick={() => onViewDetails(report)}
+                    className="px-3 py-1 border border-gray-300 text-gray-700 rounded-md text-sm hover:bg-gray-50 flex items-center"
+                  >
+                    <Eye className="h-4 w-4 mr-1" /> Photos
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+          <Inbox className="h-5 w-5 mr-2 text-blue-600" />
+          Team Queue ({openReports.length})
+        </h3>
+        {openReports.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing open for the team right now.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500 uppercase border-b">
+                  <th className="py-2 pr-4">Report</th>
+                  <th className="py-2 px-2">Status</th>
+                  <th className="py-2 px-2">Worker</th>
+                  <th className="py-2 pl-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {openReports.map(report => (
+                  <tr key={report._id}>
+                    <td className="py-2 pr-4">
+                      <p className="font-medium text-gray-900 capitalize">
+                        {report.wasteType.replace(/_/g, ' ')} • {report.severity}
+                        {!!report.reopenCount && (
+                          <span className="ml-2 text-xs text-red-700">reopened {report.reopenCount}×</span>
+                        )}
+                        {report.completionReview?.status === 'returned' && (
+                          <span className="ml-2 text-xs text-orange-700">sent back</span>
+                        )}
+                      </p>
+                      <p className="text-gray-500 truncate max-w-xs">{formatLocation(report.location)}</p>
+                    </td>
+                    <td className="py-2 px-2 capitalize">{report.status.replace(/_/g, ' ')}</td>
+                    <td className="py-2 px-2">
+                      <select
+                        value={report.assignedWorker?._id || ''}
+                        onChange={(e) => e.target.value && onReassign(report, e.target.value)}
+                        disabled={busyReportId === report._id || team.members.length === 0}
+                        className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                      >
+                        <option value="">{report.assignedWorker ? 'Not in this team' : 'Assign to...'}</option>
+                        {team.members.map(member => (
+                          <option key={member._id} value={member._id}>{member.name}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-2 pl-2 text-right">
+                      <button
+                        onClick={() => onViewDetails(report)}
+                        className="text-gray-600 hover:text-gray-900"
+                        title="View details"
+                      >
+                        <Eye className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default TeamQueue;
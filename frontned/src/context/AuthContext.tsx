@@ -1,26 +1,49 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { authService } from '../services/authService';
+import { tenantService, Tenant } from '../services/tenantService';
+import { EarnedBadge } from '../services/badgeService';
 
 interface User {
   _id: string;
   name: string;
   email: string;
+  phone?: string;
   role: string;
   rewards: {
     points: number;
     totalEarned: number;
     level: string;
+    badges?: EarnedBadge[];
   };
   isActive: boolean;
+  tenant?: string;
+  address?: {
+    street?: string;
+    city?: string;
+    state?: string;
+    zipCode?: string;
+    // [longitude, latitude]
+    coordinates?: number[];
+  };
+  preferences?: {
+    notifications?: { email?: boolean; sms?: boolean; push?: boolean };
+    collectionReminders?: boolean;
+    // Local "HH:MM" times between which no email, SMS or push is sent
+    quietHours?: { start?: string; end?: string };
+  };
 }
 
 interface AuthContextType {
   user: User | null;
+  tenant: Tenant | null;
+  permissions: string[];
   loading: boolean;
   login: (email: string, password: string) => Promise<void>;
   register: (userData: any) => Promise<void>;
   logout: () => void;
   updateUser: (userData: any) => void;
+  selectTenant: (slug: string | null) => Promise<void>;
+  refreshPermissions: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -39,21 +62,45 @@ interface AuthProviderProps {
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
+  const [tenant, setTenant] = useState<Tenant | null>(null);
+  const [permissions, setPermissions] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
 
+  // Municipality for branding; follows the user once signed in
+  const loadTenant = async () => {
+    try {
+      setTenant(await tenantService.getCurrent());
+    } catch {
+      setTenant(null);
+    }
+  };
+
+  // What the signed-in user may do, as granted by their municipality
+  const loadPermissions = async () => {
+    try {
+      const response = await authService.getCurrentUser();
+      setPermissions(response.data?.permissions || []);
+    } catch (error) {
+      console.error('Failed to load permissions:', error);
+      setPermissions([]);
+    }
+  };
+
   useEffect(() => {
     const initializeAuth = async () => {
       const token = localStorage.getItem('token');
       if (token) {
         try {
-          const userData = await authService.getCurrentUser();
-          setUser(userData.user);
+          const response = await authService.getCurrentUser();
+          setUser(response.data.user);
+          setPermissions(response.data.permissions || []);
         } catch (error) {
           console.error('Auth initialization error:', error);
           localStorage.removeItem('token');
           localStorage.removeItem('refreshToken');
         }
       }
+      await loadTenant();
       setLoading(false);
     };
 
@@ -66,6 +113,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       localStorage.setItem('token', response.data.accessToken);
       localStorage.setItem('refreshToken', response.data.refreshToken);
       setUser(response.data.user);
+      await Promise.all([loadTenant(), loadPermissions()]);
     } catch (error) {
       throw error;
     }
@@ -77,6 +125,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       localStorage.setItem('token', response.data.accessToken);
       localStorage.setItem('refreshToken', response.data.refreshToken);
       setUser(response.data.user);
+      await Promise.all([loadTenant(), loadPermissions()]);
     } catch (error) {
       throw error;
     }
@@ -91,6 +140,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       localStorage.removeItem('token');
       localStorage.removeItem('refreshToken');
       setUser(null);
+      setPermissions([]);
+      await loadTenant();
     }
   };
 
@@ -98,13 +149,23 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setUser(prev => prev ? { ...prev, ...userData } : null);
   };
 
+  // Super admins switch the municipality they are working on
+  const selectTenant = async (slug: string | null) => {
+    tenantService.setSelected(slug);
+    await Promise.all([loadTenant(), loadPermissions()]);
+  };
+
   const value = {
     user,
+    tenant,
+    permissions,
     loading,
     login,
     register,
     logout,
-    updateUser
+    updateUser,
+    selectTenant,
+    refreshPermissions: loadPermissions
   };
 
   return (
@@ -0,0 +1,59 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { notificationService } from '../services/notificationService';
+
+// How often the unread count is refreshed while signed in
+const POLL_INTERVAL_MS = 60 * 1000;
+
+interface NotificationContextType {
+  unreadCount: number;
+  setUnreadCount: (count: number) => void;
+  refreshUnread: () => Promise<void>;
+}
+
+const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+export const useNotifications = () => {
+  const context = useContext(NotificationContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationProvider');
+  }
+  return context;
+};
+
+interface NotificationProviderProps {
+  children: ReactNode;
+}
+
+// Unread count for the header bell, shared with the notifications page so
+// reading there clears the badge
+export const NotificationProvider: React.FC<NotificationProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const userId = user?._id;
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const refreshUnread = useCallback(async () => {
+    try {
+      setUnreadCount(await notificationService.getUnreadCount());
+    } catch {
+      // Keep the last known count; the next poll tries again
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!userId) {
+      setUnreadCount(0);
+      return;
+    }
+
+    refreshUnread();
+    const timer = window.setInterval(refreshUnread, POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [userId, refreshUnread]);
+
+  return (
+    <NotificationContext.Provider value={{ unreadCount, setUnreadCount, refreshUnread }}>
+      {children}
+    </NotificationContext.Provider>
+  );
+};
@@ -0,0 +1,9 @@
+import { useAuth } from '../context/AuthContext';
+
+// Permission check for the UI, fed by /api/auth/me:
+//   const can = useCan();
+//   if (can('report.assign')) ...
+export const useCan = () => {
+  const { permissions } = useAuth();
+  return (permission: string) => permissions.includes(permission);
+};
@@ -0,0 +1,42 @@
+import { useEffect, useRef, useState } from 'react';
+import { realtimeService, ReportUpdate } from '../services/realtimeService';
+
+// Updates arriving within this window are handed over together
+const BATCH_MS = 300;
+
+// Live report events for a dashboard, in batches so one burst (a report
+// created and auto-dispatched, say) causes one reload. Returns why live
+// updates stopped, if the server refused them:
+//   const liveError = useReportUpdates((updates) => reload());
+export const useReportUpdates = (onUpdates: (updates: ReportUpdate[]) => void, zones: string[] = []) => {
+  const handler = useRef(onUpdates);
+  const zoneKey = zones.join(',');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    handler.current = onUpdates;
+  });
+
+  useEffect(() => {
+    let batch: ReportUpdate[] = [];
+    let timer: number | undefined;
+    setError(null);
+
+    const unsubscribe = realtimeService.subscribeToReports((update) => {
+      batch.push(update);
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => {
+        const updates = batch;
+        batch = [];
+        handler.current(updates);
+      }, BATCH_MS);
+    }, zoneKey ? zoneKey.split(',') : [], setError);
+
+    return () => {
+      window.clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [zoneKey]);
+
+  return error;
+};
@@ -0,0 +1,343 @@
+import React, { useState, useEffect } from 'react';
+import {
+  badgeService, Badge, BadgeData, BadgeCatalogue, BadgeMetric, LevelThreshold
+} from '../services/badgeService';
+import { getErrorMessage } from '../services/api';
+import { Award, RefreshCw, XCircle, Pencil, Plus, Save } from 'lucide-react';
+
+const AdminBadges: React.FC = () => {
+  const [catalogue, setCatalogue] = useState<BadgeCatalogue | null>(null);
+  const [levels, setLevels] = useState<LevelThreshold[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  // Badge being edited; 'new' while creating one
+  const [editing, setEditing] = useState<Badge | 'new' | null>(null);
+
+  useEffect(() => {
+    loadBadges();
+  }, []);
+
+  const loadBadges = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [badgeCatalogue, levelList] = await Promise.all([
+        badgeService.getBadges(true),
+        badgeService.getLevels()
+      ]);
+      setCatalogue(badgeCatalogue);
+      setLevels(levelList);
+    } catch (err) {
+      console.error('Error loading badges:', err);
+      setError(getErrorMessage(err, 'Failed to load badges'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<{ message?: string }>, fallback: string) => {
+    try {
+      const response = await action();
+      setMessage(response.message || 'Saved');
+      setTimeout(() => setMessage(null), 5000);
+      setEditing(null);
+      await loadBadges();
+    } catch (err) {
+      setError(getErrorMessage(err, fallback));
+    }
+  };
+
+  const saveBadge = (data: BadgeData) => {
+    if (editing === 'new') {
+      runAction(() => badgeService.createBadge(data), 'Failed to create badge');
+    } else if (editing) {
+      // The key is fixed once users may have earned the badge
+      const changes = { ...data };
+      delete changes.key;
+      runAction(() => badgeService.updateBadge(editing._id, changes), 'Failed to update badge');
+    }
+  };
+
+  const describeRule = (badge: Badge) => {
+    const { metric, threshold, category } = badge.rule;
+    if (metric === 'training_category') return `Every ${category?.replace(/_/g, ' ')} module passed`;
+    return `${catalogue?.metrics[metric] || metric} ≥ ${threshold}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 sm:p-6 lg:p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Badges & Levels</h1>
+            <p className="text-gray-600">Achievements citizens earn and the points each reward level needs.</p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setEditing('new')}
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 flex items-center"
+            >
+              <Plus className="h-4 w-4 mr-2" /> New badge
+            </button>
+            <button
+              onClick={loadBadges}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 flex items-center"
+            >
+              <RefreshCw className="h-4 w-4 mr-2" /> Refresh
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-4 text-sm text-red-800 flex justify-between">
+            <span>{error}</span>
+            <button onClick={() => setError(null)}><XCircle className="h-4 w-4" /></button>
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4 mb-4 text-sm text-green-800">{message}</div>
+        )}
+
+        {editing && catalogue && (
+          <BadgeForm
+            key={editing === 'new' ? 'new' : editing._id}
+            badge={editing === 'new' ? null : editing}
+            catalogue={catalogue}
+            onSave={saveBadge}
+            onCancel={() => setEditing(null)}
+          />
+        )}
+
+        {loading ? (
+          <div className="p-12 flex justify-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-500"></div>
+          </div>
+        ) : (
+          <>
+            {levels.length > 0 && (
+              <LevelEditor
+                key={levels.map(({ minPoints }) => minPoints).join('-')}
+                levels={levels}
+                onSave={(values) => runAction(() => badgeService.updateLevels(values), 'Failed to update levels')}
+              />
+            )}
+
+            <div className="bg-white rounded-lg shadow-md">
+              {!catalogue || catalogue.badges.length === 0 ? (
+                <div className="text-center py-12">
+                  <Award className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                  <p className="text-gray-500">No badges yet.</p>
+                </div>
+              ) : (
+                <div className="divide-y divide-gray-200">
+                  {catalogue.badges.map(badge => (
+                    <div key={badge._id} className={`p-6 flex items-start justify-between gap-4 ${badge.isActive ? '' : 'opacity-60'}`}>
+                      <div>
+                        <h3 className="text-lg font-semibold text-gray-900">
+                          {badge.name}
+                          <span className="ml-2 text-xs font-mono font-normal text-gray-400">{badge.key}</span>
+                          {!badge.isActive && <span className="ml-2 text-xs font-normal text-gray-500">off</span>}
+                        </h3>
+                        {badge.description && <p className="text-sm text-gray-600">{badge.description}</p>}
+                        <p className="text-sm text-gray-500 mt-1">{describeRule(badge)}</p>
+                      </div>
+                      <button
+                        onClick={() => setEditing(badge)}
+                        className="p-2 text-gray-600 hover:text-gray-900"
+                        title="Edit"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface LevelEditorProps {
+  levels: LevelThreshold[];
+  onSave: (values: Record<string, number>) => void;
+}
+
+const LevelEditor: React.FC<LevelEditorProps> = ({ levels, onSave }) => {
+  const [values, setValues] = useState<Record<string, number>>(
+    Object.fromEntries(levels.map(({ level, minPoints }) => [level, minPoints]))
+  );
+
+  // Shown lowest first, like a ladder
+  const ladder = [...levels].reverse();
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">Reward levels</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Lifetime points needed for each level. Saving re-levels every user.
+      </p>
+      <div className="flex flex-wrap items-end gap-4">
+        {ladder.map(({ level }, index) => (
+          <div key={level}>
+            <label className="block text-sm font-medium text-gray-700 mb-1 capitalize">{level}</label>
+            <input
+              type="number"
+              min={0}
+              value={values[level]}
+              disabled={index === 0}
+              onChange={(e) => setValues(prev => ({ ...prev, [level]: parseInt(e.target.value) || 0 }))}
+              className="w-32 px-3 py-2 border border-gray-300 rounded-md disabled:bg-gray-50"
+            />
+          </div>
+        ))}
+        <button
+          onClick={() => onSave(values)}
+          className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 flex items-center"
+        >
+          <Save className="h-4 w-4 mr-2" /> Save levels
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface BadgeFormProps {
+  badge: Badge | null;
+  catalogue: BadgeCatalogue;
+  onSave: (data: BadgeData) => void;
+  onCancel: () => void;
+}
+
+const BadgeForm: React.FC<BadgeFormProps> = ({ badge, catalogue, onSave, onCancel }) => {
+  const [key, setKey] = useState(badge?.key || '');
+  const [name, setName] = useState(badge?.name || '');
+  const [description, setDescription] = useState(badge?.description || '');
+  const [metric, setMetric] = useState<BadgeMetric>(badge?.rule.metric || 'reports_submitted');
+  const [threshold, setThreshold] = useState(badge?.rule.threshold ?? 1);
+  const [category, setCategory] = useState(badge?.rule.category || catalogue.trainingCategories[0] || '');
+  const [isActive, setIsActive] = useState(badge?.isActive ?? true);
+
+  const byCategory = metric === 'training_category';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      key: key.trim().toLowerCase(),
+      name: name.trim(),
+      description: description.trim(),
+      rule: byCategory ? { metric, threshold: 1, category } : { metric, threshold },
+      isActive
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">{badge ? `Edit ${badge.name}` : 'New badge'}</h2>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Key</label>
+          <input
+            value={key}
+            onChange={(e) => setKey(e.target.value)}
+            required
+            disabled={!!badge}
+            pattern="[a-z0-9]+(-[a-z0-9]+)*"
+            placeholder="e.g. first-report"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono disabled:bg-gray-50"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            required
+            maxLength={60}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+          <input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            maxLength={200}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Earned when</label>
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as BadgeMetric)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          >
+            {Object.entries(catalogue.metrics).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        {byCategory ? (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md capitalize"
+            >
+              {catalogue.trainingCategories.map(option => (
+                <option key={option} value={option}>{option.replace(/_/g, ' ')}</option>
+              ))}
+            </select>
+          </div>
+        ) : (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reaches at least</label>
+            <input
+              type="number"
+              min={1}
+              value={threshold}
+              onChange={(e) => setThreshold(parseInt(e.target.value) || 0)}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="mt-4 flex items-center justify-between">
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={isActive}
+            onChange={(e) => setIsActive(e.target.checked)}
+            className="h-4 w-4 text-green-600 rounded mr-2"
+          />
+          Can be earned
+        </label>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!key.trim() || !name.trim() || (!byCategory && threshold < 1)}
+            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default AdminBadges;
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { adminService } from '../services/adminService';
 import { trainingService } from '../services/trainingService';
+import AssignReportModal from '../components/AssignReportModal';
+import { useReportUpdates } from '../hooks/useReportUpdates';
 import {
   Users,
   MapPin,
@@ -12,7 +14,8 @@ import {
   Video,
   X,
   Plus,
-  Trash2
+  Trash2,
+  Truck
 } from 'lucide-react';
 import {
   ResponsiveContainer,
@@ -42,6 +45,7 @@ interface DashboardData {
     _id: { month: number; year: number };
     count: number;
   }>;
+  recentActivities: RecentReport[];
   trainingStats: {
     totalEnrollments: number;
     completedTrainings: number;
@@ -49,6 +53,20 @@ interface DashboardData {
   };
 }
 
+interface RecentReport {
+  _id: string;
+  wasteType: string;
+  description?: string;
+  status: string;
+  createdAt: string;
+  reporter?: { _id: string; name: string } | null;
+  assignedWorker?: { _id: string; name: string } | null;
+  assignedVehicle?: { _id: string; vehicleId: string } | null;
+}
+
+// Reports an admin can still hand to a worker
+const ASSIGNABLE_STATUSES = ['reported', 'acknowledged', 'assigned', 'in_progress'];
+
 interface QuizQuestion {
   question: string;
   options: Array<{ text: string; isCorrect: boolean }>;
@@ -87,11 +105,16 @@ const AdminDashboard: React.FC = () => {
     ] as QuizQuestion[]
   });
   const [saving, setSaving] = useState(false);
+  const [assigningReport, setAssigningReport] = useState<RecentReport | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
 
   useEffect(() => {
     loadDashboardData();
   }, []);
 
+  // Counts and recent reports follow what happens in the field
+  const liveError = useReportUpdates(() => loadDashboardData());
+
   const loadDashboardData = async () => {
     try {
       const response = await adminService.getDashboardData();
@@ -376,8 +399,66 @@ const AdminDashboard: React.FC = () => {
             </ResponsiveContainer>
           </div>
         </div>
+
+        {/* Recent Reports */}
+        <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Reports</h3>
+          {notice && (
+            <div className="bg-green-50 border border-green-200 rounded-md p-3 mb-4 text-sm text-green-800">{notice}</div>
+          )}
+          {liveError && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 mb-4 text-sm text-yellow-800">
+              Live updates are off: {liveError}
+            </div>
+          )}
+          {data.recentActivities.length === 0 ? (
+            <p className="text-gray-500 text-sm">No reports yet.</p>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {data.recentActivities.map(report => (
+                <div key={report._id} className="py-3 flex items-center justify-between text-sm">
+                  <div>
+                    <p className="font-medium text-gray-900 capitalize">
+                      {report.wasteType.replace(/_/g, ' ')} • <span className="text-gray-500">{report.status.replace(/_/g, ' ')}</span>
+                    </p>
+                    <p className="text-gray-500">
+                      {report.reporter?.name || 'Unknown'} • {new Date(report.createdAt).toLocaleDateString()}
+                      {report.assignedWorker && ` • ${report.assignedWorker.name}`}
+                      {report.assignedVehicle && (
+                        <span className="inline-flex items-center ml-1">
+                          • <Truck className="h-3 w-3 mx-1" /> {report.assignedVehicle.vehicleId}
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                  {ASSIGNABLE_STATUSES.includes(report.status) && (
+                    <button
+                      onClick={() => setAssigningReport(report)}
+                      className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                    >
+                      {report.assignedWorker ? 'Reassign' : 'Assign'}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
       </div>
 
+      {assigningReport && (
+        <AssignReportModal
+          report={assigningReport}
+          onClose={() => setAssigningReport(null)}
+          onAssigned={(message) => {
+            setAssigningReport(null);
+            setNotice(message);
+            setTimeout(() => setNotice(null), 3000);
+            loadDashboardData();
+          }}
+        />
+      )}
+
       {/* Modal */}
       {showAddModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -0,0 +1,538 @@
+import React, { useState, useEffect } from 'react';
+import {
+  adminService,
+  DispatchSetting,
+  DispatchDecision,
+  DispatchWorker,
+  WorkerProfile,
+  WorkerSkill,
+  WORKER_SKILLS
+} from '../services/adminService';
+import { getErrorMessage } from '../services/api';
+import { zoneService, Zone } from '../services/zoneService';
+import {
+  Send,
+  SlidersHorizontal,
+  UserCog,
+  RefreshCw,
+  ChevronDown,
+  ChevronRight,
+  CheckCircle,
+  XCircle,
+  Plus,
+  Trash2
+} from 'lucide-react';
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const OUTCOME_COLORS: Record<DispatchDecision['outcome'], string> = {
+  assigned: 'text-green-700 bg-green-100',
+  offered: 'text-indigo-700 bg-indigo-100',
+  no_candidate: 'text-red-700 bg-red-100',
+  disabled: 'text-gray-600 bg-gray-100'
+};
+
+// How a setting is addressed in the API
+const zoneKey = (setting: DispatchSetting) => setting.zone?._id || 'default';
+
+const formatDistance = (meters: number | null) => {
+  if (meters === null || meters === undefined) return '—';
+  return meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${meters} m`;
+};
+
+const AdminDispatch: React.FC = () => {
+  const [settings, setSettings] = useState<DispatchSetting[]>([]);
+  const [workers, setWorkers] = useState<DispatchWorker[]>([]);
+  const [decisions, setDecisions] = useState<DispatchDecision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [zones, setZones] = useState<Zone[]>([]);
+  const [newZone, setNewZone] = useState('');
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [settingsData, workersData, decisionsData, zonesData] = await Promise.all([
+        adminService.getDispatchSettings(),
+        adminService.getDispatchWorkers(),
+        adminService.getDispatchDecisions({ limit: 25 }),
+        zoneService.getZones()
+      ]);
+      setSettings(settingsData);
+      setZones(zonesData);
+      setWorkers(workersData);
+      setDecisions(decisionsData?.data?.decisions || []);
+    } catch (err) {
+      console.error('Error loading dispatch data:', err);
+      setError(getErrorMessage(err, 'Failed to load dispatch data'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const flash = (text: string) => {
+    setMessage(text);
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  const saveSetting = async (setting: DispatchSetting) => {
+    try {
+      const { enabled, mode, maxDistanceMeters, weights } = setting;
+      const response = await adminService.updateDispatchSettings(zoneKey(setting), { enabled, mode, maxDistanceMeters, weights });
+      flash(response.message || 'Settings saved');
+      await loadData();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save settings'));
+    }
+  };
+
+  const removeSetting = async (setting: DispatchSetting) => {
+    if (!window.confirm(`Remove the settings for ${setting.zone?.name}? It will use the default settings.`)) return;
+    try {
+      const response = await adminService.deleteDispatchSettings(zoneKey(setting));
+      flash(response.message || 'Settings removed');
+      await loadData();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to remove settings'));
+    }
+  };
+
+  const addZone = () => {
+    const zone = zones.find(z => z._id === newZone);
+    if (!zone || settings.some(s => s.zone?._id === zone._id)) return;
+    const defaults = settings.find(s => !s.zone);
+    setSettings([
+      ...settings,
+      {
+        zone: { _id: zone._id, name: zone.name, code: zone.code, kind: zone.kind },
+        enabled: false,
+        mode: defaults?.mode || 'offer',
+        maxDistanceMeters: defaults?.maxDistanceMeters || 10000,
+        weights: defaults?.weights || { distance: 0.5, workload: 0.3, skills: 0.2 }
+      }
+    ]);
+    setNewZone('');
+  };
+
+  const saveWorker = async (workerId: string, profile: Omit<WorkerProfile, 'lastKnownLocation'>) => {
+    try {
+      const response = await adminService.updateWorkerProfile(workerId, profile);
+      flash(response.message || 'Worker updated');
+      await loadData();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update worker'));
+    }
+  };
+
+  const redispatch = async (reportId: string) => {
+    try {
+      const response = await adminService.dispatchReport(reportId);
+      flash(response.message || 'Dispatch completed');
+      await loadData();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to dispatch report'));
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-green-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 sm:p-6 lg:p-8">
+      <div className="max-w-7xl mx-auto space-y-8">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Auto-Dispatch</h1>
+            <p className="text-gray-600">Configure how new reports are handed to workers and see why each worker was picked</p>
+          </div>
+          <button
+            onClick={loadData}
+            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 flex items-center"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" /> Refresh
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 text-sm text-red-800 flex justify-between">
+            <span>{error}</span>
+            <button onClick={() => setError(null)}><XCircle className="h-4 w-4" /></button>
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4 text-sm text-green-800">{message}</div>
+        )}
+
+        {/* Zone settings */}
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1 flex items-center">
+            <SlidersHorizontal className="h-5 w-5 mr-2" /> Zone Settings
+          </h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Zones without their own settings use the default. A report in a ward uses the ward's settings before its district's.
+          </p>
+          <div className="space-y-4">
+            {settings.map((setting) => (
+              <ZoneSettingRow
+                key={zoneKey(setting)}
+                setting={setting}
+                onSave={saveSetting}
+                onRemove={removeSetting}
+              />
+            ))}
+          </div>
+          <div className="flex mt-4 gap-2">
+            <select
+              value={newZone}
+              onChange={(e) => setNewZone(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">Select a zone</option>
+              {zones
+                .filter(zone => !settings.some(s => s.zone?._id === zone._id))
+                .map(zone => (
+                  <option key={zone._id} value={zone._id}>{zone.name} ({zone.kind})</option>
+                ))}
+            </select>
+            <button
+              onClick={addZone}
+              disabled={!newZone}
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 text-sm flex items-center disabled:opacity-50"
+            >
+              <Plus className="h-4 w-4 mr-1" /> Add Zone
+            </button>
+          </div>
+        </div>
+
+        {/* Worker qualifications */}
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1 flex items-center">
+            <UserCog className="h-5 w-5 mr-2" /> Workers
+          </h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Hazardous and medical waste only goes to workers with that qualification. Workers without a shift are always available.
+          </p>
+          {workers.length === 0 ? (
+            <p className="text-sm text-gray-500">No waste workers registered.</p>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {workers.map((worker) => (
+                <WorkerProfileRow key={worker._id} worker={worker} onSave={saveWorker} />
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Decisions */}
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+            <Send className="h-5 w-5 mr-2" /> Recent Decisions
+          </h2>
+          {decisions.length === 0 ? (
+            <p className="text-sm text-gray-500">No dispatch decisions yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {decisions.map((decision) => (
+                <DecisionRow key={decision._id} decision={decision} onRedispatch={redispatch} />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ZoneSettingRow: React.FC<{
+  setting: DispatchSetting;
+  onSave: (setting: DispatchSetting) => void;
+  onRemove: (setting: DispatchSetting) => void;
+}> = ({ setting, onSave, onRemove }) => {
+  const [draft, setDraft] = useState<DispatchSetting>(setting);
+
+  useEffect(() => {
+    setDraft(setting);
+  }, [setting]);
+
+  const setWeight = (factor: keyof DispatchSetting['weights'], value: string) =>
+    setDraft({ ...draft, weights: { ...draft.weights, [factor]: Number(value) } });
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+      <div>
+        <label className="text-xs font-medium text-gray-500 block">Zone</label>
+        <p className="font-semibold text-gray-900">{draft.zone ? draft.zone.name : 'Default'}</p>
+      </div>
+      <label className="flex items-center text-sm">
+        <input
+          type="checkbox"
+          checked={draft.enabled}
+          onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+          className="mr-2"
+        />
+        Enabled
+      </label>
+      <div>
+        <label className="text-xs font-medium text-gray-500 block">Mode</label>
+        <select
+          value={draft.mode}
+          onChange={(e) => setDraft({ ...draft, mode: e.target.value as DispatchSetting['mode'] })}
+          className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+        >
+          <option value="offer">Offer to best worker</option>
+          <option value="assign">Assign directly</option>
+        </select>
+      </div>
+      <div>
+        <label className="text-xs font-medium text-gray-500 block">Max distance (m)</label>
+        <input
+          type="number"
+          min={100}
+          value={draft.maxDistanceMeters}
+          onChange={(e) => setDraft({ ...draft, maxDistanceMeters: Number(e.target.value) })}
+          className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+        />
+      </div>
+      <div>
+        <label className="text-xs font-medium text-gray-500 block">Weights (distance / workload / skills)</label>
+        <div className="flex gap-1">
+          {(['distance', 'workload', 'skills'] as const).map((factor) => (
+            <input
+              key={factor}
+              type="number"
+              step="0.1"
+              min={0}
+              title={factor}
+              value={draft.weights[factor]}
+              onChange={(e) => setWeight(factor, e.target.value)}
+              className="w-16 px-2 py-1 border border-gray-300 rounded-md text-sm"
+            />
+          ))}
+        </div>
+      </div>
+      <div className="flex gap-2 justify-end">
+        <button
+          onClick={() => onSave(draft)}
+          className="px-3 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 text-sm"
+        >
+          Save
+        </button>
+        {draft.zone && draft._id && (
+          <button
+            onClick={() => onRemove(draft)}
+            className="px-3 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 text-sm"
+            title="Use default settings"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const WorkerProfileRow: React.FC<{
+  worker: DispatchWorker;
+  onSave: (workerId: string, profile: Omit<WorkerProfile, 'lastKnownLocation'>) => void;
+}> = ({ worker, onSave }) => {
+  const [skills, setSkills] = useState<WorkerSkill[]>(worker.workerProfile?.skills || []);
+  const [days, setDays] = useState<number[]>(worker.workerProfile?.shift?.days || []);
+  const [start, setStart] = useState(worker.workerProfile?.shift?.start || '');
+  const [end, setEnd] = useState(worker.workerProfile?.shift?.end || '');
+  const [capacity, setCapacity] = useState(worker.workerProfile?.maxOpenAssignments || 8);
+
+  const toggle = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+  const lastSeen = worker.workerProfile?.lastKnownLocation?.updatedAt;
+
+  return (
+    <div className="py-4 grid grid-cols-1 lg:grid-cols-4 gap-4">
+      <div>
+        <p className="font-medium text-gray-900">{worker.name}</p>
+        <p className="text-sm text-gray-500">{worker.email}</p>
+        <p className="text-xs text-gray-400 mt-1">
+          {worker.isActive ? 'Active' : 'Inactive'}
+          {worker.address?.city && ` • ${worker.address.city}`}
+          {lastSeen && ` • seen ${new Date(lastSeen).toLocaleString()}`}
+        </p>
+      </div>
+      <div className="flex flex-wrap gap-2 content-start">
+        {WORKER_SKILLS.map((skill) => (
+          <button
+            key={skill}
+            onClick={() => setSkills(toggle(skills, skill))}
+            className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${
+              skills.includes(skill) ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            {skill}
+          </button>
+        ))}
+      </div>
+      <div className="space-y-2">
+        <div className="flex flex-wrap gap-1">
+          {DAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              onClick={() => setDays(toggle(days, day))}
+              className={`px-2 py-1 rounded text-xs ${
+                days.includes(day) ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <input type="time" value={start} onChange={(e) => setStart(e.target.value)} className="px-2 py-1 border border-gray-300 rounded-md" />
+          <span>–</span>
+          <input type="time" value={end} onChange={(e) => setEnd(e.target.value)} className="px-2 py-1 border border-gray-300 rounded-md" />
+        </div>
+      </div>
+      <div className="flex items-end justify-between gap-2">
+        <div>
+          <label className="text-xs font-medium text-gray-500 block">Max open tasks</label>
+          <input
+            type="number"
+            min={1}
+            value={capacity}
+            onChange={(e) => setCapacity(Number(e.target.value))}
+            className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm"
+          />
+        </div>
+        <button
+          onClick={() => onSave(worker._id, { skills, shift: { days, start, end }, maxOpenAssignments: capacity })}
+          className="px-3 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 text-sm"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const DecisionRow: React.FC<{
+  decision: DispatchDecision;
+  onRedispatch: (reportId: string) => void;
+}> = ({ decision, onRedispatch }) => {
+  const [expanded, setExpanded] = useState(false);
+  const report = typeof decision.report === 'string' ? null : decision.report;
+  const reportId = typeof decision.report === 'string' ? decision.report : decision.report?._id;
+  const canRedispatch = report && ['reported', 'acknowledged'].includes(report.status) &&
+    decision.outcome !== 'assigned';
+
+  return (
+    <div className="border border-gray-200 rounded-lg">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full p-4 flex items-start justify-between text-left hover:bg-gray-50"
+      >
+        <div className="flex items-start">
+          {expanded ? <ChevronDown className="h-5 w-5 mr-2 text-gray-400" /> : <ChevronRight className="h-5 w-5 mr-2 text-gray-400" />}
+          <div>
+            <div className="flex items-center gap-2">
+              <span className={`px-2 py-0.5 rounded-full text-xs font-semibold capitalize ${OUTCOME_COLORS[decision.outcome]}`}>
+                {decision.outcome.replace(/_/g, ' ')}
+              </span>
+              <span className="text-sm font-medium text-gray-900 capitalize">
+                {report ? `${report.wasteType} waste (${report.category || 'household'})` : 'Report'}
+              </span>
+              <span className="text-xs text-gray-500">{decision.zone ? decision.zone.name : 'Default settings'}</span>
+            </div>
+            <p className="text-sm text-gray-600 mt-1">{decision.summary}</p>
+          </div>
+        </div>
+        <span className="text-xs text-gray-500 whitespace-nowrap ml-4">
+          {new Date(decision.createdAt).toLocaleString()}
+          <br />
+          {decision.trigger.replace(/_/g, ' ')}{decision.triggeredBy ? ` by ${decision.triggeredBy.name}` : ''}
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="border-t border-gray-200 p-4 space-y-3">
+          <div className="text-sm text-gray-600 flex flex-wrap gap-4">
+            <span><strong>Required:</strong> {decision.requiredSkills.join(', ') || 'none'}</span>
+            <span><strong>Preferred:</strong> {decision.preferredSkills.join(', ') || 'none'}</span>
+            {decision.settings && (
+              <span>
+                <strong>Weights:</strong> distance {decision.settings.weights.distance}, workload {decision.settings.weights.workload}, skills {decision.settings.weights.skills}
+                {' '}• max {formatDistance(decision.settings.maxDistanceMeters)}
+              </span>
+            )}
+          </div>
+
+          {decision.candidates.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase">
+                    <th className="py-2 pr-4">Worker</th>
+                    <th className="py-2 pr-4">Distance</th>
+                    <th className="py-2 pr-4">Open</th>
+                    <th className="py-2 pr-4">Skills</th>
+                    <th className="py-2 pr-4">Score</th>
+                    <th className="py-2">Why</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {decision.candidates.map((candidate) => (
+                    <tr
+                      key={candidate.worker}
+                      className={decision.selectedWorker?._id === candidate.worker ? 'bg-green-50' : ''}
+                    >
+                      <td className="py-2 pr-4 flex items-center">
+                        {candidate.eligible
+                          ? <CheckCircle className="h-4 w-4 text-green-600 mr-1" />
+                          : <XCircle className="h-4 w-4 text-gray-400 mr-1" />}
+                        {candidate.name}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {formatDistance(candidate.distanceMeters)}
+                        <span className="text-xs text-gray-400 ml-1">({candidate.locationSource.replace('_', ' ')})</span>
+                      </td>
+                      <td className="py-2 pr-4">{candidate.openAssignments}</td>
+                      <td className="py-2 pr-4">{candidate.matchedSkills.join(', ') || '—'}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        <strong>{candidate.scores.total}</strong>
+                        <span className="text-xs text-gray-400 ml-1">
+                          ({candidate.scores.distance} / {candidate.scores.workload} / {candidate.scores.skills})
+                        </span>
+                      </td>
+                      <td className="py-2 text-gray-600">
+                        {candidate.eligible ? 'Eligible' : candidate.excludedReasons.join('; ')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {canRedispatch && reportId && (
+            <button
+              onClick={() => onRedispatch(reportId)}
+              className="px-3 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 text-sm flex items-center"
+            >
+              <Send className="h-4 w-4 mr-1" /> Dispatch now
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminDispatch;
@@ -0,0 +1,439 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  vehicleService,
+  Vehicle,
+  VehicleInput,
+  VehicleStatus,
+  VEHICLE_TYPES,
+  VEHICLE_STATUSES
+} from '../services/vehicleService';
+import { wasteService } from '../services/wasteService';
+import { getErrorMessage } from '../services/api';
+import {
+  Truck,
+  Plus,
+  RefreshCw,
+  Wrench,
+  Fuel,
+  Edit,
+  Trash2,
+  X,
+  XCircle,
+  MapPin,
+  Route as RouteIcon
+} from 'lucide-react';
+
+interface Driver {
+  _id: string;
+  name: string;
+}
+
+const STATUS_COLORS: Record<VehicleStatus, string> = {
+  available: 'text-green-700 bg-green-100',
+  in_route: 'text-blue-700 bg-blue-100',
+  loading: 'text-yellow-700 bg-yellow-100',
+  maintenance: 'text-orange-700 bg-orange-100',
+  out_of_service: 'text-red-700 bg-red-100'
+};
+
+const formatDate = (value?: string | null) =>
+  value ? new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }) : '—';
+
+const AdminFleet: React.FC = () => {
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [editing, setEditing] = useState<Vehicle | 'new' | null>(null);
+
+  useEffect(() => {
+    loadFleet();
+  }, []);
+
+  const loadFleet = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [vehicleList, workersResponse] = await Promise.all([
+        vehicleService.getVehicles(),
+        wasteService.getWorkers()
+      ]);
+      setVehicles(vehicleList);
+      setDrivers(workersResponse?.data?.workers || []);
+    } catch (err) {
+      console.error('Error loading fleet:', err);
+      setError(getErrorMessage(err, 'Failed to load vehicles'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<{ message?: string }>, fallback: string) => {
+    try {
+      const response = await action();
+      setMessage(response.message || 'Saved');
+      setTimeout(() => setMessage(null), 3000);
+      await loadFleet();
+    } catch (err) {
+      setError(getErrorMessage(err, fallback));
+    }
+  };
+
+  const removeVehicle = (vehicle: Vehicle) => {
+    if (!window.confirm(`Remove vehicle ${vehicle.vehicleId}?`)) return;
+    runAction(() => vehicleService.deleteVehicle(vehicle._id), 'Failed to remove vehicle');
+  };
+
+  const saveVehicle = async (input: VehicleInput) => {
+    const target = editing;
+    await runAction(
+      () => target === 'new' || !target
+        ? vehicleService.createVehicle(input)
+        : vehicleService.updateVehicle(target._id, input),
+      'Failed to save vehicle'
+    );
+    setEditing(null);
+  };
+
+  const serviceDueCount = vehicles.filter(vehicle => vehicleService.isServiceDue(vehicle)).length;
+  const filteredVehicles = statusFilter === 'all'
+    ? vehicles
+    : vehicles.filter(vehicle => vehicle.status === statusFilter);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 sm:p-6 lg:p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Fleet</h1>
+            <p className="text-gray-600">
+              {vehicles.length} vehicle(s){serviceDueCount > 0 && ` • ${serviceDueCount} due for service`}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Link
+              to="/admin/routes"
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 flex items-center"
+            >
+              <RouteIcon className="h-4 w-4 mr-2" /> Routes
+            </Link>
+            <Link
+              to="/admin/fleet/tracking"
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center"
+            >
+              <MapPin className="h-4 w-4 mr-2" /> Live Map
+            </Link>
+            <button
+              onClick={loadFleet}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 flex items-center"
+            >
+              <RefreshCw className="h-4 w-4 mr-2" /> Refresh
+            </button>
+            <button
+              onClick={() => setEditing('new')}
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 flex items-center"
+            >
+              <Plus className="h-4 w-4 mr-2" /> Add Vehicle
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-4 text-sm text-red-800 flex justify-between">
+            <span>{error}</span>
+            <button onClick={() => setError(null)}><XCircle className="h-4 w-4" /></button>
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4 mb-4 text-sm text-green-800">{message}</div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-md">
+          <div className="border-b border-gray-200 p-4 flex flex-wrap gap-2">
+            {['all', ...VEHICLE_STATUSES].map(option => (
+              <button
+                key={option}
+                onClick={() => setStatusFilter(option)}
+                className={`px-3 py-2 rounded-md text-sm font-medium capitalize ${
+                  statusFilter === option ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {option.replace(/_/g, ' ')}
+              </button>
+            ))}
+          </div>
+
+          {loading ? (
+            <div className="p-12 flex justify-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-500"></div>
+            </div>
+          ) : filteredVehicles.length === 0 ? (
+            <div className="text-center py-12">
+              <Truck className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <p className="text-gray-500">No vehicles found.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+                    <th className="px-6 py-3">Vehicle</th>
+                    <th className="px-6 py-3">Status</th>
+                    <th className="px-6 py-3">Driver</th>
+                    <th className="px-6 py-3">Next Service</th>
+                    <th className="px-6 py-3">Fuel</th>
+                    <th className="px-6 py-3">Open Reports</th>
+                    <th className="px-6 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 text-sm">
+                  {filteredVehicles.map(vehicle => (
+                    <tr key={vehicle._id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4">
+                        <p className="font-semibold text-gray-900">{vehicle.vehicleId}</p>
+                        <p className="text-gray-500 capitalize">
+                          {vehicle.type.replace(/_/g, ' ')} • {vehicle.capacity.value} {vehicle.capacity.unit.replace('_', ' ')}
+                        </p>
+                      </td>
+                      <td className="px-6 py-4">
+                        <select
+                          value={vehicle.status}
+                          onChange={(e) => runAction(
+                            () => vehicleService.updateStatus(vehicle._id, e.target.value as VehicleStatus),
+                            'Failed to update status'
+                          )}
+                          className={`px-2 py-1 rounded-full text-xs font-semibold capitalize border-0 ${STATUS_COLORS[vehicle.status]}`}
+                        >
+                          {VEHICLE_STATUSES.map(status => (
+                            <option key={status} value={status}>{status.replace(/_/g, ' ')}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-6 py-4">
+                        <select
+                          value={vehicle.driver?._id || ''}
+                          onChange={(e) => runAction(
+                            () => vehicleService.assignDriver(vehicle._id, e.target.value || null),
+                            'Failed to assign driver'
+                          )}
+                          className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        >
+                          <option value="">No driver</option>
+                          {drivers.map(driver => (
+                            <option key={driver._id} value={driver._id}>{driver.name}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`flex items-center ${vehicleService.isServiceDue(vehicle) ? 'text-red-600 font-semibold' : 'text-gray-700'}`}>
+                          {vehicleService.isServiceDue(vehicle) && <Wrench className="h-4 w-4 mr-1" />}
+                          {formatDate(vehicle.maintenanceSchedule?.nextService)}
+                        </span>
+                        <span className="text-xs text-gray-400">Last: {formatDate(vehicle.maintenanceSchedule?.lastService)}</span>
+                      </td>
+                      <td className="px-6 py-4">
+                        {vehicle.fuelLevel !== undefined && vehicle.fuelLevel !== null ? (
+                          <span className={`flex items-center ${vehicle.fuelLevel < 20 ? 'text-red-600' : 'text-gray-700'}`}>
+                            <Fuel className="h-4 w-4 mr-1" /> {vehicle.fuelLevel}%
+                          </span>
+                        ) : '—'}
+                      </td>
+                      <td className="px-6 py-4">{vehicle.openReports || 0}</td>
+                      <td className="px-6 py-4">
+                        <div className="flex gap-2 justify-end">
+                          <button
+                            onClick={() => setEditing(vehicle)}
+                            className="p-2 text-gray-500 hover:text-gray-700"
+                            title="Edit"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => removeVehicle(vehicle)}
+                            className="p-2 text-red-500 hover:text-red-700"
+                            title="Remove"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {editing && (
+          <VehicleFormModal
+            vehicle={editing === 'new' ? null : editing}
+            onClose={() => setEditing(null)}
+            onSave={saveVehicle}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+const toDateInput = (value?: string | null) => (value ? value.slice(0, 10) : '');
+
+const VehicleFormModal: React.FC<{
+  vehicle: Vehicle | null;
+  onClose: () => void;
+  onSave: (input: VehicleInput) => Promise<void>;
+}> = ({ vehicle, onClose, onSave }) => {
+  const [form, setForm] = useState({
+    vehicleId: vehicle?.vehicleId || '',
+    type: vehicle?.type || VEHICLE_TYPES[0],
+    capacityValue: vehicle?.capacity.value || 5,
+    capacityUnit: vehicle?.capacity.unit || 'tons',
+    fuelLevel: vehicle?.fuelLevel ?? 100,
+    lastService: toDateInput(vehicle?.maintenanceSchedule?.lastService),
+    nextService: toDateInput(vehicle?.maintenanceSchedule?.nextService),
+    mileage: vehicle?.maintenanceSchedule?.mileage ?? 0
+  });
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await onSave({
+        vehicleId: form.vehicleId.trim(),
+        type: form.type,
+        capacity: { value: Number(form.capacityValue), unit: form.capacityUnit },
+        fuelLevel: Number(form.fuelLevel),
+        maintenanceSchedule: {
+          lastService: form.lastService || null,
+          nextService: form.nextService || null,
+          mileage: Number(form.mileage)
+        }
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg max-w-lg w-full">
+        <div className="border-b p-6 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900">{vehicle ? `Edit ${vehicle.vehicleId}` : 'Add Vehicle'}</h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 grid grid-cols-2 gap-4 text-sm">
+          <label className="col-span-1">
+            <span className="block font-medium text-gray-700 mb-1">Vehicle ID</span>
+            <input
+              required
+              value={form.vehicleId}
+              onChange={(e) => setForm({ ...form, vehicleId: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md uppercase"
+            />
+          </label>
+          <label className="col-span-1">
+            <span className="block font-medium text-gray-700 mb-1">Type</span>
+            <select
+              value={form.type}
+              onChange={(e) => setForm({ ...form, type: e.target.value as Vehicle['type'] })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md capitalize"
+            >
+              {VEHICLE_TYPES.map(type => (
+                <option key={type} value={type}>{type.replace(/_/g, ' ')}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span className="block font-medium text-gray-700 mb-1">Capacity</span>
+            <input
+              type="number"
+              min={0.1}
+              step="0.1"
+              required
+              value={form.capacityValue}
+              onChange={(e) => setForm({ ...form, capacityValue: Number(e.target.value) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label>
+            <span className="block font-medium text-gray-700 mb-1">Unit</span>
+            <select
+              value={form.capacityUnit}
+              onChange={(e) => setForm({ ...form, capacityUnit: e.target.value as Vehicle['capacity']['unit'] })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            >
+              <option value="tons">tons</option>
+              <option value="cubic_meters">cubic meters</option>
+            </select>
+          </label>
+          <label>
+            <span className="block font-medium text-gray-700 mb-1">Fuel level (%)</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={form.fuelLevel}
+              onChange={(e) => setForm({ ...form, fuelLevel: Number(e.target.value) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label>
+            <span className="block font-medium text-gray-700 mb-1">Mileage</span>
+            <input
+              type="number"
+              min={0}
+              value={form.mileage}
+              onChange={(e) => setForm({ ...form, mileage: Number(e.target.value) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label>
+            <span className="block font-medium text-gray-700 mb-1">Last service</span>
+            <input
+              type="date"
+              value={form.lastService}
+              onChange={(e) => setForm({ ...form, lastService: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label>
+            <span className="block font-medium text-gray-700 mb-1">Next service</span>
+            <input
+              type="date"
+              value={form.nextService}
+              onChange={(e) => setForm({ ...form, nextService: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </label>
+        </div>
+
+        <div className="border-t p-6 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default AdminFleet;
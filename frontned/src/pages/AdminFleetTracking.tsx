@@ -0,0 +1,285 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import FleetMap, { FleetMapMarker } from '../components/FleetMap';
+import { vehicleService, LiveVehicle, VehicleTrack, VehicleStatus } from '../services/vehicleService';
+import { getErrorMessage } from '../services/api';
+import { ArrowLeft, RefreshCw, Play, Pause, Radio, History, XCircle } from 'lucide-react';
+
+// How often the live positions are refreshed
+const LIVE_REFRESH_MS = 15000;
+
+// Time between replay steps
+const REPLAY_STEP_MS = 200;
+
+const STATUS_MARKER_COLORS: Record<VehicleStatus, string> = {
+  available: '#10B981',
+  in_route: '#3B82F6',
+  loading: '#F59E0B',
+  maintenance: '#F97316',
+  out_of_service: '#EF4444'
+};
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const today = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const AdminFleetTracking: React.FC = () => {
+  const [mode, setMode] = useState<'live' | 'replay'>('live');
+  const [vehicles, setVehicles] = useState<LiveVehicle[]>([]);
+  const [lastRefresh, setLastRefresh] = useState<Date | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [replayVehicle, setReplayVehicle] = useState('');
+  const [replayDate, setReplayDate] = useState(today());
+  const [track, setTrack] = useState<VehicleTrack | null>(null);
+  const [trackLoading, setTrackLoading] = useState(false);
+  const [cursor, setCursor] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  useEffect(() => {
+    const loadLive = async () => {
+      try {
+        setVehicles(await vehicleService.getLiveVehicles());
+        setLastRefresh(new Date());
+      } catch (err) {
+        console.error('Error loading vehicle positions:', err);
+        setError(getErrorMessage(err, 'Failed to load vehicle positions'));
+      }
+    };
+
+    loadLive();
+    const timer = setInterval(loadLive, LIVE_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Advance the replay cursor while playing
+  useEffect(() => {
+    if (!playing || !track) return;
+
+    const timer = setInterval(() => {
+      setCursor(current => {
+        if (current >= track.fixes.length - 1) {
+          setPlaying(false);
+          return current;
+        }
+        return current + 1;
+      });
+    }, REPLAY_STEP_MS);
+    return () => clearInterval(timer);
+  }, [playing, track]);
+
+  const loadTrack = async (vehicleId = replayVehicle, date = replayDate) => {
+    if (!vehicleId) return;
+
+    setTrackLoading(true);
+    setPlaying(false);
+    setError(null);
+    try {
+      const from = new Date(`${date}T00:00:00`);
+      const to = new Date(Math.min(from.getTime() + 24 * 60 * 60 * 1000 - 1, Date.now()));
+      const result = await vehicleService.getTrack(vehicleId, from, to);
+      setTrack(result);
+      setCursor(0);
+    } catch (err) {
+      console.error('Error loading track:', err);
+      setError(getErrorMessage(err, 'Failed to load vehicle history'));
+      setTrack(null);
+    } finally {
+      setTrackLoading(false);
+    }
+  };
+
+  const openReplay = (vehicleId: string) => {
+    setMode('replay');
+    setReplayVehicle(vehicleId);
+    loadTrack(vehicleId);
+  };
+
+  const liveMarkers: FleetMapMarker[] = vehicles.map(vehicle => ({
+    id: vehicle._id,
+    label: vehicle.vehicleId,
+    coordinates: vehicle.currentLocation.coordinates,
+    color: STATUS_MARKER_COLORS[vehicle.status],
+    faded: vehicle.stale
+  }));
+
+  const currentFix = track?.fixes[cursor];
+  const replayMarkers: FleetMapMarker[] = track && currentFix
+    ? [{ id: track.vehicle._id, label: track.vehicle.vehicleId, coordinates: currentFix.location, color: '#2563EB' }]
+    : [];
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 sm:p-6 lg:p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <Link to="/admin/fleet" className="text-sm text-gray-500 hover:text-gray-700 flex items-center mb-2">
+              <ArrowLeft className="h-4 w-4 mr-1" /> Fleet
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Vehicle Tracking</h1>
+            <p className="text-gray-600">
+              {mode === 'live'
+                ? `${vehicles.length} vehicle(s) reporting${lastRefresh ? ` • updated ${lastRefresh.toLocaleTimeString()}` : ''}`
+                : 'Replay a vehicle\'s day'}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setMode('live')}
+              className={`px-4 py-2 rounded-md flex items-center ${mode === 'live' ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+            >
+              <Radio className="h-4 w-4 mr-2" /> Live
+            </button>
+            <button
+              onClick={() => setMode('replay')}
+              className={`px-4 py-2 rounded-md flex items-center ${mode === 'replay' ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+            >
+              <History className="h-4 w-4 mr-2" /> Replay
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-4 text-sm text-red-800 flex justify-between">
+            <span>{error}</span>
+            <button onClick={() => setError(null)}><XCircle className="h-4 w-4" /></button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 bg-white rounded-lg shadow-md p-4">
+            {mode === 'live' ? (
+              <FleetMap markers={liveMarkers} onSelect={openReplay} />
+            ) : (
+              <>
+                <FleetMap markers={replayMarkers} path={track?.fixes.map(fix => fix.location)} />
+                {track && track.fixes.length > 0 && (
+                  <div className="mt-4 flex items-center gap-3">
+                    <button
+                      onClick={() => {
+                        if (cursor >= track.fixes.length - 1) setCursor(0);
+                        setPlaying(!playing);
+                      }}
+                      className="p-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                    >
+                      {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                    </button>
+                    <input
+                      type="range"
+                      min={0}
+                      max={track.fixes.length - 1}
+                      value={cursor}
+                      onChange={(e) => setCursor(Number(e.target.value))}
+                      className="flex-1"
+                    />
+                    <span className="text-sm text-gray-700 w-24 text-right">
+                      {currentFix && formatTime(currentFix.timestamp)}
+                    </span>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow-md p-4">
+            {mode === 'live' ? (
+              <>
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Vehicles</h3>
+                {vehicles.length === 0 ? (
+                  <p className="text-sm text-gray-500">No vehicle has reported its position yet.</p>
+                ) : (
+                  <div className="divide-y divide-gray-200">
+                    {vehicles.map(vehicle => (
+                      <div key={vehicle._id} className="py-3 text-sm">
+                        <div className="flex justify-between items-center">
+                          <span className="font-semibold text-gray-900">{vehicle.vehicleId}</span>
+                          <span
+                            className="px-2 py-0.5 rounded-full text-xs font-semibold text-white capitalize"
+                            style={{ backgroundColor: STATUS_MARKER_COLORS[vehicle.status] }}
+                          >
+                            {vehicle.status.replace(/_/g, ' ')}
+                          </span>
+                        </div>
+                        <p className="text-gray-500">
+                          {vehicle.driver?.name || 'No driver'}
+                          {vehicle.currentLocation.activity && ` • ${vehicle.currentLocation.activity}`}
+                          {vehicle.currentLocation.speed !== undefined && ` • ${Math.round(vehicle.currentLocation.speed)} km/h`}
+                        </p>
+                        <div className="flex justify-between items-center">
+                          <span className={vehicle.stale ? 'text-orange-600' : 'text-gray-400'}>
+                            {vehicle.stale ? 'Last seen' : 'Updated'} {formatTime(vehicle.currentLocation.lastUpdated)}
+                          </span>
+                          <button
+                            onClick={() => openReplay(vehicle._id)}
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            Replay day
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            ) : (
+              <>
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Replay</h3>
+                <div className="space-y-3 text-sm">
+                  <select
+                    value={replayVehicle}
+                    onChange={(e) => setReplayVehicle(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    <option value="">Select a vehicle</option>
+                    {vehicles.map(vehicle => (
+                      <option key={vehicle._id} value={vehicle._id}>{vehicle.vehicleId}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="date"
+                    value={replayDate}
+                    max={today()}
+                    onChange={(e) => setReplayDate(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                  <button
+                    onClick={() => loadTrack()}
+                    disabled={!replayVehicle || trackLoading}
+                    className="w-full px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 flex items-center justify-center"
+                  >
+                    {trackLoading && <RefreshCw className="h-4 w-4 mr-2 animate-spin" />}
+                    Load history
+                  </button>
+                </div>
+
+                {track && (
+                  <div className="mt-6 text-sm space-y-1">
+                    <p><strong>{track.fixes.length}</strong> GPS fixes</p>
+                    <p><strong>{(track.distanceMeters / 1000).toFixed(1)} km</strong> driven</p>
+                    {track.fixes.length > 0 && (
+                      <p className="text-gray-500">
+                        {formatTime(track.fixes[0].timestamp)} – {formatTime(track.fixes[track.fixes.length - 1].timestamp)}
+                      </p>
+                    )}
+                    {currentFix && (
+                      <p className="text-gray-500 capitalize">
+                        {currentFix.activity || 'unknown'}
+                        {currentFix.speed !== undefined && ` • ${Math.round(currentFix.speed)} km/h`}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminFleetTracking;
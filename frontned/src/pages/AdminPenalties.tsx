@@ -0,0 +1,405 @@
+import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  penaltyService, Penalty, PenaltyAction, PenaltyStatus, PenaltyViolation, IssuePenaltyData, Offender
+} from '../services/penaltyService';
+import { wasteService } from '../services/wasteService';
+import { getErrorMessage } from '../services/api';
+import { useCan } from '../hooks/useCan';
+import { Gavel, RefreshCw, XCircle, Plus, History, Search } from 'lucide-react';
+
+const VIOLATIONS: PenaltyViolation[] = ['illegal_dumping', 'not_segregating', 'burning_waste', 'littering', 'other'];
+
+const STATUS_STYLES: Record<PenaltyStatus, string> = {
+  pending: 'bg-red-100 text-red-800',
+  disputed: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-green-100 text-green-800',
+  waived: 'bg-gray-100 text-gray-700'
+};
+
+const label = (value: string) => value.replace(/_/g, ' ');
+
+const AdminPenalties: React.FC = () => {
+  const can = useCan();
+  const [searchParams] = useSearchParams();
+  const [penalties, setPenalties] = useState<Penalty[]>([]);
+  const [statusFilter, setStatusFilter] = useState<PenaltyStatus | ''>('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  // Issue form is open straight away when coming from a report
+  const [issuing, setIssuing] = useState(!!searchParams.get('report'));
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const manages = can('penalty.manage');
+
+  useEffect(() => {
+    loadPenalties('');
+  }, []);
+
+  const loadPenalties = async (status: PenaltyStatus | '') => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await penaltyService.getPenalties({ status: status || undefined, limit: 100 });
+      setPenalties(result.penalties);
+    } catch (err) {
+      console.error('Error loading penalties:', err);
+      setError(getErrorMessage(err, 'Failed to load penalties'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<{ message?: string }>, fallback: string) => {
+    try {
+      const response = await action();
+      setMessage(response.message || 'Saved');
+      setTimeout(() => setMessage(null), 3000);
+      setIssuing(false);
+      await loadPenalties(statusFilter);
+    } catch (err) {
+      setError(getErrorMessage(err, fallback));
+    }
+  };
+
+  const takeAction = (penalty: Penalty, action: PenaltyAction) => {
+    if (action === 'paid') {
+      const reference = window.prompt('Payment reference (optional):');
+      if (reference === null) return;
+      runAction(() => penaltyService.markPaid(penalty._id, reference.trim()), 'Failed to record payment');
+    } else if (action === 'waived') {
+      const notes = window.prompt('Why is this penalty waived?');
+      if (!notes?.trim()) return;
+      runAction(() => penaltyService.waive(penalty._id, notes.trim()), 'Failed to waive penalty');
+    } else if (action === 'dispute_upheld') {
+      if (!window.confirm('Uphold the dispute? The penalty will be waived.')) return;
+      runAction(() => penaltyService.resolveDispute(penalty._id, 'upheld'), 'Failed to resolve dispute');
+    } else if (action === 'dispute_rejected') {
+      const notes = window.prompt('Why is the dispute rejected?');
+      if (!notes?.trim()) return;
+      runAction(() => penaltyService.resolveDispute(penalty._id, 'rejected', notes.trim()), 'Failed to resolve dispute');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 sm:p-6 lg:p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Penalties</h1>
+            <p className="text-gray-600">
+              {manages ? 'Penalties issued for violations, disputes to decide and payments.' : 'Penalties you issued.'}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setIssuing(true)}
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 flex items-center"
+            >
+              <Plus className="h-4 w-4 mr-2" /> Issue penalty
+            </button>
+            <select
+              value={statusFilter}
+              onChange={(e) => {
+                const status = e.target.value as PenaltyStatus | '';
+                setStatusFilter(status);
+                loadPenalties(status);
+              }}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">All</option>
+              <option value="pending">Pending</option>
+              <option value="disputed">Disputed</option>
+              <option value="paid">Paid</option>
+              <option value="waived">Waived</option>
+            </select>
+            <button
+              onClick={() => loadPenalties(statusFilter)}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 flex items-center"
+            >
+              <RefreshCw className="h-4 w-4 mr-2" /> Refresh
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-4 text-sm text-red-800 flex justify-between">
+            <span>{error}</span>
+            <button onClick={() => setError(null)}><XCircle className="h-4 w-4" /></button>
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4 mb-4 text-sm text-green-800">{message}</div>
+        )}
+
+        {issuing && (
+          <IssuePenaltyForm
+            initialReport={searchParams.get('report') || ''}
+            onIssue={(data, evidence) => runAction(() => penaltyService.issue(data, evidence), 'Failed to issue penalty')}
+            onCancel={() => setIssuing(false)}
+          />
+        )}
+
+        <div className="bg-white rounded-lg shadow-md">
+          {loading ? (
+            <div className="p-12 flex justify-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-500"></div>
+            </div>
+          ) : penalties.length === 0 ? (
+            <div className="text-center py-12">
+              <Gavel className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <p className="text-gray-500">No penalties match.</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {penalties.map(penalty => (
+                <div key={penalty._id} className="p-6">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <h3 className="text-lg font-semibold text-gray-900">
+                        {penalty.user.name}
+                        <span className="ml-2 text-sm font-normal text-gray-500">{penalty.user.email}</span>
+                      </h3>
+                      <p className="text-sm text-gray-700 capitalize">
+                        {label(penalty.violation)} • ${penalty.amount}
+                        {penalty.dueDate && <span className="normal-case"> • due {new Date(penalty.dueDate).toLocaleDateString()}</span>}
+                      </p>
+                      <p className="text-sm text-gray-600 mt-1">{penalty.reason}</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Issued by {penalty.issuedBy?.name || 'unknown'} on {new Date(penalty.createdAt).toLocaleDateString()}
+                        {penalty.report && (
+                          <> • report: <span className="capitalize">{label(penalty.report.wasteType)}</span>
+                            {penalty.report.location?.address?.street && `, ${penalty.report.location.address.street}`}</>
+                        )}
+                      </p>
+                      {penalty.dispute?.statement && (
+                        <p className="text-sm text-yellow-800 bg-yellow-50 rounded-md p-2 mt-2">
+                          Dispute: “{penalty.dispute.statement}”
+                        </p>
+                      )}
+                      {penalty.evidence.length > 0 && (
+                        <div className="flex gap-2 mt-2">
+                          {penalty.evidence.map(image => (
+                            <a key={image.filename} href={wasteService.getImageUrl(image) || undefined} target="_blank" rel="noreferrer">
+                              <img
+                                src={wasteService.getImageUrl(image, 'thumb') || undefined}
+                                alt="Evidence"
+                                className="h-16 w-16 object-cover rounded"
+                              />
+                            </a>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex flex-col items-end gap-2 flex-shrink-0">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[penalty.status]}`}>
+                        {penalty.status}
+                      </span>
+                      {penalty.allowedActions.map(({ action, label: actionLabel }) => (
+                        <button
+                          key={action}
+                          onClick={() => takeAction(penalty, action)}
+                          className="px-3 py-1 border border-gray-300 text-gray-700 rounded-md text-sm hover:bg-gray-50"
+                        >
+                          {actionLabel}
+                        </button>
+                      ))}
+                      <button
+                        onClick={() => setExpanded(expanded === penalty._id ? null : penalty._id)}
+                        className="text-sm text-gray-600 hover:text-gray-900 flex items-center"
+                      >
+                        <History className="h-4 w-4 mr-1" /> History
+                      </button>
+                    </div>
+                  </div>
+
+                  {expanded === penalty._id && (
+                    <ol className="mt-4 border-l-2 border-gray-200 pl-4 space-y-2">
+                      {penalty.history.map(entry => (
+                        <li key={entry._id} className="text-sm">
+                          <span className="font-medium text-gray-900 capitalize">{label(entry.action)}</span>
+                          <span className="text-gray-500">
+                            {' '}by {entry.by?.name || 'system'} • {new Date(entry.at).toLocaleString()}
+                            {entry.fromStatus && ` • ${entry.fromStatus} → ${entry.toStatus}`}
+                          </span>
+                          {entry.notes && <p className="text-gray-600">{entry.notes}</p>}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface IssuePenaltyFormProps {
+  initialReport: string;
+  onIssue: (data: IssuePenaltyData, evidence: File[]) => void;
+  onCancel: () => void;
+}
+
+const IssuePenaltyForm: React.FC<IssuePenaltyFormProps> = ({ initialReport, onIssue, onCancel }) => {
+  const [report, setReport] = useState(initialReport);
+  const [query, setQuery] = useState('');
+  const [matches, setMatches] = useState<Offender[]>([]);
+  const [offender, setOffender] = useState<Offender | null>(null);
+  const [violation, setViolation] = useState<PenaltyViolation>('illegal_dumping');
+  const [amount, setAmount] = useState(0);
+  const [reason, setReason] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [evidence, setEvidence] = useState<File[]>([]);
+
+  const search = async () => {
+    setMatches(query.trim().length >= 2 ? await penaltyService.findOffenders(query.trim()) : []);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!offender) return;
+    onIssue({
+      user: offender._id,
+      report: report.trim(),
+      violation,
+      amount,
+      reason: reason.trim(),
+      dueDate: dueDate ? new Date(dueDate).toISOString() : undefined
+    }, evidence);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Issue penalty</h2>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Citizen</label>
+          {offender ? (
+            <div className="flex items-center justify-between px-3 py-2 border border-gray-300 rounded-md">
+              <span className="text-sm">{offender.name} ({offender.email})</span>
+              <button type="button" onClick={() => setOffender(null)} className="text-gray-500 hover:text-gray-700">
+                <XCircle className="h-4 w-4" />
+              </button>
+            </div>
+          ) : (
+            <>
+              <div className="flex">
+                <input
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); search(); } }}
+                  placeholder="Name, email or phone"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-l-md"
+                />
+                <button type="button" onClick={search} className="px-3 border border-l-0 border-gray-300 rounded-r-md text-gray-600 hover:bg-gray-50">
+                  <Search className="h-4 w-4" />
+                </button>
+              </div>
+              {matches.length > 0 && (
+                <ul className="mt-1 border border-gray-200 rounded-md divide-y divide-gray-100">
+                  {matches.map(match => (
+                    <li key={match._id}>
+                      <button
+                        type="button"
+                        onClick={() => { setOffender(match); setMatches([]); }}
+                        className="w-full text-left px-3 py-1 text-sm hover:bg-gray-50"
+                      >
+                        {match.name} <span className="text-gray-500">{match.email}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Report ID</label>
+          <input
+            value={report}
+            onChange={(e) => setReport(e.target.value)}
+            required
+            pattern="[0-9a-fA-F]{24}"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Violation</label>
+          <select
+            value={violation}
+            onChange={(e) => setViolation(e.target.value as PenaltyViolation)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md capitalize"
+          >
+            {VIOLATIONS.map(option => (
+              <option key={option} value={option}>{label(option)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+            required
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Due date</label>
+          <input
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Evidence photos</label>
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            onChange={(e) => setEvidence(Array.from(e.target.files || []).slice(0, 5))}
+            className="w-full text-sm"
+          />
+        </div>
+      </div>
+      <div className="mt-4">
+        <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+        <textarea
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          required
+          rows={2}
+          maxLength={500}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md"
+        />
+      </div>
+      <div className="mt-4 flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!offender || !report.trim() || reason.trim().length < 3}
+          className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+        >
+          Issue
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default AdminPenalties;
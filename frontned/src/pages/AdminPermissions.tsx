@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { adminService, RolePermissions } from '../services/adminService';
+import { getErrorMessage } from '../services/api';
+import { RefreshCw, XCircle, Save, RotateCcw, Lock } from 'lucide-react';
+
+const AdminPermissions: React.FC = () => {
+  const { refreshPermissions } = useAuth();
+  const [data, setData] = useState<RolePermissions | null>(null);
+  // Unsaved edits, per role
+  const [drafts, setDrafts] = useState<Record<string, string[]>>({});
+  const [loading, setLoading] = useState(true);
+  const [savingRole, setSavingRole] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPermissions();
+  }, []);
+
+  const loadPermissions = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await adminService.getRolePermissions();
+      setData(result);
+      setDrafts(result.roles);
+    } catch (err) {
+      console.error('Error loading permissions:', err);
+      setError(getErrorMessage(err, 'Failed to load permissions'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (role: string, action: () => Promise<{ message?: string }>, fallback: string) => {
+    setSavingRole(role);
+    try {
+      const response = await action();
+      setMessage(response.message || 'Saved');
+      setTimeout(() => setMessage(null), 3000);
+      await Promise.all([loadPermissions(), refreshPermissions()]);
+    } catch (err) {
+      setError(getErrorMessage(err, fallback));
+    } finally {
+      setSavingRole(null);
+    }
+  };
+
+  const toggle = (role: string, permission: string) => {
+    setDrafts(prev => {
+      const current = prev[role] || [];
+      return {
+        ...prev,
+        [role]: current.includes(permission)
+          ? current.filter(name => name !== permission)
+          : [...current, permission]
+      };
+    });
+  };
+
+  const isDirty = (role: string) => {
+    const saved = data?.roles[role] || [];
+    const draft = drafts[role] || [];
+    return saved.length !== draft.length || draft.some(name => !saved.includes(name));
+  };
+
+  const roles = data ? Object.keys(data.roles) : [];
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 sm:p-6 lg:p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Roles &amp; permissions</h1>
+            <p className="text-gray-600">Choose what each role may do in this municipality.</p>
+          </div>
+          <button
+            onClick={loadPermissions}
+            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 flex items-center"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" /> Refresh
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-4 text-sm text-red-800 flex justify-between">
+            <span>{error}</span>
+            <button onClick={() => setError(null)}><XCircle className="h-4 w-4" /></button>
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4 mb-4 text-sm text-green-800">{message}</div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-md">
+          {loading || !data ? (
+            <div className="p-12 flex justify-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-500"></div>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+                    <th className="px-6 py-3">Permission</th>
+                    {roles.map(role => (
+                      <th key={role} className="px-4 py-3 text-center">
+                        {role.replace('_', ' ')}
+                        {data.customised.includes(role) && (
+                          <span className="block normal-case font-normal text-yellow-700">customised</span>
+                        )}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 text-sm">
+                  {data.permissions.map(permission => (
+                    <tr key={permission.name} className="hover:bg-gray-50">
+                      <td className="px-6 py-3">
+                        <p className="font-mono text-xs text-gray-900">{permission.name}</p>
+                        <p className="text-gray-500">{permission.description}</p>
+                      </td>
+                      {roles.map(role => {
+                        const locked = data.locked[role]?.includes(permission.name);
+                        return (
+                          <td key={role} className="px-4 py-3 text-center">
+                            {locked ? (
+                              <span title="This role always keeps this permission">
+                                <Lock className="h-4 w-4 text-gray-400 inline" />
+                              </span>
+                            ) : (
+                              <input
+                                type="checkbox"
+                                checked={(drafts[role] || []).includes(permission.name)}
+                                onChange={() => toggle(role, permission.name)}
+                                className="h-4 w-4 text-green-600 rounded"
+                              />
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot className="bg-gray-50">
+                  <tr>
+                    <td className="px-6 py-3 text-xs text-gray-500">
+                      Roles you have not changed follow the platform defaults.
+                    </td>
+                    {roles.map(role => (
+                      <td key={role} className="px-4 py-3">
+                        <div className="flex flex-col items-center space-y-2">
+                          <button
+                            onClick={() => runAction(
+                              role,
+                              () => adminService.updateRolePermissions(role, drafts[role] || []),
+                              'Failed to update permissions'
+                            )}
+                            disabled={!isDirty(role) || savingRole === role}
+                            className="px-3 py-1 bg-green-600 text-white rounded-md text-xs hover:bg-green-700 disabled:opacity-50 flex items-center"
+                          >
+                            <Save className="h-3 w-3 mr-1" /> Save
+                          </button>
+                          {data.customised.includes(role) && (
+                            <button
+                              onClick={() => runAction(
+                                role,
+                                () => adminService.resetRolePermissions(role),
+                                'Failed to reset permissions'
+                              )}
+                              disabled={savingRole === role}
+                              className="px-3 py-1 bg-gray-100 text-gray-700 rounded-md text-xs hover:bg-gray-200 disabled:opacity-50 flex items-center"
+                            >
+                              <RotateCcw className="h-3 w-3 mr-1" /> Defaults
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    ))}
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminPermissions;
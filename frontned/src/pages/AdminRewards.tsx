@@ -0,0 +1,402 @@
+import React, { useState, useEffect } from 'react';
+import {
+  rewardService, Reward, RewardData, RewardCategory, Redemption, RedemptionStatus
+} from '../services/rewardService';
+import { getErrorMessage } from '../services/api';
+import { Gift, RefreshCw, XCircle, Pencil, Plus, CheckCircle, Ban, Search } from 'lucide-react';
+
+const CATEGORIES: RewardCategory[] = ['compost', 'transport', 'voucher', 'merchandise', 'other'];
+
+const AdminRewards: React.FC = () => {
+  const [rewards, setRewards] = useState<Reward[]>([]);
+  const [redemptions, setRedemptions] = useState<Redemption[]>([]);
+  const [statusFilter, setStatusFilter] = useState<RedemptionStatus | ''>('pending');
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  // Reward being edited; 'new' while creating one
+  const [editing, setEditing] = useState<Reward | 'new' | null>(null);
+
+  useEffect(() => {
+    loadRewards('pending', '');
+  }, []);
+
+  const loadRewards = async (status: RedemptionStatus | '', voucherCode: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [catalogue, page] = await Promise.all([
+        rewardService.getRewards(true),
+        rewardService.getRedemptions({
+          status: status || undefined,
+          code: voucherCode.trim() || undefined,
+          limit: 100
+        })
+      ]);
+      setRewards(catalogue);
+      setRedemptions(page.redemptions);
+    } catch (err) {
+      console.error('Error loading rewards:', err);
+      setError(getErrorMessage(err, 'Failed to load rewards'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<{ message?: string }>, fallback: string) => {
+    try {
+      const response = await action();
+      setMessage(response.message || 'Saved');
+      setTimeout(() => setMessage(null), 3000);
+      setEditing(null);
+      await loadRewards(statusFilter, code);
+    } catch (err) {
+      setError(getErrorMessage(err, fallback));
+    }
+  };
+
+  const saveReward = (data: RewardData) => {
+    if (editing === 'new') {
+      runAction(() => rewardService.createReward(data), 'Failed to create reward');
+    } else if (editing) {
+      runAction(() => rewardService.updateReward(editing._id, data), 'Failed to update reward');
+    }
+  };
+
+  const fulfil = (redemption: Redemption) => {
+    runAction(() => rewardService.fulfilRedemption(redemption._id), 'Failed to fulfil redemption');
+  };
+
+  const cancel = (redemption: Redemption) => {
+    const reason = window.prompt(
+      `Cancel voucher ${redemption.voucherCode}? ${redemption.pointsCost} points go back to the citizen.\nReason (optional):`
+    );
+    if (reason === null) return;
+    runAction(() => rewardService.cancelRedemption(redemption._id, reason.trim()), 'Failed to cancel redemption');
+  };
+
+  const searchCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    loadRewards(statusFilter, code);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 sm:p-6 lg:p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Rewards</h1>
+            <p className="text-gray-600">The catalogue citizens spend points on, and the vouchers they hold.</p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setEditing('new')}
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 flex items-center"
+            >
+              <Plus className="h-4 w-4 mr-2" /> New reward
+            </button>
+            <button
+              onClick={() => loadRewards(statusFilter, code)}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 flex items-center"
+            >
+              <RefreshCw className="h-4 w-4 mr-2" /> Refresh
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-4 text-sm text-red-800 flex justify-between">
+            <span>{error}</span>
+            <button onClick={() => setError(null)}><XCircle className="h-4 w-4" /></button>
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4 mb-4 text-sm text-green-800">{message}</div>
+        )}
+
+        {editing && (
+          <RewardForm
+            key={editing === 'new' ? 'new' : editing._id}
+            reward={editing === 'new' ? null : editing}
+            onSave={saveReward}
+            onCancel={() => setEditing(null)}
+          />
+        )}
+
+        <div className="bg-white rounded-lg shadow-md mb-8">
+          <div className="px-6 py-4 border-b">
+            <h2 className="text-xl font-semibold">Catalogue</h2>
+          </div>
+          {loading ? (
+            <div className="p-12 flex justify-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-500"></div>
+            </div>
+          ) : rewards.length === 0 ? (
+            <div className="text-center py-12">
+              <Gift className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <p className="text-gray-500">The catalogue is empty. Add compost bags, bus-pass credit or partner vouchers.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 uppercase border-b">
+                    <th className="py-3 px-6">Reward</th>
+                    <th className="py-3 px-2">Category</th>
+                    <th className="py-3 px-2 text-right">Cost</th>
+                    <th className="py-3 px-2 text-right">Stock</th>
+                    <th className="py-3 px-6"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {rewards.map(reward => (
+                    <tr key={reward._id} className={reward.isActive ? '' : 'opacity-60'}>
+                      <td className="py-3 px-6">
+                        <p className="font-medium text-gray-900">
+                          {reward.name}
+                          {!reward.isActive && <span className="ml-2 text-xs font-normal text-gray-500">hidden</span>}
+                        </p>
+                        {reward.partner && <p className="text-gray-500">{reward.partner}</p>}
+                      </td>
+                      <td className="py-3 px-2 capitalize">{reward.category}</td>
+                      <td className="py-3 px-2 text-right">{reward.pointsCost} pts</td>
+                      <td className={`py-3 px-2 text-right ${reward.stock === 0 ? 'text-red-700 font-medium' : ''}`}>
+                        {reward.stock}
+                      </td>
+                      <td className="py-3 px-6 text-right">
+                        <button
+                          onClick={() => setEditing(reward)}
+                          className="p-2 text-gray-600 hover:text-gray-900"
+                          title="Edit"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md">
+          <div className="px-6 py-4 border-b flex flex-wrap items-center justify-between gap-4">
+            <h2 className="text-xl font-semibold">Redemptions</h2>
+            <div className="flex gap-2">
+              <form onSubmit={searchCode} className="flex">
+                <input
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="Voucher code"
+                  className="px-3 py-2 border border-gray-300 rounded-l-md text-sm font-mono"
+                />
+                <button type="submit" className="px-3 border border-l-0 border-gray-300 rounded-r-md text-gray-600 hover:bg-gray-50">
+                  <Search className="h-4 w-4" />
+                </button>
+              </form>
+              <select
+                value={statusFilter}
+                onChange={(e) => {
+                  const status = e.target.value as RedemptionStatus | '';
+                  setStatusFilter(status);
+                  loadRewards(status, code);
+                }}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="">All</option>
+                <option value="pending">Pending</option>
+                <option value="fulfilled">Fulfilled</option>
+                <option value="cancelled">Cancelled</option>
+              </select>
+            </div>
+          </div>
+          {!loading && redemptions.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">No redemptions match.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {redemptions.map(redemption => (
+                <li key={redemption._id} className="px-6 py-4 flex items-center justify-between gap-4">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      <span className="font-mono mr-2">{redemption.voucherCode}</span>
+                      {redemption.rewardName}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {typeof redemption.user === 'object' ? `${redemption.user.name} (${redemption.user.email})` : ''}
+                      {' • '}{redemption.pointsCost} pts • {new Date(redemption.createdAt).toLocaleString()}
+                      {redemption.status === 'fulfilled' && redemption.fulfilledBy && ` • fulfilled by ${redemption.fulfilledBy.name}`}
+                      {redemption.status === 'cancelled' && redemption.cancelledBy && ` • cancelled by ${redemption.cancelledBy.name}`}
+                      {redemption.cancelReason && `: ${redemption.cancelReason}`}
+                    </p>
+                  </div>
+                  {redemption.status === 'pending' ? (
+                    <div className="flex gap-2 flex-shrink-0">
+                      <button
+                        onClick={() => fulfil(redemption)}
+                        className="px-3 py-1 bg-green-600 text-white rounded-md text-sm hover:bg-green-700 flex items-center"
+                      >
+                        <CheckCircle className="h-4 w-4 mr-1" /> Fulfil
+                      </button>
+                      <button
+                        onClick={() => cancel(redemption)}
+                        className="px-3 py-1 border border-red-300 text-red-700 rounded-md text-sm hover:bg-red-50 flex items-center"
+                      >
+                        <Ban className="h-4 w-4 mr-1" /> Cancel
+                      </button>
+                    </div>
+                  ) : (
+                    <span className="text-xs font-medium text-gray-500 uppercase">{redemption.status}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface RewardFormProps {
+  reward: Reward | null;
+  onSave: (data: RewardData) => void;
+  onCancel: () => void;
+}
+
+const RewardForm: React.FC<RewardFormProps> = ({ reward, onSave, onCancel }) => {
+  const [name, setName] = useState(reward?.name || '');
+  const [description, setDescription] = useState(reward?.description || '');
+  const [category, setCategory] = useState<RewardCategory>(reward?.category || 'other');
+  const [partner, setPartner] = useState(reward?.partner || '');
+  const [pointsCost, setPointsCost] = useState(reward?.pointsCost ?? 100);
+  const [stock, setStock] = useState(reward?.stock ?? 0);
+  const [imageUrl, setImageUrl] = useState(reward?.imageUrl || '');
+  const [isActive, setIsActive] = useState(reward?.isActive ?? true);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      name: name.trim(),
+      description: description.trim(),
+      category,
+      partner: partner.trim(),
+      pointsCost,
+      stock,
+      imageUrl: imageUrl.trim(),
+      isActive
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">{reward ? `Edit ${reward.name}` : 'New reward'}</h2>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            required
+            maxLength={100}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value as RewardCategory)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md capitalize"
+          >
+            {CATEGORIES.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Partner</label>
+          <input
+            value={partner}
+            onChange={(e) => setPartner(e.target.value)}
+            maxLength={100}
+            placeholder="e.g. City Bus Corporation"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Point cost</label>
+          <input
+            type="number"
+            min={1}
+            value={pointsCost}
+            onChange={(e) => setPointsCost(parseInt(e.target.value) || 0)}
+            required
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Stock</label>
+          <input
+            type="number"
+            min={0}
+            value={stock}
+            onChange={(e) => setStock(parseInt(e.target.value) || 0)}
+            required
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Image URL</label>
+          <input
+            type="url"
+            value={imageUrl}
+            onChange={(e) => setImageUrl(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+      </div>
+      <div className="mt-4">
+        <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={2}
+          maxLength={500}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md"
+        />
+      </div>
+
+      <div className="mt-4 flex items-center justify-between">
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={isActive}
+            onChange={(e) => setIsActive(e.target.checked)}
+            className="h-4 w-4 text-green-600 rounded mr-2"
+          />
+          Shown in the catalogue
+        </label>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!name.trim() || pointsCost < 1 || stock < 0}
+            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default AdminRewards;
@@ -0,0 +1,372 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { routeService, CollectionRoute, RouteStatus } from '../services/routeService';
+import { vehicleService, Vehicle } from '../services/vehicleService';
+import { facilityService } from '../services/facilityService';
+import { wasteService } from '../services/wasteService';
+import { getErrorMessage } from '../services/api';
+import RouteStops from '../components/RouteStops';
+import { ArrowLeft, Plus, RefreshCw, Trash2, XCircle, Shuffle, Route as RouteIcon } from 'lucide-react';
+
+interface FacilityOption {
+  _id: string;
+  name: string;
+  type: string;
+}
+
+interface Driver {
+  _id: string;
+  name: string;
+}
+
+// Facilities a route can end at
+const DISPOSAL_FACILITY_TYPES = ['transfer_station', 'landfill', 'waste_treatment_plant'];
+
+const ROUTE_STATUS_COLORS: Record<RouteStatus, string> = {
+  planned: 'bg-gray-100 text-gray-800',
+  in_progress: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800'
+};
+
+const today = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const formatTime = (value?: string) =>
+  value ? new Date(value).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }) : '—';
+
+const AdminRoutes: React.FC = () => {
+  const [date, setDate] = useState(today());
+  const [routes, setRoutes] = useState<CollectionRoute[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [facilities, setFacilities] = useState<FacilityOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [showPlanner, setShowPlanner] = useState(false);
+
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        const [vehicleList, workersResponse, facilitiesResponse] = await Promise.all([
+          vehicleService.getVehicles({ status: 'available,in_route,loading' }),
+          wasteService.getWorkers(),
+          facilityService.getFacilities({ limit: 200 })
+        ]);
+        setVehicles(vehicleList);
+        setDrivers(workersResponse?.data?.workers || []);
+        setFacilities(
+          ((facilitiesResponse?.data?.facilities || []) as FacilityOption[])
+            .filter(facility => DISPOSAL_FACILITY_TYPES.includes(facility.type))
+        );
+      } catch (err) {
+        console.error('Error loading planning options:', err);
+      }
+    };
+
+    loadOptions();
+    loadRoutes(today());
+  }, []);
+
+  const loadRoutes = async (day: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      setRoutes(await routeService.getRoutes({ date: day }));
+    } catch (err) {
+      console.error('Error loading routes:', err);
+      setError(getErrorMessage(err, 'Failed to load routes'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changeDate = (day: string) => {
+    setDate(day);
+    loadRoutes(day);
+  };
+
+  const runAction = async (action: () => Promise<{ message?: string }>, fallback: string) => {
+    try {
+      const response = await action();
+      setMessage(response.message || 'Saved');
+      setTimeout(() => setMessage(null), 3000);
+      await loadRoutes(date);
+    } catch (err) {
+      setError(getErrorMessage(err, fallback));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 sm:p-6 lg:p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <Link to="/admin/fleet" className="text-sm text-gray-500 hover:text-gray-700 flex items-center mb-2">
+              <ArrowLeft className="h-4 w-4 mr-1" /> Fleet
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Collection Routes</h1>
+            <p className="text-gray-600">{routes.length} route(s) on {new Date(`${date}T00:00:00`).toLocaleDateString()}</p>
+          </div>
+          <div className="flex gap-2 items-center">
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => changeDate(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md"
+            />
+            <button
+              onClick={() => loadRoutes(date)}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 flex items-center"
+            >
+              <RefreshCw className="h-4 w-4 mr-2" /> Refresh
+            </button>
+            <button
+              onClick={() => setShowPlanner(true)}
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 flex items-center"
+            >
+              <Plus className="h-4 w-4 mr-2" /> Plan Route
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-4 text-sm text-red-800 flex justify-between">
+            <span>{error}</span>
+            <button onClick={() => setError(null)}><XCircle className="h-4 w-4" /></button>
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4 mb-4 text-sm text-green-800">{message}</div>
+        )}
+
+        {loading ? (
+          <div className="p-12 flex justify-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-500"></div>
+          </div>
+        ) : routes.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-md text-center py-12">
+            <RouteIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+            <p className="text-gray-500">No routes planned for this day.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {routes.map(route => (
+              <div key={route._id} className="bg-white rounded-lg shadow-md p-6">
+                <div className="flex justify-between items-start flex-wrap gap-4 mb-4">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900">
+                      {route.vehicle.vehicleId} • {route.driver.name}
+                    </h3>
+                    <p className="text-sm text-gray-500">
+                      {formatTime(route.plannedStart)} – {formatTime(route.plannedEnd)}
+                      {' • '}{(route.totalDistanceMeters / 1000).toFixed(1)} km
+                      {' • '}ends at {route.endFacility.name}
+                    </p>
+                    {route.actualStart && (
+                      <p className="text-sm text-gray-500">
+                        Actual: {formatTime(route.actualStart)} – {formatTime(route.actualEnd)}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className={`px-2 py-1 rounded-full text-xs font-semibold capitalize ${ROUTE_STATUS_COLORS[route.status]}`}>
+                      {route.status.replace(/_/g, ' ')}
+                    </span>
+                    {route.status === 'planned' && (
+                      <button
+                        onClick={() => runAction(() => routeService.optimizeRoute(route._id), 'Failed to optimise route')}
+                        className="p-2 text-blue-600 hover:text-blue-800"
+                        title="Re-optimise"
+                      >
+                        <Shuffle className="h-4 w-4" />
+                      </button>
+                    )}
+                    {(route.status === 'planned' || route.status === 'in_progress') && (
+                      <button
+                        onClick={() => {
+                          if (!window.confirm('Cancel this route?')) return;
+                          runAction(() => routeService.updateStatus(route._id, 'cancelled'), 'Failed to cancel route');
+                        }}
+                        className="p-2 text-orange-600 hover:text-orange-800"
+                        title="Cancel"
+                      >
+                        <XCircle className="h-4 w-4" />
+                      </button>
+                    )}
+                    {(route.status === 'planned' || route.status === 'cancelled') && (
+                      <button
+                        onClick={() => {
+                          if (!window.confirm('Delete this route?')) return;
+                          runAction(() => routeService.deleteRoute(route._id), 'Failed to delete route');
+                        }}
+                        className="p-2 text-red-600 hover:text-red-800"
+                        title="Delete"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <RouteStops route={route} />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {showPlanner && (
+          <RoutePlannerModal
+            date={date}
+            vehicles={vehicles}
+            drivers={drivers}
+            facilities={facilities}
+            onClose={() => setShowPlanner(false)}
+            onPlanned={(text) => {
+              setShowPlanner(false);
+              setMessage(text);
+              setTimeout(() => setMessage(null), 4000);
+              loadRoutes(date);
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+const RoutePlannerModal: React.FC<{
+  date: string;
+  vehicles: Vehicle[];
+  drivers: Driver[];
+  facilities: FacilityOption[];
+  onClose: () => void;
+  onPlanned: (message: string) => void;
+}> = ({ date, vehicles, drivers, facilities, onClose, onPlanned }) => {
+  const [vehicleId, setVehicleId] = useState('');
+  const [driverId, setDriverId] = useState('');
+  const [plannedStart, setPlannedStart] = useState('08:00');
+  const [endFacilityId, setEndFacilityId] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectVehicle = (id: string) => {
+    setVehicleId(id);
+    setDriverId(vehicles.find(vehicle => vehicle._id === id)?.driver?._id || '');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await routeService.createRoute({
+        vehicleId,
+        driverId: driverId || undefined,
+        date,
+        plannedStart,
+        endFacilityId: endFacilityId || undefined,
+        includeAssigned: true
+      });
+      const skipped = response.data?.skipped?.length || 0;
+      onPlanned(`${response.message}${skipped ? ` (${skipped} report(s) skipped: already routed or without location)` : ''}`);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to plan route'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg max-w-md w-full">
+        <div className="border-b p-6">
+          <h2 className="text-xl font-semibold text-gray-900">Plan Route</h2>
+          <p className="text-sm text-gray-500">
+            Stops are the driver's open assigned reports, ordered to minimise distance.
+          </p>
+        </div>
+
+        <div className="p-6 space-y-4 text-sm">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3 text-red-800">{error}</div>
+          )}
+          <label className="block">
+            <span className="block font-medium text-gray-700 mb-1">Vehicle</span>
+            <select
+              required
+              value={vehicleId}
+              onChange={(e) => selectVehicle(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            >
+              <option value="">Select a vehicle</option>
+              {vehicles.map(vehicle => (
+                <option key={vehicle._id} value={vehicle._id}>
+                  {vehicle.vehicleId} • {vehicle.capacity.value} {vehicle.capacity.unit.replace('_', ' ')}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className="block font-medium text-gray-700 mb-1">Driver</span>
+            <select
+              value={driverId}
+              onChange={(e) => setDriverId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            >
+              <option value="">Vehicle's driver</option>
+              {drivers.map(driver => (
+                <option key={driver._id} value={driver._id}>{driver.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className="block font-medium text-gray-700 mb-1">Start time</span>
+            <input
+              type="time"
+              value={plannedStart}
+              onChange={(e) => setPlannedStart(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label className="block">
+            <span className="block font-medium text-gray-700 mb-1">End at facility</span>
+            <select
+              value={endFacilityId}
+              onChange={(e) => setEndFacilityId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            >
+              <option value="">Nearest disposal facility</option>
+              {facilities.map(facility => (
+                <option key={facility._id} value={facility._id}>
+                  {facility.name} ({facility.type.replace(/_/g, ' ')})
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="border-t p-6 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!vehicleId || saving}
+            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+          >
+            {saving ? 'Planning...' : 'Plan'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default AdminRoutes;
@@ -0,0 +1,527 @@
+import React, { useState, useEffect } from 'react';
+import {
+  scheduleService, CollectionSchedule, CollectionException, CollectionStream, ScheduleData, ExceptionData,
+  STREAM_LABELS, WEEKDAYS
+} from '../services/scheduleService';
+import { zoneService, Zone } from '../services/zoneService';
+import { getErrorMessage } from '../services/api';
+import { CalendarDays, CalendarX, RefreshCw, XCircle, Trash2, Pencil, Plus } from 'lucide-react';
+
+const STREAMS = Object.keys(STREAM_LABELS) as CollectionStream[];
+
+const describeDays = (schedule: CollectionSchedule) =>
+  `${schedule.days.map(day => WEEKDAYS[day]).join(', ')}` +
+  (schedule.everyWeeks > 1 ? `, every ${schedule.everyWeeks} weeks` : ', weekly');
+
+const AdminSchedules: React.FC = () => {
+  const [schedules, setSchedules] = useState<CollectionSchedule[]>([]);
+  const [exceptions, setExceptions] = useState<CollectionException[]>([]);
+  const [zones, setZones] = useState<Zone[]>([]);
+  const [zoneFilter, setZoneFilter] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  // Schedule being edited; 'new' while creating one
+  const [editing, setEditing] = useState<CollectionSchedule | 'new' | null>(null);
+  const [addingException, setAddingException] = useState(false);
+
+  useEffect(() => {
+    loadSchedules('');
+  }, []);
+
+  const loadSchedules = async (zone: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [scheduleList, exceptionList, zoneList] = await Promise.all([
+        scheduleService.getSchedules(zone || undefined),
+        scheduleService.getExceptions(),
+        zoneService.getZones()
+      ]);
+      setSchedules(scheduleList);
+      setExceptions(exceptionList);
+      setZones(zoneList);
+    } catch (err) {
+      console.error('Error loading collection schedules:', err);
+      setError(getErrorMessage(err, 'Failed to load collection schedules'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<{ message?: string }>, fallback: string) => {
+    try {
+      const response = await action();
+      setMessage(response.message || 'Saved');
+      setTimeout(() => setMessage(null), 3000);
+      setEditing(null);
+      setAddingException(false);
+      await loadSchedules(zoneFilter);
+    } catch (err) {
+      setError(getErrorMessage(err, fallback));
+    }
+  };
+
+  const saveSchedule = (data: ScheduleData) => {
+    if (editing === 'new') {
+      runAction(() => scheduleService.createSchedule(data), 'Failed to add schedule');
+    } else if (editing) {
+      runAction(() => scheduleService.updateSchedule(editing._id, data), 'Failed to update schedule');
+    }
+  };
+
+  const removeSchedule = (schedule: CollectionSchedule) => {
+    if (!window.confirm(`Delete the ${STREAM_LABELS[schedule.stream].toLowerCase()} schedule of ${schedule.zone.name}?`)) return;
+    runAction(() => scheduleService.deleteSchedule(schedule._id), 'Failed to delete schedule');
+  };
+
+  const removeException = (exception: CollectionException) => {
+    if (!window.confirm(`Remove "${exception.name}"? The regular pickups of ${exception.date} take place again.`)) return;
+    runAction(() => scheduleService.deleteException(exception._id), 'Failed to remove holiday or reschedule');
+  };
+
+  const describeScope = (exception: CollectionException) => {
+    if (exception.schedule) {
+      return `${STREAM_LABELS[exception.schedule.stream]} in ${exception.schedule.zone?.name || 'a zone'}`;
+    }
+    const zoneNames = exception.zones.length ? exception.zones.map(zone => zone.name).join(', ') : 'All zones';
+    const streams = exception.streams.length
+      ? exception.streams.map(stream => STREAM_LABELS[stream].toLowerCase()).join(', ')
+      : 'all streams';
+    return `${zoneNames} • ${streams}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 sm:p-6 lg:p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Collection Schedules</h1>
+            <p className="text-gray-600">When each waste stream is picked up in each zone, holidays and reschedules.</p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setEditing('new')}
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 flex items-center"
+            >
+              <Plus className="h-4 w-4 mr-2" /> New schedule
+            </button>
+            <button
+              onClick={() => setAddingException(true)}
+              className="px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700 flex items-center"
+            >
+              <CalendarX className="h-4 w-4 mr-2" /> Holiday / reschedule
+            </button>
+            <button
+              onClick={() => loadSchedules(zoneFilter)}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 flex items-center"
+            >
+              <RefreshCw className="h-4 w-4 mr-2" /> Refresh
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-4 text-sm text-red-800 flex justify-between">
+            <span>{error}</span>
+            <button onClick={() => setError(null)}><XCircle className="h-4 w-4" /></button>
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4 mb-4 text-sm text-green-800">{message}</div>
+        )}
+
+        {editing && (
+          <ScheduleForm
+            key={editing === 'new' ? 'new' : editing._id}
+            schedule={editing === 'new' ? null : editing}
+            zones={zones}
+            onSave={saveSchedule}
+            onCancel={() => setEditing(null)}
+          />
+        )}
+
+        {addingException && (
+          <ExceptionForm
+            zones={zones}
+            schedules={schedules}
+            onSave={(data) => runAction(() => scheduleService.createException(data), 'Failed to save holiday or reschedule')}
+            onCancel={() => setAddingException(false)}
+          />
+        )}
+
+        <div className="bg-white rounded-lg shadow-md mb-6">
+          <div className="p-6 border-b flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">Schedules</h2>
+            <select
+              value={zoneFilter}
+              onChange={(e) => {
+                setZoneFilter(e.target.value);
+                loadSchedules(e.target.value);
+              }}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">All zones</option>
+              {zones.map(zone => (
+                <option key={zone._id} value={zone._id}>{zone.name}</option>
+              ))}
+            </select>
+          </div>
+          {loading ? (
+            <div className="p-12 flex justify-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-500"></div>
+            </div>
+          ) : schedules.length === 0 ? (
+            <div className="text-center py-12">
+              <CalendarDays className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <p className="text-gray-500">
+                {zones.length === 0
+                  ? 'Import districts or wards first; schedules are planned per zone.'
+                  : 'No schedules yet. Add one per zone and waste stream.'}
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+                    <th className="px-6 py-3">Zone</th>
+                    <th className="px-6 py-3">Stream</th>
+                    <th className="px-6 py-3">Days</th>
+                    <th className="px-6 py-3">Time</th>
+                    <th className="px-6 py-3">Period</th>
+                    <th className="px-6 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 text-sm">
+                  {schedules.map(schedule => (
+                    <tr key={schedule._id} className={`hover:bg-gray-50 ${schedule.isActive ? '' : 'opacity-60'}`}>
+                      <td className="px-6 py-4 font-semibold text-gray-900">{schedule.zone?.name}</td>
+                      <td className="px-6 py-4 text-gray-700">{STREAM_LABELS[schedule.stream]}</td>
+                      <td className="px-6 py-4 text-gray-700">{describeDays(schedule)}</td>
+                      <td className="px-6 py-4 text-gray-700">{schedule.time}</td>
+                      <td className="px-6 py-4 text-gray-500">
+                        {schedule.startsOn}{schedule.endsOn ? ` to ${schedule.endsOn}` : ' on'}
+                        {!schedule.isActive && ' (off)'}
+                      </td>
+                      <td className="px-6 py-4 text-right whitespace-nowrap">
+                        <button
+                          onClick={() => setEditing(schedule)}
+                          className="text-gray-600 hover:text-gray-900 mr-3"
+                          title="Edit schedule"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => removeSchedule(schedule)}
+                          className="text-red-600 hover:text-red-800"
+                          title="Delete schedule"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md">
+          <h2 className="p-6 border-b text-lg font-semibold text-gray-900">Upcoming holidays and reschedules</h2>
+          {exceptions.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">All pickups take place as scheduled.</p>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {exceptions.map(exception => (
+                <div key={exception._id} className="p-6 flex items-start justify-between gap-4">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {exception.date} • {exception.name}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {exception.action === 'cancel'
+                        ? 'Pickups cancelled'
+                        : `Pickups moved to ${exception.movedTo}${exception.time ? ` at ${exception.time}` : ''}`}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">{describeScope(exception)}</p>
+                  </div>
+                  <button
+                    onClick={() => removeException(exception)}
+                    className="text-red-600 hover:text-red-800"
+                    title="Remove"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface ScheduleFormProps {
+  schedule: CollectionSchedule | null;
+  zones: Zone[];
+  onSave: (data: ScheduleData) => void;
+  onCancel: () => void;
+}
+
+const ScheduleForm: React.FC<ScheduleFormProps> = ({ schedule, zones, onSave, onCancel }) => {
+  const [zone, setZone] = useState(schedule?.zone._id || '');
+  const [stream, setStream] = useState<CollectionStream>(schedule?.stream || 'general');
+  const [days, setDays] = useState<number[]>(schedule?.days || []);
+  const [everyWeeks, setEveryWeeks] = useState(schedule?.everyWeeks || 1);
+  const [startsOn, setStartsOn] = useState(schedule?.startsOn || new Date().toISOString().slice(0, 10));
+  const [endsOn, setEndsOn] = useState(schedule?.endsOn || '');
+  const [time, setTime] = useState(schedule?.time || '08:00');
+  const [notes, setNotes] = useState(schedule?.notes || '');
+  const [isActive, setIsActive] = useState(schedule?.isActive ?? true);
+
+  const toggleDay = (day: number) => {
+    setDays(prev => (prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort((a, b) => a - b)));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({ zone, stream, days, everyWeeks, startsOn, endsOn: endsOn || null, time, notes: notes.trim(), isActive });
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md';
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">{schedule ? 'Edit schedule' : 'New schedule'}</h2>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Zone</label>
+          <select value={zone} onChange={(e) => setZone(e.target.value)} required className={inputClass}>
+            <option value="">Choose a zone...</option>
+            {zones.map(option => (
+              <option key={option._id} value={option._id}>{option.name} ({option.kind})</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Waste stream</label>
+          <select value={stream} onChange={(e) => setStream(e.target.value as CollectionStream)} className={inputClass}>
+            {STREAMS.map(option => (
+              <option key={option} value={option}>{STREAM_LABELS[option]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Time</label>
+          <input type="time" value={time} onChange={(e) => setTime(e.target.value)} required className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Repeats</label>
+          <select value={everyWeeks} onChange={(e) => setEveryWeeks(parseInt(e.target.value))} className={inputClass}>
+            <option value={1}>Every week</option>
+            <option value={2}>Every 2 weeks</option>
+            <option value={3}>Every 3 weeks</option>
+            <option value={4}>Every 4 weeks</option>
+          </select>
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Days</label>
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAYS.map((label, day) => (
+              <button
+                type="button"
+                key={label}
+                onClick={() => toggleDay(day)}
+                className={`px-3 py-1 rounded-md text-sm border ${
+                  days.includes(day) ? 'bg-green-600 text-white border-green-600' : 'border-gray-300 text-gray-700'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Starts on</label>
+          <input type="date" value={startsOn} onChange={(e) => setStartsOn(e.target.value)} required className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Ends on (optional)</label>
+          <input type="date" value={endsOn} min={startsOn} onChange={(e) => setEndsOn(e.target.value)} className={inputClass} />
+        </div>
+        <div className="md:col-span-3">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Notes for citizens</label>
+          <input value={notes} maxLength={300} onChange={(e) => setNotes(e.target.value)} className={inputClass} />
+        </div>
+        <label className="flex items-center text-sm text-gray-700 mt-6">
+          <input
+            type="checkbox"
+            checked={isActive}
+            onChange={(e) => setIsActive(e.target.checked)}
+            className="h-4 w-4 text-green-600 rounded mr-2"
+          />
+          Active
+        </label>
+      </div>
+      <div className="mt-4 flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!zone || days.length === 0}
+          className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+    </form>
+  );
+};
+
+interface ExceptionFormProps {
+  zones: Zone[];
+  schedules: CollectionSchedule[];
+  onSave: (data: ExceptionData) => void;
+  onCancel: () => void;
+}
+
+const ExceptionForm: React.FC<ExceptionFormProps> = ({ zones, schedules, onSave, onCancel }) => {
+  const [date, setDate] = useState('');
+  const [name, setName] = useState('');
+  const [action, setAction] = useState<'cancel' | 'move'>('cancel');
+  const [movedTo, setMovedTo] = useState('');
+  const [time, setTime] = useState('');
+  // One schedule (a reschedule) or zones and streams (a holiday)
+  const [schedule, setSchedule] = useState('');
+  const [selectedZones, setSelectedZones] = useState<string[]>([]);
+  const [streams, setStreams] = useState<CollectionStream[]>([]);
+
+  const toggle = <T,>(list: T[], item: T) => (list.includes(item) ? list.filter(i => i !== item) : [...list, item]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      date,
+      name: name.trim(),
+      action,
+      ...(action === 'move' ? { movedTo, ...(time ? { time } : {}) } : {}),
+      ...(schedule ? { schedule } : { zones: selectedZones, streams })
+    });
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md';
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Holiday or reschedule</h2>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Day</label>
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} required className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name or reason</label>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            required
+            maxLength={100}
+            placeholder="e.g. Pongal"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Pickups</label>
+          <select value={action} onChange={(e) => setAction(e.target.value as 'cancel' | 'move')} className={inputClass}>
+            <option value="cancel">Cancelled</option>
+            <option value="move">Moved</option>
+          </select>
+        </div>
+        {action === 'move' && (
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+              <input type="date" value={movedTo} onChange={(e) => setMovedTo(e.target.value)} required className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">At (optional)</label>
+              <input type="time" value={time} onChange={(e) => setTime(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+        )}
+        <div className="md:col-span-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Applies to</label>
+          <select value={schedule} onChange={(e) => setSchedule(e.target.value)} className={inputClass}>
+            <option value="">Zones and streams below (holiday)</option>
+            {schedules.map(option => (
+              <option key={option._id} value={option._id}>
+                Only {STREAM_LABELS[option.stream].toLowerCase()} in {option.zone?.name} ({describeDays(option)})
+              </option>
+            ))}
+          </select>
+        </div>
+        {!schedule && (
+          <>
+            <div className="md:col-span-2">
+              <p className="text-sm font-medium text-gray-700 mb-1">Zones (none = all)</p>
+              <div className="max-h-40 overflow-y-auto border border-gray-200 rounded-md p-2 space-y-1">
+                {zones.map(zone => (
+                  <label key={zone._id} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={selectedZones.includes(zone._id)}
+                      onChange={() => setSelectedZones(prev => toggle(prev, zone._id))}
+                      className="h-4 w-4 text-green-600 rounded mr-2"
+                    />
+                    {zone.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="md:col-span-2">
+              <p className="text-sm font-medium text-gray-700 mb-1">Streams (none = all)</p>
+              <div className="space-y-1">
+                {STREAMS.map(stream => (
+                  <label key={stream} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={streams.includes(stream)}
+                      onChange={() => setStreams(prev => toggle(prev, stream))}
+                      className="h-4 w-4 text-green-600 rounded mr-2"
+                    />
+                    {STREAM_LABELS[stream]}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+      <div className="mt-4 flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className="px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700"
+        >
+          Save
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default AdminSchedules;
@@ -0,0 +1,355 @@
+import React, { useState, useEffect } from 'react';
+import { teamService, Team, TeamCandidate, TeamData, TeamKpis } from '../services/teamService';
+import { zoneService, Zone } from '../services/zoneService';
+import { getErrorMessage } from '../services/api';
+import { Users, RefreshCw, XCircle, Trash2, Pencil, Plus, BarChart3 } from 'lucide-react';
+
+const AdminTeams: React.FC = () => {
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [candidates, setCandidates] = useState<TeamCandidate[]>([]);
+  const [zones, setZones] = useState<Zone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  // Team being edited; 'new' while creating one
+  const [editing, setEditing] = useState<Team | 'new' | null>(null);
+  const [kpis, setKpis] = useState<Record<string, TeamKpis>>({});
+
+  useEffect(() => {
+    loadTeams();
+  }, []);
+
+  const loadTeams = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [teamList, candidateList, zoneList] = await Promise.all([
+        teamService.getTeams(),
+        teamService.getCandidates(),
+        zoneService.getZones()
+      ]);
+      setTeams(teamList);
+      setCandidates(candidateList);
+      setZones(zoneList);
+    } catch (err) {
+      console.error('Error loading teams:', err);
+      setError(getErrorMessage(err, 'Failed to load teams'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<{ message?: string }>, fallback: string) => {
+    try {
+      const response = await action();
+      setMessage(response.message || 'Saved');
+      setTimeout(() => setMessage(null), 3000);
+      setEditing(null);
+      await loadTeams();
+    } catch (err) {
+      setError(getErrorMessage(err, fallback));
+    }
+  };
+
+  const saveTeam = (data: TeamData) => {
+    if (editing === 'new') {
+      runAction(() => teamService.createTeam(data), 'Failed to create team');
+    } else if (editing) {
+      runAction(() => teamService.updateTeam(editing._id, data), 'Failed to update team');
+    }
+  };
+
+  const removeTeam = (team: Team) => {
+    if (!window.confirm(`Disband "${team.name}"? Its open reports leave the team queue.`)) return;
+    runAction(() => teamService.deleteTeam(team._id), 'Failed to disband team');
+  };
+
+  const toggleKpis = async (team: Team) => {
+    if (kpis[team._id]) {
+      setKpis(prev => {
+        const next = { ...prev };
+        delete next[team._id];
+        return next;
+      });
+      return;
+    }
+    try {
+      const result = await teamService.getTeamKpis(team._id);
+      setKpis(prev => ({ ...prev, [team._id]: result }));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load team KPIs'));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 sm:p-6 lg:p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Teams</h1>
+            <p className="text-gray-600">Crews of waste workers and the supervisor who leads them.</p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setEditing('new')}
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 flex items-center"
+            >
+              <Plus className="h-4 w-4 mr-2" /> New team
+            </button>
+            <button
+              onClick={loadTeams}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 flex items-center"
+            >
+              <RefreshCw className="h-4 w-4 mr-2" /> Refresh
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-4 text-sm text-red-800 flex justify-between">
+            <span>{error}</span>
+            <button onClick={() => setError(null)}><XCircle className="h-4 w-4" /></button>
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4 mb-4 text-sm text-green-800">{message}</div>
+        )}
+
+        {editing && (
+          <TeamForm
+            key={editing === 'new' ? 'new' : editing._id}
+            team={editing === 'new' ? null : editing}
+            candidates={candidates}
+            zones={zones}
+            onSave={saveTeam}
+            onCancel={() => setEditing(null)}
+          />
+        )}
+
+        <div className="bg-white rounded-lg shadow-md">
+          {loading ? (
+            <div className="p-12 flex justify-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-500"></div>
+            </div>
+          ) : teams.length === 0 ? (
+            <div className="text-center py-12">
+              <Users className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <p className="text-gray-500">No teams yet. Create one and pick its supervisor and members.</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {teams.map(team => (
+                <div key={team._id} className={`p-6 ${team.isActive ? '' : 'opacity-60'}`}>
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900">
+                        {team.name}
+                        {!team.isActive && <span className="ml-2 text-xs font-normal text-gray-500">inactive</span>}
+                      </h3>
+                      <p className="text-sm text-gray-600">
+                        Supervisor: {team.supervisor?.name || '—'}
+                        {' • '}Zone: {team.zone?.name || 'none'}
+                      </p>
+                      <p className="text-sm text-gray-500 mt-1">
+                        {team.members.length === 0
+                          ? 'No members'
+                          : team.members.map(member => member.name).join(', ')}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => toggleKpis(team)}
+                        className="p-2 text-gray-600 hover:text-gray-900"
+                        title="KPIs"
+                      >
+                        <BarChart3 className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => setEditing(team)}
+                        className="p-2 text-gray-600 hover:text-gray-900"
+                        title="Edit"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => removeTeam(team)}
+                        className="p-2 text-red-600 hover:text-red-800"
+                        title="Disband"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {kpis[team._id] && <TeamKpiSummary kpis={kpis[team._id]} />}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const TeamKpiSummary: React.FC<{ kpis: TeamKpis }> = ({ kpis }) => {
+  const figures = [
+    { label: 'Open', value: kpis.totals.assigned + kpis.totals.inProgress },
+    { label: 'Completed', value: kpis.totals.completed },
+    {
+      label: 'Avg completion',
+      value: kpis.totals.avgCompletionHours === null ? '—' : `${kpis.totals.avgCompletionHours} h`
+    },
+    { label: 'Awaiting approval', value: kpis.totals.awaitingApproval },
+    { label: 'Returned', value: kpis.totals.returned },
+    { label: 'Reopened', value: kpis.totals.reopens },
+    { label: 'Zone backlog', value: kpis.backlog }
+  ];
+
+  return (
+    <div className="mt-4">
+      <p className="text-xs text-gray-500 mb-2">Last {kpis.period.days} days</p>
+      <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-3">
+        {figures.map(figure => (
+          <div key={figure.label} className="bg-gray-50 rounded-md p-3">
+            <p className="text-xs text-gray-500">{figure.label}</p>
+            <p className="text-lg font-semibold text-gray-900">{figure.value}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+interface TeamFormProps {
+  team: Team | null;
+  candidates: TeamCandidate[];
+  zones: Zone[];
+  onSave: (data: TeamData) => void;
+  onCancel: () => void;
+}
+
+const TeamForm: React.FC<TeamFormProps> = ({ team, candidates, zones, onSave, onCancel }) => {
+  const [name, setName] = useState(team?.name || '');
+  const [supervisor, setSupervisor] = useState(team?.supervisor?._id || '');
+  const [members, setMembers] = useState<string[]>(team?.members.map(member => member._id) || []);
+  const [zone, setZone] = useState(team?.zone?._id || '');
+  const [isActive, setIsActive] = useState(team?.isActive ?? true);
+
+  // People already in another team cannot be picked
+  const available = candidates.filter(candidate => !candidate.team || candidate.team === team?._id);
+  const workers = available.filter(candidate => candidate.role === 'waste_worker' && candidate._id !== supervisor);
+
+  const toggleMember = (id: string) => {
+    setMembers(prev => (prev.includes(id) ? prev.filter(member => member !== id) : [...prev, id]));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      name: name.trim(),
+      supervisor,
+      members: members.filter(member => member !== supervisor),
+      zone: zone || null,
+      isActive
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">{team ? `Edit ${team.name}` : 'New team'}</h2>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            required
+            maxLength={100}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Supervisor</label>
+          <select
+            value={supervisor}
+            onChange={(e) => setSupervisor(e.target.value)}
+            required
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          >
+            <option value="">Choose...</option>
+            {available.map(candidate => (
+              <option key={candidate._id} value={candidate._id}>
+                {candidate.name}{candidate.role === 'waste_worker' ? ' (worker, will be promoted)' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Zone</label>
+          <select
+            value={zone}
+            onChange={(e) => setZone(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          >
+            <option value="">No zone</option>
+            {zones.map(option => (
+              <option key={option._id} value={option._id}>{option.name} ({option.kind})</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="mt-4">
+        <p className="block text-sm font-medium text-gray-700 mb-2">Members</p>
+        {workers.length === 0 ? (
+          <p className="text-sm text-gray-500">No waste workers without a team.</p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-2">
+            {workers.map(worker => (
+              <label key={worker._id} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={members.includes(worker._id)}
+                  onChange={() => toggleMember(worker._id)}
+                  className="h-4 w-4 text-green-600 rounded mr-2"
+                />
+                {worker.name}
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="mt-4 flex items-center justify-between">
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={isActive}
+            onChange={(e) => setIsActive(e.target.checked)}
+            className="h-4 w-4 text-green-600 rounded mr-2"
+          />
+          Active
+        </label>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!name.trim() || !supervisor}
+            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default AdminTeams;
@@ -0,0 +1,400 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { useCan } from '../hooks/useCan';
+import { tenantService, Tenant, TenantBranding } from '../services/tenantService';
+import { getErrorMessage } from '../services/api';
+import { Building2, Plus, RefreshCw, XCircle, CheckCircle, Save } from 'lucide-react';
+
+const AdminTenants: React.FC = () => {
+  const { tenant, selectTenant } = useAuth();
+  const isSuperAdmin = useCan()('tenant.manage');
+
+  const [tenants, setTenants] = useState<Tenant[]>([]);
+  const [loading, setLoading] = useState(isSuperAdmin);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isSuperAdmin) loadTenants();
+  }, [isSuperAdmin]);
+
+  const loadTenants = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setTenants(await tenantService.getTenants());
+    } catch (err) {
+      console.error('Error loading municipalities:', err);
+      setError(getErrorMessage(err, 'Failed to load municipalities'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showMessage = (text: string) => {
+    setMessage(text);
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  const toggleActive = async (item: Tenant) => {
+    try {
+      const response = await tenantService.updateTenant(item._id, { isActive: !item.isActive });
+      showMessage(response.message || 'Saved');
+      await loadTenants();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update municipality'));
+    }
+  };
+
+  const changeTimezone = async (item: Tenant) => {
+    const timezone = window.prompt('Time zone (e.g. Asia/Kolkata):', item.timezone || 'UTC');
+    if (!timezone?.trim() || timezone.trim() === item.timezone) return;
+    try {
+      const response = await tenantService.updateTenant(item._id, { timezone: timezone.trim() });
+      showMessage(response.message || 'Saved');
+      await loadTenants();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update municipality'));
+    }
+  };
+
+  const handleCreated = async (text: string) => {
+    showMessage(text);
+    await loadTenants();
+  };
+
+  const handleBrandingSaved = async (text: string) => {
+    showMessage(text);
+    // Refreshes the header branding
+    await selectTenant(tenantService.getSelected());
+    if (isSuperAdmin) await loadTenants();
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 sm:p-6 lg:p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">
+              {isSuperAdmin ? 'Municipalities' : 'Branding'}
+            </h1>
+            <p className="text-gray-600">
+              {tenant ? `Working in ${tenant.branding?.displayName || tenant.name}` : 'No municipality selected'}
+            </p>
+          </div>
+          {isSuperAdmin && (
+            <button
+              onClick={loadTenants}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 flex items-center"
+            >
+              <RefreshCw className="h-4 w-4 mr-2" /> Refresh
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-4 text-sm text-red-800 flex justify-between">
+            <span>{error}</span>
+            <button onClick={() => setError(null)}><XCircle className="h-4 w-4" /></button>
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4 mb-4 text-sm text-green-800">{message}</div>
+        )}
+
+        {isSuperAdmin && (
+          <>
+            <TenantCreateForm onCreated={handleCreated} onError={setError} />
+
+            <div className="bg-white rounded-lg shadow-md mb-6">
+              {loading ? (
+                <div className="p-12 flex justify-center">
+                  <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-500"></div>
+                </div>
+              ) : tenants.length === 0 ? (
+                <div className="text-center py-12">
+                  <Building2 className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                  <p className="text-gray-500">No municipalities yet.</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+                        <th className="px-6 py-3">Name</th>
+                        <th className="px-6 py-3">Slug</th>
+                        <th className="px-6 py-3">Time zone</th>
+                        <th className="px-6 py-3">Users</th>
+                        <th className="px-6 py-3">Reports</th>
+                        <th className="px-6 py-3">Active</th>
+                        <th className="px-6 py-3"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 text-sm">
+                      {tenants.map(item => (
+                        <tr key={item._id} className={`hover:bg-gray-50 ${item.isActive ? '' : 'opacity-60'}`}>
+                          <td className="px-6 py-4 font-semibold text-gray-900">{item.name}</td>
+                          <td className="px-6 py-4 font-mono text-xs text-gray-500">{item.slug}</td>
+                          <td className="px-6 py-4">
+                            <button
+                              onClick={() => changeTimezone(item)}
+                              className="text-gray-700 hover:text-green-700 underline decoration-dotted"
+                              title="Change time zone"
+                            >
+                              {item.timezone || 'UTC'}
+                            </button>
+                          </td>
+                          <td className="px-6 py-4 text-gray-700">{item.userCount ?? 0}</td>
+                          <td className="px-6 py-4 text-gray-700">{item.reportCount ?? 0}</td>
+                          <td className="px-6 py-4">
+                            <input
+                              type="checkbox"
+                              checked={!!item.isActive}
+                              onChange={() => toggleActive(item)}
+                              className="h-4 w-4 text-green-600 rounded"
+                            />
+                          </td>
+                          <td className="px-6 py-4 text-right">
+                            {tenant?._id === item._id ? (
+                              <span className="inline-flex items-center text-green-700 text-xs font-medium">
+                                <CheckCircle className="h-4 w-4 mr-1" /> Working here
+                              </span>
+                            ) : (
+                              <button
+                                onClick={() => selectTenant(item.slug)}
+                                disabled={!item.isActive}
+                                className="px-3 py-1 bg-green-600 text-white rounded-md text-xs hover:bg-green-700 disabled:opacity-50"
+                              >
+                                Manage
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+
+        {tenant && (
+          <BrandingForm
+            key={tenant._id}
+            branding={tenant.branding || {}}
+            onSaved={handleBrandingSaved}
+            onError={setError}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface TenantCreateFormProps {
+  onCreated: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+const emptyTenantForm = {
+  name: '',
+  slug: '',
+  // Where the super admin is, as a starting point
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  adminName: '',
+  adminEmail: '',
+  adminPassword: ''
+};
+
+const TenantCreateForm: React.FC<TenantCreateFormProps> = ({ onCreated, onError }) => {
+  const [form, setForm] = useState(emptyTenantForm);
+  const [saving, setSaving] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const response = await tenantService.createTenant({
+        name: form.name,
+        slug: form.slug,
+        timezone: form.timezone,
+        admin: {
+          name: form.adminName,
+          email: form.adminEmail,
+          password: form.adminPassword
+        }
+      });
+      setForm(emptyTenantForm);
+      onCreated(response.message || 'Municipality created');
+    } catch (err) {
+      onError(getErrorMessage(err, 'Failed to create municipality'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md';
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">New municipality</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        The first admin signs in with these details and can then add workers, facilities and training.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input name="name" required value={form.name} onChange={handleChange} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Slug</label>
+          <input
+            name="slug"
+            required
+            pattern="[a-z0-9]+(-[a-z0-9]+)*"
+            value={form.slug}
+            onChange={handleChange}
+            placeholder="e.g. chennai"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Time zone</label>
+          <input
+            name="timezone"
+            required
+            value={form.timezone}
+            onChange={handleChange}
+            placeholder="e.g. Asia/Kolkata"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Admin name</label>
+          <input name="adminName" required value={form.adminName} onChange={handleChange} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Admin email</label>
+          <input
+            name="adminEmail"
+            type="email"
+            required
+            value={form.adminEmail}
+            onChange={handleChange}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Admin password</label>
+          <input
+            name="adminPassword"
+            type="password"
+            required
+            minLength={6}
+            value={form.adminPassword}
+            onChange={handleChange}
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <div className="mt-4 flex justify-end">
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 flex items-center"
+        >
+          <Plus className="h-4 w-4 mr-2" /> {saving ? 'Creating...' : 'Create'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+interface BrandingFormProps {
+  branding: TenantBranding;
+  onSaved: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+const BrandingForm: React.FC<BrandingFormProps> = ({ branding, onSaved, onError }) => {
+  const [form, setForm] = useState<TenantBranding>({
+    displayName: branding.displayName || '',
+    logoUrl: branding.logoUrl || '',
+    primaryColor: branding.primaryColor || '#16a34a',
+    supportEmail: branding.supportEmail || '',
+    supportPhone: branding.supportPhone || ''
+  });
+  const [saving, setSaving] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const response = await tenantService.updateBranding(form);
+      onSaved(response.message || 'Branding updated');
+    } catch (err) {
+      onError(getErrorMessage(err, 'Failed to update branding'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md';
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">Branding</h2>
+      <p className="text-sm text-gray-500 mb-4">Shown to everyone signed in to this municipality.</p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Display name</label>
+          <input name="displayName" value={form.displayName} onChange={handleChange} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Logo URL</label>
+          <input name="logoUrl" type="url" value={form.logoUrl} onChange={handleChange} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Primary colour</label>
+          <input
+            name="primaryColor"
+            type="color"
+            value={form.primaryColor}
+            onChange={handleChange}
+            className="h-10 w-20 border border-gray-300 rounded-md"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Support email</label>
+          <input name="supportEmail" type="email" value={form.supportEmail} onChange={handleChange} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Support phone</label>
+          <input name="supportPhone" value={form.supportPhone} onChange={handleChange} className={inputClass} />
+        </div>
+      </div>
+      <div className="mt-4 flex justify-end">
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 flex items-center"
+        >
+          <Save className="h-4 w-4 mr-2" /> {saving ? 'Saving...' : 'Save branding'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default AdminTenants;
@@ -0,0 +1,272 @@
+import React, { useState, useEffect } from 'react';
+import { zoneService, Zone, ZoneKind, ZoneImportResult } from '../services/zoneService';
+import { getErrorMessage } from '../services/api';
+import { Map as MapIcon, Upload, RefreshCw, Trash2, XCircle, AlertTriangle } from 'lucide-react';
+
+const AdminZones: React.FC = () => {
+  const [zones, setZones] = useState<Zone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [kindFilter, setKindFilter] = useState<'all' | ZoneKind>('all');
+  const [lastImport, setLastImport] = useState<ZoneImportResult | null>(null);
+
+  useEffect(() => {
+    loadZones();
+  }, []);
+
+  const loadZones = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setZones(await zoneService.getZones({ includeInactive: true }));
+    } catch (err) {
+      console.error('Error loading zones:', err);
+      setError(getErrorMessage(err, 'Failed to load zones'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<{ message?: string }>, fallback: string) => {
+    try {
+      const response = await action();
+      setMessage(response.message || 'Saved');
+      setTimeout(() => setMessage(null), 3000);
+      await loadZones();
+    } catch (err) {
+      setError(getErrorMessage(err, fallback));
+    }
+  };
+
+  const removeZone = (zone: Zone) => {
+    if (!window.confirm(`Delete ${zone.kind} "${zone.name}"? Reports, users and facilities lose this tag.`)) return;
+    runAction(() => zoneService.deleteZone(zone._id), 'Failed to delete zone');
+  };
+
+  const handleImported = async (result: { message: string; data: ZoneImportResult }) => {
+    setLastImport(result.data);
+    setMessage(result.message);
+    await loadZones();
+  };
+
+  const filteredZones = kindFilter === 'all' ? zones : zones.filter(zone => zone.kind === kindFilter);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 sm:p-6 lg:p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Zones</h1>
+            <p className="text-gray-600">
+              {zones.filter(zone => zone.kind === 'district').length} district(s) •{' '}
+              {zones.filter(zone => zone.kind === 'ward').length} ward(s)
+            </p>
+          </div>
+          <button
+            onClick={loadZones}
+            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 flex items-center"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" /> Refresh
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-4 text-sm text-red-800 flex justify-between">
+            <span>{error}</span>
+            <button onClick={() => setError(null)}><XCircle className="h-4 w-4" /></button>
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4 mb-4 text-sm text-green-800">{message}</div>
+        )}
+
+        <ZoneImportForm onImported={handleImported} onError={setError} />
+
+        {lastImport && lastImport.skipped.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 mb-6 text-sm text-yellow-900">
+            <p className="font-medium flex items-center mb-2">
+              <AlertTriangle className="h-4 w-4 mr-2" /> {lastImport.skipped.length} feature(s) were skipped
+            </p>
+            <ul className="list-disc pl-6 space-y-1">
+              {lastImport.skipped.slice(0, 20).map(item => (
+                <li key={item.index}>Feature #{item.index + 1}: {item.reason}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-md">
+          <div className="border-b border-gray-200 p-4 flex flex-wrap gap-2">
+            {(['all', 'district', 'ward'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setKindFilter(option)}
+                className={`px-3 py-2 rounded-md text-sm font-medium capitalize ${
+                  kindFilter === option ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {option === 'all' ? 'All' : `${option}s`}
+              </button>
+            ))}
+          </div>
+
+          {loading ? (
+            <div className="p-12 flex justify-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-500"></div>
+            </div>
+          ) : filteredZones.length === 0 ? (
+            <div className="text-center py-12">
+              <MapIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <p className="text-gray-500">No zones yet. Import a GeoJSON file of districts or wards.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+                    <th className="px-6 py-3">Name</th>
+                    <th className="px-6 py-3">Kind</th>
+                    <th className="px-6 py-3">Code</th>
+                    <th className="px-6 py-3">District</th>
+                    <th className="px-6 py-3">Active</th>
+                    <th className="px-6 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 text-sm">
+                  {filteredZones.map(zone => (
+                    <tr key={zone._id} className={`hover:bg-gray-50 ${zone.isActive ? '' : 'opacity-60'}`}>
+                      <td className="px-6 py-4 font-semibold text-gray-900">{zone.name}</td>
+                      <td className="px-6 py-4 capitalize text-gray-700">{zone.kind}</td>
+                      <td className="px-6 py-4 font-mono text-xs text-gray-500">{zone.code}</td>
+                      <td className="px-6 py-4 text-gray-700">
+                        {zones.find(candidate => candidate._id === zone.parent)?.name || '—'}
+                      </td>
+                      <td className="px-6 py-4">
+                        <input
+                          type="checkbox"
+                          checked={zone.isActive}
+                          onChange={(e) => runAction(
+                            () => zoneService.updateZone(zone._id, { isActive: e.target.checked }),
+                            'Failed to update zone'
+                          )}
+                          className="h-4 w-4 text-green-600 rounded"
+                        />
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <button
+                          onClick={() => removeZone(zone)}
+                          className="p-2 text-red-600 hover:text-red-800"
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface ZoneImportFormProps {
+  onImported: (result: { message: string; data: ZoneImportResult }) => void;
+  onError: (message: string) => void;
+}
+
+const ZoneImportForm: React.FC<ZoneImportFormProps> = ({ onImported, onError }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [kind, setKind] = useState<ZoneKind>('district');
+  const [nameProperty, setNameProperty] = useState('name');
+  const [codeProperty, setCodeProperty] = useState('');
+  const [importing, setImporting] = useState(false);
+  // Remounting the file input is the only way to clear it
+  const [inputKey, setInputKey] = useState(0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const result = await zoneService.importZones(file, {
+        kind,
+        nameProperty: nameProperty.trim() || 'name',
+        codeProperty: codeProperty.trim() || undefined
+      });
+      setFile(null);
+      setInputKey(key => key + 1);
+      onImported(result);
+    } catch (err) {
+      onError(getErrorMessage(err, 'Failed to import zones'));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">Import boundaries</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        GeoJSON with Polygon or MultiPolygon features. Zones with the same code are replaced. Import districts
+        before their wards so wards are linked to their district.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <div className="md:col-span-1">
+          <label className="block text-sm font-medium text-gray-700 mb-1">File</label>
+          <input
+            key={inputKey}
+            type="file"
+            accept=".geojson,.json,application/geo+json,application/json"
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+            className="block w-full text-sm text-gray-700"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Kind</label>
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as ZoneKind)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          >
+            <option value="district">Districts</option>
+            <option value="ward">Wards</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name property</label>
+          <input
+            value={nameProperty}
+            onChange={(e) => setNameProperty(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Code property (optional)</label>
+          <input
+            value={codeProperty}
+            onChange={(e) => setCodeProperty(e.target.value)}
+            placeholder="e.g. ward_no"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+      </div>
+      <div className="mt-4 flex justify-end">
+        <button
+          type="submit"
+          disabled={!file || importing}
+          className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 flex items-center"
+        >
+          <Upload className="h-4 w-4 mr-2" /> {importing ? 'Importing...' : 'Import'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default AdminZones;
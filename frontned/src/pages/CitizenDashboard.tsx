@@ -1,18 +1,27 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-import { wasteService } from '../services/wasteService';
+import { wasteService, ReportTransition, ReportImage } from '../services/wasteService';
+import { getErrorMessage } from '../services/api';
 import { trainingService } from '../services/trainingService';
+import ReportTimeline from '../components/ReportTimeline';
+import CollectionProof from '../components/CollectionProof';
+import CollectionScheduleCard from '../components/CollectionScheduleCard';
 import { 
   MapPin, 
   BookOpen, 
   Trophy, 
   AlertTriangle,
-  Calendar,
   Plus,
   Clock,
   CheckCircle,
-  Award
+  Award,
+  ChevronRight,
+  X,
+  Star,
+  RotateCcw,
+  Camera,
+  CalendarPlus
 } from 'lucide-react';
 
 interface DashboardStats {
@@ -26,12 +35,40 @@ interface RecentReport {
   _id: string;
   wasteType: string;
   status: string;
+  severity?: string;
+  description?: string;
   createdAt: string;
   location: {
     address?: {
+      street?: string;
       city: string;
     };
+    description?: string;
   };
+  assignedWorker?: {
+    _id: string;
+    name: string;
+  };
+  verification?: {
+    rating?: number;
+    notes?: string;
+  };
+  scheduledCollection?: {
+    date?: string;
+    timeSlot?: {
+      start?: string;
+      end?: string;
+    };
+  };
+  actualCollection?: {
+    date?: string;
+    notes?: string;
+    beforeImages?: ReportImage[];
+    afterImages?: ReportImage[];
+  };
+  reopenCount?: number;
+  duplicateOf?: string | null;
+  allowedTransitions?: ReportTransition[];
 }
 
 interface TrainingModule {
@@ -57,6 +94,7 @@ const CitizenDashboard: React.FC = () => {
   const [recentReports, setRecentReports] = useState<RecentReport[]>([]);
   const [trainingModules, setTrainingModules] = useState<TrainingModule[]>([]);
   const [loading, setLoading] = useState(true);
+  const [selectedReport, setSelectedReport] = useState<RecentReport | null>(null);
 
   useEffect(() => {
     loadDashboardData();
@@ -97,9 +135,13 @@ const loadDashboardData = async () => {
 
   const getStatusColor = (status: string) => {
     switch (status) {
+      case 'verified': return 'text-emerald-700 bg-emerald-100';
       case 'completed': return 'text-green-600 bg-green-100';
       case 'in_progress': return 'text-blue-600 bg-blue-100';
       case 'assigned': return 'text-orange-600 bg-orange-100';
+      case 'acknowledged': return 'text-yellow-600 bg-yellow-100';
+      case 'rejected': return 'text-red-600 bg-red-100';
+      case 'merged': return 'text-gray-500 bg-gray-200';
       case 'reported': return 'text-gray-600 bg-gray-100';
       default: return 'text-gray-600 bg-gray-100';
     }
@@ -231,26 +273,7 @@ const loadDashboardData = async () => {
               </div>
             </div>
 
-            {/* Upcoming Collections */}
-            <div className="bg-white rounded-lg shadow-md p-6 mt-6">
-              <h2 className="text-lg font-semibold text-gray-900 mb-4">Collection Schedule</h2>
-              <div className="space-y-3">
-                <div className="flex items-center p-3 bg-green-50 rounded-lg">
-                  <Calendar className="h-5 w-5 text-green-600 mr-3" />
-                  <div>
-                    <p className="font-medium text-gray-900">Recyclables</p>
-                    <p className="text-sm text-gray-500">Tomorrow, 8:00 AM</p>
-                  </div>
-                </div>
-                <div className="flex items-center p-3 bg-blue-50 rounded-lg">
-                  <Calendar className="h-5 w-5 text-blue-600 mr-3" />
-                  <div>
-                    <p className="font-medium text-gray-900">Organic Waste</p>
-                    <p className="text-sm text-gray-500">Friday, 9:00 AM</p>
-                  </div>
-                </div>
-              </div>
-            </div>
+            <CollectionScheduleCard />
           </div>
 
           {/* Recent Reports */}
@@ -269,7 +292,11 @@ const loadDashboardData = async () => {
               {recentReports.length > 0 ? (
                 <div className="space-y-4">
                   {recentReports.map((report) => (
-                    <div key={report._id} className="border border-gray-200 rounded-lg p-4">
+                    <div
+                      key={report._id}
+                      onClick={() => setSelectedReport(report)}
+                      className="border border-gray-200 rounded-lg p-4 cursor-pointer hover:bg-gray-50 transition-colors duration-200"
+                    >
                       <div className="flex items-center justify-between">
                         <div className="flex items-center">
                           <div className="w-10 h-10 bg-green-100 rounded-full flex items-center justify-center mr-3">
@@ -285,9 +312,12 @@ const loadDashboardData = async () => {
                             </p>
                           </div>
                         </div>
-                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${getStatusColor(report.status)}`}>
-                          {report.status.replace('_', ' ')}
-                        </span>
+                        <div className="flex items-center">
+                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${getStatusColor(report.status)}`}>
+                            {report.status.replace('_', ' ')}
+                          </span>
+                          <ChevronRight className="h-4 w-4 text-gray-400 ml-2" />
+                        </div>
                       </div>
                     </div>
                   ))}
@@ -361,6 +391,282 @@ const loadDashboardData = async () => {
           </div>
         </div>
       </div>
+
+      {/* Report Details */}
+      {selectedReport && (
+        <ReportDetailModal
+          report={selectedReport}
+          onClose={() => setSelectedReport(null)}
+          onUpdated={() => {
+            setSelectedReport(null);
+            loadDashboardData();
+          }}
+          getStatusColor={getStatusColor}
+        />
+      )}
+    </div>
+  );
+};
+
+interface ReportDetailModalProps {
+  report: RecentReport;
+  onClose: () => void;
+  onUpdated: () => void;
+  getStatusColor: (status: string) => string;
+}
+
+const ReportDetailModal: React.FC<ReportDetailModalProps> = ({ report, onClose, onUpdated, getStatusColor }) => {
+  const [mode, setMode] = useState<'view' | 'reopen'>('view');
+  const [rating, setRating] = useState(0);
+  const [notes, setNotes] = useState('');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [calendarError, setCalendarError] = useState<string | null>(null);
+
+  const transitions = report.allowedTransitions || [];
+  const canVerify = transitions.some((t) => t.status === 'verified');
+  const canReopen = report.status === 'completed' && transitions.some((t) => t.status === 'assigned');
+  // Collection day set when the report was assigned, until it is collected
+  const scheduled = !report.actualCollection?.date ? report.scheduledCollection : undefined;
+
+  const handleAddToCalendar = async () => {
+    setCalendarError(null);
+    try {
+      await wasteService.downloadCollectionCalendar(report._id);
+    } catch (err) {
+      setCalendarError(getErrorMessage(err, 'Failed to create calendar file'));
+    }
+  };
+
+  const handleVerify = async () => {
+    if (rating < 1) {
+      setActionError('Please rate the collection from 1 to 5 stars');
+      return;
+    }
+    setSubmitting(true);
+    setActionError(null);
+    try {
+      await wasteService.verifyReport(report._id, rating, notes.trim() || undefined);
+      onUpdated();
+    } catch (err) {
+      setActionError(getErrorMessage(err, 'Failed to verify report'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleReopen = async () => {
+    if (!notes.trim()) {
+      setActionError('Please describe what is still left to clean up');
+      return;
+    }
+    setSubmitting(true);
+    setActionError(null);
+    try {
+      await wasteService.reopenReport(report._id, notes.trim(), photos);
+      onUpdated();
+    } catch (err) {
+      setActionError(getErrorMessage(err, 'Failed to reopen report'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-hidden">
+        <div className="border-b p-6 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 capitalize">
+              {report.wasteType.replace('_', ' ')} Waste Report
+            </h2>
+            <div className="flex items-center space-x-2 mt-1">
+              <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${getStatusColor(report.status)}`}>
+                {report.status.replace('_', ' ')}
+              </span>
+              {!!report.reopenCount && (
+                <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full text-red-700 bg-red-100">
+                  Reopened {report.reopenCount}×
+                </span>
+              )}
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto max-h-[calc(90vh-100px)] space-y-6">
+          {report.description && (
+            <div>
+              <h3 className="font-medium text-gray-900 mb-2">Description</h3>
+              <p className="text-gray-600">{report.description}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+            <div>
+              <label className="font-medium text-gray-500 block">Reported On</label>
+              <p>{new Date(report.createdAt).toLocaleString()}</p>
+            </div>
+            <div>
+              <label className="font-medium text-gray-500 block">Assigned Worker</label>
+              <p>{report.assignedWorker?.name || 'Not assigned yet'}</p>
+            </div>
+          </div>
+
+          {scheduled?.date && (
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm flex items-center justify-between gap-4">
+              <div>
+                <label className="font-medium text-blue-900 block">Scheduled Collection</label>
+                <p className="text-blue-800">
+                  {new Date(scheduled.date).toLocaleDateString()}
+                  {scheduled.timeSlot?.start &&
+                    `, ${scheduled.timeSlot.start}${scheduled.timeSlot.end ? `–${scheduled.timeSlot.end}` : ''}`}
+                </p>
+                {calendarError && <p className="text-red-600 mt-1">{calendarError}</p>}
+              </div>
+              <button
+                onClick={handleAddToCalendar}
+                className="flex items-center px-3 py-2 text-sm border border-blue-300 text-blue-700 rounded-md hover:bg-blue-100"
+              >
+                <CalendarPlus className="h-4 w-4 mr-1" />
+                Add to calendar
+              </button>
+            </div>
+          )}
+
+          {report.status === 'merged' && (
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-sm text-gray-700">
+              This issue had already been reported nearby, so your report was merged into the existing one.
+              You have been added as a supporter of that report.
+            </div>
+          )}
+
+          {report.actualCollection?.notes && (
+            <div className="text-sm">
+              <label className="font-medium text-gray-500 block">Collection Notes</label>
+              <p className="text-gray-700">{report.actualCollection.notes}</p>
+            </div>
+          )}
+
+          <CollectionProof
+            beforeImages={report.actualCollection?.beforeImages}
+            afterImages={report.actualCollection?.afterImages}
+          />
+
+          {report.verification?.rating && (
+            <div className="bg-emerald-50 border border-emerald-200 rounded-lg p-4 text-sm">
+              <p className="font-medium text-emerald-900 flex items-center">
+                Your rating:
+                <span className="ml-2 flex">
+                  {[1, 2, 3, 4, 5].map((value) => (
+                    <Star
+                      key={value}
+                      className={`h-4 w-4 ${value <= (report.verification?.rating || 0) ? 'text-yellow-500 fill-yellow-400' : 'text-gray-300'}`}
+                    />
+                  ))}
+                </span>
+              </p>
+              {report.verification.notes && <p className="text-emerald-800 mt-1">{report.verification.notes}</p>}
+            </div>
+          )}
+
+          {(canVerify || canReopen) && (
+            <div className="border border-green-200 bg-green-50 rounded-lg p-4 space-y-4">
+              <h3 className="font-medium text-gray-900">Was this waste cleaned up?</h3>
+
+              {mode === 'view' ? (
+                <>
+                  <div className="flex items-center">
+                    {[1, 2, 3, 4, 5].map((value) => (
+                      <button key={value} type="button" onClick={() => setRating(value)} className="p-1">
+                        <Star className={`h-6 w-6 ${value <= rating ? 'text-yellow-500 fill-yellow-400' : 'text-gray-300'}`} />
+                      </button>
+                    ))}
+                  </div>
+                  <textarea
+                    rows={2}
+                    placeholder="Add a note for the team (optional)"
+                    className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                  />
+                  <div className="flex gap-3">
+                    {canVerify && (
+                      <button
+                        onClick={handleVerify}
+                        disabled={submitting}
+                        className="flex-1 px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 flex items-center justify-center"
+                      >
+                        <CheckCircle className="h-4 w-4 mr-2" />
+                        Yes, confirm
+                      </button>
+                    )}
+                    {canReopen && (
+                      <button
+                        onClick={() => {
+                          setMode('reopen');
+                          setActionError(null);
+                        }}
+                        disabled={submitting}
+                        className="flex-1 px-4 py-2 border border-red-300 text-red-700 rounded-md hover:bg-red-50 disabled:opacity-50 flex items-center justify-center"
+                      >
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        No, reopen
+                      </button>
+                    )}
+                  </div>
+                </>
+              ) : (
+                <>
+                  <textarea
+                    rows={3}
+                    placeholder="What is still left to clean up?"
+                    className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                  />
+                  <div>
+                    <label className="text-sm font-medium text-gray-700 mb-1 flex items-center">
+                      <Camera className="h-4 w-4 mr-1" />
+                      New photos (optional, up to 5)
+                    </label>
+                    <input
+                      type="file"
+                      accept="image/*"
+                      multiple
+                      onChange={(e) => setPhotos(Array.from(e.target.files || []).slice(0, 5))}
+                      className="text-sm"
+                    />
+                  </div>
+                  <div className="flex gap-3">
+                    <button
+                      onClick={handleReopen}
+                      disabled={submitting}
+                      className="flex-1 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+                    >
+                      {submitting ? 'Reopening...' : 'Reopen Report'}
+                    </button>
+                    <button
+                      onClick={() => setMode('view')}
+                      disabled={submitting}
+                      className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                    >
+                      Back
+                    </button>
+                  </div>
+                </>
+              )}
+
+              {actionError && <p className="text-sm text-red-600">{actionError}</p>}
+            </div>
+          )}
+
+          <ReportTimeline reportId={report._id} />
+        </div>
+      </div>
     </div>
   );
 };
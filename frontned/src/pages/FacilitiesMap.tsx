@@ -1,5 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { MapPin, Search, Star, Clock, Phone, Globe, ChevronRight, X, Filter, MapPinned } from 'lucide-react';
+import { facilityService } from '../services/facilityService';
+import { zoneService, Zone } from '../services/zoneService';
+import { getErrorMessage } from '../services/api';
 
 interface Facility {
   _id: string;
@@ -10,7 +13,7 @@ interface Facility {
     address: {
       street: string;
       city: string;
-      district: string;
+      district?: string;
       state: string;
       zipCode: string;
     };
@@ -35,89 +38,73 @@ interface Facility {
   distance?: number;
 }
 
-interface District {
-  name: string;
-  city: string;
-  lat: number;
-  lon: number;
-}
-
 const FacilitiesMapView: React.FC = () => {
   const [facilities, setFacilities] = useState<Facility[]>([]);
   const [filteredFacilities, setFilteredFacilities] = useState<Facility[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedFacility, setSelectedFacility] = useState<Facility | null>(null);
-  const [selectedDistrict, setSelectedDistrict] = useState<string>('Chennai');
+  const [districts, setDistricts] = useState<Zone[]>([]);
+  // '' shows facilities everywhere
+  const [selectedZone, setSelectedZone] = useState('');
+  const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [typeFilter, setTypeFilter] = useState('all');
   const [wasteTypeFilter, setWasteTypeFilter] = useState('all');
   const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
   const [showFilters, setShowFilters] = useState(false);
 
-  const tamilNaduDistricts: District[] = [
-    { name: 'Chennai', city: 'Chennai', lat: 13.0827, lon: 80.2707 },
-    { name: 'Coimbatore', city: 'Coimbatore', lat: 11.0168, lon: 76.9558 },
-    { name: 'Madurai', city: 'Madurai', lat: 9.9252, lon: 78.1198 },
-    { name: 'Tiruchirappalli', city: 'Tiruchirappalli', lat: 10.7905, lon: 78.7047 },
-    { name: 'Salem', city: 'Salem', lat: 11.6643, lon: 78.1460 },
-    { name: 'Tirunelveli', city: 'Tirunelveli', lat: 8.7139, lon: 77.7567 },
-    { name: 'Erode', city: 'Erode', lat: 11.3410, lon: 77.7172 },
-    { name: 'Vellore', city: 'Vellore', lat: 12.9165, lon: 79.1325 },
-    { name: 'Thoothukudi', city: 'Thoothukudi', lat: 8.7642, lon: 78.1348 },
-    { name: 'Dindigul', city: 'Dindigul', lat: 10.3673, lon: 77.9803 },
-    { name: 'Thanjavur', city: 'Thanjavur', lat: 10.7870, lon: 79.1378 },
-    { name: 'Kanchipuram', city: 'Kanchipuram', lat: 12.8342, lon: 79.7036 },
-    { name: 'Tiruppur', city: 'Tiruppur', lat: 11.1075, lon: 77.3398 },
-    { name: 'Krishnagiri', city: 'Hosur', lat: 12.7409, lon: 77.8253 },
-    { name: 'Kanyakumari', city: 'Nagercoil', lat: 8.1790, lon: 77.4305 },
-    { name: 'Cuddalore', city: 'Cuddalore', lat: 11.7480, lon: 79.7714 },
-    { name: 'Nagapattinam', city: 'Nagapattinam', lat: 10.7672, lon: 79.8449 },
-    { name: 'Karur', city: 'Karur', lat: 10.9577, lon: 78.0766 },
-    { name: 'Namakkal', city: 'Namakkal', lat: 11.2189, lon: 78.1677 },
-    { name: 'Pudukkottai', city: 'Pudukkottai', lat: 10.3833, lon: 78.8000 },
-    { name: 'Ramanathapuram', city: 'Ramanathapuram', lat: 9.3639, lon: 78.8370 },
-    { name: 'Sivaganga', city: 'Sivaganga', lat: 9.8433, lon: 78.4809 },
-    { name: 'Theni', city: 'Theni', lat: 10.0104, lon: 77.4777 },
-    { name: 'Virudhunagar', city: 'Virudhunagar', lat: 9.5810, lon: 77.9624 },
-    { name: 'Villupuram', city: 'Villupuram', lat: 11.9401, lon: 79.4861 },
-    { name: 'Tiruvannamalai', city: 'Tiruvannamalai', lat: 12.2253, lon: 79.0747 },
-    { name: 'Dharmapuri', city: 'Dharmapuri', lat: 12.1211, lon: 78.1582 },
-    { name: 'Nilgiris', city: 'Ooty', lat: 11.4102, lon: 76.6950 },
-    { name: 'Ariyalur', city: 'Ariyalur', lat: 11.1401, lon: 79.0782 },
-    { name: 'Perambalur', city: 'Perambalur', lat: 11.2324, lon: 78.8798 },
-    { name: 'Ranipet', city: 'Ranipet', lat: 12.9249, lon: 79.3333 },
-    { name: 'Tirupattur', city: 'Tirupattur', lat: 12.4960, lon: 78.5720 },
-    { name: 'Kallakurichi', city: 'Kallakurichi', lat: 11.7401, lon: 78.9597 },
-    { name: 'Tenkasi', city: 'Tenkasi', lat: 8.9600, lon: 77.3152 },
-    { name: 'Chengalpattu', city: 'Chengalpattu', lat: 12.6919, lon: 79.9718 },
-    { name: 'Tirupur', city: 'Tirupur', lat: 11.1085, lon: 77.3411 }
-  ];
-
   useEffect(() => {
-    loadDistrictFacilities(selectedDistrict);
-  }, [selectedDistrict]);
+    const loadInitial = async () => {
+      try {
+        setDistricts(await zoneService.getZones({ kind: 'district' }));
+      } catch (err) {
+        // Without zones the page still lists every facility
+        console.error('Error loading districts:', err);
+      }
+      await loadFacilities('');
+    };
+    loadInitial();
+  }, []);
 
   useEffect(() => {
     applyFilters();
   }, [facilities, searchTerm, typeFilter, wasteTypeFilter]);
 
-  const loadDistrictFacilities = (districtName: string) => {
+  const loadFacilities = async (zoneId: string) => {
     setLoading(true);
-    
-    const district = tamilNaduDistricts.find(d => d.name === districtName);
-    
-    if (!district) {
+    setError(null);
+    try {
+      const response = await facilityService.getFacilities({ zone: zoneId || undefined, limit: 200 });
+      const list: Facility[] = response?.data?.facilities || [];
+      const center = districts.find(zone => zone._id === zoneId)?.center;
+
+      setFacilities(center
+        ? list
+            .map(facility => ({
+              ...facility,
+              distance: calculateDistance(
+                center[1], center[0],
+                facility.location.coordinates[1], facility.location.coordinates[0]
+              )
+            }))
+            .sort((a, b) => (a.distance || 0) - (b.distance || 0))
+        : list);
+    } catch (err) {
+      console.error('Error loading facilities:', err);
+      setError(getErrorMessage(err, 'Failed to load facilities'));
+      setFacilities([]);
+    } finally {
       setLoading(false);
-      return;
     }
+  };
 
-    setTimeout(() => {
-      const generatedFacilities = generateDistrictFacilities(district);
-      setFacilities(generatedFacilities);
-      setLoading(false);
-    }, 500);
+  const selectZone = (zoneId: string) => {
+    setSelectedZone(zoneId);
+    loadFacilities(zoneId);
   };
 
+  const selectedZoneName = districts.find(zone => zone._id === selectedZone)?.name;
+
   const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
     const R = 6371;
     const dLat = (lat2 - lat1) * Math.PI / 180;
@@ -130,121 +117,6 @@ const FacilitiesMapView: React.FC = () => {
     return R * c;
   };
 
-  const generateDistrictFacilities = (district: District): Facility[] => {
-    const facilityTemplates = [
-      {
-        namePattern: `${district.city} Municipal Recycling Center`,
-        type: 'recycling_center',
-        wasteTypes: ['plastic', 'paper', 'glass', 'metal'],
-        offset: [0.01, 0.01]
-      },
-      {
-        namePattern: `${district.name} District Scrap Collection Point`,
-        type: 'scrap_shop',
-        wasteTypes: ['metal', 'plastic', 'paper', 'electronic'],
-        offset: [-0.02, 0.015]
-      },
-      {
-        namePattern: `${district.city} E-Waste Management Center`,
-        type: 'e_waste_center',
-        wasteTypes: ['electronic'],
-        offset: [0.025, -0.01]
-      },
-      {
-        namePattern: `${district.city} Organic Waste Composting Unit`,
-        type: 'composting_facility',
-        wasteTypes: ['organic'],
-        offset: [-0.015, -0.02]
-      },
-      {
-        namePattern: `${district.name} Waste Treatment Plant`,
-        type: 'waste_treatment_plant',
-        wasteTypes: ['plastic', 'paper', 'glass', 'metal', 'organic'],
-        offset: [0.03, 0.02]
-      },
-      {
-        namePattern: `Green ${district.city} Recycling Hub`,
-        type: 'recycling_center',
-        wasteTypes: ['plastic', 'paper', 'glass'],
-        offset: [-0.025, 0.025]
-      },
-      {
-        namePattern: `${district.city} Central Scrap Dealer`,
-        type: 'scrap_shop',
-        wasteTypes: ['metal', 'plastic'],
-        offset: [0.018, -0.018]
-      },
-      {
-        namePattern: `${district.city} Biogas & Composting Plant`,
-        type: 'composting_facility',
-        wasteTypes: ['organic'],
-        offset: [-0.028, 0.008]
-      },
-      {
-        namePattern: `${district.name} Electronics Recycling Facility`,
-        type: 'e_waste_center',
-        wasteTypes: ['electronic'],
-        offset: [0.012, 0.022]
-      },
-      {
-        namePattern: `${district.city} Integrated Waste Management Center`,
-        type: 'waste_treatment_plant',
-        wasteTypes: ['plastic', 'paper', 'glass', 'metal', 'organic', 'electronic'],
-        offset: [-0.032, -0.015]
-      }
-    ];
-
-    return facilityTemplates.map((template, index) => {
-      const facilityLat = district.lat + template.offset[1];
-      const facilityLon = district.lon + template.offset[0];
-      const distance = calculateDistance(district.lat, district.lon, facilityLat, facilityLon);
-      
-      return {
-        _id: `facility-${district.name}-${index}`,
-        name: template.namePattern,
-        type: template.type,
-        location: {
-          coordinates: [facilityLon, facilityLat] as [number, number],
-          address: {
-            street: `${Math.floor(Math.random() * 999) + 1} ${['Main Road', 'Industrial Area', 'Market Street', 'Station Road', 'Ring Road', 'Bypass Road', 'Old Town', 'Gandhi Nagar'][Math.floor(Math.random() * 8)]}`,
-            city: district.city,
-            district: district.name,
-            state: 'Tamil Nadu',
-            zipCode: `${600000 + Math.floor(Math.random() * 99999)}`
-          }
-        },
-        contact: {
-          phone: '+91 ' + generatePhone(),
-          website: index % 3 === 0 ? `https://${template.type.replace(/_/g, '')}-${district.city.toLowerCase()}.example.com` : undefined
-        },
-        operatingHours: getDefaultHours(),
-        acceptedWasteTypes: template.wasteTypes,
-        rating: {
-          average: parseFloat((3.5 + Math.random() * 1.5).toFixed(1)),
-          count: Math.floor(Math.random() * 200) + 20
-        },
-        distance: distance
-      };
-    }).sort((a, b) => (a.distance || 0) - (b.distance || 0));
-  };
-
-  const generatePhone = () => {
-    const prefixes = ['98765', '99876', '97654', '96543', '95432', '94321', '93210'];
-    const prefix = prefixes[Math.floor(Math.random() * prefixes.length)];
-    const number = Math.floor(Math.random() * 90000) + 10000;
-    return `${prefix} ${number}`;
-  };
-
-  const getDefaultHours = () => ({
-    monday: { open: '09:00', close: '18:00', closed: false },
-    tuesday: { open: '09:00', close: '18:00', closed: false },
-    wednesday: { open: '09:00', close: '18:00', closed: false },
-    thursday: { open: '09:00', close: '18:00', closed: false },
-    friday: { open: '09:00', close: '18:00', closed: false },
-    saturday: { open: '10:00', close: '16:00', closed: false },
-    sunday: { open: '00:00', close: '00:00', closed: true }
-  });
-
   const applyFilters = () => {
     let filtered = facilities;
 
@@ -252,7 +124,7 @@ const FacilitiesMapView: React.FC = () => {
       filtered = filtered.filter(facility =>
         facility.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
         facility.location.address.city.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        facility.location.address.district.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        (facility.location.address.district || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
         facility.location.address.street.toLowerCase().includes(searchTerm.toLowerCase())
       );
     }
@@ -336,7 +208,7 @@ const FacilitiesMapView: React.FC = () => {
         <div className="text-center max-w-md">
           <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-green-500 mx-auto mb-4"></div>
           <p className="text-gray-600 mb-2 font-medium">Loading facilities...</p>
-          <p className="text-sm text-gray-500">Finding waste management centers in {selectedDistrict}</p>
+          <p className="text-sm text-gray-500">Finding waste management centers{selectedZoneName ? ` in ${selectedZoneName}` : ''}</p>
         </div>
       </div>
     );
@@ -385,19 +257,22 @@ const FacilitiesMapView: React.FC = () => {
             <h2 className="text-lg font-semibold text-gray-900">Select Your District</h2>
           </div>
           <select
-            value={selectedDistrict}
-            onChange={(e) => setSelectedDistrict(e.target.value)}
+            value={selectedZone}
+            onChange={(e) => selectZone(e.target.value)}
             className="w-full px-4 py-3 border-2 border-green-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 bg-white text-base font-medium"
           >
-            {tamilNaduDistricts.map((district) => (
-              <option key={district.name} value={district.name}>
-                {district.name} ({district.city})
+            <option value="">All districts</option>
+            {districts.map((district) => (
+              <option key={district._id} value={district._id}>
+                {district.name}
               </option>
             ))}
           </select>
           <p className="text-sm text-gray-600 mt-2">
-            Showing {filteredFacilities.length} waste management facilities in {selectedDistrict} district
+            Showing {filteredFacilities.length} waste management facilities
+            {selectedZoneName ? ` in ${selectedZoneName} district` : ''}
           </p>
+          {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
         </div>
 
         <div className="bg-white rounded-lg shadow-sm p-4 mb-6">
@@ -459,7 +334,7 @@ const FacilitiesMapView: React.FC = () => {
                 <MapPin className="h-16 w-16 text-green-600 mx-auto mb-4" />
                 <p className="text-gray-900 font-medium mb-2 text-lg">Interactive Map View</p>
                 <p className="text-sm text-gray-600 mb-4">
-                  {filteredFacilities.length} facilities in {selectedDistrict}
+                  {filteredFacilities.length} facilities{selectedZoneName ? ` in ${selectedZoneName}` : ''}
                 </p>
                 <div className="bg-white rounded-lg p-4 max-w-md mx-auto shadow-sm">
                   <p className="text-xs text-gray-500">
@@ -499,11 +374,14 @@ const FacilitiesMapView: React.FC = () => {
                       <MapPin className="h-4 w-4 text-gray-400 mr-2 mt-1 flex-shrink-0" />
                       <div className="text-sm text-gray-600">
                         <p>{facility.location.address.street}</p>
-                        <p>{facility.location.address.city}, {facility.location.address.district}</p>
+                        <p>
+                          {facility.location.address.city}
+                          {facility.location.address.district && `, ${facility.location.address.district}`}
+                        </p>
                         <p className="text-gray-500">{facility.location.address.state}</p>
                         {facility.distance !== undefined && (
                           <p className="text-green-600 font-medium mt-1">
-                            {facility.distance.toFixed(1)} km from city center
+                            {facility.distance.toFixed(1)} km from district centre
                           </p>
                         )}
                       </div>
@@ -657,7 +535,7 @@ const FacilitiesMapView: React.FC = () => {
                     <p>{selectedFacility.location.address.city}, {selectedFacility.location.address.district}</p>
                     <p>{selectedFacility.location.address.state} {selectedFacility.location.address.zipCode}</p>
                     {selectedFacility.distance !== undefined && (
-                      <p className="text-green-600 font-medium mt-1">{selectedFacility.distance.toFixed(1)} km from city center</p>
+                      <p className="text-green-600 font-medium mt-1">{selectedFacility.distance.toFixed(1)} km from district centre</p>
                     )}
                   </div>
                 </div>
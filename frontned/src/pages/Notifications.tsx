@@ -0,0 +1,195 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useNotifications } from '../context/NotificationContext';
+import { notificationService, AppNotification, NotificationType } from '../services/notificationService';
+import { getErrorMessage } from '../services/api';
+import {
+  Bell,
+  CheckCheck,
+  ClipboardList,
+  UserCheck,
+  RotateCcw,
+  CheckCircle,
+  BookOpen,
+  Gavel,
+  Gift,
+  Calendar,
+  RefreshCw
+} from 'lucide-react';
+
+const PAGE_SIZE = 20;
+
+const TYPE_ICONS: Record<NotificationType, React.ElementType> = {
+  report_claimed: UserCheck,
+  report_assigned: UserCheck,
+  report_offered: ClipboardList,
+  report_status: ClipboardList,
+  report_returned: RotateCcw,
+  report_reopened: RotateCcw,
+  report_verified: CheckCircle,
+  report_merged: ClipboardList,
+  training_completed: BookOpen,
+  penalty_issued: Gavel,
+  penalty_updated: Gavel,
+  redemption_created: Gift,
+  redemption_fulfilled: Gift,
+  redemption_cancelled: Gift,
+  collection_reminder: Calendar
+};
+
+const Notifications: React.FC = () => {
+  const navigate = useNavigate();
+  const { unreadCount, setUnreadCount } = useNotifications();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadNotifications = useCallback(async (nextPage: number, onlyUnread: boolean) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await notificationService.getNotifications({
+        page: nextPage,
+        limit: PAGE_SIZE,
+        unread: onlyUnread || undefined
+      });
+      setNotifications(current => nextPage === 1 ? result.notifications : [...current, ...result.notifications]);
+      setPage(result.pagination.current);
+      setPages(result.pagination.pages);
+      setUnreadCount(result.unreadCount);
+    } catch (err) {
+      console.error('Error loading notifications:', err);
+      setError(getErrorMessage(err, 'Failed to load notifications'));
+    } finally {
+      setLoading(false);
+    }
+  }, [setUnreadCount]);
+
+  useEffect(() => {
+    loadNotifications(1, false);
+  }, [loadNotifications]);
+
+  const open = async (notification: AppNotification) => {
+    if (!notification.readAt) {
+      try {
+        setUnreadCount(await notificationService.markRead(notification._id));
+        setNotifications(current => current.map(item =>
+          item._id === notification._id ? { ...item, readAt: new Date().toISOString() } : item
+        ));
+      } catch (err) {
+        setError(getErrorMessage(err, 'Failed to mark notification read'));
+      }
+    }
+    if (notification.link) navigate(notification.link);
+  };
+
+  const markAllRead = async () => {
+    setError(null);
+    try {
+      await notificationService.markAllRead();
+      setUnreadCount(0);
+      if (unreadOnly) {
+        setNotifications([]);
+      } else {
+        const now = new Date().toISOString();
+        setNotifications(current => current.map(item => item.readAt ? item : { ...item, readAt: now }));
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to mark notifications read'));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 sm:p-6 lg:p-8">
+      <div className="max-w-3xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Notifications</h1>
+            <p className="text-gray-600">
+              {unreadCount > 0 ? `${unreadCount} unread` : 'You are all caught up.'}
+            </p>
+          </div>
+          <button
+            onClick={markAllRead}
+            disabled={unreadCount === 0}
+            className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-md text-sm hover:bg-gray-50 disabled:opacity-50"
+          >
+            <CheckCheck className="h-4 w-4 mr-2" />
+            Mark all read
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-4 text-sm text-red-800">{error}</div>
+        )}
+
+        <label className="flex items-center text-sm text-gray-700 mb-4">
+          <input
+            type="checkbox"
+            checked={unreadOnly}
+            onChange={(e) => {
+              setUnreadOnly(e.target.checked);
+              loadNotifications(1, e.target.checked);
+            }}
+            className="h-4 w-4 text-green-600 rounded mr-2"
+          />
+          Unread only
+        </label>
+
+        <div className="bg-white rounded-lg shadow-md divide-y divide-gray-100">
+          {notifications.length === 0 && !loading ? (
+            <div className="p-8 text-center text-gray-500">
+              <Bell className="h-10 w-10 mx-auto mb-2 text-gray-300" />
+              No notifications{unreadOnly ? ' left to read' : ' yet'}.
+            </div>
+          ) : (
+            notifications.map(notification => {
+              const Icon = TYPE_ICONS[notification.type] || Bell;
+              return (
+                <button
+                  key={notification._id}
+                  onClick={() => open(notification)}
+                  className={`w-full text-left p-4 flex items-start hover:bg-gray-50 ${notification.readAt ? '' : 'bg-green-50'}`}
+                >
+                  <Icon className={`h-5 w-5 mr-3 mt-0.5 flex-shrink-0 ${notification.readAt ? 'text-gray-400' : 'text-green-600'}`} />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex justify-between items-start gap-2">
+                      <p className={`text-sm ${notification.readAt ? 'text-gray-700' : 'font-semibold text-gray-900'}`}>
+                        {notification.title}
+                      </p>
+                      <span className="text-xs text-gray-400 whitespace-nowrap">
+                        {new Date(notification.createdAt).toLocaleString()}
+                      </span>
+                    </div>
+                    {notification.message && <p className="text-sm text-gray-600 mt-1">{notification.message}</p>}
+                  </div>
+                </button>
+              );
+            })
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center text-sm text-gray-500 mt-4">
+            <RefreshCw className="h-4 w-4 animate-spin mr-2" />
+            Loading...
+          </div>
+        ) : page < pages && (
+          <div className="text-center mt-4">
+            <button
+              onClick={() => loadNotifications(page + 1, unreadOnly)}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md text-sm hover:bg-gray-50"
+            >
+              Load more
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Notifications;
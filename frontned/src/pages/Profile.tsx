@@ -1,9 +1,16 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { 
-  User, Mail, Phone, MapPin, Award, Calendar, Edit, Save, X, Camera, Trophy, Star, AlertCircle 
+  User, Mail, Phone, MapPin, Award, Calendar, Edit, Save, X, Camera, Trophy, Star, AlertCircle, History, Bell, LocateFixed, CalendarPlus, Copy, RefreshCw,
+  MessageSquare, Smartphone, Moon
 } from 'lucide-react';
-import api from '../services/api';
+import api, { getErrorMessage } from '../services/api';
+import { pointsService, PointTransaction, PointSource } from '../services/pointsService';
+import { badgeService, LevelThreshold } from '../services/badgeService';
+import { penaltyService, Penalty, PenaltyStatus } from '../services/penaltyService';
+import { wasteService } from '../services/wasteService';
+import { scheduleService } from '../services/scheduleService';
+import { notificationService } from '../services/notificationService';
 
 const Profile: React.FC = () => {
   const { user, updateUser } = useAuth();
@@ -12,6 +19,11 @@ const Profile: React.FC = () => {
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [imageFile, setImageFile] = useState<File | null>(null);
+  const [levels, setLevels] = useState<LevelThreshold[]>([]);
+
+  useEffect(() => {
+    badgeService.getLevels().then(setLevels).catch(() => setLevels([]));
+  }, []);
 
   const [formData, setFormData] = useState({
     name: user?.name || '',
@@ -120,7 +132,9 @@ const Profile: React.FC = () => {
   if (!user) return null;
 
   const badges = user.rewards?.badges || [];
-  const penalties = user.penalties || [];
+  const totalEarned = user.rewards?.totalEarned || 0;
+  // Lowest level still ahead (levels come highest first)
+  const nextLevel = [...levels].reverse().find(({ minPoints }) => minPoints > totalEarned);
   const training = user.training || {};
   const stats = user.statistics || {};
 
@@ -215,6 +229,8 @@ const Profile: React.FC = () => {
                 </div>
               </div>
             </div>
+
+            <PointsHistory />
           </div>
 
           {/* RIGHT SIDEBAR */}
@@ -225,43 +241,558 @@ const Profile: React.FC = () => {
               <p>Level: {user.rewards?.level}</p>
               <p>Total Points: {user.rewards?.totalEarned}</p>
               <p>Badges: {badges.length}</p>
+              {nextLevel && (
+                <p className="text-sm text-gray-500 mt-2">
+                  {nextLevel.minPoints - totalEarned} points to <span className="capitalize">{nextLevel.level}</span>
+                </p>
+              )}
             </div>
 
             {/* Badges */}
             {badges.length > 0 && (
               <div className="bg-white rounded-lg shadow-md p-6">
                 <h3 className="text-lg font-semibold mb-4">Badges</h3>
-                {badges.map((badge, i) => (
-                  <div key={i} className="flex items-center space-x-3 mb-3">
+                {badges.map((badge) => (
+                  <div key={badge.key} className="flex items-center space-x-3 mb-3">
                     <Star className="text-yellow-600" />
                     <div>
                       <p className="font-medium">{badge.name}</p>
                       <p className="text-sm text-gray-500">{badge.description}</p>
+                      <p className="text-xs text-gray-400">Earned {new Date(badge.earnedAt).toLocaleDateString()}</p>
                     </div>
                   </div>
                 ))}
               </div>
             )}
 
-            {/* Penalties */}
-            {penalties.length > 0 && (
-              <div className="bg-white rounded-lg shadow-md p-6">
-                <h3 className="text-lg font-semibold mb-4">Penalties</h3>
-                {penalties.map((penalty, i) => (
-                  <div key={i} className="flex justify-between items-center bg-red-50 p-3 rounded-lg mb-2">
-                    <div>
-                      <p className="font-medium text-red-900">{penalty.reason}</p>
-                      <p className="text-sm text-red-600">${penalty.amount}</p>
-                    </div>
-                    <span className={`px-2 py-1 text-xs rounded-full ${penalty.status === 'paid' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
-                      {penalty.status}
-                    </span>
-                  </div>
+            <NotificationChannels />
+
+            <CollectionSettings />
+
+            <CalendarSubscription />
+
+            <MyPenalties />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Saves some profile fields and returns the updated user
+const saveProfileFields = async (fields: Record<string, unknown>) => {
+  const form = new FormData();
+  Object.entries(fields).forEach(([key, value]) => form.append(key, JSON.stringify(value)));
+  const response = await api.put('/users/profile', form, {
+    headers: { 'Content-Type': 'multipart/form-data' }
+  });
+  return response.data.data.user;
+};
+
+const CHANNELS = [
+  { key: 'email', label: 'Email', icon: Mail },
+  { key: 'sms', label: 'SMS', icon: MessageSquare },
+  { key: 'push', label: 'Browser notifications', icon: Smartphone }
+] as const;
+
+// Which of the notification centre's messages also go out by email, SMS
+// and push, and a daily window in which none are sent
+const NotificationChannels: React.FC = () => {
+  const { user, updateUser } = useAuth();
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [quietStart, setQuietStart] = useState(user?.preferences?.quietHours?.start || '');
+  const [quietEnd, setQuietEnd] = useState(user?.preferences?.quietHours?.end || '');
+  const [pushAvailable, setPushAvailable] = useState(false);
+  const [pushSubscribed, setPushSubscribed] = useState(false);
+
+  useEffect(() => {
+    if (!notificationService.isPushSupported()) return;
+    let cancelled = false;
+    Promise.all([notificationService.getPushKey(), notificationService.getPushSubscription()])
+      .then(([key, subscription]) => {
+        if (cancelled) return;
+        setPushAvailable(Boolean(key));
+        setPushSubscribed(Boolean(subscription));
+      })
+      .catch(err => console.error('Error checking push notifications:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const save = async (preferences: Record<string, unknown>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      updateUser(await saveProfileFields({ preferences }));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save notification settings'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const togglePush = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      if (pushSubscribed) {
+        await notificationService.disablePush();
+        setPushSubscribed(false);
+      } else {
+        await notificationService.enablePush();
+        setPushSubscribed(true);
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, err instanceof Error ? err.message : 'Failed to change browser notifications'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!user) return null;
+  const channels = { email: true, sms: false, push: true, ...user.preferences?.notifications };
+  const quietSaved = user.preferences?.quietHours;
+  const quietChanged = quietStart !== (quietSaved?.start || '') || quietEnd !== (quietSaved?.end || '');
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-semibold mb-4">Notification Channels</h3>
+      <p className="text-sm text-gray-600 mb-3">
+        Besides the notification centre, send my notifications by:
+      </p>
+      <div className="space-y-2 mb-4">
+        {CHANNELS.map(({ key, label, icon: Icon }) => (
+          <label key={key} className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={channels[key]}
+              disabled={saving}
+              onChange={(e) => save({ notifications: { ...channels, [key]: e.target.checked } })}
+              className="h-4 w-4 text-green-600 rounded mr-2"
+            />
+            <Icon className="h-4 w-4 mr-1 text-gray-400" />
+            {label}
+          </label>
+        ))}
+      </div>
+      {channels.sms && !user.phone && (
+        <p className="text-xs text-gray-500 mb-2">Add a phone number to your profile to receive SMS.</p>
+      )}
+      {channels.push && pushAvailable && (
+        <button
+          onClick={togglePush}
+          disabled={saving}
+          className="w-full mb-4 px-3 py-2 border border-gray-300 text-gray-700 rounded-md text-sm hover:bg-gray-50 disabled:opacity-50 flex items-center justify-center"
+        >
+          <Bell className="h-4 w-4 mr-2" />
+          {pushSubscribed ? 'Turn off in this browser' : 'Turn on in this browser'}
+        </button>
+      )}
+
+      <div className="border-t border-gray-100 pt-4">
+        <p className="flex items-center text-sm font-medium text-gray-700 mb-1">
+          <Moon className="h-4 w-4 mr-1 text-gray-400" />
+          Quiet hours
+        </p>
+        <p className="text-xs text-gray-500 mb-2">Messages due in this window are sent when it ends.</p>
+        <div className="flex items-center gap-2">
+          <input
+            type="time"
+            value={quietStart}
+            onChange={(e) => setQuietStart(e.target.value)}
+            className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm"
+          />
+          <span className="text-sm text-gray-500">to</span>
+          <input
+            type="time"
+            value={quietEnd}
+            onChange={(e) => setQuietEnd(e.target.value)}
+            className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm"
+          />
+        </div>
+        <div className="flex gap-2 mt-2">
+          <button
+            onClick={() => save({ quietHours: { start: quietStart, end: quietEnd } })}
+            disabled={saving || !quietChanged || !quietStart || !quietEnd}
+            className="flex-1 px-3 py-1 bg-green-600 text-white rounded-md text-sm hover:bg-green-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+          {quietSaved?.start && (
+            <button
+              onClick={() => {
+                setQuietStart('');
+                setQuietEnd('');
+                save({ quietHours: {} });
+              }}
+              disabled={saving}
+              className="px-3 py-1 border border-gray-300 text-gray-700 rounded-md text-sm hover:bg-gray-50 disabled:opacity-50"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+// Where the citizen's waste is collected (their address position) and
+// whether they are reminded the evening before
+const CollectionSettings: React.FC = () => {
+  const { user, updateUser } = useAuth();
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (fields: Record<string, unknown>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      updateUser(await saveProfileFields(fields));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save collection settings'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const locate = () => {
+    if (!navigator.geolocation) {
+      setError('Your browser cannot share its location');
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => save({ address: { coordinates: [coords.longitude, coords.latitude] } }),
+      () => setError('Allow location access to set your address position')
+    );
+  };
+
+  if (!user) return null;
+  const located = (user.address?.coordinates?.length || 0) === 2;
+  const reminders = user.preferences?.collectionReminders ?? true;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-semibold mb-4">Waste Collection</h3>
+      <p className="text-sm text-gray-600 mb-3">
+        {located
+          ? 'Your collection days come from the position of your address.'
+          : 'Set the position of your address to see your collection days.'}
+      </p>
+      <button
+        onClick={locate}
+        disabled={saving}
+        className="w-full mb-4 px-3 py-2 border border-gray-300 text-gray-700 rounded-md text-sm hover:bg-gray-50 disabled:opacity-50 flex items-center justify-center"
+      >
+        <LocateFixed className="h-4 w-4 mr-2" />
+        {located ? 'Update to my current location' : 'Use my current location'}
+      </button>
+      <label className="flex items-center text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={reminders}
+          disabled={saving}
+          onChange={(e) => save({ preferences: { collectionReminders: e.target.checked } })}
+          className="h-4 w-4 text-green-600 rounded mr-2"
+        />
+        <Bell className="h-4 w-4 mr-1 text-gray-400" />
+        Remind me the evening before a pickup
+      </label>
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+// Secret calendar feed of the user's collection days, for phone and mail
+// calendars to subscribe to
+const CalendarSubscription: React.FC = () => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (load: () => Promise<string>, done?: string) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      setUrl(await load());
+      if (done) setMessage(done);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load the calendar link'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copy = async () => {
+    if (!url) return;
+    try {
+      await navigator.clipboard.writeText(url);
+      setMessage('Link copied');
+    } catch {
+      setError('Copy the link by hand, your browser did not allow it');
+    }
+  };
+
+  const reset = () => {
+    if (!window.confirm('Calendars subscribed to the current link will stop updating. Create a new link?')) return;
+    run(() => scheduleService.resetCalendarUrl(), 'New link created');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-semibold mb-4">Collection Calendar</h3>
+      <p className="text-sm text-gray-600 mb-3">
+        Subscribe to your collection days in your phone or mail calendar. Holidays and reschedules show up there too.
+      </p>
+      {!url ? (
+        <button
+          onClick={() => run(() => scheduleService.getCalendarUrl())}
+          disabled={busy}
+          className="w-full px-3 py-2 border border-gray-300 text-gray-700 rounded-md text-sm hover:bg-gray-50 disabled:opacity-50 flex items-center justify-center"
+        >
+          <CalendarPlus className="h-4 w-4 mr-2" />
+          {busy ? 'Loading...' : 'Get calendar link'}
+        </button>
+      ) : (
+        <div className="space-y-2">
+          <input
+            readOnly
+            value={url}
+            onFocus={(e) => e.target.select()}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-xs text-gray-700"
+          />
+          <div className="flex gap-2">
+            <a
+              href={url.replace(/^https?:/, 'webcal:')}
+              className="flex-1 px-3 py-2 bg-green-600 text-white rounded-md text-sm hover:bg-green-700 flex items-center justify-center"
+            >
+              <CalendarPlus className="h-4 w-4 mr-1" />
+              Subscribe
+            </a>
+            <button
+              onClick={copy}
+              className="px-3 py-2 border border-gray-300 text-gray-700 rounded-md text-sm hover:bg-gray-50"
+              title="Copy link"
+            >
+              <Copy className="h-4 w-4" />
+            </button>
+            <button
+              onClick={reset}
+              disabled={busy}
+              className="px-3 py-2 border border-gray-300 text-gray-700 rounded-md text-sm hover:bg-gray-50 disabled:opacity-50"
+              title="Create a new link"
+            >
+              <RefreshCw className="h-4 w-4" />
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">Keep this link to yourself; anyone with it can see your collection days.</p>
+        </div>
+      )}
+      {message && <p className="text-sm text-green-700 mt-2">{message}</p>}
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+const PENALTY_STATUS_STYLES: Record<PenaltyStatus, string> = {
+  pending: 'bg-red-100 text-red-800',
+  disputed: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-green-100 text-green-800',
+  waived: 'bg-gray-100 text-gray-700'
+};
+
+// Penalties issued to the user, with evidence and a way to dispute them
+const MyPenalties: React.FC = () => {
+  const [penalties, setPenalties] = useState<Penalty[]>([]);
+  const [disputing, setDisputing] = useState<string | null>(null);
+  const [statement, setStatement] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    penaltyService.getMyPenalties().then(setPenalties).catch(() => setPenalties([]));
+  }, []);
+
+  const submitDispute = async (penalty: Penalty) => {
+    setError(null);
+    try {
+      await penaltyService.dispute(penalty._id, statement.trim());
+      setDisputing(null);
+      setStatement('');
+      setPenalties(await penaltyService.getMyPenalties());
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to submit dispute'));
+    }
+  };
+
+  if (penalties.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-semibold mb-4">Penalties</h3>
+      {error && <p className="text-sm text-red-700 mb-2">{error}</p>}
+      {penalties.map(penalty => {
+        const canDispute = penalty.allowedActions.some(({ action }) => action === 'disputed');
+        return (
+          <div key={penalty._id} className="bg-red-50 p-3 rounded-lg mb-2">
+            <div className="flex justify-between items-start">
+              <div>
+                <p className="font-medium text-red-900">{penalty.reason}</p>
+                <p className="text-sm text-red-600">
+                  ${penalty.amount} • {new Date(penalty.createdAt).toLocaleDateString()}
+                  {penalty.dueDate && ` • due ${new Date(penalty.dueDate).toLocaleDateString()}`}
+                </p>
+              </div>
+              <span className={`px-2 py-1 text-xs rounded-full ${PENALTY_STATUS_STYLES[penalty.status]}`}>
+                {penalty.status}
+              </span>
+            </div>
+            {penalty.evidence.length > 0 && (
+              <div className="flex gap-2 mt-2">
+                {penalty.evidence.map(image => (
+                  <a key={image.filename} href={wasteService.getImageUrl(image) || undefined} target="_blank" rel="noreferrer">
+                    <img
+                      src={wasteService.getImageUrl(image, 'thumb') || undefined}
+                      alt="Evidence"
+                      className="h-12 w-12 object-cover rounded"
+                    />
+                  </a>
                 ))}
               </div>
             )}
+            {penalty.dispute?.statement && (
+              <p className="text-xs text-gray-600 mt-2">Your dispute: “{penalty.dispute.statement}”</p>
+            )}
+            {canDispute && (disputing === penalty._id ? (
+              <div className="mt-2">
+                <textarea
+                  value={statement}
+                  onChange={(e) => setStatement(e.target.value)}
+                  rows={3}
+                  maxLength={1000}
+                  placeholder="Why is this penalty wrong?"
+                  className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                />
+                <div className="flex gap-2 mt-1">
+                  <button
+                    onClick={() => submitDispute(penalty)}
+                    disabled={!statement.trim()}
+                    className="px-3 py-1 bg-red-600 text-white rounded-md text-xs hover:bg-red-700 disabled:opacity-50"
+                  >
+                    Submit dispute
+                  </button>
+                  <button
+                    onClick={() => setDisputing(null)}
+                    className="px-3 py-1 bg-gray-100 text-gray-700 rounded-md text-xs hover:bg-gray-200"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => { setDisputing(penalty._id); setStatement(''); }}
+                className="mt-2 text-xs font-medium text-red-700 hover:text-red-900"
+              >
+                Dispute this penalty
+              </button>
+            ))}
           </div>
-        </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const SOURCE_LABELS: Record<PointSource, string> = {
+  report: 'Report',
+  training: 'Training',
+  verification: 'Verification',
+  admin_grant: 'Adjustment',
+  redemption: 'Redemption',
+  opening_balance: 'Opening balance'
+};
+
+const HISTORY_PAGE_SIZE = 10;
+
+// Ledger of where the user's points came from and went
+const PointsHistory: React.FC = () => {
+  const [transactions, setTransactions] = useState<PointTransaction[]>([]);
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setLoading(true);
+    pointsService
+      .getHistory({ page, limit: HISTORY_PAGE_SIZE })
+      .then((history) => {
+        if (cancelled) return;
+        setTransactions(prev => (page === 1 ? history.transactions : [...prev, ...history.transactions]));
+        setPages(history.pagination.pages);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(getErrorMessage(err, 'Failed to load points history'));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [page]);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md mt-8">
+      <div className="px-6 py-4 border-b">
+        <h2 className="text-xl font-semibold flex items-center">
+          <History className="h-5 w-5 mr-2 text-gray-500" /> Points History
+        </h2>
+      </div>
+      <div className="p-6">
+        {error && <p className="text-sm text-red-700 mb-4">{error}</p>}
+        {!loading && transactions.length === 0 && !error ? (
+          <p className="text-sm text-gray-500">No points yet. Report waste or finish a training module to earn some.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {transactions.map(transaction => (
+              <li key={transaction._id} className="py-3 flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {transaction.reason || SOURCE_LABELS[transaction.source]}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {SOURCE_LABELS[transaction.source]} • {new Date(transaction.at).toLocaleString()}
+                    {transaction.createdBy && ` • by ${transaction.createdBy.name}`}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className={`text-sm font-semibold ${transaction.amount > 0 ? 'text-green-700' : 'text-red-700'}`}>
+                    {transaction.amount > 0 ? '+' : ''}{transaction.amount}
+                  </p>
+                  <p className="text-xs text-gray-500">balance {transaction.balance}</p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        {loading && <p className="text-sm text-gray-500 mt-2">Loading...</p>}
+        {!loading && page < pages && (
+          <button
+            onClick={() => setPage(current => current + 1)}
+            className="mt-4 text-sm font-medium text-green-600 hover:text-green-700"
+          >
+            Show older
+          </button>
+        )}
       </div>
     </div>
   );
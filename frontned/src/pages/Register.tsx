@@ -1,7 +1,8 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-import { Eye, EyeOff, Lock, Mail, User, Phone, MapPin, AlertCircle, UserPlus } from 'lucide-react';
+import { tenantService, Tenant } from '../services/tenantService';
+import { Eye, EyeOff, Lock, Mail, User, Phone, MapPin, AlertCircle, UserPlus, Building2 } from 'lucide-react';
 
 const Register: React.FC = () => {
   const [formData, setFormData] = useState({
@@ -23,10 +24,20 @@ const Register: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [step, setStep] = useState(1);
+  // Builds for a single municipality (VITE_TENANT) skip the picker
+  const [tenants, setTenants] = useState<Tenant[]>([]);
+  const [tenantSlug, setTenantSlug] = useState(tenantService.getSelected() || '');
   
   const { register } = useAuth();
   const navigate = useNavigate();
 
+  useEffect(() => {
+    if (import.meta.env.VITE_TENANT) return;
+    tenantService.getPublicTenants()
+      .then(setTenants)
+      .catch(err => console.error('Failed to load municipalities:', err));
+  }, []);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     
@@ -50,6 +61,10 @@ const Register: React.FC = () => {
   };
 
   const validateStep1 = () => {
+    if (tenants.length > 0 && !tenantSlug) {
+      setError('Select your municipality');
+      return false;
+    }
     if (!formData.name.trim()) {
       setError('Name is required');
       return false;
@@ -96,6 +111,7 @@ const Register: React.FC = () => {
         }
       };
 
+      if (tenants.length > 0) tenantService.setSelected(tenantSlug);
       await register(registrationData);
       navigate('/dashboard');
     } catch (err: any) {
@@ -156,6 +172,31 @@ const Register: React.FC = () => {
 
           {step === 1 ? (
             <form onSubmit={(e) => { e.preventDefault(); handleNext(); }} className="space-y-6">
+              {/* Municipality */}
+              {tenants.length > 0 && (
+                <div>
+                  <label htmlFor="tenant" className="block text-sm font-medium text-gray-700 mb-2">Municipality *</label>
+                  <div className="relative">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <Building2 className="h-5 w-5 text-gray-400" />
+                    </div>
+                    <select
+                      id="tenant"
+                      value={tenantSlug}
+                      onChange={(e) => { setTenantSlug(e.target.value); if (error) setError(''); }}
+                      className="block w-full pl-10 pr-3 py-3 border border-gray-300 rounded-md"
+                    >
+                      <option value="">Select your municipality</option>
+                      {tenants.map(tenant => (
+                        <option key={tenant._id} value={tenant.slug}>
+                          {tenant.branding?.displayName || tenant.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              )}
+
               {/* Name */}
               <div>
                 <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">Full Name *</label>
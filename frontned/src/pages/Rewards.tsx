@@ -0,0 +1,188 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { rewardService, Reward, Redemption, RedemptionStatus } from '../services/rewardService';
+import { getErrorMessage } from '../services/api';
+import { Gift, Ticket, Package, XCircle, RefreshCw, Star } from 'lucide-react';
+
+const STATUS_STYLES: Record<RedemptionStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  fulfilled: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-600'
+};
+
+const Rewards: React.FC = () => {
+  const { user, updateUser } = useAuth();
+  const [rewards, setRewards] = useState<Reward[]>([]);
+  const [redemptions, setRedemptions] = useState<Redemption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [redeemingId, setRedeemingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const points = user?.rewards.points || 0;
+
+  useEffect(() => {
+    loadRewards();
+  }, []);
+
+  const loadRewards = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [catalogue, mine] = await Promise.all([
+        rewardService.getRewards(),
+        rewardService.getMyRedemptions({ limit: 50 })
+      ]);
+      setRewards(catalogue);
+      setRedemptions(mine.redemptions);
+    } catch (err) {
+      console.error('Error loading rewards:', err);
+      setError(getErrorMessage(err, 'Failed to load rewards'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const redeem = async (reward: Reward) => {
+    if (!user) return;
+    if (!window.confirm(`Spend ${reward.pointsCost} points on ${reward.name}?`)) return;
+
+    setRedeemingId(reward._id);
+    setError(null);
+    try {
+      const result = await rewardService.redeem(reward._id);
+      updateUser({ rewards: { ...user.rewards, points: user.rewards.points - reward.pointsCost } });
+      setMessage(result.message);
+      await loadRewards();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to redeem reward'));
+    } finally {
+      setRedeemingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 sm:p-6 lg:p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Rewards</h1>
+            <p className="text-gray-600">Spend the points you earn keeping your city clean.</p>
+          </div>
+          <div className="bg-white rounded-lg shadow-md px-4 py-3 flex items-center">
+            <Star className="h-5 w-5 text-yellow-500 mr-2" />
+            <span className="text-2xl font-bold text-gray-900">{points}</span>
+            <span className="ml-1 text-sm text-gray-500">points</span>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-4 text-sm text-red-800 flex justify-between">
+            <span>{error}</span>
+            <button onClick={() => setError(null)}><XCircle className="h-4 w-4" /></button>
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4 mb-4 text-sm text-green-800 flex justify-between">
+            <span>{message}</span>
+            <button onClick={() => setMessage(null)}><XCircle className="h-4 w-4" /></button>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="p-12 flex justify-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-500"></div>
+          </div>
+        ) : (
+          <>
+            {rewards.length === 0 ? (
+              <div className="bg-white rounded-lg shadow-md text-center py-12 mb-8">
+                <Gift className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                <p className="text-gray-500">No rewards available right now. Check back soon.</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
+                {rewards.map(reward => {
+                  const outOfStock = reward.stock === 0;
+                  const affordable = points >= reward.pointsCost;
+                  return (
+                    <div key={reward._id} className="bg-white rounded-lg shadow-md overflow-hidden flex flex-col">
+                      {reward.imageUrl ? (
+                        <img src={reward.imageUrl} alt="" className="h-40 w-full object-cover" />
+                      ) : (
+                        <div className="h-40 bg-green-50 flex items-center justify-center">
+                          <Gift className="h-12 w-12 text-green-500" />
+                        </div>
+                      )}
+                      <div className="p-5 flex-1 flex flex-col">
+                        <p className="text-xs font-medium text-green-700 uppercase">
+                          {reward.category}{reward.partner && ` • ${reward.partner}`}
+                        </p>
+                        <h3 className="text-lg font-semibold text-gray-900">{reward.name}</h3>
+                        {reward.description && <p className="text-sm text-gray-600 mt-1 flex-1">{reward.description}</p>}
+                        <div className="mt-4 flex items-center justify-between">
+                          <div>
+                            <p className="text-lg font-bold text-gray-900">{reward.pointsCost} pts</p>
+                            <p className="text-xs text-gray-500 flex items-center">
+                              <Package className="h-3 w-3 mr-1" />
+                              {outOfStock ? 'Out of stock' : `${reward.stock} left`}
+                            </p>
+                          </div>
+                          <button
+                            onClick={() => redeem(reward)}
+                            disabled={outOfStock || !affordable || redeemingId !== null}
+                            className="px-4 py-2 bg-green-600 text-white rounded-md text-sm hover:bg-green-700 disabled:opacity-50 flex items-center"
+                          >
+                            {redeemingId === reward._id
+                              ? <RefreshCw className="h-4 w-4 animate-spin" />
+                              : affordable ? 'Redeem' : `${reward.pointsCost - points} more pts`}
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="bg-white rounded-lg shadow-md">
+              <div className="px-6 py-4 border-b">
+                <h2 className="text-xl font-semibold flex items-center">
+                  <Ticket className="h-5 w-5 mr-2 text-gray-500" /> My Vouchers
+                </h2>
+              </div>
+              {redemptions.length === 0 ? (
+                <p className="p-6 text-sm text-gray-500">You haven't redeemed anything yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {redemptions.map(redemption => (
+                    <li key={redemption._id} className="px-6 py-4 flex items-center justify-between gap-4">
+                      <div>
+                        <p className="font-medium text-gray-900">{redemption.rewardName}</p>
+                        <p className="text-xs text-gray-500">
+                          {redemption.pointsCost} pts • {new Date(redemption.createdAt).toLocaleDateString()}
+                          {redemption.status === 'cancelled' && ' • points refunded'}
+                          {redemption.cancelReason && ` • ${redemption.cancelReason}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className={`font-mono text-sm ${redemption.status === 'cancelled' ? 'line-through text-gray-400' : 'text-gray-900'}`}>
+                          {redemption.voucherCode}
+                        </span>
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[redemption.status]}`}>
+                          {redemption.status}
+                        </span>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Rewards;
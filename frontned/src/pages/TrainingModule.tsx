@@ -1,6 +1,7 @@
   import React, { useState, useEffect, useRef } from 'react';
   import { useParams, useNavigate } from 'react-router-dom';
   import trainingService from '../services/trainingService';
+  import { EarnedBadge } from '../services/badgeService';
   import {
     ArrowLeft,
     BookOpen,
@@ -54,6 +55,7 @@
     correctAnswers: number;
     totalQuestions: number;
     pointsEarned?: number;
+    badgesEarned?: EarnedBadge[];
   }
 
   const TrainingModule: React.FC = () => {
@@ -570,6 +572,9 @@
                     {quizResult.passed ? (
                       <span className="text-green-600 font-medium">
                         You earned {quizResult.pointsEarned} points!
+                        {quizResult.badgesEarned?.map(badge => (
+                          <span key={badge.key} className="block mt-1">New badge: {badge.name}</span>
+                        ))}
                       </span>
                     ) : (
                       <span className="text-orange-600">
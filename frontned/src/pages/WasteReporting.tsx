@@ -1,12 +1,16 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { wasteService } from '../services/wasteService';
+import { wasteService, DuplicateCandidate } from '../services/wasteService';
+import { getErrorMessage } from '../services/api';
 import {
   Upload,
   AlertTriangle,
   CheckCircle,
   X,
-  Navigation
+  Navigation,
+  ThumbsUp,
+  MapPin,
+  Copy
 } from 'lucide-react';
 
 interface WasteReportForm {
@@ -27,6 +31,98 @@ interface WasteReportForm {
   };
 }
 
+interface DuplicatePromptProps {
+  duplicates: DuplicateCandidate[];
+  submitting: boolean;
+  onSupport: (candidate: DuplicateCandidate) => void;
+  onSubmitAnyway: () => void;
+  onCancel: () => void;
+}
+
+// Shown when the API finds open reports nearby that may be the same issue
+const DuplicatePrompt: React.FC<DuplicatePromptProps> = ({
+  duplicates,
+  submitting,
+  onSupport,
+  onSubmitAnyway,
+  onCancel
+}) => (
+  <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+    <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-y-auto">
+      <div className="p-6 border-b border-gray-200 flex items-start justify-between">
+        <div className="flex items-start">
+          <div className="w-10 h-10 bg-yellow-100 rounded-full flex items-center justify-center mr-3 flex-shrink-0">
+            <Copy className="h-5 w-5 text-yellow-600" />
+          </div>
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">Is this the same issue?</h2>
+            <p className="text-sm text-gray-600">
+              {duplicates.length === 1 ? 'A report' : `${duplicates.length} reports`} close to your location {duplicates.length === 1 ? 'is' : 'are'} already open.
+              Adding your confirmation helps workers prioritise it.
+            </p>
+          </div>
+        </div>
+        <button onClick={onCancel} className="text-gray-400 hover:text-gray-600" disabled={submitting}>
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {duplicates.map((candidate) => (
+          <div key={candidate._id} className="border border-gray-200 rounded-lg p-4">
+            <div className="flex space-x-3">
+              {candidate.images[0]?.url && (
+                <img
+                  src={wasteService.getImageUrl(candidate.images[0], 'thumb') || undefined}
+                  alt={candidate.images[0].originalName || 'Reported waste'}
+                  className="w-20 h-20 object-cover rounded-md border flex-shrink-0"
+                />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-semibold text-gray-900 capitalize">{candidate.wasteType} waste</span>
+                  <span className="text-xs text-gray-500 capitalize">{candidate.status.replace(/_/g, ' ')}</span>
+                </div>
+                <p className="text-sm text-gray-700 mt-1 line-clamp-2">{candidate.description}</p>
+                <p className="text-xs text-gray-500 mt-1 flex items-center">
+                  <MapPin className="h-3 w-3 mr-1" />
+                  {candidate.distanceMeters} m away • {new Date(candidate.createdAt).toLocaleDateString()}
+                  {candidate.supporterCount > 0 && ` • ${candidate.supporterCount} confirmation(s)`}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={() => onSupport(candidate)}
+              disabled={submitting}
+              className="mt-3 w-full flex items-center justify-center px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 text-sm"
+            >
+              <ThumbsUp className="h-4 w-4 mr-2" />
+              Yes, add my +1 and photos to this report
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-6 border-t border-gray-200 flex justify-between">
+        <button
+          onClick={onCancel}
+          disabled={submitting}
+          className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50 text-sm"
+        >
+          Back to form
+        </button>
+        <button
+          onClick={onSubmitAnyway}
+          disabled={submitting}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 text-sm"
+        >
+          {submitting ? 'Submitting...' : 'No, submit as a new report'}
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
 const WasteReporting: React.FC = () => {
   const navigate = useNavigate();
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -54,6 +150,8 @@ const WasteReporting: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState(false);
+  const [duplicates, setDuplicates] = useState<DuplicateCandidate[]>([]);
+  const [supportedExisting, setSupportedExisting] = useState(false);
   const [gettingLocation, setGettingLocation] = useState(false);
 
   const wasteTypes = [
@@ -209,6 +307,10 @@ const WasteReporting: React.FC = () => {
 
     if (!validateForm()) return;
 
+    await submitReport(false);
+  };
+
+  const submitReport = async (ignoreDuplicates: boolean) => {
     setLoading(true);
     setError('');
 
@@ -231,14 +333,19 @@ const WasteReporting: React.FC = () => {
         fileListToSend = dt.files;
       }
 
-      await wasteService.createReport(reportData, fileListToSend);
+      await wasteService.createReport(reportData, fileListToSend, { ignoreDuplicates });
       
+      setDuplicates([]);
       setSuccess(true);
       setTimeout(() => {
         navigate('/dashboard');
       }, 2000);
       
     } catch (err: any) {
+      if (err.response?.data?.code === 'POSSIBLE_DUPLICATE') {
+        setDuplicates(err.response.data.data?.duplicates || []);
+        return;
+      }
       console.error('Submit error:', err);
       setError(err.response?.data?.message || err.message || 'Failed to submit waste report');
     } finally {
@@ -246,6 +353,28 @@ const WasteReporting: React.FC = () => {
     }
   };
 
+  const supportExisting = async (candidate: DuplicateCandidate) => {
+    setLoading(true);
+    setError('');
+
+    try {
+      await wasteService.supportReport(candidate._id, formData.description, selectedFiles);
+
+      setDuplicates([]);
+      setSupportedExisting(true);
+      setSuccess(true);
+      setTimeout(() => {
+        navigate('/dashboard');
+      }, 2000);
+    } catch (err) {
+      console.error('Support report error:', err);
+      setDuplicates([]);
+      setError(getErrorMessage(err, 'Failed to add your confirmation to the existing report'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
   if (success) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
@@ -253,9 +382,13 @@ const WasteReporting: React.FC = () => {
           <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
             <CheckCircle className="h-8 w-8 text-green-600" />
           </div>
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">Report Submitted!</h2>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            {supportedExisting ? 'Confirmation Added!' : 'Report Submitted!'}
+          </h2>
           <p className="text-gray-600 mb-4">
-            Your waste report has been successfully submitted with {selectedFiles.length} image(s). You'll earn reward points once it's processed.
+            {supportedExisting
+              ? `Thanks for confirming this issue${selectedFiles.length > 0 ? ` with ${selectedFiles.length} image(s)` : ''}. It has been added to the existing report.`
+              : `Your waste report has been successfully submitted with ${selectedFiles.length} image(s). You'll earn reward points once it's processed.`}
           </p>
           <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-green-500 mx-auto"></div>
           <p className="text-sm text-gray-500 mt-2">Redirecting to dashboard...</p>
@@ -565,6 +698,16 @@ const WasteReporting: React.FC = () => {
           </div>
         </form>
       </div>
+
+      {duplicates.length > 0 && (
+        <DuplicatePrompt
+          duplicates={duplicates}
+          submitting={loading}
+          onSupport={supportExisting}
+          onSubmitAnyway={() => submitReport(true)}
+          onCancel={() => setDuplicates([])}
+        />
+      )}
     </div>
   );
 };
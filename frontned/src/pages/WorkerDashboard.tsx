@@ -1,8 +1,22 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-import { wasteService } from '../services/wasteService';
+import { useCan } from '../hooks/useCan';
+import { useReportUpdates } from '../hooks/useReportUpdates';
+import { wasteService, ReportTransition, ReportImage, ImageSize } from '../services/wasteService';
+import { getErrorMessage } from '../services/api';
+import { vehicleService, Vehicle, TelemetryFix } from '../services/vehicleService';
+import { routeService, CollectionRoute, RouteStop, StopStatus } from '../services/routeService';
+import RouteStops from '../components/RouteStops';
+import ReportTimeline from '../components/ReportTimeline';
+import CollectionProof from '../components/CollectionProof';
+import ImageChecks from '../components/ImageChecks';
+import DuplicateCandidates from '../components/DuplicateCandidates';
+import TeamQueue from '../components/TeamQueue';
+import { teamService, Team, TeamKpis } from '../services/teamService';
 import { 
   MapPin, 
+  Gavel,
   Clock, 
   CheckCircle,
   Truck,
@@ -16,7 +30,10 @@ import {
   Eye,
   Plus,
   Users,
-  Package
+  Package,
+  Camera,
+  Send,
+  Route as RouteIcon
 } from 'lucide-react';
 
 interface AssignedReport {
@@ -57,6 +74,11 @@ interface AssignedReport {
     name: string;
     email?: string;
   };
+  assignedVehicle?: {
+    _id: string;
+    vehicleId: string;
+    type: string;
+  } | null;
   actualCollection?: {
     date: string;
     worker: {
@@ -64,27 +86,176 @@ interface AssignedReport {
       name: string;
     };
     notes?: string;
+    beforeImages?: ReportImage[];
+    afterImages?: ReportImage[];
   };
   notes?: string;
+  reopenCount?: number;
+  // Supervisor sign-off of team work
+  completionReview?: {
+    status?: 'pending' | 'approved' | 'returned';
+    notes?: string;
+  };
+  dispatchOffer?: {
+    worker?: string | null;
+    offeredAt?: string;
+  };
+  allowedTransitions?: ReportTransition[];
 }
 
+const TRANSITION_BUTTON_COLORS: Record<string, string> = {
+  acknowledged: 'bg-gray-600 hover:bg-gray-700',
+  in_progress: 'bg-blue-600 hover:bg-blue-700',
+  completed: 'bg-green-600 hover:bg-green-700',
+  verified: 'bg-emerald-600 hover:bg-emerald-700',
+  rejected: 'bg-red-600 hover:bg-red-700'
+};
+
+// GPS fixes are sent to the server in batches
+const TELEMETRY_FLUSH_MS = 30000;
+const TELEMETRY_MAX_BUFFER = 500;
+const TELEMETRY_MOVING_KMH = 5;
+
 const WorkerDashboard: React.FC = () => {
   const { user, loading: authLoading } = useAuth();
+  const can = useCan();
+  const supervises = can('team.supervise');
+  const canClaim = can('report.claim');
   const [reports, setReports] = useState<AssignedReport[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [filter, setFilter] = useState('all');
-  const [viewMode, setViewMode] = useState<'my' | 'all'>('my');
+  const [viewMode, setViewMode] = useState<'my' | 'team' | 'all'>(() => (supervises ? 'team' : 'my'));
   const [selectedReport, setSelectedReport] = useState<AssignedReport | null>(null);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [trackingReport, setTrackingReport] = useState<AssignedReport | null>(null);
+  const [proofRequest, setProofRequest] = useState<{ report: AssignedReport; transition: ReportTransition } | null>(null);
+  const [myVehicle, setMyVehicle] = useState<Vehicle | null>(null);
+  const [myRoutes, setMyRoutes] = useState<CollectionRoute[]>([]);
+  const [routeActionStop, setRouteActionStop] = useState<string | null>(null);
+  const [team, setTeam] = useState<Team | null>(null);
+  const [teamKpis, setTeamKpis] = useState<TeamKpis | null>(null);
+  // Bumped after supervisor actions so the KPIs are fetched again
+  const [teamRevision, setTeamRevision] = useState(0);
+  // Bumped when other people change reports, so the list is fetched again
+  const [liveRevision, setLiveRevision] = useState(0);
 
   useEffect(() => {
     if (user && user._id) {
       loadReports();
     }
-  }, [filter, viewMode, user]);
+  }, [filter, viewMode, user, liveRevision]);
+
+  const liveError = useReportUpdates((updates) => {
+    const others = updates.filter(update => update.actor !== user?._id);
+    if (others.length === 0) return;
+
+    // Reports someone else just took stop being claimable before the reload
+    const taken = new Map(others
+      .filter(update => update.report.assignedWorker && update.report.assignedWorker !== user?._id)
+      .map(update => [update.report._id, update.report.assignedWorker as string]));
+    if (taken.size > 0) {
+      setReports(current => current.map(report => !report.assignedWorker && taken.has(report._id)
+        ? { ...report, assignedWorker: { _id: taken.get(report._id) as string, name: 'another worker' } }
+        : report));
+    }
+
+    setLiveRevision(revision => revision + 1);
+    if (supervises) setTeamRevision(revision => revision + 1);
+  });
+
+  useEffect(() => {
+    if (!user?._id || !supervises) return;
+
+    let cancelled = false;
+    teamService
+      .getMyTeam()
+      .then(async (myTeam) => {
+        if (cancelled) return;
+        setTeam(myTeam);
+        const kpis = myTeam ? await teamService.getTeamKpis(myTeam._id) : null;
+        if (!cancelled) setTeamKpis(kpis);
+      })
+      .catch((err) => console.warn('Could not load team:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?._id, supervises, teamRevision]);
+
+  // Share the current position so auto-dispatch can offer nearby reports
+  useEffect(() => {
+    if (!user?._id || !navigator.geolocation) return;
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        wasteService
+          .updateMyLocation(position.coords.longitude, position.coords.latitude)
+          .catch((err) => console.warn('Could not share location:', err));
+      },
+      () => undefined,
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  }, [user?._id]);
+
+  useEffect(() => {
+    if (!user?._id) return;
+
+    vehicleService
+      .getMyVehicle()
+      .then(setMyVehicle)
+      .catch((err) => console.warn('Could not load vehicle:', err));
+  }, [user?._id]);
+
+  useEffect(() => {
+    if (!user?._id) return;
+
+    routeService
+      .getMyRoutes()
+      .then(setMyRoutes)
+      .catch((err) => console.warn('Could not load route:', err));
+  }, [user?._id]);
+
+  // While driving a vehicle, stream GPS fixes to it in batches
+  useEffect(() => {
+    if (!myVehicle || !navigator.geolocation) return;
+
+    let buffer: TelemetryFix[] = [];
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        const speedKmh = position.coords.speed !== null ? position.coords.speed * 3.6 : undefined;
+        buffer.push({
+          coordinates: [position.coords.longitude, position.coords.latitude],
+          timestamp: new Date(position.timestamp).toISOString(),
+          speed: speedKmh,
+          heading: position.coords.heading ?? undefined,
+          accuracy: position.coords.accuracy,
+          activity: speedKmh !== undefined && speedKmh > TELEMETRY_MOVING_KMH ? 'driving' : 'idle'
+        });
+      },
+      () => undefined,
+      { enableHighAccuracy: true, maximumAge: 5000 }
+    );
+
+    const flush = () => {
+      if (buffer.length === 0) return;
+      const fixes = buffer;
+      buffer = [];
+      vehicleService.sendTelemetry(myVehicle._id, fixes).catch((err) => {
+        console.warn('Could not send telemetry:', err);
+        // Keep the fixes for the next attempt
+        buffer = [...fixes, ...buffer].slice(-TELEMETRY_MAX_BUFFER);
+      });
+    };
+    const timer = setInterval(flush, TELEMETRY_FLUSH_MS);
+
+    return () => {
+      navigator.geolocation.clearWatch(watchId);
+      clearInterval(timer);
+      flush();
+    };
+  }, [myVehicle]);
 
   const loadReports = async () => {
     if (!user || !user._id) {
@@ -157,13 +328,84 @@ const WorkerDashboard: React.FC = () => {
     }
   };
 
+  const declineOffer = async (reportId: string) => {
+    const reason = window.prompt('Why are you declining this task? (optional)');
+    if (reason === null) return;
+
+    setActionLoading(reportId);
+    
+    try {
+      await wasteService.declineOffer(reportId, reason.trim() || undefined);
+      
+      setSuccessMessage('Offer declined. The task will be offered to another worker.');
+      await loadReports();
+      setSelectedReport(null);
+      
+      setTimeout(() => setSuccessMessage(null), 3000);
+      
+    } catch (error) {
+      console.error('Error declining offer:', error);
+      setError(getErrorMessage(error, 'Failed to decline offer'));
+      setTimeout(() => setError(null), 5000);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const updateRouteStop = async (route: CollectionRoute, stop: RouteStop, status: Exclude<StopStatus, 'pending'>) => {
+    const notes = status === 'skipped' ? window.prompt('Why is this stop skipped? (optional)') : undefined;
+    if (notes === null) return;
+
+    setRouteActionStop(stop._id);
+
+    try {
+      const response = await routeService.updateStop(route._id, stop._id, status, notes?.trim() || undefined);
+      setMyRoutes(current => current.map(r => (r._id === route._id ? response.data.route : r)));
+      setSuccessMessage(response.message || 'Stop updated');
+      setTimeout(() => setSuccessMessage(null), 3000);
+    } catch (error) {
+      console.error('Error updating route stop:', error);
+      setError(getErrorMessage(error, 'Failed to update stop'));
+      setTimeout(() => setError(null), 5000);
+    } finally {
+      setRouteActionStop(null);
+    }
+  };
+
   const updateReportStatus = async (reportId: string, newStatus: string, notes?: string) => {
+    const report = reports.find(r => r._id === reportId) || selectedReport;
+    const transition = report && wasteService
+      .getStatusTransitions(report)
+      .find(t => t.status === newStatus);
+
+    if (!transition) {
+      setError(`This report cannot be moved to ${newStatus.replace(/_/g, ' ')}`);
+      setTimeout(() => setError(null), 5000);
+      return;
+    }
+
+    // Starting and finishing a job go through the proof photo step first
+    if (newStatus === 'in_progress' || transition.requires.includes('afterImages')) {
+      setProofRequest({ report: report as AssignedReport, transition });
+      return;
+    }
+
+    if (transition.requires.includes('notes') && !notes?.trim()) {
+      const reason = window.prompt(`Please give a reason to ${transition.label.toLowerCase()} this report:`);
+      if (!reason?.trim()) return;
+      notes = reason.trim();
+    }
+
+    await submitStatusChange(reportId, newStatus, notes);
+  };
+
+  const submitStatusChange = async (reportId: string, newStatus: string, notes?: string) => {
     setActionLoading(reportId);
     
     try {
       await wasteService.updateReportStatus(reportId, newStatus, notes);
       
-      setSuccessMessage(`Report status updated to ${newStatus}!`);
+      setSuccessMessage(`Report status updated to ${newStatus.replace(/_/g, ' ')}!`);
       await loadReports();
       setSelectedReport(null);
       
@@ -171,7 +413,96 @@ const WorkerDashboard: React.FC = () => {
       
     } catch (error) {
       console.error('Error updating report status:', error);
-      setError('Failed to update report status');
+      setError(getErrorMessage(error, 'Failed to update report status'));
+      setTimeout(() => setError(null), 5000);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const submitWithProof = async (photos: File[], notes: string) => {
+    if (!proofRequest) return;
+    const { report, transition } = proofRequest;
+    const stage = transition.status === 'in_progress' ? 'before' : 'after';
+
+    if (photos.length > 0) {
+      setActionLoading(report._id);
+      try {
+        await wasteService.uploadCollectionPhotos(report._id, stage, photos);
+      } catch (error) {
+        console.error('Error uploading collection photos:', error);
+        setError(getErrorMessage(error, 'Failed to upload photos'));
+        setTimeout(() => setError(null), 5000);
+        setActionLoading(null);
+        return;
+      }
+    }
+
+    setProofRequest(null);
+    await submitStatusChange(report._id, transition.status, notes.trim() || undefined);
+  };
+
+  const mergeReport = async (reportId: string, parentId: string) => {
+    if (!window.confirm('Merge this report into the selected one? Its reporter will be added as a supporter.')) return;
+
+    setActionLoading(reportId);
+    
+    try {
+      await wasteService.mergeReport(reportId, parentId);
+      
+      setSuccessMessage('Report merged into the existing report');
+      await loadReports();
+      setSelectedReport(null);
+      
+      setTimeout(() => setSuccessMessage(null), 3000);
+      
+    } catch (error) {
+      console.error('Error merging report:', error);
+      setError(getErrorMessage(error, 'Failed to merge report'));
+      setTimeout(() => setError(null), 5000);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const reassignInTeam = async (report: AssignedReport, workerId: string) => {
+    setActionLoading(report._id);
+
+    try {
+      const response = await wasteService.reassignWithinTeam(report._id, workerId);
+      setSuccessMessage(response.message || 'Report reassigned');
+      await loadReports();
+      setTeamRevision(revision => revision + 1);
+      setTimeout(() => setSuccessMessage(null), 3000);
+    } catch (error) {
+      console.error('Error reassigning report:', error);
+      setError(getErrorMessage(error, 'Failed to reassign report'));
+      setTimeout(() => setError(null), 5000);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const reviewCompletion = async (report: AssignedReport, decision: 'approve' | 'return') => {
+    let notes: string | undefined;
+    if (decision === 'return') {
+      const reason = window.prompt('What still needs to be done? The worker will see this.');
+      if (!reason?.trim()) return;
+      notes = reason.trim();
+    }
+
+    setActionLoading(report._id);
+
+    try {
+      const response = await wasteService.reviewCompletion(report._id, decision, notes);
+      setSuccessMessage(response.message || 'Review saved');
+      await loadReports();
+      setSelectedReport(null);
+      setTeamRevision(revision => revision + 1);
+      setTimeout(() => setSuccessMessage(null), 3000);
+    } catch (error) {
+      console.error('Error reviewing completion:', error);
+      setError(getErrorMessage(error, 'Failed to review completion'));
       setTimeout(() => setError(null), 5000);
     } finally {
       setActionLoading(null);
@@ -191,9 +522,13 @@ const WorkerDashboard: React.FC = () => {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'reported': return 'text-gray-600 bg-gray-100';
+      case 'acknowledged': return 'text-yellow-600 bg-yellow-100';
       case 'assigned': return 'text-orange-600 bg-orange-100';
       case 'in_progress': return 'text-blue-600 bg-blue-100';
       case 'completed': return 'text-green-600 bg-green-100';
+      case 'verified': return 'text-emerald-700 bg-emerald-100';
+      case 'rejected': return 'text-red-600 bg-red-100';
+      case 'merged': return 'text-gray-500 bg-gray-200';
       default: return 'text-gray-600 bg-gray-100';
     }
   };
@@ -235,19 +570,18 @@ const WorkerDashboard: React.FC = () => {
     return `Coordinates: ${location.coordinates[1]?.toFixed(4)}, ${location.coordinates[0]?.toFixed(4)}`;
   };
 
-  const getImageUrl = (filename: string) => {
-    const token = localStorage.getItem('token');
-    const baseUrl = import.meta.env.VITE_API_URL || 'http://localhost:5000';
-    const imageUrl = `${baseUrl}/api/waste/image/${filename}${token ? `?token=${token}` : ''}`;
-    return imageUrl;
-  };
+  const getImageUrl = (image: ReportImage, size?: ImageSize) => wasteService.getImageUrl(image, size) || undefined;
 
   const myReports = reports.filter(r => r.assignedWorker?._id === user?._id);
-  const availableReports = reports.filter(r => !r.assignedWorker);
+  const offeredReports = reports.filter(r => !r.assignedWorker && r.dispatchOffer?.worker === user?._id);
+  // Reports offered to someone else by auto-dispatch are not up for grabs
+  const availableReports = reports.filter(r => !r.assignedWorker && !r.dispatchOffer?.worker);
   const otherWorkersReports = reports.filter(r => r.assignedWorker && r.assignedWorker._id !== user?._id);
 
-  const myPendingReports = myReports.filter(r => r.status === 'assigned' || r.status === 'in_progress');
-  const myCompletedReports = myReports.filter(r => r.status === 'completed');
+  // Stat cards count the team's work in the team view
+  const cardReports = viewMode === 'team' ? reports.filter(r => r.assignedWorker) : myReports;
+  const myPendingReports = cardReports.filter(r => r.status === 'assigned' || r.status === 'in_progress');
+  const myCompletedReports = cardReports.filter(r => r.status === 'completed');
 
   if (loading || authLoading) {
     return (
@@ -267,7 +601,15 @@ const WorkerDashboard: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <h1 className="text-3xl font-bold text-gray-900 mb-2">Welcome, {user?.name}</h1>
-              <p className="text-gray-600">Manage your waste collection tasks</p>
+              <p className="text-gray-600">
+                {supervises ? "Manage your team's waste collection tasks" : 'Manage your waste collection tasks'}
+              </p>
+              {myVehicle && (
+                <p className="text-sm text-gray-500 mt-1 flex items-center">
+                  <Navigation className="h-4 w-4 mr-1" />
+                  Driving {myVehicle.vehicleId} • location shared while this page is open
+                </p>
+              )}
             </div>
             <button
               onClick={loadReports}
@@ -289,6 +631,12 @@ const WorkerDashboard: React.FC = () => {
           </div>
         )}
 
+        {liveError && (
+          <div className="mb-6 bg-yellow-50 border border-yellow-300 text-yellow-800 px-4 py-3 rounded-lg">
+            Live updates are off: {liveError}
+          </div>
+        )}
+
         {error && (
           <div className="mb-6 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg flex items-center justify-between">
             <div className="flex items-center">
@@ -306,8 +654,8 @@ const WorkerDashboard: React.FC = () => {
             <div className="flex items-center">
               <Truck className="h-8 w-8 text-blue-600" />
               <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">My Tasks</p>
-                <p className="text-2xl font-bold text-gray-900">{myReports.length}</p>
+                <p className="text-sm font-medium text-gray-600">{viewMode === 'team' ? 'Team Tasks' : 'My Tasks'}</p>
+                <p className="text-2xl font-bold text-gray-900">{cardReports.length}</p>
               </div>
             </div>
           </div>
@@ -343,23 +691,60 @@ const WorkerDashboard: React.FC = () => {
           </div>
         </div>
 
+        {myRoutes.map(route => (
+          <div key={route._id} className="bg-white rounded-lg shadow-md mb-6 p-6">
+            <div className="flex items-center justify-between flex-wrap gap-2 mb-4">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                <RouteIcon className="h-5 w-5 mr-2 text-green-600" />
+                Today's Route • {route.vehicle.vehicleId}
+              </h3>
+              <p className="text-sm text-gray-500">
+                {routeService.getRemainingStops(route).length} of {route.stops.length} stops left
+                {' • '}{(route.totalDistanceMeters / 1000).toFixed(1)} km
+                {' • '}ends at {route.endFacility.name}
+                {route.status === 'completed' && ' • completed'}
+              </p>
+            </div>
+            <RouteStops
+              route={route}
+              busyStopId={routeActionStop}
+              onStopAction={(stop, status) => updateRouteStop(route, stop, status)}
+            />
+          </div>
+        ))}
+
         <div className="bg-white rounded-lg shadow-md mb-6">
           <div className="border-b border-gray-200 p-6">
             <div className="flex items-center justify-between flex-wrap gap-4">
               <div className="flex items-center space-x-4">
                 <Filter className="h-5 w-5 text-gray-400" />
                 <div className="flex gap-2">
-                  <button
-                    onClick={() => setViewMode('my')}
-                    className={`px-4 py-2 rounded-md text-sm font-medium ${
-                      viewMode === 'my'
-                        ? 'bg-green-600 text-white'
-                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                    }`}
-                  >
-                    <Truck className="h-4 w-4 inline mr-1" />
-                    My Tasks ({myReports.length})
-                  </button>
+                  {supervises && (
+                    <button
+                      onClick={() => setViewMode('team')}
+                      className={`px-4 py-2 rounded-md text-sm font-medium ${
+                        viewMode === 'team'
+                          ? 'bg-green-600 text-white'
+                          : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      <Users className="h-4 w-4 inline mr-1" />
+                      My Team
+                    </button>
+                  )}
+                  {canClaim && (
+                    <button
+                      onClick={() => setViewMode('my')}
+                      className={`px-4 py-2 rounded-md text-sm font-medium ${
+                        viewMode === 'my'
+                          ? 'bg-green-600 text-white'
+                          : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      <Truck className="h-4 w-4 inline mr-1" />
+                      My Tasks ({myReports.length})
+                    </button>
+                  )}
                   <button
                     onClick={() => setViewMode('all')}
                     className={`px-4 py-2 rounded-md text-sm font-medium ${
@@ -395,7 +780,57 @@ const WorkerDashboard: React.FC = () => {
           </div>
 
           <div className="divide-y divide-gray-200">
-            {viewMode === 'my' && myReports.length > 0 ? (
+            {offeredReports.length > 0 && (
+              <div className="p-6 bg-indigo-50">
+                <h3 className="text-lg font-semibold text-indigo-900 mb-4 flex items-center">
+                  <Send className="h-5 w-5 mr-2" />
+                  Offered to You ({offeredReports.length})
+                </h3>
+                <div className="space-y-4">
+                  {offeredReports.map(report => (
+                    <ReportCard
+                      key={report._id}
+                      report={report}
+                      user={user}
+                      onClaim={claimReport}
+                      onDecline={declineOffer}
+                      onUpdateStatus={updateReportStatus}
+                      onViewDetails={setSelectedReport}
+                      onTrack={openLocationTracker}
+                      actionLoading={actionLoading}
+                      getStatusColor={getStatusColor}
+                      getSeverityColor={getSeverityColor}
+                      getStatusIcon={getStatusIcon}
+                      formatDate={formatDate}
+                      formatLocation={formatLocation}
+                      getImageUrl={getImageUrl}
+                      isOffer
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {viewMode === 'team' ? (
+              team ? (
+                <TeamQueue
+                  team={team}
+                  kpis={teamKpis}
+                  reports={reports}
+                  busyReportId={actionLoading}
+                  onReassign={reassignInTeam}
+                  onReview={reviewCompletion}
+                  onViewDetails={setSelectedReport}
+                  formatLocation={formatLocation}
+                />
+              ) : (
+                <div className="text-center py-12">
+                  <Users className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">No team yet</h3>
+                  <p className="text-gray-500">An administrator has not put you in charge of a team.</p>
+                </div>
+              )
+            ) : viewMode === 'my' && myReports.length > 0 ? (
               myReports.map(report => (
                 <ReportCard
                   key={report._id}
@@ -439,7 +874,7 @@ const WorkerDashboard: React.FC = () => {
                           formatDate={formatDate}
                           formatLocation={formatLocation}
                           getImageUrl={getImageUrl}
-                          showClaimButton
+                          showClaimButton={canClaim}
                         />
                       ))}
                     </div>
@@ -505,13 +940,13 @@ const WorkerDashboard: React.FC = () => {
                   </div>
                 )}
               </>
-            ) : (
+            ) : offeredReports.length === 0 ? (
               <div className="text-center py-12">
                 <Truck className="mx-auto h-12 w-12 text-gray-400 mb-4" />
                 <h3 className="text-lg font-medium text-gray-900 mb-2">No reports found</h3>
                 <p className="text-gray-500">No tasks available at the moment.</p>
               </div>
-            )}
+            ) : null}
           </div>
         </div>
 
@@ -530,6 +965,7 @@ const WorkerDashboard: React.FC = () => {
             user={user}
             onClose={() => setSelectedReport(null)}
             onUpdateStatus={updateReportStatus}
+            onMerge={mergeReport}
             onTrack={openLocationTracker}
             onGetDirections={getDirectionsToLocation}
             actionLoading={actionLoading}
@@ -541,6 +977,16 @@ const WorkerDashboard: React.FC = () => {
             getImageUrl={getImageUrl}
           />
         )}
+
+        {proofRequest && (
+          <ProofModal
+            report={proofRequest.report}
+            transition={proofRequest.transition}
+            submitting={actionLoading === proofRequest.report._id}
+            onClose={() => setProofRequest(null)}
+            onSubmit={submitWithProof}
+          />
+        )}
       </div>
     </div>
   );
@@ -560,13 +1006,15 @@ const ReportCard: React.FC<any> = ({
   formatDate,
   formatLocation,
   getImageUrl,
+  onDecline,
   showClaimButton = false,
+  isOffer = false,
   readOnly = false
 }) => {
   const isMyReport = report.assignedWorker?._id === user?._id;
   
   return (
-    <div className={`p-6 hover:bg-gray-50 transition-colors ${showClaimButton ? 'border-2 border-purple-200' : ''}`}>
+    <div className={`p-6 hover:bg-gray-50 transition-colors ${showClaimButton ? 'border-2 border-purple-200' : ''} ${isOffer ? 'border-2 border-indigo-200 bg-white' : ''}`}>
       <div className="flex items-start justify-between">
         <div className="flex-1">
           <div className="flex items-center space-x-3 mb-2">
@@ -580,6 +1028,19 @@ const ReportCard: React.FC<any> = ({
             <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${getSeverityColor(report.severity)}`}>
               {report.severity}
             </span>
+            {report.reopenCount > 0 && (
+              <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full text-red-700 bg-red-100">
+                Reopened {report.reopenCount}×
+              </span>
+            )}
+            {report.status === 'in_progress' && report.completionReview?.status === 'returned' && (
+              <span
+                className="inline-flex px-2 py-1 text-xs font-semibold rounded-full text-orange-700 bg-orange-100"
+                title={report.completionReview.notes}
+              >
+                Sent back by supervisor
+              </span>
+            )}
           </div>
           
           <p className="text-gray-600 mb-3 line-clamp-2">{report.description}</p>
@@ -627,25 +1088,42 @@ const ReportCard: React.FC<any> = ({
             </button>
           )}
 
-          {!readOnly && isMyReport && report.status === 'assigned' && (
-            <button
-              onClick={() => onUpdateStatus(report._id, 'in_progress')}
-              disabled={actionLoading === report._id}
-              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm"
-            >
-              {actionLoading === report._id ? <RefreshCw className="h-4 w-4 animate-spin" /> : 'Start Task'}
-            </button>
+          {isOffer && (
+            <>
+              <button
+                onClick={() => onClaim(report._id)}
+                disabled={actionLoading === report._id}
+                className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50 text-sm flex items-center justify-center min-w-[120px]"
+              >
+                {actionLoading === report._id ? (
+                  <RefreshCw className="h-4 w-4 animate-spin" />
+                ) : (
+                  <>
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    Accept Task
+                  </>
+                )}
+              </button>
+              <button
+                onClick={() => onDecline(report._id)}
+                disabled={actionLoading === report._id}
+                className="px-4 py-2 border border-indigo-300 text-indigo-700 rounded-md hover:bg-indigo-50 disabled:opacity-50 text-sm"
+              >
+                Decline
+              </button>
+            </>
           )}
-          
-          {!readOnly && isMyReport && report.status === 'in_progress' && (
+
+          {!readOnly && isMyReport && wasteService.getStatusTransitions(report).map((transition: ReportTransition) => (
             <button
-              onClick={() => onUpdateStatus(report._id, 'completed')}
+              key={transition.status}
+              onClick={() => onUpdateStatus(report._id, transition.status)}
               disabled={actionLoading === report._id}
-              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 text-sm"
+              className={`px-4 py-2 text-white rounded-md disabled:opacity-50 text-sm ${TRANSITION_BUTTON_COLORS[transition.status] || 'bg-gray-600 hover:bg-gray-700'}`}
             >
-              {actionLoading === report._id ? <RefreshCw className="h-4 w-4 animate-spin" /> : 'Complete'}
+              {actionLoading === report._id ? <RefreshCw className="h-4 w-4 animate-spin" /> : transition.label}
             </button>
-          )}
+          ))}
           
           <button
             onClick={() => onTrack(report)}
@@ -667,8 +1145,8 @@ const ReportCard: React.FC<any> = ({
       
       {report.images && report.images.length > 0 && (
         <div className="mt-4 flex space-x-2 overflow-x-auto">
-          {report.images.slice(0, 4).map((image: any, index: number) => {
-            const imageUrl = getImageUrl(image.filename);
+          {report.images.filter((image: ReportImage) => image.url).slice(0, 4).map((image: ReportImage, index: number) => {
+            const imageUrl = getImageUrl(image, 'thumb');
             return (
               <img
                 key={index}
@@ -737,6 +1215,7 @@ const DetailModal: React.FC<any> = ({
   user,
   onClose,
   onUpdateStatus,
+  onMerge,
   onTrack,
   onGetDirections,
   actionLoading,
@@ -747,6 +1226,7 @@ const DetailModal: React.FC<any> = ({
   formatLocation,
   getImageUrl
 }) => {
+  const can = useCan();
   const isMyReport = report.assignedWorker?._id === user?._id;
   
   return (
@@ -817,6 +1297,14 @@ const DetailModal: React.FC<any> = ({
                     <p className="font-medium">{report.assignedWorker.name}</p>
                   </div>
                 )}
+
+                {report.assignedVehicle && (
+                  <div>
+                    <label className="text-sm font-medium text-gray-500 block">Vehicle</label>
+                    <p className="font-medium">{report.assignedVehicle.vehicleId}</p>
+                    <p className="text-sm text-gray-500 capitalize">{report.assignedVehicle.type.replace(/_/g, ' ')}</p>
+                  </div>
+                )}
               </div>
             </div>
             
@@ -865,17 +1353,23 @@ const DetailModal: React.FC<any> = ({
                 </div>
               </div>
             )}
+            <CollectionProof
+              beforeImages={report.actualCollection?.beforeImages}
+              afterImages={report.actualCollection?.afterImages}
+              showChecks
+            />
+
             {report.images && report.images.length > 0 && (
               <div>
                 <label className="text-sm font-medium text-gray-500 block mb-3">Images ({report.images.length})</label>
                 <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
-                  {report.images.map((image: any, index: number) => (
+                  {report.images.filter((image: ReportImage) => image.url).map((image: ReportImage, index: number) => (
                     <div key={index} className="relative group">
                       <img
-                        src={getImageUrl(image.filename)}
+                        src={getImageUrl(image, 'medium')}
                         alt={image.originalName || `Report image ${index + 1}`}
                         className="w-full h-48 object-cover rounded-lg border cursor-pointer hover:opacity-90 transition-opacity"
-                        onClick={() => window.open(getImageUrl(image.filename), '_blank')}
+                        onClick={() => window.open(getImageUrl(image), '_blank')}
                         onError={(e) => {
                           const target = e.target as HTMLImageElement;
                           target.src = 'data:image/svg+xml,%3Csvg xmlns="http://www.w3.org/2000/svg" width="200" height="200"%3E%3Crect width="200" height="200" fill="%23f3f4f6"/%3E%3Ctext x="50%25" y="50%25" text-anchor="middle" dy=".3em" fill="%239ca3af" font-size="14"%3EImage Error%3C/text%3E%3C/svg%3E';
@@ -887,37 +1381,40 @@ const DetailModal: React.FC<any> = ({
                           <p className="text-gray-300">{(image.size / 1024).toFixed(1)} KB</p>
                         )}
                       </div>
+                      <div className="absolute top-1 left-2 right-2">
+                        <ImageChecks image={image} />
+                      </div>
                     </div>
                   ))}
                 </div>
               </div>
             )}
+
+            {wasteService.canMerge(report) && (
+              <DuplicateCandidates
+                reportId={report._id}
+                merging={actionLoading === report._id}
+                onMerge={(parentId) => onMerge(report._id, parentId)}
+              />
+            )}
+
+            <ReportTimeline reportId={report._id} />
           </div>
         </div>
         
         <div className="border-t p-6">
           <div className="flex flex-col sm:flex-row gap-3">
-            {isMyReport && report.status === 'assigned' && (
+            {isMyReport && wasteService.getStatusTransitions(report).map((transition: ReportTransition) => (
               <button
-                onClick={() => onUpdateStatus(report._id, 'in_progress')}
+                key={transition.status}
+                onClick={() => onUpdateStatus(report._id, transition.status)}
                 disabled={actionLoading === report._id}
-                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center justify-center"
+                className={`flex-1 px-4 py-2 text-white rounded-md disabled:opacity-50 flex items-center justify-center ${TRANSITION_BUTTON_COLORS[transition.status] || 'bg-gray-600 hover:bg-gray-700'}`}
               >
                 {actionLoading === report._id ? <RefreshCw className="h-4 w-4 animate-spin mr-2" /> : null}
-                Start Task
+                {transition.label}
               </button>
-            )}
-            
-            {isMyReport && report.status === 'in_progress' && (
-              <button
-                onClick={() => onUpdateStatus(report._id, 'completed')}
-                disabled={actionLoading === report._id}
-                className="flex-1 px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 flex items-center justify-center"
-              >
-                {actionLoading === report._id ? <RefreshCw className="h-4 w-4 animate-spin mr-2" /> : null}
-                Mark Complete
-              </button>
-            )}
+            ))}
             
             <button
               onClick={() => onTrack(report)}
@@ -926,6 +1423,16 @@ const DetailModal: React.FC<any> = ({
               <Navigation className="h-4 w-4 mr-2" />
               Track Location
             </button>
+
+            {can('penalty.issue') && (
+              <Link
+                to={`/admin/penalties?report=${report._id}`}
+                className="flex-1 px-4 py-2 border border-red-300 text-red-700 rounded-md hover:bg-red-50 flex items-center justify-center"
+              >
+                <Gavel className="h-4 w-4 mr-2" />
+                Issue Penalty
+              </Link>
+            )}
             
             <button
               onClick={onClose}
@@ -940,4 +1447,81 @@ const DetailModal: React.FC<any> = ({
   );
 };
 
+interface ProofModalProps {
+  report: AssignedReport;
+  transition: ReportTransition;
+  submitting: boolean;
+  onClose: () => void;
+  onSubmit: (photos: File[], notes: string) => void;
+}
+
+const ProofModal: React.FC<ProofModalProps> = ({ report, transition, submitting, onClose, onSubmit }) => {
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [notes, setNotes] = useState('');
+  const isCompletion = transition.status !== 'in_progress';
+  const existingAfterPhotos = report.actualCollection?.afterImages?.length || 0;
+  const photosRequired = isCompletion && existingAfterPhotos === 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-lg w-full">
+        <div className="border-b p-6 flex items-center justify-between">
+          <h2 className="text-xl font-semibold">{transition.label}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="text-sm font-medium text-gray-700 mb-2 flex items-center">
+              <Camera className="h-4 w-4 mr-1" />
+              {isCompletion ? 'After photos' : 'Before photos'}
+              {photosRequired ? ' (at least one required)' : ' (optional)'}
+            </label>
+            <input
+              type="file"
+              accept="image/*"
+              capture="environment"
+              multiple
+              onChange={(e) => setPhotos(Array.from(e.target.files || []).slice(0, 5))}
+              className="text-sm"
+            />
+            {isCompletion && existingAfterPhotos > 0 && (
+              <p className="text-xs text-gray-500 mt-1">{existingAfterPhotos} after photo(s) already uploaded</p>
+            )}
+          </div>
+
+          {isCompletion && (
+            <textarea
+              rows={3}
+              placeholder="Collection notes (optional)"
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          )}
+        </div>
+
+        <div className="border-t p-6 flex gap-3">
+          <button
+            onClick={() => onSubmit(photos, notes)}
+            disabled={submitting || (photosRequired && photos.length === 0)}
+            className={`flex-1 px-4 py-2 text-white rounded-md disabled:opacity-50 flex items-center justify-center ${TRANSITION_BUTTON_COLORS[transition.status] || 'bg-gray-600 hover:bg-gray-700'}`}
+          >
+            {submitting ? <RefreshCw className="h-4 w-4 animate-spin mr-2" /> : null}
+            {transition.label}
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 export default WorkerDashboard;
\ No newline at end of file
@@ -1,5 +1,113 @@
 import api from './api';
 
+export type WorkerSkill = 'general' | 'recycling' | 'organic' | 'electronic' | 'bulky' | 'hazardous' | 'medical';
+
+export const WORKER_SKILLS: WorkerSkill[] = ['general', 'recycling', 'organic', 'electronic', 'bulky', 'hazardous', 'medical'];
+
+export interface DispatchWeights {
+  distance: number;
+  workload: number;
+  skills: number;
+}
+
+// Zone as referenced by dispatch settings and decisions
+export interface DispatchZone {
+  _id: string;
+  name: string;
+  code?: string;
+  kind?: string;
+}
+
+// Auto-dispatch configuration of one zone; no zone: the default settings
+export interface DispatchSetting {
+  _id?: string;
+  zone: DispatchZone | null;
+  enabled: boolean;
+  mode: 'assign' | 'offer';
+  maxDistanceMeters: number;
+  weights: DispatchWeights;
+  updatedBy?: { _id: string; name: string };
+  updatedAt?: string;
+}
+
+// How one worker scored in a dispatch run
+export interface DispatchCandidate {
+  worker: string;
+  name: string;
+  eligible: boolean;
+  excludedReasons: string[];
+  distanceMeters: number | null;
+  locationSource: 'last_known' | 'address' | 'unknown';
+  openAssignments: number;
+  onShift: boolean;
+  matchedSkills: string[];
+  scores: DispatchWeights & { total: number };
+}
+
+export interface DispatchDecision {
+  _id: string;
+  report: string | {
+    _id: string;
+    wasteType: string;
+    category?: string;
+    severity?: string;
+    status: string;
+    description?: string;
+  };
+  zone: DispatchZone | null;
+  trigger: 'report_created' | 'offer_declined' | 'manual';
+  mode?: 'assign' | 'offer';
+  outcome: 'assigned' | 'offered' | 'no_candidate' | 'disabled';
+  selectedWorker?: { _id: string; name: string; email?: string } | null;
+  requiredSkills: string[];
+  preferredSkills: string[];
+  settings?: { maxDistanceMeters: number; weights: DispatchWeights };
+  candidates: DispatchCandidate[];
+  summary: string;
+  triggeredBy?: { _id: string; name: string } | null;
+  createdAt: string;
+}
+
+export interface WorkerProfile {
+  skills: WorkerSkill[];
+  shift?: {
+    days?: number[];
+    start?: string;
+    end?: string;
+  };
+  maxOpenAssignments?: number;
+  lastKnownLocation?: {
+    coordinates?: [number, number];
+    updatedAt?: string;
+  };
+}
+
+export interface DispatchWorker {
+  _id: string;
+  name: string;
+  email: string;
+  phone?: string;
+  isActive: boolean;
+  address?: { city?: string };
+  workerProfile?: WorkerProfile;
+}
+
+export interface PermissionInfo {
+  name: string;
+  description: string;
+}
+
+export interface RolePermissions {
+  permissions: PermissionInfo[];
+  // role -> permission names in this municipality
+  roles: Record<string, string[]>;
+  defaults: Record<string, string[]>;
+  // Permissions a role can't lose (admins keep permission.manage)
+  locked: Record<string, string[]>;
+  // Roles that no longer use the defaults
+  customised: string[];
+}
+
 class AdminService {
   async getDashboardData() {
     const response = await api.get('/admin/dashboard');
@@ -10,6 +118,7 @@ class AdminService {
     startDate?: string;
     endDate?: string;
     groupBy?: string;
+    zone?: string;
   }) {
     const response = await api.get('/admin/analytics/reports', { params });
     return response.data;
@@ -30,6 +139,68 @@ class AdminService {
     const response = await api.put(`/admin/users/${userId}/status`, { isActive });
     return response.data;
   }
+
+  // Auto-dispatch
+  async getDispatchSettings(): Promise<DispatchSetting[]> {
+    const response = await api.get('/admin/dispatch/settings');
+    return response.data?.data?.settings || [];
+  }
+
+  // `zone` is a zone id or 'default'
+  async updateDispatchSettings(zone: string, settings: Partial<Omit<DispatchSetting, 'zone'>>) {
+    const response = await api.put(`/admin/dispatch/settings/${encodeURIComponent(zone)}`, settings);
+    return response.data;
+  }
+
+  async deleteDispatchSettings(zone: string) {
+    const response = await api.delete(`/admin/dispatch/settings/${encodeURIComponent(zone)}`);
+    return response.data;
+  }
+
+  async getDispatchDecisions(params?: {
+    page?: number;
+    limit?: number;
+    outcome?: string;
+    zone?: string;
+  }) {
+    const response = await api.get('/admin/dispatch/decisions', { params });
+    return response.data;
+  }
+
+  async getReportDispatchDecisions(reportId: string): Promise<DispatchDecision[]> {
+    const response = await api.get(`/waste/reports/${reportId}/dispatch`);
+    return response.data?.data?.decisions || [];
+  }
+
+  async dispatchReport(reportId: string) {
+    const response = await api.post(`/waste/reports/${reportId}/dispatch`);
+    return response.data;
+  }
+
+  async getDispatchWorkers(): Promise<DispatchWorker[]> {
+    const response = await api.get('/admin/workers');
+    return response.data?.data?.workers || [];
+  }
+
+  async updateWorkerProfile(workerId: string, profile: Omit<WorkerProfile, 'lastKnownLocation'>) {
+    const response = await api.put(`/admin/workers/${workerId}/profile`, profile);
+    return response.data;
+  }
+
+  async getRolePermissions(): Promise<RolePermissions> {
+    const response = await api.get('/admin/permissions');
+    return response.data?.data;
+  }
+
+  async updateRolePermissions(role: string, permissions: string[]) {
+    const response = await api.put(`/admin/permissions/${role}`, { permissions });
+    return response.data;
+  }
+
+  async resetRolePermissions(role: string) {
+    const response = await api.delete(`/admin/permissions/${role}`);
+    return response.data;
+  }
 }
 
 export const adminService = new AdminService();
\ No newline at end of file
@@ -2,6 +2,9 @@ import axios from 'axios';
 
 const BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
 
+// Municipality picked on this device; falls back to the build's VITE_TENANT
+export const TENANT_STORAGE_KEY = 'tenant';
+
 // Create axios instance
 const api = axios.create({
   baseURL: BASE_URL,
@@ -21,6 +24,11 @@ api.interceptors.request.use(
       config.headers = config.headers || {};
       config.headers['Authorization'] = `Bearer ${token}`;
     }
+    const tenant = localStorage.getItem(TENANT_STORAGE_KEY) || import.meta.env.VITE_TENANT;
+    if (tenant) {
+      config.headers = config.headers || {};
+      config.headers['X-Tenant'] = tenant;
+    }
     return config;
   },
   (error) => Promise.reject(error)
@@ -57,4 +65,12 @@ api.interceptors.response.use(
   }
 );
 
+// Extract the server's error message from a failed request, if there is one
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.message || fallback;
+  }
+  return fallback;
+};
+
 export default api;
\ No newline at end of file
@@ -0,0 +1,85 @@
+import api from './api';
+
+export type BadgeMetric =
+  | 'reports_submitted'
+  | 'reports_verified'
+  | 'training_completed'
+  | 'training_category'
+  | 'reporting_streak'
+  | 'points_earned';
+
+export interface BadgeRule {
+  metric: BadgeMetric;
+  threshold: number;
+  // Training category, for training_category rules
+  category?: string;
+}
+
+export interface Badge {
+  _id: string;
+  key: string;
+  name: string;
+  description?: string;
+  rule: BadgeRule;
+  isActive: boolean;
+}
+
+export interface BadgeData {
+  key?: string;
+  name?: string;
+  description?: string;
+  rule?: BadgeRule;
+  isActive?: boolean;
+}
+
+// Badge on a user's profile
+export interface EarnedBadge {
+  badge?: string;
+  key: string;
+  name: string;
+  description?: string;
+  earnedAt: string;
+}
+
+export interface LevelThreshold {
+  level: string;
+  minPoints: number;
+}
+
+export interface BadgeCatalogue {
+  badges: Badge[];
+  // Metric -> what it measures
+  metrics: Record<BadgeMetric, string>;
+  trainingCategories: string[];
+}
+
+class BadgeService {
+  async getBadges(all = false): Promise<BadgeCatalogue> {
+    const response = await api.get('/badges', { params: all ? { all: true } : undefined });
+    return response.data.data;
+  }
+
+  // Highest level first
+  async getLevels(): Promise<LevelThreshold[]> {
+    const response = await api.get('/badges/levels');
+    return response.data?.data?.levels || [];
+  }
+
+  // Badge managers only
+  async createBadge(data: BadgeData) {
+    const response = await api.post('/badges', data);
+    return response.data;
+  }
+
+  async updateBadge(id: string, data: BadgeData) {
+    const response = await api.put(`/badges/${id}`, data);
+    return response.data;
+  }
+
+  async updateLevels(levels: Record<string, number>) {
+    const response = await api.put('/badges/levels', levels);
+    return response.data;
+  }
+}
+
+export const badgeService = new BadgeService();
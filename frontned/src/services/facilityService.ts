@@ -7,6 +7,7 @@ interface FacilityParams {
   latitude?: number;
   radius?: number;
   limit?: number;
+  zone?: string;
 }
 
 class FacilityService {
@@ -35,6 +36,10 @@ class FacilityService {
         queryParams.limit = params.limit;
       }
 
+      if (params?.zone) {
+        queryParams.zone = params.zone;
+      }
+
       const response = await api.get('/facilities', { params: queryParams });
       return response.data;
     } catch (error) {
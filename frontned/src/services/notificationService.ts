@@ -0,0 +1,123 @@
+import axios from 'axios';
+import api from './api';
+
+// Service worker showing push notifications (public/push-sw.js)
+const PUSH_WORKER = '/push-sw.js';
+
+// VAPID keys are base64url; the Push API wants the raw bytes
+const keyBytes = (key: string) => {
+  const base64 = (key + '='.repeat((4 - key.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
+export type NotificationType =
+  | 'report_claimed'
+  | 'report_assigned'
+  | 'report_offered'
+  | 'report_status'
+  | 'report_returned'
+  | 'report_reopened'
+  | 'report_verified'
+  | 'report_merged'
+  | 'training_completed'
+  | 'penalty_issued'
+  | 'penalty_updated'
+  | 'redemption_created'
+  | 'redemption_fulfilled'
+  | 'redemption_cancelled'
+  | 'collection_reminder';
+
+export interface AppNotification {
+  _id: string;
+  type: NotificationType;
+  title: string;
+  message?: string;
+  // Page of the app to open
+  link?: string;
+  data?: Record<string, string>;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export interface NotificationPage {
+  notifications: AppNotification[];
+  unreadCount: number;
+  pagination: {
+    current: number;
+    pages: number;
+    total: number;
+  };
+}
+
+class NotificationService {
+  async getNotifications(params?: { page?: number; limit?: number; unread?: boolean }): Promise<NotificationPage> {
+    const response = await api.get('/notifications', { params });
+    return response.data.data;
+  }
+
+  async getUnreadCount(): Promise<number> {
+    const response = await api.get('/notifications/unread-count');
+    return response.data?.data?.unreadCount || 0;
+  }
+
+  // Returns the unread count left
+  async markRead(id: string): Promise<number> {
+    const response = await api.put(`/notifications/${id}/read`);
+    return response.data.data.unreadCount;
+  }
+
+  async markAllRead() {
+    const response = await api.put('/notifications/read-all');
+    return response.data;
+  }
+
+  isPushSupported() {
+    return 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+  }
+
+  // Null when the server does not send push notifications
+  async getPushKey(): Promise<string | null> {
+    try {
+      const response = await api.get('/notifications/push/key');
+      return response.data.data.publicKey;
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 404) return null;
+      throw err;
+    }
+  }
+
+  // This browser's subscription, if it has one
+  async getPushSubscription(): Promise<PushSubscription | null> {
+    if (!this.isPushSupported()) return null;
+    const registration = await navigator.serviceWorker.getRegistration(PUSH_WORKER);
+    return registration ? registration.pushManager.getSubscription() : null;
+  }
+
+  async enablePush() {
+    const publicKey = await this.getPushKey();
+    if (!publicKey) throw new Error('Push notifications are not available');
+    if (await Notification.requestPermission() !== 'granted') {
+      throw new Error('Allow notifications for this site in your browser to receive them');
+    }
+
+    const registration = await navigator.serviceWorker.register(PUSH_WORKER);
+    await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.getSubscription() ||
+      await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: keyBytes(publicKey)
+      });
+
+    const response = await api.post('/notifications/push/subscriptions', subscription.toJSON());
+    return response.data;
+  }
+
+  async disablePush() {
+    const subscription = await this.getPushSubscription();
+    if (!subscription) return;
+    await api.delete('/notifications/push/subscriptions', { data: { endpoint: subscription.endpoint } });
+    await subscription.unsubscribe();
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,113 @@
+import api from './api';
+import { ReportImage } from './wasteService';
+
+export type PenaltyStatus = 'pending' | 'disputed' | 'paid' | 'waived';
+
+export type PenaltyViolation = 'illegal_dumping' | 'not_segregating' | 'burning_waste' | 'littering' | 'other';
+
+export type PenaltyAction = 'disputed' | 'dispute_upheld' | 'dispute_rejected' | 'paid' | 'waived';
+
+export interface PenaltyHistoryEntry {
+  _id: string;
+  action: 'issued' | PenaltyAction;
+  fromStatus?: PenaltyStatus;
+  toStatus: PenaltyStatus;
+  by?: { _id: string; name: string; role: string } | null;
+  notes?: string;
+  at: string;
+}
+
+export interface Penalty {
+  _id: string;
+  user: { _id: string; name: string; email: string; phone?: string };
+  report?: {
+    _id: string;
+    wasteType: string;
+    status: string;
+    location?: { address?: { street?: string; city?: string } };
+    createdAt: string;
+  } | null;
+  violation: PenaltyViolation;
+  amount: number;
+  reason: string;
+  dueDate?: string;
+  evidence: ReportImage[];
+  status: PenaltyStatus;
+  issuedBy?: { _id: string; name: string } | null;
+  dispute?: { statement?: string; submittedAt?: string };
+  payment?: { reference?: string; paidAt?: string };
+  history: PenaltyHistoryEntry[];
+  // What the signed-in user can do with it now
+  allowedActions: { action: PenaltyAction; label: string; requires: 'statement' | 'notes' | null }[];
+  createdAt: string;
+}
+
+export interface IssuePenaltyData {
+  user: string;
+  report: string;
+  violation: PenaltyViolation;
+  amount: number;
+  reason: string;
+  dueDate?: string;
+}
+
+export interface Offender {
+  _id: string;
+  name: string;
+  email: string;
+  phone?: string;
+}
+
+class PenaltyService {
+  async getMyPenalties(): Promise<Penalty[]> {
+    const response = await api.get('/penalties/mine');
+    return response.data?.data?.penalties || [];
+  }
+
+  async dispute(id: string, statement: string) {
+    const response = await api.post(`/penalties/${id}/dispute`, { statement });
+    return response.data;
+  }
+
+  // Issuers and managers
+  async getPenalties(params?: { status?: PenaltyStatus; user?: string; report?: string; page?: number; limit?: number }) {
+    const response = await api.get('/penalties', { params });
+    return response.data.data as { penalties: Penalty[]; pagination: { current: number; pages: number; total: number } };
+  }
+
+  async findOffenders(q: string): Promise<Offender[]> {
+    const response = await api.get('/penalties/offenders', { params: { q } });
+    return response.data?.data?.users || [];
+  }
+
+  async issue(data: IssuePenaltyData, evidence: File[]) {
+    const formData = new FormData();
+    Object.entries(data).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') formData.append(key, String(value));
+    });
+    evidence.forEach(file => formData.append('evidence', file));
+
+    const response = await api.post('/penalties', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' }
+    });
+    return response.data;
+  }
+
+  // Managers only
+  async resolveDispute(id: string, outcome: 'upheld' | 'rejected', notes?: string) {
+    const response = await api.post(`/penalties/${id}/resolve`, { outcome, notes });
+    return response.data;
+  }
+
+  async markPaid(id: string, reference?: string) {
+    const response = await api.post(`/penalties/${id}/pay`, { reference });
+    return response.data;
+  }
+
+  async waive(id: string, notes: string) {
+    const response = await api.post(`/penalties/${id}/waive`, { notes });
+    return response.data;
+  }
+}
+
+export const penaltyService = new PenaltyService();
@@ -0,0 +1,43 @@
+import api from './api';
+
+export type PointSource =
+  | 'report'
+  | 'training'
+  | 'verification'
+  | 'admin_grant'
+  | 'redemption'
+  | 'opening_balance';
+
+// One entry of the rewards ledger
+export interface PointTransaction {
+  _id: string;
+  source: PointSource;
+  reference?: string;
+  amount: number;
+  // Balance right after this entry
+  balance: number;
+  reason?: string;
+  createdBy?: { _id: string; name: string } | null;
+  at: string;
+}
+
+export interface PointsHistory {
+  balance: number;
+  totalEarned: number;
+  level: string;
+  transactions: PointTransaction[];
+  pagination: {
+    current: number;
+    pages: number;
+    total: number;
+  };
+}
+
+class PointsService {
+  async getHistory(params?: { page?: number; limit?: number; source?: PointSource }): Promise<PointsHistory> {
+    const response = await api.get('/users/me/points/history', { params });
+    return response.data.data;
+  }
+}
+
+export const pointsService = new PointsService();
@@ -0,0 +1,151 @@
+import api, { TENANT_STORAGE_KEY } from './api';
+
+// Report event pushed by the server as it happens
+export interface ReportUpdate {
+  // created, claimed, assigned, status_changed, ... (see ReportEvent)
+  type: string;
+  event: string;
+  // Who caused it; missing for automatic events
+  actor?: string;
+  fromStatus?: string;
+  toStatus?: string;
+  at: string;
+  report: {
+    _id: string;
+    status: string;
+    wasteType: string;
+    severity?: string;
+    zones: string[];
+    team: string | null;
+    assignedWorker: string | null;
+  };
+}
+
+type ReportListener = (update: ReportUpdate) => void;
+
+// Told why live updates stopped for good
+type ErrorListener = (message: string) => void;
+
+// Wait before reconnecting after the stream dropped
+const RETRY_MS = 5000;
+
+// One open stream per zone selection, shared by its listeners
+interface Stream {
+  listeners: Set<ReportListener>;
+  errorListeners: Set<ErrorListener>;
+  controller: AbortController;
+  retryTimer?: number;
+  // Set once the server refused the stream; it is not retried
+  error?: string;
+}
+
+// Reads the Server-Sent Events stream with fetch rather than EventSource so
+// the token and municipality go in headers like every other request
+class RealtimeService {
+  private streams = new Map<string, Stream>();
+
+  // Calls `listener` with each report event the user may see, and `onError`
+  // when the server refuses the stream; returns a function that unsubscribes
+  subscribeToReports(listener: ReportListener, zones: string[] = [], onError?: ErrorListener) {
+    const key = [...zones].sort().join(',');
+    let stream = this.streams.get(key);
+    if (!stream) {
+      stream = { listeners: new Set(), errorListeners: new Set(), controller: new AbortController() };
+      this.streams.set(key, stream);
+      this.connect(key, stream);
+    }
+    stream.listeners.add(listener);
+    if (onError) {
+      stream.errorListeners.add(onError);
+      if (stream.error) onError(stream.error);
+    }
+
+    return () => {
+      const current = this.streams.get(key);
+      if (!current) return;
+      current.listeners.delete(listener);
+      if (onError) current.errorListeners.delete(onError);
+      if (current.listeners.size === 0) {
+        current.controller.abort();
+        window.clearTimeout(current.retryTimer);
+        this.streams.delete(key);
+      }
+    };
+  }
+
+  private async connect(key: string, stream: Stream, refreshed = false) {
+    const headers: Record<string, string> = { Accept: 'text/event-stream' };
+    const token = localStorage.getItem('token');
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    const tenant = localStorage.getItem(TENANT_STORAGE_KEY) || import.meta.env.VITE_TENANT;
+    if (tenant) headers['X-Tenant'] = tenant;
+
+    const url = `${api.defaults.baseURL}/realtime/stream${key ? `?zones=${encodeURIComponent(key)}` : ''}`;
+    try {
+      const response = await fetch(url, { headers, signal: stream.controller.signal });
+      if (response.status === 401 && !refreshed) {
+        // Any API call refreshes an expired token through the interceptor
+        await api.get('/auth/me').catch(() => undefined);
+        if (!stream.controller.signal.aborted) this.connect(key, stream, true);
+        return;
+      }
+      if (response.status >= 400 && response.status < 500) {
+        // Retrying will not change the answer (signed out, forbidden, bad zone)
+        const body = await response.json().catch(() => null);
+        this.fail(stream, body?.message || 'Live updates are not available');
+        return;
+      }
+      if (response.ok && response.body) {
+        await this.read(response.body, stream);
+      }
+    } catch (err) {
+      if (stream.controller.signal.aborted) return;
+      console.warn('Live updates interrupted:', err);
+    }
+
+    if (!stream.controller.signal.aborted) {
+      stream.retryTimer = window.setTimeout(() => this.connect(key, stream), RETRY_MS);
+    }
+  }
+
+  private fail(stream: Stream, message: string) {
+    console.error('Live updates stopped:', message);
+    stream.error = message;
+    stream.errorListeners.forEach(listener => listener(message));
+  }
+
+  private async read(body: ReadableStream<Uint8Array>, stream: Stream) {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Messages end with a blank line
+      let end = buffer.indexOf('\n\n');
+      while (end !== -1) {
+        this.dispatch(buffer.slice(0, end), stream);
+        buffer = buffer.slice(end + 2);
+        end = buffer.indexOf('\n\n');
+      }
+    }
+  }
+
+  private dispatch(message: string, stream: Stream) {
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of message.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+    }
+    if (event !== 'report' || data.length === 0) return;
+
+    const update: ReportUpdate = JSON.parse(data.join('\n'));
+    stream.listeners.forEach(listener => listener(update));
+  }
+}
+
+export const realtimeService = new RealtimeService();
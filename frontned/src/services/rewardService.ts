@@ -0,0 +1,99 @@
+import api from './api';
+
+export type RewardCategory = 'compost' | 'transport' | 'voucher' | 'merchandise' | 'other';
+
+export type RedemptionStatus = 'pending' | 'fulfilled' | 'cancelled';
+
+export interface Reward {
+  _id: string;
+  name: string;
+  description?: string;
+  category: RewardCategory;
+  partner?: string;
+  pointsCost: number;
+  stock: number;
+  imageUrl?: string;
+  isActive: boolean;
+}
+
+export interface RewardData {
+  name?: string;
+  description?: string;
+  category?: RewardCategory;
+  partner?: string;
+  pointsCost?: number;
+  stock?: number;
+  imageUrl?: string;
+  isActive?: boolean;
+}
+
+export interface Redemption {
+  _id: string;
+  user: string | { _id: string; name: string; email: string; phone?: string };
+  reward: string | Pick<Reward, '_id' | 'category' | 'partner' | 'imageUrl'>;
+  rewardName: string;
+  pointsCost: number;
+  voucherCode: string;
+  status: RedemptionStatus;
+  fulfilledAt?: string;
+  fulfilledBy?: { _id: string; name: string } | null;
+  cancelledAt?: string;
+  cancelledBy?: { _id: string; name: string } | null;
+  cancelReason?: string;
+  createdAt: string;
+}
+
+export interface RedemptionPage {
+  redemptions: Redemption[];
+  pagination: {
+    current: number;
+    pages: number;
+    total: number;
+  };
+}
+
+class RewardService {
+  // Active catalogue; managers can ask for inactive items too
+  async getRewards(all = false): Promise<Reward[]> {
+    const response = await api.get('/rewards', { params: all ? { all: true } : undefined });
+    return response.data?.data?.rewards || [];
+  }
+
+  async redeem(id: string): Promise<{ message: string; redemption: Redemption }> {
+    const response = await api.post(`/rewards/${id}/redeem`);
+    return { message: response.data.message, redemption: response.data.data.redemption };
+  }
+
+  async getMyRedemptions(params?: { page?: number; limit?: number }): Promise<RedemptionPage> {
+    const response = await api.get('/rewards/redemptions/mine', { params });
+    return response.data.data;
+  }
+
+  // Reward managers only
+  async getRedemptions(params?: { status?: RedemptionStatus; code?: string; page?: number; limit?: number }): Promise<RedemptionPage> {
+    const response = await api.get('/rewards/redemptions', { params });
+    return response.data.data;
+  }
+
+  async createReward(data: RewardData) {
+    const response = await api.post('/rewards', data);
+    return response.data;
+  }
+
+  async updateReward(id: string, data: RewardData) {
+    const response = await api.put(`/rewards/${id}`, data);
+    return response.data;
+  }
+
+  async fulfilRedemption(id: string) {
+    const response = await api.put(`/rewards/redemptions/${id}/fulfil`);
+    return response.data;
+  }
+
+  async cancelRedemption(id: string, reason?: string) {
+    const response = await api.put(`/rewards/redemptions/${id}/cancel`, { reason });
+    return response.data;
+  }
+}
+
+export const rewardService = new RewardService();
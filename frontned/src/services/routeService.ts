@@ -0,0 +1,121 @@
+import api from './api';
+
+export type RouteStatus = 'planned' | 'in_progress' | 'completed' | 'cancelled';
+export type StopStatus = 'pending' | 'arrived' | 'completed' | 'skipped';
+
+export interface RouteStop {
+  _id: string;
+  order: number;
+  kind: 'report' | 'pickup' | 'disposal';
+  report?: {
+    _id: string;
+    wasteType: string;
+    estimatedQuantity: string;
+    status: string;
+    description?: string;
+    location?: {
+      address?: {
+        street?: string;
+        city?: string;
+      };
+    };
+  } | null;
+  facility?: string;
+  label?: string;
+  location: [number, number];
+  estimatedLoad: number;
+  plannedArrival?: string;
+  actualArrival?: string;
+  completedAt?: string;
+  status: StopStatus;
+  notes?: string;
+}
+
+export interface CollectionRoute {
+  _id: string;
+  date: string;
+  vehicle: {
+    _id: string;
+    vehicleId: string;
+    type: string;
+    capacity: { value: number; unit: string };
+    status: string;
+  };
+  driver: {
+    _id: string;
+    name: string;
+    phone?: string;
+  };
+  status: RouteStatus;
+  endFacility: {
+    _id: string;
+    name: string;
+    type: string;
+  };
+  stops: RouteStop[];
+  totalDistanceMeters: number;
+  plannedStart?: string;
+  plannedEnd?: string;
+  actualStart?: string;
+  actualEnd?: string;
+  optimizedAt?: string;
+}
+
+export interface RouteInput {
+  vehicleId: string;
+  driverId?: string;
+  date: string;
+  plannedStart?: string;
+  endFacilityId?: string;
+  reportIds?: string[];
+  includeAssigned?: boolean;
+  pickups?: Array<{
+    label: string;
+    coordinates: [number, number];
+    estimatedLoad?: number;
+  }>;
+}
+
+class RouteService {
+  async getRoutes(params?: { date?: string; vehicle?: string; driver?: string; status?: string }): Promise<CollectionRoute[]> {
+    const response = await api.get('/routes', { params });
+    return response.data?.data?.routes || [];
+  }
+
+  async getMyRoutes(date?: string): Promise<CollectionRoute[]> {
+    const response = await api.get('/routes/mine', { params: date ? { date } : undefined });
+    return response.data?.data?.routes || [];
+  }
+
+  async createRoute(route: RouteInput) {
+    const response = await api.post('/routes', route);
+    return response.data;
+  }
+
+  async optimizeRoute(id: string) {
+    const response = await api.post(`/routes/${id}/optimize`);
+    return response.data;
+  }
+
+  async updateStop(id: string, stopId: string, status: Exclude<StopStatus, 'pending'>, notes?: string) {
+    const response = await api.put(`/routes/${id}/stops/${stopId}`, { status, notes });
+    return response.data;
+  }
+
+  async updateStatus(id: string, status: Exclude<RouteStatus, 'planned'>) {
+    const response = await api.put(`/routes/${id}/status`, { status });
+    return response.data;
+  }
+
+  async deleteRoute(id: string) {
+    const response = await api.delete(`/routes/${id}`);
+    return response.data;
+  }
+
+  // Stops the driver still has to visit
+  getRemainingStops(route: CollectionRoute) {
+    return route.stops.filter(stop => stop.status === 'pending' || stop.status === 'arrived');
+  }
+}
+
+export const routeService = new RouteService();
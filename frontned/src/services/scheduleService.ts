@@ -0,0 +1,160 @@
+import api from './api';
+import { Zone } from './zoneService';
+
+export type CollectionStream = 'general' | 'recyclables' | 'organic' | 'hazardous' | 'electronic' | 'bulky';
+
+export const STREAM_LABELS: Record<CollectionStream, string> = {
+  general: 'General waste',
+  recyclables: 'Recyclables',
+  organic: 'Organic waste',
+  hazardous: 'Hazardous waste',
+  electronic: 'E-waste',
+  bulky: 'Bulky items'
+};
+
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+type ZoneSummary = Pick<Zone, '_id' | 'name' | 'code' | 'kind'>;
+
+// Recurring pickup of one stream in one zone; days are "YYYY-MM-DD" and
+// times "HH:MM", local to the municipality
+export interface CollectionSchedule {
+  _id: string;
+  zone: ZoneSummary;
+  stream: CollectionStream;
+  // 0 = Sunday ... 6 = Saturday
+  days: number[];
+  everyWeeks: number;
+  startsOn: string;
+  endsOn?: string;
+  time: string;
+  notes?: string;
+  isActive: boolean;
+}
+
+export interface ScheduleData {
+  zone?: string;
+  stream?: CollectionStream;
+  days?: number[];
+  everyWeeks?: number;
+  startsOn?: string;
+  endsOn?: string | null;
+  time?: string;
+  notes?: string;
+  isActive?: boolean;
+}
+
+// Holiday or reschedule
+export interface CollectionException {
+  _id: string;
+  date: string;
+  name: string;
+  action: 'cancel' | 'move';
+  movedTo?: string;
+  time?: string;
+  schedule?: Pick<CollectionSchedule, '_id' | 'stream' | 'days' | 'time'> & { zone: { _id: string; name: string } } | null;
+  zones: ZoneSummary[];
+  streams: CollectionStream[];
+}
+
+export interface ExceptionData {
+  date: string;
+  name: string;
+  action: 'cancel' | 'move';
+  movedTo?: string;
+  time?: string;
+  schedule?: string;
+  zones?: string[];
+  streams?: CollectionStream[];
+}
+
+export interface Pickup {
+  schedule: string;
+  zone: ZoneSummary;
+  stream: CollectionStream;
+  date: string;
+  time: string;
+  status: 'scheduled' | 'moved' | 'cancelled';
+  // Usual day of a moved pickup
+  originalDate?: string;
+  // Holiday or reschedule behind a change
+  reason?: string;
+  notes?: string;
+}
+
+export interface CollectionReminder {
+  _id: string;
+  date: string;
+  message: string;
+  sentAt: string;
+}
+
+export interface MyCollections {
+  // False when the user's address has no position yet
+  located: boolean;
+  today: string;
+  zones: ZoneSummary[];
+  next: Pickup[];
+  upcoming: Pickup[];
+  reminders: CollectionReminder[];
+}
+
+const calendarAddress = (path: string) =>
+  new URL(path, new URL(api.defaults.baseURL || '/', window.location.origin)).toString();
+
+class ScheduleService {
+  async getMyPickups(days?: number): Promise<MyCollections> {
+    const response = await api.get('/schedules/next', { params: { days } });
+    return response.data.data;
+  }
+
+  async getSchedules(zone?: string): Promise<CollectionSchedule[]> {
+    const response = await api.get('/schedules', { params: { zone } });
+    return response.data?.data?.schedules || [];
+  }
+
+  async createSchedule(data: ScheduleData) {
+    const response = await api.post('/schedules', data);
+    return response.data;
+  }
+
+  async updateSchedule(id: string, data: ScheduleData) {
+    const response = await api.put(`/schedules/${id}`, data);
+    return response.data;
+  }
+
+  async deleteSchedule(id: string) {
+    const response = await api.delete(`/schedules/${id}`);
+    return response.data;
+  }
+
+  async getExceptions(from?: string): Promise<CollectionException[]> {
+    const response = await api.get('/schedules/exceptions', { params: { from } });
+    return response.data?.data?.exceptions || [];
+  }
+
+  async createException(data: ExceptionData) {
+    const response = await api.post('/schedules/exceptions', data);
+    return response.data;
+  }
+
+  async deleteException(id: string) {
+    const response = await api.delete(`/schedules/exceptions/${id}`);
+    return response.data;
+  }
+
+  // Secret address of the user's collection calendar; the API answers with a
+  // path, calendar apps need it absolute
+  async getCalendarUrl(): Promise<string> {
+    const response = await api.get('/schedules/calendar');
+    return calendarAddress(response.data.data.url);
+  }
+
+  // New address; calendars subscribed to the old one stop updating
+  async resetCalendarUrl(): Promise<string> {
+    const response = await api.post('/schedules/calendar/reset');
+    return calendarAddress(response.data.data.url);
+  }
+}
+
+export const scheduleService = new ScheduleService();
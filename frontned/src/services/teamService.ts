@@ -0,0 +1,99 @@
+import api from './api';
+import { Zone } from './zoneService';
+
+export interface TeamPerson {
+  _id: string;
+  name: string;
+  email: string;
+  phone?: string;
+  workerProfile?: {
+    skills?: string[];
+  };
+}
+
+export interface Team {
+  _id: string;
+  name: string;
+  supervisor: TeamPerson;
+  members: TeamPerson[];
+  zone?: Pick<Zone, '_id' | 'name' | 'code' | 'kind'> | null;
+  isActive: boolean;
+}
+
+export interface TeamData {
+  name?: string;
+  supervisor?: string;
+  members?: string[];
+  zone?: string | null;
+  isActive?: boolean;
+}
+
+// Worker or supervisor that can be put in a team
+export interface TeamCandidate {
+  _id: string;
+  name: string;
+  email: string;
+  role: 'waste_worker' | 'supervisor';
+  team?: string | null;
+}
+
+export interface MemberKpis {
+  worker: Pick<TeamPerson, '_id' | 'name' | 'email'>;
+  assigned: number;
+  inProgress: number;
+  completed: number;
+  awaitingApproval: number;
+  approved: number;
+  returned: number;
+  reopens: number;
+  avgCompletionHours: number | null;
+}
+
+export interface TeamKpis {
+  period: { days: number; since: string };
+  // Unassigned reports waiting in the team's zone
+  backlog: number;
+  totals: Omit<MemberKpis, 'worker'>;
+  members: MemberKpis[];
+}
+
+class TeamService {
+  // Team the signed-in supervisor leads
+  async getMyTeam(): Promise<Team | null> {
+    const response = await api.get('/teams/mine');
+    return response.data?.data?.team || null;
+  }
+
+  async getTeamKpis(id: string, days = 30): Promise<TeamKpis> {
+    const response = await api.get(`/teams/${id}/kpis`, { params: { days } });
+    return response.data.data.kpis;
+  }
+
+  // Team managers only
+  async getTeams(): Promise<Team[]> {
+    const response = await api.get('/teams');
+    return response.data?.data?.teams || [];
+  }
+
+  async getCandidates(): Promise<TeamCandidate[]> {
+    const response = await api.get('/teams/candidates');
+    return response.data?.data?.users || [];
+  }
+
+  async createTeam(data: TeamData) {
+    const response = await api.post('/teams', data);
+    return response.data;
+  }
+
+  async updateTeam(id: string, data: TeamData) {
+    const response = await api.put(`/teams/${id}`, data);
+    return response.data;
+  }
+
+  async deleteTeam(id: string) {
+    const response = await api.delete(`/teams/${id}`);
+    return response.data;
+  }
+}
+
+export const teamService = new TeamService();
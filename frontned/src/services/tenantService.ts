@@ -0,0 +1,85 @@
+import api, { TENANT_STORAGE_KEY } from './api';
+
+export interface TenantBranding {
+  displayName?: string;
+  logoUrl?: string;
+  primaryColor?: string;
+  supportEmail?: string;
+  supportPhone?: string;
+}
+
+export interface Tenant {
+  _id: string;
+  name: string;
+  slug: string;
+  branding?: TenantBranding;
+  // IANA time zone collection days are local to
+  timezone?: string;
+  isActive?: boolean;
+  // Only in the super admin list
+  userCount?: number;
+  reportCount?: number;
+}
+
+export interface CreateTenantData {
+  name: string;
+  slug: string;
+  branding?: TenantBranding;
+  timezone?: string;
+  admin: {
+    name: string;
+    email: string;
+    password: string;
+  };
+}
+
+class TenantService {
+  // Municipality the app currently works in (from the user or X-Tenant)
+  async getCurrent(): Promise<Tenant | null> {
+    const response = await api.get('/tenants/current');
+    return response.data?.data?.tenant || null;
+  }
+
+  // Active municipalities to register with
+  async getPublicTenants(): Promise<Tenant[]> {
+    const response = await api.get('/tenants/public');
+    return response.data?.data?.tenants || [];
+  }
+
+  // Slug sent as X-Tenant; signed-in users other than super admins always
+  // work in their own municipality regardless
+  getSelected(): string | null {
+    return localStorage.getItem(TENANT_STORAGE_KEY);
+  }
+
+  setSelected(slug: string | null) {
+    if (slug) {
+      localStorage.setItem(TENANT_STORAGE_KEY, slug);
+    } else {
+      localStorage.removeItem(TENANT_STORAGE_KEY);
+    }
+  }
+
+  async updateBranding(branding: TenantBranding) {
+    const response = await api.put('/tenants/current/branding', branding);
+    return response.data;
+  }
+
+  // Super admin only
+  async getTenants(): Promise<Tenant[]> {
+    const response = await api.get('/tenants');
+    return response.data?.data?.tenants || [];
+  }
+
+  async createTenant(data: CreateTenantData) {
+    const response = await api.post('/tenants', data);
+    return response.data;
+  }
+
+  async updateTenant(id: string, updates: { name?: string; isActive?: boolean; branding?: TenantBranding; timezone?: string }) {
+    const response = await api.put(`/tenants/${id}`, updates);
+    return response.data;
+  }
+}
+
+export const tenantService = new TenantService();
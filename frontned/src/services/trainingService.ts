@@ -1,4 +1,5 @@
 import api from './api';
+import { EarnedBadge } from './badgeService';
 
 export interface QuizAnswer {
   questionIndex: number;
@@ -44,6 +45,7 @@ export interface QuizResult {
   correctAnswers: number;
   totalQuestions: number;
   pointsEarned?: number;
+  badgesEarned?: EarnedBadge[];
 }
 
 export interface CreateModuleData {
@@ -157,7 +159,8 @@ class TrainingService {
         score: data.score || 0,
         correctAnswers: data.correctAnswers || 0,
         totalQuestions: data.totalQuestions || 0,
-        pointsEarned: data.pointsEarned || 0
+        pointsEarned: data.pointsEarned || 0,
+        badgesEarned: data.badgesEarned || []
       };
     } catch (error) {
       console.error('Error submitting quiz:', error);
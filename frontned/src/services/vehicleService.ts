@@ -0,0 +1,150 @@
+import api from './api';
+
+export type VehicleType = 'garbage_truck' | 'recycling_truck' | 'sweeper' | 'compactor' | 'tipper';
+export type VehicleStatus = 'available' | 'in_route' | 'loading' | 'maintenance' | 'out_of_service';
+
+export const VEHICLE_TYPES: VehicleType[] = ['garbage_truck', 'recycling_truck', 'sweeper', 'compactor', 'tipper'];
+export const VEHICLE_STATUSES: VehicleStatus[] = ['available', 'in_route', 'loading', 'maintenance', 'out_of_service'];
+
+export interface Vehicle {
+  _id: string;
+  vehicleId: string;
+  type: VehicleType;
+  capacity: {
+    value: number;
+    unit: 'tons' | 'cubic_meters';
+  };
+  status: VehicleStatus;
+  fuelLevel?: number;
+  driver?: {
+    _id: string;
+    name: string;
+    email?: string;
+    phone?: string;
+  } | null;
+  maintenanceSchedule?: {
+    lastService?: string | null;
+    nextService?: string | null;
+    mileage?: number | null;
+  };
+  currentLocation?: {
+    type?: 'Point';
+    coordinates?: [number, number];
+    lastUpdated?: string;
+    speed?: number;
+    heading?: number;
+    activity?: TrackActivity;
+  };
+  openReports?: number;
+}
+
+export type TrackActivity = 'driving' | 'idle' | 'collecting' | 'unloading' | 'refueling' | 'break';
+
+export interface LiveVehicle extends Vehicle {
+  currentLocation: NonNullable<Vehicle['currentLocation']> & {
+    coordinates: [number, number];
+    lastUpdated: string;
+  };
+  stale: boolean;
+}
+
+export interface TrackFix {
+  location: [number, number];
+  timestamp: string;
+  speed?: number;
+  heading?: number;
+  accuracy?: number;
+  activity?: TrackActivity;
+}
+
+export interface VehicleTrack {
+  vehicle: Pick<Vehicle, '_id' | 'vehicleId' | 'type'>;
+  from: string;
+  to: string;
+  fixes: TrackFix[];
+  distanceMeters: number;
+}
+
+export interface TelemetryFix {
+  coordinates: [number, number];
+  timestamp: string;
+  speed?: number;
+  heading?: number;
+  accuracy?: number;
+  activity?: TrackActivity;
+}
+
+export interface VehicleInput {
+  vehicleId?: string;
+  type?: VehicleType;
+  capacity?: Vehicle['capacity'];
+  fuelLevel?: number;
+  maintenanceSchedule?: Vehicle['maintenanceSchedule'];
+}
+
+class VehicleService {
+  async getVehicles(params?: {
+    status?: string;
+    type?: string;
+    search?: string;
+    serviceDue?: boolean;
+  }): Promise<Vehicle[]> {
+    const response = await api.get('/vehicles', { params });
+    return response.data?.data?.vehicles || [];
+  }
+
+  async getMyVehicle(): Promise<Vehicle | null> {
+    const response = await api.get('/vehicles/mine');
+    return response.data?.data?.vehicle || null;
+  }
+
+  async createVehicle(vehicle: VehicleInput) {
+    const response = await api.post('/vehicles', vehicle);
+    return response.data;
+  }
+
+  async updateVehicle(id: string, vehicle: VehicleInput) {
+    const response = await api.put(`/vehicles/${id}`, vehicle);
+    return response.data;
+  }
+
+  async deleteVehicle(id: string) {
+    const response = await api.delete(`/vehicles/${id}`);
+    return response.data;
+  }
+
+  async assignDriver(id: string, driverId: string | null) {
+    const response = await api.put(`/vehicles/${id}/driver`, { driverId });
+    return response.data;
+  }
+
+  async updateStatus(id: string, status: VehicleStatus) {
+    const response = await api.put(`/vehicles/${id}/status`, { status });
+    return response.data;
+  }
+
+  async getLiveVehicles(): Promise<LiveVehicle[]> {
+    const response = await api.get('/vehicles/live');
+    return response.data?.data?.vehicles || [];
+  }
+
+  async getTrack(id: string, from: Date, to: Date): Promise<VehicleTrack> {
+    const response = await api.get(`/vehicles/${id}/track`, {
+      params: { from: from.toISOString(), to: to.toISOString() }
+    });
+    return response.data.data;
+  }
+
+  async sendTelemetry(id: string, fixes: TelemetryFix[]) {
+    const response = await api.post(`/vehicles/${id}/telemetry`, { fixes });
+    return response.data;
+  }
+
+  // Whether the vehicle is due (or overdue) for its next service
+  isServiceDue(vehicle: Vehicle) {
+    const nextService = vehicle.maintenanceSchedule?.nextService;
+    return !!nextService && new Date(nextService).getTime() <= Date.now();
+  }
+}
+
+export const vehicleService = new VehicleService();
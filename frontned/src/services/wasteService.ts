@@ -18,8 +18,112 @@ export interface WasteReportData {
   description: string;
 }
 
+// Image metadata as returned by the API (binary data is served separately)
+export type ImageSize = 'thumb' | 'medium' | 'original';
+
+export interface ReportImage {
+  _id?: string;
+  filename: string;
+  originalName?: string;
+  mimetype?: string;
+  size?: number;
+  width?: number;
+  height?: number;
+  uploadedAt?: string;
+  source?: string;
+  // Signed path, only present when the user may see the image
+  url?: string;
+  // Photo's EXIF compared with the report on upload
+  exif?: {
+    takenAt?: string;
+    distanceMeters?: number;
+    locationMismatch?: boolean;
+    timeMismatch?: boolean;
+  };
+  // The same picture is already attached to this other report
+  possibleReuseOf?: {
+    report: string;
+    filename: string;
+    distance: number;
+  };
+}
+
+// A status change the current user may trigger, as returned by the API
+export interface ReportTransition {
+  status: string;
+  label: string;
+  requires: string[];
+}
+
+// One entry of a report's audit trail
+export interface ReportEvent {
+  _id: string;
+  type:
+    | 'created'
+    | 'status_changed'
+    | 'claimed'
+    | 'assigned'
+    | 'verified'
+    | 'reopened'
+    | 'photos_added'
+    | 'reward_awarded'
+    | 'supported'
+    | 'merged'
+    | 'reward_revoked'
+    | 'dispatch_offered'
+    | 'dispatch_declined'
+    | 'completion_approved'
+    | 'completion_returned';
+  actor?: {
+    _id: string;
+    name: string;
+    role: string;
+  } | null;
+  actorRole?: string;
+  fromStatus?: string;
+  toStatus?: string;
+  notes?: string;
+  meta?: Record<string, unknown>;
+  at: string;
+}
+
+// An open report nearby that may describe the same issue
+// Collection day agreed when assigning; day "YYYY-MM-DD" and times "HH:MM",
+// local to the municipality
+export interface ScheduledCollectionData {
+  date: string;
+  timeSlot?: {
+    start: string;
+    end?: string;
+  };
+}
+
+export interface DuplicateCandidate {
+  _id: string;
+  wasteType: string;
+  category?: string;
+  severity?: string;
+  description: string;
+  status: string;
+  location: {
+    coordinates: [number, number];
+    address?: {
+      street?: string;
+      city?: string;
+    };
+  };
+  images: ReportImage[];
+  supporterCount: number;
+  reporter?: { _id: string; name: string } | null;
+  createdAt: string;
+  sameWasteType: boolean;
+  distanceMeters: number;
+}
+
 class WasteService {
-  async createReport(reportData: WasteReportData, images?: FileList) {
+  // The API answers 409 / POSSIBLE_DUPLICATE with nearby candidates unless
+  // ignoreDuplicates is set
+  async createReport(reportData: WasteReportData, images?: FileList, options?: { ignoreDuplicates?: boolean }) {
     console.log('=== CREATING WASTE REPORT ===');
     
     const formData = new FormData();
@@ -46,6 +150,10 @@ class WasteService {
       formData.append('location.description', reportData.location.description);
     }
 
+    if (options?.ignoreDuplicates) {
+      formData.append('ignoreDuplicates', 'true');
+    }
+
     // Add images
     if (images && images.length > 0) {
       Array.from(images).forEach((file) => {
@@ -74,7 +182,8 @@ class WasteService {
     limit?: number;
     status?: string;
     wasteType?: string;
-    viewType?: 'my' | 'all'; // NEW: View mode for workers
+    zone?: string;
+    viewType?: 'my' | 'team' | 'all'; // View mode for workers and supervisors
   }) {
     console.log('=== GETTING REPORTS ===');
     console.log('Query parameters:', params);
@@ -158,6 +267,33 @@ class WasteService {
     return response.data;
   }
 
+  async getReportHistory(id: string): Promise<ReportEvent[]> {
+    const response = await api.get(`/waste/reports/${id}/history`, {
+      headers: {
+        Authorization: `Bearer ${localStorage.getItem('token')}`,
+      }
+    });
+    
+    return response.data.data.history;
+  }
+
+  // Transitions offered through the status endpoint. Assignment and merging
+  // are left out because they go through claimReport / assignWorker and
+  // mergeReport instead.
+  getStatusTransitions(report: { allowedTransitions?: ReportTransition[] }): ReportTransition[] {
+    return (report.allowedTransitions || []).filter(
+      (t) => !t.requires.includes('assignedWorker') && !t.requires.includes('duplicateOf')
+    );
+  }
+
+  canMerge(report: { allowedTransitions?: ReportTransition[] }) {
+    return (report.allowedTransitions || []).some((t) => t.status === 'merged');
+  }
+
+  canTransition(report: { allowedTransitions?: ReportTransition[] }, status: string) {
+    return this.getStatusTransitions(report).some((t) => t.status === status);
+  }
+
   async updateReportStatus(id: string, status: string, notes?: string) {
     console.log('=== UPDATING REPORT STATUS ===');
     
@@ -173,10 +309,143 @@ class WasteService {
     return response.data;
   }
 
-  // Admin manually assigns worker
-  async assignWorker(reportId: string, workerId: string) {
+  // Assigned worker attaches proof-of-collection photos
+  async uploadCollectionPhotos(id: string, stage: 'before' | 'after', images: File[]) {
+    const formData = new FormData();
+    formData.append('stage', stage);
+    images.forEach((file) => {
+      if (file.size > 0 && file.type.startsWith('image/')) {
+        formData.append('images', file, file.name);
+      }
+    });
+
+    const response = await api.post(`/waste/reports/${id}/collection-photos`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+        Authorization: `Bearer ${localStorage.getItem('token')}`,
+      },
+      timeout: 30000,
+    });
+    
+    return response.data;
+  }
+
+  // Reporter confirms that a completed collection was actually cleaned up
+  async verifyReport(id: string, rating: number, notes?: string) {
+    const response = await api.put(`/waste/reports/${id}/verify`, {
+      rating,
+      notes
+    }, {
+      headers: {
+        Authorization: `Bearer ${localStorage.getItem('token')}`,
+      }
+    });
+    
+    return response.data;
+  }
+
+  // Reporter sends a completed report back to the worker, optionally with new photos
+  async reopenReport(id: string, notes: string, images?: File[]) {
+    const formData = new FormData();
+    formData.append('notes', notes);
+    (images || []).forEach((file) => {
+      if (file.size > 0 && file.type.startsWith('image/')) {
+        formData.append('images', file, file.name);
+      }
+    });
+
+    const response = await api.post(`/waste/reports/${id}/reopen`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+        Authorization: `Bearer ${localStorage.getItem('token')}`,
+      },
+      timeout: 30000,
+    });
+    
+    return response.data;
+  }
+
+  // Citizen confirms an existing report (+1) instead of filing a duplicate
+  async supportReport(id: string, notes?: string, images?: File[]) {
+    const formData = new FormData();
+    if (notes) formData.append('notes', notes);
+    (images || []).forEach((file) => {
+      if (file.size > 0 && file.type.startsWith('image/')) {
+        formData.append('images', file, file.name);
+      }
+    });
+
+    const response = await api.post(`/waste/reports/${id}/support`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+        Authorization: `Bearer ${localStorage.getItem('token')}`,
+      },
+      timeout: 30000,
+    });
+    
+    return response.data;
+  }
+
+  // Staff: open reports near this one that may be the same issue
+  async getDuplicateCandidates(id: string): Promise<DuplicateCandidate[]> {
+    const response = await api.get(`/waste/reports/${id}/duplicates`, {
+      headers: {
+        Authorization: `Bearer ${localStorage.getItem('token')}`,
+      }
+    });
+    
+    return response.data?.data?.duplicates || [];
+  }
+
+  // Staff: merge a duplicate report into its parent
+  async mergeReport(id: string, parentId: string, notes?: string) {
+    const response = await api.put(`/waste/reports/${id}/merge`, {
+      parentId,
+      notes
+    }, {
+      headers: {
+        Authorization: `Bearer ${localStorage.getItem('token')}`,
+      }
+    });
+    
+    return response.data;
+  }
+
+  // Worker turns down a report offered by auto-dispatch
+  async declineOffer(id: string, notes?: string) {
+    const response = await api.put(`/waste/reports/${id}/offer/decline`, { notes }, {
+      headers: {
+        Authorization: `Bearer ${localStorage.getItem('token')}`,
+      }
+    });
+    
+    return response.data;
+  }
+
+  // Worker shares their current position for auto-dispatch
+  async updateMyLocation(longitude: number, latitude: number) {
+    const response = await api.put('/users/me/location', { longitude, latitude }, {
+      headers: {
+        Authorization: `Bearer ${localStorage.getItem('token')}`,
+      }
+    });
+    
+    return response.data;
+  }
+
+  // Admin manually assigns worker; without a vehicle the worker's own vehicle is used
+  async assignWorker(
+    reportId: string,
+    workerId: string,
+    vehicleId?: string,
+    scheduledCollection?: ScheduledCollectionData,
+    notes?: string
+  ) {
     const response = await api.put(`/waste/reports/${reportId}/assign`, { 
-      workerId 
+      workerId,
+      vehicleId,
+      scheduledCollection,
+      notes
     }, {
       headers: {
         Authorization: `Bearer ${localStorage.getItem('token')}`,
@@ -186,6 +455,29 @@ class WasteService {
     return response.data;
   }
 
+  // Saves the report's collection day as an .ics file for calendar apps
+  async downloadCollectionCalendar(reportId: string) {
+    const response = await api.get(`/waste/reports/${reportId}/collection.ics`, { responseType: 'blob' });
+    const url = URL.createObjectURL(response.data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `collection-${reportId}.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  // Supervisor hands a report to a member of their team
+  async reassignWithinTeam(reportId: string, workerId: string, notes?: string) {
+    const response = await api.put(`/waste/reports/${reportId}/reassign`, { workerId, notes });
+    return response.data;
+  }
+
+  // Supervisor approves a completed team report or returns it to the worker
+  async reviewCompletion(reportId: string, decision: 'approve' | 'return', notes?: string) {
+    const response = await api.put(`/waste/reports/${reportId}/review`, { decision, notes });
+    return response.data;
+  }
+
   // Get all workers (for admin)
   async getWorkers() {
     const response = await api.get('/waste/workers', {
@@ -208,13 +500,16 @@ class WasteService {
     return response.data;
   }
 
-  getImageUrl(filename: string) {
-    const token = localStorage.getItem('token');
+  // Signed, short-lived URL the API issued with the report. `size` picks a
+  // rendition; images uploaded before renditions existed are served at full
+  // size whatever is asked for. Null when the user may not see the image
+  getImageUrl(image: ReportImage, size: ImageSize = 'original') {
+    if (!image.url) return null;
     // Dynamically get the base URL from the current page
     const baseUrl = window.location.origin.includes('5173') 
       ? 'http://localhost:5000'  // Vite dev server runs on 5173, API on 5000
       : window.location.origin;   // In production, same origin
-    return `${baseUrl}/api/waste/image/${filename}${token ? `?token=${token}` : ''}`;
+    return `${baseUrl}${image.url}${size !== 'original' ? `&size=${size}` : ''}`;
   }
 }
 
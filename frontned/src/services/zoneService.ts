@@ -0,0 +1,83 @@
+import api from './api';
+
+export type ZoneKind = 'district' | 'ward';
+
+export interface Zone {
+  _id: string;
+  name: string;
+  code: string;
+  kind: ZoneKind;
+  parent?: string | null;
+  // [longitude, latitude]
+  center?: [number, number];
+  // [minLng, minLat, maxLng, maxLat]
+  bbox?: [number, number, number, number];
+  isActive: boolean;
+  geometry?: {
+    type: 'Polygon' | 'MultiPolygon';
+    coordinates: number[][][] | number[][][][];
+  };
+}
+
+export interface ZoneImportOptions {
+  kind: ZoneKind;
+  nameProperty?: string;
+  codeProperty?: string;
+}
+
+export interface ZoneImportResult {
+  created: number;
+  updated: number;
+  skipped: Array<{ index: number; reason: string }>;
+  zones: Array<Pick<Zone, '_id' | 'name' | 'code' | 'kind'>>;
+}
+
+class ZoneService {
+  async getZones(params?: { kind?: ZoneKind; parent?: string; geometry?: boolean; includeInactive?: boolean }): Promise<Zone[]> {
+    const response = await api.get('/zones', { params });
+    return response.data?.data?.zones || [];
+  }
+
+  async getZone(id: string): Promise<Zone> {
+    const response = await api.get(`/zones/${id}`);
+    return response.data?.data?.zone;
+  }
+
+  // Zones containing a point, districts first
+  async locate(longitude: number, latitude: number): Promise<Zone[]> {
+    const response = await api.get('/zones/locate', { params: { longitude, latitude } });
+    return response.data?.data?.zones || [];
+  }
+
+  async importZones(file: File, options: ZoneImportOptions): Promise<{ message: string; data: ZoneImportResult }> {
+    const formData = new FormData();
+    formData.append('file', file, file.name);
+    formData.append('kind', options.kind);
+    if (options.nameProperty) formData.append('nameProperty', options.nameProperty);
+    if (options.codeProperty) formData.append('codeProperty', options.codeProperty);
+
+    const response = await api.post('/zones/import', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      timeout: 120000
+    });
+    return response.data;
+  }
+
+  async updateZone(id: string, updates: { name?: string; isActive?: boolean }) {
+    const response = await api.put(`/zones/${id}`, updates);
+    return response.data;
+  }
+
+  async deleteZone(id: string) {
+    const response = await api.delete(`/zones/${id}`);
+    return response.data;
+  }
+
+  // "Ward 12 (Chennai)" for wards whose district is known
+  getLabel(zone: Zone, zones: Zone[]) {
+    const parent = zone.parent ? zones.find(candidate => candidate._id === zone.parent) : undefined;
+    return parent ? `${zone.name} (${parent.name})` : zone.name;
+  }
+}
+
+export const zoneService = new ZoneService();